@@ -0,0 +1,137 @@
+/**
+ * Admin Analysis Queue Endpoint
+ *
+ * GET: Inspect the scheduled-analysis queue for a day (?date=YYYY-MM-DD,
+ * default today UTC) - status counts, every item's state and the
+ * dead-letter list. Subscriber credentials are never returned.
+ * ?date=on_demand inspects the on-demand queue ("Request Analysis").
+ *
+ * POST { action: 'requeue', key, date? }: Put an item back to pending with
+ * fresh attempts. The next scheduled-analyses invocation (or on-demand
+ * worker sweep) picks it up.
+ *
+ * Requires admin authentication.
+ */
+
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAdmin } from '../../lib/core/auth';
+import { log, LogLevel } from '../../lib/core/logger';
+import {
+  getQueueStatus,
+  listDeadLetters,
+  listQueueItems,
+  requeueQueueItem,
+  ON_DEMAND_QUEUE,
+} from '../../lib/orchestration/queue-storage';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export default async function handler(req: VercelRequest, res: VercelResponse): Promise<void> {
+  // Require admin authentication
+  const session = await requireAdmin(req, res);
+  if (!session) {
+    return; // requireAdmin already sent error response
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+      message: 'Use GET to inspect the queue or POST to requeue an item.',
+    });
+    return;
+  }
+
+  const body = req.method === 'POST' ? req.body || {} : {};
+  const date = String((req.method === 'POST' ? body.date : req.query.date) || new Date().toISOString().split('T')[0]);
+
+  if (!DATE_PATTERN.test(date) && date !== ON_DEMAND_QUEUE) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid date',
+      message: `date must be in YYYY-MM-DD format or "${ON_DEMAND_QUEUE}".`,
+    });
+    return;
+  }
+
+  try {
+    if (req.method === 'POST') {
+      const { action, key } = body;
+
+      if (action !== 'requeue') {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid action',
+          message: 'action must be "requeue".',
+        });
+        return;
+      }
+
+      if (!key || typeof key !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid request',
+          message: 'key is required and must be a string.',
+        });
+        return;
+      }
+
+      const item = await requeueQueueItem(date, key);
+      if (!item) {
+        res.status(404).json({
+          success: false,
+          error: 'Not found',
+          message: `No item ${key} in the ${date} queue (queues expire after 24 hours - the stock will be picked up by its next scheduled run).`,
+        });
+        return;
+      }
+
+      log(LogLevel.INFO, 'Admin requeued analysis queue item', {
+        admin: session.email,
+        date,
+        key,
+        ticker: item.ticker,
+      });
+
+      res.status(200).json({
+        success: true,
+        message: `${item.ticker} requeued`,
+        item,
+      });
+      return;
+    }
+
+    const [status, items, deadLetters] = await Promise.all([
+      getQueueStatus(date),
+      listQueueItems(date),
+      listDeadLetters(),
+    ]);
+
+    log(LogLevel.INFO, 'Admin fetched analysis queue', {
+      admin: session.email,
+      date,
+      items: items.length,
+      deadLetters: deadLetters.length,
+    });
+
+    res.status(200).json({
+      success: true,
+      date,
+      status,
+      items,
+      deadLetters,
+    });
+  } catch (error) {
+    log(LogLevel.ERROR, 'Failed to access analysis queue', {
+      admin: session.email,
+      date,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    res.status(500).json({
+      success: false,
+      error: 'Failed to access analysis queue',
+      message: 'An error occurred while reading the queue.',
+    });
+  }
+}
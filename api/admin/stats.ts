@@ -6,11 +6,16 @@
  * - Users by status (pending, approved, denied)
  * - Total analyses today/lifetime
  * - Recent signups
+ * - LLM spend by user, model and day (?days=N, default 7, max 31)
  */
 
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import { requireAdmin, getAllUsers } from '../../lib/core/auth';
 import { log, LogLevel } from '../../lib/core/logger';
+import { getCostReport, MAX_REPORT_DAYS } from '../../lib/integrations/llm/cost-ledger';
+import { getDailyBudget } from '../../lib/integrations/llm/budget';
+
+const DEFAULT_COST_DAYS = 7;
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Require admin authentication
@@ -51,6 +56,33 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     // Active users (users with analyses in the last 7 days)
     const activeUsers = users.filter((u) => u.dailyAnalyses > 0).length;
 
+    // LLM spend from the cost ledger - a Redis failure only drops this section
+    const days = Math.min(
+      MAX_REPORT_DAYS,
+      parseInt(String(req.query.days || ''), 10) || DEFAULT_COST_DAYS
+    );
+    let llmCosts = null;
+    try {
+      const report = await getCostReport(days);
+      const usersById = new Map(users.map((u) => [u.id, u]));
+      llmCosts = {
+        ...report,
+        byUser: report.byUser.map((entry) => {
+          const user = usersById.get(entry.userId);
+          return {
+            ...entry,
+            email: user?.email || null,
+            tier: user?.subscriptionTier || null,
+            dailyBudget: getDailyBudget(user?.subscriptionTier),
+          };
+        }),
+      };
+    } catch (error) {
+      log(LogLevel.WARN, 'Failed to load LLM cost report', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
     log(LogLevel.INFO, 'Admin fetched stats', {
       admin: session.email,
     });
@@ -67,6 +99,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         recentSignups,
         activeUsers,
       },
+      llmCosts,
     });
   } catch (error) {
     log(LogLevel.ERROR, 'Failed to fetch stats', {
@@ -13,6 +13,11 @@
  *    - Child analysis page (dated)
  *    - Stock History database (archived)
  *
+ * Clients that send `Accept: text/event-stream` (or `?stream=1`) get Server-Sent
+ * Events instead of a single JSON body: `status` per workflow step, `chunk` for
+ * each piece of LLM text, `section` as each section lands in Notion, then
+ * `complete` (the JSON response) or `error`.
+ *
  * v1.0.3 - Timezone Support (Multi-timezone rate limiting and timestamp formatting)
  * v1.0.2 - LLM Integration (Gemini Flash 2.5)
  * v1.0 - Vercel Serverless + TypeScript
@@ -21,22 +26,33 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import { Client } from '@notionhq/client';
 import { createFMPClient } from '../../lib/integrations/fmp/client';
+import { createMarketDataService } from '../../lib/domain/market-data';
 import { createFREDClient } from '../../lib/integrations/fred/client';
 import { createStockScorer } from '../../lib/domain/analysis/scoring';
+import { resolveWeightProfile, formatWeights, RegimeWeightAdjustment } from '../../lib/domain/analysis/weight-profiles';
+import { ScoreAttribution } from '../../lib/domain/analysis/attribution';
+import { PatternAnalysis, formatPatternLabel, formatPatternSummary } from '../../lib/domain/analysis/chart-patterns';
+import { ScoringWeights } from '../../config/scoring/config';
 import { createNotionClient, AnalysisData } from '../../lib/integrations/notion/client';
+import { SectionWriter } from '../../lib/integrations/notion/section-writer';
 import { requireAuth as requireAuthSession, getUserByEmail, safeDecryptToken, incrementUserAnalyses, updateSetupProgress, getSetupProgress } from '../../lib/core/auth';
 import { validateStockData, validateTicker } from '../../lib/core/validators';
 import { createTimer, logAnalysisStart, logAnalysisComplete, logAnalysisFailed } from '../../lib/core/logger';
 import { formatErrorResponse, formatErrorForNotion, withRetry } from '../../lib/core/utils';
 import { getErrorCode, getStatusCode, RateLimitError } from '../../lib/core/errors';
 import { RateLimiter } from '../../lib/core/rate-limiter';
-import { LLMFactory } from '../../lib/integrations/llm/factory';
+import { createProviderForSelection, describeLLMSelection, resolveLLMSelection } from '../../lib/integrations/llm/preferences';
+import { applyBudget, checkLLMBudget, formatBudgetSkippedAnalysis } from '../../lib/integrations/llm/budget';
+import { recordLLMCost } from '../../lib/integrations/llm/cost-ledger';
+import { StructuredOutputError } from '../../lib/integrations/llm/structured';
+import { TradePlan } from '../../lib/domain/analysis/trade-plan';
 import { AnalysisContext, StockEvent } from '../../lib/integrations/llm/types';
 import { validateTimezone, getTimezoneFromEnv, getSecondsUntilMidnight } from '../../lib/shared/timezone';
 import { assertDatabasesValid } from '../../lib/shared/database-validator';
 import { reportAPIError } from '../../lib/shared/bug-reporter';
 import { getMarketContext, MarketContext } from '../../lib/domain/market/index'; // v1.1.0: Market context
 import { calculateDeltas } from '../../lib/domain/analysis/deltas'; // v1.0.8: Delta-first analysis
+import { dispatchAlerts } from '../../lib/domain/alerts';
 
 interface AnalyzeRequest {
   ticker: string;
@@ -64,7 +80,12 @@ interface AnalyzeResponse {
     sentiment: number;
     marketAlignment: number; // v1.1.0: Market alignment scoring
     recommendation: string;
+    weightProfile?: string; // Composite weight profile applied
+    weights?: ScoringWeights; // Weights applied to the composite (after regime tilt)
+    regimeAdjustment?: RegimeWeightAdjustment | null;
+    attribution?: ScoreAttribution; // Rules fired per category and composite contributions
   };
+  patterns?: PatternAnalysis; // Chart patterns and the move they predict
   dataQuality?: {
     completeness: number;
     grade: string;
@@ -86,7 +107,21 @@ interface AnalyzeResponse {
     };
     cost: number;
     latencyMs: number;
+    fallbackFrom?: string[]; // Models that failed before `model` served the analysis
+    promptVersion?: string; // Registered analysis prompt (unset when the narrative was skipped)
+    selectedBy: 'stock' | 'user' | 'default' | 'budget'; // Which preference level chose the provider
+    ownKey: boolean; // Served on the user's own API key
+    budget: {
+      action: 'full' | 'degrade' | 'skip'; // degrade = cheaper model, skip = scores only
+      spent: number; // Server-paid LLM spend today (UTC) before this analysis
+      limit: number; // Daily budget for the user's tier
+    };
+    tradePlan?: {
+      attempts: number;
+      cost: number;
+    };
   };
+  tradePlan?: TradePlan | null; // Structured trade plan (null if extraction failed)
   workflow?: {
     pollingCompleted: boolean;
     archived: boolean;
@@ -99,6 +134,7 @@ interface AnalyzeResponse {
     bypassed?: boolean;
   };
   analysisContent?: string; // v1.2.18: Return generated analysis text for preview
+  alertsDelivered?: number; // Alert rules that fired and were delivered
   error?: string;
   details?: string;
 }
@@ -217,6 +253,58 @@ async function queryUpcomingEvents(
   }
 }
 
+type AnalysisEventType = 'status' | 'chunk' | 'section' | 'complete' | 'error';
+
+interface AnalysisEventStream {
+  send(event: AnalysisEventType, data: unknown): void;
+  close(): void;
+}
+
+/** Comment line sent while Notion writes run, so idle proxies keep the stream open */
+const SSE_HEARTBEAT_MS = 15000;
+
+/**
+ * True if the client asked for Server-Sent Events
+ */
+function wantsEventStream(req: VercelRequest): boolean {
+  return (req.headers.accept || '').includes('text/event-stream') || req.query?.stream === '1';
+}
+
+function setRateLimitHeaders(res: VercelResponse, rateLimitResult: any): void {
+  if (!rateLimitResult) return;
+  res.setHeader('X-RateLimit-Remaining', rateLimitResult.remaining.toString());
+  res.setHeader('X-RateLimit-Total', rateLimitResult.total.toString());
+  res.setHeader('X-RateLimit-Reset', rateLimitResult.resetAt.toISOString());
+}
+
+/**
+ * Switch the response to an SSE stream (status is always 200 from here on;
+ * failures are reported as an `error` event)
+ */
+function openEventStream(res: VercelResponse): AnalysisEventStream {
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const heartbeat = setInterval(() => {
+    if (!res.writableEnded) res.write(': keep-alive\n\n');
+  }, SSE_HEARTBEAT_MS);
+
+  return {
+    send(event, data) {
+      if (res.writableEnded) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      clearInterval(heartbeat);
+      if (!res.writableEnded) res.end();
+    },
+  };
+}
+
 /**
  * Main analysis handler
  */
@@ -252,6 +340,8 @@ export default async function handler(
   let rateLimitResult: any = null;
   let user: any = null; // User data from database
   let userAccessToken: string | null = null; // User's decrypted OAuth token
+  let stream: AnalysisEventStream | null = null; // Set once an SSE response is open
+  const progress = (message: string) => stream?.send('status', { message });
 
   try {
     // Get user data and decrypt their OAuth token (with retry logic for Notion API outages)
@@ -421,12 +511,19 @@ export default async function handler(
       throw validationError; // Re-throw to trigger error response
     }
 
+    // Everything below reports through the event stream when one was requested
+    if (wantsEventStream(req)) {
+      setRateLimitHeaders(res, rateLimitResult);
+      stream = openEventStream(res);
+      progress(`Analyzing ${tickerUpper}...`);
+    }
+
     const fmpClient = createFMPClient(fmpApiKey);
     const fredClient = createFREDClient(fredApiKey);
-    const scorer = createStockScorer();
 
     // Fetch market context (v1.1.0 - Market Context Integration)
     console.log('\n📊 Step 0: Fetching market context...');
+    progress('Reading market conditions...');
     let marketContext: MarketContext | null = null;
     try {
       marketContext = await getMarketContext(fmpClient, fredClient);
@@ -455,18 +552,37 @@ export default async function handler(
       timezone: userTimezone, // User's timezone for timestamp formatting
     });
 
+    // Composite weighting and LLM choice: stock's setting → user's → default
+    const stockSettings = await notionClient.getStockSettings(tickerUpper);
+    const stockScoringProfile = stockSettings.scoringProfile;
+    const weightProfile = resolveWeightProfile(stockScoringProfile, user.scoringProfile);
+    const scorer = createStockScorer(weightProfile);
+    console.log(`   Scoring profile: ${weightProfile.name}${stockScoringProfile ? ' (stock)' : user.scoringProfile ? ' (account)' : ' (default)'}`);
+    const llmSelection = resolveLLMSelection(
+      { provider: stockSettings.llmProvider, model: stockSettings.llmModel },
+      user
+    );
+    const llmBudget = await checkLLMBudget(user.id, user.subscriptionTier, llmSelection);
+    const runSelection = applyBudget(llmSelection, llmBudget);
+    console.log(`   LLM: ${runSelection ? describeLLMSelection(runSelection) : 'none (budget exhausted)'}`);
+    if (llmBudget.action !== 'full') {
+      console.warn(`   LLM budget: $${llmBudget.spent.toFixed(4)} of $${llmBudget.budget.toFixed(2)} (${llmBudget.tier}) spent - ${llmBudget.action}`);
+    }
+
     // Track API calls
     let fmpCalls = 0;
     let fredCalls = 0;
     let notionCalls = 0;
 
     console.log('\n📊 Step 1/5: Fetching stock data...');
+    progress(`Fetching ${tickerUpper} market data...`);
 
-    // Fetch data in parallel (FMP + FRED)
+    // Fetch data in parallel (FMP via the market data store + FRED)
+    const marketData = createMarketDataService(fmpClient);
     const [fmpData, macroData] = await Promise.all([
       (async () => {
-        const data = await fmpClient.getAnalysisData(tickerUpper);
-        fmpCalls = 11; // getAnalysisData makes 11 calls
+        const data = await marketData.getAnalysisData(tickerUpper);
+        fmpCalls = data.fmpCalls; // Quote + whatever the store was missing
         return data;
       })(),
       (async () => {
@@ -481,90 +597,55 @@ export default async function handler(
       `   FMP: ${fmpCalls} calls | FRED: ${fredCalls} calls | Total: ${fmpCalls + fredCalls} calls`
     );
 
-    // Calculate historical price changes and volatility from fetched data
-    let price_change_1m: number | undefined = undefined;
-    let price_change_5d: number | undefined = undefined;
-    let volatility_30d: number | undefined = undefined;
-
-    if (fmpData.historical && fmpData.historical.length > 0) {
-      const currentPrice = fmpData.quote.price;
-
-      // Calculate 1-month (30-day) price change
-      // Look for data point closest to 30 days ago (index 29, or last available)
-      const targetIndex1m = Math.min(29, fmpData.historical.length - 1);
-      const price30dAgo = fmpData.historical[targetIndex1m]?.close;
-
-      if (price30dAgo && price30dAgo > 0) {
-        price_change_1m = (currentPrice - price30dAgo) / price30dAgo;
-        console.log(
-          `   📊 1M Price Change: ${price_change_1m > 0 ? '+' : ''}${(price_change_1m * 100).toFixed(2)}% (${price30dAgo.toFixed(2)} → ${currentPrice.toFixed(2)})`
-        );
-      }
-
-      // Calculate 5-day price change
-      const targetIndex5d = Math.min(4, fmpData.historical.length - 1);
-      const price5dAgo = fmpData.historical[targetIndex5d]?.close;
-
-      if (price5dAgo && price5dAgo > 0) {
-        price_change_5d = (currentPrice - price5dAgo) / price5dAgo;
-        console.log(
-          `   📊 5D Price Change: ${price_change_5d > 0 ? '+' : ''}${(price_change_5d * 100).toFixed(2)}% (${price5dAgo.toFixed(2)} → ${currentPrice.toFixed(2)})`
-        );
-      }
-
-      // Calculate 30-day volatility (standard deviation of daily returns)
-      // Requires at least 30 days of data for accurate calculation
-      if (fmpData.historical.length >= 30) {
-        const dailyReturns: number[] = [];
-
-        // Calculate daily returns for the past 30 days
-        for (let i = 0; i < 29; i++) {
-          const currentClose = fmpData.historical[i].close;
-          const previousClose = fmpData.historical[i + 1].close;
-
-          if (currentClose > 0 && previousClose > 0) {
-            const dailyReturn = (currentClose - previousClose) / previousClose;
-            dailyReturns.push(dailyReturn);
-          }
-        }
-
-        // Calculate standard deviation (volatility)
-        if (dailyReturns.length >= 20) {
-          // Need at least 20 valid returns for meaningful calculation
-          const mean = dailyReturns.reduce((sum, val) => sum + val, 0) / dailyReturns.length;
-          const squaredDiffs = dailyReturns.map(val => Math.pow(val - mean, 2));
-          const variance = squaredDiffs.reduce((sum, val) => sum + val, 0) / dailyReturns.length;
-          volatility_30d = Math.sqrt(variance);
-
-          console.log(
-            `   📊 30D Volatility: ${(volatility_30d * 100).toFixed(2)}% std dev (${dailyReturns.length} days)`
-          );
-        } else {
-          console.warn(`⚠️  Insufficient valid returns for volatility calculation (${dailyReturns.length} < 20)`);
-        }
-      } else {
-        console.warn(`⚠️  Insufficient historical data for volatility calculation (${fmpData.historical.length} < 30 days)`);
-      }
+    // Indicators, price changes and volatility are computed from stored daily bars
+    const { technicals } = fmpData;
+    console.log(
+      `   Market data: ${fmpData.source.store} store, ${technicals.barCount} bars through ${technicals.asOf || 'n/a'}` +
+      ` (${fmpData.source.barsFetched} new${fmpData.source.fundamentalsRefreshed ? ', fundamentals refreshed' : ''})`
+    );
+    if (technicals.priceChange1m !== undefined) {
+      console.log(`   📊 1M Price Change: ${technicals.priceChange1m > 0 ? '+' : ''}${(technicals.priceChange1m * 100).toFixed(2)}%`);
+    }
+    if (technicals.priceChange5d !== undefined) {
+      console.log(`   📊 5D Price Change: ${technicals.priceChange5d > 0 ? '+' : ''}${(technicals.priceChange5d * 100).toFixed(2)}%`);
+    }
+    if (technicals.volatility30d !== undefined) {
+      console.log(`   📊 30D Volatility: ${(technicals.volatility30d * 100).toFixed(2)}% std dev`);
     } else {
-      console.warn('⚠️  No historical data available for price change and volatility calculations');
+      console.warn(`⚠️  Insufficient historical data for volatility calculation (${technicals.barCount} bars)`);
     }
+    console.log(`   📐 Patterns: ${formatPatternSummary(fmpData.patterns)}`);
 
     // Extract data for scoring
     const technical = {
       current_price: fmpData.quote.price,
-      ma_50: fmpData.technicalIndicators.sma50[0]?.sma,
-      ma_200: fmpData.technicalIndicators.sma200[0]?.sma,
-      rsi: fmpData.technicalIndicators.rsi[0]?.rsi,
-      macd: fmpData.technicalIndicators.ema12[0]?.ema, // Simplified - real MACD needs calculation
-      macd_signal: fmpData.technicalIndicators.ema26[0]?.ema,
+      ma_50: technicals.sma50,
+      ma_200: technicals.sma200,
+      rsi: technicals.rsi14,
+      macd: technicals.macd,
+      macd_signal: technicals.macdSignal,
       volume: fmpData.quote.volume,
       avg_volume_20d: fmpData.quote.avgVolume,
-      volatility_30d, // Calculated from historical data
+      volatility_30d: technicals.volatility30d,
       price_change_1d: fmpData.quote.change / fmpData.quote.previousClose,
-      price_change_5d, // Calculated from historical data
-      price_change_1m, // Calculated from historical data
+      price_change_5d: technicals.priceChange5d,
+      price_change_1m: technicals.priceChange1m,
       week_52_high: fmpData.quote.yearHigh,
       week_52_low: fmpData.quote.yearLow,
+      macd_histogram: technicals.macdHistogram,
+      bollinger_upper: technicals.bollingerUpper,
+      bollinger_lower: technicals.bollingerLower,
+      bollinger_percent_b: technicals.bollingerPercentB,
+      atr_14: technicals.atr14,
+      adx_14: technicals.adx14,
+      plus_di: technicals.plusDI,
+      minus_di: technicals.minusDI,
+      obv_trend_20d: technicals.obvTrend20d,
+      stochastic_k: technicals.stochasticK,
+      stochastic_d: technicals.stochasticD,
+      vwap_20d: technicals.vwap20d,
+      distance_from_52w_high: technicals.distanceFrom52wHigh,
+      distance_from_52w_low: technicals.distanceFrom52wLow,
     };
 
     const fundamental = {
@@ -611,6 +692,7 @@ export default async function handler(
     }
 
     console.log('\n📊 Step 2/5: Calculating scores...');
+    progress('Calculating scores...');
 
     // Calculate scores with market context (v1.1.0)
     const stockSector = fmpData.profile?.sector;
@@ -630,8 +712,10 @@ export default async function handler(
       `   Technical: ${scores.technical} | Fundamental: ${scores.fundamental} | Macro: ${scores.macro}`
     );
     console.log(`   Risk: ${scores.risk} | Sentiment: ${scores.sentiment}`);
+    console.log(`   Weighting: ${scores.weightProfile} | ${formatWeights(scores.weights!, scores.regimeAdjustment)}`);
 
     console.log('\n📊 Step 3/5: Syncing to Notion...');
+    progress('Syncing scores to Notion...');
 
     // Prepare analysis data for Notion
     const analysisData: AnalysisData = {
@@ -642,6 +726,13 @@ export default async function handler(
       fundamental,
       macro,
       scores,
+      pattern: {
+        score: fmpData.patterns.score,
+        signal: fmpData.patterns.signal,
+        detected: fmpData.patterns.patterns.map(formatPatternLabel),
+        expectedMove: fmpData.patterns.expectedMove,
+        daysToBreakout: fmpData.patterns.daysToBreakout,
+      },
       apiCalls: {
         fmp: fmpCalls,
         fred: fredCalls,
@@ -677,6 +768,7 @@ export default async function handler(
 
     // LLM Analysis Workflow (v1.0.2)
     console.log('\n📊 Step 4/7: Querying historical analyses...');
+    progress('Comparing with previous analyses...');
 
     let historicalAnalyses: any[] = [];
     let previousAnalysis: any = null;
@@ -714,7 +806,7 @@ export default async function handler(
         console.log(`✅ Found ${historicalAnalyses.length} historical analyses (90 days)`);
         console.log(`   Previous: ${previousAnalysis.compositeScore}/5.0 (${previousAnalysis.date})`);
         console.log(`   Score Change: ${deltas.trendEmoji} ${deltas.scoreChange > 0 ? '+' : ''}${deltas.scoreChange.toFixed(2)} (${deltas.significance}, ${deltas.trendDirection})`);
-        console.log(`   Price Change: ${deltas.priceDeltas.priceChangePercent > 0 ? '+' : ''}${deltas.priceDeltas.priceChangePercent.toFixed(2)}% over ${deltas.daysElapsed} days`);
+        console.log(`   Price Change: ${deltas.priceDeltas.priceChangePercent > 0 ? '+' : ''}${deltas.priceDeltas.priceChangePercent.toFixed(2)}% over ${deltas.daysElapsed} trading days`);
         if (deltas.regimeTransition?.occurred) {
           console.log(`   🔥 Regime Transition: ${deltas.regimeTransition.from} → ${deltas.regimeTransition.to}`);
         }
@@ -751,6 +843,7 @@ export default async function handler(
     }
 
     console.log('\n📊 Step 5/7: Generating LLM analysis...');
+    progress('Writing analysis...');
 
     // Build AnalysisContext for LLM (v1.0.6 - Expanded to include ALL API data)
     const analysisContext: AnalysisContext = {
@@ -768,7 +861,7 @@ export default async function handler(
         sentimentScore: scores.sentiment,
         sectorScore: 0, // TODO: Add sector scoring in future
         recommendation: scores.recommendation,
-        pattern: 'Unknown', // TODO: Add pattern detection in future
+        pattern: formatPatternSummary(fmpData.patterns),
         confidence: qualityReport.dataCompleteness * 5, // Convert 0-1 to 0-5 scale
         dataQualityGrade: qualityReport.grade,
 
@@ -790,6 +883,17 @@ export default async function handler(
         priceChange1m: technical.price_change_1m,
         week52High: technical.week_52_high,
         week52Low: technical.week_52_low,
+        macdHistogram: technical.macd_histogram,
+        bollingerPercentB: technical.bollinger_percent_b,
+        atr14: technical.atr_14,
+        adx14: technical.adx_14,
+        plusDI: technical.plus_di,
+        minusDI: technical.minus_di,
+        obvTrend20d: technical.obv_trend_20d,
+        stochasticK: technical.stochastic_k,
+        stochasticD: technical.stochastic_d,
+        vwap20d: technical.vwap_20d,
+        distanceFrom52wHigh: technical.distance_from_52w_high,
 
         // Fundamental Data (ALL from API)
         marketCap: fundamental.market_cap,
@@ -824,38 +928,105 @@ export default async function handler(
       })),
       deltas,
       upcomingEvents: upcomingEvents.length > 0 ? upcomingEvents : undefined, // v1.2.17: Event-aware analysis
+      weightProfile,
+      appliedWeights: scores.weights,
+      regimeAdjustment: scores.regimeAdjustment,
+      attribution: scores.attribution,
     };
 
-    // Generate analysis using LLM
+    // Stream the analysis, writing each completed section to the Stock
+    // Analyses page while the rest is still being generated
     let llmResult: any;
     let childAnalysisPageId: string | null = null;
+    let tradePlanPromise: Promise<{ plan: TradePlan | null; attempts: number; cost: number; tokensUsed: { input: number; output: number } }>;
+
+    const sectionWriter = new SectionWriter(notionClient, analysesPageId, (section) => {
+      stream?.send('section', section);
+    });
 
     try {
-      const llmProvider = LLMFactory.getProviderFromEnv();
-      llmResult = await llmProvider.generateAnalysis(analysisContext);
-
-      console.log('✅ LLM analysis generated');
-      console.log(`   Provider: ${llmResult.modelUsed}`);
-      console.log(`   Tokens: ${llmResult.tokensUsed.input} input + ${llmResult.tokensUsed.output} output = ${llmResult.tokensUsed.input + llmResult.tokensUsed.output} total`);
-      console.log(`   Cost: $${llmResult.cost.toFixed(4)}`);
-      console.log(`   Latency: ${llmResult.latencyMs}ms`);
+      if (!runSelection) {
+        // Over the hard cap - scores only, no LLM calls
+        const content = formatBudgetSkippedAnalysis(tickerUpper, scores, llmBudget);
+        sectionWriter.push(content);
+        stream?.send('chunk', { text: content });
+        llmResult = { content, modelUsed: 'none', tokensUsed: { input: 0, output: 0 }, cost: 0, latencyMs: 0 };
+        tradePlanPromise = Promise.resolve({ plan: null, attempts: 0, cost: 0, tokensUsed: { input: 0, output: 0 } });
+        console.log('⏭️  LLM analysis skipped (daily budget exhausted)');
+      } else {
+        const llmProvider = await createProviderForSelection(runSelection);
+        llmResult = await llmProvider.streamAnalysis(analysisContext, (text) => {
+          sectionWriter.push(text);
+          stream?.send('chunk', { text });
+        });
+
+        console.log('✅ LLM analysis generated');
+        console.log(`   Provider: ${llmResult.modelUsed}${llmResult.fallbackFrom ? ` (fallback after ${llmResult.fallbackFrom.join(', ')})` : ''}`);
+        console.log(`   Tokens: ${llmResult.tokensUsed.input} input + ${llmResult.tokensUsed.output} output = ${llmResult.tokensUsed.input + llmResult.tokensUsed.output} total`);
+        console.log(`   Cost: $${llmResult.cost.toFixed(4)}`);
+        console.log(`   Latency: ${llmResult.latencyMs}ms`);
+        console.log(`   Prompt: ${llmResult.promptVersion}`);
+
+        // Booked as soon as each call returns - a failed Notion write later
+        // doesn't make the tokens free
+        const ownKey = !!llmResult.ownKey;
+        const model = llmResult.modelUsed;
+        await recordLLMCost({
+          userId: user.id,
+          kind: 'analysis',
+          ticker: tickerUpper,
+          model,
+          inputTokens: llmResult.tokensUsed.input,
+          outputTokens: llmResult.tokensUsed.output,
+          cost: llmResult.cost,
+          ownKey,
+        });
+
+        // Extract the structured trade plan while the last sections are written
+        tradePlanPromise = llmProvider.generateTradePlan(analysisContext, llmResult.content).then(
+          (result) => ({ plan: result.data, attempts: result.attempts, cost: result.cost, tokensUsed: result.tokensUsed }),
+          (error) => {
+            console.warn('⚠️  Trade plan extraction failed:', error instanceof Error ? error.message : error);
+            return error instanceof StructuredOutputError
+              ? { plan: null, attempts: error.attempts, cost: error.cost, tokensUsed: { input: 0, output: 0 } }
+              : { plan: null, attempts: 0, cost: 0, tokensUsed: { input: 0, output: 0 } };
+          }
+        ).then(async (tradePlan) => {
+          if (tradePlan.attempts > 0) {
+            await recordLLMCost({
+              userId: user.id,
+              kind: 'trade_plan',
+              ticker: tickerUpper,
+              model,
+              inputTokens: tradePlan.tokensUsed.input,
+              outputTokens: tradePlan.tokensUsed.output,
+              cost: tradePlan.cost,
+              ownKey,
+            });
+          }
+          return tradePlan;
+        });
+      }
     } catch (error) {
       console.error('❌ LLM analysis generation failed:', error);
+      await sectionWriter.cancel();
       throw new Error(`LLM analysis generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
 
     console.log('\n📊 Step 6/7: Writing analysis to Notion...');
+    progress('Saving analysis to Notion...');
 
     const notionWriteStartTime = Date.now();
     let notionWriteDuration = 0;
 
     try {
-      // 1. Write to Stock Analyses page (main database row)
+      // 1. Finish the Stock Analyses page (main database row) - most sections
+      //    were already written during streaming
       const writeStartTime = Date.now();
-      await notionClient.writeAnalysisContent(analysesPageId, llmResult.content);
+      const sectionCount = await sectionWriter.finish(scores.attribution);
       const writeDuration = Date.now() - writeStartTime;
-      notionCalls += 1;
-      console.log(`✅ Written to Stock Analyses page: ${analysesPageId} (${writeDuration}ms)`);
+      notionCalls += sectionCount + 1;
+      console.log(`✅ Written to Stock Analyses page: ${analysesPageId} (${sectionCount} sections, ${writeDuration}ms after generation)`);
 
       // Wait for Notion's backend to settle after modifying parent page structure
       // This prevents conflict_error when creating child pages under the same parent
@@ -896,10 +1067,30 @@ export default async function handler(
     } catch (error) {
       notionWriteDuration = Date.now() - notionWriteStartTime;
       console.error(`❌ Failed to write analysis to Notion after ${notionWriteDuration}ms:`, error);
+      await tradePlanPromise; // Let the trade plan finish and be booked before failing
       throw new Error(`Failed to write analysis to Notion: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
 
+    // Trade plan + serving model go on the Stock Analyses row before it is
+    // archived, so the history row gets a copy (a failed extraction clears last run's plan)
+    const tradePlan = await tradePlanPromise;
+    if (tradePlan.plan) {
+      console.log(`✅ Trade plan extracted (${tradePlan.attempts} attempt${tradePlan.attempts === 1 ? '' : 's'}, $${tradePlan.cost.toFixed(4)})`);
+      console.log(`   Entry: $${tradePlan.plan.entryLow}-$${tradePlan.plan.entryHigh} | Targets: ${tradePlan.plan.targets.join(', ')} | Stop: $${tradePlan.plan.stopLoss} | ${tradePlan.plan.conviction} conviction`);
+    }
+    try {
+      await notionClient.writeLLMOutput(analysesPageId, {
+        modelUsed: llmResult.modelUsed,
+        promptVersion: llmResult.promptVersion,
+        tradePlan: tradePlan.plan,
+      });
+      notionCalls += 1;
+    } catch (error) {
+      console.warn('⚠️  Failed to write trade plan properties:', error);
+    }
+
     console.log('\n📊 Step 7/7: Archiving to Stock History...');
+    progress('Archiving to Stock History...');
 
     let archived = false;
     let archivedPageId: string | null = null;
@@ -908,13 +1099,13 @@ export default async function handler(
     try {
       // v1.0.8: Archive to Stock History with market regime for pattern recognition
       const currentRegime = marketContext?.regime;
-      archivedPageId = await notionClient.archiveToHistory(analysesPageId, currentRegime);
+      archivedPageId = await notionClient.archiveToHistory(analysesPageId, currentRegime, scores);
       archived = !!archivedPageId;
       notionCalls += 3; // read + create + update
 
       if (archived && archivedPageId) {
         // Write LLM content to history page (APPEND mode to preserve full history)
-        await notionClient.writeAnalysisContent(archivedPageId, llmResult.content, 'append');
+        await notionClient.writeAnalysisContent(archivedPageId, llmResult.content, 'append', scores.attribution);
         notionCalls += 1;
         const archiveDuration = Date.now() - archiveStartTime;
         console.log(`✅ Archived to Stock History: ${archivedPageId} (${archiveDuration}ms)`);
@@ -930,6 +1121,36 @@ export default async function handler(
       // Don't fail the entire request just because archiving failed
     }
 
+    // Alert rules (never fails the analysis)
+    let alertsDelivered = 0;
+    if (user.alertRulesDbId) {
+      const alertMetrics = await dispatchAlerts(
+        {
+          userId: user.id,
+          email: user.email,
+          accessToken: userAccessToken,
+          alertRulesDbId: user.alertRulesDbId,
+        },
+        [{
+          ticker: tickerUpper,
+          date: new Date().toISOString().split('T')[0],
+          pageId: analysesPageId,
+          companyName: fundamental.company_name,
+          composite: scores.composite,
+          recommendation: scores.recommendation,
+          rsi: technical.rsi,
+          price: technical.current_price,
+          week52High: technical.week_52_high,
+          week52Low: technical.week_52_low,
+          deltas,
+        }]
+      );
+      alertsDelivered = alertMetrics.delivered;
+      if (alertMetrics.triggered > 0) {
+        console.log(`🔔 Alerts: ${alertMetrics.triggered} triggered, ${alertMetrics.delivered} delivered, ${alertMetrics.suppressed} suppressed`);
+      }
+    }
+
     const workflowStatus = archived ? 'Completed' : 'Analysis Generated (Archive Failed)';
 
     const duration = timer.end(true);
@@ -963,7 +1184,12 @@ export default async function handler(
         sentiment: scores.sentiment,
         marketAlignment: scores.marketAlignment, // v1.1.0: Market alignment
         recommendation: scores.recommendation,
+        weightProfile: scores.weightProfile,
+        weights: scores.weights,
+        regimeAdjustment: scores.regimeAdjustment,
+        attribution: scores.attribution,
       },
+      patterns: fmpData.patterns,
       dataQuality: {
         completeness: Math.round(qualityReport.dataCompleteness * 100) / 100,
         grade: qualityReport.grade,
@@ -987,7 +1213,14 @@ export default async function handler(
         },
         cost: llmResult.cost,
         latencyMs: llmResult.latencyMs,
+        fallbackFrom: llmResult.fallbackFrom,
+        promptVersion: llmResult.promptVersion,
+        selectedBy: runSelection?.source ?? 'budget',
+        ownKey: !!llmResult.ownKey,
+        budget: { action: llmBudget.action, spent: llmBudget.spent, limit: llmBudget.budget },
+        tradePlan: { attempts: tradePlan.attempts, cost: tradePlan.cost },
       } : undefined,
+      tradePlan: tradePlan.plan,
       workflow: {
         pollingCompleted: false, // Deprecated in v1.0.2
         archived,
@@ -1002,13 +1235,12 @@ export default async function handler(
           }
         : undefined,
       analysisContent: llmResult ? llmResult.content : undefined, // v1.2.18: Return content
+      alertsDelivered,
     };
 
-    // Set rate limit headers
-    if (rateLimitResult) {
-      res.setHeader('X-RateLimit-Remaining', rateLimitResult.remaining.toString());
-      res.setHeader('X-RateLimit-Total', rateLimitResult.total.toString());
-      res.setHeader('X-RateLimit-Reset', rateLimitResult.resetAt.toISOString());
+    // Set rate limit headers (already sent when streaming)
+    if (!stream) {
+      setRateLimitHeaders(res, rateLimitResult);
     }
 
     // Increment user's analysis counters (non-blocking)
@@ -1036,6 +1268,12 @@ export default async function handler(
       console.warn('⚠️ Failed to update setup progress (non-critical):', error);
     }
 
+    if (stream) {
+      stream.send('complete', response);
+      stream.close();
+      return;
+    }
+
     res.status(200).json(response);
   } catch (error) {
     // End timer with error
@@ -1104,6 +1342,12 @@ export default async function handler(
     const errorResponse = formatErrorResponse(error, ticker);
     const statusCode = getStatusCode(error);
 
+    if (stream) {
+      stream.send('error', { ...errorResponse, statusCode });
+      stream.close();
+      return;
+    }
+
     res.status(statusCode).json(errorResponse);
   }
 }
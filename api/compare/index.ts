@@ -0,0 +1,346 @@
+/**
+ * Stock Comparison Endpoint
+ *
+ * POST /api/compare { tickers: string[] } with 2-10 tickers.
+ *
+ * 1. Score every ticker with the user's weight profile (shared market context + macro)
+ * 2. Rank per dimension: overall, value, momentum, safety
+ * 3. Generate a comparative rationale with the LLM (one call)
+ * 4. Write a Stock Comparisons row plus a dated child page
+ *
+ * Rate limiting: each ticker counts as one analysis against the daily
+ * quota, charged up front - a comparison that doesn't fit in what's left
+ * of the quota is refused as a whole.
+ *
+ * The rationale uses the user's LLM preference (and their own key for
+ * that provider, if saved) and daily LLM budget like /api/analyze.
+ */
+
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { createFMPClient } from '../../lib/integrations/fmp/client';
+import { createFREDClient } from '../../lib/integrations/fred/client';
+import { resolveWeightProfile } from '../../lib/domain/analysis/weight-profiles';
+import {
+  compareStocks,
+  writeComparisonToNotion,
+  MIN_COMPARISON_TICKERS,
+  MAX_COMPARISON_TICKERS,
+  ComparisonRankings,
+  ComparisonWinners,
+} from '../../lib/domain/stock/comparison';
+import { requireAuth as requireAuthSession, getUserByEmail, safeDecryptToken } from '../../lib/core/auth';
+import { validateTicker } from '../../lib/core/validators';
+import { createTimer } from '../../lib/core/logger';
+import { formatErrorResponse, withRetry } from '../../lib/core/utils';
+import { getStatusCode, RateLimitError, ValidationError } from '../../lib/core/errors';
+import { RateLimiter } from '../../lib/core/rate-limiter';
+import { validateTimezone, getTimezoneFromEnv, getSecondsUntilMidnight, formatDateInTimezone } from '../../lib/shared/timezone';
+import { reportAPIError } from '../../lib/shared/bug-reporter';
+import { getMarketContext, MarketContext } from '../../lib/domain/market/index';
+import { recordLLMCost } from '../../lib/integrations/llm/cost-ledger';
+import { checkLLMBudget } from '../../lib/integrations/llm/budget';
+import { resolveLLMSelection } from '../../lib/integrations/llm/preferences';
+
+interface CompareRequest {
+  tickers: string[];
+  timezone?: string; // User's IANA timezone
+}
+
+interface CompareResponse {
+  success: boolean;
+  tickers: string[];
+  failed: Array<{ ticker: string; error: string }>;
+  winners: ComparisonWinners;
+  rankings: ComparisonRankings;
+  scores: Record<string, {
+    composite: number;
+    technical: number;
+    fundamental: number;
+    macro: number;
+    risk: number;
+    sentiment: number;
+    marketAlignment: number;
+    recommendation: string;
+  }>;
+  weightProfile: string;
+  rationale: string;
+  comparisonPageId: string | null;
+  childPageId: string | null;
+  performance: {
+    duration: number;
+    fmpCalls: number;
+    fredCalls: number;
+  };
+  llmMetadata: {
+    model: string;
+    tokensUsed: {
+      input: number;
+      output: number;
+      total: number;
+    };
+    cost: number;
+    latencyMs: number;
+    budget: { action: string; spent: number; limit: number };
+  };
+  rateLimit?: {
+    remaining: number;
+    total: number;
+    resetAt: string;
+    bypassed?: boolean;
+  };
+}
+
+/**
+ * Validate, normalize and de-duplicate requested tickers
+ *
+ * @throws ValidationError / InvalidTickerError
+ */
+function parseTickers(raw: unknown): string[] {
+  if (!Array.isArray(raw)) {
+    throw new ValidationError('tickers', 'must be an array of ticker symbols');
+  }
+
+  const tickers = [...new Set(raw.map((t) => validateTicker(t)))];
+
+  if (tickers.length < MIN_COMPARISON_TICKERS || tickers.length > MAX_COMPARISON_TICKERS) {
+    throw new ValidationError(
+      'tickers',
+      `provide ${MIN_COMPARISON_TICKERS}-${MAX_COMPARISON_TICKERS} distinct tickers (got ${tickers.length})`
+    );
+  }
+
+  return tickers;
+}
+
+/**
+ * Main comparison handler
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.status(405).json({
+      success: false,
+      error: 'Method not allowed',
+      details: 'Only POST requests are accepted',
+    });
+    return;
+  }
+
+  const session = await requireAuthSession(req, res);
+  if (!session) {
+    return; // requireAuthSession already sent error response
+  }
+
+  const timer = createTimer('Stock Comparison');
+  let user: any = null;
+
+  try {
+    user = await withRetry(
+      async () => {
+        const userData = await getUserByEmail(session.email);
+        if (!userData) {
+          throw new Error('USER_NOT_FOUND_IN_DATABASE');
+        }
+        return userData;
+      },
+      'getUserByEmail for comparison',
+      { maxAttempts: 3, initialDelayMs: 2000, maxDelayMs: 10000 }
+    );
+
+    if (user.status !== 'approved') {
+      res.status(403).json({
+        success: false,
+        error: 'Account not approved',
+        details: 'Your account is pending approval or has been denied. Please contact support.',
+      });
+      return;
+    }
+
+    let userAccessToken: string;
+    try {
+      userAccessToken = await safeDecryptToken(user.accessToken, {
+        userId: user.id,
+        email: user.email,
+      });
+    } catch {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication token invalid',
+        details: 'Your authentication token could not be decrypted. Please log out and log back in to re-authenticate with Notion.',
+        code: 'TOKEN_DECRYPTION_FAILED',
+      });
+      return;
+    }
+
+    if (!user.stockComparisonsDbId) {
+      res.status(400).json({
+        success: false,
+        error: 'SETUP_INCOMPLETE',
+        message: 'Stock Comparisons database not configured. Re-run setup detection after adding it to your Sage Stocks page.',
+        details: {
+          missingDatabases: ['Stock Comparisons'],
+          setupRequired: true,
+          setupUrl: 'https://sagestocks.vercel.app/',
+        },
+      });
+      return;
+    }
+
+    const body: CompareRequest =
+      typeof req.body === 'string' ? JSON.parse(req.body) : req.body;
+
+    // Validate before charging the rate limit
+    const tickers = parseTickers(body?.tickers);
+    const userTimezone = validateTimezone(body?.timezone || user.timezone, getTimezoneFromEnv());
+
+    const rateLimiter = new RateLimiter();
+    const rateLimitResult = await rateLimiter.checkAndIncrement(user.id, userTimezone, tickers.length);
+    if (!rateLimitResult.allowed) {
+      throw new RateLimitError(rateLimitResult.resetAt, userTimezone);
+    }
+
+    const fmpApiKey = process.env.FMP_API_KEY;
+    const fredApiKey = process.env.FRED_API_KEY;
+    if (!fmpApiKey) {
+      throw new Error('FMP_API_KEY environment variable is not set');
+    }
+    if (!fredApiKey) {
+      throw new Error('FRED_API_KEY environment variable is not set');
+    }
+
+    console.log(`[COMPARE] ${tickers.join(', ')} for ${user.email}`);
+
+    let marketContext: MarketContext | null = null;
+    try {
+      marketContext = await getMarketContext(createFMPClient(fmpApiKey), createFREDClient(fredApiKey));
+    } catch (error) {
+      console.warn('[COMPARE] Market context unavailable - continuing without it:', error);
+    }
+
+    // Every ticker uses the user's profile so composites are comparable
+    const weightProfile = resolveWeightProfile(null, user.scoringProfile);
+    const date = formatDateInTimezone(new Date(), userTimezone);
+
+    const llm = resolveLLMSelection(null, user);
+    const budget = await checkLLMBudget(user.id, user.subscriptionTier, llm);
+    const comparison = await compareStocks({ tickers, marketContext, weightProfile, llm, budget }, date);
+    if (comparison.llm.modelUsed !== 'none') {
+      await recordLLMCost({
+        userId: user.id,
+        kind: 'comparison',
+        ticker: comparison.tickers.join(','),
+        model: comparison.llm.modelUsed,
+        inputTokens: comparison.llm.tokensUsed.input,
+        outputTokens: comparison.llm.tokensUsed.output,
+        cost: comparison.llm.cost,
+        ownKey: comparison.llm.ownKey,
+      });
+    }
+
+    const { comparisonPageId, childPageId } = await writeComparisonToNotion(
+      {
+        accessToken: userAccessToken,
+        stockComparisonsDbId: user.stockComparisonsDbId,
+        stockAnalysesDbId: user.stockAnalysesDbId,
+        stockHistoryDbId: user.stockHistoryDbId,
+        notionUserId: user.notionUserId,
+        timezone: userTimezone,
+      },
+      comparison
+    );
+
+    const duration = timer.end(true);
+    console.log(`[COMPARE] Winner ${comparison.winners.winner} - page ${comparisonPageId} (${duration}ms)`);
+
+    const response: CompareResponse = {
+      success: true,
+      tickers: comparison.tickers,
+      failed: comparison.failed,
+      winners: comparison.winners,
+      rankings: comparison.rankings,
+      scores: Object.fromEntries(
+        comparison.stocks.map((s) => [s.ticker, {
+          composite: s.scores.composite,
+          technical: s.scores.technical,
+          fundamental: s.scores.fundamental,
+          macro: s.scores.macro,
+          risk: s.scores.risk,
+          sentiment: s.scores.sentiment,
+          marketAlignment: s.scores.marketAlignment,
+          recommendation: s.scores.recommendation,
+        }])
+      ),
+      weightProfile: comparison.weightProfile.name,
+      rationale: comparison.rationale,
+      comparisonPageId,
+      childPageId,
+      performance: {
+        duration,
+        fmpCalls: comparison.apiCalls.fmp,
+        fredCalls: comparison.apiCalls.fred,
+      },
+      llmMetadata: {
+        model: comparison.llm.modelUsed,
+        tokensUsed: {
+          input: comparison.llm.tokensUsed.input,
+          output: comparison.llm.tokensUsed.output,
+          total: comparison.llm.tokensUsed.input + comparison.llm.tokensUsed.output,
+        },
+        cost: comparison.llm.cost,
+        latencyMs: comparison.llm.latencyMs,
+        budget: { action: budget.action, spent: budget.spent, limit: budget.budget },
+      },
+      rateLimit: {
+        remaining: rateLimitResult.remaining,
+        total: rateLimitResult.total,
+        resetAt: rateLimitResult.resetAt.toISOString(),
+        bypassed: rateLimitResult.bypassed,
+      },
+    };
+
+    res.setHeader('X-RateLimit-Remaining', rateLimitResult.remaining.toString());
+    res.setHeader('X-RateLimit-Total', rateLimitResult.total.toString());
+    res.setHeader('X-RateLimit-Reset', rateLimitResult.resetAt.toISOString());
+
+    res.status(200).json(response);
+  } catch (error) {
+    timer.endWithError(error as Error);
+    console.error('[COMPARE] Comparison failed:', error);
+
+    if (error instanceof RateLimitError) {
+      const retryAfter = getSecondsUntilMidnight(error.timezone);
+
+      res.setHeader('Retry-After', retryAfter.toString());
+      res.setHeader('X-RateLimit-Remaining', '0');
+      res.setHeader('X-RateLimit-Reset', error.resetAt.toISOString());
+      res.setHeader('X-RateLimit-Timezone', error.timezone);
+
+      res.status(429).json({
+        success: false,
+        error: error.userMessage,
+        code: error.code,
+        resetAt: error.resetAt.toISOString(),
+        timezone: error.timezone,
+        retryAfter,
+      });
+      return;
+    }
+
+    const statusCode = getStatusCode(error);
+    if (user && statusCode >= 500) {
+      reportAPIError(error as Error, '/api/compare', user.email).catch((reportError) => {
+        console.error('Failed to report bug:', reportError);
+      });
+    }
+
+    res.status(statusCode).json(formatErrorResponse(error));
+  }
+}
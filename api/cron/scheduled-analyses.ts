@@ -1,35 +1,69 @@
 /**
  * Scheduled Stock Analyses Cron Endpoint (v1.2.0)
  *
- * Runs daily at 5:30 AM PT and 5:45 AM PT via Vercel Cron
- * Automatically analyzes stocks with "Daily" cadence for all users
+ * Runs daily at 5:30 AM PT via Vercel Cron, with a 5:45 AM PT slot that
+ * restarts a broken chain and a catch-up slot after the close (21:30 UTC)
+ * Automatically analyzes stocks whose Analysis Cadence is due today for all
+ * users (Daily, Weekly, Monthly, Before Earnings, On Big Move)
  *
  * NEW in v1.2.0: Chunked processing to prevent 504 timeouts
  * - First invocation (5:30 AM): Collects stocks, saves to Redis, processes first chunk (8 stocks)
  * - Second invocation (5:45 AM): Resumes from Redis, processes remaining stocks
  * - Supports scaling to 15+ stocks without timeout
  *
+ * Each invocation leases its chunk item by item (queue-storage.ts), so
+ * overlapping invocations never analyze the same ticker twice. Failed
+ * items are retried by later invocations with backoff, then dead-lettered.
+ *
+ * After its chunk, an invocation re-invokes this endpoint (signed worker
+ * request, see worker-chain.ts) while items are left and the run window
+ * is open - the queue drains without more cron slots, up to
+ * QUEUE_WORKER_CONCURRENCY workers at a time.
+ *
  * Workflow:
- * 1. Verify cron secret (authentication)
+ * 1. Verify cron secret or worker signature (authentication)
  * 2. Check if today is a NYSE market day (skip weekends/holidays)
- * 3. Check if queue exists in Redis (resume case)
- * 4. If no queue: Collect stocks → Save to Redis → Process first chunk
- * 5. If queue exists: Load from Redis → Process next chunk → Cleanup if done
- * 6. Return execution summary with chunk info
+ * 3. Check if queue exists in Redis; if not, collect stocks and save a new queue
+ * 4. Take a worker slot (exit if the concurrency limit is reached)
+ * 5. Claim the next chunk (pending items, due retries, expired leases) and
+ *    process it, recording each item's success or failure as it finishes
+ * 6. When no item is left pending or running, record run completion (triggers
+ *    the daily digest) and refresh Portfolio Positions - once per run
+ * 7. Chain the next worker(s), or roll remaining items to the catch-up run after the deadline
+ * 8. Return execution summary with queue counts
  */
 
+import { randomUUID } from 'crypto';
 import { VercelRequest, VercelResponse } from '@vercel/node';
-import { getAllUsers } from '../../lib/core/auth';
+import { getAllUsers, User } from '../../lib/core/auth';
 import { collectStockRequests, buildPriorityQueue, processQueue } from '../../lib/orchestration/orchestrator';
 import { getMarketContext, MarketContext } from '../../lib/domain/market/index';
 import { createFMPClient } from '../../lib/integrations/fmp/client';
 import { createFREDClient } from '../../lib/integrations/fred/client';
+import { updatePortfolioPositions, TickerQuote } from '../../lib/domain/portfolio';
+import { getHoliday, getMarketDate, isEarlyClose, isTradingDay } from '../../lib/shared/market-calendar';
+import { setProviderLimitShare } from '../../lib/core/provider-limits';
 import {
   loadQueueFromRedis,
   saveQueueToRedis,
-  updateProcessedCount,
-  deleteQueue,
+  claimQueueItems,
+  completeQueueItem,
+  failQueueItem,
+  getQueueStatus,
+  markQueueComplete,
+  markRunComplete,
+  acquireWorkerSlot,
+  releaseWorkerSlot,
+  markRolledOver,
+  QueueStatus,
+  QUEUE_WORKER_CONCURRENCY,
 } from '../../lib/orchestration/queue-storage';
+import {
+  getWorkerWindow,
+  invokeWorkers,
+  verifyWorkerRequest,
+  MAX_CHAIN_GENERATIONS,
+} from '../../lib/orchestration/worker-chain';
 
 // Vercel function configuration
 // Pro plan with Fluid Compute supports up to 800 seconds (~13 min)
@@ -39,9 +73,14 @@ export const maxDuration = 800;
 const CRON_SECRET = process.env.CRON_SECRET || '';
 const CHUNK_SIZE = parseInt(process.env.CHUNK_SIZE || '8', 10); // Default: 8 stocks per chunk
 
+// A worker with nothing claimable waits this long at most for a retry's backoff before chaining
+const MAX_RETRY_WAIT_MS = 4 * 60 * 1000;
+// Leave room after a wait for the response and the portfolio refresh
+const TIME_BUDGET_MS = (maxDuration - 120) * 1000;
+
 // Note: Tier limits are now enforced in the Stock Analyses database
-// via the "Analysis Cadence" property. Orchestrator processes all stocks
-// marked as "Daily" regardless of tier limits.
+// via the "Analysis Cadence" property. Orchestrator processes every stock
+// whose cadence is due regardless of tier limits.
 
 /**
  * Main cron handler with chunked processing support
@@ -51,13 +90,15 @@ export default async function handler(
   res: VercelResponse
 ): Promise<void> {
   console.log('[CRON] Scheduled analyses started (v1.2.0 - Chunked Processing)');
+  const startTime = Date.now();
 
   try {
-    // 1. Verify cron secret
+    // 1. Verify cron secret (Vercel Cron, manual runs) or worker signature (chained invocations)
     const authHeader = req.headers.authorization;
     const providedSecret = authHeader?.replace('Bearer ', '');
+    const worker = verifyWorkerRequest(req.headers);
 
-    if (!providedSecret || providedSecret !== CRON_SECRET) {
+    if (!worker && (!providedSecret || providedSecret !== CRON_SECRET)) {
       console.error('[CRON] Unauthorized - invalid cron secret');
       res.status(401).json({
         success: false,
@@ -67,13 +108,15 @@ export default async function handler(
       return;
     }
 
-    console.log('[CRON] ✓ Cron secret verified');
+    console.log(worker
+      ? `[CRON] ✓ Worker signature verified (generation ${worker.generation})`
+      : '[CRON] ✓ Cron secret verified');
 
     // 2. Check if today is a market day
-    const isMarketDay = await checkNYSEMarketDay();
+    const marketDate = getMarketDate();
 
-    if (!isMarketDay) {
-      console.log('[CRON] Market closed today (weekend or holiday) - skipping execution');
+    if (!isTradingDay(marketDate)) {
+      console.log(`[CRON] Market closed today (${getHoliday(marketDate) || 'weekend'}) - skipping execution`);
       res.json({
         success: true,
         message: 'Market closed today',
@@ -85,126 +128,137 @@ export default async function handler(
       return;
     }
 
-    console.log('[CRON] ✓ Market is open today');
+    console.log(`[CRON] ✓ Market is open today${isEarlyClose(marketDate) ? ' (early close 1:00 PM ET)' : ''}`);
+
+    // Workers run side by side, each with its share of every provider's rate limit
+    setProviderLimitShare(QUEUE_WORKER_CONCURRENCY);
 
     // 3. Check if queue exists in Redis (resume case)
-    const existingQueue = await loadQueueFromRedis();
+    let storedQueue = await loadQueueFromRedis();
+    let users: User[] | null = null;
+    const mode = worker ? 'worker' : storedQueue ? 'resume' : 'first_run';
+
+    if (worker && storedQueue?.id !== worker.queueId) {
+      // Chained for a queue that expired or was replaced - nothing to do
+      console.log(`[CRON] Worker queue ${worker.queueId} no longer current - exiting`);
+      res.json({ success: true, marketDay: true, mode, message: 'Queue no longer current' });
+      return;
+    }
 
-    if (existingQueue) {
-      // RESUME CASE: Queue exists, process next chunk
+    if (storedQueue) {
       console.log('[CRON] ✓ Existing queue found - resuming chunked processing');
-      console.log(`[CRON]   Progress: ${existingQueue.processedCount}/${existingQueue.totalCount} items processed`);
+    } else {
+      // FIRST RUN CASE: No queue exists, collect stocks into a new one
+      console.log('[CRON] No existing queue - starting fresh collection');
 
-      const startIndex = existingQueue.processedCount;
-      const remainingItems = existingQueue.totalCount - startIndex;
-      const itemsToProcess = Math.min(CHUNK_SIZE, remainingItems);
+      // Fetch market context
+      const marketContext = await fetchMarketContext();
 
-      console.log(`[CRON]   Processing next chunk: ${itemsToProcess} items (${startIndex + 1}-${startIndex + itemsToProcess})`);
+      if (marketContext) {
+        console.log(`[CRON] ✓ Market context ready: ${marketContext.regime} regime (${Math.round(marketContext.regimeConfidence * 100)}% confidence)`);
+        console.log(`[CRON]   VIX: ${marketContext.vix.toFixed(1)} | SPY: ${marketContext.spy.change1D > 0 ? '+' : ''}${marketContext.spy.change1D.toFixed(2)}% (1D)`);
+      } else {
+        console.warn('[CRON] ⚠️  Market context unavailable - continuing with neutral assumptions');
+      }
 
-      // Process next chunk
-      const metrics = await processQueue(
-        existingQueue.items,
-        existingQueue.marketContext,
-        startIndex,
-        itemsToProcess
-      );
+      // Get all beta users
+      users = await getAllUsers();
+      console.log(`[CRON] Found ${users.length} users`);
 
-      // Update processed count
-      const newProcessedCount = startIndex + itemsToProcess;
-      await updateProcessedCount(existingQueue.id, newProcessedCount);
+      // Collect and build queue
+      const tickerMap = await collectStockRequests(users);
+      const queue = buildPriorityQueue(tickerMap);
 
-      // Check if all chunks complete
-      const isComplete = newProcessedCount >= existingQueue.totalCount;
+      console.log(`[CRON] ✓ Queue built with ${queue.length} tickers`);
 
-      if (isComplete) {
-        console.log('[CRON] ✓ All chunks complete - cleaning up queue');
-        await deleteQueue(existingQueue.id);
-      }
+      storedQueue = await saveQueueToRedis(queue, marketContext, CHUNK_SIZE);
+      console.log(`[CRON] ✓ Queue saved to Redis: ${storedQueue.id}`);
+    }
 
-      const chunkNumber = Math.ceil(newProcessedCount / CHUNK_SIZE);
+    // 4. Take a worker slot - the concurrency limit covers cron and chained invocations alike
+    const owner = randomUUID();
+    const slot = await acquireWorkerSlot(storedQueue.id, owner);
 
-      const summary = {
-        success: true,
-        marketDay: true,
-        mode: 'resume',
-        chunk: chunkNumber,
-        totalChunks: Math.ceil(existingQueue.totalCount / CHUNK_SIZE),
-        processedItems: newProcessedCount,
-        totalTickers: existingQueue.totalCount,
-        totalSubscribers: metrics.totalSubscribers,
-        analyzed: metrics.analyzed,
-        failed: metrics.failed,
-        broadcasts: {
-          total: metrics.totalBroadcasts,
-          successful: metrics.successfulBroadcasts,
-          failed: metrics.failedBroadcasts,
-        },
-        apiCallsSaved: metrics.apiCallsSaved,
-        durationMs: metrics.durationMs,
-        durationSec: (metrics.durationMs / 1000).toFixed(1),
-        isComplete,
-      };
-
-      console.log('[CRON] ✓ Chunk complete:', JSON.stringify(summary, null, 2));
-      res.json(summary);
+    if (slot === null) {
+      console.log('[CRON] Worker concurrency limit reached - exiting (running workers will continue the queue)');
+      res.json({ success: true, marketDay: true, mode, message: 'Worker concurrency limit reached' });
       return;
     }
 
-    // FIRST RUN CASE: No queue exists, collect stocks and process first chunk
-    console.log('[CRON] No existing queue - starting fresh collection');
-
-    // Fetch market context
-    const marketContext = await fetchMarketContext();
+    // 5. Lease the next chunk - due retries and items of crashed invocations included
+    const claimed = await claimQueueItems(storedQueue.id, CHUNK_SIZE, owner);
+    const keys = new Map(claimed.map((state) => [state.item, state.key]));
+
+    console.log(`[CRON] Processing chunk: ${claimed.length} items (${claimed.map((state) => state.key).join(', ') || 'none due'})`);
+
+    // Process it, recording each item's outcome as soon as it finishes
+    let retriesScheduled = 0;
+    let deadLettered = 0;
+    const metrics = await processQueue(
+      claimed.map((state) => state.item),
+      storedQueue.marketContext,
+      0,
+      claimed.length,
+      async (item, outcome) => {
+        const key = keys.get(item)!;
+        if (outcome.success) {
+          await completeQueueItem(storedQueue!.id, key, owner);
+          return;
+        }
+        const result = await failQueueItem(storedQueue!.id, key, owner, outcome.error || 'Analysis failed');
+        if (result === 'retry') retriesScheduled++;
+        if (result === 'dead_letter') deadLettered++;
+      }
+    ).finally(() => releaseWorkerSlot(storedQueue!.id, slot, owner));
+
+    // 6. Complete when no item is pending or running (exactly one invocation records it)
+    let status = await getQueueStatus();
+    const isComplete = !!status.isComplete;
+    let portfolio: Awaited<ReturnType<typeof refreshPortfolios>> | undefined;
+
+    if (isComplete && await markQueueComplete(storedQueue.id)) {
+      console.log('[CRON] ✓ All items final - recording run completion');
+      await markRunComplete({
+        date: storedQueue.id.replace('analysis_queue:', ''),
+        startedAt: storedQueue.createdAt,
+        completedAt: new Date().toISOString(),
+        totalTickers: storedQueue.totalCount,
+        marketContext: storedQueue.marketContext,
+      });
 
-    if (marketContext) {
-      console.log(`[CRON] ✓ Market context ready: ${marketContext.regime} regime (${Math.round(marketContext.regimeConfidence * 100)}% confidence)`);
-      console.log(`[CRON]   VIX: ${marketContext.vix.toFixed(1)} | SPY: ${marketContext.spy.change1D > 0 ? '+' : ''}${marketContext.spy.change1D.toFixed(2)}% (1D)`);
-    } else {
-      console.warn('[CRON] ⚠️  Market context unavailable - continuing with neutral assumptions');
+      // Holdings not priced by this chunk are quoted by the sync
+      portfolio = await refreshPortfolios(users || await getAllUsers(), metrics.prices);
     }
 
-    // Get all beta users
-    const users = await getAllUsers();
-    console.log(`[CRON] Found ${users.length} users`);
-
-    // Collect and build queue
-    const tickerMap = await collectStockRequests(users);
-    const queue = buildPriorityQueue(tickerMap);
-
-    console.log(`[CRON] ✓ Queue built with ${queue.length} tickers`);
-
-    // Save queue to Redis
-    const queueId = await saveQueueToRedis(queue, marketContext, CHUNK_SIZE);
-    console.log(`[CRON] ✓ Queue saved to Redis: ${queueId}`);
-
-    // Process first chunk
-    const itemsToProcess = Math.min(CHUNK_SIZE, queue.length);
-    console.log(`[CRON] Processing first chunk: ${itemsToProcess} items`);
-
-    const metrics = await processQueue(queue, marketContext, 0, itemsToProcess);
-
-    // Update processed count
-    await updateProcessedCount(queueId, itemsToProcess);
-
-    // Check if all items processed in first chunk (queue <= CHUNK_SIZE)
-    const isComplete = itemsToProcess >= queue.length;
-
-    if (isComplete) {
-      console.log('[CRON] ✓ All items processed in single chunk - cleaning up queue');
-      await deleteQueue(queueId);
+    // 7. Keep the queue draining
+    let chained = 0;
+    if (!isComplete) {
+      status = await waitForRetries(status, startTime);
+      chained = await chainWorkers(storedQueue.id, status, worker?.generation ?? 0);
     }
 
-    const totalChunks = Math.ceil(queue.length / CHUNK_SIZE);
-
     const summary = {
       success: true,
       marketDay: true,
-      mode: 'first_run',
-      chunk: 1,
-      totalChunks,
-      processedItems: itemsToProcess,
-      totalUsers: users.length,
-      totalTickers: queue.length,
+      mode,
+      claimedItems: claimed.length,
+      processedItems: status.processedItems,
+      totalTickers: storedQueue.totalCount,
+      queue: {
+        ...status.counts,
+        retrying: status.retrying,
+        retriesScheduled,
+        deadLettered,
+        workers: status.workers,
+        invocations: status.invocations,
+        rolledOverAt: status.rolledOverAt,
+      },
+      worker: {
+        slot,
+        generation: worker?.generation ?? 0,
+        chained,
+      },
+      ...(users ? { totalUsers: users.length } : {}),
       totalSubscribers: metrics.totalSubscribers,
       analyzed: metrics.analyzed,
       failed: metrics.failed,
@@ -213,14 +267,19 @@ export default async function handler(
         successful: metrics.successfulBroadcasts,
         failed: metrics.failedBroadcasts,
       },
+      alertsDelivered: metrics.alertsDelivered,
+      llmFallbacks: metrics.llmFallbacks,
+      llmCost: Number(metrics.llmCost.toFixed(4)),
+      llmBudget: { degraded: metrics.llmBudgetDegraded, skipped: metrics.llmBudgetSkipped },
+      providerWaits: metrics.providerWaits,
       apiCallsSaved: metrics.apiCallsSaved,
       durationMs: metrics.durationMs,
       durationSec: (metrics.durationMs / 1000).toFixed(1),
       isComplete,
-      nextChunkAt: isComplete ? null : '5:45 AM PT (13:45 UTC)',
+      ...(portfolio !== undefined ? { portfolio } : {}),
     };
 
-    console.log('[CRON] ✓ First chunk complete:', JSON.stringify(summary, null, 2));
+    console.log('[CRON] ✓ Chunk complete:', JSON.stringify(summary, null, 2));
     res.json(summary);
 
   } catch (error) {
@@ -233,6 +292,97 @@ export default async function handler(
   }
 }
 
+/**
+ * Nothing claimable but retries backing off: wait for the first one if it
+ * is close, so the chain doesn't stop just short of it
+ */
+async function waitForRetries(status: QueueStatus, startTime: number): Promise<QueueStatus> {
+  if (status.claimable || !status.nextRetryAt) {
+    return status;
+  }
+
+  const waitMs = Date.parse(status.nextRetryAt) - Date.now();
+  const window = getWorkerWindow();
+  if (
+    waitMs > MAX_RETRY_WAIT_MS ||
+    Date.now() - startTime + waitMs > TIME_BUDGET_MS ||
+    !window ||
+    Date.parse(status.nextRetryAt) >= window.deadline.getTime()
+  ) {
+    return status;
+  }
+
+  console.log(`[CRON] Waiting ${Math.ceil(waitMs / 1000)}s for the next retry before chaining`);
+  await new Promise((resolve) => setTimeout(resolve, Math.max(0, waitMs)));
+  return getQueueStatus();
+}
+
+/**
+ * Invoke the next worker(s) while the run window is open
+ *
+ * One worker per remaining chunk, up to the free worker slots. Past the
+ * main deadline, remaining items roll to the catch-up run.
+ *
+ * @returns Number of workers invoked
+ */
+async function chainWorkers(queueId: string, status: QueueStatus, generation: number): Promise<number> {
+  const remaining = status.remainingItems || 0;
+  const window = getWorkerWindow();
+
+  if (!window) {
+    console.warn(`[CRON] Run window closed with ${remaining} items left - rolling to the catch-up run`);
+    await markRolledOver(queueId, remaining);
+    return 0;
+  }
+
+  if (generation >= MAX_CHAIN_GENERATIONS) {
+    console.warn(`[CRON] Chain reached ${MAX_CHAIN_GENERATIONS} generations - stopping (next cron slot resumes)`);
+    return 0;
+  }
+
+  if (!status.claimable) {
+    console.log(`[CRON] ${remaining} items left but none claimable yet (next at ${status.nextRetryAt || 'lease expiry'}) - next cron slot resumes`);
+    return 0;
+  }
+
+  const freeSlots = (status.workers?.limit || 0) - (status.workers?.active || 0);
+  const count = Math.min(freeSlots, Math.ceil(status.claimable / CHUNK_SIZE));
+  if (count <= 0) {
+    console.log('[CRON] All worker slots busy - running workers will chain');
+    return 0;
+  }
+
+  const invoked = await invokeWorkers(queueId, generation + 1, count);
+  console.log(`[CRON] ✓ Chained ${invoked}/${count} worker(s) (${window.name} window until ${window.deadline.toISOString()})`);
+  return invoked;
+}
+
+/**
+ * Recompute Portfolio Positions once the run completes
+ * Never fails the run - portfolio tracking is optional
+ */
+async function refreshPortfolios(
+  users: User[],
+  prices: Record<string, TickerQuote>
+) {
+  try {
+    const metrics = await updatePortfolioPositions(users, prices);
+    return {
+      usersProcessed: metrics.usersProcessed,
+      positionsCreated: metrics.positionsCreated,
+      positionsUpdated: metrics.positionsUpdated,
+      positionsRemoved: metrics.positionsRemoved,
+      quotesFetched: metrics.quotesFetched,
+      unpricedPositions: metrics.unpricedPositions,
+      warnings: metrics.warnings.slice(0, 10),
+      errors: metrics.errors.slice(0, 10),
+    };
+  } catch (error) {
+    console.warn('[CRON] ⚠️  Portfolio positions update failed (non-critical):', error);
+    return null;
+  }
+}
+
 /**
  * Fetch market context for today's analysis
  * Returns null if APIs unavailable (graceful degradation)
@@ -261,43 +411,5 @@ async function fetchMarketContext(): Promise<MarketContext | null> {
   }
 }
 
-/**
- * Check if today is a NYSE market day
- * Returns false for weekends and major holidays
- *
- * TODO v1.0.5: Add FMP holidays API integration
- */
-async function checkNYSEMarketDay(): Promise<boolean> {
-  const today = new Date();
-
-  // Check if weekend (Saturday=6, Sunday=0)
-  const dayOfWeek = today.getDay();
-  if (dayOfWeek === 0 || dayOfWeek === 6) {
-    console.log('[CRON] Weekend detected - market closed');
-    return false;
-  }
-
-  // Check hardcoded 2025 holidays
-  const dateStr = today.toISOString().split('T')[0];
-  const holidays2025 = [
-    '2025-01-01', // New Year's Day
-    '2025-01-20', // MLK Day
-    '2025-02-17', // Presidents Day
-    '2025-04-18', // Good Friday
-    '2025-05-26', // Memorial Day
-    '2025-07-04', // Independence Day
-    '2025-09-01', // Labor Day
-    '2025-11-27', // Thanksgiving
-    '2025-12-25'  // Christmas
-  ];
-
-  if (holidays2025.includes(dateStr)) {
-    console.log(`[CRON] Holiday detected (${dateStr}) - market closed`);
-    return false;
-  }
-
-  return true;
-}
-
 // Note: All analysis logic now handled by orchestrator (lib/orchestrator.ts)
 // Old per-user sequential processing functions have been removed in v1.0.5
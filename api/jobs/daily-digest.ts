@@ -0,0 +1,110 @@
+/**
+ * Daily Digest Job Endpoint
+ *
+ * Runs hourly via Vercel Cron. Once the scheduled analyses have processed
+ * every chunk, emails each opted-in user a digest of the day's analyses at
+ * the Digest Hour in their own timezone.
+ *
+ * Workflow:
+ * 1. Verify cron secret (authentication)
+ * 2. Skip unless a recent run has completed (cheap Redis check)
+ * 3. Load all users
+ * 4. Send the digests that are due
+ * 5. Return execution summary
+ */
+
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAllUsers } from '../../lib/core/auth';
+import { sendDailyDigests } from '../../lib/domain/digest';
+import { isEmailConfigured } from '../../lib/integrations/email/smtp';
+import { loadRunCompletion } from '../../lib/orchestration/queue-storage';
+
+// Vercel function configuration
+export const maxDuration = 300;
+
+// Environment variables
+const CRON_SECRET = process.env.CRON_SECRET || '';
+
+/**
+ * Main cron handler
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  console.log('[DIGEST JOB] Daily digest started');
+
+  try {
+    // 1. Verify cron secret
+    const authHeader = req.headers.authorization;
+    const providedSecret = authHeader?.replace('Bearer ', '');
+
+    if (!providedSecret || providedSecret !== CRON_SECRET) {
+      console.error('[DIGEST JOB] Unauthorized - invalid cron secret');
+      res.status(401).json({
+        success: false,
+        error: 'Unauthorized',
+        message: 'Invalid cron secret',
+      });
+      return;
+    }
+
+    if (!isEmailConfigured() || !process.env.UPSTASH_REDIS_REST_URL) {
+      console.error('[DIGEST JOB] Missing required configuration');
+      res.status(500).json({
+        success: false,
+        error: 'Configuration error',
+        message: 'SMTP_HOST and UPSTASH_REDIS_REST_URL must be set',
+      });
+      return;
+    }
+
+    console.log('[DIGEST JOB] ✓ Cron secret verified');
+
+    // 2. Every user's local date is today or yesterday (UTC) by the time
+    //    their digest is due, so no completion for either means nothing to send
+    const now = new Date();
+    const today = now.toISOString().split('T')[0];
+    const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const [todayRun, yesterdayRun] = await Promise.all([loadRunCompletion(today), loadRunCompletion(yesterday)]);
+
+    if (!todayRun && !yesterdayRun) {
+      console.log('[DIGEST JOB] No completed run for today or yesterday - nothing to send');
+      res.json({ success: true, timestamp: now.toISOString(), runCompleted: false, sent: 0 });
+      return;
+    }
+
+    // 3. Load users
+    const users = await getAllUsers();
+    console.log(`[DIGEST JOB] Found ${users.length} users`);
+
+    // 4. Send due digests
+    const metrics = await sendDailyDigests(users, now);
+
+    // 5. Return summary
+    const summary = {
+      success: true,
+      timestamp: now.toISOString(),
+      runCompleted: true,
+      metrics: {
+        duration: `${((metrics.durationMs || 0) / 1000).toFixed(1)}s`,
+        optedIn: metrics.optedIn,
+        sent: metrics.sent,
+        notDue: metrics.notDue,
+        alreadySent: metrics.alreadySent,
+        failed: metrics.failed,
+      },
+      errors: metrics.errors.slice(0, 10),
+    };
+
+    console.log('[DIGEST JOB] Summary:', JSON.stringify(summary, null, 2));
+    res.json(summary);
+  } catch (error) {
+    console.error('[DIGEST JOB] Fatal error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -24,6 +24,7 @@ import { getAllUsers, decryptToken } from '../../lib/core/auth';
 import { getMarketContext, MarketContext } from '../../lib/domain/market/index';
 import { createFMPClient } from '../../lib/integrations/fmp/client';
 import { createFREDClient } from '../../lib/integrations/fred/client';
+import { getHoliday, getMarketDate, isTradingDay } from '../../lib/shared/market-calendar';
 
 // Vercel function configuration
 export const maxDuration = 120; // 2 minutes (need time for per-user distribution)
@@ -71,10 +72,10 @@ export default async function handler(
     }
 
     // 3. Check if today is a market day
-    const isMarketDay = await checkNYSEMarketDay();
+    const marketDate = getMarketDate();
 
-    if (!isMarketDay) {
-      console.log('[MARKET JOB] Market closed today (weekend or holiday) - skipping execution');
+    if (!isTradingDay(marketDate)) {
+      console.log(`[MARKET JOB] Market closed today (${getHoliday(marketDate) || 'weekend'}) - skipping execution`);
       res.json({
         success: true,
         message: 'Market closed today',
@@ -788,39 +789,3 @@ function parseRichText(text: string): any[] {
 
   return richText.length > 0 ? richText : [{ type: 'text', text: { content: text } }];
 }
-
-/**
- * Check if today is a NYSE market day
- * (Same logic as scheduled-analyses.ts)
- */
-async function checkNYSEMarketDay(): Promise<boolean> {
-  const today = new Date();
-
-  // Check if weekend
-  const dayOfWeek = today.getDay();
-  if (dayOfWeek === 0 || dayOfWeek === 6) {
-    console.log('[MARKET JOB] Weekend detected - market closed');
-    return false;
-  }
-
-  // Check hardcoded 2025 holidays
-  const dateStr = today.toISOString().split('T')[0];
-  const holidays2025 = [
-    '2025-01-01', // New Year's Day
-    '2025-01-20', // MLK Day
-    '2025-02-17', // Presidents Day
-    '2025-04-18', // Good Friday
-    '2025-05-26', // Memorial Day
-    '2025-07-04', // Independence Day
-    '2025-09-01', // Labor Day
-    '2025-11-27', // Thanksgiving
-    '2025-12-25'  // Christmas
-  ];
-
-  if (holidays2025.includes(dateStr)) {
-    console.log(`[MARKET JOB] Holiday detected (${dateStr}) - market closed`);
-    return false;
-  }
-
-  return true;
-}
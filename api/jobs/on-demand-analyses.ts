@@ -0,0 +1,214 @@
+/**
+ * On-Demand Analyses Worker Endpoint
+ *
+ * Drains the on-demand queue (analyses requested with the "Request
+ * Analysis" checkbox, see lib/orchestration/on-demand.ts). Invoked by the
+ * Notion webhook right after it queues an item, by itself while items are
+ * left (signed worker requests, worker-chain.ts), and every 10 minutes by
+ * Vercel Cron as a sweep for retries and crashed workers - the sweep only
+ * reads Redis and exits when nothing is claimable.
+ *
+ * Unlike scheduled-analyses there is no trading-day check or run window:
+ * a requested analysis runs whenever it's asked for.
+ *
+ * Workflow:
+ * 1. Verify worker signature or cron secret (authentication)
+ * 2. Take a worker slot on the on-demand queue (exit if the limit is reached)
+ * 3. Claim and process a few items at a time until the queue is empty or
+ *    the time budget is spent - items queued meanwhile are picked up too
+ * 4. Chain the next worker if items are still claimable
+ * 5. Return execution summary
+ */
+
+import { randomUUID } from 'crypto';
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { getOrFetchMarketContext, processQueue } from '../../lib/orchestration/orchestrator';
+import { ON_DEMAND_WORKER_PATH } from '../../lib/orchestration/on-demand';
+import { setProviderLimitShare } from '../../lib/core/provider-limits';
+import {
+  acquireWorkerSlot,
+  claimQueueItems,
+  completeQueueItem,
+  failQueueItem,
+  getQueueStatus,
+  loadQueueFromRedis,
+  releaseWorkerSlot,
+  ON_DEMAND_QUEUE,
+  QUEUE_WORKER_CONCURRENCY,
+} from '../../lib/orchestration/queue-storage';
+import { invokeWorkers, verifyWorkerRequest, MAX_CHAIN_GENERATIONS } from '../../lib/orchestration/worker-chain';
+
+// Vercel function configuration
+export const maxDuration = 800;
+
+// Environment variables
+const CRON_SECRET = process.env.CRON_SECRET || '';
+// Small claims keep latency low - a request queued mid-run waits for one batch at most
+const ON_DEMAND_BATCH_SIZE = parseInt(process.env.ON_DEMAND_BATCH_SIZE || '3', 10);
+
+// A worker with nothing claimable waits this long at most for a retry's backoff
+const MAX_RETRY_WAIT_MS = 4 * 60 * 1000;
+// No new batch after this - leaves time for one to finish before maxDuration
+const TIME_BUDGET_MS = (maxDuration - 300) * 1000;
+
+/**
+ * Main worker handler
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  console.log('[ON-DEMAND] On-demand analyses worker started');
+  const startTime = Date.now();
+
+  try {
+    // 1. Verify worker signature (webhook, chained invocations) or cron secret (sweep)
+    const authHeader = req.headers.authorization;
+    const providedSecret = authHeader?.replace('Bearer ', '');
+    const worker = verifyWorkerRequest(req.headers);
+
+    if (!worker && (!providedSecret || providedSecret !== CRON_SECRET)) {
+      console.error('[ON-DEMAND] Unauthorized - invalid cron secret');
+      res.status(401).json({
+        success: false,
+        error: 'Unauthorized',
+        message: 'Invalid cron secret',
+      });
+      return;
+    }
+
+    const storedQueue = await loadQueueFromRedis(ON_DEMAND_QUEUE);
+    if (!storedQueue || (worker && worker.queueId !== storedQueue.id)) {
+      console.log('[ON-DEMAND] No on-demand queue - nothing to do');
+      res.json({ success: true, message: 'No on-demand queue', claimedItems: 0 });
+      return;
+    }
+
+    // Skip the slot and market context when the sweep finds nothing to do
+    let status = await getQueueStatus(ON_DEMAND_QUEUE);
+    if (!worker && !status.claimable) {
+      res.json({ success: true, message: 'Nothing claimable', claimedItems: 0, queue: status.counts });
+      return;
+    }
+
+    // 2. Take a worker slot - running workers pick up new items on their next claim
+    const owner = randomUUID();
+    const slot = await acquireWorkerSlot(storedQueue.id, owner);
+
+    if (slot === null) {
+      console.log('[ON-DEMAND] Worker concurrency limit reached - exiting (running workers will pick the item up)');
+      res.json({ success: true, message: 'Worker concurrency limit reached', claimedItems: 0 });
+      return;
+    }
+
+    // Shares limits like the scheduled workers; overlapping runs back off on 429s
+    setProviderLimitShare(QUEUE_WORKER_CONCURRENCY);
+
+    // 3. Claim and process until the queue is empty or the budget is spent
+    let claimedItems = 0;
+    let analyzed = 0;
+    let failed = 0;
+    let retriesScheduled = 0;
+    let deadLettered = 0;
+
+    try {
+      const marketContext = await getOrFetchMarketContext();
+
+      while (Date.now() - startTime < TIME_BUDGET_MS) {
+        const claimed = await claimQueueItems(storedQueue.id, ON_DEMAND_BATCH_SIZE, owner);
+
+        if (claimed.length === 0) {
+          status = await getQueueStatus(ON_DEMAND_QUEUE);
+          if (!(await waitForRetry(status.nextRetryAt, startTime))) break;
+          continue;
+        }
+
+        claimedItems += claimed.length;
+        const keys = new Map(claimed.map((state) => [state.item, state.key]));
+        console.log(`[ON-DEMAND] Processing batch: ${claimed.map((state) => state.key).join(', ')}`);
+
+        const metrics = await processQueue(
+          claimed.map((state) => state.item),
+          marketContext,
+          0,
+          claimed.length,
+          async (item, outcome) => {
+            const key = keys.get(item)!;
+            if (outcome.success) {
+              await completeQueueItem(storedQueue.id, key, owner);
+              return;
+            }
+            const result = await failQueueItem(storedQueue.id, key, owner, outcome.error || 'Analysis failed');
+            if (result === 'retry') retriesScheduled++;
+            if (result === 'dead_letter') deadLettered++;
+          }
+        );
+        analyzed += metrics.analyzed;
+        failed += metrics.failed;
+      }
+    } finally {
+      await releaseWorkerSlot(storedQueue.id, slot, owner);
+    }
+
+    // 4. Out of time with items left - hand over to a fresh worker
+    status = await getQueueStatus(ON_DEMAND_QUEUE);
+    const generation = worker?.generation ?? 0;
+    let chained = 0;
+
+    if (status.claimable && generation < MAX_CHAIN_GENERATIONS) {
+      chained = await invokeWorkers(storedQueue.id, generation + 1, 1, ON_DEMAND_WORKER_PATH);
+    } else if (status.claimable) {
+      console.warn(`[ON-DEMAND] Chain reached ${MAX_CHAIN_GENERATIONS} generations - the next sweep resumes`);
+    }
+
+    const summary = {
+      success: true,
+      claimedItems,
+      analyzed,
+      failed,
+      queue: {
+        ...status.counts,
+        retrying: status.retrying,
+        retriesScheduled,
+        deadLettered,
+        workers: status.workers,
+      },
+      worker: {
+        slot,
+        generation,
+        chained,
+      },
+      durationSec: ((Date.now() - startTime) / 1000).toFixed(1),
+    };
+
+    console.log('[ON-DEMAND] ✓ Worker complete:', JSON.stringify(summary, null, 2));
+    res.json(summary);
+  } catch (error) {
+    console.error('[ON-DEMAND] Fatal error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Wait for the next retry's backoff if it ends soon enough
+ *
+ * @returns false when there's nothing worth waiting for
+ */
+async function waitForRetry(nextRetryAt: string | undefined, startTime: number): Promise<boolean> {
+  if (!nextRetryAt) {
+    return false;
+  }
+
+  const waitMs = Date.parse(nextRetryAt) - Date.now();
+  if (waitMs > MAX_RETRY_WAIT_MS || Date.now() - startTime + waitMs > TIME_BUDGET_MS) {
+    return false;
+  }
+
+  console.log(`[ON-DEMAND] Waiting ${Math.ceil(waitMs / 1000)}s for the next retry`);
+  await new Promise((resolve) => setTimeout(resolve, Math.max(1000, waitMs))); // Never spin on a lost claim race
+  return true;
+}
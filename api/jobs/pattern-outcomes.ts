@@ -0,0 +1,110 @@
+/**
+ * Pattern Outcome Review Job Endpoint
+ *
+ * Runs each weekday morning via Vercel Cron, before the scheduled analyses.
+ * Checks Stock History predictions whose Days to Breakout horizon has passed
+ * and records Actual Move (%), Prediction Correct and Pattern Accuracy.
+ *
+ * Workflow:
+ * 1. Verify cron secret (authentication)
+ * 2. Load all users
+ * 3. Resolve matured predictions per user (closes from the market data store)
+ * 4. Return execution summary
+ */
+
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAllUsers } from '../../lib/core/auth';
+import { createFMPClient } from '../../lib/integrations/fmp/client';
+import { runPatternOutcomeReview } from '../../lib/domain/stock/pattern-outcomes';
+
+// Vercel function configuration
+export const maxDuration = 300;
+
+// Environment variables
+const CRON_SECRET = process.env.CRON_SECRET || '';
+const FMP_API_KEY = process.env.FMP_API_KEY || '';
+
+/**
+ * Main cron handler
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  console.log('[PATTERN JOB] Pattern outcome review started');
+
+  try {
+    // 1. Verify cron secret
+    const authHeader = req.headers.authorization;
+    const providedSecret = authHeader?.replace('Bearer ', '');
+
+    if (!providedSecret || providedSecret !== CRON_SECRET) {
+      console.error('[PATTERN JOB] Unauthorized - invalid cron secret');
+      res.status(401).json({
+        success: false,
+        error: 'Unauthorized',
+        message: 'Invalid cron secret',
+      });
+      return;
+    }
+
+    if (!FMP_API_KEY) {
+      console.error('[PATTERN JOB] Missing required configuration');
+      res.status(500).json({
+        success: false,
+        error: 'Configuration error',
+        message: 'Missing required environment variable FMP_API_KEY',
+      });
+      return;
+    }
+
+    console.log('[PATTERN JOB] ✓ Cron secret verified');
+
+    // 2. Load users
+    const users = await getAllUsers();
+    console.log(`[PATTERN JOB] Found ${users.length} users`);
+
+    // 3. Resolve matured predictions
+    const metrics = await runPatternOutcomeReview(createFMPClient(FMP_API_KEY), users);
+
+    // 4. Return summary
+    const hitRate = metrics.entriesResolved > 0
+      ? Math.round((metrics.predictionsCorrect / metrics.entriesResolved) * 1000) / 10
+      : null;
+
+    const summary = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      metrics: {
+        duration: `${((metrics.durationMs || 0) / 1000).toFixed(1)}s`,
+        users: {
+          processed: metrics.usersProcessed,
+          skipped: metrics.usersSkipped,
+          failed: metrics.usersFailed,
+        },
+        predictions: {
+          checked: metrics.entriesChecked,
+          resolved: metrics.entriesResolved,
+          pending: metrics.entriesPending,
+          correct: metrics.predictionsCorrect,
+          hitRate, // % of resolved predictions that went the predicted way
+        },
+        apiCalls: {
+          fmp: metrics.fmpApiCalls,
+          notion: metrics.notionApiCalls,
+        },
+      },
+      errors: metrics.errors.slice(0, 10),
+    };
+
+    console.log('[PATTERN JOB] Summary:', JSON.stringify(summary, null, 2));
+    res.json(summary);
+  } catch (error) {
+    console.error('[PATTERN JOB] Fatal error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Portfolio Risk Job Endpoint
+ *
+ * Runs each weekday after the scheduled analyses (and their Portfolio
+ * Positions refresh) via Vercel Cron. Writes a "Portfolio Risk" page under
+ * each user's Sage Stocks page: weighted beta, concentration, sector weights
+ * vs. the S&P 500, pairwise correlation, historical VaR and max drawdown.
+ *
+ * Workflow:
+ * 1. Verify cron secret (authentication)
+ * 2. Load all users
+ * 3. Compute and write the report per user (bars/betas from the market data store)
+ * 4. Return execution summary
+ */
+
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAllUsers } from '../../lib/core/auth';
+import { createFMPClient } from '../../lib/integrations/fmp/client';
+import { runPortfolioRiskReport } from '../../lib/domain/portfolio';
+
+// Vercel function configuration
+export const maxDuration = 300;
+
+// Environment variables
+const CRON_SECRET = process.env.CRON_SECRET || '';
+const FMP_API_KEY = process.env.FMP_API_KEY || '';
+
+/**
+ * Main cron handler
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  console.log('[RISK JOB] Portfolio risk report started');
+
+  try {
+    // 1. Verify cron secret
+    const authHeader = req.headers.authorization;
+    const providedSecret = authHeader?.replace('Bearer ', '');
+
+    if (!providedSecret || providedSecret !== CRON_SECRET) {
+      console.error('[RISK JOB] Unauthorized - invalid cron secret');
+      res.status(401).json({
+        success: false,
+        error: 'Unauthorized',
+        message: 'Invalid cron secret',
+      });
+      return;
+    }
+
+    if (!FMP_API_KEY) {
+      console.error('[RISK JOB] Missing required configuration');
+      res.status(500).json({
+        success: false,
+        error: 'Configuration error',
+        message: 'Missing required environment variable FMP_API_KEY',
+      });
+      return;
+    }
+
+    console.log('[RISK JOB] ✓ Cron secret verified');
+
+    // 2. Load users
+    const users = await getAllUsers();
+    console.log(`[RISK JOB] Found ${users.length} users`);
+
+    // 3. Compute and write reports
+    const metrics = await runPortfolioRiskReport(createFMPClient(FMP_API_KEY), users);
+
+    // 4. Return summary
+    const summary = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      metrics: {
+        duration: `${((metrics.durationMs || 0) / 1000).toFixed(1)}s`,
+        users: {
+          processed: metrics.usersProcessed,
+          skipped: metrics.usersSkipped,
+          failed: metrics.usersFailed,
+        },
+        pages: {
+          created: metrics.pagesCreated,
+          updated: metrics.pagesUpdated,
+        },
+        warningsRaised: metrics.warningsRaised,
+        apiCalls: {
+          fmp: metrics.fmpApiCalls,
+          notion: metrics.notionApiCalls,
+        },
+      },
+      errors: metrics.errors.slice(0, 10),
+    };
+
+    console.log('[RISK JOB] Summary:', JSON.stringify(summary, null, 2));
+    res.json(summary);
+  } catch (error) {
+    console.error('[RISK JOB] Fatal error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
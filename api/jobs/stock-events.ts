@@ -7,7 +7,7 @@
  *
  * Workflow:
  * 1. Verify cron secret (authentication)
- * 2. Check if today is a NYSE market day (optional - can run on weekends)
+ * 2. Look up market closures in the coming week (runs on weekends by design)
  * 3. Run stock events ingestion pipeline
  * 4. Return execution summary
  *
@@ -20,6 +20,7 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import { createFMPClient } from '../../lib/integrations/fmp/client';
 import { runStockEventsIngestion } from '../../lib/domain/stock/events-ingestion';
+import { getMarketClosures, nextTradingDay } from '../../lib/shared/market-calendar';
 
 // Vercel function configuration
 export const maxDuration = 300; // 5 minutes (need time for FMP fetch + per-user distribution)
@@ -69,11 +70,14 @@ export default async function handler(
 
     console.log('[EVENTS JOB] ✓ Configuration validated');
 
-    // 3. Optional: Check if today is a market day (commented out - events can be fetched on weekends)
-    // const isMarketDay = await checkNYSEMarketDay();
-    // if (!isMarketDay) {
-    //   console.log('[EVENTS JOB] Market closed today - but continuing anyway (events are forward-looking)');
-    // }
+    // 3. Market calendar for the week ahead (events are forward-looking, so no market-day gate)
+    const now = new Date();
+    const nextSession = nextTradingDay(now);
+    const closures = getMarketClosures(now, new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000));
+    console.log(`[EVENTS JOB] Next trading day: ${nextSession}`);
+    for (const closure of closures) {
+      console.log(`[EVENTS JOB]   ${closure.date}: ${closure.name}${closure.earlyClose ? ' (early close 1:00 PM ET)' : ' (market closed)'}`);
+    }
 
     // 4. Run stock events ingestion
     const fmpClient = createFMPClient(FMP_API_KEY);
@@ -93,6 +97,10 @@ export default async function handler(
     const summary = {
       success: true,
       timestamp: new Date().toISOString(),
+      marketCalendar: {
+        nextTradingDay: nextSession,
+        closuresNext7Days: closures,
+      },
       metrics: {
         duration: `${((metrics.durationMs || 0) / 1000).toFixed(1)}s`,
         users: {
@@ -136,40 +144,3 @@ export default async function handler(
     });
   }
 }
-
-/**
- * Check if today is a NYSE market day
- * (Same logic as scheduled-analyses.ts)
- * Currently not used - events are fetched on weekends for the week ahead
- */
-// async function checkNYSEMarketDay(): Promise<boolean> {
-//   const today = new Date();
-//
-//   // Check if weekend
-//   const dayOfWeek = today.getDay();
-//   if (dayOfWeek === 0 || dayOfWeek === 6) {
-//     console.log('[EVENTS JOB] Weekend detected - market closed');
-//     return false;
-//   }
-//
-//   // Check hardcoded 2025 holidays
-//   const dateStr = today.toISOString().split('T')[0];
-//   const holidays2025 = [
-//     '2025-01-01', // New Year's Day
-//     '2025-01-20', // MLK Day
-//     '2025-02-17', // Presidents Day
-//     '2025-04-18', // Good Friday
-//     '2025-05-26', // Memorial Day
-//     '2025-07-04', // Independence Day
-//     '2025-09-01', // Labor Day
-//     '2025-11-27', // Thanksgiving
-//     '2025-12-25'  // Christmas
-//   ];
-//
-//   if (holidays2025.includes(dateStr)) {
-//     console.log(`[EVENTS JOB] Holiday detected (${dateStr}) - market closed`);
-//     return false;
-//   }
-//
-//   return true;
-// }
@@ -0,0 +1,97 @@
+/**
+ * Weekly Review Job Endpoint
+ *
+ * Runs Saturday morning via Vercel Cron, after the week's last scheduled
+ * analyses. Writes a "Week in Review - {date}" page under each user's Sage
+ * Stocks page: winners/losers, regime drift and what to watch next week,
+ * narrated by the LLM from the user's Stock History, Market Context and
+ * Stock Events.
+ *
+ * Workflow:
+ * 1. Verify cron secret (authentication)
+ * 2. Load all users
+ * 3. Gather the week, generate and write the review per user
+ * 4. Return execution summary (incl. LLM token cost)
+ */
+
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAllUsers } from '../../lib/core/auth';
+import { runWeeklyReview } from '../../lib/domain/review';
+
+// Vercel function configuration
+export const maxDuration = 300;
+
+// Environment variables
+const CRON_SECRET = process.env.CRON_SECRET || '';
+
+/**
+ * Main cron handler
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  console.log('[REVIEW JOB] Weekly review started');
+
+  try {
+    // 1. Verify cron secret
+    const authHeader = req.headers.authorization;
+    const providedSecret = authHeader?.replace('Bearer ', '');
+
+    if (!providedSecret || providedSecret !== CRON_SECRET) {
+      console.error('[REVIEW JOB] Unauthorized - invalid cron secret');
+      res.status(401).json({
+        success: false,
+        error: 'Unauthorized',
+        message: 'Invalid cron secret',
+      });
+      return;
+    }
+
+    console.log('[REVIEW JOB] ✓ Cron secret verified');
+
+    // 2. Load users
+    const users = await getAllUsers();
+    console.log(`[REVIEW JOB] Found ${users.length} users`);
+
+    // 3. Generate and write reviews
+    const metrics = await runWeeklyReview(users);
+
+    // 4. Return summary
+    const summary = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      metrics: {
+        duration: `${((metrics.durationMs || 0) / 1000).toFixed(1)}s`,
+        users: {
+          processed: metrics.usersProcessed,
+          skipped: metrics.usersSkipped,
+          failed: metrics.usersFailed,
+        },
+        pages: {
+          created: metrics.pagesCreated,
+          updated: metrics.pagesUpdated,
+        },
+        llm: {
+          calls: metrics.llmCalls,
+          tokens: metrics.tokensUsed,
+          cost: `$${metrics.totalCost.toFixed(4)}`,
+        },
+        apiCalls: {
+          notion: metrics.notionApiCalls,
+        },
+      },
+      errors: metrics.errors.slice(0, 10),
+    };
+
+    console.log('[REVIEW JOB] Summary:', JSON.stringify(summary, null, 2));
+    res.json(summary);
+  } catch (error) {
+    console.error('[REVIEW JOB] Fatal error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * LLM Settings Endpoint
+ *
+ * GET  /api/settings/llm - the user's provider/model preference, which
+ *      providers have a saved key of their own, and what the server offers
+ * POST /api/settings/llm { provider, model, apiKeys? } - update them
+ *
+ * Saved keys are never returned - only whether one is set. In apiKeys, a
+ * string replaces the key, null removes it, and an omitted provider keeps
+ * its current key. Per-stock overrides are set in Notion (Stock Analyses
+ * "LLM Provider" / "Preferred Model").
+ *
+ * Models outside the pricing table are only accepted with the user's own
+ * key for that provider - the server key runs priced models only.
+ */
+
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  requireAuth,
+  getUserByEmail,
+  updateUserLLMSettings,
+  LLMApiKeys,
+  LLMSettingsUpdate,
+  User,
+} from '../../lib/core/auth';
+import { DEFAULT_MODELS, LLMFactory, LLMProviderType, PROVIDER_TYPES } from '../../lib/integrations/llm/factory';
+import { LLM_PROVIDER_LABELS } from '../../lib/integrations/llm/preferences';
+import { MODEL_PRICING, isPricedModel } from '../../lib/integrations/llm/pricing';
+import { formatErrorResponse } from '../../lib/core/utils';
+import { getStatusCode, ValidationError } from '../../lib/core/errors';
+
+const MODEL_NAME_PATTERN = /^[A-Za-z0-9._:/-]{1,100}$/;
+const API_KEY_PATTERN = /^\S{20,500}$/;
+
+interface LLMSettingsRequest {
+  provider?: string | null;
+  model?: string | null;
+  apiKeys?: Record<string, string | null>;
+}
+
+export interface LLMSettingsResponse {
+  success: true;
+  settings: {
+    provider: LLMProviderType | null; // null = server default
+    model: string | null;
+    ownKeys: Record<LLMProviderType, boolean>;
+  };
+  providers: Array<{
+    id: LLMProviderType;
+    label: string;
+    defaultModel: string;
+    serverKey: boolean; // Usable without the user's own key
+    models: string[];   // Priced models (other names need the user's own key)
+  }>;
+  serverDefault: { provider: string; model: string | null };
+}
+
+/**
+ * Validate and normalize a settings update
+ *
+ * @throws ValidationError
+ */
+function parseSettings(body: LLMSettingsRequest | undefined, user: User): LLMSettingsUpdate {
+  const provider = body?.provider ? LLMFactory.parseProviderType(body.provider) : null;
+  if (body?.provider && !provider) {
+    throw new ValidationError('provider', `must be one of ${PROVIDER_TYPES.join(', ')}`);
+  }
+
+  const model = body?.model?.trim() || null;
+  if (model) {
+    if (!provider) {
+      throw new ValidationError('model', 'choose a provider before choosing a model');
+    }
+    if (!MODEL_NAME_PATTERN.test(model)) {
+      throw new ValidationError('model', 'use the provider\'s model ID (letters, digits, . _ : / -)');
+    }
+    const modelProvider = LLMFactory.inferProviderType(model);
+    if (modelProvider && modelProvider !== provider) {
+      throw new ValidationError('model', `${model} is a ${LLM_PROVIDER_LABELS[modelProvider]} model`);
+    }
+  }
+
+  const apiKeys: LLMSettingsUpdate['apiKeys'] = {};
+  for (const [name, key] of Object.entries(body?.apiKeys || {})) {
+    const type = LLMFactory.parseProviderType(name);
+    if (!type) {
+      throw new ValidationError('apiKeys', `unknown provider "${name}"`);
+    }
+    if (key === null || key === '') {
+      apiKeys[type] = null;
+      continue;
+    }
+    if (typeof key !== 'string' || !API_KEY_PATTERN.test(key.trim())) {
+      throw new ValidationError('apiKeys', `${LLM_PROVIDER_LABELS[type]} key doesn't look like an API key`);
+    }
+    apiKeys[type] = key.trim();
+  }
+
+  // Checked against the keys as they'll be after this update
+  if (model && provider && !isPricedModel(model)) {
+    const ownKey = provider in apiKeys ? !!apiKeys[provider] : !!user.llmApiKeys?.[provider as keyof LLMApiKeys];
+    if (!ownKey) {
+      throw new ValidationError(
+        'model',
+        `${model} isn't available on the server key - pick a listed model or add your own ${LLM_PROVIDER_LABELS[provider]} key`
+      );
+    }
+  }
+
+  return {
+    provider: provider ? LLM_PROVIDER_LABELS[provider] : null,
+    model,
+    apiKeys,
+  };
+}
+
+function buildResponse(user: User): LLMSettingsResponse {
+  const ownKeys = Object.fromEntries(
+    PROVIDER_TYPES.map((type) => [type, !!user.llmApiKeys?.[type as keyof LLMApiKeys]])
+  ) as Record<LLMProviderType, boolean>;
+
+  return {
+    success: true,
+    settings: {
+      provider: LLMFactory.parseProviderType(user.llmProvider),
+      model: user.llmModel || null,
+      ownKeys,
+    },
+    providers: PROVIDER_TYPES.map((type) => ({
+      id: type,
+      label: LLM_PROVIDER_LABELS[type],
+      defaultModel: DEFAULT_MODELS[type],
+      serverKey: LLMFactory.hasApiKey(type),
+      models: Object.keys(MODEL_PRICING).filter((model) => LLMFactory.inferProviderType(model) === type),
+    })),
+    serverDefault: {
+      provider: process.env.LLM_PROVIDER || 'gemini',
+      model: process.env.LLM_MODEL_NAME || null,
+    },
+  };
+}
+
+/**
+ * LLM settings handler
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use GET or POST.',
+    });
+    return;
+  }
+
+  const session = await requireAuth(req, res);
+  if (!session) {
+    return; // requireAuth already sent error response
+  }
+
+  try {
+    const user = await getUserByEmail(session.email);
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+      return;
+    }
+
+    if (req.method === 'GET') {
+      res.status(200).json(buildResponse(user));
+      return;
+    }
+
+    const body: LLMSettingsRequest =
+      typeof req.body === 'string' ? JSON.parse(req.body) : req.body;
+    const update = parseSettings(body, user);
+
+    await updateUserLLMSettings(user.id, update);
+
+    const updated = await getUserByEmail(session.email);
+    res.status(200).json(buildResponse(updated || user));
+  } catch (error) {
+    console.error('[SETTINGS] LLM settings request failed:', error);
+    res.status(getStatusCode(error)).json(formatErrorResponse(error));
+  }
+}
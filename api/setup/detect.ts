@@ -49,6 +49,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           stockEventsDb: user.stockEventsDbId ? { id: user.stockEventsDbId, title: 'Stock Events', confidence: 'high' } : null,
           marketContextDb: user.marketContextDbId ? { id: user.marketContextDbId, title: 'Market Context', confidence: 'high' } : null,
           sageStocksPage: { id: user.sageStocksPageId, title: 'Sage Stocks', confidence: 'high' },
+          portfolioPositionsDb: user.portfolioPositionsDbId ? { id: user.portfolioPositionsDbId, title: 'Portfolio Positions', confidence: 'high' } : null,
+          portfolioTransactionsDb: user.portfolioTransactionsDbId ? { id: user.portfolioTransactionsDbId, title: 'Portfolio Transactions', confidence: 'high' } : null,
+          stockComparisonsDb: user.stockComparisonsDbId ? { id: user.stockComparisonsDbId, title: 'Stock Comparisons', confidence: 'high' } : null,
+          alertRulesDb: user.alertRulesDbId ? { id: user.alertRulesDbId, title: 'Alert Rules', confidence: 'high' } : null,
           needsManual: false,
         }
       });
@@ -69,6 +73,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       stockEvents: detection.stockEventsDb ? 'Found' : 'Not found',
       marketContext: detection.marketContextDb ? 'Found' : 'Not found',
       sageStocksPage: detection.sageStocksPage ? 'Found' : 'Not found',
+      portfolioPositions: detection.portfolioPositionsDb ? 'Found' : 'Not found (optional)',
+      portfolioTransactions: detection.portfolioTransactionsDb ? 'Found' : 'Not found (optional)',
+      stockComparisons: detection.stockComparisonsDb ? 'Found' : 'Not found (optional)',
+      alertRules: detection.alertRulesDb ? 'Found' : 'Not found (optional)',
       needsManual: detection.needsManual,
     });
 
@@ -88,6 +96,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         stockHistoryDbId: detection.stockHistoryDb.id,    // No longer optional
         stockEventsDbId: detection.stockEventsDb.id,      // v1.2.16: New required DB
         marketContextDbId: detection.marketContextDb.id,  // v1.3.0: New required DB
+        // Optional databases - saved only when present in the template
+        portfolioPositionsDbId: detection.portfolioPositionsDb?.id,
+        portfolioTransactionsDbId: detection.portfolioTransactionsDb?.id,
+        stockComparisonsDbId: detection.stockComparisonsDb?.id,
+        alertRulesDbId: detection.alertRulesDb?.id,
       };
 
       try {
@@ -130,6 +143,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             stockEventsDb: detection.stockEventsDb || undefined,
             marketContextDb: detection.marketContextDb || undefined,
             sageStocksPage: detection.sageStocksPage || undefined,
+            portfolioPositionsDb: detection.portfolioPositionsDb || undefined,
+            portfolioTransactionsDb: detection.portfolioTransactionsDb || undefined,
+            stockComparisonsDb: detection.stockComparisonsDb || undefined,
+            alertRulesDb: detection.alertRulesDb || undefined,
           },
         });
       } else {
@@ -143,6 +160,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             stockEventsDb: detection.stockEventsDb || undefined,
             marketContextDb: detection.marketContextDb || undefined,
             sageStocksPage: detection.sageStocksPage || undefined,
+            portfolioPositionsDb: detection.portfolioPositionsDb || undefined,
+            portfolioTransactionsDb: detection.portfolioTransactionsDb || undefined,
+            stockComparisonsDb: detection.stockComparisonsDb || undefined,
+            alertRulesDb: detection.alertRulesDb || undefined,
           },
           errors: [{
             step: 3,
@@ -163,6 +184,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         stockEventsDb: detection.stockEventsDb,
         marketContextDb: detection.marketContextDb,
         sageStocksPage: detection.sageStocksPage,
+        portfolioPositionsDb: detection.portfolioPositionsDb,
+        portfolioTransactionsDb: detection.portfolioTransactionsDb,
+        stockComparisonsDb: detection.stockComparisonsDb,
+        alertRulesDb: detection.alertRulesDb,
         needsManual: detection.needsManual,
       },
     });
@@ -1,20 +1,29 @@
 /**
  * Notion Webhook Handler
  *
- * Receives webhook events from Notion database automations.
+ * Receives Notion integration webhook events (see
+ * lib/integrations/notion/webhooks.ts for the subscription setup).
  *
  * Current functionality:
- * 1. New analysis trigger: Extracts ticker and triggers analysis (DEPRECATED - marked "Will Not Do")
+ * 1. Subscription handshake: logs the verification_token Notion sends once,
+ *    only while NOTION_WEBHOOK_VERIFICATION_TOKEN is unset
+ * 2. Analysis requests: page.created / page.properties_updated events for a
+ *    Stock Analyses page with "Request Analysis" ticked are queued for the
+ *    on-demand worker (lib/orchestration/on-demand.ts). Events are verified
+ *    with X-Notion-Signature and handled once per event ID.
  *
- * Deprecated functionality (removed in v1.2.22):
- * 2. Archive trigger: Moved completed analysis to Stock History
- *    - Stock History is now created automatically in /api/analyze endpoint
- *    - No webhook trigger needed
- *    - Returns HTTP 410 Gone if called
+ * Deprecated functionality (return HTTP 410 Gone if called):
+ * - Archive trigger (removed in v1.2.22): Stock History is now created
+ *   automatically in /api/analyze - no webhook trigger needed
+ * - Database automation analysis trigger: replaced by the integration
+ *   webhook above - remove "Send webhook" automations from Notion
  *
  * Setup in Notion:
- * - Remove any "Send to History" automations that call this webhook
  * - Webhook URL: https://your-app.vercel.app/api/webhook
+ * - Events: page.created, page.properties_updated
+ *
+ * The body parser is off: signatures are checked against the raw bytes
+ * Notion sent, which a re-serialized JSON body wouldn't reproduce.
  *
  * v1.2.22 - Removed archive webhook (duplicate prevention)
  * v1.0 - Vercel Serverless + TypeScript
@@ -23,9 +32,21 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import crypto from 'crypto';
 import { requireAuth } from '../lib/core/auth';
-import { createTimer, info, error as logError } from '../lib/core/logger';
+import { createTimer, info, warn, error as logError } from '../lib/core/logger';
 import { formatErrorResponse } from '../lib/core/utils';
 import { getStatusCode } from '../lib/core/errors';
+import {
+  NotionWebhookEvent,
+  claimWebhookEvent,
+  isAnalysisTriggerEvent,
+  isNotionWebhookEvent,
+  releaseWebhookEvent,
+  verifyNotionSignature,
+} from '../lib/integrations/notion/webhooks';
+import { enqueueRequestedAnalysis } from '../lib/orchestration/on-demand';
+
+// Vercel function configuration
+export const config = { api: { bodyParser: false } };
 
 interface NotionWebhookPayload {
   type?: string;
@@ -42,7 +63,9 @@ interface NotionWebhookPayload {
 
 interface WebhookResponse {
   success: boolean;
+  eventId?: string;
   ticker?: string;
+  analysisQueued?: boolean;
   analysisTriggered?: boolean;
   archiveTriggered?: boolean;
   historyPageId?: string;
@@ -56,49 +79,27 @@ interface WebhookResponse {
  * Notion signs webhooks with HMAC-SHA256
  */
 function verifySignature(
-  payload: string,
+  payload: Buffer,
   signature: string,
   secret: string
 ): boolean {
   const hmac = crypto.createHmac('sha256', secret);
   hmac.update(payload);
-  const expectedSignature = hmac.digest('hex');
+  const expectedSignature = Buffer.from(hmac.digest('hex'));
+  const provided = Buffer.from(signature);
 
-  return crypto.timingSafeEqual(
-    Buffer.from(signature),
-    Buffer.from(expectedSignature)
-  );
+  return provided.length === expectedSignature.length && crypto.timingSafeEqual(provided, expectedSignature);
 }
 
 /**
- * Extract ticker from Notion page properties
+ * Read the request body as sent (the body parser is disabled)
  */
-function extractTicker(properties: Record<string, any>): string | null {
-  // Try different property names
-  const tickerProperty =
-    properties['Ticker'] ||
-    properties['ticker'] ||
-    properties['Symbol'] ||
-    properties['symbol'];
-
-  if (!tickerProperty) {
-    return null;
-  }
-
-  // Handle different property types
-  if (tickerProperty.type === 'title' && tickerProperty.title?.length > 0) {
-    return tickerProperty.title[0].plain_text;
+async function readRawBody(req: VercelRequest): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
   }
-
-  if (tickerProperty.type === 'rich_text' && tickerProperty.rich_text?.length > 0) {
-    return tickerProperty.rich_text[0].plain_text;
-  }
-
-  if (tickerProperty.type === 'text' && tickerProperty.text?.length > 0) {
-    return tickerProperty.text[0].plain_text;
-  }
-
-  return null;
+  return Buffer.concat(chunks);
 }
 
 /**
@@ -131,6 +132,30 @@ export default async function handler(
     return;
   }
 
+  const rawBody = await readRawBody(req);
+  let payload: any;
+  try {
+    payload = JSON.parse(rawBody.toString('utf8'));
+  } catch {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid payload',
+      details: 'Request body must be JSON',
+    });
+    return;
+  }
+
+  // Integration webhooks carry no API key - they're verified by signature instead
+  if (typeof payload?.verification_token === 'string') {
+    handleVerificationToken(payload.verification_token, res);
+    return;
+  }
+
+  if (isNotionWebhookEvent(payload)) {
+    await handleIntegrationEvent(payload, rawBody, req, res, timer);
+    return;
+  }
+
   // Check authentication (optional - only if API_KEY env var is set)
   if (!(await requireAuth(req, res))) {
     console.log('❌ Authentication failed');
@@ -155,8 +180,6 @@ export default async function handler(
         return;
       }
 
-      const rawBody = typeof req.body === 'string' ? req.body : JSON.stringify(req.body);
-
       if (!verifySignature(rawBody, signature, webhookSecret)) {
         console.log('❌ Invalid signature');
         res.status(401).json({
@@ -172,17 +195,15 @@ export default async function handler(
       console.log('⚠️  No webhook secret configured - skipping signature verification');
     }
 
-    // Parse webhook payload
-    const payload: NotionWebhookPayload =
-      typeof req.body === 'string' ? JSON.parse(req.body) : req.body;
+    const legacyPayload: NotionWebhookPayload = payload;
 
-    console.log('Webhook type:', payload.type);
-    console.log('Webhook action:', payload.action);
+    console.log('Webhook type:', legacyPayload.type);
+    console.log('Webhook action:', legacyPayload.action);
 
     // DEPRECATED: Archive webhook removed in v1.2.22
     // Stock History is now created directly in the analysis pipeline (/api/analyze)
     // See: docs/architecture/overview.md for current data flow
-    if (payload.action === 'archive') {
+    if (legacyPayload.action === 'archive') {
       console.log('⚠️  Deprecated archive webhook called');
       res.status(410).json({
         success: false,
@@ -193,109 +214,138 @@ export default async function handler(
       return;
     }
 
-    // Handle new analysis trigger (original behavior)
-    // Extract ticker from page properties
-    if (!payload.page?.properties) {
-      console.log('❌ No page properties in webhook payload');
-      res.status(400).json({
-        success: false,
-        error: 'Invalid payload',
-        details: 'Webhook payload must include page.properties',
-      });
-      return;
-    }
+    // DEPRECATED: Database automation trigger
+    // Analyses are requested with the "Request Analysis" checkbox and
+    // delivered through the integration webhook subscription
+    console.log('⚠️  Deprecated automation analysis trigger called');
+    res.status(410).json({
+      success: false,
+      error: 'Automation webhook deprecated',
+      details: 'Tick "Request Analysis" on the Stock Analyses page instead. Remove "Send webhook" automations from Notion.',
+      analysisTriggered: false,
+    });
+  } catch (error) {
+    const duration = timer.endWithError(error as Error);
 
-    const ticker = extractTicker(payload.page.properties);
+    logError('Webhook handler error', { duration }, error as Error);
 
-    if (!ticker) {
-      console.log('❌ No ticker found in page properties');
-      res.status(400).json({
-        success: false,
-        error: 'Missing ticker',
-        details: 'Could not find Ticker property in page',
-      });
-      return;
-    }
+    console.error('❌ Webhook handler error:', error);
+
+    // Format error response with proper status code
+    const errorResponse = formatErrorResponse(error);
+    const statusCode = getStatusCode(error);
+
+    res.status(statusCode).json({
+      ...errorResponse,
+      analysisTriggered: false,
+    });
+  }
+}
 
-    const tickerUpper = ticker.toUpperCase().trim();
-    console.log(`✅ Ticker extracted: ${tickerUpper}`);
+/**
+ * Subscription handshake - Notion sends the token once, to be pasted back
+ * into the subscription and set as NOTION_WEBHOOK_VERIFICATION_TOKEN
+ *
+ * The request is unauthenticated, so anyone can post a token here. It's
+ * only logged while no token is configured, and a logged value must match
+ * the one Notion shows for the subscription before it's used.
+ */
+function handleVerificationToken(token: string, res: VercelResponse): void {
+  if (process.env.NOTION_WEBHOOK_VERIFICATION_TOKEN) {
+    console.log('ℹ️  Verification token ignored (NOTION_WEBHOOK_VERIFICATION_TOKEN already set)');
+  } else {
+    warn('Notion webhook verification token received - confirm it matches the token shown in Notion, then verify the subscription and set NOTION_WEBHOOK_VERIFICATION_TOKEN', {
+      verificationToken: token,
+    });
+  }
 
-    // Trigger analysis endpoint
-    console.log('🚀 Triggering analysis...');
+  res.status(200).json({ success: true, message: 'Verification token received' });
+}
 
-    const analysisUrl = `${req.headers.origin || process.env.VERCEL_URL || 'http://localhost:3000'}/api/analyze`;
+/**
+ * Integration event: verify, deduplicate by event ID, queue the analysis
+ *
+ * Anything other than a 2xx makes Notion redeliver the event, so events
+ * that aren't analysis requests are acknowledged with 200 too.
+ */
+async function handleIntegrationEvent(
+  event: NotionWebhookEvent,
+  rawBody: Buffer,
+  req: VercelRequest,
+  res: VercelResponse,
+  timer: ReturnType<typeof createTimer>
+): Promise<void> {
+  const verificationToken = process.env.NOTION_WEBHOOK_VERIFICATION_TOKEN;
 
-    console.log(`Calling: ${analysisUrl}`);
+  if (!verificationToken) {
+    console.log('❌ NOTION_WEBHOOK_VERIFICATION_TOKEN not configured');
+    res.status(503).json({
+      success: false,
+      error: 'Webhook not configured',
+      details: 'Set NOTION_WEBHOOK_VERIFICATION_TOKEN to the subscription\'s verification token',
+    });
+    return;
+  }
 
-    const analysisResponse = await fetch(analysisUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        ticker: tickerUpper,
-        usePollingWorkflow: true,
-        timeout: 600,
-        pollInterval: 10,
-        skipPolling: false,
-      }),
+  if (!verifyNotionSignature(rawBody, req.headers['x-notion-signature'] as string | undefined, verificationToken)) {
+    console.log('❌ Invalid signature');
+    res.status(401).json({
+      success: false,
+      error: 'Invalid signature',
+      details: 'X-Notion-Signature verification failed',
     });
+    return;
+  }
 
-    if (!analysisResponse.ok) {
-      const errorData = await analysisResponse.json() as any;
-      console.log('❌ Analysis endpoint failed:', errorData);
+  console.log(`✅ Signature verified (${event.type}, attempt ${event.attempt_number || 1})`);
 
-      res.status(500).json({
-        success: false,
-        ticker: tickerUpper,
-        analysisTriggered: false,
-        error: 'Analysis failed',
-        details: errorData.error || 'Unknown error from analysis endpoint',
-      });
-      return;
-    }
+  if (!isAnalysisTriggerEvent(event)) {
+    res.status(200).json({ success: true, eventId: event.id, analysisQueued: false, message: `Ignored ${event.type}` });
+    return;
+  }
 
-    const analysisData = await analysisResponse.json() as any;
+  if (!(await claimWebhookEvent(event.id))) {
+    console.log(`ℹ️  Event ${event.id} already handled`);
+    res.status(200).json({ success: true, eventId: event.id, analysisQueued: false, message: 'Event already handled' });
+    return;
+  }
 
+  try {
+    const result = await enqueueRequestedAnalysis(event);
     const duration = timer.end(true);
 
-    info('Webhook analysis trigger successful', {
-      ticker: tickerUpper,
-      pageId: analysisData.analysesPageId,
-      compositeScore: analysisData.scores?.composite,
+    info('Webhook analysis request handled', {
+      eventId: event.id,
+      eventType: event.type,
+      pageId: event.entity.id,
+      ...result,
       duration,
     });
 
-    console.log('✅ Analysis triggered successfully');
-    console.log(`   Page ID: ${analysisData.analysesPageId}`);
-    console.log(`   Composite Score: ${analysisData.scores?.composite}`);
-    console.log(`   Recommendation: ${analysisData.scores?.recommendation}`);
-
-    console.log('='.repeat(60) + '\n');
-
-    // Return success response
     const response: WebhookResponse = {
       success: true,
-      ticker: tickerUpper,
-      analysisTriggered: true,
-      message: `Analysis triggered for ${tickerUpper}. Check Notion for results.`,
+      eventId: event.id,
+      ticker: result.ticker,
+      analysisQueued: result.status === 'queued' || result.status === 'duplicate',
+      message: result.status === 'ignored'
+        ? `Ignored: ${result.reason}`
+        : result.status === 'rate_limited'
+          ? `Daily analysis limit reached for ${result.ticker}`
+          : `Analysis queued for ${result.ticker}. Check Notion for results.`,
     };
 
     res.status(200).json(response);
   } catch (error) {
-    const duration = timer.endWithError(error as Error);
+    // Let Notion's redelivery try again
+    await releaseWebhookEvent(event.id).catch(() => undefined);
 
-    logError('Webhook handler error', { duration }, error as Error);
-
-    console.error('❌ Webhook handler error:', error);
-
-    // Format error response with proper status code
-    const errorResponse = formatErrorResponse(error);
-    const statusCode = getStatusCode(error);
+    const duration = timer.endWithError(error as Error);
+    logError('Webhook analysis request failed', { eventId: event.id, pageId: event.entity.id, duration }, error as Error);
 
-    res.status(statusCode).json({
-      ...errorResponse,
-      analysisTriggered: false,
+    res.status(500).json({
+      ...formatErrorResponse(error),
+      eventId: event.id,
+      analysisQueued: false,
     });
   }
 }
@@ -12,6 +12,29 @@
  * Ported from Python v0.3.0 ScoringConfig class
  */
 
+import type { MarketRegime } from '../../lib/domain/market/types';
+
+/**
+ * Composite weights per score category (must sum to 1.0)
+ *
+ * Sentiment is reference-only and never carries weight.
+ */
+export interface ScoringWeights {
+  technical: number;
+  fundamental: number;
+  macro: number;
+  risk: number;
+  marketAlignment: number;
+}
+
+export type WeightProfileName = 'Balanced' | 'Growth' | 'Value' | 'Income' | 'Defensive';
+
+export interface WeightProfile {
+  name: WeightProfileName;
+  description: string;
+  weights: ScoringWeights;
+}
+
 export class ScoringConfig {
   // =========================================================================
   // MARKET CAP THRESHOLDS
@@ -76,6 +99,30 @@ export class ScoringConfig {
   /** MACD at 90% of signal = near crossover - anticipates momentum shift */
   static readonly MACD_SIGNAL_CONVERGENCE = 0.9;
 
+  // =========================================================================
+  // TREND STRENGTH & EXTENDED TECHNICALS
+  // ADX/DMI and ATR (Wilder, 1978), Bollinger Bands, stochastic (Lane),
+  // OBV (Granville), computed in-house from daily bars
+  // =========================================================================
+
+  /** ADX at/above 25 = trending market; direction comes from +DI vs -DI */
+  static readonly ADX_TRENDING = 25;
+
+  /** ADX below 20 = range-bound, trend signals unreliable */
+  static readonly ADX_WEAK = 20;
+
+  /** Stochastic %K above 80 = overbought - a bullish cross there has little room */
+  static readonly STOCHASTIC_OVERBOUGHT = 80;
+
+  /** Net 20-day OBV flow above +10% of volume traded = accumulation */
+  static readonly OBV_ACCUMULATION = 0.1;
+
+  /** Within 10% of the 52-week high = leadership (52-week-high momentum effect) */
+  static readonly WEEK_52_HIGH_PROXIMITY = 0.1;
+
+  /** Volatility-normalized stop distance in ATRs (Chandelier-style 2-3 ATR) */
+  static readonly ATR_STOP_MULTIPLE = 2;
+
   // =========================================================================
   // VOLUME THRESHOLDS
   // Institutional flow detection
@@ -191,4 +238,122 @@ export class ScoringConfig {
 
   /** Volume > avg = positive sentiment (increased interest) */
   static readonly VOLUME_POSITIVE_RATIO = 1.0;
+
+  // =========================================================================
+  // COMPOSITE WEIGHT PROFILES
+  // Selectable per user (Beta Users) and per stock (Stock Analyses)
+  // =========================================================================
+
+  /** Profile used when neither the stock nor the user selects one */
+  static readonly DEFAULT_WEIGHT_PROFILE: WeightProfileName = 'Balanced';
+
+  /** Allowed drift from 1.0 when validating a weight vector (rounding slack) */
+  static readonly WEIGHT_SUM_TOLERANCE = 0.001;
+
+  static readonly WEIGHT_PROFILES: Record<WeightProfileName, WeightProfile> = {
+    /** Original StockScorer weights - fundamentals first, light regime tilt */
+    Balanced: {
+      name: 'Balanced',
+      description: 'General-purpose mix with a slight fundamental tilt',
+      weights: { technical: 0.285, fundamental: 0.33, macro: 0.19, risk: 0.145, marketAlignment: 0.05 },
+    },
+    /** Momentum and regime fit matter most; valuation is secondary */
+    Growth: {
+      name: 'Growth',
+      description: 'Favors price momentum and fit with the current market regime',
+      weights: { technical: 0.35, fundamental: 0.3, macro: 0.12, risk: 0.13, marketAlignment: 0.1 },
+    },
+    /** Valuation and balance sheet dominate; price action is noise */
+    Value: {
+      name: 'Value',
+      description: 'Favors valuation and balance-sheet strength over price action',
+      weights: { technical: 0.15, fundamental: 0.5, macro: 0.15, risk: 0.15, marketAlignment: 0.05 },
+    },
+    /** Steady earners in a supportive rate environment, low volatility */
+    Income: {
+      name: 'Income',
+      description: 'Favors stable fundamentals, low volatility and the rate environment',
+      weights: { technical: 0.1, fundamental: 0.4, macro: 0.2, risk: 0.25, marketAlignment: 0.05 },
+    },
+    /** Capital preservation - risk carries nearly a third of the composite */
+    Defensive: {
+      name: 'Defensive',
+      description: 'Favors low risk and macro resilience over upside',
+      weights: { technical: 0.15, fundamental: 0.3, macro: 0.2, risk: 0.3, marketAlignment: 0.05 },
+    },
+  };
+
+  // =========================================================================
+  // REGIME-ADAPTIVE WEIGHTS
+  // Tilts added to the profile weights for the current market regime,
+  // scaled by regime confidence, then re-normalized to sum to 1.0.
+  // Each tilt sums to 0 so a 100%-confidence regime only moves weight around.
+  // =========================================================================
+
+  /** Master switch - false keeps the profile weights fixed regardless of regime */
+  static readonly REGIME_ADAPTIVE_WEIGHTS = true;
+
+  /** Below this confidence the regime call is too weak to act on (Transition-like) */
+  static readonly REGIME_MIN_CONFIDENCE = 0.4;
+
+  static readonly REGIME_WEIGHT_TILTS: Record<MarketRegime, Partial<ScoringWeights>> = {
+    /** Momentum works in risk-on tapes; balance-sheet safety matters less */
+    'Risk-On': { technical: 0.05, marketAlignment: 0.02, risk: -0.04, macro: -0.03 },
+    /** Drawdown protection and earnings quality dominate; momentum is unreliable */
+    'Risk-Off': { risk: 0.06, fundamental: 0.04, technical: -0.07, marketAlignment: -0.03 },
+    /** Mixed signals - lean slightly on macro, which usually drives the resolution */
+    'Transition': { macro: 0.03, technical: -0.03 },
+  };
+
+  // =========================================================================
+  // CHART PATTERNS
+  // Classical patterns (Bulkowski / Edwards & Magee) detected on daily bars.
+  // Pattern Score = 3.0 + 2 × tanh(net signal weight / scale), kept separate
+  // from the composite so patterns are not double-counted.
+  // =========================================================================
+
+  /** Bars on each side a high/low must dominate to count as a swing pivot */
+  static readonly PATTERN_PIVOT_WINDOW = 5;
+
+  /** How far back (trading days) reversal patterns are searched for */
+  static readonly PATTERN_LOOKBACK_BARS = 120;
+
+  /** Twin peaks/troughs (and H&S shoulders) must match within 3% */
+  static readonly PATTERN_LEVEL_TOLERANCE = 0.03;
+
+  /** Double top/bottom: neckline at least 5% away from the twin levels */
+  static readonly PATTERN_MIN_DEPTH = 0.05;
+
+  /** Cup depth between 12% and 35% of the left rim (shallower = base, deeper = damage) */
+  static readonly CUP_MIN_DEPTH = 0.12;
+  static readonly CUP_MAX_DEPTH = 0.35;
+
+  /** Flag pole: at least an 8% move in 5-15 bars */
+  static readonly FLAG_MIN_POLE_MOVE = 0.08;
+
+  /** Flag may retrace at most half the pole */
+  static readonly FLAG_MAX_RETRACE = 0.5;
+
+  /** Golden/death cross counts while the SMA 50/200 cross is this recent */
+  static readonly CROSS_RECENCY_BARS = 10;
+
+  /** Signal weights per pattern; a pattern that has not broken out counts at half weight */
+  static readonly PATTERN_WEIGHTS = {
+    headAndShoulders: 2.5,
+    movingAverageCross: 2.5,
+    doubleTopBottom: 2.0,
+    cupAndHandle: 2.0,
+    week52Breakout: 1.8,
+    flag: 1.5,
+  } as const;
+
+  /** Weight multiplier for patterns still forming (neckline/rim not yet broken) */
+  static readonly PATTERN_FORMING_FACTOR = 0.5;
+
+  /** tanh scale: a net weight of ~3 (one strong confirmed pattern) ≈ 4.5 */
+  static readonly PATTERN_SCORE_SCALE = 2.5;
+
+  /** Horizon bounds (trading days) for a measured move to play out */
+  static readonly PATTERN_MIN_HORIZON_DAYS = 5;
+  static readonly PATTERN_MAX_HORIZON_DAYS = 60;
 }
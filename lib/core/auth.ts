@@ -29,6 +29,10 @@ export interface SetupProgress {
     stockHistoryDb?: { id: string; title: string; confidence: string };
     stockEventsDb?: { id: string; title: string; confidence: string };
     marketContextDb?: { id: string; title: string; confidence: string };
+    portfolioPositionsDb?: { id: string; title: string; confidence: string };
+    portfolioTransactionsDb?: { id: string; title: string; confidence: string };
+    stockComparisonsDb?: { id: string; title: string; confidence: string };
+    alertRulesDb?: { id: string; title: string; confidence: string };
     sageStocksPage?: { id: string; title: string; confidence: string };
   };
   step4FirstTicker?: string;
@@ -63,16 +67,45 @@ export interface User {
   // v1.0.4: Automation support
   subscriptionTier?: 'Free' | 'Starter' | 'Analyst' | 'Pro';
   timezone?: string; // IANA timezone (e.g., "America/Los_Angeles")
+  scoringProfile?: string; // Default composite weight profile (e.g., "Growth")
+  dailyDigest?: boolean; // Opted in to the daily digest email
+  digestHour?: number;   // Local hour (0-23) to send the digest
+  llmProvider?: string;  // Preferred LLM provider (e.g. "Claude"); blank = server default
+  llmModel?: string;     // Preferred model for that provider; blank = provider default
+  llmApiKeys?: LLMApiKeys; // User's own provider keys (encrypted)
   // v1.1.6: Template version management
   stockAnalysesDbId?: string;
   stockHistoryDbId?: string;
   marketContextDbId?: string; // v1.1.0: Market Context database
   stockEventsDbId?: string;   // v1.2.16: Stock Events database
+  portfolioPositionsDbId?: string;    // Optional: holdings + P&L (recomputed daily)
+  portfolioTransactionsDbId?: string; // Optional: buy/sell trades feeding positions
+  stockComparisonsDbId?: string;      // Optional: /api/compare results
+  alertRulesDbId?: string;            // Optional: price/score alert rules
   sageStocksPageId?: string;
   templateVersion?: string;
   upgradeHistory?: string; // JSON string of UpgradeHistory[]
 }
 
+/**
+ * Bring-your-own LLM API keys, each encrypted with encryptToken
+ */
+export interface LLMApiKeys {
+  gemini?: string;
+  claude?: string;
+  openai?: string;
+}
+
+/**
+ * LLM settings update from the Settings page
+ * Keys are plain text (encrypted before storing); null clears a key, omitted keeps it
+ */
+export interface LLMSettingsUpdate {
+  provider: string | null;
+  model: string | null;
+  apiKeys?: { [K in keyof LLMApiKeys]?: string | null };
+}
+
 export interface CreateUserData {
   notionUserId: string;
   email: string;
@@ -92,6 +125,13 @@ const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || '';
 const SESSION_TTL = 24 * 60 * 60; // 24 hours in seconds
 const ADMIN_EMAIL = process.env.ADMIN_EMAIL || '';
 
+/** Beta Users property holding each provider's encrypted key */
+const LLM_API_KEY_PROPERTIES: Record<keyof LLMApiKeys, string> = {
+  gemini: 'Gemini API Key',
+  claude: 'Anthropic API Key',
+  openai: 'OpenAI API Key',
+};
+
 // Initialize Notion client for user management
 const notion = new Client({ auth: process.env.NOTION_API_KEY, notionVersion: '2025-09-03' });
 
@@ -752,6 +792,44 @@ export async function updateUserStatus(
   }
 }
 
+/**
+ * Update user's LLM provider/model preference and own API keys
+ */
+export async function updateUserLLMSettings(
+  userId: string,
+  settings: LLMSettingsUpdate
+): Promise<void> {
+  try {
+    const properties: Record<string, any> = {
+      'LLM Provider': { select: settings.provider ? { name: settings.provider } : null },
+      'Preferred Model': { rich_text: settings.model ? [{ text: { content: settings.model } }] : [] },
+    };
+
+    for (const [provider, key] of Object.entries(settings.apiKeys || {})) {
+      if (key === undefined) continue;
+      const encrypted = key ? await encryptToken(key) : null;
+      properties[LLM_API_KEY_PROPERTIES[provider as keyof LLMApiKeys]] = {
+        rich_text: encrypted ? [{ text: { content: encrypted } }] : [],
+      };
+    }
+
+    await notion.pages.update({ page_id: userId, properties });
+
+    log(LogLevel.INFO, 'User LLM settings updated', {
+      userId,
+      provider: settings.provider || 'default',
+      model: settings.model || 'default',
+      keysChanged: Object.keys(settings.apiKeys || {}),
+    });
+  } catch (error) {
+    log(LogLevel.ERROR, 'Failed to update user LLM settings', {
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw new Error('Failed to update LLM settings');
+  }
+}
+
 /**
  * Update user's database IDs after template detection (v1.2.4)
  */
@@ -763,6 +841,10 @@ export async function updateUserDatabaseIds(
     stockHistoryDbId?: string;
     marketContextDbId?: string;
     stockEventsDbId?: string;
+    portfolioPositionsDbId?: string;
+    portfolioTransactionsDbId?: string;
+    stockComparisonsDbId?: string;
+    alertRulesDbId?: string;
     setupCompletedAt?: string; // ISO 8601 timestamp
     templateVersion?: string;
   }
@@ -800,6 +882,30 @@ export async function updateUserDatabaseIds(
       };
     }
 
+    if (databaseIds.portfolioPositionsDbId) {
+      properties['Portfolio Positions DB ID'] = {
+        rich_text: [{ text: { content: databaseIds.portfolioPositionsDbId } }],
+      };
+    }
+
+    if (databaseIds.portfolioTransactionsDbId) {
+      properties['Portfolio Transactions DB ID'] = {
+        rich_text: [{ text: { content: databaseIds.portfolioTransactionsDbId } }],
+      };
+    }
+
+    if (databaseIds.stockComparisonsDbId) {
+      properties['Stock Comparisons DB ID'] = {
+        rich_text: [{ text: { content: databaseIds.stockComparisonsDbId } }],
+      };
+    }
+
+    if (databaseIds.alertRulesDbId) {
+      properties['Alert Rules DB ID'] = {
+        rich_text: [{ text: { content: databaseIds.alertRulesDbId } }],
+      };
+    }
+
     if (databaseIds.setupCompletedAt) {
       properties['Setup Completed At'] = {
         date: { start: databaseIds.setupCompletedAt },
@@ -824,6 +930,9 @@ export async function updateUserDatabaseIds(
       hasStockHistory: !!databaseIds.stockHistoryDbId,
       hasMarketContext: !!databaseIds.marketContextDbId,
       hasStockEvents: !!databaseIds.stockEventsDbId,
+      hasPortfolio: !!databaseIds.portfolioPositionsDbId && !!databaseIds.portfolioTransactionsDbId,
+      hasStockComparisons: !!databaseIds.stockComparisonsDbId,
+      hasAlertRules: !!databaseIds.alertRulesDbId,
       setupCompletedAt: databaseIds.setupCompletedAt || null,
     });
   } catch (error: any) {
@@ -944,17 +1053,39 @@ function mapNotionPageToUser(page: any): User {
     // v1.0.4: Automation support
     subscriptionTier: (props['Subscription Tier']?.select?.name || 'Free') as User['subscriptionTier'],
     timezone: props.Timezone?.rich_text?.[0]?.text?.content || undefined,
+    scoringProfile: props['Scoring Profile']?.select?.name || undefined,
+    dailyDigest: props['Daily Digest']?.checkbox || false,
+    digestHour: props['Digest Hour']?.number ?? undefined,
+    llmProvider: props['LLM Provider']?.select?.name || undefined,
+    llmModel: props['Preferred Model']?.rich_text?.[0]?.text?.content || undefined,
+    llmApiKeys: mapLLMApiKeys(props),
     // v1.1.6: Template version management
     stockAnalysesDbId: props['Stock Analyses DB ID']?.rich_text?.[0]?.text?.content || undefined,
     stockHistoryDbId: props['Stock History DB ID']?.rich_text?.[0]?.text?.content || undefined,
     marketContextDbId: props['Market Context DB ID']?.rich_text?.[0]?.text?.content || undefined, // v1.1.0
     stockEventsDbId: props['Stock Events DB ID']?.rich_text?.[0]?.text?.content || undefined,   // v1.2.16
+    portfolioPositionsDbId: props['Portfolio Positions DB ID']?.rich_text?.[0]?.text?.content || undefined,
+    portfolioTransactionsDbId: props['Portfolio Transactions DB ID']?.rich_text?.[0]?.text?.content || undefined,
+    stockComparisonsDbId: props['Stock Comparisons DB ID']?.rich_text?.[0]?.text?.content || undefined,
+    alertRulesDbId: props['Alert Rules DB ID']?.rich_text?.[0]?.text?.content || undefined,
     sageStocksPageId: props['Sage Stocks Page ID']?.rich_text?.[0]?.text?.content || undefined,
     templateVersion: props['Template Version']?.rich_text?.[0]?.text?.content || undefined,
     upgradeHistory: props['Upgrade History']?.rich_text?.[0]?.text?.content || undefined,
   };
 }
 
+/**
+ * Read the encrypted BYO keys (undefined when the user has none)
+ */
+function mapLLMApiKeys(props: any): LLMApiKeys | undefined {
+  const keys: LLMApiKeys = {};
+  for (const [provider, property] of Object.entries(LLM_API_KEY_PROPERTIES)) {
+    const encrypted = props[property]?.rich_text?.[0]?.text?.content;
+    if (encrypted) keys[provider as keyof LLMApiKeys] = encrypted;
+  }
+  return Object.keys(keys).length > 0 ? keys : undefined;
+}
+
 /**
  * Check if email is admin
  */
@@ -0,0 +1,281 @@
+/**
+ * Upstream Provider Rate Limits
+ *
+ * Token buckets for every upstream the orchestrator calls, so concurrent
+ * ticker analyses share each provider's real limits instead of being
+ * spaced out by a fixed delay:
+ * - fmp:    requests per minute (plan dependent)
+ * - fred:   120 requests per minute
+ * - notion: 3 requests per second per integration token
+ * - gemini / claude / openai: requests and tokens per minute, per API key
+ *
+ * Callers reserve before each request and wait until the bucket allows it.
+ * A 429 pauses the bucket for the provider's Retry-After and halves its
+ * rate, which recovers linearly over RATE_RECOVERY_MS.
+ *
+ * Buckets live in module scope (per warm instance). When several workers
+ * run at once (QUEUE_WORKER_CONCURRENCY), the cron divides each limit
+ * between them with setProviderLimitShare().
+ */
+
+import { createHash } from 'crypto';
+import type { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+
+export type RateLimitedProvider = 'fmp' | 'fred' | 'notion' | 'gemini' | 'claude' | 'openai';
+
+interface ProviderLimit {
+  requestsPerMinute: number;
+  burst: number; // Requests that may go out back to back
+  tokensPerMinute?: number; // LLM providers only
+}
+
+function envLimit(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return value > 0 ? value : fallback;
+}
+
+const PROVIDER_LIMITS: Record<RateLimitedProvider, ProviderLimit> = {
+  fmp: { requestsPerMinute: envLimit('FMP_REQUESTS_PER_MINUTE', 300), burst: 10 },
+  fred: { requestsPerMinute: envLimit('FRED_REQUESTS_PER_MINUTE', 120), burst: 5 },
+  notion: { requestsPerMinute: 180, burst: 3 },
+  gemini: {
+    requestsPerMinute: envLimit('GEMINI_RPM', 60),
+    tokensPerMinute: envLimit('GEMINI_TPM', 1_000_000),
+    burst: 3,
+  },
+  claude: {
+    requestsPerMinute: envLimit('ANTHROPIC_RPM', 50),
+    tokensPerMinute: envLimit('ANTHROPIC_TPM', 80_000),
+    burst: 3,
+  },
+  openai: {
+    requestsPerMinute: envLimit('OPENAI_RPM', 500),
+    tokensPerMinute: envLimit('OPENAI_TPM', 30_000),
+    burst: 3,
+  },
+};
+
+const DEFAULT_RETRY_AFTER_MS = 10_000; // 429 without a Retry-After
+const MAX_RETRY_AFTER_MS = 60_000;
+const RATE_RECOVERY_MS = 2 * 60_000; // Back to full rate this long after a 429
+const MIN_RATE_FACTOR = 0.125;
+const MAX_RATE_LIMIT_RETRIES = 2; // Per request, for throttled axios/fetch calls
+
+/**
+ * Time spent waiting on one provider's limits
+ */
+export interface ProviderWaitStats {
+  requests: number;
+  waitMs: number;
+  rateLimited: number; // 429 responses
+}
+
+class TokenBucket {
+  private level: number;
+  private updatedAt = Date.now();
+  private pausedUntil = 0;
+  private factor = 1;
+  private slowedAt = 0;
+
+  constructor(private capacity: number, private perMinute: number) {
+    this.level = capacity;
+  }
+
+  /**
+   * Take `cost` tokens now, possibly going into debt
+   * @returns How long the caller has to wait before using them
+   */
+  reserve(cost: number, now: number = Date.now()): number {
+    this.refill(now);
+    this.level -= cost;
+    const tokenWait = this.level < 0 ? -this.level / this.ratePerMs(now) : 0;
+    return Math.max(tokenWait, this.pausedUntil - now, 0);
+  }
+
+  /**
+   * Correct an estimate once the real cost is known
+   */
+  charge(cost: number, now: number = Date.now()): void {
+    this.refill(now);
+    this.level -= cost;
+  }
+
+  /**
+   * Provider said 429 - pause, empty the bucket and halve the rate
+   */
+  slowDown(retryAfterMs: number, now: number = Date.now()): void {
+    this.refill(now);
+    this.level = Math.min(this.level, 0);
+    this.pausedUntil = Math.max(this.pausedUntil, now + retryAfterMs);
+    this.factor = Math.max(MIN_RATE_FACTOR, this.currentFactor(now) / 2);
+    this.slowedAt = now;
+  }
+
+  private refill(now: number): void {
+    const elapsed = Math.max(0, now - Math.max(this.updatedAt, Math.min(this.pausedUntil, now)));
+    this.level = Math.min(this.capacity, this.level + elapsed * this.ratePerMs(now));
+    this.updatedAt = now;
+  }
+
+  private ratePerMs(now: number): number {
+    return (this.perMinute * this.currentFactor(now)) / 60_000;
+  }
+
+  private currentFactor(now: number): number {
+    if (this.factor >= 1) return 1;
+    return Math.min(1, this.factor + ((1 - this.factor) * (now - this.slowedAt)) / RATE_RECOVERY_MS);
+  }
+}
+
+const buckets = new Map<string, TokenBucket>();
+const stats = new Map<RateLimitedProvider, ProviderWaitStats>();
+let limitShare = 1;
+
+function bucket(provider: RateLimitedProvider, key: string | undefined, kind: 'requests' | 'tokens'): TokenBucket | null {
+  const limit = PROVIDER_LIMITS[provider];
+  const perMinute = kind === 'requests' ? limit.requestsPerMinute : limit.tokensPerMinute;
+  if (!perMinute) return null;
+
+  const id = `${provider}:${key ? fingerprint(key) : ''}:${kind}`;
+  let existing = buckets.get(id);
+  if (!existing) {
+    const share = perMinute / limitShare;
+    // Token buckets hold a few requests' worth so one large prompt can still start
+    existing = new TokenBucket(kind === 'requests' ? Math.max(1, limit.burst / limitShare) : share / 4, share);
+    buckets.set(id, existing);
+  }
+  return existing;
+}
+
+function recordStats(provider: RateLimitedProvider, update: Partial<ProviderWaitStats>): void {
+  const current = stats.get(provider) || { requests: 0, waitMs: 0, rateLimited: 0 };
+  stats.set(provider, {
+    requests: current.requests + (update.requests || 0),
+    waitMs: current.waitMs + (update.waitMs || 0),
+    rateLimited: current.rateLimited + (update.rateLimited || 0),
+  });
+}
+
+function fingerprint(key: string): string {
+  return createHash('sha256').update(key).digest('hex').slice(0, 12);
+}
+
+/**
+ * Wait until a provider's limits allow one more request
+ *
+ * @param key - Credential the limit applies to (Notion token, LLM API key);
+ *              omit for limits shared by the whole deployment
+ * @param tokens - Estimated LLM tokens for the request (correct later with chargeProviderTokens)
+ */
+export async function acquireProvider(
+  provider: RateLimitedProvider,
+  options: { key?: string; tokens?: number } = {}
+): Promise<void> {
+  const now = Date.now();
+  const requestWait = bucket(provider, options.key, 'requests')?.reserve(1, now) || 0;
+  const tokenWait = options.tokens ? bucket(provider, options.key, 'tokens')?.reserve(options.tokens, now) || 0 : 0;
+  const waitMs = Math.ceil(Math.max(requestWait, tokenWait));
+
+  recordStats(provider, { requests: 1, waitMs });
+  if (waitMs > 0) {
+    await new Promise((resolve) => setTimeout(resolve, waitMs));
+  }
+}
+
+/**
+ * Book the difference between a request's estimated and actual tokens
+ */
+export function chargeProviderTokens(provider: RateLimitedProvider, key: string | undefined, tokens: number): void {
+  if (tokens !== 0) {
+    bucket(provider, key, 'tokens')?.charge(tokens);
+  }
+}
+
+/**
+ * Record a 429 - the provider's buckets pause and slow down
+ */
+export function reportRateLimited(provider: RateLimitedProvider, key?: string, retryAfterMs?: number | null): void {
+  const pause = Math.min(retryAfterMs ?? DEFAULT_RETRY_AFTER_MS, MAX_RETRY_AFTER_MS);
+  bucket(provider, key, 'requests')?.slowDown(pause);
+  bucket(provider, key, 'tokens')?.slowDown(pause);
+  recordStats(provider, { rateLimited: 1 });
+  console.warn(`[LIMITS] ${provider} rate limited - pausing ${(pause / 1000).toFixed(1)}s at reduced rate`);
+}
+
+/**
+ * Split every limit between this many concurrent workers (default 1)
+ * Resets the buckets, so call it before the first request of a run.
+ */
+export function setProviderLimitShare(workers: number): void {
+  const share = Math.max(1, Math.floor(workers));
+  if (share !== limitShare) {
+    limitShare = share;
+    buckets.clear();
+  }
+}
+
+/**
+ * Totals for this instance since it started - diff two snapshots for a run
+ */
+export function getProviderWaitStats(): Partial<Record<RateLimitedProvider, ProviderWaitStats>> {
+  return Object.fromEntries(Array.from(stats.entries()).map(([provider, value]) => [provider, { ...value }]));
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date)
+ */
+export function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+type RetriableAxiosConfig = InternalAxiosRequestConfig & { rateLimitRetries?: number };
+
+/**
+ * Throttle every request of an axios instance, retrying 429s after the pause
+ */
+export function throttleAxios(instance: AxiosInstance, provider: RateLimitedProvider): AxiosInstance {
+  instance.interceptors.request.use(async (config) => {
+    await acquireProvider(provider);
+    return config;
+  });
+
+  instance.interceptors.response.use(undefined, async (error: AxiosError) => {
+    const config = error.config as RetriableAxiosConfig | undefined;
+    if (error.response?.status !== 429 || !config) {
+      throw error;
+    }
+
+    reportRateLimited(provider, undefined, parseRetryAfter(error.response.headers?.['retry-after'] as string | undefined));
+    config.rateLimitRetries = (config.rateLimitRetries || 0) + 1;
+    if (config.rateLimitRetries > MAX_RATE_LIMIT_RETRIES) {
+      throw error;
+    }
+    return instance.request(config); // Waits for the paused bucket in the request interceptor
+  });
+
+  return instance;
+}
+
+/**
+ * fetch that waits for a provider's limits, retrying 429s after the pause
+ * (passed to the Notion SDK as its fetch, keyed by the integration token)
+ */
+export function throttledFetch(
+  provider: RateLimitedProvider,
+  key?: string
+): (url: string, init?: RequestInit) => Promise<Response> {
+  return async (url, init) => {
+    for (let attempt = 0; ; attempt++) {
+      await acquireProvider(provider, { key });
+      const response = await fetch(url, init);
+      if (response.status !== 429 || attempt >= MAX_RATE_LIMIT_RETRIES) {
+        return response;
+      }
+      reportRateLimited(provider, key, parseRetryAfter(response.headers.get('retry-after')));
+    }
+  };
+}
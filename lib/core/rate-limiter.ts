@@ -85,11 +85,13 @@ export class RateLimiter {
    *
    * @param userId - User ID for rate limiting
    * @param timezone - User's IANA timezone (e.g., "America/Los_Angeles")
+   * @param analyses - Analyses this request counts as (all or nothing)
    * @returns Rate limit result with timezone info
    */
   async checkAndIncrement(
     userId: string,
-    timezone?: string
+    timezone?: string,
+    analyses: number = 1
   ): Promise<RateLimitResult> {
     // Validate and normalize timezone
     const userTimezone = validateTimezone(timezone, getTimezoneFromEnv());
@@ -143,22 +145,24 @@ export class RateLimiter {
         userId,
         timezone: userTimezone,
         currentCount: count,
+        analyses,
         maxAnalyses: this.maxAnalyses,
         resetAt: resetAt.toISOString(),
       });
 
       // Check if limit exceeded
-      if (count >= this.maxAnalyses) {
+      if (count + analyses > this.maxAnalyses) {
         log(LogLevel.WARN, 'Rate limit exceeded', {
           userId,
           timezone: userTimezone,
           count,
+          analyses,
           maxAnalyses: this.maxAnalyses,
         });
 
         return {
           allowed: false,
-          remaining: 0,
+          remaining: Math.max(0, this.maxAnalyses - count),
           resetAt,
           total: this.maxAnalyses,
           timezone: userTimezone,
@@ -166,14 +170,14 @@ export class RateLimiter {
       }
 
       // Increment counter
-      await this.increment(key, resetAt);
+      await this.increment(key, resetAt, analyses);
 
-      const remaining = this.maxAnalyses - (count + 1);
+      const remaining = this.maxAnalyses - (count + analyses);
 
       log(LogLevel.INFO, 'Rate limit allowed', {
         userId,
         timezone: userTimezone,
-        newCount: count + 1,
+        newCount: count + analyses,
         remaining,
       });
 
@@ -338,7 +342,7 @@ export class RateLimiter {
   /**
    * Increment counter in Redis with automatic expiry
    */
-  private async increment(key: string, expiresAt: Date): Promise<void> {
+  private async increment(key: string, expiresAt: Date, by: number = 1): Promise<void> {
     const ttl = Math.floor((expiresAt.getTime() - Date.now()) / 1000);
 
     try {
@@ -350,7 +354,7 @@ export class RateLimiter {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify([
-          ['INCR', key],
+          ['INCRBY', key, by],
           ['EXPIRE', key, ttl],
         ]),
       });
@@ -0,0 +1,257 @@
+/**
+ * Alert Delivery Channels
+ *
+ * Each channel implements AlertChannel; dispatch looks channels up by the
+ * names in the rule's Channels property. registerAlertChannel replaces or
+ * adds a channel (e.g. Slack) without touching the dispatcher.
+ *
+ * Email goes to the account's own address only - a rule can't name
+ * another recipient. Webhooks must be public HTTPS endpoints: every
+ * address the host resolves to is checked when connecting (so a DNS
+ * answer can't be swapped after the check), and redirects aren't followed.
+ *
+ * Environment:
+ * - SMTP_* / EMAIL_FROM (Email, see lib/integrations/email/smtp.ts)
+ * - ALERT_EMAIL_FROM (optional sender override for alert emails)
+ * - ALERT_WEBHOOK_SECRET (optional HMAC-SHA256 signature for Webhook)
+ */
+
+import crypto from 'crypto';
+import dns from 'dns';
+import https from 'https';
+import net from 'net';
+import { Client } from '@notionhq/client';
+import { throttledFetch } from '../../core/provider-limits';
+import { sendEmail } from '../../integrations/email/smtp';
+import { AlertChannelType, AlertEvent, AlertRecipient } from './types';
+
+export interface AlertChannel {
+  type: AlertChannelType;
+  deliver(event: AlertEvent, recipient: AlertRecipient): Promise<void>;
+}
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+/**
+ * Notion URL for a page ID
+ */
+function notionPageUrl(pageId: string): string {
+  return `https://notion.so/${pageId.replace(/-/g, '')}`;
+}
+
+// ============================================================================
+// Email (SMTP)
+// ============================================================================
+
+const emailChannel: AlertChannel = {
+  type: 'Email',
+  async deliver(event, recipient) {
+    const lines = [
+      event.message,
+      '',
+      `Rule: ${event.rule.name}`,
+      `Composite: ${event.snapshot.composite.toFixed(2)} (${event.snapshot.recommendation})`,
+    ];
+    if (event.snapshot.price !== undefined) {
+      lines.push(`Price: $${event.snapshot.price.toFixed(2)}`);
+    }
+    if (event.snapshot.pageId) {
+      lines.push('', notionPageUrl(event.snapshot.pageId));
+    }
+
+    await sendEmail({
+      from: process.env.ALERT_EMAIL_FROM,
+      to: recipient.email,
+      subject: `[Sage Stocks] ${event.title}`,
+      text: lines.join('\n'),
+    });
+  },
+};
+
+// ============================================================================
+// Webhook
+// ============================================================================
+
+/** Loopback, private, link-local, CGNAT, multicast and reserved ranges */
+const NON_PUBLIC_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // Includes cloud metadata (169.254.169.254)
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3], // Multicast and reserved
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], // Unspecified and loopback
+  ['::ffff:0:0', 96], // IPv4-mapped
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7], // Unique local
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8], // Multicast
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  return family !== 0 && !NON_PUBLIC_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * dns.lookup for the webhook connection that fails if any address the
+ * host resolves to isn't public
+ */
+const publicOnlyLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error);
+      return;
+    }
+    const blocked = addresses.find((entry) => !isPublicAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      callback(new Error(`Webhook host ${hostname} resolves to a non-public address${blocked ? ` (${blocked.address})` : ''}`));
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}) as net.LookupFunction;
+
+/**
+ * Parse a rule's Webhook URL, rejecting anything but public HTTPS
+ */
+function parseWebhookUrl(ruleName: string, webhookUrl: string): URL {
+  let url: URL;
+  try {
+    url = new URL(webhookUrl);
+  } catch {
+    throw new Error(`Rule "${ruleName}" has an invalid Webhook URL`);
+  }
+  if (url.protocol !== 'https:') {
+    throw new Error(`Rule "${ruleName}" Webhook URL must use https`);
+  }
+
+  // IP literals skip the lookup, so they're checked here
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && !isPublicAddress(host)) {
+    throw new Error(`Rule "${ruleName}" Webhook URL points to a non-public address`);
+  }
+  return url;
+}
+
+/**
+ * POST to a webhook without following redirects
+ *
+ * @returns Response status code
+ */
+function postWebhook(url: URL, headers: Record<string, string>, body: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const request = https.request(
+      url,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+        lookup: publicOnlyLookup,
+        timeout: WEBHOOK_TIMEOUT_MS,
+      },
+      (response) => {
+        response.resume(); // The body isn't used
+        resolve(response.statusCode ?? 0);
+      }
+    );
+    request.on('timeout', () => request.destroy(new Error(`Webhook timed out after ${WEBHOOK_TIMEOUT_MS}ms`)));
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+const webhookChannel: AlertChannel = {
+  type: 'Webhook',
+  async deliver(event) {
+    if (!event.rule.webhookUrl) {
+      throw new Error(`Rule "${event.rule.name}" has no Webhook URL`);
+    }
+    const url = parseWebhookUrl(event.rule.name, event.rule.webhookUrl);
+
+    const body = JSON.stringify({
+      type: 'sagestocks.alert',
+      rule: { id: event.rule.id, name: event.rule.name, condition: event.rule.condition },
+      ticker: event.snapshot.ticker,
+      title: event.title,
+      message: event.message,
+      composite: event.snapshot.composite,
+      recommendation: event.snapshot.recommendation,
+      price: event.snapshot.price ?? null,
+      rsi: event.snapshot.rsi ?? null,
+      date: event.snapshot.date,
+      pageUrl: event.snapshot.pageId ? notionPageUrl(event.snapshot.pageId) : null,
+    });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const secret = process.env.ALERT_WEBHOOK_SECRET;
+    if (secret) {
+      headers['X-SageStocks-Signature'] = `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+    }
+
+    const status = await postWebhook(url, headers, body);
+    if (status >= 300 && status < 400) {
+      throw new Error(`Webhook returned a ${status} redirect - redirects are not followed, use the final URL`);
+    }
+    if (status < 200 || status >= 300) {
+      throw new Error(`Webhook returned ${status}`);
+    }
+  },
+};
+
+// ============================================================================
+// Notion comment on the stock's page
+// ============================================================================
+
+const notionCommentChannel: AlertChannel = {
+  type: 'Notion Comment',
+  async deliver(event, recipient) {
+    if (!event.snapshot.pageId) {
+      throw new Error(`No Stock Analyses page for ${event.snapshot.ticker}`);
+    }
+
+    const notion = new Client({
+      auth: recipient.accessToken,
+      notionVersion: '2025-09-03',
+      fetch: throttledFetch('notion', recipient.accessToken),
+    });
+    await notion.comments.create({
+      parent: { page_id: event.snapshot.pageId },
+      rich_text: [
+        { type: 'text', text: { content: `🔔 ${event.title}\n` }, annotations: { bold: true } },
+        { type: 'text', text: { content: `${event.message} (rule: ${event.rule.name})` } },
+      ],
+    });
+  },
+};
+
+const channels = new Map<AlertChannelType, AlertChannel>([
+  [emailChannel.type, emailChannel],
+  [webhookChannel.type, webhookChannel],
+  [notionCommentChannel.type, notionCommentChannel],
+]);
+
+/**
+ * Add or replace a delivery channel
+ */
+export function registerAlertChannel(channel: AlertChannel): void {
+  channels.set(channel.type, channel);
+}
+
+export function getAlertChannel(type: AlertChannelType): AlertChannel | undefined {
+  return channels.get(type);
+}
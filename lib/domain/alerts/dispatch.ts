@@ -0,0 +1,96 @@
+/**
+ * Alert Dispatch
+ *
+ * Evaluates a user's rules against freshly analyzed stocks and delivers
+ * whatever fires. Called after the orchestrator broadcasts a ticker and at
+ * the end of /api/analyze. Never throws - alerting must not fail an analysis.
+ */
+
+import { Client } from '@notionhq/client';
+import { throttledFetch } from '../../core/provider-limits';
+import { info, warn, error as logError } from '../../core/logger';
+import { getAlertChannel } from './channels';
+import { evaluateAlertRules } from './rules';
+import { claimAlert, loadAlertRules, recordRuleTriggered, releaseAlert } from './store';
+import { AlertDispatchMetrics, AlertRecipient, AlertSnapshot } from './types';
+
+function emptyMetrics(): AlertDispatchMetrics {
+  return {
+    rulesEvaluated: 0,
+    triggered: 0,
+    delivered: 0,
+    suppressed: 0,
+    failed: 0,
+    deliveries: [],
+  };
+}
+
+/**
+ * Evaluate and deliver alerts for one user
+ */
+export async function dispatchAlerts(
+  recipient: AlertRecipient,
+  snapshots: AlertSnapshot[]
+): Promise<AlertDispatchMetrics> {
+  const metrics = emptyMetrics();
+
+  try {
+    const notion = new Client({
+      auth: recipient.accessToken,
+      notionVersion: '2025-09-03',
+      fetch: throttledFetch('notion', recipient.accessToken),
+    });
+    const rules = await loadAlertRules(notion, recipient.alertRulesDbId);
+    if (rules.length === 0) return metrics;
+
+    for (const snapshot of snapshots) {
+      metrics.rulesEvaluated += rules.length;
+
+      for (const event of evaluateAlertRules(rules, snapshot)) {
+        metrics.triggered++;
+
+        const claim = await claimAlert(recipient.userId, event);
+        if (claim !== 'claimed') {
+          metrics.suppressed++;
+          info('Alert suppressed', { email: recipient.email, rule: event.rule.name, ticker: snapshot.ticker, reason: claim });
+          continue;
+        }
+
+        let delivered = 0;
+        for (const type of event.rule.channels) {
+          const channel = getAlertChannel(type);
+          try {
+            if (!channel) throw new Error(`Unknown alert channel: ${type}`);
+            await channel.deliver(event, recipient);
+            delivered++;
+            metrics.deliveries.push({ ruleId: event.rule.id, ticker: snapshot.ticker, channel: type, success: true });
+          } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            metrics.deliveries.push({ ruleId: event.rule.id, ticker: snapshot.ticker, channel: type, success: false, error: message });
+            warn('Alert delivery failed', { email: recipient.email, rule: event.rule.name, ticker: snapshot.ticker, channel: type, error: message });
+          }
+        }
+
+        if (delivered === 0) {
+          metrics.failed++;
+          await releaseAlert(recipient.userId, event);
+          continue;
+        }
+
+        metrics.delivered++;
+        await recordRuleTriggered(notion, event.rule);
+        info('Alert delivered', {
+          email: recipient.email,
+          rule: event.rule.name,
+          ticker: snapshot.ticker,
+          title: event.title,
+          channels: delivered,
+        });
+      }
+    }
+  } catch (err) {
+    logError('Alert dispatch failed', { email: recipient.email }, err as Error);
+  }
+
+  return metrics;
+}
@@ -0,0 +1,31 @@
+/**
+ * Alerts Module - Public API
+ *
+ * User-defined price/score alert rules (Alert Rules database), evaluated
+ * after each analysis and delivered by email, webhook or Notion comment.
+ */
+
+// Main entry point
+export { dispatchAlerts } from './dispatch';
+
+// Rule evaluation
+export { evaluateRule, evaluateAlertRules } from './rules';
+
+// Storage and delivery state
+export { loadAlertRules, claimAlert, releaseAlert } from './store';
+
+// Channels
+export { registerAlertChannel, getAlertChannel } from './channels';
+export type { AlertChannel } from './channels';
+
+// Types
+export type {
+  AlertCondition,
+  AlertChannelType,
+  AlertRule,
+  AlertSnapshot,
+  AlertEvent,
+  AlertRecipient,
+  AlertDeliveryResult,
+  AlertDispatchMetrics,
+} from './types';
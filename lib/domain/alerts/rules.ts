@@ -0,0 +1,157 @@
+/**
+ * Alert Rule Evaluation
+ *
+ * Pure functions - no Notion, Redis or network access.
+ *
+ * Crossing conditions (Composite Above/Below) need the previous composite,
+ * which comes from the deltas; they never fire on a stock's first analysis.
+ * Level conditions (RSI band, 52-week extremes) fire whenever the level
+ * holds and rely on the cooldown to avoid repeating daily.
+ */
+
+import { AlertEvent, AlertRule, AlertSnapshot } from './types';
+
+/**
+ * The quote's 52-week high/low includes today's intraday extreme, so a
+ * close that set a new high usually sits just under it. Within 0.2% counts.
+ */
+const ALERT_52W_BREAK_TOLERANCE = 0.002;
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function event(
+  rule: AlertRule,
+  snapshot: AlertSnapshot,
+  trigger: string,
+  title: string,
+  message: string
+): AlertEvent {
+  return {
+    rule,
+    snapshot,
+    title,
+    message,
+    fingerprint: `${rule.condition}:${trigger}:${snapshot.date}`,
+  };
+}
+
+/**
+ * Evaluate one rule against a snapshot
+ *
+ * @returns The alert to deliver, or null if the rule does not fire
+ */
+export function evaluateRule(rule: AlertRule, snapshot: AlertSnapshot): AlertEvent | null {
+  if (rule.ticker && rule.ticker !== snapshot.ticker) return null;
+
+  const { ticker, composite, deltas } = snapshot;
+
+  switch (rule.condition) {
+    case 'Composite Above':
+    case 'Composite Below': {
+      if (!isNumber(rule.threshold) || !deltas) return null;
+      const previous = composite - deltas.scoreChange;
+      const above = rule.condition === 'Composite Above';
+      const crossed = above
+        ? previous < rule.threshold && composite >= rule.threshold
+        : previous > rule.threshold && composite <= rule.threshold;
+      if (!crossed) return null;
+      return event(
+        rule,
+        snapshot,
+        `${rule.threshold}`,
+        `${ticker} composite crossed ${above ? 'above' : 'below'} ${rule.threshold.toFixed(2)}`,
+        `Composite moved from ${previous.toFixed(2)} to ${composite.toFixed(2)} (${snapshot.recommendation}).`
+      );
+    }
+
+    case 'Recommendation Change': {
+      if (!deltas?.recommendationChanged) return null;
+      return event(
+        rule,
+        snapshot,
+        snapshot.recommendation,
+        `${ticker} recommendation changed: ${deltas.recommendationDelta}`,
+        `Composite ${composite.toFixed(2)} (${deltas.scoreChange >= 0 ? '+' : ''}${deltas.scoreChange.toFixed(2)} over ${deltas.daysElapsed} trading days).`
+      );
+    }
+
+    case 'RSI Outside Band': {
+      if (!isNumber(snapshot.rsi)) return null;
+      const side = snapshot.rsi < rule.rsiLower ? 'below' : snapshot.rsi > rule.rsiUpper ? 'above' : null;
+      if (!side) return null;
+      const bound = side === 'below' ? rule.rsiLower : rule.rsiUpper;
+      return event(
+        rule,
+        snapshot,
+        side,
+        `${ticker} RSI ${snapshot.rsi.toFixed(1)} is ${side} ${bound}`,
+        `RSI left the ${rule.rsiLower}-${rule.rsiUpper} band (${side === 'below' ? 'oversold' : 'overbought'}).`
+      );
+    }
+
+    case 'New 52W High':
+    case 'New 52W Low': {
+      const { price, week52High, week52Low } = snapshot;
+      if (!isNumber(price) || price <= 0) return null;
+      const tolerance = ALERT_52W_BREAK_TOLERANCE;
+      if (rule.condition === 'New 52W High') {
+        if (!isNumber(week52High) || price < week52High * (1 - tolerance)) return null;
+        return event(
+          rule,
+          snapshot,
+          'high',
+          `${ticker} at a new 52-week high`,
+          `Price $${price.toFixed(2)} vs. 52-week high $${week52High.toFixed(2)}.`
+        );
+      }
+      if (!isNumber(week52Low) || price > week52Low * (1 + tolerance)) return null;
+      return event(
+        rule,
+        snapshot,
+        'low',
+        `${ticker} at a new 52-week low`,
+        `Price $${price.toFixed(2)} vs. 52-week low $${week52Low.toFixed(2)}.`
+      );
+    }
+
+    case 'Major Score Change': {
+      if (deltas?.significance !== 'Major') return null;
+      return event(
+        rule,
+        snapshot,
+        deltas.trendDirection,
+        `${ticker} major score change ${deltas.trendEmoji}`,
+        `Composite ${deltas.scoreChange >= 0 ? '+' : ''}${deltas.scoreChange.toFixed(2)} to ${composite.toFixed(2)} over ${deltas.daysElapsed} trading days (${snapshot.recommendation}).`
+      );
+    }
+
+    case 'Regime Change': {
+      const transition = deltas?.regimeTransition;
+      if (!transition?.occurred) return null;
+      return event(
+        rule,
+        snapshot,
+        `${transition.from}->${transition.to}`,
+        `Market regime changed: ${transition.from} → ${transition.to}`,
+        transition.message || `${ticker} composite is ${composite.toFixed(2)} (${snapshot.recommendation}) under the new regime.`
+      );
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Evaluate every rule against a snapshot
+ */
+export function evaluateAlertRules(rules: AlertRule[], snapshot: AlertSnapshot): AlertEvent[] {
+  const events: AlertEvent[] = [];
+  for (const rule of rules) {
+    const fired = evaluateRule(rule, snapshot);
+    if (fired) events.push(fired);
+  }
+  return events;
+}
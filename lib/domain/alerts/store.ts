@@ -0,0 +1,234 @@
+/**
+ * Alert Rule Storage and Delivery State
+ *
+ * Rules live in the user's Alert Rules Notion database. Cooldowns and
+ * de-duplication keys live in Upstash Redis so the orchestrator and
+ * /api/analyze share them:
+ *
+ * - alerts:v1:sent:{userId}:{ruleId}:{scope}:{fingerprint} - same event already delivered
+ * - alerts:v1:cooldown:{userId}:{ruleId}:{scope}           - rule fired recently for this stock
+ *
+ * Without Redis, state is kept in memory for the current invocation only.
+ */
+
+import { Client } from '@notionhq/client';
+import { warn } from '../../core/logger';
+import { AlertChannelType, AlertCondition, AlertEvent, AlertRule } from './types';
+
+const REDIS_URL = process.env.UPSTASH_REDIS_REST_URL || '';
+const REDIS_TOKEN = process.env.UPSTASH_REDIS_REST_TOKEN || '';
+
+/** Rules are re-read at most every 5 minutes per database */
+const RULE_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/** Classic oversold/overbought band for "RSI Outside Band" rows without RSI Lower/Upper */
+const ALERT_RSI_LOWER = 30;
+const ALERT_RSI_UPPER = 70;
+
+/** One alert per rule and stock per day unless the rule says otherwise */
+const ALERT_DEFAULT_COOLDOWN_HOURS = 24;
+
+/** An identical event (same rule, stock and trigger) is never re-sent within a week */
+const ALERT_DEDUP_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const CONDITIONS: AlertCondition[] = [
+  'Composite Above',
+  'Composite Below',
+  'Recommendation Change',
+  'RSI Outside Band',
+  'New 52W High',
+  'New 52W Low',
+  'Major Score Change',
+  'Regime Change',
+];
+const CHANNELS: AlertChannelType[] = ['Email', 'Webhook', 'Notion Comment'];
+
+const ruleCache = new Map<string, { rules: AlertRule[]; loadedAt: number }>();
+const memoryKeys = new Map<string, number>(); // key → expiry (ms)
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+/**
+ * Parse an Alert Rules row
+ *
+ * @returns null for disabled rows or rows missing a condition or channel
+ */
+function parseRule(page: any): AlertRule | null {
+  const props = page.properties || {};
+  if (props.Enabled?.checkbox !== true) return null;
+
+  const condition = props.Condition?.select?.name as AlertCondition | undefined;
+  if (!condition || !CONDITIONS.includes(condition)) return null;
+
+  const channels = (props.Channels?.multi_select || [])
+    .map((option: any) => option.name)
+    .filter((name: string): name is AlertChannelType => CHANNELS.includes(name as AlertChannelType));
+  if (channels.length === 0) return null;
+
+  const number = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+
+  return {
+    id: page.id,
+    name: props.Name?.title?.[0]?.plain_text || condition,
+    ticker: props.Ticker?.rich_text?.[0]?.plain_text?.toUpperCase().trim() || undefined,
+    condition,
+    threshold: number(props.Threshold?.number),
+    rsiLower: number(props['RSI Lower']?.number) ?? ALERT_RSI_LOWER,
+    rsiUpper: number(props['RSI Upper']?.number) ?? ALERT_RSI_UPPER,
+    channels,
+    webhookUrl: props['Webhook URL']?.url || undefined,
+    cooldownHours: number(props['Cooldown (Hours)']?.number) ?? ALERT_DEFAULT_COOLDOWN_HOURS,
+    triggerCount: number(props['Trigger Count']?.number) ?? 0,
+  };
+}
+
+/**
+ * Load enabled rules from an Alert Rules database (cached)
+ */
+export async function loadAlertRules(notion: Client, alertRulesDbId: string): Promise<AlertRule[]> {
+  const cached = ruleCache.get(alertRulesDbId);
+  if (cached && Date.now() - cached.loadedAt < RULE_CACHE_TTL_MS) {
+    return cached.rules;
+  }
+
+  const db = await notion.databases.retrieve({ database_id: alertRulesDbId });
+  const dataSourceId = (db as any).data_sources?.[0]?.id;
+  if (!dataSourceId) {
+    throw new Error(`No data source found for database ${alertRulesDbId}`);
+  }
+
+  const rules: AlertRule[] = [];
+  let hasMore = true;
+  let cursor: string | undefined;
+
+  while (hasMore) {
+    const response = await notion.dataSources.query({
+      data_source_id: dataSourceId,
+      start_cursor: cursor,
+    });
+    for (const page of response.results) {
+      const rule = parseRule(page);
+      if (rule) rules.push(rule);
+    }
+    hasMore = response.has_more;
+    cursor = response.next_cursor || undefined;
+  }
+
+  ruleCache.set(alertRulesDbId, { rules, loadedAt: Date.now() });
+  return rules;
+}
+
+/**
+ * Stamp Last Triggered / Trigger Count on the rule row (best effort)
+ */
+export async function recordRuleTriggered(notion: Client, rule: AlertRule): Promise<void> {
+  rule.triggerCount++;
+  try {
+    await notion.pages.update({
+      page_id: rule.id,
+      properties: {
+        'Last Triggered': { date: { start: new Date().toISOString() } },
+        'Trigger Count': { number: rule.triggerCount },
+      },
+    });
+  } catch (err: any) {
+    warn('Failed to record alert trigger on rule', { ruleId: rule.id, error: err.message });
+  }
+}
+
+// ============================================================================
+// Cooldown + de-duplication
+// ============================================================================
+
+/**
+ * Market-wide conditions are scoped to the rule, not the stock - one
+ * regime change alert rather than one per tracked ticker.
+ */
+function alertScope(event: AlertEvent): string {
+  return event.rule.condition === 'Regime Change' ? '*' : event.snapshot.ticker;
+}
+
+function stateKeys(userId: string, event: AlertEvent): { sent: string; cooldown: string } {
+  const base = `${userId}:${event.rule.id}:${alertScope(event)}`;
+  return {
+    sent: `alerts:v1:sent:${base}:${event.fingerprint}`,
+    cooldown: `alerts:v1:cooldown:${base}`,
+  };
+}
+
+/**
+ * Run one Redis command via the Upstash REST API
+ */
+async function redisCommand(command: (string | number)[]): Promise<any> {
+  const response = await fetch(REDIS_URL, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${REDIS_TOKEN}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(command),
+  });
+  if (!response.ok) {
+    throw new Error(`Redis ${command[0]} failed: ${response.status} ${response.statusText}`);
+  }
+  const data: any = await response.json();
+  return data.result;
+}
+
+/**
+ * SET key NX EX ttl - true if this caller created the key
+ */
+async function setIfAbsent(key: string, ttlSeconds: number): Promise<boolean> {
+  if (!REDIS_URL || !REDIS_TOKEN) {
+    const expiry = memoryKeys.get(key);
+    if (expiry && expiry > Date.now()) return false;
+    memoryKeys.set(key, Date.now() + ttlSeconds * 1000);
+    return true;
+  }
+  return (await redisCommand(['SET', key, new Date().toISOString(), 'NX', 'EX', ttlSeconds])) === 'OK';
+}
+
+async function deleteKey(key: string): Promise<void> {
+  if (!REDIS_URL || !REDIS_TOKEN) {
+    memoryKeys.delete(key);
+    return;
+  }
+  await redisCommand(['DEL', key]);
+}
+
+/**
+ * Reserve an event for delivery
+ *
+ * @returns 'claimed' if the caller should deliver, otherwise why it was suppressed
+ */
+export async function claimAlert(
+  userId: string,
+  event: AlertEvent
+): Promise<'claimed' | 'duplicate' | 'cooldown'> {
+  const keys = stateKeys(userId, event);
+
+  if (!(await setIfAbsent(keys.sent, ALERT_DEDUP_TTL_SECONDS))) {
+    return 'duplicate';
+  }
+
+  const cooldownSeconds = Math.round(event.rule.cooldownHours * 3600);
+  if (cooldownSeconds > 0 && !(await setIfAbsent(keys.cooldown, cooldownSeconds))) {
+    return 'cooldown';
+  }
+
+  return 'claimed';
+}
+
+/**
+ * Undo a claim after every channel failed, so the next evaluation retries
+ */
+export async function releaseAlert(userId: string, event: AlertEvent): Promise<void> {
+  const keys = stateKeys(userId, event);
+  try {
+    await Promise.all([deleteKey(keys.sent), deleteKey(keys.cooldown)]);
+  } catch (err: any) {
+    warn('Failed to release alert claim', { ruleId: event.rule.id, error: err.message });
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Alert Types
+ */
+
+import { DeltaData } from '../analysis/deltas';
+
+export type AlertCondition =
+  | 'Composite Above'
+  | 'Composite Below'
+  | 'Recommendation Change'
+  | 'RSI Outside Band'
+  | 'New 52W High'
+  | 'New 52W Low'
+  | 'Major Score Change'
+  | 'Regime Change';
+
+export type AlertChannelType = 'Email' | 'Webhook' | 'Notion Comment';
+
+/**
+ * One row of the user's Alert Rules database
+ */
+export interface AlertRule {
+  id: string; // Notion page ID
+  name: string;
+  ticker?: string; // Undefined = every stock the user tracks
+  condition: AlertCondition;
+  threshold?: number;
+  rsiLower: number;
+  rsiUpper: number;
+  channels: AlertChannelType[];
+  webhookUrl?: string;
+  cooldownHours: number;
+  triggerCount: number;
+}
+
+/**
+ * State of one stock after an analysis - what rules are evaluated against
+ */
+export interface AlertSnapshot {
+  ticker: string;
+  date: string; // YYYY-MM-DD (part of the de-duplication fingerprint)
+  pageId?: string; // Stock Analyses page (Notion Comment channel)
+  companyName?: string;
+  composite: number;
+  recommendation: string;
+  rsi?: number;
+  price?: number;
+  week52High?: number;
+  week52Low?: number;
+  deltas?: DeltaData | null; // Null on the first analysis of a stock
+}
+
+/**
+ * A rule that fired for a snapshot
+ */
+export interface AlertEvent {
+  rule: AlertRule;
+  snapshot: AlertSnapshot;
+  title: string;   // e.g. "AAPL composite crossed above 4.0"
+  message: string; // One or two sentences with the numbers
+  fingerprint: string; // Identical fingerprints are delivered once
+}
+
+/**
+ * Who an alert is delivered for
+ */
+export interface AlertRecipient {
+  userId: string;
+  email: string;
+  accessToken: string; // Decrypted Notion OAuth token
+  alertRulesDbId: string;
+}
+
+export interface AlertDeliveryResult {
+  ruleId: string;
+  ticker: string;
+  channel: AlertChannelType;
+  success: boolean;
+  error?: string;
+}
+
+export interface AlertDispatchMetrics {
+  rulesEvaluated: number;
+  triggered: number;
+  delivered: number;   // Events delivered on at least one channel
+  suppressed: number;  // Duplicate or inside the cooldown
+  failed: number;      // Every channel failed
+  deliveries: AlertDeliveryResult[];
+}
@@ -0,0 +1,116 @@
+/**
+ * Score Attribution
+ *
+ * Structured explanation of how each category score and the composite were
+ * produced: which rule fired per factor, points earned vs. available, which
+ * inputs were missing, and how much each category contributed to the composite.
+ *
+ * Built by StockScorer alongside the scores; rendered into the "Why this score"
+ * toggle in Notion and into the LLM prompt so the narrative matches the math.
+ */
+
+import { ScoringWeights } from '../../../config/scoring/config';
+
+export type ScoreCategory =
+  | 'technical'
+  | 'fundamental'
+  | 'macro'
+  | 'risk'
+  | 'sentiment'
+  | 'marketAlignment';
+
+/**
+ * One scoring rule evaluated for a factor (e.g. RSI, P/E ratio)
+ */
+export interface ScoreRule {
+  factor: string;                            // e.g. "RSI"
+  rule: string;                              // Rule that fired, e.g. "40-60 (healthy neutral momentum)"
+  points: number;                            // Points earned (market alignment: signed adjustment)
+  maxPoints: number;                         // Points available (market alignment: max adjustment)
+  inputs: Record<string, number | string>;   // Input values the rule was evaluated on
+}
+
+/**
+ * Attribution for a single category score
+ */
+export interface CategoryAttribution {
+  category: ScoreCategory;
+  score: number;           // Final category score (1.0-5.0)
+  points: number;          // Sum of points earned
+  maxPoints: number;       // Sum of points available from inputs that were present
+  rules: ScoreRule[];
+  missingInputs: string[];
+  neutralFallback: boolean; // True when no inputs were available and 3.0 was used
+}
+
+/**
+ * How much one category moved the composite
+ */
+export interface FactorContribution {
+  category: keyof ScoringWeights;
+  score: number;
+  weight: number;       // Effective weight (re-normalized if a category was excluded)
+  contribution: number; // score × weight - the category's share of the composite
+  impact: number;       // (score - 3.0) × weight - pull above/below a neutral composite
+}
+
+export interface ScoreAttribution {
+  categories: Record<ScoreCategory, CategoryAttribution>;
+  contributions: FactorContribution[];
+}
+
+export const CATEGORY_LABELS: Record<ScoreCategory, string> = {
+  technical: 'Technical',
+  fundamental: 'Fundamental',
+  macro: 'Macro',
+  risk: 'Risk',
+  sentiment: 'Sentiment',
+  marketAlignment: 'Market Alignment',
+};
+
+/** Neutral score used as the zero point for contribution impact */
+export const NEUTRAL_SCORE = 3.0;
+
+function formatSigned(value: number, decimals: number = 2): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(decimals)}`;
+}
+
+/**
+ * One-line rule summary, e.g. "RSI 58.2: 40-60 (healthy neutral momentum) 2/2"
+ */
+export function formatRule(rule: ScoreRule, signed: boolean = false): string {
+  const earned = signed ? formatSigned(rule.points, 1) : `${rule.points}`;
+  const available = signed ? `±${rule.maxPoints}` : `${rule.maxPoints}`;
+  return `${rule.factor}: ${rule.rule} ${earned}/${available}`;
+}
+
+/**
+ * Category summary, e.g.
+ * "Technical 3.80/5 (7/10 pts) — Moving averages: ... 3/3; RSI: ... 2/2 · Missing: volume"
+ */
+export function formatCategoryAttribution(attribution: CategoryAttribution): string {
+  const label = CATEGORY_LABELS[attribution.category];
+  const signed = attribution.category === 'marketAlignment';
+
+  if (attribution.neutralFallback) {
+    return `${label} ${attribution.score.toFixed(2)}/5 — no inputs available, neutral fallback`;
+  }
+
+  const totals = signed
+    ? `(${formatSigned(attribution.points, 1)} from neutral 2.5)`
+    : `(${attribution.points}/${attribution.maxPoints} pts)`;
+  const rules = attribution.rules.map((rule) => formatRule(rule, signed)).join('; ');
+  const missing = attribution.missingInputs.length > 0
+    ? ` · Missing: ${attribution.missingInputs.join(', ')}`
+    : '';
+
+  return `${label} ${attribution.score.toFixed(2)}/5 ${totals}${rules ? ` — ${rules}` : ''}${missing}`;
+}
+
+/**
+ * Contribution summary, e.g. "Fundamental 4.20 × 33% = 1.39 (+0.40 vs neutral)"
+ */
+export function formatContribution(contribution: FactorContribution): string {
+  const weightPct = `${Math.round(contribution.weight * 1000) / 10}%`;
+  return `${CATEGORY_LABELS[contribution.category]} ${contribution.score.toFixed(2)} × ${weightPct} = ${contribution.contribution.toFixed(2)} (${formatSigned(contribution.impact)} vs neutral)`;
+}
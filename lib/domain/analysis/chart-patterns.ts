@@ -0,0 +1,615 @@
+/**
+ * Chart Pattern Detection
+ *
+ * Classical price patterns detected on daily bars (ascending, completed
+ * sessions) plus the live price:
+ * - Reversal: double top/bottom, head & shoulders (and inverse)
+ * - Continuation: cup & handle, bull/bear flags
+ * - Breakout: new 52-week high/low, golden/death cross (SMA 50/200)
+ *
+ * Each pattern carries a measured-move target where the textbook defines one
+ * (pattern height projected from the breakout level) and a horizon in trading
+ * days. The summary feeds the Pattern Score / Pattern Signal / Detected
+ * Patterns / Expected Move (%) / Days to Breakout properties; the outcome is
+ * checked later by evaluatePatternOutcome once the horizon has passed.
+ *
+ * Not part of the composite score - patterns are reported alongside it.
+ */
+
+import { ScoringConfig } from '../../../config/scoring/config';
+import { OHLCVBar, WEEK_52_BARS, smaSeries } from './indicators';
+
+export type PatternDirection = 'bullish' | 'bearish';
+
+/** Breakout level already crossed (confirmed) or not yet (forming) */
+export type PatternStatus = 'confirmed' | 'forming';
+
+export type PatternSignal =
+  | '🚀 Extremely Bullish'
+  | '📈 Bullish'
+  | '✋ Neutral'
+  | '📉 Bearish'
+  | '🚨 Extremely Bearish';
+
+export interface ChartPattern {
+  name: string;            // e.g. "Double Bottom"
+  direction: PatternDirection;
+  status: PatternStatus;
+  weight: number;          // Signal weight after the forming discount
+  startDate: string;       // First bar of the pattern
+  breakoutLevel?: number;  // Neckline / rim / flag boundary
+  target?: number;         // Measured-move price target
+  expectedMove?: number;   // target / price - 1
+  horizonDays?: number;    // Trading days for the move to play out
+}
+
+export interface PatternAnalysis {
+  asOf: string | null;     // Date of the latest completed bar used
+  score: number;           // 1.0-5.0, 3.0 = no net signal
+  signal: PatternSignal;
+  patterns: ChartPattern[];
+  expectedMove?: number;   // From the strongest pattern in the net direction with a target
+  daysToBreakout?: number; // Its horizon - when the prediction is checked
+}
+
+/**
+ * Realized result of a pattern prediction
+ */
+export interface PatternOutcome {
+  actualMove: number;        // Close `daysToBreakout` sessions later vs. the analysis price
+  predictionCorrect: boolean; // Moved in the predicted direction
+  accuracy: number;          // Share of the expected move realized, 0-100 (0 if wrong way)
+  evaluatedOn: string;       // Date of the session the move was measured on
+}
+
+interface Pivot {
+  index: number;
+  price: number;
+}
+
+/** Minimum bars between the two peaks/troughs of a double top/bottom */
+const DOUBLE_MIN_SEPARATION = 10;
+
+/** The last pivot of a reversal pattern must be this recent to still matter */
+const REVERSAL_MAX_AGE_BARS = 40;
+
+/** Cup & handle geometry (bars) */
+const CUP_LOOKBACK_BARS = 150;
+const CUP_MIN_WIDTH = 30;
+const HANDLE_MIN_BARS = 3;
+const HANDLE_MAX_BARS = 25;
+
+/** Flag geometry (bars) */
+const POLE_MIN_BARS = 5;
+const POLE_MAX_BARS = 15;
+const FLAG_MIN_BARS = 5;
+const FLAG_MAX_BARS = 20;
+
+/** Range used as the measured move for 52-week breakouts */
+const BREAKOUT_RANGE_BARS = 20;
+
+function horizon(bars: number): number {
+  return Math.min(
+    ScoringConfig.PATTERN_MAX_HORIZON_DAYS,
+    Math.max(ScoringConfig.PATTERN_MIN_HORIZON_DAYS, Math.round(bars))
+  );
+}
+
+function withinTolerance(a: number, b: number, tolerance: number): boolean {
+  return Math.abs(a - b) / Math.max(a, b) <= tolerance;
+}
+
+function minLow(bars: OHLCVBar[], from: number, to: number): number {
+  let low = Infinity;
+  for (let i = from; i <= to; i++) low = Math.min(low, bars[i].low);
+  return low;
+}
+
+function maxHigh(bars: OHLCVBar[], from: number, to: number): number {
+  let high = -Infinity;
+  for (let i = from; i <= to; i++) high = Math.max(high, bars[i].high);
+  return high;
+}
+
+/**
+ * Swing highs/lows: bars whose high (low) dominates `window` bars on each side
+ */
+function findPivots(bars: OHLCVBar[], window: number): { highs: Pivot[]; lows: Pivot[] } {
+  const highs: Pivot[] = [];
+  const lows: Pivot[] = [];
+
+  for (let i = window; i < bars.length - window; i++) {
+    let isHigh = true;
+    let isLow = true;
+    for (let j = i - window; j <= i + window && (isHigh || isLow); j++) {
+      if (j === i) continue;
+      // Strict on the left so a flat top/bottom yields a single pivot
+      if (j < i ? bars[j].high >= bars[i].high : bars[j].high > bars[i].high) isHigh = false;
+      if (j < i ? bars[j].low <= bars[i].low : bars[j].low < bars[i].low) isLow = false;
+    }
+    if (isHigh) highs.push({ index: i, price: bars[i].high });
+    if (isLow) lows.push({ index: i, price: bars[i].low });
+  }
+
+  return { highs, lows };
+}
+
+/**
+ * Build a pattern, discounting the weight while it is still forming
+ */
+function makePattern(
+  bars: OHLCVBar[],
+  price: number,
+  fields: Omit<ChartPattern, 'weight' | 'expectedMove' | 'startDate'> & { baseWeight: number; startIndex: number }
+): ChartPattern {
+  const { baseWeight, startIndex, ...pattern } = fields;
+  return {
+    ...pattern,
+    weight: pattern.status === 'forming'
+      ? baseWeight * ScoringConfig.PATTERN_FORMING_FACTOR
+      : baseWeight,
+    startDate: bars[startIndex].date,
+    expectedMove: pattern.target !== undefined ? pattern.target / price - 1 : undefined,
+  };
+}
+
+/**
+ * Double top (bearish) / double bottom (bullish) from the last two pivots
+ */
+function detectDoubles(bars: OHLCVBar[], price: number, pivots: { highs: Pivot[]; lows: Pivot[] }): ChartPattern[] {
+  const found: ChartPattern[] = [];
+  const n = bars.length;
+  const tolerance = ScoringConfig.PATTERN_LEVEL_TOLERANCE;
+  const weight = ScoringConfig.PATTERN_WEIGHTS.doubleTopBottom;
+
+  const [firstTop, secondTop] = pivots.highs.slice(-2);
+  if (
+    firstTop && secondTop &&
+    secondTop.index - firstTop.index >= DOUBLE_MIN_SEPARATION &&
+    secondTop.index >= n - REVERSAL_MAX_AGE_BARS &&
+    withinTolerance(firstTop.price, secondTop.price, tolerance)
+  ) {
+    const peak = (firstTop.price + secondTop.price) / 2;
+    const neckline = minLow(bars, firstTop.index, secondTop.index);
+    const target = neckline - (peak - neckline);
+    if (
+      (Math.min(firstTop.price, secondTop.price) - neckline) / peak >= ScoringConfig.PATTERN_MIN_DEPTH &&
+      price < Math.max(firstTop.price, secondTop.price) && // Not invalidated by a new high
+      price > target                                       // Not already played out
+    ) {
+      found.push(makePattern(bars, price, {
+        name: 'Double Top',
+        direction: 'bearish',
+        status: price < neckline ? 'confirmed' : 'forming',
+        baseWeight: weight,
+        startIndex: firstTop.index,
+        breakoutLevel: neckline,
+        target,
+        horizonDays: horizon(secondTop.index - firstTop.index),
+      }));
+    }
+  }
+
+  const [firstBottom, secondBottom] = pivots.lows.slice(-2);
+  if (
+    firstBottom && secondBottom &&
+    secondBottom.index - firstBottom.index >= DOUBLE_MIN_SEPARATION &&
+    secondBottom.index >= n - REVERSAL_MAX_AGE_BARS &&
+    withinTolerance(firstBottom.price, secondBottom.price, tolerance)
+  ) {
+    const trough = (firstBottom.price + secondBottom.price) / 2;
+    const neckline = maxHigh(bars, firstBottom.index, secondBottom.index);
+    const target = neckline + (neckline - trough);
+    if (
+      (neckline - Math.max(firstBottom.price, secondBottom.price)) / neckline >= ScoringConfig.PATTERN_MIN_DEPTH &&
+      price > Math.min(firstBottom.price, secondBottom.price) &&
+      price < target
+    ) {
+      found.push(makePattern(bars, price, {
+        name: 'Double Bottom',
+        direction: 'bullish',
+        status: price > neckline ? 'confirmed' : 'forming',
+        baseWeight: weight,
+        startIndex: firstBottom.index,
+        breakoutLevel: neckline,
+        target,
+        horizonDays: horizon(secondBottom.index - firstBottom.index),
+      }));
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Head & shoulders (bearish) / inverse head & shoulders (bullish) from the last three pivots
+ */
+function detectHeadAndShoulders(
+  bars: OHLCVBar[],
+  price: number,
+  pivots: { highs: Pivot[]; lows: Pivot[] }
+): ChartPattern[] {
+  const found: ChartPattern[] = [];
+  const n = bars.length;
+  const tolerance = ScoringConfig.PATTERN_LEVEL_TOLERANCE;
+  const weight = ScoringConfig.PATTERN_WEIGHTS.headAndShoulders;
+
+  const tops = pivots.highs.slice(-3);
+  if (tops.length === 3) {
+    const [left, head, right] = tops;
+    if (
+      right.index >= n - REVERSAL_MAX_AGE_BARS &&
+      head.price > Math.max(left.price, right.price) * (1 + tolerance) &&
+      withinTolerance(left.price, right.price, tolerance)
+    ) {
+      const neckline = (minLow(bars, left.index, head.index) + minLow(bars, head.index, right.index)) / 2;
+      const target = neckline - (head.price - neckline);
+      if (price < head.price && price > target) {
+        found.push(makePattern(bars, price, {
+          name: 'Head & Shoulders',
+          direction: 'bearish',
+          status: price < neckline ? 'confirmed' : 'forming',
+          baseWeight: weight,
+          startIndex: left.index,
+          breakoutLevel: neckline,
+          target,
+          horizonDays: horizon(right.index - left.index),
+        }));
+      }
+    }
+  }
+
+  const bottoms = pivots.lows.slice(-3);
+  if (bottoms.length === 3) {
+    const [left, head, right] = bottoms;
+    if (
+      right.index >= n - REVERSAL_MAX_AGE_BARS &&
+      head.price < Math.min(left.price, right.price) * (1 - tolerance) &&
+      withinTolerance(left.price, right.price, tolerance)
+    ) {
+      const neckline = (maxHigh(bars, left.index, head.index) + maxHigh(bars, head.index, right.index)) / 2;
+      const target = neckline + (neckline - head.price);
+      if (price > head.price && price < target) {
+        found.push(makePattern(bars, price, {
+          name: 'Inverse Head & Shoulders',
+          direction: 'bullish',
+          status: price > neckline ? 'confirmed' : 'forming',
+          baseWeight: weight,
+          startIndex: left.index,
+          breakoutLevel: neckline,
+          target,
+          horizonDays: horizon(right.index - left.index),
+        }));
+      }
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Cup & handle: rounded base with matching rims and a shallow pullback in the upper half
+ */
+function detectCupAndHandle(bars: OHLCVBar[], price: number): ChartPattern[] {
+  const n = bars.length;
+  const start = Math.max(0, n - CUP_LOOKBACK_BARS);
+  if (n - start < CUP_MIN_WIDTH + HANDLE_MIN_BARS) return [];
+
+  let leftRim = start;
+  for (let i = start; i < n - CUP_MIN_WIDTH; i++) {
+    if (bars[i].high > bars[leftRim].high) leftRim = i;
+  }
+  let bottom = leftRim + 1;
+  for (let i = leftRim + 1; i < n; i++) {
+    if (bars[i].low < bars[bottom].low) bottom = i;
+  }
+  let rightRim = bottom + 1;
+  if (rightRim >= n) return [];
+  for (let i = bottom + 1; i < n; i++) {
+    if (bars[i].high > bars[rightRim].high) rightRim = i;
+  }
+
+  const leftHigh = bars[leftRim].high;
+  const rightHigh = bars[rightRim].high;
+  const bottomLow = bars[bottom].low;
+  const depth = (leftHigh - bottomLow) / leftHigh;
+  const width = rightRim - leftRim;
+  const handleBars = n - 1 - rightRim;
+
+  if (
+    depth < ScoringConfig.CUP_MIN_DEPTH || depth > ScoringConfig.CUP_MAX_DEPTH ||
+    width < CUP_MIN_WIDTH ||
+    !withinTolerance(leftHigh, rightHigh, ScoringConfig.PATTERN_LEVEL_TOLERANCE) ||
+    // Bottom roughly centred - a V or a slow fade isn't a cup
+    bottom - leftRim < width * 0.2 || rightRim - bottom < width * 0.2 ||
+    handleBars < HANDLE_MIN_BARS || handleBars > HANDLE_MAX_BARS
+  ) {
+    return [];
+  }
+
+  // Handle must pull back, but stay in the upper half of the cup
+  const handleLow = minLow(bars, rightRim + 1, n - 1);
+  if (handleLow >= rightHigh || rightHigh - handleLow > (rightHigh - bottomLow) / 2) return [];
+
+  const target = rightHigh + (rightHigh - bottomLow);
+  if (price <= handleLow || price >= target) return [];
+
+  return [makePattern(bars, price, {
+    name: 'Cup & Handle',
+    direction: 'bullish',
+    status: price > rightHigh ? 'confirmed' : 'forming',
+    baseWeight: ScoringConfig.PATTERN_WEIGHTS.cupAndHandle,
+    startIndex: leftRim,
+    breakoutLevel: rightHigh,
+    target,
+    horizonDays: horizon(width / 2),
+  })];
+}
+
+/**
+ * Bull/bear flag: sharp pole followed by a tight counter-trend consolidation
+ *
+ * Picks the strongest pole across all pole/flag lengths that still qualifies.
+ */
+function detectFlags(bars: OHLCVBar[], price: number): ChartPattern[] {
+  const n = bars.length;
+  let best: { direction: PatternDirection; move: number; poleStart: number; poleEnd: number } | null = null;
+
+  for (let flagBars = FLAG_MIN_BARS; flagBars <= FLAG_MAX_BARS; flagBars++) {
+    const poleEnd = n - 1 - flagBars;
+    for (let poleBars = POLE_MIN_BARS; poleBars <= POLE_MAX_BARS; poleBars++) {
+      const poleStart = poleEnd - poleBars;
+      if (poleStart < 0) break;
+
+      const startClose = bars[poleStart].close;
+      const endClose = bars[poleEnd].close;
+      if (!(startClose > 0)) continue;
+
+      const move = (endClose - startClose) / startClose;
+      if (Math.abs(move) < ScoringConfig.FLAG_MIN_POLE_MOVE) continue;
+
+      const poleHeight = Math.abs(endClose - startClose);
+      const flagHigh = maxHigh(bars, poleEnd + 1, n - 1);
+      const flagLow = minLow(bars, poleEnd + 1, n - 1);
+      const qualifies = move > 0
+        ? flagHigh <= maxHigh(bars, poleStart, poleEnd) &&
+          (endClose - flagLow) / poleHeight <= ScoringConfig.FLAG_MAX_RETRACE
+        : flagLow >= minLow(bars, poleStart, poleEnd) &&
+          (flagHigh - endClose) / poleHeight <= ScoringConfig.FLAG_MAX_RETRACE;
+
+      if (qualifies && (!best || Math.abs(move) > Math.abs(best.move))) {
+        best = { direction: move > 0 ? 'bullish' : 'bearish', move, poleStart, poleEnd };
+      }
+    }
+  }
+
+  if (!best) return [];
+
+  const poleHeight = Math.abs(bars[best.poleEnd].close - bars[best.poleStart].close);
+  const flagHigh = maxHigh(bars, best.poleEnd + 1, n - 1);
+  const flagLow = minLow(bars, best.poleEnd + 1, n - 1);
+  const totalBars = n - best.poleStart;
+
+  if (best.direction === 'bullish') {
+    const target = flagHigh + poleHeight;
+    if (price < flagLow || price >= target) return [];
+    return [makePattern(bars, price, {
+      name: 'Bull Flag',
+      direction: 'bullish',
+      status: price > flagHigh ? 'confirmed' : 'forming',
+      baseWeight: ScoringConfig.PATTERN_WEIGHTS.flag,
+      startIndex: best.poleStart,
+      breakoutLevel: flagHigh,
+      target,
+      horizonDays: horizon(totalBars),
+    })];
+  }
+
+  const target = flagLow - poleHeight;
+  if (price > flagHigh || price <= target || target <= 0) return [];
+  return [makePattern(bars, price, {
+    name: 'Bear Flag',
+    direction: 'bearish',
+    status: price < flagLow ? 'confirmed' : 'forming',
+    baseWeight: ScoringConfig.PATTERN_WEIGHTS.flag,
+    startIndex: best.poleStart,
+    breakoutLevel: flagLow,
+    target,
+    horizonDays: horizon(totalBars),
+  })];
+}
+
+/**
+ * Live price through the prior 52-week high (or low), projected by the recent range
+ */
+function detect52WeekBreakout(bars: OHLCVBar[], price: number): ChartPattern[] {
+  const n = bars.length;
+  if (n < WEEK_52_BARS) return [];
+
+  const start = n - WEEK_52_BARS;
+  const yearHigh = maxHigh(bars, start, n - 1);
+  const yearLow = minLow(bars, start, n - 1);
+  const range = maxHigh(bars, n - BREAKOUT_RANGE_BARS, n - 1) - minLow(bars, n - BREAKOUT_RANGE_BARS, n - 1);
+  const weight = ScoringConfig.PATTERN_WEIGHTS.week52Breakout;
+
+  if (price > yearHigh) {
+    return [makePattern(bars, price, {
+      name: '52-Week High Breakout',
+      direction: 'bullish',
+      status: 'confirmed',
+      baseWeight: weight,
+      startIndex: start,
+      breakoutLevel: yearHigh,
+      target: Math.max(price, yearHigh + range),
+      horizonDays: horizon(BREAKOUT_RANGE_BARS),
+    })];
+  }
+
+  if (price < yearLow) {
+    return [makePattern(bars, price, {
+      name: '52-Week Low Breakdown',
+      direction: 'bearish',
+      status: 'confirmed',
+      baseWeight: weight,
+      startIndex: start,
+      breakoutLevel: yearLow,
+      target: Math.max(0, Math.min(price, yearLow - range)),
+      horizonDays: horizon(BREAKOUT_RANGE_BARS),
+    })];
+  }
+
+  return [];
+}
+
+/**
+ * Golden cross (SMA50 above SMA200) / death cross within the last few sessions
+ *
+ * No measured move - contributes to the score and signal only.
+ */
+function detectMovingAverageCross(bars: OHLCVBar[], price: number): ChartPattern[] {
+  const closes = bars.map((bar) => bar.close);
+  const sma50 = smaSeries(closes, 50);
+  const sma200 = smaSeries(closes, 200);
+  const n = bars.length;
+
+  for (let i = n - 1; i >= Math.max(1, n - ScoringConfig.CROSS_RECENCY_BARS); i--) {
+    const fast = sma50[i];
+    const slow = sma200[i];
+    const prevFast = sma50[i - 1];
+    const prevSlow = sma200[i - 1];
+    if (fast === undefined || slow === undefined || prevFast === undefined || prevSlow === undefined) {
+      return [];
+    }
+
+    const above = fast > slow;
+    if (above !== prevFast > prevSlow) {
+      return [makePattern(bars, price, {
+        name: above ? 'Golden Cross' : 'Death Cross',
+        direction: above ? 'bullish' : 'bearish',
+        status: 'confirmed',
+        baseWeight: ScoringConfig.PATTERN_WEIGHTS.movingAverageCross,
+        startIndex: i,
+      })];
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Map a 1.0-5.0 pattern score to its Notion signal
+ */
+export function patternSignal(score: number): PatternSignal {
+  if (score >= 4.5) return '🚀 Extremely Bullish';
+  if (score >= 3.5) return '📈 Bullish';
+  if (score > 2.5) return '✋ Neutral';
+  if (score > 1.5) return '📉 Bearish';
+  return '🚨 Extremely Bearish';
+}
+
+/**
+ * Detect chart patterns and summarize them into a score and prediction
+ *
+ * @param bars - Completed daily bars, ascending
+ * @param currentPrice - Live price (defaults to the last close)
+ */
+export function detectChartPatterns(bars: OHLCVBar[], currentPrice?: number): PatternAnalysis {
+  const price = currentPrice ?? bars[bars.length - 1]?.close;
+  const asOf = bars.length > 0 ? bars[bars.length - 1].date : null;
+
+  const patterns: ChartPattern[] = [];
+  if (price > 0 && bars.length >= CUP_MIN_WIDTH) {
+    // Reversal detectors index pivots into the lookback slice
+    const recent = bars.slice(-ScoringConfig.PATTERN_LOOKBACK_BARS);
+    const pivots = findPivots(recent, ScoringConfig.PATTERN_PIVOT_WINDOW);
+
+    patterns.push(
+      ...detectHeadAndShoulders(recent, price, pivots),
+      ...detectDoubles(recent, price, pivots),
+      ...detectCupAndHandle(bars, price),
+      ...detectFlags(bars, price),
+      ...detect52WeekBreakout(bars, price),
+      ...detectMovingAverageCross(bars, price)
+    );
+  }
+
+  const net = patterns.reduce(
+    (sum, pattern) => sum + (pattern.direction === 'bullish' ? pattern.weight : -pattern.weight),
+    0
+  );
+  const score = Math.round((3 + 2 * Math.tanh(net / ScoringConfig.PATTERN_SCORE_SCALE)) * 100) / 100;
+
+  // The prediction follows the net direction: its strongest pattern with a target
+  const lead = net === 0
+    ? undefined
+    : patterns
+        .filter((pattern) => pattern.direction === (net > 0 ? 'bullish' : 'bearish') && pattern.expectedMove !== undefined)
+        .sort((a, b) => b.weight - a.weight)[0];
+
+  return {
+    asOf,
+    score,
+    signal: patternSignal(score),
+    patterns,
+    expectedMove: lead?.expectedMove,
+    daysToBreakout: lead?.horizonDays,
+  };
+}
+
+/**
+ * Label for the Detected Patterns property, e.g. "Double Bottom (forming)"
+ */
+export function formatPatternLabel(pattern: ChartPattern): string {
+  return pattern.status === 'forming' ? `${pattern.name} (forming)` : pattern.name;
+}
+
+/**
+ * One-line summary for prompts, e.g.
+ * "📈 Bullish (3.92/5): Double Bottom, Golden Cross - expected move +8.4% over ~24 sessions"
+ */
+export function formatPatternSummary(analysis: PatternAnalysis): string {
+  if (analysis.patterns.length === 0) {
+    return `${analysis.signal} - no chart patterns detected`;
+  }
+
+  const names = analysis.patterns.map(formatPatternLabel).join(', ');
+  const move = analysis.expectedMove !== undefined && analysis.daysToBreakout !== undefined
+    ? ` - expected move ${analysis.expectedMove >= 0 ? '+' : ''}${(analysis.expectedMove * 100).toFixed(1)}% over ~${analysis.daysToBreakout} sessions`
+    : '';
+  return `${analysis.signal} (${analysis.score.toFixed(2)}/5): ${names}${move}`;
+}
+
+/**
+ * Score a past prediction against the bars that followed it
+ *
+ * Counts sessions strictly after the analysis date, so an intraday analysis
+ * is measured from the next close onward.
+ *
+ * @returns null until `daysToBreakout` sessions have closed
+ */
+export function evaluatePatternOutcome(
+  bars: Array<Pick<OHLCVBar, 'date' | 'close'>>,
+  prediction: { analysisDate: string; price: number; expectedMove: number; daysToBreakout: number }
+): PatternOutcome | null {
+  const { analysisDate, price, expectedMove, daysToBreakout } = prediction;
+  if (!(price > 0) || !(daysToBreakout >= 1) || expectedMove === 0) {
+    return null;
+  }
+
+  const sessions = bars.filter((bar) => bar.date > analysisDate);
+  const evaluated = sessions[Math.round(daysToBreakout) - 1];
+  if (!evaluated) {
+    return null;
+  }
+
+  const actualMove = evaluated.close / price - 1;
+  const predictionCorrect = Math.sign(actualMove) === Math.sign(expectedMove);
+  const accuracy = predictionCorrect ? Math.round(Math.min(actualMove / expectedMove, 1) * 100) : 0;
+
+  return {
+    actualMove,
+    predictionCorrect,
+    accuracy,
+    evaluatedOn: evaluated.date,
+  };
+}
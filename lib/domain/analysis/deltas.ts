@@ -8,6 +8,10 @@
  */
 
 import { MarketContext } from '../market';
+import { tradingDaysBetween } from '../../shared/market-calendar';
+
+/** Trading sessions per year, for annualizing returns over trading days */
+const TRADING_DAYS_PER_YEAR = 252;
 
 /**
  * Previous analysis data structure
@@ -48,7 +52,7 @@ export interface CurrentMetrics {
  * Comprehensive delta data
  */
 export interface DeltaData {
-  daysElapsed: number;
+  daysElapsed: number; // Trading days (NYSE sessions) since the previous analysis
   scoreChange: number;
   trendDirection: 'improving' | 'declining' | 'stable';
   trendEmoji: string;
@@ -86,10 +90,8 @@ export function calculateDeltas(
   currentMarketContext?: MarketContext | null,
   previousMarketRegime?: string
 ): DeltaData {
-  // Calculate days elapsed
-  const previousDate = new Date(previous.date);
-  const currentDate = new Date();
-  const daysElapsed = Math.ceil((currentDate.getTime() - previousDate.getTime()) / (1000 * 60 * 60 * 24));
+  // Trading days elapsed - a Friday → Monday re-analysis is one session, not three days
+  const daysElapsed = tradingDaysBetween(new Date(previous.date), new Date());
 
   // Score deltas
   const scoreChange = current.compositeScore - previous.compositeScore;
@@ -119,7 +121,7 @@ export function calculateDeltas(
   let annualizedReturn: number | undefined;
   if (daysElapsed > 0) {
     const dailyReturn = priceChangePercent / daysElapsed;
-    annualizedReturn = dailyReturn * 365;
+    annualizedReturn = dailyReturn * TRADING_DAYS_PER_YEAR;
   }
 
   const priceDeltas = {
@@ -0,0 +1,479 @@
+/**
+ * Technical Indicators
+ *
+ * Pure indicator math over daily bars in ascending date order (FMP's
+ * getHistoricalPrices returns newest first - pass it through
+ * sortBarsAscending). Every series is aligned index-for-index with its input
+ * and is undefined until the lookback window is full.
+ *
+ * Close-only: SMA, EMA, RSI, MACD, Bollinger Bands, return volatility
+ * OHLCV: ATR, ADX/DMI, OBV, stochastic, rolling VWAP, 52-week range
+ *
+ * Shared by the market data store (live analyses) and the backtest
+ * reconstruction so both score exactly the same indicator values.
+ */
+
+/** Daily returns in the 30-day volatility window (30 closes → 29 returns) */
+export const VOLATILITY_RETURNS = 29;
+
+/** Minimum valid returns before volatility is reported */
+const VOLATILITY_MIN_RETURNS = 20;
+
+/** Trading days in the 52-week range */
+export const WEEK_52_BARS = 252;
+
+/**
+ * Minimal daily bar shape (satisfied by FMP HistoricalPrice, DailyBar, PriceBar)
+ */
+export interface OHLCVBar {
+  date: string;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * MACD line, signal line and histogram series
+ */
+export interface MACDSeries {
+  macd: Array<number | undefined>;
+  signal: Array<number | undefined>;
+  histogram: Array<number | undefined>;
+}
+
+export interface BollingerSeries {
+  middle: Array<number | undefined>;
+  upper: Array<number | undefined>;
+  lower: Array<number | undefined>;
+  percentB: Array<number | undefined>;  // 0 = lower band, 1 = upper band
+  bandwidth: Array<number | undefined>; // (upper - lower) / middle
+}
+
+export interface ADXSeries {
+  adx: Array<number | undefined>;
+  plusDI: Array<number | undefined>;
+  minusDI: Array<number | undefined>;
+}
+
+export interface StochasticSeries {
+  k: Array<number | undefined>; // %K (fast)
+  d: Array<number | undefined>; // %D (SMA of %K)
+}
+
+/**
+ * Position of a price within its 52-week range
+ */
+export interface WeekRange52 {
+  high: number;
+  low: number;
+  distanceFromHigh: number; // price / high - 1 (0 at the high, negative below)
+  distanceFromLow: number;  // price / low - 1 (0 at the low, positive above)
+}
+
+/**
+ * Sort bars oldest-first without mutating the input
+ */
+export function sortBarsAscending<T extends { date: string }>(bars: T[]): T[] {
+  return [...bars].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Simple moving average series
+ */
+export function smaSeries(values: number[], period: number): Array<number | undefined> {
+  const result: Array<number | undefined> = [];
+  let sum = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) {
+      sum -= values[i - period];
+    }
+    result.push(i >= period - 1 ? sum / period : undefined);
+  }
+
+  return result;
+}
+
+/**
+ * Exponential moving average series, seeded with the SMA of the first window
+ */
+export function emaSeries(values: number[], period: number): Array<number | undefined> {
+  const result: Array<number | undefined> = [];
+  const k = 2 / (period + 1);
+  let ema: number | undefined;
+
+  for (let i = 0; i < values.length; i++) {
+    if (i < period - 1) {
+      result.push(undefined);
+      continue;
+    }
+    if (ema === undefined) {
+      ema = values.slice(0, period).reduce((sum, val) => sum + val, 0) / period;
+    } else {
+      ema = values[i] * k + ema * (1 - k);
+    }
+    result.push(ema);
+  }
+
+  return result;
+}
+
+/**
+ * Wilder's RSI series
+ */
+export function rsiSeries(values: number[], period: number = 14): Array<number | undefined> {
+  const result: Array<number | undefined> = values.length > 0 ? [undefined] : [];
+  let avgGain = 0;
+  let avgLoss = 0;
+
+  for (let i = 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+
+    if (i <= period) {
+      avgGain += gain / period;
+      avgLoss += loss / period;
+    } else {
+      avgGain = (avgGain * (period - 1) + gain) / period;
+      avgLoss = (avgLoss * (period - 1) + loss) / period;
+    }
+
+    if (i < period) {
+      result.push(undefined);
+    } else if (avgLoss === 0) {
+      result.push(100);
+    } else {
+      result.push(100 - 100 / (1 + avgGain / avgLoss));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * MACD (EMA fast - EMA slow), its EMA signal line and the histogram
+ */
+export function macdSeries(
+  values: number[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): MACDSeries {
+  const fast = emaSeries(values, fastPeriod);
+  const slow = emaSeries(values, slowPeriod);
+  const macd = values.map((_, i) =>
+    fast[i] !== undefined && slow[i] !== undefined ? fast[i]! - slow[i]! : undefined
+  );
+
+  // Signal is an EMA over the defined part of the MACD line
+  const firstDefined = macd.findIndex((value) => value !== undefined);
+  const signal: Array<number | undefined> = values.map(() => undefined);
+  if (firstDefined >= 0) {
+    const defined = emaSeries(macd.slice(firstDefined) as number[], signalPeriod);
+    defined.forEach((value, offset) => {
+      signal[firstDefined + offset] = value;
+    });
+  }
+
+  const histogram = macd.map((value, i) =>
+    value !== undefined && signal[i] !== undefined ? value - signal[i]! : undefined
+  );
+
+  return { macd, signal, histogram };
+}
+
+/**
+ * Bollinger Bands: SMA ± `multiplier` population standard deviations
+ */
+export function bollingerSeries(
+  values: number[],
+  period: number = 20,
+  multiplier: number = 2
+): BollingerSeries {
+  const middle = smaSeries(values, period);
+  const upper: Array<number | undefined> = [];
+  const lower: Array<number | undefined> = [];
+  const percentB: Array<number | undefined> = [];
+  const bandwidth: Array<number | undefined> = [];
+
+  for (let i = 0; i < values.length; i++) {
+    const mean = middle[i];
+    if (mean === undefined) {
+      upper.push(undefined);
+      lower.push(undefined);
+      percentB.push(undefined);
+      bandwidth.push(undefined);
+      continue;
+    }
+
+    const window = values.slice(i - period + 1, i + 1);
+    const std = Math.sqrt(window.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / period);
+    const up = mean + multiplier * std;
+    const low = mean - multiplier * std;
+
+    upper.push(up);
+    lower.push(low);
+    percentB.push(up > low ? (values[i] - low) / (up - low) : 0.5);
+    bandwidth.push(mean !== 0 ? (up - low) / mean : undefined);
+  }
+
+  return { middle, upper, lower, percentB, bandwidth };
+}
+
+/**
+ * True range series (first bar has no previous close, so it uses high - low)
+ */
+function trueRangeSeries(bars: OHLCVBar[]): number[] {
+  return bars.map((bar, i) => {
+    if (i === 0) return bar.high - bar.low;
+    const prevClose = bars[i - 1].close;
+    return Math.max(bar.high - bar.low, Math.abs(bar.high - prevClose), Math.abs(bar.low - prevClose));
+  });
+}
+
+/**
+ * Wilder smoothing (RMA) over values from index 1, seeded with the mean of the first window
+ */
+function wilderSeries(values: number[], period: number): Array<number | undefined> {
+  const result: Array<number | undefined> = values.map(() => undefined);
+  let average: number | undefined;
+
+  for (let i = 1; i < values.length; i++) {
+    if (i < period) continue;
+    if (average === undefined) {
+      average = values.slice(1, period + 1).reduce((sum, val) => sum + val, 0) / period;
+    } else {
+      average = (average * (period - 1) + values[i]) / period;
+    }
+    result[i] = average;
+  }
+
+  return result;
+}
+
+/**
+ * Average True Range (Wilder)
+ */
+export function atrSeries(bars: OHLCVBar[], period: number = 14): Array<number | undefined> {
+  return wilderSeries(trueRangeSeries(bars), period);
+}
+
+/**
+ * ADX with +DI / -DI (Wilder's Directional Movement System)
+ *
+ * DI values are defined from bar `period`; ADX (a Wilder average of DX)
+ * from bar `2 × period - 1`.
+ */
+export function adxSeries(bars: OHLCVBar[], period: number = 14): ADXSeries {
+  const plusDM: number[] = [0];
+  const minusDM: number[] = [0];
+
+  for (let i = 1; i < bars.length; i++) {
+    const upMove = bars[i].high - bars[i - 1].high;
+    const downMove = bars[i - 1].low - bars[i].low;
+    plusDM.push(upMove > downMove && upMove > 0 ? upMove : 0);
+    minusDM.push(downMove > upMove && downMove > 0 ? downMove : 0);
+  }
+
+  const atr = wilderSeries(trueRangeSeries(bars), period);
+  const smoothedPlus = wilderSeries(plusDM, period);
+  const smoothedMinus = wilderSeries(minusDM, period);
+
+  const plusDI: Array<number | undefined> = [];
+  const minusDI: Array<number | undefined> = [];
+  const dx: Array<number | undefined> = [];
+
+  for (let i = 0; i < bars.length; i++) {
+    const tr = atr[i];
+    const plus = smoothedPlus[i];
+    const minus = smoothedMinus[i];
+    if (tr === undefined || plus === undefined || minus === undefined) {
+      plusDI.push(undefined);
+      minusDI.push(undefined);
+      dx.push(undefined);
+      continue;
+    }
+
+    // Flat range (no true range) = no directional movement
+    const pdi = tr > 0 ? (100 * plus) / tr : 0;
+    const mdi = tr > 0 ? (100 * minus) / tr : 0;
+    plusDI.push(pdi);
+    minusDI.push(mdi);
+    dx.push(pdi + mdi > 0 ? (100 * Math.abs(pdi - mdi)) / (pdi + mdi) : 0);
+  }
+
+  // ADX: Wilder average of DX once a full window of DX exists
+  const adx: Array<number | undefined> = bars.map(() => undefined);
+  const firstDX = dx.findIndex((value) => value !== undefined);
+  if (firstDX >= 0) {
+    let average: number | undefined;
+    for (let i = firstDX + period - 1; i < bars.length; i++) {
+      if (average === undefined) {
+        const window = dx.slice(firstDX, firstDX + period) as number[];
+        average = window.reduce((sum, val) => sum + val, 0) / period;
+      } else {
+        average = (average * (period - 1) + (dx[i] as number)) / period;
+      }
+      adx[i] = average;
+    }
+  }
+
+  return { adx, plusDI, minusDI };
+}
+
+/**
+ * On-Balance Volume (cumulative, starting at 0)
+ */
+export function obvSeries(bars: OHLCVBar[]): number[] {
+  const result: number[] = [];
+  let obv = 0;
+
+  for (let i = 0; i < bars.length; i++) {
+    if (i > 0) {
+      if (bars[i].close > bars[i - 1].close) obv += bars[i].volume;
+      else if (bars[i].close < bars[i - 1].close) obv -= bars[i].volume;
+    }
+    result.push(obv);
+  }
+
+  return result;
+}
+
+/**
+ * Net OBV flow over `period` bars as a share of total volume traded (-1 to 1)
+ *
+ * Scale-free accumulation/distribution signal: +1 means every session in the
+ * window closed up, -1 every session closed down.
+ */
+export function obvTrend(bars: OHLCVBar[], period: number = 20, index: number = bars.length - 1): number | undefined {
+  if (index < period) return undefined;
+
+  const obv = obvSeries(bars.slice(index - period, index + 1));
+  const volume = bars.slice(index - period + 1, index + 1).reduce((sum, bar) => sum + bar.volume, 0);
+  return volume > 0 ? obv[obv.length - 1] / volume : undefined;
+}
+
+/**
+ * Stochastic oscillator (%K over `kPeriod` bars, %D = SMA of %K)
+ */
+export function stochasticSeries(
+  bars: OHLCVBar[],
+  kPeriod: number = 14,
+  dPeriod: number = 3
+): StochasticSeries {
+  const k: Array<number | undefined> = [];
+
+  for (let i = 0; i < bars.length; i++) {
+    if (i < kPeriod - 1) {
+      k.push(undefined);
+      continue;
+    }
+    const window = bars.slice(i - kPeriod + 1, i + 1);
+    const highest = Math.max(...window.map((bar) => bar.high));
+    const lowest = Math.min(...window.map((bar) => bar.low));
+    k.push(highest > lowest ? (100 * (bars[i].close - lowest)) / (highest - lowest) : 50);
+  }
+
+  const d: Array<number | undefined> = k.map((_, i) => {
+    if (i < kPeriod - 1 + dPeriod - 1) return undefined;
+    const window = k.slice(i - dPeriod + 1, i + 1) as number[];
+    return window.reduce((sum, val) => sum + val, 0) / dPeriod;
+  });
+
+  return { k, d };
+}
+
+/**
+ * Rolling VWAP over `period` daily bars, using the typical price (H + L + C) / 3
+ */
+export function vwapSeries(bars: OHLCVBar[], period: number = 20): Array<number | undefined> {
+  const result: Array<number | undefined> = [];
+  let priceVolume = 0;
+  let volume = 0;
+
+  for (let i = 0; i < bars.length; i++) {
+    const typical = (bars[i].high + bars[i].low + bars[i].close) / 3;
+    priceVolume += typical * bars[i].volume;
+    volume += bars[i].volume;
+
+    if (i >= period) {
+      const dropped = bars[i - period];
+      priceVolume -= ((dropped.high + dropped.low + dropped.close) / 3) * dropped.volume;
+      volume -= dropped.volume;
+    }
+
+    result.push(i >= period - 1 && volume > 0 ? priceVolume / volume : undefined);
+  }
+
+  return result;
+}
+
+/**
+ * 52-week high/low and the distance of `price` from each
+ *
+ * Uses up to WEEK_52_BARS bars ending at `index`; the price itself counts
+ * toward the range so a live quote above the last high reads as 0% from high.
+ */
+export function weekRange52(
+  bars: OHLCVBar[],
+  price: number = bars[bars.length - 1]?.close,
+  index: number = bars.length - 1
+): WeekRange52 | undefined {
+  if (index < 0 || !(price > 0)) return undefined;
+
+  const window = bars.slice(Math.max(0, index - WEEK_52_BARS + 1), index + 1);
+  const high = Math.max(price, ...window.map((bar) => bar.high));
+  const low = Math.min(price, ...window.map((bar) => bar.low));
+  if (!(low > 0)) return undefined;
+
+  return {
+    high,
+    low,
+    distanceFromHigh: price / high - 1,
+    distanceFromLow: price / low - 1,
+  };
+}
+
+/**
+ * Population standard deviation of daily returns ending at `index`
+ *
+ * Uses the `returns` returns before and including `index`; undefined when the
+ * window is not full or fewer than 20 returns were valid.
+ */
+export function dailyReturnVolatility(
+  closes: number[],
+  index: number = closes.length - 1,
+  returns: number = VOLATILITY_RETURNS
+): number | undefined {
+  if (index < returns) {
+    return undefined;
+  }
+
+  const dailyReturns: number[] = [];
+  for (let i = index; i > index - returns; i--) {
+    const currentClose = closes[i];
+    const previousClose = closes[i - 1];
+    if (currentClose > 0 && previousClose > 0) {
+      dailyReturns.push((currentClose - previousClose) / previousClose);
+    }
+  }
+
+  if (dailyReturns.length < VOLATILITY_MIN_RETURNS) {
+    return undefined;
+  }
+
+  const mean = dailyReturns.reduce((sum, val) => sum + val, 0) / dailyReturns.length;
+  const variance =
+    dailyReturns.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / dailyReturns.length;
+  return Math.sqrt(variance);
+}
+
+/**
+ * Last value of an indicator series
+ */
+export function latest(series: Array<number | undefined>): number | undefined {
+  return series.length > 0 ? series[series.length - 1] : undefined;
+}
@@ -1,8 +1,9 @@
 /**
  * Stock Scoring Engine
  *
- * Multi-factor scoring system that evaluates stocks across 6 dimensions:
- * - Technical (28.5%): Price action, momentum, volume
+ * Multi-factor scoring system that evaluates stocks across 6 dimensions
+ * (default "Balanced" weights shown; see ScoringConfig.WEIGHT_PROFILES):
+ * - Technical (28.5%): Price action, momentum, volume, trend strength
  * - Fundamental (33%): Financials, valuation, profitability
  * - Macro (19%): Economic conditions, Fed policy
  * - Risk (14.5%): Volatility, beta, market cap
@@ -18,11 +19,26 @@
  * Ported from Python v0.3.0 StockScorer class
  */
 
-import { ScoringConfig } from '../../../config/scoring/config';
+import { ScoringConfig, ScoringWeights, WeightProfile, WeightProfileName } from '../../../config/scoring/config';
 import { isValidNumber, isValidScore } from '../../core/validators';
-import { clamp } from '../../core/utils';
+import { clamp, round } from '../../core/utils';
 import { warn, info } from '../../core/logger';
 import { MarketContext, getSectorDataForStock } from '../market';
+import {
+  adjustWeightsForRegime,
+  getWeightProfile,
+  validateWeights,
+  RegimeWeightAdjustment,
+} from './weight-profiles';
+import {
+  CATEGORY_LABELS,
+  NEUTRAL_SCORE,
+  CategoryAttribution,
+  FactorContribution,
+  ScoreAttribution,
+  ScoreCategory,
+  ScoreRule,
+} from './attribution';
 
 export interface TechnicalData {
   current_price?: number;
@@ -36,6 +52,21 @@ export interface TechnicalData {
   price_change_1m?: number;
   price_change_1d?: number;
   volatility_30d?: number;
+  // Extended indicators (computed in-house from daily bars)
+  macd_histogram?: number;
+  bollinger_upper?: number;
+  bollinger_lower?: number;
+  bollinger_percent_b?: number;  // 0 = lower band, 1 = upper band
+  atr_14?: number;
+  adx_14?: number;
+  plus_di?: number;
+  minus_di?: number;
+  obv_trend_20d?: number;        // Net OBV flow / volume traded over 20 days (-1 to 1)
+  stochastic_k?: number;
+  stochastic_d?: number;
+  vwap_20d?: number;
+  distance_from_52w_high?: number; // price / 52w high - 1 (≤ 0)
+  distance_from_52w_low?: number;  // price / 52w low - 1 (≥ 0)
 }
 
 export interface FundamentalData {
@@ -70,16 +101,38 @@ export interface ScoreResults {
   marketAlignment: number; // NEW: Market regime alignment score
   composite: number;
   recommendation: string;
+  weightProfile?: WeightProfileName; // Profile the composite was weighted with
+  weights?: ScoringWeights;          // Exact weights applied, after any regime tilt (for history/explainability)
+  regimeAdjustment?: RegimeWeightAdjustment | null; // Regime tilt blended into the profile weights
+  attribution?: ScoreAttribution;    // Rules fired per category and per-category composite contributions
+}
+
+/**
+ * Signed percent for rule descriptions, e.g. 0.124 → "+12.4%"
+ */
+function formatPercentChange(value: number): string {
+  return `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
 }
 
 export class StockScorer {
-  private weights = {
-    technical: 0.285,      // 28.5% (was 30%)
-    fundamental: 0.33,     // 33% (was 35%)
-    macro: 0.19,           // 19% (was 20%)
-    risk: 0.145,           // 14.5% (was 15%)
-    marketAlignment: 0.05, // 5% (new)
-  };
+  private readonly profile: WeightProfile;
+  private readonly weights: ScoringWeights;
+
+  /**
+   * @throws ValidationError if the profile's weights do not sum to 1.0
+   */
+  constructor(profile: WeightProfile = getWeightProfile(ScoringConfig.DEFAULT_WEIGHT_PROFILE)) {
+    validateWeights(profile.weights, `${profile.name} weights`);
+    this.profile = profile;
+    this.weights = { ...profile.weights };
+  }
+
+  /**
+   * Name of the weight profile this scorer applies
+   */
+  get profileName(): WeightProfileName {
+    return this.profile.name;
+  }
 
   /**
    * Calculate all scores for a stock
@@ -92,50 +145,108 @@ export class StockScorer {
     marketContext?: MarketContext | null,
     stockSector?: string
   ): ScoreResults {
-    // Calculate individual scores with validation
-    const technical = this.validateScore(
-      this.scoreTechnical(data.technical),
-      'technical'
-    );
-    const fundamental = this.validateScore(
-      this.scoreFundamental(data.fundamental),
-      'fundamental'
-    );
-    const macro = this.validateScore(
-      this.scoreMacro(data.macro),
-      'macro'
-    );
-    const risk = this.validateScore(
-      this.scoreRisk(data.technical, data.fundamental),
-      'risk'
-    );
-    const sentiment = this.validateScore(
-      this.scoreSentiment(data.technical),
-      'sentiment'
+    // Calculate individual scores (with attribution) and validate
+    const categories: Record<ScoreCategory, CategoryAttribution> = {
+      technical: this.scoreTechnical(data.technical),
+      fundamental: this.scoreFundamental(data.fundamental),
+      macro: this.scoreMacro(data.macro),
+      risk: this.scoreRisk(data.technical, data.fundamental),
+      sentiment: this.scoreSentiment(data.technical),
+      marketAlignment: this.scoreMarketAlignment(data, marketContext, stockSector),
+    };
+    for (const attribution of Object.values(categories)) {
+      attribution.score = this.validateScore(attribution.score, attribution.category);
+    }
+
+    const scores = {
+      technical: categories.technical.score,
+      fundamental: categories.fundamental.score,
+      macro: categories.macro.score,
+      risk: categories.risk.score,
+      sentiment: categories.sentiment.score,
+      marketAlignment: categories.marketAlignment.score,
+    };
+
+    // Shift the profile weights toward the current regime (blended by confidence)
+    const { weights, adjustment } = adjustWeightsForRegime(
+      this.weights,
+      marketContext?.regime,
+      marketContext?.regimeConfidence
     );
-    const marketAlignment = this.validateScore(
-      this.scoreMarketAlignment(data, marketContext, stockSector),
-      'marketAlignment'
+
+    const { composite, contributions } = this.calculateComposite(scores, weights);
+    const recommendation = this.getRecommendation(composite);
+
+    info('Scores calculated successfully', {
+      ...scores,
+      composite,
+      recommendation,
+      weightProfile: this.profile.name,
+      regimeAdjustment: adjustment,
+    });
+
+    return {
+      ...scores,
+      composite,
+      recommendation,
+      weightProfile: this.profile.name,
+      weights,
+      regimeAdjustment: adjustment,
+      attribution: { categories, contributions },
+    };
+  }
+
+  /**
+   * Re-weight existing category scores with this scorer's profile
+   *
+   * Category scores do not depend on weights, so subscribers with a
+   * different profile can reuse one analysis without re-fetching data.
+   * The original regime tilt is re-applied to this scorer's profile, and
+   * the category attribution is kept with contributions recomputed.
+   */
+  reweight(scores: ScoreResults): ScoreResults {
+    const { weights, adjustment } = adjustWeightsForRegime(
+      this.weights,
+      scores.regimeAdjustment?.regime,
+      scores.regimeAdjustment?.confidence
     );
+    const { composite, contributions } = this.calculateComposite(scores, weights);
 
-    const scores = {
-      technical,
-      fundamental,
-      macro,
-      risk,
-      sentiment,
-      marketAlignment,
+    return {
+      ...scores,
+      composite,
+      recommendation: this.getRecommendation(composite),
+      weightProfile: this.profile.name,
+      weights,
+      regimeAdjustment: adjustment,
+      attribution: scores.attribution && {
+        categories: scores.attribution.categories,
+        contributions,
+      },
     };
+  }
 
-    // Calculate composite score with validation
+  /**
+   * Weighted composite of category scores (1.0-5.0, 2 decimals)
+   *
+   * Also returns each category's contribution. Weights are re-normalized
+   * over the included categories, so contributions sum to the unclamped composite.
+   */
+  private calculateComposite(
+    scores: Record<keyof ScoringWeights, number>,
+    weights: ScoringWeights
+  ): { composite: number; contributions: FactorContribution[] } {
     let composite = 0.0;
     let totalWeight = 0.0;
+    const included: Array<{ category: keyof ScoringWeights; score: number; weight: number }> = [];
 
-    for (const [key, weight] of Object.entries(this.weights)) {
-      const score = scores[key as keyof typeof this.weights];
+    for (const [key, weight] of Object.entries(weights)) {
+      const category = key as keyof ScoringWeights;
+      const score = scores[category];
       if (isValidScore(score)) {
         composite += score * weight;
         totalWeight += weight;
+        included.push({ category, score, weight });
       } else {
         warn(`Invalid ${key} score, excluding from composite`, { score });
       }
@@ -144,10 +255,13 @@ export class StockScorer {
     // Normalize if some scores were excluded
     if (totalWeight < 1.0 && totalWeight > 0) {
       composite = composite / totalWeight;
-      warn('Composite score normalized due to missing component scores', {
-        totalWeight,
-        normalizedComposite: composite,
-      });
+      // Regime-tilted weights are rounded, so a sum just under 1.0 is expected
+      if (totalWeight < 1.0 - ScoringConfig.WEIGHT_SUM_TOLERANCE) {
+        warn('Composite score normalized due to missing component scores', {
+          totalWeight,
+          normalizedComposite: composite,
+        });
+      }
     }
 
     // Validate and clamp composite score
@@ -158,32 +272,21 @@ export class StockScorer {
       composite = 3.0;
     }
 
-    composite = clamp(composite, 1.0, 5.0);
-    composite = Math.round(composite * 100) / 100;
-
-    const recommendation = this.getRecommendation(composite);
-
-    info('Scores calculated successfully', {
-      technical,
-      fundamental,
-      macro,
-      risk,
-      sentiment,
-      marketAlignment,
-      composite,
-      recommendation,
-    });
+    const contributions: FactorContribution[] = totalWeight > 0
+      ? included.map(({ category, score, weight }) => {
+          const effectiveWeight = weight / totalWeight;
+          return {
+            category,
+            score,
+            weight: round(effectiveWeight, 4),
+            contribution: round(score * effectiveWeight, 3),
+            impact: round((score - NEUTRAL_SCORE) * effectiveWeight, 3),
+          };
+        })
+      : [];
 
-    return {
-      technical,
-      fundamental,
-      macro,
-      risk,
-      sentiment,
-      marketAlignment,
-      composite,
-      recommendation,
-    };
+    composite = clamp(composite, 1.0, 5.0);
+    return { composite: Math.round(composite * 100) / 100, contributions };
   }
 
   /**
@@ -207,25 +310,26 @@ export class StockScorer {
 
   /**
    * Technical Score (1.0-5.0)
-   * Evaluates price action, momentum, and volume
+   * Evaluates price action, momentum, volume, and trend strength
    *
    * Uses graceful degradation - returns neutral score if insufficient data
    */
-  scoreTechnical(tech: TechnicalData): number {
-    let points = 0.0;
-    let maxPoints = 0.0;
+  scoreTechnical(tech: TechnicalData): CategoryAttribution {
+    const rules: ScoreRule[] = [];
     const missingIndicators: string[] = [];
 
     // Moving averages: Price position relative to MA50 and MA200
     const { current_price, ma_50, ma_200 } = tech;
     if (isValidNumber(current_price) && isValidNumber(ma_50) && isValidNumber(ma_200)) {
-      maxPoints += 3;
+      const inputs = { current_price, ma_50, ma_200 };
       if (current_price > ma_50 && ma_50 > ma_200) {
-        points += 3; // Golden cross territory
+        rules.push({ factor: 'Moving averages', rule: 'price > MA50 > MA200 (golden cross territory)', points: 3, maxPoints: 3, inputs });
       } else if (current_price > ma_50) {
-        points += 2; // Above 50-day MA
+        rules.push({ factor: 'Moving averages', rule: 'price above 50-day MA', points: 2, maxPoints: 3, inputs });
       } else if (current_price > ma_200) {
-        points += 1; // Above 200-day MA
+        rules.push({ factor: 'Moving averages', rule: 'price above 200-day MA only', points: 1, maxPoints: 3, inputs });
+      } else {
+        rules.push({ factor: 'Moving averages', rule: 'price below both MAs', points: 0, maxPoints: 3, inputs });
       }
     } else {
       missingIndicators.push('moving averages');
@@ -234,19 +338,21 @@ export class StockScorer {
     // RSI: Momentum indicator
     const { rsi } = tech;
     if (isValidNumber(rsi)) {
-      maxPoints += 2;
+      const inputs = { rsi };
       if (
         rsi >= ScoringConfig.RSI_NEUTRAL_MIN &&
         rsi <= ScoringConfig.RSI_NEUTRAL_MAX
       ) {
-        points += 2; // Healthy neutral momentum
+        rules.push({ factor: 'RSI', rule: `${rsi.toFixed(1)} healthy neutral momentum`, points: 2, maxPoints: 2, inputs });
       } else if (
         (rsi >= ScoringConfig.RSI_MODERATE_LOW_MIN &&
           rsi < ScoringConfig.RSI_MODERATE_LOW_MAX) ||
         (rsi > ScoringConfig.RSI_MODERATE_HIGH_MIN &&
           rsi <= ScoringConfig.RSI_MODERATE_HIGH_MAX)
       ) {
-        points += 1; // Moderate oversold/overbought
+        rules.push({ factor: 'RSI', rule: `${rsi.toFixed(1)} moderately oversold/overbought`, points: 1, maxPoints: 2, inputs });
+      } else {
+        rules.push({ factor: 'RSI', rule: `${rsi.toFixed(1)} extreme`, points: 0, maxPoints: 2, inputs });
       }
     } else {
       missingIndicators.push('RSI');
@@ -255,11 +361,13 @@ export class StockScorer {
     // MACD: Trend following indicator
     const { macd, macd_signal } = tech;
     if (isValidNumber(macd) && isValidNumber(macd_signal)) {
-      maxPoints += 2;
+      const inputs = { macd, macd_signal };
       if (macd > macd_signal) {
-        points += 2; // Bullish crossover
+        rules.push({ factor: 'MACD', rule: 'above signal (bullish crossover)', points: 2, maxPoints: 2, inputs });
       } else if (macd > macd_signal * ScoringConfig.MACD_SIGNAL_CONVERGENCE) {
-        points += 1; // Near crossover
+        rules.push({ factor: 'MACD', rule: 'just below signal (near crossover)', points: 1, maxPoints: 2, inputs });
+      } else {
+        rules.push({ factor: 'MACD', rule: 'below signal', points: 0, maxPoints: 2, inputs });
       }
     } else {
       missingIndicators.push('MACD');
@@ -268,9 +376,12 @@ export class StockScorer {
     // Volume: Institutional interest
     const { volume, avg_volume_20d } = tech;
     if (isValidNumber(volume) && isValidNumber(avg_volume_20d) && avg_volume_20d > 0) {
-      maxPoints += 1;
+      const inputs = { volume, avg_volume_20d };
+      const ratio = volume / avg_volume_20d;
       if (volume > avg_volume_20d * ScoringConfig.VOLUME_SPIKE_RATIO) {
-        points += 1; // Volume spike
+        rules.push({ factor: 'Volume', rule: `${ratio.toFixed(2)}x average (spike)`, points: 1, maxPoints: 1, inputs });
+      } else {
+        rules.push({ factor: 'Volume', rule: `${ratio.toFixed(2)}x average (no spike)`, points: 0, maxPoints: 1, inputs });
       }
     } else {
       missingIndicators.push('volume');
@@ -279,34 +390,112 @@ export class StockScorer {
     // Price change: Momentum
     const { price_change_1m } = tech;
     if (isValidNumber(price_change_1m)) {
-      maxPoints += 2;
+      const inputs = { price_change_1m };
+      const change = formatPercentChange(price_change_1m);
       if (price_change_1m > ScoringConfig.PRICE_CHANGE_STRONG) {
-        points += 2; // Strong momentum
+        rules.push({ factor: '1M price change', rule: `${change} (strong momentum)`, points: 2, maxPoints: 2, inputs });
       } else if (price_change_1m > ScoringConfig.PRICE_CHANGE_POSITIVE) {
-        points += 1; // Positive momentum
+        rules.push({ factor: '1M price change', rule: `${change} (positive momentum)`, points: 1, maxPoints: 2, inputs });
+      } else {
+        rules.push({ factor: '1M price change', rule: `${change} (no momentum)`, points: 0, maxPoints: 2, inputs });
       }
     } else {
       missingIndicators.push('price change');
     }
 
-    // Log missing indicators
-    if (missingIndicators.length > 0) {
-      warn('Technical score using partial data', {
-        missingIndicators,
-        availablePoints: maxPoints,
-        totalPossiblePoints: 10,
-      });
+    // ADX: Trend strength, direction from the DMI lines
+    const { adx_14, plus_di, minus_di } = tech;
+    if (isValidNumber(adx_14) && isValidNumber(plus_di) && isValidNumber(minus_di)) {
+      const inputs = { adx_14, plus_di, minus_di };
+      const adx = adx_14.toFixed(1);
+      if (adx_14 >= ScoringConfig.ADX_TRENDING && plus_di > minus_di) {
+        rules.push({ factor: 'ADX', rule: `${adx} strong uptrend (+DI > -DI)`, points: 2, maxPoints: 2, inputs });
+      } else if (adx_14 >= ScoringConfig.ADX_TRENDING) {
+        rules.push({ factor: 'ADX', rule: `${adx} strong downtrend (-DI > +DI)`, points: 0, maxPoints: 2, inputs });
+      } else if (adx_14 >= ScoringConfig.ADX_WEAK && plus_di > minus_di) {
+        rules.push({ factor: 'ADX', rule: `${adx} emerging uptrend`, points: 1, maxPoints: 2, inputs });
+      } else if (adx_14 >= ScoringConfig.ADX_WEAK) {
+        rules.push({ factor: 'ADX', rule: `${adx} emerging downtrend`, points: 0, maxPoints: 2, inputs });
+      } else {
+        rules.push({ factor: 'ADX', rule: `${adx} range-bound (no trend)`, points: 1, maxPoints: 2, inputs });
+      }
+    } else {
+      missingIndicators.push('ADX');
     }
 
-    // Default to neutral if no data
-    if (maxPoints === 0) {
-      warn('No technical data available, using neutral score');
-      return 3.0;
+    // Bollinger %B: Price stretched beyond the bands
+    const { bollinger_percent_b } = tech;
+    if (isValidNumber(bollinger_percent_b)) {
+      const inputs = { bollinger_percent_b };
+      const pctB = bollinger_percent_b.toFixed(2);
+      if (bollinger_percent_b >= 0 && bollinger_percent_b <= 1) {
+        rules.push({ factor: 'Bollinger %B', rule: `${pctB} inside the bands`, points: 1, maxPoints: 1, inputs });
+      } else {
+        rules.push({ factor: 'Bollinger %B', rule: `${pctB} stretched beyond the bands`, points: 0, maxPoints: 1, inputs });
+      }
+    } else {
+      missingIndicators.push('Bollinger Bands');
+    }
+
+    // Stochastic: Short-term momentum turn
+    const { stochastic_k, stochastic_d } = tech;
+    if (isValidNumber(stochastic_k) && isValidNumber(stochastic_d)) {
+      const inputs = { stochastic_k, stochastic_d };
+      const k = stochastic_k.toFixed(0);
+      if (stochastic_k > stochastic_d && stochastic_k < ScoringConfig.STOCHASTIC_OVERBOUGHT) {
+        rules.push({ factor: 'Stochastic', rule: `%K ${k} above %D with room to run`, points: 1, maxPoints: 1, inputs });
+      } else if (stochastic_k > stochastic_d) {
+        rules.push({ factor: 'Stochastic', rule: `%K ${k} above %D but overbought`, points: 0, maxPoints: 1, inputs });
+      } else {
+        rules.push({ factor: 'Stochastic', rule: `%K ${k} below %D`, points: 0, maxPoints: 1, inputs });
+      }
+    } else {
+      missingIndicators.push('stochastic');
     }
 
-    // Scale to 1.0-5.0 range
-    const score = 1.0 + (points / maxPoints) * 4.0;
-    return Math.round(score * 100) / 100;
+    // OBV: Accumulation vs distribution
+    const { obv_trend_20d } = tech;
+    if (isValidNumber(obv_trend_20d)) {
+      const inputs = { obv_trend_20d };
+      const flow = formatPercentChange(obv_trend_20d);
+      if (obv_trend_20d > ScoringConfig.OBV_ACCUMULATION) {
+        rules.push({ factor: 'OBV', rule: `${flow} net flow (accumulation)`, points: 1, maxPoints: 1, inputs });
+      } else {
+        rules.push({ factor: 'OBV', rule: `${flow} net flow (no accumulation)`, points: 0, maxPoints: 1, inputs });
+      }
+    } else {
+      missingIndicators.push('OBV');
+    }
+
+    // VWAP: Price vs volume-weighted average cost of recent buyers
+    const { vwap_20d } = tech;
+    if (isValidNumber(current_price) && isValidNumber(vwap_20d) && vwap_20d > 0) {
+      const inputs = { current_price, vwap_20d };
+      const premium = formatPercentChange(current_price / vwap_20d - 1);
+      if (current_price > vwap_20d) {
+        rules.push({ factor: '20D VWAP', rule: `price ${premium} above VWAP`, points: 1, maxPoints: 1, inputs });
+      } else {
+        rules.push({ factor: '20D VWAP', rule: `price ${premium} vs VWAP (below)`, points: 0, maxPoints: 1, inputs });
+      }
+    } else {
+      missingIndicators.push('VWAP');
+    }
+
+    // 52-week high proximity: Leadership
+    const { distance_from_52w_high } = tech;
+    if (isValidNumber(distance_from_52w_high)) {
+      const inputs = { distance_from_52w_high };
+      const distance = formatPercentChange(distance_from_52w_high);
+      if (distance_from_52w_high >= -ScoringConfig.WEEK_52_HIGH_PROXIMITY) {
+        rules.push({ factor: '52W high', rule: `${distance} from high (near highs)`, points: 1, maxPoints: 1, inputs });
+      } else {
+        rules.push({ factor: '52W high', rule: `${distance} from high`, points: 0, maxPoints: 1, inputs });
+      }
+    } else {
+      missingIndicators.push('52-week range');
+    }
+
+    return this.summarizeCategory('technical', rules, missingIndicators, 17);
   }
 
   /**
@@ -315,21 +504,22 @@ export class StockScorer {
    *
    * Uses graceful degradation - returns neutral score if insufficient data
    */
-  scoreFundamental(fund: FundamentalData): number {
-    let points = 0.0;
-    let maxPoints = 0.0;
+  scoreFundamental(fund: FundamentalData): CategoryAttribution {
+    const rules: ScoreRule[] = [];
     const missingMetrics: string[] = [];
 
     // Market cap: Company size and stability
     const { market_cap } = fund;
     if (isValidNumber(market_cap)) {
-      maxPoints += 3;
+      const inputs = { market_cap };
       if (market_cap > ScoringConfig.MARKET_CAP_MEGA) {
-        points += 3; // Mega cap
+        rules.push({ factor: 'Market cap', rule: 'mega cap', points: 3, maxPoints: 3, inputs });
       } else if (market_cap > ScoringConfig.MARKET_CAP_LARGE) {
-        points += 2; // Large cap
+        rules.push({ factor: 'Market cap', rule: 'large cap', points: 2, maxPoints: 3, inputs });
       } else if (market_cap > ScoringConfig.MARKET_CAP_MID) {
-        points += 1; // Mid cap
+        rules.push({ factor: 'Market cap', rule: 'mid cap', points: 1, maxPoints: 3, inputs });
+      } else {
+        rules.push({ factor: 'Market cap', rule: 'small cap', points: 0, maxPoints: 3, inputs });
       }
     } else {
       missingMetrics.push('market cap');
@@ -338,19 +528,21 @@ export class StockScorer {
     // P/E ratio: Valuation
     const { pe_ratio } = fund;
     if (isValidNumber(pe_ratio) && pe_ratio > 0) {
-      maxPoints += 2;
+      const inputs = { pe_ratio };
       if (
         pe_ratio >= ScoringConfig.PE_RATIO_OPTIMAL_MIN &&
         pe_ratio <= ScoringConfig.PE_RATIO_OPTIMAL_MAX
       ) {
-        points += 2; // Optimal valuation
+        rules.push({ factor: 'P/E', rule: `${pe_ratio.toFixed(1)} optimal valuation`, points: 2, maxPoints: 2, inputs });
       } else if (
         (pe_ratio >= ScoringConfig.PE_RATIO_ACCEPTABLE_MIN &&
           pe_ratio < ScoringConfig.PE_RATIO_OPTIMAL_MIN) ||
         (pe_ratio > ScoringConfig.PE_RATIO_OPTIMAL_MAX &&
           pe_ratio <= ScoringConfig.PE_RATIO_ACCEPTABLE_MAX)
       ) {
-        points += 1; // Acceptable valuation
+        rules.push({ factor: 'P/E', rule: `${pe_ratio.toFixed(1)} acceptable valuation`, points: 1, maxPoints: 2, inputs });
+      } else {
+        rules.push({ factor: 'P/E', rule: `${pe_ratio.toFixed(1)} outside acceptable range`, points: 0, maxPoints: 2, inputs });
       }
     } else {
       missingMetrics.push('P/E ratio');
@@ -359,11 +551,13 @@ export class StockScorer {
     // Debt-to-equity: Financial health
     const { debt_to_equity } = fund;
     if (isValidNumber(debt_to_equity) && debt_to_equity >= 0) {
-      maxPoints += 2;
+      const inputs = { debt_to_equity };
       if (debt_to_equity < ScoringConfig.DEBT_TO_EQUITY_IDEAL) {
-        points += 2; // Excellent balance sheet
+        rules.push({ factor: 'Debt/Equity', rule: `${debt_to_equity.toFixed(2)} excellent balance sheet`, points: 2, maxPoints: 2, inputs });
       } else if (debt_to_equity < ScoringConfig.DEBT_TO_EQUITY_ACCEPTABLE) {
-        points += 1; // Acceptable leverage
+        rules.push({ factor: 'Debt/Equity', rule: `${debt_to_equity.toFixed(2)} acceptable leverage`, points: 1, maxPoints: 2, inputs });
+      } else {
+        rules.push({ factor: 'Debt/Equity', rule: `${debt_to_equity.toFixed(2)} high leverage`, points: 0, maxPoints: 2, inputs });
       }
     } else {
       missingMetrics.push('debt to equity');
@@ -372,9 +566,11 @@ export class StockScorer {
     // Revenue: Scale and market presence
     const { revenue_ttm } = fund;
     if (isValidNumber(revenue_ttm) && revenue_ttm > 0) {
-      maxPoints += 1;
+      const inputs = { revenue_ttm };
       if (revenue_ttm > ScoringConfig.REVENUE_SIGNIFICANT) {
-        points += 1; // Significant enterprise
+        rules.push({ factor: 'Revenue', rule: 'significant enterprise', points: 1, maxPoints: 1, inputs });
+      } else {
+        rules.push({ factor: 'Revenue', rule: 'below significance threshold', points: 0, maxPoints: 1, inputs });
       }
     } else {
       missingMetrics.push('revenue');
@@ -383,32 +579,19 @@ export class StockScorer {
     // EPS: Profitability
     const { eps } = fund;
     if (isValidNumber(eps)) {
-      maxPoints += 2;
+      const inputs = { eps };
       if (eps > ScoringConfig.EPS_STRONG) {
-        points += 2; // Strong profitability
+        rules.push({ factor: 'EPS', rule: `$${eps.toFixed(2)} strong profitability`, points: 2, maxPoints: 2, inputs });
       } else if (eps > ScoringConfig.EPS_POSITIVE) {
-        points += 1; // Profitable
+        rules.push({ factor: 'EPS', rule: `$${eps.toFixed(2)} profitable`, points: 1, maxPoints: 2, inputs });
+      } else {
+        rules.push({ factor: 'EPS', rule: `$${eps.toFixed(2)} unprofitable`, points: 0, maxPoints: 2, inputs });
       }
     } else {
       missingMetrics.push('EPS');
     }
 
-    // Log missing metrics
-    if (missingMetrics.length > 0) {
-      warn('Fundamental score using partial data', {
-        missingMetrics,
-        availablePoints: maxPoints,
-        totalPossiblePoints: 10,
-      });
-    }
-
-    if (maxPoints === 0) {
-      warn('No fundamental data available, using neutral score');
-      return 3.0;
-    }
-
-    const score = 1.0 + (points / maxPoints) * 4.0;
-    return Math.round(score * 100) / 100;
+    return this.summarizeCategory('fundamental', rules, missingMetrics, 10);
   }
 
   /**
@@ -417,21 +600,22 @@ export class StockScorer {
    *
    * Uses graceful degradation - macro data often unavailable
    */
-  scoreMacro(macro: MacroData): number {
-    let points = 0.0;
-    let maxPoints = 0.0;
+  scoreMacro(macro: MacroData): CategoryAttribution {
+    const rules: ScoreRule[] = [];
     const missingIndicators: string[] = [];
 
     // Fed funds rate: Monetary policy stance
     const { fed_funds_rate } = macro;
     if (isValidNumber(fed_funds_rate) && fed_funds_rate >= 0) {
-      maxPoints += 3;
+      const inputs = { fed_funds_rate };
       if (fed_funds_rate < ScoringConfig.FED_FUNDS_LOW) {
-        points += 3; // Accommodative policy
+        rules.push({ factor: 'Fed funds', rule: `${fed_funds_rate.toFixed(2)}% accommodative`, points: 3, maxPoints: 3, inputs });
       } else if (fed_funds_rate < ScoringConfig.FED_FUNDS_MODERATE) {
-        points += 2; // Neutral policy
+        rules.push({ factor: 'Fed funds', rule: `${fed_funds_rate.toFixed(2)}% neutral`, points: 2, maxPoints: 3, inputs });
       } else if (fed_funds_rate < ScoringConfig.FED_FUNDS_HIGH) {
-        points += 1; // Restrictive but manageable
+        rules.push({ factor: 'Fed funds', rule: `${fed_funds_rate.toFixed(2)}% restrictive but manageable`, points: 1, maxPoints: 3, inputs });
+      } else {
+        rules.push({ factor: 'Fed funds', rule: `${fed_funds_rate.toFixed(2)}% highly restrictive`, points: 0, maxPoints: 3, inputs });
       }
     } else {
       missingIndicators.push('Fed funds rate');
@@ -440,11 +624,13 @@ export class StockScorer {
     // Unemployment: Labor market health
     const { unemployment } = macro;
     if (isValidNumber(unemployment) && unemployment >= 0) {
-      maxPoints += 2;
+      const inputs = { unemployment };
       if (unemployment < ScoringConfig.UNEMPLOYMENT_HEALTHY) {
-        points += 2; // Strong labor market
+        rules.push({ factor: 'Unemployment', rule: `${unemployment.toFixed(1)}% strong labor market`, points: 2, maxPoints: 2, inputs });
       } else if (unemployment < ScoringConfig.UNEMPLOYMENT_ACCEPTABLE) {
-        points += 1; // Acceptable conditions
+        rules.push({ factor: 'Unemployment', rule: `${unemployment.toFixed(1)}% acceptable`, points: 1, maxPoints: 2, inputs });
+      } else {
+        rules.push({ factor: 'Unemployment', rule: `${unemployment.toFixed(1)}% weak labor market`, points: 0, maxPoints: 2, inputs });
       }
     } else {
       missingIndicators.push('unemployment');
@@ -453,32 +639,19 @@ export class StockScorer {
     // Consumer sentiment: Economic confidence
     const { consumer_sentiment } = macro;
     if (isValidNumber(consumer_sentiment)) {
-      maxPoints += 2;
+      const inputs = { consumer_sentiment };
       if (consumer_sentiment > ScoringConfig.CONSUMER_SENTIMENT_STRONG) {
-        points += 2; // Strong confidence
+        rules.push({ factor: 'Consumer sentiment', rule: `${consumer_sentiment.toFixed(1)} strong confidence`, points: 2, maxPoints: 2, inputs });
       } else if (consumer_sentiment > ScoringConfig.CONSUMER_SENTIMENT_MODERATE) {
-        points += 1; // Moderate confidence
+        rules.push({ factor: 'Consumer sentiment', rule: `${consumer_sentiment.toFixed(1)} moderate confidence`, points: 1, maxPoints: 2, inputs });
+      } else {
+        rules.push({ factor: 'Consumer sentiment', rule: `${consumer_sentiment.toFixed(1)} weak confidence`, points: 0, maxPoints: 2, inputs });
       }
     } else {
       missingIndicators.push('consumer sentiment');
     }
 
-    // Log missing indicators
-    if (missingIndicators.length > 0) {
-      warn('Macro score using partial data', {
-        missingIndicators,
-        availablePoints: maxPoints,
-        totalPossiblePoints: 7,
-      });
-    }
-
-    if (maxPoints === 0) {
-      warn('No macro data available, using neutral score');
-      return 3.0;
-    }
-
-    const score = 1.0 + (points / maxPoints) * 4.0;
-    return Math.round(score * 100) / 100;
+    return this.summarizeCategory('macro', rules, missingIndicators, 7);
   }
 
   /**
@@ -487,21 +660,23 @@ export class StockScorer {
    *
    * Higher score = lower risk
    */
-  scoreRisk(tech: TechnicalData, fund: FundamentalData): number {
-    let points = 0.0;
-    let maxPoints = 0.0;
+  scoreRisk(tech: TechnicalData, fund: FundamentalData): CategoryAttribution {
+    const rules: ScoreRule[] = [];
     const missingMetrics: string[] = [];
 
     // Volatility: Price stability
     const { volatility_30d } = tech;
     if (isValidNumber(volatility_30d) && volatility_30d >= 0) {
-      maxPoints += 3;
+      const inputs = { volatility_30d };
+      const vol = `${(volatility_30d * 100).toFixed(1)}%`;
       if (volatility_30d < ScoringConfig.VOLATILITY_LOW) {
-        points += 3; // Low volatility
+        rules.push({ factor: '30D volatility', rule: `${vol} low`, points: 3, maxPoints: 3, inputs });
       } else if (volatility_30d < ScoringConfig.VOLATILITY_MODERATE) {
-        points += 2; // Moderate volatility
+        rules.push({ factor: '30D volatility', rule: `${vol} moderate`, points: 2, maxPoints: 3, inputs });
       } else if (volatility_30d < ScoringConfig.VOLATILITY_HIGH) {
-        points += 1; // High but not extreme
+        rules.push({ factor: '30D volatility', rule: `${vol} high but not extreme`, points: 1, maxPoints: 3, inputs });
+      } else {
+        rules.push({ factor: '30D volatility', rule: `${vol} extreme`, points: 0, maxPoints: 3, inputs });
       }
     } else {
       missingMetrics.push('volatility');
@@ -510,11 +685,13 @@ export class StockScorer {
     // Market cap: Size-based risk
     const { market_cap } = fund;
     if (isValidNumber(market_cap)) {
-      maxPoints += 2;
+      const inputs = { market_cap };
       if (market_cap > ScoringConfig.MARKET_CAP_RISK_SAFE) {
-        points += 2; // Too-big-to-fail
+        rules.push({ factor: 'Market cap', rule: 'too big to fail', points: 2, maxPoints: 2, inputs });
       } else if (market_cap > ScoringConfig.MARKET_CAP_LARGE) {
-        points += 1; // Large cap stability
+        rules.push({ factor: 'Market cap', rule: 'large cap stability', points: 1, maxPoints: 2, inputs });
+      } else {
+        rules.push({ factor: 'Market cap', rule: 'small/mid cap risk', points: 0, maxPoints: 2, inputs });
       }
     } else {
       missingMetrics.push('market cap');
@@ -523,32 +700,19 @@ export class StockScorer {
     // Beta: Market correlation
     const { beta } = fund;
     if (isValidNumber(beta)) {
-      maxPoints += 2;
+      const inputs = { beta };
       if (beta < ScoringConfig.BETA_LOW) {
-        points += 2; // Defensive
+        rules.push({ factor: 'Beta', rule: `${beta.toFixed(2)} defensive`, points: 2, maxPoints: 2, inputs });
       } else if (beta < ScoringConfig.BETA_MODERATE) {
-        points += 1; // Moderate correlation
+        rules.push({ factor: 'Beta', rule: `${beta.toFixed(2)} moderate correlation`, points: 1, maxPoints: 2, inputs });
+      } else {
+        rules.push({ factor: 'Beta', rule: `${beta.toFixed(2)} high beta`, points: 0, maxPoints: 2, inputs });
       }
     } else {
       missingMetrics.push('beta');
     }
 
-    // Log missing metrics
-    if (missingMetrics.length > 0) {
-      warn('Risk score using partial data', {
-        missingMetrics,
-        availablePoints: maxPoints,
-        totalPossiblePoints: 7,
-      });
-    }
-
-    if (maxPoints === 0) {
-      warn('No risk data available, using neutral score');
-      return 3.0;
-    }
-
-    const score = 1.0 + (points / maxPoints) * 4.0;
-    return Math.round(score * 100) / 100;
+    return this.summarizeCategory('risk', rules, missingMetrics, 7);
   }
 
   /**
@@ -557,27 +721,28 @@ export class StockScorer {
    *
    * Uses graceful degradation - sentiment indicators often optional
    */
-  scoreSentiment(tech: TechnicalData): number {
-    let points = 0.0;
-    let maxPoints = 0.0;
+  scoreSentiment(tech: TechnicalData): CategoryAttribution {
+    const rules: ScoreRule[] = [];
     const missingIndicators: string[] = [];
 
     // RSI: Market sentiment
     const { rsi } = tech;
     if (isValidNumber(rsi)) {
-      maxPoints += 2;
+      const inputs = { rsi };
       if (
         rsi >= ScoringConfig.RSI_SENTIMENT_NEUTRAL_MIN &&
         rsi <= ScoringConfig.RSI_SENTIMENT_NEUTRAL_MAX
       ) {
-        points += 2; // Balanced sentiment
+        rules.push({ factor: 'RSI', rule: `${rsi.toFixed(1)} balanced sentiment`, points: 2, maxPoints: 2, inputs });
       } else if (
         (rsi >= ScoringConfig.RSI_SENTIMENT_MODERATE_LOW_MIN &&
           rsi < ScoringConfig.RSI_SENTIMENT_MODERATE_LOW_MAX) ||
         (rsi > ScoringConfig.RSI_SENTIMENT_MODERATE_HIGH_MIN &&
           rsi <= ScoringConfig.RSI_SENTIMENT_MODERATE_HIGH_MAX)
       ) {
-        points += 1; // Moderate sentiment
+        rules.push({ factor: 'RSI', rule: `${rsi.toFixed(1)} moderate sentiment`, points: 1, maxPoints: 2, inputs });
+      } else {
+        rules.push({ factor: 'RSI', rule: `${rsi.toFixed(1)} stretched sentiment`, points: 0, maxPoints: 2, inputs });
       }
     } else {
       missingIndicators.push('RSI');
@@ -586,9 +751,11 @@ export class StockScorer {
     // Volume: Interest level
     const { volume, avg_volume_20d } = tech;
     if (isValidNumber(volume) && isValidNumber(avg_volume_20d) && avg_volume_20d > 0) {
-      maxPoints += 1;
+      const inputs = { volume, avg_volume_20d };
       if (volume > avg_volume_20d * ScoringConfig.VOLUME_POSITIVE_RATIO) {
-        points += 1; // Increased interest
+        rules.push({ factor: 'Volume', rule: 'above average (increased interest)', points: 1, maxPoints: 1, inputs });
+      } else {
+        rules.push({ factor: 'Volume', rule: 'at or below average', points: 0, maxPoints: 1, inputs });
       }
     } else {
       missingIndicators.push('volume comparison');
@@ -597,32 +764,20 @@ export class StockScorer {
     // Price change: Momentum sentiment
     const { price_change_1m } = tech;
     if (isValidNumber(price_change_1m)) {
-      maxPoints += 2;
+      const inputs = { price_change_1m };
+      const change = formatPercentChange(price_change_1m);
       if (price_change_1m > ScoringConfig.PRICE_CHANGE_STRONG_1M_SENTIMENT) {
-        points += 2; // Positive sentiment
+        rules.push({ factor: '1M price change', rule: `${change} positive sentiment`, points: 2, maxPoints: 2, inputs });
       } else if (price_change_1m > ScoringConfig.PRICE_CHANGE_POSITIVE) {
-        points += 1; // Mild positive sentiment
+        rules.push({ factor: '1M price change', rule: `${change} mild positive sentiment`, points: 1, maxPoints: 2, inputs });
+      } else {
+        rules.push({ factor: '1M price change', rule: `${change} negative sentiment`, points: 0, maxPoints: 2, inputs });
       }
     } else {
       missingIndicators.push('price change 1M');
     }
 
-    // Log missing indicators
-    if (missingIndicators.length > 0) {
-      warn('Sentiment score using partial data', {
-        missingIndicators,
-        availablePoints: maxPoints,
-        totalPossiblePoints: 5,
-      });
-    }
-
-    if (maxPoints === 0) {
-      warn('No sentiment data available, using neutral score');
-      return 3.0;
-    }
-
-    const score = 1.0 + (points / maxPoints) * 4.0;
-    return Math.round(score * 100) / 100;
+    return this.summarizeCategory('sentiment', rules, missingIndicators, 5);
   }
 
   /**
@@ -635,82 +790,187 @@ export class StockScorer {
    * - Risk-On + High beta + Growth sector = Higher score
    * - Risk-Off + Low beta + Defensive sector = Higher score
    * - Misalignment (e.g., Risk-Off + High beta growth) = Lower score
+   *
+   * Unlike the other categories this is additive: each rule's points are a
+   * signed adjustment to a 2.5 starting score.
    */
   scoreMarketAlignment(
     data: AnalysisData,
     marketContext?: MarketContext | null,
     stockSector?: string
-  ): number {
+  ): CategoryAttribution {
     // If no market context available, return neutral score
     if (!marketContext) {
-      return 3.0;
-    }
-
-    let score = 2.5; // Start neutral
+      return {
+        category: 'marketAlignment',
+        score: 3.0,
+        points: 0,
+        maxPoints: 0,
+        rules: [],
+        missingInputs: ['market context'],
+        neutralFallback: true,
+      };
+    }
+
+    const rules: ScoreRule[] = [];
+    const missingInputs: string[] = [];
     const { fundamental } = data;
     const beta = fundamental.beta;
+    const regime = marketContext.regime;
 
     // Factor 1: Regime alignment based on beta (40% of score, ±0.8 points)
     if (isValidNumber(beta)) {
-      if (marketContext.regime === 'Risk-On') {
+      const inputs = { beta, regime };
+      let adjustment = 0;
+      let rule = `${regime}: beta ${beta.toFixed(2)} neutral`;
+
+      if (regime === 'Risk-On') {
         // High beta benefits in Risk-On
         if (beta > 1.3) {
-          score += 0.8;
+          adjustment = 0.8;
+          rule = `Risk-On favors high beta ${beta.toFixed(2)}`;
         } else if (beta > 1.0) {
-          score += 0.4;
+          adjustment = 0.4;
+          rule = `Risk-On favors above-market beta ${beta.toFixed(2)}`;
         } else if (beta < 0.8) {
-          score -= 0.4; // Low beta underperforms in Risk-On
+          adjustment = -0.4; // Low beta underperforms in Risk-On
+          rule = `Risk-On penalizes low beta ${beta.toFixed(2)}`;
         }
-      } else if (marketContext.regime === 'Risk-Off') {
+      } else if (regime === 'Risk-Off') {
         // Low beta benefits in Risk-Off
         if (beta < 0.7) {
-          score += 0.8;
+          adjustment = 0.8;
+          rule = `Risk-Off favors low beta ${beta.toFixed(2)}`;
         } else if (beta < 1.0) {
-          score += 0.4;
+          adjustment = 0.4;
+          rule = `Risk-Off favors below-market beta ${beta.toFixed(2)}`;
         } else if (beta > 1.3) {
-          score -= 0.8; // High beta amplifies downside in Risk-Off
+          adjustment = -0.8; // High beta amplifies downside in Risk-Off
+          rule = `Risk-Off penalizes high beta ${beta.toFixed(2)}`;
         } else if (beta > 1.0) {
-          score -= 0.4;
+          adjustment = -0.4;
+          rule = `Risk-Off penalizes above-market beta ${beta.toFixed(2)}`;
         }
       }
       // Transition regime: neutral, no adjustment
+
+      rules.push({ factor: 'Regime fit', rule, points: adjustment, maxPoints: 0.8, inputs });
+    } else {
+      missingInputs.push('beta');
     }
 
     // Factor 2: Sector rotation alignment (40% of score, ±0.8 points)
-    if (stockSector && marketContext.allSectors && marketContext.allSectors.length > 0) {
-      const sectorInfo = getSectorDataForStock(marketContext, stockSector);
-
-      if (sectorInfo) {
-        const { rank } = sectorInfo;
-
-        // Top 3 sectors get bonus
-        if (rank <= 3) {
-          score += 0.8;
-        } else if (rank <= 5) {
-          score += 0.4;
-        } else if (rank >= 10) {
-          score -= 0.8; // Bottom 2 sectors get penalty
-        } else if (rank >= 8) {
-          score -= 0.4;
-        }
+    const sectorInfo = stockSector && marketContext.allSectors && marketContext.allSectors.length > 0
+      ? getSectorDataForStock(marketContext, stockSector)
+      : null;
+
+    if (stockSector && sectorInfo) {
+      const { rank } = sectorInfo;
+      const inputs = { sector: stockSector, rank };
+      let adjustment = 0;
+      let rule = `${stockSector} ranked #${rank} (mid-pack)`;
+
+      // Top 3 sectors get bonus
+      if (rank <= 3) {
+        adjustment = 0.8;
+        rule = `${stockSector} ranked #${rank} (sector leader)`;
+      } else if (rank <= 5) {
+        adjustment = 0.4;
+        rule = `${stockSector} ranked #${rank} (top half)`;
+      } else if (rank >= 10) {
+        adjustment = -0.8; // Bottom 2 sectors get penalty
+        rule = `${stockSector} ranked #${rank} (sector laggard)`;
+      } else if (rank >= 8) {
+        adjustment = -0.4;
+        rule = `${stockSector} ranked #${rank} (bottom half)`;
       }
+
+      rules.push({ factor: 'Sector rotation', rule, points: adjustment, maxPoints: 0.8, inputs });
+    } else {
+      missingInputs.push('sector ranking');
     }
 
     // Factor 3: VIX consideration (20% of score, ±0.4 points)
     const vix = marketContext.vix;
     if (isValidNumber(vix) && isValidNumber(beta)) {
+      const inputs = { vix, beta };
+      let adjustment = 0;
+      let rule = `VIX ${vix.toFixed(1)} no volatility edge`;
+
       if (vix > 30 && beta < 0.8) {
-        score += 0.4; // Defensive stocks do well in high volatility
+        adjustment = 0.4; // Defensive stocks do well in high volatility
+        rule = `VIX ${vix.toFixed(1)} favors defensive beta`;
       } else if (vix < 15 && beta > 1.2) {
-        score += 0.4; // Growth stocks do well in low volatility
+        adjustment = 0.4; // Growth stocks do well in low volatility
+        rule = `VIX ${vix.toFixed(1)} favors high beta`;
       } else if (vix > 30 && beta > 1.3) {
-        score -= 0.4; // High beta + high VIX = risky
+        adjustment = -0.4; // High beta + high VIX = risky
+        rule = `VIX ${vix.toFixed(1)} penalizes high beta`;
       }
+
+      rules.push({ factor: 'Volatility', rule, points: adjustment, maxPoints: 0.4, inputs });
+    } else {
+      missingInputs.push('VIX');
     }
 
+    const points = round(rules.reduce((sum, r) => sum + r.points, 0), 2);
+    const maxPoints = round(rules.reduce((sum, r) => sum + r.maxPoints, 0), 2);
+
     // Clamp to valid range
-    score = clamp(score, 1.0, 5.0);
-    return Math.round(score * 100) / 100;
+    const score = clamp(2.5 + points, 1.0, 5.0);
+
+    return {
+      category: 'marketAlignment',
+      score: Math.round(score * 100) / 100,
+      points,
+      maxPoints,
+      rules,
+      missingInputs,
+      neutralFallback: false,
+    };
+  }
+
+  /**
+   * Scale a points-based category to 1.0-5.0 and package its attribution
+   *
+   * Logs partial data and falls back to neutral (3.0) when no input was available.
+   */
+  private summarizeCategory(
+    category: ScoreCategory,
+    rules: ScoreRule[],
+    missingInputs: string[],
+    totalPossiblePoints: number
+  ): CategoryAttribution {
+    const label = CATEGORY_LABELS[category];
+    const points = rules.reduce((sum, r) => sum + r.points, 0);
+    const maxPoints = rules.reduce((sum, r) => sum + r.maxPoints, 0);
+
+    // Log missing inputs
+    if (missingInputs.length > 0) {
+      warn(`${label} score using partial data`, {
+        missingInputs,
+        availablePoints: maxPoints,
+        totalPossiblePoints,
+      });
+    }
+
+    // Default to neutral if no data
+    if (maxPoints === 0) {
+      warn(`No ${label.toLowerCase()} data available, using neutral score`);
+      return { category, score: 3.0, points, maxPoints, rules, missingInputs, neutralFallback: true };
+    }
+
+    // Scale to 1.0-5.0 range
+    const score = 1.0 + (points / maxPoints) * 4.0;
+    return {
+      category,
+      score: Math.round(score * 100) / 100,
+      points,
+      maxPoints,
+      rules,
+      missingInputs,
+      neutralFallback: false,
+    };
   }
 
   /**
@@ -729,7 +989,9 @@ export class StockScorer {
 
 /**
  * Create stock scorer instance
+ *
+ * @param profile Weight profile (defaults to ScoringConfig.DEFAULT_WEIGHT_PROFILE)
  */
-export function createStockScorer(): StockScorer {
-  return new StockScorer();
+export function createStockScorer(profile?: WeightProfile): StockScorer {
+  return new StockScorer(profile);
 }
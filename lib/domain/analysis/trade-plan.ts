@@ -0,0 +1,57 @@
+/**
+ * Trade Plan - Structured Analysis Output
+ *
+ * The markdown narrative is for people; the trade plan is the same call
+ * in machine-readable form (entry zone, targets, stop, horizon, thesis),
+ * extracted from the narrative by a second, schema-validated LLM call and
+ * stored as properties on Stock Analyses and Stock History.
+ */
+
+import { z } from 'zod';
+
+export const TIME_HORIZONS = ['Days', 'Weeks', 'Months', 'Long Term'] as const;
+export const CONVICTION_LEVELS = ['High', 'Medium', 'Low'] as const;
+
+const price = z.number().finite().positive();
+const bulletList = z.array(z.string().trim().min(1).max(200)).min(1).max(5);
+
+export const TradePlanSchema = z
+  .object({
+    entryLow: price.describe('Bottom of the entry zone (USD)'),
+    entryHigh: price.describe('Top of the entry zone (USD)'),
+    targets: z.array(price).min(1).max(3).describe('Profit targets, nearest first (USD)'),
+    stopLoss: price.describe('Stop-loss level (USD)'),
+    timeHorizon: z.enum(TIME_HORIZONS),
+    thesis: z.string().trim().min(10).max(500).describe('The stated thesis in 1-2 sentences'),
+    keyRisks: bulletList,
+    catalysts: bulletList,
+    conviction: z.enum(CONVICTION_LEVELS),
+  })
+  .refine((plan) => plan.entryLow <= plan.entryHigh, {
+    message: 'entryLow must be less than or equal to entryHigh',
+    path: ['entryLow'],
+  });
+
+export type TradePlan = z.infer<typeof TradePlanSchema>;
+
+/**
+ * Field list for prompts, kept next to the schema so they can't drift
+ */
+export const TRADE_PLAN_FIELDS: Array<[keyof TradePlan, string]> = [
+  ['entryLow', 'number - bottom of the entry zone in USD'],
+  ['entryHigh', 'number - top of the entry zone in USD (>= entryLow)'],
+  ['targets', 'array of 1-3 numbers - profit targets in USD, nearest first'],
+  ['stopLoss', 'number - stop-loss level in USD'],
+  ['timeHorizon', `one of ${TIME_HORIZONS.map((h) => `"${h}"`).join(', ')}`],
+  ['thesis', 'string - the thesis in 1-2 sentences'],
+  ['keyRisks', 'array of 1-5 short strings'],
+  ['catalysts', 'array of 1-5 short strings'],
+  ['conviction', `one of ${CONVICTION_LEVELS.map((c) => `"${c}"`).join(', ')}`],
+];
+
+/**
+ * Targets as a display string, e.g. "$185.00 / $195.00"
+ */
+export function formatTargets(targets: number[]): string {
+  return targets.map((target) => `$${target.toFixed(2)}`).join(' / ');
+}
@@ -0,0 +1,168 @@
+/**
+ * Scoring Weight Profiles
+ *
+ * Resolves which named weight profile applies to an analysis and validates
+ * weight vectors before StockScorer uses them.
+ *
+ * Resolution order: stock (Stock Analyses "Scoring Profile") → user
+ * (Beta Users "Scoring Profile") → ScoringConfig.DEFAULT_WEIGHT_PROFILE.
+ *
+ * The resolved profile is then tilted toward the current market regime
+ * (ScoringConfig.REGIME_WEIGHT_TILTS), scaled by regime confidence.
+ */
+
+import {
+  ScoringConfig,
+  ScoringWeights,
+  WeightProfile,
+  WeightProfileName,
+} from '../../../config/scoring/config';
+import { ValidationError } from '../../core/errors';
+import { isValidNumber } from '../../core/validators';
+import { round } from '../../core/utils';
+import { warn } from '../../core/logger';
+import type { MarketRegime } from '../market/types';
+
+/**
+ * Regime tilt applied on top of a profile's weights
+ */
+export interface RegimeWeightAdjustment {
+  regime: MarketRegime;
+  confidence: number; // 0.0-1.0, the share of the configured tilt applied
+}
+
+const WEIGHT_KEYS: Array<keyof ScoringWeights> = [
+  'technical',
+  'fundamental',
+  'macro',
+  'risk',
+  'marketAlignment',
+];
+
+/**
+ * Validate a weight vector
+ *
+ * @throws ValidationError if a weight is missing, negative, or the sum is not 1.0
+ */
+export function validateWeights(weights: ScoringWeights, label: string = 'weights'): void {
+  for (const key of WEIGHT_KEYS) {
+    const value = weights[key];
+    if (!isValidNumber(value)) {
+      throw new ValidationError(label, `${key} weight is missing or not a number`);
+    }
+    if (value < 0) {
+      throw new ValidationError(label, `${key} weight cannot be negative (${value})`);
+    }
+  }
+
+  const sum = WEIGHT_KEYS.reduce((total, key) => total + weights[key], 0);
+  if (Math.abs(sum - 1) > ScoringConfig.WEIGHT_SUM_TOLERANCE) {
+    throw new ValidationError(label, `weights must sum to 1.0 (got ${sum.toFixed(4)})`);
+  }
+}
+
+/**
+ * Check whether a string names a configured profile (case-sensitive, as stored in Notion)
+ */
+export function isWeightProfileName(name: unknown): name is WeightProfileName {
+  return typeof name === 'string' && name in ScoringConfig.WEIGHT_PROFILES;
+}
+
+/**
+ * Get a configured profile by name
+ *
+ * @throws ValidationError if the profile does not exist
+ */
+export function getWeightProfile(name: WeightProfileName): WeightProfile {
+  const profile = ScoringConfig.WEIGHT_PROFILES[name];
+  if (!profile) {
+    throw new ValidationError('scoring profile', `unknown profile "${name}"`);
+  }
+  return profile;
+}
+
+/**
+ * Resolve the profile for an analysis
+ *
+ * Blank values fall through to the next level. Unknown names (e.g. a select
+ * option added in Notion but not in ScoringConfig) are logged and skipped
+ * rather than failing the analysis.
+ */
+export function resolveWeightProfile(
+  stockProfile?: string | null,
+  userProfile?: string | null
+): WeightProfile {
+  for (const [source, candidate] of [['stock', stockProfile], ['user', userProfile]] as const) {
+    if (!candidate) continue;
+    if (isWeightProfileName(candidate)) {
+      return getWeightProfile(candidate);
+    }
+    warn('Unknown scoring profile, ignoring', { source, profile: candidate });
+  }
+
+  return getWeightProfile(ScoringConfig.DEFAULT_WEIGHT_PROFILE);
+}
+
+/**
+ * Tilt profile weights toward the current market regime
+ *
+ * applied = normalize(max(0, base + confidence × tilt)). Returns the base
+ * weights unchanged (adjustment null) when regime weighting is disabled,
+ * there is no regime, or confidence is below REGIME_MIN_CONFIDENCE.
+ */
+export function adjustWeightsForRegime(
+  base: ScoringWeights,
+  regime?: MarketRegime | null,
+  confidence?: number | null
+): { weights: ScoringWeights; adjustment: RegimeWeightAdjustment | null } {
+  if (
+    !ScoringConfig.REGIME_ADAPTIVE_WEIGHTS ||
+    !regime ||
+    !isValidNumber(confidence) ||
+    confidence < ScoringConfig.REGIME_MIN_CONFIDENCE
+  ) {
+    return { weights: { ...base }, adjustment: null };
+  }
+
+  const scale = Math.min(confidence, 1);
+  const tilt = ScoringConfig.REGIME_WEIGHT_TILTS[regime] || {};
+
+  const tilted = { ...base };
+  for (const key of WEIGHT_KEYS) {
+    tilted[key] = Math.max(0, base[key] + scale * (tilt[key] || 0));
+  }
+
+  const total = WEIGHT_KEYS.reduce((sum, key) => sum + tilted[key], 0);
+  if (total <= 0) {
+    warn('Regime tilt removed all weight, keeping profile weights', { regime, confidence });
+    return { weights: { ...base }, adjustment: null };
+  }
+
+  for (const key of WEIGHT_KEYS) {
+    tilted[key] = round(tilted[key] / total, 4);
+  }
+
+  return { weights: tilted, adjustment: { regime, confidence: round(scale, 2) } };
+}
+
+/**
+ * Compact weight summary for Notion / logs
+ * e.g. "Tech 28.5% · Fund 33% · Macro 19% · Risk 14.5% · Mkt 5% (Risk-Off tilt, 80%)"
+ */
+export function formatWeights(
+  weights: ScoringWeights,
+  adjustment?: RegimeWeightAdjustment | null
+): string {
+  const pct = (value: number) => `${Math.round(value * 1000) / 10}%`;
+  const summary = [
+    `Tech ${pct(weights.technical)}`,
+    `Fund ${pct(weights.fundamental)}`,
+    `Macro ${pct(weights.macro)}`,
+    `Risk ${pct(weights.risk)}`,
+    `Mkt ${pct(weights.marketAlignment)}`,
+  ].join(' · ');
+
+  return adjustment
+    ? `${summary} (${adjustment.regime} tilt, ${Math.round(adjustment.confidence * 100)}%)`
+    : summary;
+}
@@ -0,0 +1,295 @@
+/**
+ * Backtest Engine
+ *
+ * Walks a ticker universe day by day over a recorded fixture, scores each
+ * day with StockScorer, and measures how composite scores and recommendation
+ * buckets lined up with forward returns.
+ *
+ * Market alignment is scored without market context (neutral 3.0) because
+ * historical regimes are not reconstructed; it carries 5% of the composite.
+ * For the same reason the regime weight tilt is never applied.
+ *
+ * Pure and synchronous - no network access, safe to run repeatedly while
+ * tuning ScoringConfig thresholds.
+ */
+
+import { ScoringConfig } from '../../../config/scoring/config';
+import { createStockScorer } from '../analysis/scoring';
+import { getWeightProfile } from '../analysis/weight-profiles';
+import { round } from '../../core/utils';
+import { ValidationError } from '../../core/errors';
+import { buildIndicatorSeries, reconstructAnalysisData } from './reconstruct';
+import {
+  BacktestFixture,
+  BacktestObservation,
+  BacktestOptions,
+  BacktestReport,
+  BucketReport,
+  InformationCoefficient,
+  ReturnStats,
+} from './types';
+
+/** Default forward horizons in trading days (1 week, 1 month, 1 quarter) */
+export const DEFAULT_HORIZONS = [5, 20, 60];
+
+/** Bars needed before the first scored day so MA200 is always populated */
+const WARMUP_BARS = 200;
+
+/** Minimum tickers on a date for a cross-sectional IC to be meaningful */
+const MIN_CROSS_SECTION = 3;
+
+/** Recommendation buckets, best to worst (matches StockScorer.getRecommendation) */
+const RECOMMENDATION_ORDER = [
+  'Strong Buy',
+  'Buy',
+  'Moderate Buy',
+  'Hold',
+  'Moderate Sell',
+  'Sell',
+  'Strong Sell',
+];
+
+const BULLISH = new Set(['Strong Buy', 'Buy', 'Moderate Buy']);
+const BEARISH = new Set(['Moderate Sell', 'Sell', 'Strong Sell']);
+
+/**
+ * Run a backtest over a recorded fixture
+ *
+ * @throws ValidationError if the options select no tickers or horizons, or an unknown profile
+ */
+export function runBacktest(
+  fixture: BacktestFixture,
+  options: BacktestOptions = {}
+): BacktestReport {
+  const from = options.from || fixture.from;
+  const to = options.to || fixture.to;
+  const horizons = options.horizons && options.horizons.length > 0
+    ? [...options.horizons].sort((a, b) => a - b)
+    : DEFAULT_HORIZONS;
+  const stepDays = Math.max(1, Math.floor(options.stepDays || 1));
+  const profile = options.profile || ScoringConfig.DEFAULT_WEIGHT_PROFILE;
+  const tickers = (options.tickers || Object.keys(fixture.tickers))
+    .map((t) => t.toUpperCase())
+    .filter((t) => fixture.tickers[t]);
+
+  if (tickers.length === 0) {
+    throw new ValidationError('tickers', 'none of the requested tickers are in the fixture');
+  }
+  if (horizons.some((h) => !Number.isInteger(h) || h <= 0)) {
+    throw new ValidationError('horizons', 'must be positive whole numbers of trading days');
+  }
+
+  const scorer = createStockScorer(getWeightProfile(profile));
+  const benchmarkCloses = fixture.benchmark
+    ? new Map(fixture.benchmark.prices.map((bar) => [bar.date, bar.close]))
+    : null;
+
+  const observations: BacktestObservation[] = [];
+
+  for (const symbol of tickers) {
+    const ticker = fixture.tickers[symbol];
+    const prices = ticker.prices;
+    const indicators = buildIndicatorSeries(prices);
+    let stepCounter = 0;
+
+    for (let i = WARMUP_BARS - 1; i < prices.length; i++) {
+      const date = prices[i].date;
+      if (date < from) continue;
+      if (date > to) break;
+      if (stepCounter++ % stepDays !== 0) continue;
+
+      const data = reconstructAnalysisData(ticker, indicators, i, fixture.macro, benchmarkCloses);
+      const scores = scorer.calculateScores(data, null, ticker.sector || undefined);
+
+      const forwardReturns: Record<number, number | null> = {};
+      for (const horizon of horizons) {
+        const future = prices[i + horizon];
+        forwardReturns[horizon] =
+          future && prices[i].close > 0 ? future.close / prices[i].close - 1 : null;
+      }
+
+      observations.push({
+        ticker: symbol,
+        date,
+        price: prices[i].close,
+        data,
+        scores,
+        forwardReturns,
+      });
+    }
+  }
+
+  // Per-recommendation buckets
+  const buckets: BucketReport[] = [];
+  for (const recommendation of RECOMMENDATION_ORDER) {
+    const group = observations.filter((o) => o.scores.recommendation === recommendation);
+    if (group.length === 0) continue;
+
+    const horizonStats: Record<number, ReturnStats> = {};
+    for (const horizon of horizons) {
+      horizonStats[horizon] = summarizeReturns(group, horizon);
+    }
+
+    buckets.push({
+      recommendation,
+      observations: group.length,
+      averageComposite: round(mean(group.map((o) => o.scores.composite)) ?? 0, 2),
+      horizons: horizonStats,
+    });
+  }
+
+  // Directional hit rate and information coefficient per horizon
+  const directional = observations.filter(
+    (o) => BULLISH.has(o.scores.recommendation) || BEARISH.has(o.scores.recommendation)
+  );
+  const hitRate: Record<number, ReturnStats> = {};
+  const informationCoefficient: Record<number, InformationCoefficient> = {};
+
+  for (const horizon of horizons) {
+    hitRate[horizon] = summarizeReturns(directional, horizon);
+    informationCoefficient[horizon] = calculateIC(observations, horizon);
+  }
+
+  return {
+    from,
+    to,
+    profile,
+    tickers,
+    horizons,
+    totalObservations: observations.length,
+    buckets,
+    hitRate,
+    informationCoefficient,
+    observations,
+  };
+}
+
+/**
+ * Return statistics for a group of observations at one horizon
+ *
+ * A hit is an up move for bullish calls and a down move for bearish calls;
+ * Hold observations never count toward the hit rate.
+ */
+function summarizeReturns(group: BacktestObservation[], horizon: number): ReturnStats {
+  const returns: number[] = [];
+  let hits = 0;
+  let directionalCount = 0;
+
+  for (const obs of group) {
+    const forward = obs.forwardReturns[horizon];
+    if (forward === null || forward === undefined) continue;
+    returns.push(forward);
+
+    if (BULLISH.has(obs.scores.recommendation)) {
+      directionalCount++;
+      if (forward > 0) hits++;
+    } else if (BEARISH.has(obs.scores.recommendation)) {
+      directionalCount++;
+      if (forward < 0) hits++;
+    }
+  }
+
+  const meanReturn = mean(returns);
+  const medianReturn = median(returns);
+
+  return {
+    count: returns.length,
+    meanReturn: meanReturn === null ? null : round(meanReturn, 4),
+    medianReturn: medianReturn === null ? null : round(medianReturn, 4),
+    hitRate: directionalCount > 0 ? round(hits / directionalCount, 4) : null,
+  };
+}
+
+/**
+ * Spearman rank IC between composite score and forward return
+ */
+function calculateIC(observations: BacktestObservation[], horizon: number): InformationCoefficient {
+  const withReturn = observations.filter(
+    (o) => o.forwardReturns[horizon] !== null && o.forwardReturns[horizon] !== undefined
+  );
+
+  const pooled = spearman(
+    withReturn.map((o) => o.scores.composite),
+    withReturn.map((o) => o.forwardReturns[horizon] as number)
+  );
+
+  const byDate = new Map<string, BacktestObservation[]>();
+  for (const obs of withReturn) {
+    const group = byDate.get(obs.date) || [];
+    group.push(obs);
+    byDate.set(obs.date, group);
+  }
+
+  const dailyICs: number[] = [];
+  for (const group of byDate.values()) {
+    if (group.length < MIN_CROSS_SECTION) continue;
+    const ic = spearman(
+      group.map((o) => o.scores.composite),
+      group.map((o) => o.forwardReturns[horizon] as number)
+    );
+    if (ic !== null) dailyICs.push(ic);
+  }
+
+  const crossSectional = mean(dailyICs);
+
+  return {
+    pooled: pooled === null ? null : round(pooled, 4),
+    crossSectional: crossSectional === null ? null : round(crossSectional, 4),
+    crossSectionalDates: dailyICs.length,
+  };
+}
+
+function mean(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, val) => sum + val, 0) / values.length;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Fractional ranks (ties share the average rank)
+ */
+function rank(values: number[]): number[] {
+  const indexed = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+
+  let i = 0;
+  while (i < indexed.length) {
+    let j = i;
+    while (j + 1 < indexed.length && indexed[j + 1].value === indexed[i].value) j++;
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[indexed[k].index] = averageRank;
+    i = j + 1;
+  }
+
+  return ranks;
+}
+
+/**
+ * Spearman rank correlation (null when undefined, e.g. constant inputs)
+ */
+function spearman(x: number[], y: number[]): number | null {
+  if (x.length < 2 || x.length !== y.length) return null;
+
+  const rx = rank(x);
+  const ry = rank(y);
+  const mx = mean(rx) as number;
+  const my = mean(ry) as number;
+
+  let covariance = 0;
+  let varX = 0;
+  let varY = 0;
+  for (let i = 0; i < rx.length; i++) {
+    covariance += (rx[i] - mx) * (ry[i] - my);
+    varX += Math.pow(rx[i] - mx, 2);
+    varY += Math.pow(ry[i] - my, 2);
+  }
+
+  if (varX === 0 || varY === 0) return null;
+  return covariance / Math.sqrt(varX * varY);
+}
@@ -0,0 +1,208 @@
+/**
+ * Backtest Fixture Recording
+ *
+ * Records everything a backtest needs (prices, annual filings, profile data,
+ * benchmark prices, FRED series) into a single JSON file so that backtests
+ * can be re-run offline without spending FMP/FRED quota.
+ *
+ * Recording is the only step that touches the network.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { FMPClient } from '../../integrations/fmp/client';
+import { FREDClient } from '../../integrations/fred/client';
+import { ValidationError } from '../../core/errors';
+import { sleep } from '../../core/utils';
+import { info, warn } from '../../core/logger';
+import { BACKTEST_MACRO_SERIES, addDays } from './reconstruct';
+import { BacktestFixture, MacroObservation, PriceBar, TickerFixture } from './types';
+
+/** Calendar days of history before `from` (covers 200 trading-day warmup + beta lookback) */
+const WARMUP_CALENDAR_DAYS = 400;
+
+/** Calendar days after `to` (covers the 60 trading-day forward horizon) */
+const FORWARD_CALENDAR_DAYS = 100;
+
+/** Extra macro history so monthly series have a published value on day one */
+const MACRO_BUFFER_DAYS = 120;
+
+export interface RecordFixtureOptions {
+  benchmark?: string | null; // Benchmark for rolling beta (default: SPY, null to skip)
+  delayMs?: number;          // Pause between tickers to respect FMP rate limits
+}
+
+/**
+ * Record a backtest fixture from live FMP + FRED data
+ *
+ * Tickers that fail to record are skipped with a warning.
+ *
+ * @throws ValidationError if the date range is invalid or no ticker could be recorded
+ */
+export async function recordBacktestFixture(
+  fmpClient: FMPClient,
+  fredClient: FREDClient,
+  tickers: string[],
+  from: string,
+  to: string,
+  options: RecordFixtureOptions = {}
+): Promise<BacktestFixture> {
+  const { benchmark = 'SPY', delayMs = 1000 } = options;
+
+  if (from > to) {
+    throw new ValidationError('date range', `from (${from}) is after to (${to})`);
+  }
+
+  const today = new Date().toISOString().split('T')[0];
+  const priceStart = addDays(from, -WARMUP_CALENDAR_DAYS);
+  const forwardEnd = addDays(to, FORWARD_CALENDAR_DAYS);
+  const priceEnd = forwardEnd < today ? forwardEnd : today;
+  const years = Math.ceil((Date.parse(today) - Date.parse(priceStart)) / (365 * 86400000)) + 1;
+
+  const recorded: Record<string, TickerFixture> = {};
+
+  for (const rawTicker of tickers) {
+    const symbol = rawTicker.toUpperCase().trim();
+
+    try {
+      const [historical, profile, incomeStatements, balanceSheets] = await Promise.all([
+        fmpClient.getHistoricalPrices(symbol, priceStart, priceEnd),
+        fmpClient.getCompanyProfile(symbol),
+        fmpClient.getIncomeStatement(symbol, 'annual', years),
+        fmpClient.getBalanceSheet(symbol, 'annual', years),
+      ]);
+
+      if (historical.length === 0) {
+        warn('Backtest recording: no price history, skipping ticker', { symbol });
+        continue;
+      }
+
+      recorded[symbol] = {
+        symbol,
+        sector: profile.sector || null,
+        beta: profile.beta ?? null,
+        marketCap: profile.marketCap ?? null,
+        prices: toPriceBars(historical),
+        incomeStatements: incomeStatements.map((s) => ({
+          date: s.date,
+          fillingDate: s.fillingDate,
+          revenue: s.revenue,
+          eps: s.eps,
+        })),
+        balanceSheets: balanceSheets.map((s) => ({
+          date: s.date,
+          fillingDate: s.fillingDate,
+          totalDebt: s.totalDebt,
+          totalEquity: s.totalEquity,
+        })),
+      };
+
+      info('Backtest recording: ticker recorded', {
+        symbol,
+        bars: recorded[symbol].prices.length,
+        filings: incomeStatements.length,
+      });
+    } catch (error) {
+      warn('Backtest recording: failed to record ticker, skipping', {
+        symbol,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    await sleep(delayMs);
+  }
+
+  if (Object.keys(recorded).length === 0) {
+    throw new ValidationError('tickers', 'no ticker could be recorded');
+  }
+
+  let benchmarkFixture: BacktestFixture['benchmark'] = null;
+  if (benchmark) {
+    try {
+      const historical = await fmpClient.getHistoricalPrices(benchmark, priceStart, priceEnd);
+      benchmarkFixture = { symbol: benchmark, prices: toPriceBars(historical) };
+    } catch (error) {
+      warn('Backtest recording: benchmark unavailable, falling back to profile beta', {
+        benchmark,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // FRED returns the most recent N observations, so size the limit from today
+  const macroStart = addDays(priceStart, -MACRO_BUFFER_DAYS);
+  const macroLimit = Math.ceil((Date.parse(today) - Date.parse(macroStart)) / 86400000) + 1;
+  const macro: Record<string, MacroObservation[]> = {};
+
+  const macroResults = await Promise.allSettled(
+    BACKTEST_MACRO_SERIES.map((seriesId) => fredClient.getHistoricalData(seriesId, macroLimit))
+  );
+
+  macroResults.forEach((result, i) => {
+    const seriesId = BACKTEST_MACRO_SERIES[i];
+    if (result.status === 'fulfilled') {
+      macro[seriesId] = result.value
+        .filter((obs) => obs.date >= macroStart)
+        .sort((a, b) => a.date.localeCompare(b.date));
+    } else {
+      warn('Backtest recording: FRED series unavailable', {
+        seriesId,
+        error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+      });
+    }
+  });
+
+  return {
+    version: 1,
+    recordedAt: new Date().toISOString(),
+    from,
+    to,
+    tickers: recorded,
+    benchmark: benchmarkFixture,
+    macro,
+  };
+}
+
+/**
+ * FMP historical prices (newest first) -> ascending price bars
+ */
+function toPriceBars(
+  historical: Array<{ date: string; open: number; high: number; low: number; close: number; volume: number }>
+): PriceBar[] {
+  return historical
+    .map((p) => ({
+      date: p.date,
+      open: p.open,
+      high: p.high,
+      low: p.low,
+      close: p.close,
+      volume: p.volume,
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Write a fixture to disk (creates parent directories)
+ */
+export function saveBacktestFixture(fixture: BacktestFixture, filePath: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(fixture));
+}
+
+/**
+ * Read a fixture from disk
+ *
+ * @throws ValidationError if the file is not a supported fixture
+ */
+export function loadBacktestFixture(filePath: string): BacktestFixture {
+  const fixture = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as BacktestFixture;
+
+  if (fixture.version !== 1) {
+    throw new ValidationError('fixture', `unsupported version ${fixture.version} in ${filePath}`);
+  }
+  if (!fixture.tickers || Object.keys(fixture.tickers).length === 0) {
+    throw new ValidationError('fixture', `no tickers in ${filePath}`);
+  }
+
+  return fixture;
+}
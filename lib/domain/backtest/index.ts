@@ -0,0 +1,41 @@
+/**
+ * Backtest Module - Public API
+ *
+ * Replays StockScorer over recorded historical data to measure
+ * whether composite scores predicted forward returns.
+ */
+
+// Main entry point
+export { runBacktest, DEFAULT_HORIZONS } from './engine';
+
+// Fixture recording / loading
+export {
+  recordBacktestFixture,
+  saveBacktestFixture,
+  loadBacktestFixture,
+} from './fixtures';
+export type { RecordFixtureOptions } from './fixtures';
+
+// Point-in-time reconstruction (for advanced use cases)
+export {
+  reconstructAnalysisData,
+  buildIndicatorSeries,
+  buildTechnicalData,
+  buildFundamentalData,
+  buildMacroData,
+  BACKTEST_MACRO_SERIES,
+} from './reconstruct';
+
+// Types
+export type {
+  PriceBar,
+  TickerFixture,
+  MacroObservation,
+  BacktestFixture,
+  BacktestOptions,
+  BacktestObservation,
+  ReturnStats,
+  BucketReport,
+  InformationCoefficient,
+  BacktestReport,
+} from './types';
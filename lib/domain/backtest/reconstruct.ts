@@ -0,0 +1,359 @@
+/**
+ * Point-in-Time Data Reconstruction
+ *
+ * Rebuilds the TechnicalData / FundamentalData / MacroData inputs that
+ * StockScorer would have seen on a given historical trading day, using only
+ * information that was public on that day:
+ *
+ * - Technical: indicators computed from bars up to and including the day
+ * - Fundamental: latest annual filing whose filing date has passed
+ * - Macro: latest FRED observation, shifted by its publication lag
+ *
+ * Field mappings intentionally mirror lib/domain/stock/analyzer.ts so that a
+ * backtest scores exactly what production scores.
+ */
+
+import { AnalysisData, FundamentalData, MacroData, TechnicalData } from '../analysis/scoring';
+import {
+  adxSeries,
+  atrSeries,
+  bollingerSeries,
+  dailyReturnVolatility,
+  emaSeries,
+  macdSeries,
+  obvTrend,
+  rsiSeries,
+  smaSeries,
+  stochasticSeries,
+  vwapSeries,
+  weekRange52,
+} from '../analysis/indicators';
+import { FRED_SERIES } from '../../integrations/fred/client';
+import {
+  BalanceSheetSnapshot,
+  IncomeStatementSnapshot,
+  MacroObservation,
+  PriceBar,
+  TickerFixture,
+} from './types';
+
+/**
+ * FRED series recorded for backtests
+ */
+export const BACKTEST_MACRO_SERIES = [
+  FRED_SERIES.FED_FUNDS_RATE,
+  FRED_SERIES.UNEMPLOYMENT,
+  FRED_SERIES.CONSUMER_SENTIMENT,
+  FRED_SERIES.TREASURY_10Y,
+  FRED_SERIES.TREASURY_2Y,
+  FRED_SERIES.VIX,
+] as const;
+
+/**
+ * Calendar days between a FRED observation date and its public release.
+ * Monthly series are stamped with the first of the month they describe.
+ */
+const MACRO_PUBLICATION_LAG_DAYS: Record<string, number> = {
+  [FRED_SERIES.FED_FUNDS_RATE]: 1,
+  [FRED_SERIES.UNEMPLOYMENT]: 35,       // Jobs report: first Friday of the following month
+  [FRED_SERIES.CONSUMER_SENTIMENT]: 30, // Final UMich reading: end of the survey month
+  [FRED_SERIES.TREASURY_10Y]: 1,
+  [FRED_SERIES.TREASURY_2Y]: 1,
+  [FRED_SERIES.VIX]: 1,
+};
+
+/** Assumed 10-K lag when FMP omits fillingDate (SEC deadline is 60-90 days) */
+const DEFAULT_FILING_LAG_DAYS = 75;
+
+/** Trading days of returns used for rolling beta (~1 year) */
+const BETA_LOOKBACK_DAYS = 252;
+
+/** Minimum overlapping returns before rolling beta is trusted */
+const BETA_MIN_OBSERVATIONS = 120;
+
+/**
+ * Indicator series aligned index-for-index with a ticker's price bars
+ */
+export interface IndicatorSeries {
+  sma50: Array<number | undefined>;
+  sma200: Array<number | undefined>;
+  rsi14: Array<number | undefined>;
+  ema12: Array<number | undefined>;
+  ema26: Array<number | undefined>;
+  macd: Array<number | undefined>;
+  macdSignal: Array<number | undefined>;
+  macdHistogram: Array<number | undefined>;
+  bollingerUpper: Array<number | undefined>;
+  bollingerLower: Array<number | undefined>;
+  bollingerPercentB: Array<number | undefined>;
+  atr14: Array<number | undefined>;
+  adx14: Array<number | undefined>;
+  plusDI: Array<number | undefined>;
+  minusDI: Array<number | undefined>;
+  stochasticK: Array<number | undefined>;
+  stochasticD: Array<number | undefined>;
+  vwap20d: Array<number | undefined>;
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of calendar days
+ */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+/**
+ * Precompute indicator series for a ticker (one pass instead of per day)
+ */
+export function buildIndicatorSeries(prices: PriceBar[]): IndicatorSeries {
+  const closes = prices.map((bar) => bar.close);
+  const macd = macdSeries(closes);
+  const bollinger = bollingerSeries(closes);
+  const adx = adxSeries(prices);
+  const stochastic = stochasticSeries(prices);
+
+  return {
+    sma50: smaSeries(closes, 50),
+    sma200: smaSeries(closes, 200),
+    rsi14: rsiSeries(closes, 14),
+    ema12: emaSeries(closes, 12),
+    ema26: emaSeries(closes, 26),
+    macd: macd.macd,
+    macdSignal: macd.signal,
+    macdHistogram: macd.histogram,
+    bollingerUpper: bollinger.upper,
+    bollingerLower: bollinger.lower,
+    bollingerPercentB: bollinger.percentB,
+    atr14: atrSeries(prices),
+    adx14: adx.adx,
+    plusDI: adx.plusDI,
+    minusDI: adx.minusDI,
+    stochasticK: stochastic.k,
+    stochasticD: stochastic.d,
+    vwap20d: vwapSeries(prices),
+  };
+}
+
+/**
+ * Technical inputs as of bar `index`
+ */
+export function buildTechnicalData(
+  prices: PriceBar[],
+  indicators: IndicatorSeries,
+  index: number
+): TechnicalData {
+  const bar = prices[index];
+
+  let price_change_1d: number | undefined;
+  if (index >= 1 && prices[index - 1].close > 0) {
+    price_change_1d = (bar.close - prices[index - 1].close) / prices[index - 1].close;
+  }
+
+  // 1-month change uses the 30th bar back, matching analyzer.ts (historical[29])
+  let price_change_1m: number | undefined;
+  const monthAgo = prices[Math.max(0, index - 29)];
+  if (index >= 1 && monthAgo.close > 0) {
+    price_change_1m = (bar.close - monthAgo.close) / monthAgo.close;
+  }
+
+  // 30-day volatility: population std dev of daily returns, same as production
+  const volatility_30d = dailyReturnVolatility(prices.map((p) => p.close), index);
+
+  // Average volume over the 20 sessions before today
+  let avg_volume_20d: number | undefined;
+  if (index >= 20) {
+    const window = prices.slice(index - 20, index);
+    avg_volume_20d = window.reduce((sum, b) => sum + b.volume, 0) / window.length;
+  }
+
+  const range = weekRange52(prices, bar.close, index);
+
+  return {
+    current_price: bar.close,
+    ma_50: indicators.sma50[index],
+    ma_200: indicators.sma200[index],
+    rsi: indicators.rsi14[index],
+    macd: indicators.macd[index],
+    macd_signal: indicators.macdSignal[index],
+    macd_histogram: indicators.macdHistogram[index],
+    bollinger_upper: indicators.bollingerUpper[index],
+    bollinger_lower: indicators.bollingerLower[index],
+    bollinger_percent_b: indicators.bollingerPercentB[index],
+    atr_14: indicators.atr14[index],
+    adx_14: indicators.adx14[index],
+    plus_di: indicators.plusDI[index],
+    minus_di: indicators.minusDI[index],
+    obv_trend_20d: obvTrend(prices, 20, index),
+    stochastic_k: indicators.stochasticK[index],
+    stochastic_d: indicators.stochasticD[index],
+    vwap_20d: indicators.vwap20d[index],
+    distance_from_52w_high: range?.distanceFromHigh,
+    distance_from_52w_low: range?.distanceFromLow,
+    volume: bar.volume,
+    avg_volume_20d,
+    price_change_1d,
+    price_change_1m,
+    volatility_30d,
+  };
+}
+
+/**
+ * Latest filing that was public on `date`
+ */
+function latestFiling<T extends IncomeStatementSnapshot | BalanceSheetSnapshot>(
+  filings: T[],
+  date: string
+): T | undefined {
+  let latest: T | undefined;
+
+  for (const filing of filings) {
+    const publicOn = filing.fillingDate?.split(' ')[0] || addDays(filing.date, DEFAULT_FILING_LAG_DAYS);
+    if (publicOn <= date && (!latest || filing.date > latest.date)) {
+      latest = filing;
+    }
+  }
+
+  return latest;
+}
+
+/**
+ * Rolling beta vs benchmark over the trailing year of daily returns
+ */
+function rollingBeta(
+  prices: PriceBar[],
+  index: number,
+  benchmarkCloses: Map<string, number>
+): number | undefined {
+  const stockReturns: number[] = [];
+  const marketReturns: number[] = [];
+
+  for (let i = index; i > Math.max(0, index - BETA_LOOKBACK_DAYS); i--) {
+    const marketToday = benchmarkCloses.get(prices[i].date);
+    const marketPrev = benchmarkCloses.get(prices[i - 1].date);
+    if (!marketToday || !marketPrev || prices[i - 1].close <= 0) continue;
+
+    stockReturns.push(prices[i].close / prices[i - 1].close - 1);
+    marketReturns.push(marketToday / marketPrev - 1);
+  }
+
+  if (stockReturns.length < BETA_MIN_OBSERVATIONS) {
+    return undefined;
+  }
+
+  const n = stockReturns.length;
+  const meanStock = stockReturns.reduce((sum, val) => sum + val, 0) / n;
+  const meanMarket = marketReturns.reduce((sum, val) => sum + val, 0) / n;
+
+  let covariance = 0;
+  let marketVariance = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (stockReturns[i] - meanStock) * (marketReturns[i] - meanMarket);
+    marketVariance += Math.pow(marketReturns[i] - meanMarket, 2);
+  }
+
+  return marketVariance > 0 ? covariance / marketVariance : undefined;
+}
+
+/**
+ * Fundamental inputs as of bar `index`
+ *
+ * Market cap assumes a constant share count (scaled from the recorded cap by
+ * price), and P/E is recomputed from the day's close and the latest public EPS.
+ */
+export function buildFundamentalData(
+  ticker: TickerFixture,
+  index: number,
+  benchmarkCloses: Map<string, number> | null
+): FundamentalData {
+  const bar = ticker.prices[index];
+  const lastClose = ticker.prices[ticker.prices.length - 1].close;
+  const income = latestFiling(ticker.incomeStatements, bar.date);
+  const balance = latestFiling(ticker.balanceSheets, bar.date);
+
+  const eps = income?.eps;
+  const pe_ratio = eps && eps > 0 ? bar.close / eps : undefined;
+  const debt_to_equity =
+    balance && balance.totalEquity > 0 ? balance.totalDebt / balance.totalEquity : undefined;
+  const market_cap =
+    ticker.marketCap && lastClose > 0 ? ticker.marketCap * (bar.close / lastClose) : undefined;
+
+  const beta =
+    (benchmarkCloses && rollingBeta(ticker.prices, index, benchmarkCloses)) ??
+    ticker.beta ??
+    undefined;
+
+  return {
+    market_cap,
+    pe_ratio,
+    debt_to_equity,
+    revenue_ttm: income?.revenue,
+    eps,
+    beta,
+  };
+}
+
+/**
+ * Latest published value of a FRED series as of `date`
+ */
+function macroValueAsOf(
+  observations: MacroObservation[] | undefined,
+  seriesId: string,
+  date: string
+): number | undefined {
+  if (!observations) return undefined;
+
+  const lag = MACRO_PUBLICATION_LAG_DAYS[seriesId] ?? 1;
+  let latest: MacroObservation | undefined;
+
+  for (const obs of observations) {
+    if (obs.value === null) continue;
+    if (addDays(obs.date, lag) <= date && (!latest || obs.date > latest.date)) {
+      latest = obs;
+    }
+  }
+
+  return latest?.value ?? undefined;
+}
+
+/**
+ * Macro inputs as of `date`
+ */
+export function buildMacroData(
+  macro: Record<string, MacroObservation[]>,
+  date: string
+): MacroData {
+  const treasury10y = macroValueAsOf(macro[FRED_SERIES.TREASURY_10Y], FRED_SERIES.TREASURY_10Y, date);
+  const treasury2y = macroValueAsOf(macro[FRED_SERIES.TREASURY_2Y], FRED_SERIES.TREASURY_2Y, date);
+
+  return {
+    fed_funds_rate: macroValueAsOf(macro[FRED_SERIES.FED_FUNDS_RATE], FRED_SERIES.FED_FUNDS_RATE, date),
+    unemployment: macroValueAsOf(macro[FRED_SERIES.UNEMPLOYMENT], FRED_SERIES.UNEMPLOYMENT, date),
+    consumer_sentiment: macroValueAsOf(
+      macro[FRED_SERIES.CONSUMER_SENTIMENT],
+      FRED_SERIES.CONSUMER_SENTIMENT,
+      date
+    ),
+    yield_curve_spread:
+      treasury10y !== undefined && treasury2y !== undefined ? treasury10y - treasury2y : undefined,
+    vix: macroValueAsOf(macro[FRED_SERIES.VIX], FRED_SERIES.VIX, date),
+  };
+}
+
+/**
+ * Full scorer input for one ticker on one day
+ */
+export function reconstructAnalysisData(
+  ticker: TickerFixture,
+  indicators: IndicatorSeries,
+  index: number,
+  macro: Record<string, MacroObservation[]>,
+  benchmarkCloses: Map<string, number> | null
+): AnalysisData {
+  return {
+    technical: buildTechnicalData(ticker.prices, indicators, index),
+    fundamental: buildFundamentalData(ticker, index, benchmarkCloses),
+    macro: buildMacroData(macro, ticker.prices[index].date),
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Backtest Types
+ *
+ * Shared types for replaying StockScorer over recorded historical data
+ * and measuring how well composite scores predicted forward returns.
+ */
+
+import { AnalysisData, ScoreResults } from '../analysis/scoring';
+import type { WeightProfileName } from '../../../config/scoring/config';
+
+/**
+ * Daily OHLCV bar (ascending date order inside fixtures)
+ */
+export interface PriceBar {
+  date: string; // YYYY-MM-DD
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * Annual income statement snapshot (subset of FMP /income-statement)
+ */
+export interface IncomeStatementSnapshot {
+  date: string;         // Fiscal period end
+  fillingDate?: string; // Date the filing became public (FMP spelling)
+  revenue: number;
+  eps: number;
+}
+
+/**
+ * Annual balance sheet snapshot (subset of FMP /balance-sheet-statement)
+ */
+export interface BalanceSheetSnapshot {
+  date: string;
+  fillingDate?: string;
+  totalDebt: number;
+  totalEquity: number;
+}
+
+/**
+ * Recorded data for a single ticker
+ */
+export interface TickerFixture {
+  symbol: string;
+  sector: string | null;
+  beta: number | null;      // Profile beta at record time (fallback when no benchmark)
+  marketCap: number | null; // Profile market cap at record time
+  prices: PriceBar[];
+  incomeStatements: IncomeStatementSnapshot[];
+  balanceSheets: BalanceSheetSnapshot[];
+}
+
+/**
+ * FRED observation as returned by FREDClient.getHistoricalData
+ */
+export interface MacroObservation {
+  date: string;
+  value: number | null;
+}
+
+/**
+ * Complete recorded dataset for an offline backtest run
+ */
+export interface BacktestFixture {
+  version: 1;
+  recordedAt: string;        // ISO timestamp
+  from: string;              // First date eligible for scoring
+  to: string;                // Last date eligible for scoring
+  tickers: Record<string, TickerFixture>;
+  benchmark: { symbol: string; prices: PriceBar[] } | null;
+  macro: Record<string, MacroObservation[]>; // Keyed by FRED series ID
+}
+
+/**
+ * Options for a backtest run
+ */
+export interface BacktestOptions {
+  from?: string;        // Defaults to fixture.from
+  to?: string;          // Defaults to fixture.to
+  tickers?: string[];   // Defaults to every ticker in the fixture
+  horizons?: number[];  // Forward horizons in trading days (default: 5, 20, 60)
+  stepDays?: number;    // Score every Nth trading day (default: 1)
+  profile?: WeightProfileName; // Composite weight profile (default: ScoringConfig.DEFAULT_WEIGHT_PROFILE)
+}
+
+/**
+ * One scored day for one ticker
+ */
+export interface BacktestObservation {
+  ticker: string;
+  date: string;
+  price: number;
+  data: AnalysisData;
+  scores: ScoreResults;
+  forwardReturns: Record<number, number | null>; // Keyed by horizon (trading days)
+}
+
+/**
+ * Forward return statistics for a group of observations at one horizon
+ */
+export interface ReturnStats {
+  count: number;
+  meanReturn: number | null;
+  medianReturn: number | null;
+  hitRate: number | null; // Share of observations where price moved in the predicted direction
+}
+
+/**
+ * Per-recommendation bucket results
+ */
+export interface BucketReport {
+  recommendation: string;
+  observations: number;
+  averageComposite: number;
+  horizons: Record<number, ReturnStats>;
+}
+
+/**
+ * Rank correlation between composite score and forward return
+ */
+export interface InformationCoefficient {
+  pooled: number | null;          // Spearman IC across every observation
+  crossSectional: number | null;  // Mean of per-date Spearman ICs (needs 3+ tickers per date)
+  crossSectionalDates: number;    // Dates that contributed to the cross-sectional mean
+}
+
+/**
+ * Complete backtest output
+ */
+export interface BacktestReport {
+  from: string;
+  to: string;
+  profile: WeightProfileName;
+  tickers: string[];
+  horizons: number[];
+  totalObservations: number;
+  buckets: BucketReport[];
+  hitRate: Record<number, ReturnStats>;                // Directional recommendations only (Hold excluded)
+  informationCoefficient: Record<number, InformationCoefficient>;
+  observations: BacktestObservation[];
+}
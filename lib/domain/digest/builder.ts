@@ -0,0 +1,218 @@
+/**
+ * Daily Digest Builder
+ *
+ * Compiles one user's digest from their own Notion databases:
+ * - Stock History: today's row per ticker vs. the ticker's previous row
+ * - Stock Events: events in the next 7 days
+ * - Market regime: the market context the scheduled run used
+ */
+
+import { Client } from '@notionhq/client';
+import { warn } from '../../core/logger';
+import { DailyDigest, DigestEvent, DigestMarket, DigestRecipient, DigestRun, DigestStock } from './types';
+
+/** How far back to look for each ticker's previous analysis */
+const HISTORY_LOOKBACK_DAYS = 14;
+/** Upper bound on Stock History pages read per digest */
+const MAX_HISTORY_PAGES = 5;
+const EVENT_WINDOW_DAYS = 7;
+const MAX_EVENTS = 15;
+const MAX_MOVERS = 5;
+
+interface HistoryRow {
+  ticker: string;
+  date: string;                     // YYYY-MM-DD (UTC)
+  composite: number;
+  recommendation: string;
+  companyName?: string;
+  price?: number;
+  priceChange1d?: number;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+async function getDataSourceId(notion: Client, databaseId: string): Promise<string> {
+  const db = await notion.databases.retrieve({ database_id: databaseId });
+  const dataSourceId = (db as any).data_sources?.[0]?.id;
+  if (!dataSourceId) {
+    throw new Error(`No data source found for database ${databaseId}`);
+  }
+  return dataSourceId;
+}
+
+function parseHistoryRow(page: any): HistoryRow | null {
+  const props = page.properties || {};
+  const ticker = props.Ticker?.rich_text?.[0]?.plain_text?.toUpperCase().trim();
+  const start = props['Analysis Date']?.date?.start;
+  const composite = props['Composite Score']?.number;
+  if (!ticker || !start || typeof composite !== 'number') return null;
+
+  return {
+    ticker,
+    date: new Date(start).toISOString().split('T')[0],
+    composite,
+    recommendation: props.Recommendation?.select?.name || '',
+    companyName: props['Company Name']?.rich_text?.[0]?.plain_text || undefined,
+    price: props['Current Price']?.number ?? undefined,
+    priceChange1d: props['Price Change (1D)']?.number ?? undefined,
+  };
+}
+
+/**
+ * Read Stock History rows from the lookback window, newest first
+ */
+async function loadHistory(notion: Client, stockHistoryDbId: string, date: string): Promise<HistoryRow[]> {
+  const dataSourceId = await getDataSourceId(notion, stockHistoryDbId);
+  const rows: HistoryRow[] = [];
+  let cursor: string | undefined;
+
+  for (let page = 0; page < MAX_HISTORY_PAGES; page++) {
+    const response = await notion.dataSources.query({
+      data_source_id: dataSourceId,
+      filter: {
+        property: 'Analysis Date',
+        date: { on_or_after: addDays(date, -HISTORY_LOOKBACK_DAYS) },
+      },
+      sorts: [{ property: 'Analysis Date', direction: 'descending' }],
+      page_size: 100,
+      start_cursor: cursor,
+    });
+
+    for (const result of response.results) {
+      const row = parseHistoryRow(result);
+      if (row) rows.push(row);
+    }
+
+    if (!response.has_more) break;
+    cursor = response.next_cursor || undefined;
+  }
+
+  return rows;
+}
+
+/**
+ * Pair each ticker's row for the run date with its previous row
+ */
+function compareToPrevious(rows: HistoryRow[], date: string): DigestStock[] {
+  const byTicker = new Map<string, HistoryRow[]>();
+  for (const row of rows) {
+    const list = byTicker.get(row.ticker) || [];
+    list.push(row);
+    byTicker.set(row.ticker, list);
+  }
+
+  const stocks: DigestStock[] = [];
+  for (const [ticker, list] of byTicker) {
+    const today = list.find((row) => row.date === date);
+    if (!today) continue;
+    const previous = list.find((row) => row.date < date);
+
+    const scoreChange = previous ? today.composite - previous.composite : undefined;
+    stocks.push({
+      ticker,
+      companyName: today.companyName,
+      composite: today.composite,
+      recommendation: today.recommendation,
+      price: today.price,
+      priceChange1d: today.priceChange1d,
+      previousComposite: previous?.composite,
+      previousRecommendation: previous?.recommendation,
+      scoreChange,
+      recommendationChanged: !!previous && previous.recommendation !== today.recommendation,
+    });
+  }
+
+  return stocks.sort(
+    (a, b) => Math.abs(b.scoreChange ?? 0) - Math.abs(a.scoreChange ?? 0) || a.ticker.localeCompare(b.ticker)
+  );
+}
+
+/**
+ * Events from the user's Stock Events database in the next 7 days
+ */
+async function loadUpcomingEvents(notion: Client, stockEventsDbId: string, date: string): Promise<DigestEvent[]> {
+  const dataSourceId = await getDataSourceId(notion, stockEventsDbId);
+  const response = await notion.dataSources.query({
+    data_source_id: dataSourceId,
+    filter: {
+      and: [
+        { property: 'Event Date', date: { on_or_after: date } },
+        { property: 'Event Date', date: { on_or_before: addDays(date, EVENT_WINDOW_DAYS) } },
+      ],
+    },
+    sorts: [{ property: 'Event Date', direction: 'ascending' }],
+    page_size: MAX_EVENTS,
+  });
+
+  const events: DigestEvent[] = [];
+  for (const page of response.results as any[]) {
+    const props = page.properties || {};
+    const status = props.Status?.select?.name;
+    if (status === 'Cancelled') continue;
+
+    const ticker = props.Ticker?.rich_text?.[0]?.plain_text?.toUpperCase().trim();
+    const eventDate = props['Event Date']?.date?.start;
+    if (!ticker || !eventDate) continue;
+
+    events.push({
+      ticker,
+      eventType: props['Event Type']?.select?.name || 'Event',
+      date: eventDate.split('T')[0],
+      description: props.Description?.rich_text?.[0]?.plain_text || undefined,
+    });
+  }
+  return events;
+}
+
+function summarizeMarket(run: DigestRun): DigestMarket | null {
+  const context = run.marketContext;
+  if (!context) return null;
+  return {
+    regime: context.regime,
+    regimeConfidence: context.regimeConfidence,
+    riskAssessment: context.riskAssessment,
+    vix: context.vix,
+    spyChange1d: context.spy.change1D,
+    summary: context.summary,
+  };
+}
+
+/**
+ * Build one user's digest for a completed run
+ *
+ * Stock Events is optional - a failure there drops the section rather than the digest.
+ */
+export async function buildDailyDigest(recipient: DigestRecipient, run: DigestRun): Promise<DailyDigest> {
+  const notion = new Client({ auth: recipient.accessToken, notionVersion: '2025-09-03' });
+
+  const rows = await loadHistory(notion, recipient.stockHistoryDbId, run.date);
+  const stocks = compareToPrevious(rows, run.date);
+
+  let upcomingEvents: DigestEvent[] = [];
+  if (recipient.stockEventsDbId) {
+    try {
+      upcomingEvents = await loadUpcomingEvents(notion, recipient.stockEventsDbId, run.date);
+    } catch (err: any) {
+      warn('Digest: failed to load upcoming events', { email: recipient.email, error: err.message });
+    }
+  }
+
+  const biggestMovers = stocks
+    .filter((stock) => typeof stock.priceChange1d === 'number')
+    .sort((a, b) => Math.abs(b.priceChange1d!) - Math.abs(a.priceChange1d!))
+    .slice(0, MAX_MOVERS);
+
+  return {
+    date: run.date,
+    userName: recipient.name,
+    market: summarizeMarket(run),
+    stocks,
+    recommendationChanges: stocks.filter((stock) => stock.recommendationChanged),
+    biggestMovers,
+    upcomingEvents,
+  };
+}
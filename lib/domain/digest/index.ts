@@ -0,0 +1,27 @@
+/**
+ * Daily Digest Module - Public API
+ *
+ * Per-user email summarizing the day's scheduled analyses: score and
+ * recommendation changes, biggest movers, upcoming Stock Events and the
+ * market regime. Opt-in via the Daily Digest / Digest Hour properties on
+ * Beta Users.
+ */
+
+// Main entry point
+export { sendDailyDigests } from './send';
+export type { DigestSendMetrics } from './send';
+
+// Building + rendering
+export { buildDailyDigest } from './builder';
+export { renderDailyDigest } from './render';
+
+// Types
+export type {
+  DailyDigest,
+  DigestStock,
+  DigestEvent,
+  DigestMarket,
+  DigestRecipient,
+  DigestRun,
+  RenderedDigest,
+} from './types';
@@ -0,0 +1,213 @@
+/**
+ * Daily Digest Rendering
+ *
+ * Pure functions - turns a DailyDigest into a subject, plaintext body and
+ * HTML body. HTML uses inline styles only, since most mail clients strip
+ * <style> blocks.
+ */
+
+import { DailyDigest, DigestStock, RenderedDigest } from './types';
+
+function signed(value: number, digits: number = 2): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+}
+
+function percent(fraction: number): string {
+  return `${signed(fraction * 100, 1)}%`;
+}
+
+function scoreChangeText(stock: DigestStock): string {
+  return stock.scoreChange === undefined ? 'new' : signed(stock.scoreChange);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatDate(date: string): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function buildSubject(digest: DailyDigest): string {
+  const parts = [`${digest.stocks.length} analyzed`];
+  if (digest.recommendationChanges.length > 0) {
+    parts.push(`${digest.recommendationChanges.length} rating change${digest.recommendationChanges.length === 1 ? '' : 's'}`);
+  }
+  if (digest.market) {
+    parts.push(digest.market.regime);
+  }
+  return `[Sage Stocks] Daily digest ${formatDate(digest.date)}: ${parts.join(' · ')}`;
+}
+
+// ============================================================================
+// Plaintext
+// ============================================================================
+
+function renderText(digest: DailyDigest): string {
+  const lines: string[] = [`Sage Stocks daily digest - ${formatDate(digest.date)}`, ''];
+
+  if (digest.market) {
+    const m = digest.market;
+    lines.push(
+      `MARKET: ${m.regime} (${Math.round(m.regimeConfidence * 100)}% confidence, ${m.riskAssessment})`,
+      `VIX ${m.vix.toFixed(1)} · SPY ${signed(m.spyChange1d)}% (1D)`,
+      ''
+    );
+  }
+
+  if (digest.recommendationChanges.length > 0) {
+    lines.push('RECOMMENDATION CHANGES');
+    for (const s of digest.recommendationChanges) {
+      lines.push(`  ${s.ticker}: ${s.previousRecommendation} -> ${s.recommendation} (composite ${s.composite.toFixed(2)}, ${scoreChangeText(s)})`);
+    }
+    lines.push('');
+  }
+
+  if (digest.biggestMovers.length > 0) {
+    lines.push('BIGGEST MOVERS');
+    for (const s of digest.biggestMovers) {
+      const price = s.price !== undefined ? ` $${s.price.toFixed(2)}` : '';
+      lines.push(`  ${s.ticker}${price} ${percent(s.priceChange1d!)} (score ${scoreChangeText(s)})`);
+    }
+    lines.push('');
+  }
+
+  lines.push('SCORES');
+  if (digest.stocks.length === 0) {
+    lines.push('  No analyses recorded for your stocks today.');
+  }
+  for (const s of digest.stocks) {
+    lines.push(`  ${s.ticker.padEnd(6)} ${s.composite.toFixed(2)} (${scoreChangeText(s)})  ${s.recommendation}`);
+  }
+  lines.push('');
+
+  if (digest.upcomingEvents.length > 0) {
+    lines.push('NEXT 7 DAYS');
+    for (const e of digest.upcomingEvents) {
+      lines.push(`  ${formatDate(e.date)}  ${e.ticker} ${e.eventType}${e.description ? ` - ${e.description}` : ''}`);
+    }
+    lines.push('');
+  }
+
+  lines.push('You receive this because Daily Digest is enabled for your Sage Stocks account.');
+  return lines.join('\n');
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+const CELL = 'padding:4px 8px;border-bottom:1px solid #eee;';
+const HEADING = 'font-size:15px;margin:20px 0 6px;color:#222;';
+
+function changeColor(value: number | undefined): string {
+  if (value === undefined || value === 0) return '#666';
+  return value > 0 ? '#1a7f37' : '#cf222e';
+}
+
+function table(headers: string[], rows: string[][]): string {
+  const head = headers.map((h) => `<th style="${CELL}text-align:left;color:#666;font-weight:normal;">${h}</th>`).join('');
+  const body = rows.map((cells) => `<tr>${cells.map((c) => `<td style="${CELL}">${c}</td>`).join('')}</tr>`).join('');
+  return `<table style="border-collapse:collapse;font-size:13px;width:100%;"><tr>${head}</tr>${body}</table>`;
+}
+
+function renderHtml(digest: DailyDigest): string {
+  const sections: string[] = [
+    `<h1 style="font-size:18px;margin:0 0 4px;">Daily digest · ${escapeHtml(formatDate(digest.date))}</h1>`,
+  ];
+
+  if (digest.market) {
+    const m = digest.market;
+    sections.push(
+      `<p style="margin:8px 0;padding:10px;background:#f6f8fa;border-radius:6px;">` +
+        `<strong>${escapeHtml(m.regime)}</strong> market (${Math.round(m.regimeConfidence * 100)}% confidence, ${escapeHtml(m.riskAssessment)})<br>` +
+        `VIX ${m.vix.toFixed(1)} · SPY <span style="color:${changeColor(m.spyChange1d)}">${signed(m.spyChange1d)}%</span> (1D)` +
+        (m.summary ? `<br><span style="color:#666;">${escapeHtml(m.summary)}</span>` : '') +
+        `</p>`
+    );
+  }
+
+  if (digest.recommendationChanges.length > 0) {
+    sections.push(
+      `<h2 style="${HEADING}">Recommendation changes</h2>`,
+      table(
+        ['Ticker', 'Change', 'Composite'],
+        digest.recommendationChanges.map((s) => [
+          `<strong>${escapeHtml(s.ticker)}</strong>`,
+          `${escapeHtml(s.previousRecommendation || '')} → <strong>${escapeHtml(s.recommendation)}</strong>`,
+          `${s.composite.toFixed(2)} <span style="color:${changeColor(s.scoreChange)}">(${scoreChangeText(s)})</span>`,
+        ])
+      )
+    );
+  }
+
+  if (digest.biggestMovers.length > 0) {
+    sections.push(
+      `<h2 style="${HEADING}">Biggest movers</h2>`,
+      table(
+        ['Ticker', 'Price', '1D', 'Score'],
+        digest.biggestMovers.map((s) => [
+          `<strong>${escapeHtml(s.ticker)}</strong>`,
+          s.price !== undefined ? `$${s.price.toFixed(2)}` : '-',
+          `<span style="color:${changeColor(s.priceChange1d)}">${percent(s.priceChange1d!)}</span>`,
+          `<span style="color:${changeColor(s.scoreChange)}">${scoreChangeText(s)}</span>`,
+        ])
+      )
+    );
+  }
+
+  sections.push(`<h2 style="${HEADING}">Scores</h2>`);
+  sections.push(
+    digest.stocks.length === 0
+      ? '<p style="color:#666;">No analyses recorded for your stocks today.</p>'
+      : table(
+          ['Ticker', 'Composite', 'Change', 'Recommendation'],
+          digest.stocks.map((s) => [
+            `<strong>${escapeHtml(s.ticker)}</strong>${s.companyName ? ` <span style="color:#666;">${escapeHtml(s.companyName)}</span>` : ''}`,
+            s.composite.toFixed(2),
+            `<span style="color:${changeColor(s.scoreChange)}">${scoreChangeText(s)}</span>`,
+            escapeHtml(s.recommendation),
+          ])
+        )
+  );
+
+  if (digest.upcomingEvents.length > 0) {
+    sections.push(
+      `<h2 style="${HEADING}">Next 7 days</h2>`,
+      table(
+        ['Date', 'Ticker', 'Event'],
+        digest.upcomingEvents.map((e) => [
+          escapeHtml(formatDate(e.date)),
+          `<strong>${escapeHtml(e.ticker)}</strong>`,
+          escapeHtml(e.eventType) + (e.description ? ` <span style="color:#666;">${escapeHtml(e.description)}</span>` : ''),
+        ])
+      )
+    );
+  }
+
+  sections.push(
+    '<p style="margin-top:24px;font-size:12px;color:#999;">You receive this because Daily Digest is enabled for your Sage Stocks account.</p>'
+  );
+
+  return `<div style="font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;max-width:640px;color:#222;">${sections.join('\n')}</div>`;
+}
+
+/**
+ * Render a digest as an email
+ */
+export function renderDailyDigest(digest: DailyDigest): RenderedDigest {
+  return {
+    subject: buildSubject(digest),
+    text: renderText(digest),
+    html: renderHtml(digest),
+  };
+}
@@ -0,0 +1,167 @@
+/**
+ * Daily Digest Delivery
+ *
+ * Called hourly. For each opted-in user whose local time has reached their
+ * Digest Hour, sends the digest for the run on their local date - once that
+ * run has finished every chunk. A Redis marker guarantees one email per
+ * user per day:
+ *
+ * - digest:v1:sent:{userId}:{date}
+ */
+
+import { User, decryptToken } from '../../core/auth';
+import { createTimer, info, warn } from '../../core/logger';
+import { RunCompletion, loadRunCompletion } from '../../orchestration/queue-storage';
+import { sendEmail } from '../../integrations/email/smtp';
+import { formatDateInTimezone, getHourInTimezone, getTimezoneFromEnv, validateTimezone } from '../../shared/timezone';
+import { buildDailyDigest } from './builder';
+import { renderDailyDigest } from './render';
+
+const REDIS_URL = process.env.UPSTASH_REDIS_REST_URL || '';
+const REDIS_TOKEN = process.env.UPSTASH_REDIS_REST_TOKEN || '';
+
+/** Local hour (0-23) used when a user opts in without setting Digest Hour */
+const DIGEST_DEFAULT_HOUR = 7;
+
+/** Sent markers outlive the day in every supported timezone */
+const DIGEST_SENT_TTL_SECONDS = 36 * 60 * 60;
+
+export interface DigestSendMetrics {
+  optedIn: number;
+  sent: number;
+  notDue: number;        // Before Digest Hour, or today's run not finished
+  alreadySent: number;
+  failed: number;
+  errors: string[];
+  durationMs?: number;
+}
+
+/**
+ * Run one Redis command via the Upstash REST API
+ */
+async function redisCommand(command: (string | number)[]): Promise<any> {
+  const response = await fetch(REDIS_URL, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${REDIS_TOKEN}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(command),
+  });
+  if (!response.ok) {
+    throw new Error(`Redis ${command[0]} failed: ${response.status} ${response.statusText}`);
+  }
+  const data: any = await response.json();
+  return data.result;
+}
+
+function sentKey(userId: string, date: string): string {
+  return `digest:v1:sent:${userId}:${date}`;
+}
+
+/**
+ * Local hour the user wants the digest (falls back to the default for blank/invalid values)
+ */
+function digestHourFor(user: User): number {
+  const hour = user.digestHour;
+  return typeof hour === 'number' && Number.isInteger(hour) && hour >= 0 && hour <= 23
+    ? hour
+    : DIGEST_DEFAULT_HOUR;
+}
+
+/**
+ * Send every digest that is due
+ *
+ * @param users - All beta users (filtered to approved + opted in here)
+ * @param now - Evaluation time (default: now)
+ */
+export async function sendDailyDigests(users: User[], now: Date = new Date()): Promise<DigestSendMetrics> {
+  if (!REDIS_URL || !REDIS_TOKEN) {
+    throw new Error('Redis credentials not configured');
+  }
+
+  const timer = createTimer('Daily Digest');
+  const metrics: DigestSendMetrics = {
+    optedIn: 0,
+    sent: 0,
+    notDue: 0,
+    alreadySent: 0,
+    failed: 0,
+    errors: [],
+  };
+
+  // Completions are keyed by run date; most users share one or two local dates
+  const completions = new Map<string, Promise<RunCompletion | null>>();
+  const completionFor = (date: string) => {
+    if (!completions.has(date)) completions.set(date, loadRunCompletion(date));
+    return completions.get(date)!;
+  };
+
+  for (const user of users) {
+    if (user.status !== 'approved' || !user.dailyDigest || !user.stockHistoryDbId || !user.email) {
+      continue;
+    }
+    metrics.optedIn++;
+
+    const timezone = validateTimezone(user.timezone, getTimezoneFromEnv());
+    const localDate = formatDateInTimezone(now, timezone);
+
+    try {
+      if (getHourInTimezone(timezone, now) < digestHourFor(user)) {
+        metrics.notDue++;
+        continue;
+      }
+
+      const completion = await completionFor(localDate);
+      if (!completion) {
+        metrics.notDue++;
+        continue;
+      }
+
+      const key = sentKey(user.id, localDate);
+      const claimed = await redisCommand(['SET', key, now.toISOString(), 'NX', 'EX', DIGEST_SENT_TTL_SECONDS]);
+      if (claimed !== 'OK') {
+        metrics.alreadySent++;
+        continue;
+      }
+
+      try {
+        const digest = await buildDailyDigest(
+          {
+            userId: user.id,
+            name: user.name,
+            email: user.email,
+            accessToken: await decryptToken(user.accessToken),
+            stockHistoryDbId: user.stockHistoryDbId,
+            stockEventsDbId: user.stockEventsDbId,
+          },
+          { date: completion.date, marketContext: completion.marketContext }
+        );
+
+        const email = renderDailyDigest(digest);
+        await sendEmail({ to: user.email, subject: email.subject, text: email.text, html: email.html });
+
+        metrics.sent++;
+        info('Daily digest sent', {
+          email: user.email,
+          date: localDate,
+          stocks: digest.stocks.length,
+          recommendationChanges: digest.recommendationChanges.length,
+          upcomingEvents: digest.upcomingEvents.length,
+        });
+      } catch (err) {
+        // Release the marker so the next hourly run retries
+        await redisCommand(['DEL', key]).catch(() => undefined);
+        throw err;
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      metrics.failed++;
+      metrics.errors.push(`${user.email}: ${message}`);
+      warn('Daily digest failed', { email: user.email, date: localDate, error: message });
+    }
+  }
+
+  metrics.durationMs = timer.end(true);
+  return metrics;
+}
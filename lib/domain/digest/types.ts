@@ -0,0 +1,67 @@
+/**
+ * Daily Digest Types
+ */
+
+import { MarketContext } from '../market/types';
+
+/**
+ * One ticker's result from the day's run, compared with its previous analysis
+ */
+export interface DigestStock {
+  ticker: string;
+  companyName?: string;
+  composite: number;
+  recommendation: string;
+  price?: number;
+  priceChange1d?: number;           // Fraction (0.021 = +2.1%)
+  previousComposite?: number;       // Undefined on a stock's first analysis
+  previousRecommendation?: string;
+  scoreChange?: number;
+  recommendationChanged: boolean;
+}
+
+export interface DigestEvent {
+  ticker: string;
+  eventType: string;
+  date: string;                     // YYYY-MM-DD
+  description?: string;
+}
+
+export interface DigestMarket {
+  regime: string;
+  regimeConfidence: number;
+  riskAssessment: string;
+  vix: number;
+  spyChange1d: number;              // Percent
+  summary: string;
+}
+
+export interface DailyDigest {
+  date: string;                     // Run date (YYYY-MM-DD)
+  userName: string;
+  market: DigestMarket | null;
+  stocks: DigestStock[];            // Sorted by absolute score change
+  recommendationChanges: DigestStock[];
+  biggestMovers: DigestStock[];
+  upcomingEvents: DigestEvent[];
+}
+
+export interface DigestRecipient {
+  userId: string;
+  name: string;
+  email: string;
+  accessToken: string;              // Decrypted
+  stockHistoryDbId: string;
+  stockEventsDbId?: string;
+}
+
+export interface DigestRun {
+  date: string;                     // Queue date (YYYY-MM-DD, UTC)
+  marketContext: MarketContext | null;
+}
+
+export interface RenderedDigest {
+  subject: string;
+  text: string;
+  html: string;
+}
@@ -0,0 +1,31 @@
+/**
+ * Market Data Module - Public API
+ *
+ * Local OHLCV + fundamentals store with in-house indicators, used in place
+ * of FMPClient.getAnalysisData to cut FMP calls per analysis.
+ */
+
+// Main entry point
+export {
+  MarketDataService,
+  createMarketDataService,
+  computeTechnicalSnapshot,
+} from './service';
+
+// Storage backends
+export {
+  RedisMarketDataStore,
+  FileMarketDataStore,
+  MemoryMarketDataStore,
+  createMarketDataStore,
+} from './store';
+
+// Types
+export type {
+  DailyBar,
+  StoredFundamentals,
+  SyncState,
+  MarketDataStore,
+  TechnicalSnapshot,
+  StoredAnalysisData,
+} from './types';
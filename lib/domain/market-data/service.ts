@@ -0,0 +1,331 @@
+/**
+ * Market Data Service
+ *
+ * Drop-in replacement for FMPClient.getAnalysisData that serves bars and
+ * fundamentals from a MarketDataStore and computes indicators in-house.
+ *
+ * FMP calls per analysis:
+ * - Quote: always (1) - live price, volume, 52-week range
+ * - Daily bars: once per ticker per market day (1), only the days missing
+ *   since the last stored bar; first fill backfills ~14 months
+ * - Fundamentals (profile, income, balance sheet, ratios): when older than
+ *   FUNDAMENTALS_TTL_DAYS (7)
+ *
+ * Typical daily run: 2 calls per ticker instead of 11.
+ *
+ * Only completed sessions are stored (bars dated before today in New York),
+ * so indicators and chart patterns reflect the last close while price changes
+ * and breakouts use the live quote.
+ * Store failures degrade to fetching from FMP rather than failing the analysis.
+ */
+
+import { FMPClient, HistoricalPrice } from '../../integrations/fmp/client';
+import { addDays, getMarketDate } from '../../shared/market-calendar';
+import { withRetry } from '../../core/utils';
+import { warn, info } from '../../core/logger';
+import {
+  adxSeries,
+  atrSeries,
+  bollingerSeries,
+  dailyReturnVolatility,
+  emaSeries,
+  latest,
+  macdSeries,
+  obvTrend,
+  rsiSeries,
+  smaSeries,
+  stochasticSeries,
+  vwapSeries,
+  weekRange52,
+} from '../analysis/indicators';
+import { detectChartPatterns } from '../analysis/chart-patterns';
+import { createMarketDataStore } from './store';
+import {
+  DailyBar,
+  MarketDataStore,
+  StoredAnalysisData,
+  StoredFundamentals,
+  SyncState,
+  TechnicalSnapshot,
+} from './types';
+
+/** Calendar days fetched on first fill: 200-day SMA + MACD warm-up, with room for holidays */
+const BACKFILL_CALENDAR_DAYS = 420;
+
+/** Annual statements and ratios change quarterly at most */
+const FUNDAMENTALS_TTL_DAYS = 7;
+
+/** Completed bars returned as `historical` (matches the legacy 30-day slice) */
+const HISTORICAL_BARS = 30;
+
+function toDailyBar(price: HistoricalPrice): DailyBar {
+  return {
+    date: price.date,
+    open: price.open,
+    high: price.high,
+    low: price.low,
+    close: price.close,
+    volume: price.volume,
+  };
+}
+
+/**
+ * Compute the indicator snapshot from ascending bars
+ *
+ * @param currentPrice - Live price for price changes (defaults to the last close)
+ */
+export function computeTechnicalSnapshot(
+  bars: DailyBar[],
+  currentPrice?: number
+): TechnicalSnapshot {
+  const closes = bars.map((bar) => bar.close);
+  const price = currentPrice ?? closes[closes.length - 1];
+  const macd = macdSeries(closes);
+  const bollinger = bollingerSeries(closes);
+  const adx = adxSeries(bars);
+  const stochastic = stochasticSeries(bars);
+  const range = weekRange52(bars, price);
+
+  const changeFrom = (barsBack: number): number | undefined => {
+    const base = closes[closes.length - barsBack];
+    return base && base > 0 && price ? (price - base) / base : undefined;
+  };
+
+  return {
+    asOf: bars.length > 0 ? bars[bars.length - 1].date : null,
+    barCount: bars.length,
+    rsi14: latest(rsiSeries(closes, 14)),
+    sma50: latest(smaSeries(closes, 50)),
+    sma200: latest(smaSeries(closes, 200)),
+    ema12: latest(emaSeries(closes, 12)),
+    ema26: latest(emaSeries(closes, 26)),
+    macd: latest(macd.macd),
+    macdSignal: latest(macd.signal),
+    macdHistogram: latest(macd.histogram),
+    bollingerUpper: latest(bollinger.upper),
+    bollingerLower: latest(bollinger.lower),
+    bollingerPercentB: latest(bollinger.percentB),
+    atr14: latest(atrSeries(bars)),
+    adx14: latest(adx.adx),
+    plusDI: latest(adx.plusDI),
+    minusDI: latest(adx.minusDI),
+    obvTrend20d: obvTrend(bars),
+    stochasticK: latest(stochastic.k),
+    stochasticD: latest(stochastic.d),
+    vwap20d: latest(vwapSeries(bars)),
+    week52High: range?.high,
+    week52Low: range?.low,
+    distanceFrom52wHigh: range?.distanceFromHigh,
+    distanceFrom52wLow: range?.distanceFromLow,
+    volatility30d: dailyReturnVolatility(closes),
+    priceChange5d: changeFrom(5),
+    priceChange1m: changeFrom(HISTORICAL_BARS),
+  };
+}
+
+export class MarketDataService {
+  constructor(
+    private readonly fmp: FMPClient,
+    private readonly store: MarketDataStore
+  ) {}
+
+  /**
+   * Read from the store, treating a store failure as an empty store
+   */
+  private async readStore<T>(operation: () => Promise<T>, fallback: T, what: string, ticker: string): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      warn(`Market data store read failed (${what}), fetching from FMP`, {
+        ticker,
+        store: this.store.kind,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return fallback;
+    }
+  }
+
+  /**
+   * Write to the store without failing the analysis
+   */
+  private async writeStore(operation: () => Promise<void>, what: string, ticker: string): Promise<void> {
+    try {
+      await operation();
+    } catch (error) {
+      warn(`Market data store write failed (${what})`, {
+        ticker,
+        store: this.store.kind,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Bring stored bars up to the last completed session
+   *
+   * @returns All stored bars (ascending) and how many FMP calls / new bars it took
+   */
+  async syncBars(ticker: string, today: string = getMarketDate()): Promise<{
+    bars: DailyBar[];
+    fmpCalls: number;
+    barsFetched: number;
+  }> {
+    const [storedBars, sync] = await Promise.all([
+      this.readStore(() => this.store.getBars(ticker), [] as DailyBar[], 'bars', ticker),
+      this.readStore(() => this.store.getSyncState(ticker), null as SyncState | null, 'sync state', ticker),
+    ]);
+
+    // Already synced today (also covers weekends/holidays with no new bar)
+    if (sync && sync.lastSyncDate >= today && storedBars.length > 0) {
+      return { bars: storedBars, fmpCalls: 0, barsFetched: 0 };
+    }
+
+    const lastStored = storedBars[storedBars.length - 1]?.date;
+    const from = lastStored ? addDays(lastStored, 1) : addDays(today, -BACKFILL_CALENDAR_DAYS);
+
+    const historical = await withRetry(
+      () => this.fmp.getHistoricalPrices(ticker, from, today),
+      `FMP getHistoricalPrices(${ticker})`
+    );
+
+    const newBars = historical
+      .map(toDailyBar)
+      .filter((bar) => bar.date < today && (!lastStored || bar.date > lastStored));
+
+    const bars = [...storedBars, ...newBars].sort((a, b) => a.date.localeCompare(b.date));
+
+    await this.writeStore(() => this.store.putBars(ticker, newBars), 'bars', ticker);
+    await this.writeStore(
+      () => this.store.putSyncState(ticker, {
+        lastSyncDate: today,
+        firstBarDate: bars[0]?.date,
+        lastBarDate: bars[bars.length - 1]?.date,
+      }),
+      'sync state',
+      ticker
+    );
+
+    return { bars, fmpCalls: 1, barsFetched: newBars.length };
+  }
+
+  /**
+   * Return stored fundamentals, refreshing from FMP when missing or stale
+   *
+   * @throws DataNotFoundError if the profile cannot be fetched and nothing is stored
+   */
+  async syncFundamentals(ticker: string): Promise<{
+    fundamentals: StoredFundamentals;
+    fmpCalls: number;
+    refreshed: boolean;
+  }> {
+    const stored = await this.readStore(
+      () => this.store.getFundamentals(ticker),
+      null as StoredFundamentals | null,
+      'fundamentals',
+      ticker
+    );
+
+    const ageDays = stored
+      ? (Date.now() - new Date(stored.fetchedAt).getTime()) / (24 * 60 * 60 * 1000)
+      : Infinity;
+    if (stored && ageDays < FUNDAMENTALS_TTL_DAYS) {
+      return { fundamentals: stored, fmpCalls: 0, refreshed: false };
+    }
+
+    const results = await Promise.allSettled([
+      this.fmp.getCompanyProfile(ticker), // Critical
+      this.fmp.getIncomeStatement(ticker, 'annual', 2),
+      this.fmp.getBalanceSheet(ticker, 'annual', 2),
+      this.fmp.getFinancialRatios(ticker, 'annual', 2),
+    ]);
+
+    if (results[0].status === 'rejected') {
+      if (!stored) {
+        throw results[0].reason;
+      }
+      warn('FMP profile refresh failed, using stored fundamentals', {
+        ticker,
+        ageDays: Math.round(ageDays),
+      });
+      return { fundamentals: stored, fmpCalls: 4, refreshed: false };
+    }
+
+    // Keep the previous copy of anything that failed to refresh
+    const fundamentals: StoredFundamentals = {
+      fetchedAt: new Date().toISOString(),
+      profile: results[0].value,
+      incomeStatements: results[1].status === 'fulfilled' ? results[1].value : stored?.incomeStatements || [],
+      balanceSheets: results[2].status === 'fulfilled' ? results[2].value : stored?.balanceSheets || [],
+      ratios: results[3].status === 'fulfilled' ? results[3].value : stored?.ratios || [],
+    };
+
+    await this.writeStore(() => this.store.putFundamentals(ticker, fundamentals), 'fundamentals', ticker);
+    return { fundamentals, fmpCalls: 4, refreshed: true };
+  }
+
+  /**
+   * Get all data needed for stock analysis
+   *
+   * @throws DataNotFoundError if the quote or profile is unavailable
+   */
+  async getAnalysisData(symbol: string): Promise<StoredAnalysisData> {
+    const ticker = symbol.toUpperCase();
+
+    const [quote, barSync, fundamentalSync] = await Promise.all([
+      this.fmp.getQuote(ticker),
+      this.syncBars(ticker).catch((error) => {
+        // Bars are optional, like historical prices in the legacy path
+        warn('Daily bar sync failed, continuing without indicators', {
+          ticker,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return { bars: [] as DailyBar[], fmpCalls: 1, barsFetched: 0 };
+      }),
+      this.syncFundamentals(ticker),
+    ]);
+
+    const { bars } = barSync;
+    const { fundamentals } = fundamentalSync;
+    const fmpCalls = 1 + barSync.fmpCalls + fundamentalSync.fmpCalls;
+
+    info('Market data loaded', {
+      ticker,
+      store: this.store.kind,
+      bars: bars.length,
+      barsFetched: barSync.barsFetched,
+      fundamentalsRefreshed: fundamentalSync.refreshed,
+      fmpCalls,
+    });
+
+    return {
+      quote,
+      profile: fundamentals.profile,
+      historical: bars.slice(-HISTORICAL_BARS).reverse(),
+      technicals: computeTechnicalSnapshot(bars, quote.price),
+      patterns: detectChartPatterns(bars, quote.price),
+      fundamentals: {
+        incomeStatements: fundamentals.incomeStatements,
+        balanceSheets: fundamentals.balanceSheets,
+        ratios: fundamentals.ratios,
+      },
+      fmpCalls,
+      source: {
+        store: this.store.kind,
+        barsFetched: barSync.barsFetched,
+        fundamentalsRefreshed: fundamentalSync.refreshed,
+      },
+    };
+  }
+}
+
+/**
+ * Create a market data service
+ *
+ * @param store Storage backend (defaults to createMarketDataStore())
+ */
+export function createMarketDataService(
+  fmpClient: FMPClient,
+  store: MarketDataStore = createMarketDataStore()
+): MarketDataService {
+  return new MarketDataService(fmpClient, store);
+}
@@ -0,0 +1,269 @@
+/**
+ * Market Data Store Backends
+ *
+ * - Redis (Upstash REST): production. Bars live in one hash per ticker
+ *   (field = date), so incremental fills only write the new days.
+ * - File: local development without Redis. One JSON file per ticker under
+ *   MARKET_DATA_DIR (default .cache/market-data).
+ * - Memory: serverless without Redis. Lasts for one invocation, so every
+ *   analysis does a full fill - still fewer FMP calls than the legacy path.
+ *
+ * Selection: MARKET_DATA_STORE=redis|file|memory overrides; otherwise Redis
+ * when configured, file outside Vercel, memory on Vercel.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { warn } from '../../core/logger';
+import { DailyBar, MarketDataStore, StoredFundamentals, SyncState } from './types';
+
+const KEY_PREFIX = 'market_data:v1';
+const DEFAULT_FILE_DIR = '.cache/market-data';
+
+/**
+ * Compact bar encoding for storage: [open, high, low, close, volume]
+ */
+type EncodedBar = [number, number, number, number, number];
+
+function encodeBar(bar: DailyBar): string {
+  const encoded: EncodedBar = [bar.open, bar.high, bar.low, bar.close, bar.volume];
+  return JSON.stringify(encoded);
+}
+
+function decodeBar(date: string, value: string): DailyBar {
+  const [open, high, low, close, volume] = JSON.parse(value) as EncodedBar;
+  return { date, open, high, low, close, volume };
+}
+
+function sortBars(bars: DailyBar[]): DailyBar[] {
+  return bars.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Upstash Redis store
+ */
+export class RedisMarketDataStore implements MarketDataStore {
+  readonly kind = 'redis' as const;
+
+  constructor(
+    private readonly redisUrl: string,
+    private readonly redisToken: string
+  ) {}
+
+  private key(ticker: string, part: 'bars' | 'fundamentals' | 'sync'): string {
+    return `${KEY_PREFIX}:${ticker.toUpperCase()}:${part}`;
+  }
+
+  /**
+   * Run a single Redis command via the REST API
+   */
+  private async command<T>(args: Array<string | number>): Promise<T | null> {
+    const response = await fetch(this.redisUrl, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.redisToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(args),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Redis ${args[0]} failed: ${response.status}`);
+    }
+
+    const data = await response.json() as { result?: T; error?: string };
+    if (data.error) {
+      throw new Error(`Redis ${args[0]} failed: ${data.error}`);
+    }
+    return data.result ?? null;
+  }
+
+  async getBars(ticker: string): Promise<DailyBar[]> {
+    // HGETALL returns a flat [field, value, field, value, ...] array
+    const flat = await this.command<string[]>(['HGETALL', this.key(ticker, 'bars')]);
+    if (!flat) return [];
+
+    const bars: DailyBar[] = [];
+    for (let i = 0; i < flat.length; i += 2) {
+      bars.push(decodeBar(flat[i], flat[i + 1]));
+    }
+    return sortBars(bars);
+  }
+
+  async putBars(ticker: string, bars: DailyBar[]): Promise<void> {
+    if (bars.length === 0) return;
+
+    const args: Array<string | number> = ['HSET', this.key(ticker, 'bars')];
+    for (const bar of bars) {
+      args.push(bar.date, encodeBar(bar));
+    }
+    await this.command(args);
+  }
+
+  async getFundamentals(ticker: string): Promise<StoredFundamentals | null> {
+    const value = await this.command<string>(['GET', this.key(ticker, 'fundamentals')]);
+    return value ? JSON.parse(value) as StoredFundamentals : null;
+  }
+
+  async putFundamentals(ticker: string, fundamentals: StoredFundamentals): Promise<void> {
+    await this.command(['SET', this.key(ticker, 'fundamentals'), JSON.stringify(fundamentals)]);
+  }
+
+  async getSyncState(ticker: string): Promise<SyncState | null> {
+    const value = await this.command<string>(['GET', this.key(ticker, 'sync')]);
+    return value ? JSON.parse(value) as SyncState : null;
+  }
+
+  async putSyncState(ticker: string, state: SyncState): Promise<void> {
+    await this.command(['SET', this.key(ticker, 'sync'), JSON.stringify(state)]);
+  }
+}
+
+/**
+ * On-disk record for one ticker (file store)
+ */
+interface TickerRecord {
+  bars: Record<string, EncodedBar>;
+  fundamentals: StoredFundamentals | null;
+  sync: SyncState | null;
+}
+
+/**
+ * JSON-file store for local development
+ */
+export class FileMarketDataStore implements MarketDataStore {
+  readonly kind = 'file' as const;
+
+  constructor(private readonly directory: string = process.env.MARKET_DATA_DIR || DEFAULT_FILE_DIR) {}
+
+  private filePath(ticker: string): string {
+    return path.join(this.directory, `${ticker.toUpperCase()}.json`);
+  }
+
+  private read(ticker: string): TickerRecord {
+    const filePath = this.filePath(ticker);
+    if (!fs.existsSync(filePath)) {
+      return { bars: {}, fundamentals: null, sync: null };
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as TickerRecord;
+  }
+
+  private write(ticker: string, record: TickerRecord): void {
+    fs.mkdirSync(this.directory, { recursive: true });
+    fs.writeFileSync(this.filePath(ticker), JSON.stringify(record));
+  }
+
+  async getBars(ticker: string): Promise<DailyBar[]> {
+    const { bars } = this.read(ticker);
+    return sortBars(
+      Object.entries(bars).map(([date, encoded]) => decodeBar(date, JSON.stringify(encoded)))
+    );
+  }
+
+  async putBars(ticker: string, bars: DailyBar[]): Promise<void> {
+    if (bars.length === 0) return;
+
+    const record = this.read(ticker);
+    for (const bar of bars) {
+      record.bars[bar.date] = [bar.open, bar.high, bar.low, bar.close, bar.volume];
+    }
+    this.write(ticker, record);
+  }
+
+  async getFundamentals(ticker: string): Promise<StoredFundamentals | null> {
+    return this.read(ticker).fundamentals;
+  }
+
+  async putFundamentals(ticker: string, fundamentals: StoredFundamentals): Promise<void> {
+    const record = this.read(ticker);
+    record.fundamentals = fundamentals;
+    this.write(ticker, record);
+  }
+
+  async getSyncState(ticker: string): Promise<SyncState | null> {
+    return this.read(ticker).sync;
+  }
+
+  async putSyncState(ticker: string, state: SyncState): Promise<void> {
+    const record = this.read(ticker);
+    record.sync = state;
+    this.write(ticker, record);
+  }
+}
+
+/**
+ * In-process store (no persistence across invocations)
+ */
+export class MemoryMarketDataStore implements MarketDataStore {
+  readonly kind = 'memory' as const;
+  private readonly records = new Map<string, TickerRecord>();
+
+  private record(ticker: string): TickerRecord {
+    const key = ticker.toUpperCase();
+    let record = this.records.get(key);
+    if (!record) {
+      record = { bars: {}, fundamentals: null, sync: null };
+      this.records.set(key, record);
+    }
+    return record;
+  }
+
+  async getBars(ticker: string): Promise<DailyBar[]> {
+    return sortBars(
+      Object.entries(this.record(ticker).bars).map(([date, [open, high, low, close, volume]]) => ({
+        date, open, high, low, close, volume,
+      }))
+    );
+  }
+
+  async putBars(ticker: string, bars: DailyBar[]): Promise<void> {
+    const record = this.record(ticker);
+    for (const bar of bars) {
+      record.bars[bar.date] = [bar.open, bar.high, bar.low, bar.close, bar.volume];
+    }
+  }
+
+  async getFundamentals(ticker: string): Promise<StoredFundamentals | null> {
+    return this.record(ticker).fundamentals;
+  }
+
+  async putFundamentals(ticker: string, fundamentals: StoredFundamentals): Promise<void> {
+    this.record(ticker).fundamentals = fundamentals;
+  }
+
+  async getSyncState(ticker: string): Promise<SyncState | null> {
+    return this.record(ticker).sync;
+  }
+
+  async putSyncState(ticker: string, state: SyncState): Promise<void> {
+    this.record(ticker).sync = state;
+  }
+}
+
+let defaultStore: MarketDataStore | null = null;
+
+/**
+ * Pick the store backend for this environment (cached per process)
+ */
+export function createMarketDataStore(): MarketDataStore {
+  if (defaultStore) return defaultStore;
+
+  const redisUrl = process.env.UPSTASH_REDIS_REST_URL || '';
+  const redisToken = process.env.UPSTASH_REDIS_REST_TOKEN || '';
+  const requested = process.env.MARKET_DATA_STORE;
+
+  if (requested === 'redis' || (!requested && redisUrl && redisToken)) {
+    if (redisUrl && redisToken) {
+      defaultStore = new RedisMarketDataStore(redisUrl, redisToken);
+      return defaultStore;
+    }
+    warn('MARKET_DATA_STORE=redis but Upstash Redis is not configured, falling back');
+  }
+
+  if (requested === 'file' || (!requested && !process.env.VERCEL)) {
+    defaultStore = new FileMarketDataStore();
+  } else {
+    defaultStore = new MemoryMarketDataStore();
+  }
+  return defaultStore;
+}
@@ -0,0 +1,119 @@
+/**
+ * Market Data Store Types
+ *
+ * Persistent daily bars and fundamentals per ticker, filled incrementally
+ * from FMP so indicators can be computed locally instead of fetched.
+ */
+
+import type {
+  BalanceSheet,
+  CompanyProfile,
+  FinancialRatios,
+  IncomeStatement,
+  StockQuote,
+} from '../../integrations/fmp/client';
+import type { PatternAnalysis } from '../analysis/chart-patterns';
+
+/**
+ * Daily OHLCV bar (ascending date order when returned from a store)
+ */
+export interface DailyBar {
+  date: string; // YYYY-MM-DD
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * Fundamentals snapshot, refreshed on a TTL rather than every analysis
+ */
+export interface StoredFundamentals {
+  fetchedAt: string; // ISO timestamp
+  profile: CompanyProfile;
+  incomeStatements: IncomeStatement[];
+  balanceSheets: BalanceSheet[];
+  ratios: FinancialRatios[];
+}
+
+/**
+ * Per-ticker bookkeeping for incremental fills
+ */
+export interface SyncState {
+  lastSyncDate: string;    // Market date (America/New_York) bars were last fetched
+  firstBarDate?: string;   // Oldest stored bar
+  lastBarDate?: string;    // Newest stored (completed) bar
+}
+
+/**
+ * Storage backend for bars, fundamentals and sync state
+ *
+ * Bars are keyed by ticker and date, so writing an already-stored date
+ * overwrites it instead of duplicating.
+ */
+export interface MarketDataStore {
+  readonly kind: 'redis' | 'file' | 'memory';
+  getBars(ticker: string): Promise<DailyBar[]>;
+  putBars(ticker: string, bars: DailyBar[]): Promise<void>;
+  getFundamentals(ticker: string): Promise<StoredFundamentals | null>;
+  putFundamentals(ticker: string, fundamentals: StoredFundamentals): Promise<void>;
+  getSyncState(ticker: string): Promise<SyncState | null>;
+  putSyncState(ticker: string, state: SyncState): Promise<void>;
+}
+
+/**
+ * Indicators computed in-house from stored bars
+ */
+export interface TechnicalSnapshot {
+  asOf: string | null; // Date of the latest completed bar used
+  barCount: number;
+  rsi14?: number;
+  sma50?: number;
+  sma200?: number;
+  ema12?: number;
+  ema26?: number;
+  macd?: number;
+  macdSignal?: number;
+  macdHistogram?: number;
+  bollingerUpper?: number;
+  bollingerLower?: number;
+  bollingerPercentB?: number;
+  atr14?: number;
+  adx14?: number;
+  plusDI?: number;
+  minusDI?: number;
+  obvTrend20d?: number;
+  stochasticK?: number;
+  stochasticD?: number;
+  vwap20d?: number;
+  week52High?: number;
+  week52Low?: number;
+  distanceFrom52wHigh?: number; // Current price vs 52-week high
+  distanceFrom52wLow?: number;
+  volatility30d?: number;
+  priceChange5d?: number; // Current price vs 5 bars back
+  priceChange1m?: number; // Current price vs 30 bars back
+}
+
+/**
+ * Analysis inputs assembled from the store (plus a live quote)
+ */
+export interface StoredAnalysisData {
+  quote: StockQuote;
+  profile: CompanyProfile;
+  historical: DailyBar[]; // Last 30 completed bars, newest first (same order as FMP)
+  technicals: TechnicalSnapshot;
+  patterns: PatternAnalysis; // Chart patterns over all stored bars + live price
+  fundamentals: {
+    incomeStatements: IncomeStatement[];
+    balanceSheets: BalanceSheet[];
+    ratios: FinancialRatios[];
+  };
+  fmpCalls: number; // FMP requests actually made for this analysis
+  source: {
+    store: MarketDataStore['kind'];
+    barsFetched: number;
+    fundamentalsRefreshed: boolean;
+  };
+}
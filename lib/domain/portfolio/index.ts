@@ -0,0 +1,45 @@
+/**
+ * Portfolio Module - Public API
+ *
+ * Positions, cost basis (FIFO) and P&L derived from the user's
+ * Portfolio Transactions database, plus portfolio-level risk analytics.
+ */
+
+// Main entry point
+export { updatePortfolioPositions } from './sync';
+export type { PortfolioSyncMetrics } from './sync';
+
+// Position math
+export { buildPositions, summarizePortfolio, UNKNOWN_SECTOR } from './positions';
+
+// Portfolio risk
+export { runPortfolioRiskReport, formatPortfolioRiskReport, PORTFOLIO_RISK_PAGE_TITLE } from './risk-report';
+export type { PortfolioRiskMetrics } from './risk-report';
+export {
+  analyzePortfolioRisk,
+  normalizeSector,
+  correlation,
+  historicalVaR,
+  maxDrawdown,
+  DEFAULT_RISK_THRESHOLDS,
+} from './risk';
+export type {
+  RiskHolding,
+  RiskThresholds,
+  RiskWarning,
+  RiskWarningType,
+  SectorWeight,
+  CorrelationPair,
+  PortfolioRiskReport,
+} from './risk';
+
+// Types
+export type {
+  TransactionType,
+  PositionStatus,
+  PortfolioTransaction,
+  TickerQuote,
+  PositionLot,
+  PortfolioPosition,
+  PortfolioSummary,
+} from './types';
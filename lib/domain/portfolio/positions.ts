@@ -0,0 +1,197 @@
+/**
+ * Portfolio Position Math
+ *
+ * Pure functions - no Notion or FMP access.
+ *
+ * Cost basis uses FIFO lots:
+ * - Buy fees are added to the lot's cost
+ * - Sell fees reduce proceeds
+ * - Realized P&L = proceeds - cost of the lots consumed
+ *
+ * Trades on the same date are applied buys first, so a same-day round trip
+ * is never treated as an oversell.
+ */
+
+import {
+  PortfolioPosition,
+  PortfolioSummary,
+  PortfolioTransaction,
+  PositionLot,
+  TickerQuote,
+} from './types';
+
+/** Share counts below this are treated as zero (fractional-share rounding) */
+const SHARE_EPSILON = 1e-6;
+
+/** Sector bucket for positions whose sector is unknown */
+export const UNKNOWN_SECTOR = 'Unknown';
+
+interface LedgerState {
+  lots: PositionLot[];
+  realizedPnl: number;
+  lastTransaction?: string;
+}
+
+function compareTrades(a: PortfolioTransaction, b: PortfolioTransaction): number {
+  const byDate = a.tradeDate.localeCompare(b.tradeDate);
+  if (byDate !== 0) return byDate;
+  if (a.type === b.type) return 0;
+  return a.type === 'Buy' ? -1 : 1;
+}
+
+/**
+ * Apply one ticker's trades in date order
+ */
+function replayTrades(ticker: string, trades: PortfolioTransaction[], warnings: string[]): LedgerState {
+  const state: LedgerState = { lots: [], realizedPnl: 0 };
+
+  for (const trade of [...trades].sort(compareTrades)) {
+    state.lastTransaction = trade.tradeDate;
+
+    if (trade.type === 'Buy') {
+      state.lots.push({
+        shares: trade.shares,
+        costPerShare: (trade.shares * trade.price + trade.fees) / trade.shares,
+        tradeDate: trade.tradeDate,
+      });
+      continue;
+    }
+
+    const held = state.lots.reduce((sum, lot) => sum + lot.shares, 0);
+    let toSell = trade.shares;
+    if (toSell > held + SHARE_EPSILON) {
+      warnings.push(
+        `${ticker}: sell of ${trade.shares} on ${trade.tradeDate} exceeds ${roundShares(held)} held - only ${roundShares(held)} applied`
+      );
+      toSell = held;
+    }
+    if (toSell <= SHARE_EPSILON) continue;
+
+    // Prorate fees if the sell was clamped
+    const proceeds = toSell * trade.price - trade.fees * (toSell / trade.shares);
+    let costRemoved = 0;
+
+    while (toSell > SHARE_EPSILON && state.lots.length > 0) {
+      const lot = state.lots[0];
+      const take = Math.min(lot.shares, toSell);
+      costRemoved += take * lot.costPerShare;
+      lot.shares -= take;
+      toSell -= take;
+      if (lot.shares <= SHARE_EPSILON) state.lots.shift();
+    }
+
+    state.realizedPnl += proceeds - costRemoved;
+  }
+
+  return state;
+}
+
+function roundShares(shares: number): number {
+  return Math.round(shares * 1e6) / 1e6;
+}
+
+/**
+ * Build positions from transactions (one per ticker, unpriced)
+ */
+export function buildPositions(
+  transactions: PortfolioTransaction[],
+  warnings: string[] = []
+): PortfolioPosition[] {
+  const byTicker = new Map<string, PortfolioTransaction[]>();
+  for (const trade of transactions) {
+    const ticker = trade.ticker.toUpperCase().trim();
+    const list = byTicker.get(ticker) || [];
+    list.push(trade);
+    byTicker.set(ticker, list);
+  }
+
+  const positions: PortfolioPosition[] = [];
+  for (const [ticker, trades] of byTicker) {
+    const state = replayTrades(ticker, trades, warnings);
+    const shares = roundShares(state.lots.reduce((sum, lot) => sum + lot.shares, 0));
+    const costBasis = state.lots.reduce((sum, lot) => sum + lot.shares * lot.costPerShare, 0);
+    const open = shares > SHARE_EPSILON;
+
+    positions.push({
+      ticker,
+      status: open ? 'Open' : 'Closed',
+      shares: open ? shares : 0,
+      averageCost: open ? costBasis / shares : 0,
+      costBasis: open ? costBasis : 0,
+      lots: state.lots,
+      realizedPnl: state.realizedPnl,
+      firstBought: state.lots[0]?.tradeDate,
+      lastTransaction: state.lastTransaction,
+    });
+  }
+
+  return positions;
+}
+
+/**
+ * Price positions and compute weights and sector exposure
+ *
+ * @param prices - Latest price (and sector) per ticker; tickers without one stay unpriced
+ */
+export function summarizePortfolio(
+  transactions: PortfolioTransaction[],
+  prices: Record<string, TickerQuote>
+): PortfolioSummary {
+  const warnings: string[] = [];
+  const positions = buildPositions(transactions, warnings);
+
+  for (const position of positions) {
+    const quote = prices[position.ticker];
+    if (quote?.sector) position.sector = quote.sector;
+    if (position.status !== 'Open' || !quote || !(quote.price > 0)) continue;
+
+    position.currentPrice = quote.price;
+    position.priceDate = quote.asOf;
+    position.marketValue = position.shares * quote.price;
+    position.unrealizedPnl = position.marketValue - position.costBasis;
+    position.unrealizedPnlPercent = position.costBasis > 0
+      ? position.unrealizedPnl / position.costBasis
+      : undefined;
+  }
+
+  const open = positions.filter((p) => p.status === 'Open');
+  const priced = open.filter((p) => p.marketValue !== undefined);
+  const marketValue = priced.reduce((sum, p) => sum + (p.marketValue || 0), 0);
+
+  const sectorExposure: Record<string, number> = {};
+  if (marketValue > 0) {
+    for (const position of priced) {
+      position.weight = (position.marketValue || 0) / marketValue;
+      const sector = position.sector || UNKNOWN_SECTOR;
+      sectorExposure[sector] = (sectorExposure[sector] || 0) + position.weight;
+    }
+    for (const position of priced) {
+      position.sectorExposure = sectorExposure[position.sector || UNKNOWN_SECTOR];
+    }
+  }
+
+  for (const position of open) {
+    if (position.marketValue === undefined) {
+      warnings.push(`${position.ticker}: no price available, excluded from weights`);
+    }
+  }
+
+  positions.sort((a, b) => {
+    if (a.status !== b.status) return a.status === 'Open' ? -1 : 1;
+    return (b.marketValue || 0) - (a.marketValue || 0);
+  });
+
+  return {
+    positions,
+    totals: {
+      costBasis: open.reduce((sum, p) => sum + p.costBasis, 0),
+      marketValue,
+      unrealizedPnl: priced.reduce((sum, p) => sum + (p.unrealizedPnl || 0), 0),
+      realizedPnl: positions.reduce((sum, p) => sum + p.realizedPnl, 0),
+      openPositions: open.length,
+      unpricedPositions: open.length - priced.length,
+    },
+    sectorExposure,
+    warnings,
+  };
+}
@@ -0,0 +1,360 @@
+/**
+ * Portfolio Risk Report
+ *
+ * Daily job body: for every user with a Portfolio Positions database and a
+ * Sage Stocks page, loads the open positions, computes portfolio risk and
+ * rewrites a "Portfolio Risk" child page under Sage Stocks.
+ *
+ * Bars and betas come from the market data store, shared across users, so a
+ * ticker held by many users costs at most one bar sync per day.
+ */
+
+import { Client } from '@notionhq/client';
+import { User, decryptToken } from '../../core/auth';
+import { info, warn, error as logError, createTimer } from '../../core/logger';
+import { FMPClient } from '../../integrations/fmp/client';
+import { createNotionClient } from '../../integrations/notion/client';
+import { formatDateInTimezone, getTimezoneFromEnv, validateTimezone } from '../../shared/timezone';
+import { DailyBar, createMarketDataService } from '../market-data';
+import { PortfolioRiskReport, RiskHolding, analyzePortfolioRisk } from './risk';
+
+/** Title of the child page under Sage Stocks that holds the report */
+export const PORTFOLIO_RISK_PAGE_TITLE = 'Portfolio Risk';
+
+/** Correlated pairs listed on the page */
+const MAX_PAIRS_SHOWN = 5;
+
+export interface PortfolioRiskMetrics {
+  startTime: Date;
+  endTime?: Date;
+  durationMs?: number;
+
+  usersProcessed: number;
+  usersSkipped: number; // No positions database, Sage Stocks page or open positions
+  usersFailed: number;
+
+  pagesCreated: number;
+  pagesUpdated: number;
+  warningsRaised: number;
+
+  fmpApiCalls: number;
+  notionApiCalls: number;
+
+  errors: string[];
+}
+
+/**
+ * Open position read from Portfolio Positions
+ */
+interface OpenPosition {
+  ticker: string;
+  shares: number;
+  marketValue?: number;
+  sector?: string;
+}
+
+/**
+ * Build and write the Portfolio Risk page for all users
+ */
+export async function runPortfolioRiskReport(
+  fmpClient: FMPClient,
+  users: User[]
+): Promise<PortfolioRiskMetrics> {
+  const timer = createTimer('Portfolio Risk Report');
+  const marketData = createMarketDataService(fmpClient);
+  const tickerData = new Map<string, Promise<{ bars: DailyBar[]; beta?: number; sector?: string }>>();
+
+  const metrics: PortfolioRiskMetrics = {
+    startTime: new Date(),
+    usersProcessed: 0,
+    usersSkipped: 0,
+    usersFailed: 0,
+    pagesCreated: 0,
+    pagesUpdated: 0,
+    warningsRaised: 0,
+    fmpApiCalls: 0,
+    notionApiCalls: 0,
+    errors: [],
+  };
+
+  // One bar + fundamentals sync per ticker across all users
+  const dataFor = (ticker: string) => {
+    let data = tickerData.get(ticker);
+    if (!data) {
+      data = Promise.all([
+        marketData.syncBars(ticker),
+        marketData.syncFundamentals(ticker).catch((err) => {
+          warn('Fundamentals unavailable for portfolio risk, beta skipped', {
+            ticker,
+            error: err instanceof Error ? err.message : String(err),
+          });
+          return null;
+        }),
+      ]).then(([barSync, fundamentalSync]) => {
+        metrics.fmpApiCalls += barSync.fmpCalls + (fundamentalSync?.fmpCalls || 0);
+        const profile = fundamentalSync?.fundamentals.profile;
+        return { bars: barSync.bars, beta: profile?.beta ?? undefined, sector: profile?.sector || undefined };
+      });
+      tickerData.set(ticker, data);
+    }
+    return data;
+  };
+
+  for (const user of users) {
+    if (user.status !== 'approved' || !user.portfolioPositionsDbId || !user.sageStocksPageId) {
+      metrics.usersSkipped++;
+      continue;
+    }
+
+    try {
+      const accessToken = await decryptToken(user.accessToken);
+      const notion = new Client({ auth: accessToken, notionVersion: '2025-09-03' });
+
+      const positions = await fetchOpenPositions(notion, user.portfolioPositionsDbId, metrics);
+      if (positions.length === 0) {
+        metrics.usersSkipped++;
+        continue;
+      }
+
+      const holdings: RiskHolding[] = [];
+      for (const position of positions) {
+        const data = await dataFor(position.ticker);
+        const lastClose = data.bars[data.bars.length - 1]?.close;
+        holdings.push({
+          ticker: position.ticker,
+          marketValue: position.marketValue ?? (lastClose ? position.shares * lastClose : 0),
+          sector: position.sector || data.sector,
+          beta: data.beta,
+          bars: data.bars,
+        });
+      }
+
+      const report = analyzePortfolioRisk(holdings);
+      const date = formatDateInTimezone(new Date(), validateTimezone(user.timezone, getTimezoneFromEnv()));
+      const content = formatPortfolioRiskReport(report, date);
+
+      const { pageId, created } = await findOrCreateRiskPage(notion, user.sageStocksPageId, metrics);
+      const notionClient = createNotionClient({
+        apiKey: accessToken,
+        stockAnalysesDbId: user.stockAnalysesDbId || '',
+        stockHistoryDbId: user.stockHistoryDbId || '',
+        userId: user.notionUserId,
+        timezone: user.timezone,
+      });
+      await notionClient.writeAnalysisContent(pageId, content, 'replace');
+      metrics.notionApiCalls++;
+
+      if (created) metrics.pagesCreated++;
+      else metrics.pagesUpdated++;
+      metrics.warningsRaised += report.warnings.length;
+      metrics.usersProcessed++;
+
+      info('Portfolio risk report written', {
+        email: user.email,
+        holdings: report.holdings.length,
+        beta: report.beta.weighted,
+        var95: report.valueAtRisk?.percent,
+        warnings: report.warnings.length,
+      });
+    } catch (err) {
+      metrics.usersFailed++;
+      metrics.errors.push(`${user.email}: ${err instanceof Error ? err.message : String(err)}`);
+      logError('Portfolio risk report failed for user', { email: user.email }, err as Error);
+    }
+  }
+
+  metrics.endTime = new Date();
+  metrics.durationMs = timer.end(true);
+
+  info('Portfolio risk report completed', {
+    usersProcessed: metrics.usersProcessed,
+    pagesCreated: metrics.pagesCreated,
+    pagesUpdated: metrics.pagesUpdated,
+    warnings: metrics.warningsRaised,
+    fmpApiCalls: metrics.fmpApiCalls,
+  });
+
+  return metrics;
+}
+
+/**
+ * Render the report as markdown for NotionClient.writeAnalysisContent
+ */
+export function formatPortfolioRiskReport(report: PortfolioRiskReport, date: string): string {
+  const pct = (value?: number, digits = 1) =>
+    value === undefined ? 'n/a' : `${(value * 100).toFixed(digits)}%`;
+  const signedPct = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+  const usd = (value: number) => `$${Math.round(value).toLocaleString('en-US')}`;
+  const lines: string[] = [];
+
+  lines.push(`## Portfolio Risk - ${date}`);
+  lines.push(
+    `${report.holdings.length} holdings · ${usd(report.totalValue)} market value` +
+    (report.asOf ? ` · returns through ${report.asOf}` : '')
+  );
+  lines.push('');
+
+  if (report.warnings.length > 0) {
+    lines.push('<callout icon="⚠️" color="orange_bg">');
+    lines.push('**Risk warnings**');
+    for (const warning of report.warnings) {
+      lines.push(`- ${warning.message}`);
+    }
+    lines.push('</callout>');
+  } else {
+    lines.push('<callout icon="✅" color="green_bg">');
+    lines.push('No risk thresholds crossed.');
+    lines.push('</callout>');
+  }
+  lines.push('');
+
+  lines.push('### Key Metrics');
+  lines.push('| Metric | Value |');
+  lines.push('|---|---|');
+  lines.push(
+    `| Weighted beta | ${report.beta.weighted !== undefined ? report.beta.weighted.toFixed(2) : 'n/a'}` +
+    (report.beta.coverage < 0.999 ? ` (${pct(report.beta.coverage, 0)} of value)` : '') +
+    ' |'
+  );
+  lines.push(
+    `| Largest position | ${report.concentration.topTicker ? `${report.concentration.topTicker} ${pct(report.concentration.topWeight)}` : 'n/a'} |`
+  );
+  lines.push(`| Effective holdings (1/HHI) | ${report.concentration.effectiveHoldings.toFixed(1)} |`);
+  lines.push(`| Average pairwise correlation | ${report.correlation.average !== undefined ? report.correlation.average.toFixed(2) : 'n/a'} |`);
+  if (report.valueAtRisk) {
+    lines.push(
+      `| 1-day VaR (${pct(report.valueAtRisk.confidence, 0)}) | ${pct(report.valueAtRisk.percent, 2)} (${usd(report.valueAtRisk.amount)}) |`
+    );
+    lines.push(`| Expected shortfall | ${pct(report.valueAtRisk.expectedShortfall, 2)} |`);
+  } else {
+    lines.push('| 1-day VaR | n/a (not enough price history) |');
+  }
+  if (report.drawdown) {
+    lines.push(
+      `| Max drawdown (${report.drawdown.observations}d) | ${pct(report.drawdown.max)} (${report.drawdown.peakDate} → ${report.drawdown.troughDate}) |`
+    );
+    lines.push(`| Current drawdown | ${pct(report.drawdown.current)} |`);
+  }
+  lines.push('');
+
+  lines.push('### Sector Exposure vs. S&P 500');
+  lines.push('| Sector | Portfolio | Benchmark | Active |');
+  lines.push('|---|---|---|---|');
+  for (const sector of report.sectors) {
+    const label = sector.etf ? `${sector.sector} (${sector.etf})` : sector.sector;
+    lines.push(`| ${label} | ${pct(sector.weight)} | ${pct(sector.benchmarkWeight)} | ${signedPct(sector.activeWeight)} |`);
+  }
+  lines.push('');
+
+  if (report.correlation.pairs.length > 0) {
+    lines.push('### Most Correlated Pairs');
+    for (const pair of report.correlation.pairs.slice(0, MAX_PAIRS_SHOWN)) {
+      lines.push(`- ${pair.a} / ${pair.b}: ${pair.correlation.toFixed(2)} (${pair.observations} days)`);
+    }
+    lines.push('');
+  }
+
+  lines.push('### Holdings');
+  lines.push('| Ticker | Weight | Sector | Beta |');
+  lines.push('|---|---|---|---|');
+  for (const holding of report.holdings) {
+    lines.push(
+      `| ${holding.ticker} | ${pct(holding.weight)} | ${holding.sector} | ${holding.beta !== undefined ? holding.beta.toFixed(2) : 'n/a'} |`
+    );
+  }
+  lines.push('');
+  lines.push('---');
+  lines.push('*VaR and drawdown replay current weights over past daily returns; they describe today\'s mix, not past trading.*');
+
+  return lines.join('\n');
+}
+
+/**
+ * Read open positions from Portfolio Positions
+ */
+async function fetchOpenPositions(
+  notion: Client,
+  positionsDbId: string,
+  metrics: PortfolioRiskMetrics
+): Promise<OpenPosition[]> {
+  const db = await notion.databases.retrieve({ database_id: positionsDbId });
+  const dataSourceId = (db as any).data_sources?.[0]?.id;
+  metrics.notionApiCalls++;
+  if (!dataSourceId) {
+    throw new Error(`No data source found for database ${positionsDbId}`);
+  }
+
+  const positions: OpenPosition[] = [];
+  let hasMore = true;
+  let cursor: string | undefined;
+
+  while (hasMore) {
+    const response = await notion.dataSources.query({
+      data_source_id: dataSourceId,
+      filter: { property: 'Shares', number: { greater_than: 0 } },
+      start_cursor: cursor,
+    });
+    metrics.notionApiCalls++;
+
+    for (const page of response.results) {
+      const props = (page as any).properties;
+      const ticker = props.Ticker?.title?.[0]?.plain_text?.toUpperCase().trim();
+      const shares = props.Shares?.number;
+      if (!ticker || !(shares > 0) || props.Status?.select?.name === 'Closed') continue;
+
+      positions.push({
+        ticker,
+        shares,
+        marketValue: props['Market Value']?.number ?? undefined,
+        sector: props.Sector?.rich_text?.[0]?.plain_text || undefined,
+      });
+    }
+
+    hasMore = response.has_more;
+    cursor = response.next_cursor || undefined;
+  }
+
+  return positions;
+}
+
+/**
+ * Find the Portfolio Risk child page under Sage Stocks, creating it if missing
+ */
+async function findOrCreateRiskPage(
+  notion: Client,
+  sageStocksPageId: string,
+  metrics: PortfolioRiskMetrics
+): Promise<{ pageId: string; created: boolean }> {
+  let hasMore = true;
+  let cursor: string | undefined;
+
+  while (hasMore) {
+    const response = await notion.blocks.children.list({
+      block_id: sageStocksPageId,
+      start_cursor: cursor,
+      page_size: 100,
+    });
+    metrics.notionApiCalls++;
+
+    const existing = response.results.find(
+      (block: any) => block.type === 'child_page' && block.child_page?.title === PORTFOLIO_RISK_PAGE_TITLE
+    );
+    if (existing) {
+      return { pageId: existing.id, created: false };
+    }
+
+    hasMore = response.has_more;
+    cursor = response.next_cursor || undefined;
+  }
+
+  const page = await notion.pages.create({
+    parent: { page_id: sageStocksPageId },
+    icon: { type: 'emoji', emoji: '🛡️' },
+    properties: {
+      title: { title: [{ type: 'text', text: { content: PORTFOLIO_RISK_PAGE_TITLE } }] },
+    },
+  });
+  metrics.notionApiCalls++;
+
+  return { pageId: page.id, created: true };
+}
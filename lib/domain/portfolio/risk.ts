@@ -0,0 +1,461 @@
+/**
+ * Portfolio Risk Analytics
+ *
+ * Pure functions - no Notion or FMP access.
+ *
+ * Per-stock risk scores ignore how holdings interact; these metrics look at
+ * the portfolio as a whole:
+ * - Weighted beta (FMP profile beta, weighted by market value)
+ * - Concentration: top position, HHI / effective number of holdings
+ * - Sector weights vs. the S&P 500 sector benchmark (SECTOR_ETFS)
+ * - Pairwise correlation of daily returns
+ * - One-day historical VaR / expected shortfall and max drawdown of the
+ *   current weights replayed over the lookback window
+ *
+ * Warnings are raised when a metric crosses its threshold (defaults below,
+ * overridable per call).
+ */
+
+import { SECTOR_ETFS } from '../market/data-collector';
+import type { DailyBar } from '../market-data';
+import { UNKNOWN_SECTOR } from './positions';
+
+/** One trading year of daily returns for correlation, VaR and drawdown */
+const RISK_LOOKBACK_DAYS = 252;
+
+/** Fewer overlapping returns than this and a correlation/VaR is not reported */
+const RISK_MIN_OBSERVATIONS = 60;
+
+/** One-day historical VaR at 95% (the loss exceeded on ~1 day in 20) */
+const VAR_CONFIDENCE = 0.95;
+
+/** Single position above 20% of the portfolio - one name can dominate results */
+const MAX_POSITION_WEIGHT = 0.2;
+
+/** Any one sector above 40% of the portfolio */
+const MAX_SECTOR_WEIGHT = 0.4;
+
+/** Sector overweight vs. the benchmark by more than 15 points */
+const MAX_SECTOR_ACTIVE_WEIGHT = 0.15;
+
+/** A pair moving together this closely is effectively one bet */
+const MAX_PAIR_CORRELATION = 0.85;
+
+/** Average pairwise correlation above 0.6 leaves little diversification */
+const MAX_AVERAGE_CORRELATION = 0.6;
+
+/** Weighted beta above 1.3 - drawdowns ~30% deeper than the S&P 500 */
+const MAX_PORTFOLIO_BETA = 1.3;
+
+/**
+ * Benchmark sector weights (approximate S&P 500 GICS weights, i.e. the
+ * SPDR sector ETFs' share of the index). Keys match SECTOR_ETFS names.
+ * Drifts slowly - revisit a few times a year.
+ */
+const SECTOR_BENCHMARK_WEIGHTS: Record<string, number> = {
+  'Technology': 0.335,
+  'Financials': 0.135,
+  'Consumer Discretionary': 0.105,
+  'Communication Services': 0.1,
+  'Healthcare': 0.09,
+  'Industrials': 0.085,
+  'Consumer Staples': 0.055,
+  'Energy': 0.03,
+  'Utilities': 0.025,
+  'Real Estate': 0.02,
+  'Materials': 0.02,
+};
+
+/**
+ * One holding as input to the risk model
+ */
+export interface RiskHolding {
+  ticker: string;
+  marketValue: number;
+  sector?: string;
+  beta?: number;
+  bars: DailyBar[]; // Ascending completed sessions
+}
+
+export interface RiskThresholds {
+  maxPositionWeight: number;
+  maxSectorWeight: number;
+  maxSectorActiveWeight: number;
+  maxPairCorrelation: number;
+  maxAverageCorrelation: number;
+  maxPortfolioBeta: number;
+}
+
+export type RiskWarningType = 'position' | 'sector' | 'correlation' | 'beta' | 'data';
+
+export interface RiskWarning {
+  type: RiskWarningType;
+  message: string;
+}
+
+export interface SectorWeight {
+  sector: string;          // Benchmark (SECTOR_ETFS) name where the sector maps to one
+  etf?: string;            // e.g. XLK
+  weight: number;
+  benchmarkWeight: number;
+  activeWeight: number;    // weight - benchmarkWeight
+}
+
+export interface CorrelationPair {
+  a: string;
+  b: string;
+  correlation: number;
+  observations: number;
+}
+
+export interface PortfolioRiskReport {
+  asOf: string | null;       // Last return date used
+  totalValue: number;
+  holdings: Array<{ ticker: string; weight: number; sector: string; beta?: number }>;
+
+  beta: {
+    weighted?: number;
+    coverage: number;        // Share of market value with a known beta
+  };
+
+  concentration: {
+    topTicker?: string;
+    topWeight: number;
+    hhi: number;             // Σ weight²
+    effectiveHoldings: number; // 1 / HHI
+  };
+
+  sectors: SectorWeight[];   // Largest first
+
+  correlation: {
+    average?: number;        // Mean of all pairs with enough observations
+    pairs: CorrelationPair[]; // Highest first
+  };
+
+  valueAtRisk?: {
+    confidence: number;
+    percent: number;         // One-day loss as a fraction (positive)
+    amount: number;
+    expectedShortfall: number; // Mean loss beyond VaR (fraction)
+    observations: number;
+  };
+
+  drawdown?: {
+    max: number;             // Fraction (positive)
+    peakDate: string;
+    troughDate: string;
+    current: number;         // Below the running peak today
+    observations: number;
+  };
+
+  warnings: RiskWarning[];
+}
+
+export const DEFAULT_RISK_THRESHOLDS: RiskThresholds = {
+  maxPositionWeight: MAX_POSITION_WEIGHT,
+  maxSectorWeight: MAX_SECTOR_WEIGHT,
+  maxSectorActiveWeight: MAX_SECTOR_ACTIVE_WEIGHT,
+  maxPairCorrelation: MAX_PAIR_CORRELATION,
+  maxAverageCorrelation: MAX_AVERAGE_CORRELATION,
+  maxPortfolioBeta: MAX_PORTFOLIO_BETA,
+};
+
+/**
+ * FMP profile sector names → SECTOR_ETFS names
+ */
+const SECTOR_ALIASES: Record<string, string> = {
+  'information technology': 'Technology',
+  'financial services': 'Financials',
+  'financial': 'Financials',
+  'health care': 'Healthcare',
+  'consumer cyclical': 'Consumer Discretionary',
+  'consumer defensive': 'Consumer Staples',
+  'basic materials': 'Materials',
+  'communication': 'Communication Services',
+  'telecommunication services': 'Communication Services',
+};
+
+/**
+ * Map a profile sector to its benchmark (SECTOR_ETFS) name
+ */
+export function normalizeSector(sector?: string): string {
+  const trimmed = sector?.trim();
+  if (!trimmed) return UNKNOWN_SECTOR;
+  const lower = trimmed.toLowerCase();
+  const etf = SECTOR_ETFS.find((s) => s.name.toLowerCase() === lower);
+  return etf?.name || SECTOR_ALIASES[lower] || trimmed;
+}
+
+/**
+ * Daily simple returns keyed by the date of the later close
+ */
+function dailyReturns(bars: DailyBar[], lookback: number): Map<string, number> {
+  const returns = new Map<string, number>();
+  const start = Math.max(1, bars.length - lookback);
+  for (let i = start; i < bars.length; i++) {
+    const prev = bars[i - 1].close;
+    if (prev > 0) returns.set(bars[i].date, bars[i].close / prev - 1);
+  }
+  return returns;
+}
+
+/**
+ * Pearson correlation over the dates both series share
+ */
+export function correlation(
+  a: Map<string, number>,
+  b: Map<string, number>
+): { value: number; observations: number } | null {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (const [date, x] of a) {
+    const y = b.get(date);
+    if (y !== undefined) {
+      xs.push(x);
+      ys.push(y);
+    }
+  }
+
+  const n = xs.length;
+  if (n < 2) return null;
+  const meanX = xs.reduce((s, v) => s + v, 0) / n;
+  const meanY = ys.reduce((s, v) => s + v, 0) / n;
+
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (xs[i] - meanX) * (ys[i] - meanY);
+    varX += (xs[i] - meanX) ** 2;
+    varY += (ys[i] - meanY) ** 2;
+  }
+  if (varX === 0 || varY === 0) return null;
+  return { value: cov / Math.sqrt(varX * varY), observations: n };
+}
+
+/**
+ * Historical VaR and expected shortfall (losses as positive fractions)
+ */
+export function historicalVaR(
+  returns: number[],
+  confidence: number
+): { percent: number; expectedShortfall: number } | null {
+  if (returns.length === 0) return null;
+  const sorted = [...returns].sort((x, y) => x - y);
+  const tailCount = Math.max(1, Math.floor((1 - confidence) * sorted.length));
+  const tail = sorted.slice(0, tailCount);
+  return {
+    percent: Math.max(0, -sorted[tailCount - 1]),
+    expectedShortfall: Math.max(0, -(tail.reduce((s, v) => s + v, 0) / tail.length)),
+  };
+}
+
+/**
+ * Max and current drawdown of a compounded return series
+ */
+export function maxDrawdown(
+  series: Array<{ date: string; ret: number }>
+): { max: number; peakDate: string; troughDate: string; current: number } | null {
+  if (series.length === 0) return null;
+
+  let value = 1;
+  let peak = 1;
+  let peakDate = series[0].date;
+  let result = { max: 0, peakDate, troughDate: peakDate };
+
+  for (const { date, ret } of series) {
+    value *= 1 + ret;
+    if (value > peak) {
+      peak = value;
+      peakDate = date;
+    }
+    const drawdown = 1 - value / peak;
+    if (drawdown > result.max) {
+      result = { max: drawdown, peakDate, troughDate: date };
+    }
+  }
+
+  return { ...result, current: 1 - value / peak };
+}
+
+/**
+ * Compute portfolio risk metrics for the current holdings
+ *
+ * Holdings with fewer than RISK_MIN_OBSERVATIONS returns are kept in
+ * weights, beta and sectors but left out of the return-based metrics.
+ */
+export function analyzePortfolioRisk(
+  holdings: RiskHolding[],
+  overrides: Partial<RiskThresholds> = {}
+): PortfolioRiskReport {
+  const thresholds = { ...DEFAULT_RISK_THRESHOLDS, ...overrides };
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const warnings: RiskWarning[] = [];
+
+  const valued = holdings.filter((h) => h.marketValue > 0);
+  const totalValue = valued.reduce((sum, h) => sum + h.marketValue, 0);
+
+  const weighted = valued
+    .map((h) => ({
+      ...h,
+      sector: normalizeSector(h.sector),
+      weight: totalValue > 0 ? h.marketValue / totalValue : 0,
+    }))
+    .sort((a, b) => b.weight - a.weight);
+
+  // Beta
+  const withBeta = weighted.filter((h) => typeof h.beta === 'number' && isFinite(h.beta));
+  const betaCoverage = withBeta.reduce((sum, h) => sum + h.weight, 0);
+  const weightedBeta = betaCoverage > 0
+    ? withBeta.reduce((sum, h) => sum + h.weight * (h.beta as number), 0) / betaCoverage
+    : undefined;
+
+  if (weightedBeta !== undefined && weightedBeta > thresholds.maxPortfolioBeta) {
+    warnings.push({
+      type: 'beta',
+      message: `Portfolio beta ${weightedBeta.toFixed(2)} exceeds ${thresholds.maxPortfolioBeta.toFixed(2)}`,
+    });
+  }
+
+  // Concentration
+  const hhi = weighted.reduce((sum, h) => sum + h.weight ** 2, 0);
+  const top = weighted[0];
+  for (const h of weighted) {
+    if (h.weight > thresholds.maxPositionWeight) {
+      warnings.push({
+        type: 'position',
+        message: `${h.ticker} is ${pct(h.weight)} of the portfolio (limit ${pct(thresholds.maxPositionWeight)})`,
+      });
+    }
+  }
+
+  // Sectors vs. benchmark
+  const sectorTotals = new Map<string, number>();
+  for (const h of weighted) {
+    sectorTotals.set(h.sector, (sectorTotals.get(h.sector) || 0) + h.weight);
+  }
+  const sectors: SectorWeight[] = [...sectorTotals.entries()]
+    .map(([sector, weight]) => {
+      const benchmarkWeight = SECTOR_BENCHMARK_WEIGHTS[sector] || 0;
+      return {
+        sector,
+        etf: SECTOR_ETFS.find((s) => s.name === sector)?.symbol,
+        weight,
+        benchmarkWeight,
+        activeWeight: weight - benchmarkWeight,
+      };
+    })
+    .sort((a, b) => b.weight - a.weight);
+
+  for (const s of sectors) {
+    if (s.sector === UNKNOWN_SECTOR) continue;
+    if (s.weight > thresholds.maxSectorWeight) {
+      warnings.push({
+        type: 'sector',
+        message: `${s.sector} is ${pct(s.weight)} of the portfolio (limit ${pct(thresholds.maxSectorWeight)})`,
+      });
+    } else if (s.activeWeight > thresholds.maxSectorActiveWeight) {
+      warnings.push({
+        type: 'sector',
+        message: `${s.sector} is ${pct(s.activeWeight)} overweight vs. the S&P 500 (${pct(s.weight)} vs ${pct(s.benchmarkWeight)})`,
+      });
+    }
+  }
+
+  // Return-based metrics
+  const returnsByTicker = new Map<string, Map<string, number>>();
+  for (const h of weighted) {
+    const returns = dailyReturns(h.bars, RISK_LOOKBACK_DAYS);
+    if (returns.size >= RISK_MIN_OBSERVATIONS) {
+      returnsByTicker.set(h.ticker, returns);
+    } else {
+      warnings.push({
+        type: 'data',
+        message: `${h.ticker}: only ${returns.size} days of price history, excluded from correlation, VaR and drawdown`,
+      });
+    }
+  }
+
+  const pairs: CorrelationPair[] = [];
+  const tickers = [...returnsByTicker.keys()];
+  for (let i = 0; i < tickers.length; i++) {
+    for (let j = i + 1; j < tickers.length; j++) {
+      const result = correlation(returnsByTicker.get(tickers[i])!, returnsByTicker.get(tickers[j])!);
+      if (result && result.observations >= RISK_MIN_OBSERVATIONS) {
+        pairs.push({ a: tickers[i], b: tickers[j], correlation: result.value, observations: result.observations });
+      }
+    }
+  }
+  pairs.sort((x, y) => y.correlation - x.correlation);
+
+  const averageCorrelation = pairs.length > 0
+    ? pairs.reduce((sum, p) => sum + p.correlation, 0) / pairs.length
+    : undefined;
+
+  for (const p of pairs) {
+    if (p.correlation <= thresholds.maxPairCorrelation) break;
+    warnings.push({
+      type: 'correlation',
+      message: `${p.a} and ${p.b} are ${p.correlation.toFixed(2)} correlated (limit ${thresholds.maxPairCorrelation.toFixed(2)})`,
+    });
+  }
+  if (averageCorrelation !== undefined && averageCorrelation > thresholds.maxAverageCorrelation) {
+    warnings.push({
+      type: 'correlation',
+      message: `Average pairwise correlation ${averageCorrelation.toFixed(2)} exceeds ${thresholds.maxAverageCorrelation.toFixed(2)}`,
+    });
+  }
+
+  // Today's weights replayed over the dates every included holding traded
+  const included = weighted.filter((h) => returnsByTicker.has(h.ticker));
+  const includedWeight = included.reduce((sum, h) => sum + h.weight, 0);
+  const portfolioReturns: Array<{ date: string; ret: number }> = [];
+  if (included.length > 0 && includedWeight > 0) {
+    const [first, ...rest] = included.map((h) => returnsByTicker.get(h.ticker)!);
+    for (const date of [...first.keys()].sort()) {
+      if (!rest.every((returns) => returns.has(date))) continue;
+      const ret = included.reduce(
+        (sum, h) => sum + (h.weight / includedWeight) * returnsByTicker.get(h.ticker)!.get(date)!,
+        0
+      );
+      portfolioReturns.push({ date, ret });
+    }
+  }
+
+  let valueAtRisk: PortfolioRiskReport['valueAtRisk'];
+  let drawdown: PortfolioRiskReport['drawdown'];
+  if (portfolioReturns.length >= RISK_MIN_OBSERVATIONS) {
+    const varResult = historicalVaR(portfolioReturns.map((r) => r.ret), VAR_CONFIDENCE);
+    if (varResult) {
+      valueAtRisk = {
+        confidence: VAR_CONFIDENCE,
+        percent: varResult.percent,
+        amount: varResult.percent * totalValue,
+        expectedShortfall: varResult.expectedShortfall,
+        observations: portfolioReturns.length,
+      };
+    }
+    const dd = maxDrawdown(portfolioReturns);
+    if (dd) {
+      drawdown = { ...dd, observations: portfolioReturns.length };
+    }
+  }
+
+  return {
+    asOf: portfolioReturns[portfolioReturns.length - 1]?.date ?? null,
+    totalValue,
+    holdings: weighted.map((h) => ({ ticker: h.ticker, weight: h.weight, sector: h.sector, beta: h.beta })),
+    beta: { weighted: weightedBeta, coverage: betaCoverage },
+    concentration: {
+      topTicker: top?.ticker,
+      topWeight: top?.weight || 0,
+      hhi,
+      effectiveHoldings: hhi > 0 ? 1 / hhi : 0,
+    },
+    sectors,
+    correlation: { average: averageCorrelation, pairs },
+    valueAtRisk,
+    drawdown,
+    warnings,
+  };
+}
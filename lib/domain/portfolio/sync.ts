@@ -0,0 +1,374 @@
+/**
+ * Portfolio Positions Sync
+ *
+ * Runs once the daily orchestrator run completes. For every user with both
+ * portfolio databases, replays Portfolio Transactions into positions,
+ * prices them and upserts one Portfolio Positions row per ticker. Rows for
+ * tickers that no longer have any transactions are moved to the trash.
+ *
+ * Prices come from the run's analyses where available; other open holdings
+ * are quoted from FMP in one batch (shared across users). Sector comes from
+ * the analysis or stays what's already on the row.
+ */
+
+import { Client } from '@notionhq/client';
+import { User, decryptToken } from '../../core/auth';
+import { info, warn, error as logError, createTimer } from '../../core/logger';
+import { createFMPClient } from '../../integrations/fmp/client';
+import { buildPositions, summarizePortfolio } from './positions';
+import { PortfolioPosition, PortfolioTransaction, TickerQuote } from './types';
+
+export interface PortfolioSyncMetrics {
+  startTime: Date;
+  endTime?: Date;
+  durationMs?: number;
+
+  usersProcessed: number;
+  usersSkipped: number; // No portfolio databases configured
+  usersFailed: number;
+
+  transactionsRead: number;
+  positionsCreated: number;
+  positionsUpdated: number;
+  positionsRemoved: number; // Rows whose transactions were all deleted
+  unpricedPositions: number;
+  quotesFetched: number; // Held tickers priced from FMP rather than the run
+
+  notionApiCalls: number;
+
+  warnings: string[];
+  errors: string[];
+}
+
+/**
+ * Existing Portfolio Positions row
+ */
+interface PositionRow {
+  pageId: string;
+  currentPrice?: number;
+  priceDate?: string;
+  sector?: string;
+}
+
+/**
+ * Recompute Portfolio Positions for all users
+ *
+ * @param prices - Prices from this run, keyed by ticker (other holdings are quoted)
+ */
+export async function updatePortfolioPositions(
+  users: User[],
+  prices: Record<string, TickerQuote>
+): Promise<PortfolioSyncMetrics> {
+  const timer = createTimer('Portfolio Positions Sync');
+
+  const metrics: PortfolioSyncMetrics = {
+    startTime: new Date(),
+    usersProcessed: 0,
+    usersSkipped: 0,
+    usersFailed: 0,
+    transactionsRead: 0,
+    positionsCreated: 0,
+    positionsUpdated: 0,
+    positionsRemoved: 0,
+    unpricedPositions: 0,
+    quotesFetched: 0,
+    notionApiCalls: 0,
+    warnings: [],
+    errors: [],
+  };
+  const quotes = new Map<string, TickerQuote | null>(); // One FMP quote per ticker across users
+
+  for (const user of users) {
+    if (user.status !== 'approved' || !user.portfolioPositionsDbId || !user.portfolioTransactionsDbId) {
+      metrics.usersSkipped++;
+      continue;
+    }
+
+    try {
+      const notion = new Client({ auth: await decryptToken(user.accessToken), notionVersion: '2025-09-03' });
+
+      const transactions = await fetchTransactions(notion, user.portfolioTransactionsDbId, metrics);
+      const rows = await fetchPositionRows(notion, user.portfolioPositionsDbId, metrics);
+      if (transactions === null || rows === null) {
+        metrics.usersSkipped++;
+        continue;
+      }
+      metrics.transactionsRead += transactions.length;
+
+      // Open holdings the run didn't analyze are quoted, so none stays unpriced
+      const openTickers = buildPositions(transactions)
+        .filter((position) => position.status === 'Open')
+        .map((position) => position.ticker);
+      await loadQuotes(openTickers.filter((ticker) => !prices[ticker]), quotes, metrics);
+
+      // This run's prices win, then fresh quotes, then the last price written to the row
+      const merged: Record<string, TickerQuote> = {};
+      for (const [ticker, row] of rows) {
+        if (row.currentPrice && row.currentPrice > 0) {
+          merged[ticker] = { price: row.currentPrice, sector: row.sector, asOf: row.priceDate };
+        }
+      }
+      for (const ticker of openTickers) {
+        const quote = quotes.get(ticker);
+        if (quote) merged[ticker] = { ...quote, sector: merged[ticker]?.sector };
+      }
+      for (const [ticker, quote] of Object.entries(prices)) {
+        merged[ticker] = { ...quote, sector: quote.sector || merged[ticker]?.sector };
+      }
+
+      const summary = summarizePortfolio(transactions, merged);
+      metrics.unpricedPositions += summary.totals.unpricedPositions;
+      metrics.warnings.push(...summary.warnings.map((w) => `${user.email} ${w}`));
+
+      for (const position of summary.positions) {
+        const row = rows.get(position.ticker);
+        const properties = buildPositionProperties(position);
+
+        if (row) {
+          await notion.pages.update({ page_id: row.pageId, properties });
+          metrics.positionsUpdated++;
+        } else {
+          await notion.pages.create({
+            parent: { database_id: user.portfolioPositionsDbId },
+            properties,
+          });
+          metrics.positionsCreated++;
+        }
+        metrics.notionApiCalls++;
+      }
+
+      // Every transaction for these tickers was deleted - drop their rows
+      const current = new Set(summary.positions.map((position) => position.ticker));
+      for (const [ticker, row] of rows) {
+        if (current.has(ticker)) continue;
+        await notion.pages.update({ page_id: row.pageId, in_trash: true });
+        metrics.positionsRemoved++;
+        metrics.notionApiCalls++;
+      }
+
+      info('Portfolio positions updated', {
+        email: user.email,
+        open: summary.totals.openPositions,
+        marketValue: Math.round(summary.totals.marketValue * 100) / 100,
+        unrealizedPnl: Math.round(summary.totals.unrealizedPnl * 100) / 100,
+        realizedPnl: Math.round(summary.totals.realizedPnl * 100) / 100,
+      });
+      metrics.usersProcessed++;
+    } catch (err) {
+      metrics.usersFailed++;
+      metrics.errors.push(`${user.email}: ${err instanceof Error ? err.message : String(err)}`);
+      logError('Portfolio positions sync failed for user', { email: user.email }, err as Error);
+    }
+  }
+
+  metrics.endTime = new Date();
+  metrics.durationMs = timer.end(true);
+
+  info('Portfolio positions sync completed', {
+    usersProcessed: metrics.usersProcessed,
+    created: metrics.positionsCreated,
+    updated: metrics.positionsUpdated,
+    removed: metrics.positionsRemoved,
+    quoted: metrics.quotesFetched,
+    unpriced: metrics.unpricedPositions,
+    warnings: metrics.warnings.length,
+  });
+
+  return metrics;
+}
+
+/**
+ * Quote held tickers not priced yet (null when FMP has no quote)
+ *
+ * A failed batch leaves the tickers on their row's last price.
+ */
+async function loadQuotes(
+  tickers: string[],
+  cache: Map<string, TickerQuote | null>,
+  metrics: PortfolioSyncMetrics
+): Promise<void> {
+  const missing = tickers.filter((ticker) => !cache.has(ticker));
+  if (missing.length === 0) return;
+
+  try {
+    const fmpApiKey = process.env.FMP_API_KEY;
+    if (!fmpApiKey) {
+      throw new Error('FMP_API_KEY not set');
+    }
+    const asOf = new Date().toISOString();
+    for (const quote of await createFMPClient(fmpApiKey).getQuotes(missing)) {
+      if (quote.price > 0) {
+        cache.set(quote.symbol.toUpperCase(), { price: quote.price, asOf });
+        metrics.quotesFetched++;
+      }
+    }
+  } catch (err) {
+    warn('Portfolio quote fetch failed', { tickers: missing.join(','), error: err instanceof Error ? err.message : String(err) });
+    return; // Not cached - another user holding them retries
+  }
+
+  for (const ticker of missing) {
+    if (!cache.has(ticker)) cache.set(ticker, null);
+  }
+}
+
+/**
+ * Notion properties for a Portfolio Positions row
+ *
+ * Valuation fields are cleared (null) for closed or unpriced positions.
+ */
+function buildPositionProperties(position: PortfolioPosition): Record<string, any> {
+  const money = (value?: number) => (value === undefined ? null : Math.round(value * 100) / 100);
+  const ratio = (value?: number) => (value === undefined ? null : Math.round(value * 10000) / 10000);
+  const date = (value?: string) => (value ? { start: value } : null);
+
+  const properties: Record<string, any> = {
+    'Ticker': { title: [{ text: { content: position.ticker } }] },
+    'Status': { select: { name: position.status } },
+    'Shares': { number: position.shares },
+    'Average Cost': { number: Math.round(position.averageCost * 10000) / 10000 },
+    'Cost Basis': { number: money(position.costBasis) },
+    'Open Lots': { number: position.lots.length },
+    'Market Value': { number: money(position.marketValue) },
+    'Unrealized P&L': { number: money(position.unrealizedPnl) },
+    'Unrealized P&L (%)': { number: ratio(position.unrealizedPnlPercent) },
+    'Realized P&L': { number: money(position.realizedPnl) },
+    'Position Weight': { number: ratio(position.weight) },
+    'Sector Exposure': { number: ratio(position.sectorExposure) },
+    'First Bought': { date: date(position.firstBought) },
+    'Last Transaction': { date: date(position.lastTransaction) },
+  };
+
+  // Keep the last known price on closed/unpriced rows
+  if (position.currentPrice !== undefined) {
+    properties['Current Price'] = { number: position.currentPrice };
+    properties['Price Date'] = { date: date(position.priceDate) };
+  }
+  if (position.sector) {
+    properties['Sector'] = { rich_text: [{ text: { content: position.sector } }] };
+  }
+
+  return properties;
+}
+
+/**
+ * Resolve the data source ID for a database (API v2025-09-03)
+ */
+async function getDataSourceId(notion: Client, databaseId: string, metrics: PortfolioSyncMetrics): Promise<string> {
+  const db = await notion.databases.retrieve({ database_id: databaseId });
+  metrics.notionApiCalls++;
+  const dataSourceId = (db as any).data_sources?.[0]?.id;
+  if (!dataSourceId) {
+    throw new Error(`No data source found for database ${databaseId}`);
+  }
+  return dataSourceId;
+}
+
+/**
+ * Query every page of a data source
+ *
+ * @returns null if the query is rejected as invalid (template missing properties)
+ */
+async function queryAll(
+  notion: Client,
+  dataSourceId: string,
+  metrics: PortfolioSyncMetrics,
+  label: string
+): Promise<any[] | null> {
+  const pages: any[] = [];
+  let hasMore = true;
+  let cursor: string | undefined;
+
+  while (hasMore) {
+    let response;
+    try {
+      response = await notion.dataSources.query({
+        data_source_id: dataSourceId,
+        start_cursor: cursor,
+      });
+      metrics.notionApiCalls++;
+    } catch (err: any) {
+      if (err.code === 'validation_error') {
+        warn(`${label} query rejected, skipping`, { dataSourceId, error: err.message });
+        return null;
+      }
+      throw err;
+    }
+
+    pages.push(...response.results);
+    hasMore = response.has_more;
+    cursor = response.next_cursor || undefined;
+  }
+
+  return pages;
+}
+
+/**
+ * Read all trades from Portfolio Transactions
+ *
+ * Rows missing a ticker, type, shares, price or trade date are ignored.
+ */
+async function fetchTransactions(
+  notion: Client,
+  transactionsDbId: string,
+  metrics: PortfolioSyncMetrics
+): Promise<PortfolioTransaction[] | null> {
+  const dataSourceId = await getDataSourceId(notion, transactionsDbId, metrics);
+  const pages = await queryAll(notion, dataSourceId, metrics, 'Portfolio Transactions');
+  if (pages === null) return null;
+
+  const transactions: PortfolioTransaction[] = [];
+  for (const page of pages) {
+    const props = page.properties || {};
+    const ticker = props.Ticker?.rich_text?.[0]?.plain_text?.toUpperCase().trim();
+    const type = props.Type?.select?.name;
+    const shares = props.Shares?.number;
+    const price = props.Price?.number;
+    const tradeDate = props['Trade Date']?.date?.start?.split('T')[0];
+
+    if (!ticker || (type !== 'Buy' && type !== 'Sell') || !(shares > 0) || !(price >= 0) || !tradeDate) {
+      continue;
+    }
+
+    transactions.push({
+      id: page.id,
+      ticker,
+      type,
+      shares,
+      price,
+      fees: props.Fees?.number || 0,
+      tradeDate,
+    });
+  }
+
+  return transactions;
+}
+
+/**
+ * Read existing Portfolio Positions rows, keyed by ticker
+ */
+async function fetchPositionRows(
+  notion: Client,
+  positionsDbId: string,
+  metrics: PortfolioSyncMetrics
+): Promise<Map<string, PositionRow> | null> {
+  const dataSourceId = await getDataSourceId(notion, positionsDbId, metrics);
+  const pages = await queryAll(notion, dataSourceId, metrics, 'Portfolio Positions');
+  if (pages === null) return null;
+
+  const rows = new Map<string, PositionRow>();
+  for (const page of pages) {
+    const props = page.properties || {};
+    const ticker = props.Ticker?.title?.[0]?.plain_text?.toUpperCase().trim();
+    if (!ticker || rows.has(ticker)) continue;
+
+    rows.set(ticker, {
+      pageId: page.id,
+      currentPrice: props['Current Price']?.number ?? undefined,
+      priceDate: props['Price Date']?.date?.start ?? undefined,
+      sector: props.Sector?.rich_text?.[0]?.plain_text || undefined,
+    });
+  }
+
+  return rows;
+}
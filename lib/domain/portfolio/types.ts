@@ -0,0 +1,87 @@
+/**
+ * Portfolio Types
+ *
+ * Transactions are entered by the user in Notion; positions are derived
+ * from them (FIFO lots) and priced with the daily analysis run.
+ */
+
+export type TransactionType = 'Buy' | 'Sell';
+
+export type PositionStatus = 'Open' | 'Closed';
+
+/**
+ * A single buy or sell from the Portfolio Transactions database
+ */
+export interface PortfolioTransaction {
+  id?: string;       // Notion page ID
+  ticker: string;
+  type: TransactionType;
+  shares: number;    // Always positive
+  price: number;     // Per share
+  fees: number;
+  tradeDate: string; // YYYY-MM-DD
+}
+
+/**
+ * Latest known price for a ticker
+ */
+export interface TickerQuote {
+  price: number;
+  sector?: string;
+  asOf?: string; // ISO timestamp or YYYY-MM-DD
+}
+
+/**
+ * Open tax lot (buy fees folded into the cost per share)
+ */
+export interface PositionLot {
+  shares: number;
+  costPerShare: number;
+  tradeDate: string;
+}
+
+/**
+ * Holdings and P&L for one ticker
+ *
+ * Valuation fields are undefined when no price is known for the ticker.
+ */
+export interface PortfolioPosition {
+  ticker: string;
+  status: PositionStatus;
+  sector?: string;
+
+  shares: number;
+  averageCost: number; // Cost basis / shares (0 when closed)
+  costBasis: number;
+  lots: PositionLot[];
+
+  currentPrice?: number;
+  priceDate?: string;
+  marketValue?: number;
+  unrealizedPnl?: number;
+  unrealizedPnlPercent?: number; // Fraction of cost basis
+  realizedPnl: number;
+
+  weight?: number;         // Fraction of total portfolio market value
+  sectorExposure?: number; // Fraction of total portfolio market value in this sector
+
+  firstBought?: string;    // Oldest open lot
+  lastTransaction?: string;
+}
+
+/**
+ * Positions plus portfolio-level totals
+ */
+export interface PortfolioSummary {
+  positions: PortfolioPosition[]; // Open positions first, largest market value first
+  totals: {
+    costBasis: number;
+    marketValue: number;       // Priced open positions only
+    unrealizedPnl: number;
+    realizedPnl: number;
+    openPositions: number;
+    unpricedPositions: number; // Open positions with no known price
+  };
+  sectorExposure: Record<string, number>; // Sector → fraction of market value
+  warnings: string[];
+}
@@ -0,0 +1,13 @@
+/**
+ * Review Module - Public API
+ *
+ * Periodic cross-portfolio narratives written to Notion by the LLM.
+ */
+
+// Weekly "Week in Review" page
+export {
+  runWeeklyReview,
+  formatWeeklyReviewContent,
+  WEEK_IN_REVIEW_PAGE_PREFIX,
+} from './weekly';
+export type { WeeklyReviewMetrics } from './weekly';
@@ -0,0 +1,514 @@
+/**
+ * Weekly Review ("Week in Review")
+ *
+ * Weekly job body: for every user with Stock History and a Sage Stocks page,
+ * gathers the last five trading days of Stock History rows, Market Context
+ * rows and next week's Stock Events, asks the LLM for a cross-portfolio
+ * narrative and writes it to a "Week in Review - {date}" child page under
+ * Sage Stocks. Re-running the same week rewrites that week's page.
+ *
+ * The narrative uses each user's LLM preference and daily budget like an
+ * analysis; past the hard cap the page is written with the numbers only.
+ */
+
+import { Client } from '@notionhq/client';
+import { User, decryptToken } from '../../core/auth';
+import { info, warn, error as logError, createTimer } from '../../core/logger';
+import { recordLLMCost } from '../../integrations/llm/cost-ledger';
+import { applyBudget, checkLLMBudget, describeBudgetSkip } from '../../integrations/llm/budget';
+import { createProviderForSelection, resolveLLMSelection } from '../../integrations/llm/preferences';
+import { calculateModelCost } from '../../integrations/llm/pricing';
+import { buildWeeklyReviewPrompt } from '../../integrations/llm/prompts/weekly-review';
+import { AnalysisResult, WeeklyReviewContext } from '../../integrations/llm/types';
+import { createNotionClient } from '../../integrations/notion/client';
+import { formatDateInTimezone, getTimezoneFromEnv, validateTimezone } from '../../shared/timezone';
+
+/** Title prefix of the weekly child pages under Sage Stocks */
+export const WEEK_IN_REVIEW_PAGE_PREFIX = 'Week in Review';
+
+const TRADING_DAYS = 5;
+/** Calendar days that always contain five trading days (weekend + a holiday) */
+const HISTORY_LOOKBACK_DAYS = 10;
+/** From the run (Saturday) through the end of next week */
+const EVENT_WINDOW_DAYS = 8;
+const MAX_EVENTS = 20;
+const MAX_MOVERS = 3;
+
+export interface WeeklyReviewMetrics {
+  startTime: Date;
+  endTime?: Date;
+  durationMs?: number;
+
+  usersProcessed: number;
+  usersSkipped: number; // No Stock History, Sage Stocks page or analyses this week
+  usersFailed: number;
+
+  pagesCreated: number;
+  pagesUpdated: number;
+
+  llmCalls: number;
+  tokensUsed: { input: number; output: number };
+  totalCost: number; // USD
+
+  notionApiCalls: number;
+  errors: string[];
+}
+
+interface HistoryRow {
+  ticker: string;
+  date: string; // YYYY-MM-DD (UTC)
+  composite: number;
+  recommendation: string;
+  companyName?: string;
+  price?: number;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+async function getDataSourceId(notion: Client, databaseId: string, metrics: WeeklyReviewMetrics): Promise<string> {
+  const db = await notion.databases.retrieve({ database_id: databaseId });
+  metrics.notionApiCalls++;
+  const dataSourceId = (db as any).data_sources?.[0]?.id;
+  if (!dataSourceId) {
+    throw new Error(`No data source found for database ${databaseId}`);
+  }
+  return dataSourceId;
+}
+
+/**
+ * Query every page matching a filter (paginated)
+ */
+async function queryAll(
+  notion: Client,
+  databaseId: string,
+  filter: any,
+  sorts: any[],
+  metrics: WeeklyReviewMetrics
+): Promise<any[]> {
+  const dataSourceId = await getDataSourceId(notion, databaseId, metrics);
+  const pages: any[] = [];
+  let hasMore = true;
+  let cursor: string | undefined;
+
+  while (hasMore) {
+    const response = await notion.dataSources.query({
+      data_source_id: dataSourceId,
+      filter,
+      sorts,
+      start_cursor: cursor,
+      page_size: 100,
+    });
+    metrics.notionApiCalls++;
+    pages.push(...response.results);
+    hasMore = response.has_more;
+    cursor = response.next_cursor || undefined;
+  }
+
+  return pages;
+}
+
+/**
+ * Stock History rows from the last five trading days, oldest first
+ */
+async function loadWeekHistory(
+  notion: Client,
+  stockHistoryDbId: string,
+  date: string,
+  metrics: WeeklyReviewMetrics
+): Promise<HistoryRow[]> {
+  const pages = await queryAll(
+    notion,
+    stockHistoryDbId,
+    { property: 'Analysis Date', date: { on_or_after: addDays(date, -HISTORY_LOOKBACK_DAYS) } },
+    [{ property: 'Analysis Date', direction: 'ascending' }],
+    metrics
+  );
+
+  const rows: HistoryRow[] = [];
+  for (const page of pages) {
+    const props = page.properties || {};
+    const ticker = props.Ticker?.rich_text?.[0]?.plain_text?.toUpperCase().trim();
+    const start = props['Analysis Date']?.date?.start;
+    const composite = props['Composite Score']?.number;
+    if (!ticker || !start || typeof composite !== 'number') continue;
+
+    rows.push({
+      ticker,
+      date: new Date(start).toISOString().split('T')[0],
+      composite,
+      recommendation: props.Recommendation?.select?.name || '',
+      companyName: props['Company Name']?.rich_text?.[0]?.plain_text || undefined,
+      price: props['Current Price']?.number ?? undefined,
+    });
+  }
+
+  const tradingDays = [...new Set(rows.map((row) => row.date))].sort().slice(-TRADING_DAYS);
+  return rows.filter((row) => tradingDays.includes(row.date));
+}
+
+/**
+ * One row per day from the Market Context database (written by the market-context job)
+ */
+async function loadMarketDays(
+  notion: Client,
+  marketContextDbId: string,
+  weekStart: string,
+  metrics: WeeklyReviewMetrics
+): Promise<WeeklyReviewContext['marketDays']> {
+  const pages = await queryAll(
+    notion,
+    marketContextDbId,
+    { property: 'Date', date: { on_or_after: weekStart } },
+    [{ property: 'Date', direction: 'ascending' }],
+    metrics
+  );
+
+  const byDate = new Map<string, WeeklyReviewContext['marketDays'][number]>();
+  for (const page of pages) {
+    const props = page.properties || {};
+    const date = props.Date?.date?.start?.split('T')[0];
+    if (!date) continue;
+
+    // Later rows for the same day win (the job upserts but may have re-run)
+    byDate.set(date, {
+      date,
+      regime: props['Market Regime']?.select?.name || undefined,
+      riskLevel: props['Risk Assessment']?.select?.name || undefined,
+      vix: props['VIX Level']?.number ?? undefined,
+      spyChange1d: props['SPY 1D Change']?.number ?? undefined,
+      topSector: props['Top Sectors']?.multi_select?.[0]?.name || undefined,
+      worstSector: props['Bottom Sectors']?.multi_select?.[0]?.name || undefined,
+    });
+  }
+
+  return [...byDate.values()];
+}
+
+async function loadNextWeekEvents(
+  notion: Client,
+  stockEventsDbId: string,
+  date: string,
+  tickers: Set<string>,
+  metrics: WeeklyReviewMetrics
+): Promise<WeeklyReviewContext['upcomingEvents']> {
+  const pages = await queryAll(
+    notion,
+    stockEventsDbId,
+    {
+      and: [
+        { property: 'Event Date', date: { on_or_after: date } },
+        { property: 'Event Date', date: { on_or_before: addDays(date, EVENT_WINDOW_DAYS) } },
+      ],
+    },
+    [{ property: 'Event Date', direction: 'ascending' }],
+    metrics
+  );
+
+  const events: WeeklyReviewContext['upcomingEvents'] = [];
+  for (const page of pages) {
+    const props = page.properties || {};
+    if (props.Status?.select?.name === 'Cancelled') continue;
+
+    const ticker = props.Ticker?.rich_text?.[0]?.plain_text?.toUpperCase().trim();
+    const eventDate = props['Event Date']?.date?.start;
+    if (!ticker || !eventDate) continue;
+    if (tickers.size > 0 && !tickers.has(ticker) && props['Event Type']?.select?.name !== 'Economic Event') continue;
+
+    events.push({
+      ticker,
+      eventType: props['Event Type']?.select?.name || 'Event',
+      date: eventDate.split('T')[0],
+      description: props.Description?.rich_text?.[0]?.plain_text || undefined,
+    });
+  }
+
+  return events.slice(0, MAX_EVENTS);
+}
+
+/**
+ * First vs. last row per ticker, with winners and losers by weekly price change
+ */
+function summarizeWeek(rows: HistoryRow[]): Pick<WeeklyReviewContext, 'weekStart' | 'weekEnd' | 'stocks' | 'winners' | 'losers'> {
+  const byTicker = new Map<string, HistoryRow[]>();
+  for (const row of rows) {
+    const list = byTicker.get(row.ticker) || [];
+    list.push(row);
+    byTicker.set(row.ticker, list);
+  }
+
+  const stocks: WeeklyReviewContext['stocks'] = [];
+  for (const [ticker, list] of byTicker) {
+    const first = list[0];
+    const last = list[list.length - 1];
+    const priceChange =
+      first.price && last.price && list.length > 1 ? (last.price - first.price) / first.price : undefined;
+
+    stocks.push({
+      ticker,
+      companyName: last.companyName || first.companyName,
+      startComposite: first.composite,
+      endComposite: last.composite,
+      startRecommendation: first.recommendation,
+      endRecommendation: last.recommendation,
+      startPrice: first.price,
+      endPrice: last.price,
+      priceChange,
+      analyses: list.length,
+    });
+  }
+
+  stocks.sort((a, b) => b.endComposite - a.endComposite);
+
+  const priced = stocks
+    .filter((s) => s.priceChange !== undefined)
+    .sort((a, b) => b.priceChange! - a.priceChange!);
+  const winners = priced.filter((s) => s.priceChange! > 0).slice(0, MAX_MOVERS).map((s) => s.ticker);
+  const losers = priced.filter((s) => s.priceChange! < 0).reverse().slice(0, MAX_MOVERS).map((s) => s.ticker);
+
+  const dates = rows.map((row) => row.date).sort();
+  return {
+    weekStart: dates[0],
+    weekEnd: dates[dates.length - 1],
+    stocks,
+    winners,
+    losers,
+  };
+}
+
+/**
+ * Markdown for the Week in Review page: LLM narrative, then the data it was given
+ */
+export function formatWeeklyReviewContent(
+  context: WeeklyReviewContext,
+  llmResult: AnalysisResult,
+  cost: number
+): string {
+  const lines: string[] = [];
+
+  const pct = (value?: number) =>
+    value === undefined ? 'N/A' : `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+
+  lines.push(`<callout icon="🗓️" color="blue_bg">`);
+  lines.push(
+    `**Week of ${context.weekStart} to ${context.weekEnd}** · ${context.stocks.length} stocks · ` +
+      `Winners: ${context.winners.join(', ') || 'none'} · Losers: ${context.losers.join(', ') || 'none'}`
+  );
+  lines.push(`</callout>`);
+  lines.push('');
+  lines.push(llmResult.content.trim());
+  lines.push('');
+  lines.push('---');
+  lines.push('');
+  lines.push('## Week in Numbers');
+  lines.push('');
+  lines.push('| Ticker | Composite | Change | Rating | Price | Week |');
+  lines.push('|---|---|---|---|---|---|');
+  for (const s of context.stocks) {
+    const change = s.endComposite - s.startComposite;
+    const rating = s.startRecommendation === s.endRecommendation
+      ? s.endRecommendation
+      : `${s.startRecommendation} → ${s.endRecommendation}`;
+    lines.push(
+      `| ${s.ticker} | ${s.endComposite.toFixed(2)} | ${change >= 0 ? '+' : ''}${change.toFixed(2)} | ${rating} | ${s.endPrice !== undefined ? `$${s.endPrice.toFixed(2)}` : 'N/A'} | ${pct(s.priceChange)} |`
+    );
+  }
+  if (llmResult.modelUsed !== 'none') {
+    lines.push('');
+    lines.push(
+      `*Generated by ${llmResult.modelUsed} · ${llmResult.tokensUsed.input.toLocaleString()} in / ` +
+        `${llmResult.tokensUsed.output.toLocaleString()} out tokens · $${cost.toFixed(4)}*`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Find this week's page under Sage Stocks, creating it if missing
+ */
+async function findOrCreateReviewPage(
+  notion: Client,
+  sageStocksPageId: string,
+  title: string,
+  metrics: WeeklyReviewMetrics
+): Promise<{ pageId: string; created: boolean }> {
+  let hasMore = true;
+  let cursor: string | undefined;
+
+  while (hasMore) {
+    const response = await notion.blocks.children.list({
+      block_id: sageStocksPageId,
+      start_cursor: cursor,
+      page_size: 100,
+    });
+    metrics.notionApiCalls++;
+
+    const existing = response.results.find(
+      (block: any) => block.type === 'child_page' && block.child_page?.title === title
+    );
+    if (existing) {
+      return { pageId: existing.id, created: false };
+    }
+
+    hasMore = response.has_more;
+    cursor = response.next_cursor || undefined;
+  }
+
+  const page = await notion.pages.create({
+    parent: { page_id: sageStocksPageId },
+    icon: { type: 'emoji', emoji: '🗓️' },
+    properties: {
+      title: { title: [{ type: 'text', text: { content: title } }] },
+    },
+  });
+  metrics.notionApiCalls++;
+
+  return { pageId: page.id, created: true };
+}
+
+/**
+ * Build and write the Week in Review page for all users
+ *
+ * @param users - All beta users (filtered to approved users with Stock History + Sage Stocks page)
+ * @param now - Run time (default: now)
+ */
+export async function runWeeklyReview(users: User[], now: Date = new Date()): Promise<WeeklyReviewMetrics> {
+  const timer = createTimer('Weekly Review');
+
+  const metrics: WeeklyReviewMetrics = {
+    startTime: new Date(),
+    usersProcessed: 0,
+    usersSkipped: 0,
+    usersFailed: 0,
+    pagesCreated: 0,
+    pagesUpdated: 0,
+    llmCalls: 0,
+    tokensUsed: { input: 0, output: 0 },
+    totalCost: 0,
+    notionApiCalls: 0,
+    errors: [],
+  };
+
+  for (const user of users) {
+    if (user.status !== 'approved' || !user.stockHistoryDbId || !user.sageStocksPageId) {
+      metrics.usersSkipped++;
+      continue;
+    }
+
+    try {
+      const accessToken = await decryptToken(user.accessToken);
+      const notion = new Client({ auth: accessToken, notionVersion: '2025-09-03' });
+      const date = formatDateInTimezone(now, validateTimezone(user.timezone, getTimezoneFromEnv()));
+
+      const rows = await loadWeekHistory(notion, user.stockHistoryDbId, date, metrics);
+      if (rows.length === 0) {
+        metrics.usersSkipped++;
+        continue;
+      }
+      const week = summarizeWeek(rows);
+
+      // Market Context and Stock Events are optional - a failure drops the section
+      let marketDays: WeeklyReviewContext['marketDays'] = [];
+      if (user.marketContextDbId) {
+        try {
+          marketDays = await loadMarketDays(notion, user.marketContextDbId, week.weekStart, metrics);
+        } catch (err) {
+          warn('Weekly review: Market Context unavailable', { email: user.email, error: (err as Error).message });
+        }
+      }
+
+      let upcomingEvents: WeeklyReviewContext['upcomingEvents'] = [];
+      if (user.stockEventsDbId) {
+        try {
+          const tickers = new Set(week.stocks.map((s) => s.ticker));
+          upcomingEvents = await loadNextWeekEvents(notion, user.stockEventsDbId, date, tickers, metrics);
+        } catch (err) {
+          warn('Weekly review: Stock Events unavailable', { email: user.email, error: (err as Error).message });
+        }
+      }
+
+      const context: WeeklyReviewContext = { ...week, marketDays, upcomingEvents };
+      const llmSelection = resolveLLMSelection(null, user);
+      const budget = await checkLLMBudget(user.id, user.subscriptionTier, llmSelection);
+      const selection = applyBudget(llmSelection, budget);
+
+      let llmResult: AnalysisResult;
+      let cost = 0;
+      if (!selection) {
+        warn('Weekly review: LLM budget exhausted - numbers only', { email: user.email });
+        llmResult = {
+          content:
+            `The written review was skipped: ${describeBudgetSkip(budget)}. ` +
+            'The numbers below are complete. Reviews resume with next week\'s budget, or right away with your own API key in Settings → AI Model.',
+          modelUsed: 'none',
+          tokensUsed: { input: 0, output: 0 },
+          cost: 0,
+          latencyMs: 0,
+        };
+      } else {
+        const llmProvider = await createProviderForSelection(selection);
+        llmResult = await llmProvider.generateText(buildWeeklyReviewPrompt(context));
+        cost = calculateModelCost(llmResult.modelUsed, llmResult.tokensUsed.input, llmResult.tokensUsed.output);
+        metrics.llmCalls++;
+        metrics.tokensUsed.input += llmResult.tokensUsed.input;
+        metrics.tokensUsed.output += llmResult.tokensUsed.output;
+        metrics.totalCost += cost;
+        await recordLLMCost({
+          userId: user.id,
+          kind: 'weekly_review',
+          model: llmResult.modelUsed,
+          inputTokens: llmResult.tokensUsed.input,
+          outputTokens: llmResult.tokensUsed.output,
+          cost,
+          ownKey: llmResult.ownKey,
+        });
+      }
+
+      const title = `${WEEK_IN_REVIEW_PAGE_PREFIX} - ${week.weekEnd}`;
+      const { pageId, created } = await findOrCreateReviewPage(notion, user.sageStocksPageId, title, metrics);
+      const notionClient = createNotionClient({
+        apiKey: accessToken,
+        stockAnalysesDbId: user.stockAnalysesDbId || '',
+        stockHistoryDbId: user.stockHistoryDbId,
+        userId: user.notionUserId,
+        timezone: user.timezone,
+      });
+      await notionClient.writeAnalysisContent(pageId, formatWeeklyReviewContent(context, llmResult, cost), 'replace');
+      metrics.notionApiCalls++;
+
+      if (created) metrics.pagesCreated++;
+      else metrics.pagesUpdated++;
+      metrics.usersProcessed++;
+
+      info('Weekly review written', {
+        email: user.email,
+        week: `${week.weekStart}..${week.weekEnd}`,
+        stocks: week.stocks.length,
+        events: upcomingEvents.length,
+        model: llmResult.modelUsed,
+        cost: cost.toFixed(4),
+      });
+    } catch (err) {
+      metrics.usersFailed++;
+      metrics.errors.push(`${user.email}: ${err instanceof Error ? err.message : String(err)}`);
+      logError('Weekly review failed for user', { email: user.email }, err as Error);
+    }
+  }
+
+  metrics.endTime = new Date();
+  metrics.durationMs = timer.end(true);
+
+  info('Weekly review completed', {
+    usersProcessed: metrics.usersProcessed,
+    pagesCreated: metrics.pagesCreated,
+    pagesUpdated: metrics.pagesUpdated,
+    llmCalls: metrics.llmCalls,
+    totalCost: metrics.totalCost.toFixed(4),
+  });
+
+  return metrics;
+}
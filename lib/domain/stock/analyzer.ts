@@ -9,14 +9,22 @@
  */
 
 import { createFMPClient } from '../../integrations/fmp/client';
-import { createFREDClient } from '../../integrations/fred/client';
+import { createMarketDataService } from '../market-data';
+import { createFREDClient, FREDClient } from '../../integrations/fred/client';
 import { createStockScorer, ScoreResults } from '../analysis/scoring';
+import { resolveWeightProfile } from '../analysis/weight-profiles';
+import { PatternAnalysis, formatPatternSummary } from '../analysis/chart-patterns';
+import { WeightProfile } from '../../../config/scoring/config';
 import { validateStockData } from '../../core/validators';
-import { AnalysisContext } from '../../integrations/llm/types';
-import { LLMFactory } from '../../integrations/llm/factory';
+import { AnalysisContext, AnalysisResult as LLMResult } from '../../integrations/llm/types';
+import { LLMSelection, createProviderForSelection, resolveLLMSelection } from '../../integrations/llm/preferences';
+import { BudgetAction, BudgetDecision, applyBudget, formatBudgetSkippedAnalysis } from '../../integrations/llm/budget';
+import { StructuredOutputError } from '../../integrations/llm/structured';
+import type { LLMCostEntry } from '../../integrations/llm/cost-ledger';
+import { TradePlan } from '../analysis/trade-plan';
 import { MarketContext } from '../market/index';
 import { createNotionClient } from '../../integrations/notion/client';
-import { calculateDeltas } from '../analysis/deltas';
+import { calculateDeltas, DeltaData } from '../analysis/deltas';
 
 export interface AnalysisInput {
   ticker: string;
@@ -26,8 +34,18 @@ export interface AnalysisInput {
   marketContext?: MarketContext | null; // Optional market context for regime-aware analysis
   stockAnalysesDbId?: string; // Optional - needed for Notion client initialization
   stockHistoryDbId?: string; // Optional - enables historical context querying
+  weightProfile?: WeightProfile; // Composite weight profile (defaults to ScoringConfig.DEFAULT_WEIGHT_PROFILE)
+  llm?: LLMSelection; // Provider/model/key to use (defaults to the server's LLM_PROVIDER chain)
+  budget?: BudgetDecision; // Daily LLM budget check (over budget → cheaper model or no narrative)
+  onContext?: (context: AnalysisContext) => void; // Receives the LLM context before the narrative (prompt fixture recording)
+  onLLMUsage?: (usage: LLMUsage) => Promise<void>; // Called as each LLM call returns, so spend is booked even if the analysis fails later
 }
 
+/**
+ * One LLM call's usage (the narrative or the trade plan), in cost ledger terms
+ */
+export type LLMUsage = Pick<LLMCostEntry, 'kind' | 'model' | 'inputTokens' | 'outputTokens' | 'cost' | 'ownKey'>;
+
 export interface AnalysisResult {
   success: boolean;
   ticker: string;
@@ -35,6 +53,9 @@ export interface AnalysisResult {
   fundamental: any;
   macro: any;
   scores: ScoreResults;
+  patterns?: PatternAnalysis; // Chart patterns detected on the stored bars
+  sector?: string; // Company profile sector (portfolio sector exposure)
+  deltas?: DeltaData | null; // Changes since the previous analysis (null on first analysis)
   dataQuality: {
     completeness: number;
     grade: string;
@@ -52,6 +73,10 @@ export interface AnalysisResult {
     };
     cost: number;
     latencyMs: number;
+    fallbackFrom?: string[]; // Models that failed before modelUsed served the analysis
+    ownKey?: boolean; // Served on the user's own API key
+    budgetAction?: BudgetAction; // Set when the budget downgraded or skipped the narrative
+    promptVersion?: string; // Registered analysis prompt (unset when no narrative was written)
   };
   apiCalls: {
     fmp: number;
@@ -59,9 +84,181 @@ export interface AnalysisResult {
     total: number;
   };
   analysisContent?: string; // v1.2.18: Return generated analysis text
+  tradePlan?: TradePlan | null; // Structured trade plan (null if extraction failed)
   error?: string;
 }
 
+/**
+ * FRED macro snapshot (getMacroData result)
+ */
+export type MacroSnapshot = Awaited<ReturnType<FREDClient['getMacroData']>>;
+
+export interface ScoreInput {
+  ticker: string;
+  marketContext?: MarketContext | null;
+  weightProfile?: WeightProfile;
+  macroData?: MacroSnapshot; // Pre-fetched macro data to share across tickers (fetched if omitted)
+}
+
+/**
+ * Data and scores for one stock - everything before the LLM step
+ */
+export interface ScoredStock {
+  ticker: string;
+  technical: any;
+  fundamental: any;
+  macro: any;
+  scores: ScoreResults;
+  patterns: PatternAnalysis;
+  sector?: string;
+  industry?: string;
+  dataQuality: AnalysisResult['dataQuality'];
+  apiCalls: AnalysisResult['apiCalls'];
+}
+
+/**
+ * Fetch market + macro data and score a stock (no history, no LLM)
+ *
+ * The first half of analyzeStockCore, exposed for callers that only need
+ * scores (e.g. multi-stock comparisons).
+ *
+ * @throws if FMP data is unavailable or API keys are missing
+ */
+export async function scoreStock(input: ScoreInput): Promise<ScoredStock> {
+  const tickerUpper = input.ticker.toUpperCase().trim();
+
+  // Initialize API clients
+  const fmpApiKey = process.env.FMP_API_KEY;
+  const fredApiKey = process.env.FRED_API_KEY;
+
+  if (!fmpApiKey) {
+    throw new Error('FMP_API_KEY environment variable is not set');
+  }
+  if (!fredApiKey) {
+    throw new Error('FRED_API_KEY environment variable is not set');
+  }
+
+  const marketData = createMarketDataService(createFMPClient(fmpApiKey));
+  const fredClient = createFREDClient(fredApiKey);
+  const weightProfile = input.weightProfile || resolveWeightProfile();
+  const scorer = createStockScorer(weightProfile);
+
+  // Track API calls
+  let fmpCalls = 0;
+  let fredCalls = 0;
+
+  // Fetch data in parallel (FMP + FRED)
+  const [fmpData, macroData] = await Promise.all([
+    (async () => {
+      const data = await marketData.getAnalysisData(tickerUpper);
+      fmpCalls = data.fmpCalls; // Quote + whatever the store was missing
+      return data;
+    })(),
+    (async () => {
+      if (input.macroData) return input.macroData;
+      const data = await fredClient.getMacroData();
+      fredCalls = 6; // getMacroData makes 6 calls
+      return data;
+    })(),
+  ]);
+
+  // Extract data for scoring
+  const technical = {
+    current_price: fmpData.quote.price,
+    // Indicators computed in-house from stored daily bars
+    ma_50: fmpData.technicals.sma50,
+    ma_200: fmpData.technicals.sma200,
+    rsi: fmpData.technicals.rsi14,
+    macd: fmpData.technicals.macd,
+    macd_signal: fmpData.technicals.macdSignal,
+    volume: fmpData.quote.volume,
+    avg_volume_20d: fmpData.quote.avgVolume,
+    volatility_30d: fmpData.technicals.volatility30d,
+    price_change_1d: fmpData.quote.change / fmpData.quote.previousClose,
+    price_change_5d: fmpData.technicals.priceChange5d,
+    price_change_1m: fmpData.technicals.priceChange1m,
+    week_52_high: fmpData.quote.yearHigh,
+    week_52_low: fmpData.quote.yearLow,
+    macd_histogram: fmpData.technicals.macdHistogram,
+    bollinger_upper: fmpData.technicals.bollingerUpper,
+    bollinger_lower: fmpData.technicals.bollingerLower,
+    bollinger_percent_b: fmpData.technicals.bollingerPercentB,
+    atr_14: fmpData.technicals.atr14,
+    adx_14: fmpData.technicals.adx14,
+    plus_di: fmpData.technicals.plusDI,
+    minus_di: fmpData.technicals.minusDI,
+    obv_trend_20d: fmpData.technicals.obvTrend20d,
+    stochastic_k: fmpData.technicals.stochasticK,
+    stochastic_d: fmpData.technicals.stochasticD,
+    vwap_20d: fmpData.technicals.vwap20d,
+    distance_from_52w_high: fmpData.technicals.distanceFrom52wHigh,
+    distance_from_52w_low: fmpData.technicals.distanceFrom52wLow,
+  };
+
+  const fundamental = {
+    company_name: fmpData.profile.companyName,
+    market_cap: fmpData.quote.marketCap || fmpData.profile.marketCap,
+    pe_ratio: fmpData.fundamentals.ratios[0]?.priceEarningsRatio || fmpData.fundamentals.ratios[0]?.priceToEarningsRatio,
+    eps: fmpData.fundamentals.incomeStatements[0]?.eps,
+    revenue_ttm: fmpData.fundamentals.incomeStatements[0]?.revenue,
+    debt_to_equity: fmpData.fundamentals.ratios[0]?.debtEquityRatio || fmpData.fundamentals.ratios[0]?.debtToEquity,
+    beta: fmpData.profile.beta,
+  };
+
+  const macro = {
+    fed_funds_rate: macroData.fedFundsRate || undefined,
+    unemployment: macroData.unemploymentRate || undefined,
+    consumer_sentiment: macroData.consumerSentiment || undefined,
+    yield_curve_spread: macroData.yieldCurveSpread || undefined,
+    vix: macroData.vix || undefined,
+    gdp: macroData.gdp || undefined,
+  };
+
+  // Validate data quality
+  const qualityReport = validateStockData({
+    technical,
+    fundamental,
+    macro,
+  });
+
+  // Extract sector for market alignment calculation
+  const stockSector = fmpData.profile?.sector || undefined;
+
+  // Calculate scores WITH market context
+  const scores = scorer.calculateScores(
+    {
+      technical,
+      fundamental,
+      macro,
+    },
+    input.marketContext,
+    stockSector
+  );
+
+  return {
+    ticker: tickerUpper,
+    technical,
+    fundamental,
+    macro,
+    scores,
+    patterns: fmpData.patterns,
+    sector: stockSector,
+    industry: fmpData.profile.industry || undefined,
+    dataQuality: {
+      completeness: qualityReport.dataCompleteness,
+      grade: qualityReport.grade,
+      confidence: qualityReport.confidence,
+      canProceed: qualityReport.canProceed,
+      missingFields: qualityReport.missingFields,
+    },
+    apiCalls: {
+      fmp: fmpCalls,
+      fred: fredCalls,
+      total: fmpCalls + fredCalls,
+    },
+  };
+}
+
 /**
  * Core analysis function - Pure business logic
  *
@@ -84,149 +281,19 @@ export async function analyzeStockCore(
   const tickerUpper = ticker.toUpperCase().trim();
 
   try {
-    // Initialize API clients
-    const fmpApiKey = process.env.FMP_API_KEY;
-    const fredApiKey = process.env.FRED_API_KEY;
-
-    if (!fmpApiKey) {
-      throw new Error('FMP_API_KEY environment variable is not set');
-    }
-    if (!fredApiKey) {
-      throw new Error('FRED_API_KEY environment variable is not set');
-    }
-
-    const fmpClient = createFMPClient(fmpApiKey);
-    const fredClient = createFREDClient(fredApiKey);
-    const scorer = createStockScorer();
-
-    // Track API calls
-    let fmpCalls = 0;
-    let fredCalls = 0;
-
-    // Fetch data in parallel (FMP + FRED)
-    const [fmpData, macroData] = await Promise.all([
-      (async () => {
-        const data = await fmpClient.getAnalysisData(tickerUpper);
-        fmpCalls = 11; // getAnalysisData makes 11 calls
-        return data;
-      })(),
-      (async () => {
-        const data = await fredClient.getMacroData();
-        fredCalls = 6; // getMacroData makes 6 calls
-        return data;
-      })(),
-    ]);
-
-    // Calculate historical price changes and volatility
-    let price_change_1m: number | undefined = undefined;
-    let price_change_5d: number | undefined = undefined;
-    let volatility_30d: number | undefined = undefined;
-
-    if (fmpData.historical && fmpData.historical.length > 0) {
-      const currentPrice = fmpData.quote.price;
-
-      // Calculate 1-month (30-day) price change
-      const targetIndex1m = Math.min(29, fmpData.historical.length - 1);
-      const price30dAgo = fmpData.historical[targetIndex1m]?.close;
-
-      if (price30dAgo && price30dAgo > 0) {
-        price_change_1m = (currentPrice - price30dAgo) / price30dAgo;
-      }
-
-      // Calculate 5-day price change
-      const targetIndex5d = Math.min(4, fmpData.historical.length - 1);
-      const price5dAgo = fmpData.historical[targetIndex5d]?.close;
-
-      if (price5dAgo && price5dAgo > 0) {
-        price_change_5d = (currentPrice - price5dAgo) / price5dAgo;
-      }
-
-      // Calculate 30-day volatility
-      if (fmpData.historical.length >= 30) {
-        const dailyReturns: number[] = [];
-
-        for (let i = 0; i < 29; i++) {
-          const currentClose = fmpData.historical[i].close;
-          const previousClose = fmpData.historical[i + 1].close;
-
-          if (currentClose > 0 && previousClose > 0) {
-            const dailyReturn = (currentClose - previousClose) / previousClose;
-            dailyReturns.push(dailyReturn);
-          }
-        }
-
-        if (dailyReturns.length >= 20) {
-          const mean = dailyReturns.reduce((sum, val) => sum + val, 0) / dailyReturns.length;
-          const squaredDiffs = dailyReturns.map(val => Math.pow(val - mean, 2));
-          const variance = squaredDiffs.reduce((sum, val) => sum + val, 0) / dailyReturns.length;
-          volatility_30d = Math.sqrt(variance);
-        }
-      }
-    }
-
-    // Extract data for scoring
-    const technical = {
-      current_price: fmpData.quote.price,
-      ma_50: fmpData.technicalIndicators.sma50[0]?.sma,
-      ma_200: fmpData.technicalIndicators.sma200[0]?.sma,
-      rsi: fmpData.technicalIndicators.rsi[0]?.rsi,
-      macd: fmpData.technicalIndicators.ema12[0]?.ema,
-      macd_signal: fmpData.technicalIndicators.ema26[0]?.ema,
-      volume: fmpData.quote.volume,
-      avg_volume_20d: fmpData.quote.avgVolume,
-      volatility_30d,
-      price_change_1d: fmpData.quote.change / fmpData.quote.previousClose,
-      price_change_5d,
-      price_change_1m,
-      week_52_high: fmpData.quote.yearHigh,
-      week_52_low: fmpData.quote.yearLow,
-    };
-
-    const fundamental = {
-      company_name: fmpData.profile.companyName,
-      market_cap: fmpData.quote.marketCap || fmpData.profile.marketCap,
-      pe_ratio: fmpData.fundamentals.ratios[0]?.priceEarningsRatio || fmpData.fundamentals.ratios[0]?.priceToEarningsRatio,
-      eps: fmpData.fundamentals.incomeStatements[0]?.eps,
-      revenue_ttm: fmpData.fundamentals.incomeStatements[0]?.revenue,
-      debt_to_equity: fmpData.fundamentals.ratios[0]?.debtEquityRatio || fmpData.fundamentals.ratios[0]?.debtToEquity,
-      beta: fmpData.profile.beta,
-    };
-
-    const macro = {
-      fed_funds_rate: macroData.fedFundsRate || undefined,
-      unemployment: macroData.unemploymentRate || undefined,
-      consumer_sentiment: macroData.consumerSentiment || undefined,
-      yield_curve_spread: macroData.yieldCurveSpread || undefined,
-      vix: macroData.vix || undefined,
-      gdp: macroData.gdp || undefined,
-    };
-
-    // Validate data quality
-    const qualityReport = validateStockData({
-      technical,
-      fundamental,
-      macro,
+    const weightProfile = input.weightProfile || resolveWeightProfile();
+    const scored = await scoreStock({
+      ticker: tickerUpper,
+      marketContext: input.marketContext,
+      weightProfile,
     });
-
-    // Extract sector for market alignment calculation
-    const stockSector = fmpData.profile?.sector || undefined;
-
-    // Calculate scores WITH market context
-    const scores = scorer.calculateScores(
-      {
-        technical,
-        fundamental,
-        macro,
-      },
-      input.marketContext,
-      stockSector
-    );
+    const { technical, fundamental, macro, scores, dataQuality } = scored;
 
     // Query historical analyses for delta-first prompt (v1.0.9)
     // This enables delta-first analysis for BOTH API and orchestrator code paths
     let historicalAnalyses: any[] = [];
     let previousAnalysis: any = null;
-    let deltas: any = null;
+    let deltas: DeltaData | null = null;
 
     if (input.stockHistoryDbId && input.stockAnalysesDbId) {
       try {
@@ -256,8 +323,8 @@ export async function analyzeStockCore(
             riskScore: scores.risk,
             sentimentScore: scores.sentiment,
             marketAlignment: scores.marketAlignment || 3.0,
-            price: fmpData.quote.price,
-            volume: fmpData.quote.volume,
+            price: technical.current_price,
+            volume: technical.volume,
           };
 
           deltas = calculateDeltas(
@@ -271,7 +338,7 @@ export async function analyzeStockCore(
           console.log(`[ANALYZER]   Previous: ${previousAnalysis.compositeScore}/5.0 (${previousAnalysis.date})`);
           console.log(`[ANALYZER]   Score Change: ${deltas.trendEmoji} ${deltas.scoreChange > 0 ? '+' : ''}${deltas.scoreChange.toFixed(2)} (${deltas.significance}, ${deltas.trendDirection})`);
           if (deltas.priceDeltas) {
-            console.log(`[ANALYZER]   Price Change: ${deltas.priceDeltas.priceChangePercent > 0 ? '+' : ''}${deltas.priceDeltas.priceChangePercent.toFixed(2)}% over ${deltas.daysElapsed} days`);
+            console.log(`[ANALYZER]   Price Change: ${deltas.priceDeltas.priceChangePercent > 0 ? '+' : ''}${deltas.priceDeltas.priceChangePercent.toFixed(2)}% over ${deltas.daysElapsed} trading days`);
           }
           if (deltas.regimeTransition?.occurred) {
             console.log(`[ANALYZER]   🔥 Regime Transition: ${deltas.regimeTransition.from} → ${deltas.regimeTransition.to}`);
@@ -299,14 +366,14 @@ export async function analyzeStockCore(
       marketAlignment: scores.marketAlignment, // NEW: Market alignment score
       sectorScore: 0,
       recommendation: scores.recommendation,
-      pattern: 'Unknown',
-      confidence: qualityReport.dataCompleteness * 5,
-      dataQualityGrade: qualityReport.grade,
+      pattern: formatPatternSummary(scored.patterns),
+      confidence: dataQuality.completeness * 5,
+      dataQualityGrade: dataQuality.grade,
 
       // Company Profile
       companyName: fundamental.company_name,
-      sector: fmpData.profile.sector,
-      industry: fmpData.profile.industry,
+      sector: scored.sector,
+      industry: scored.industry,
 
       // Technical Data (ALL from API)
       currentPrice: technical.current_price,
@@ -321,6 +388,17 @@ export async function analyzeStockCore(
       priceChange1m: technical.price_change_1m,
       week52High: technical.week_52_high,
       week52Low: technical.week_52_low,
+      macdHistogram: technical.macd_histogram,
+      bollingerPercentB: technical.bollinger_percent_b,
+      atr14: technical.atr_14,
+      adx14: technical.adx_14,
+      plusDI: technical.plus_di,
+      minusDI: technical.minus_di,
+      obvTrend20d: technical.obv_trend_20d,
+      stochasticK: technical.stochastic_k,
+      stochasticD: technical.stochastic_d,
+      vwap20d: technical.vwap_20d,
+      distanceFrom52wHigh: technical.distance_from_52w_high,
 
       // Fundamental Data (ALL from API)
       marketCap: fundamental.market_cap,
@@ -360,11 +438,61 @@ export async function analyzeStockCore(
         compositeScore: h.compositeScore,
         recommendation: h.recommendation,
       })),
-      deltas,
+      deltas: deltas || undefined,
+      weightProfile,
+      appliedWeights: scores.weights,
+      regimeAdjustment: scores.regimeAdjustment,
+      attribution: scores.attribution,
     };
+    input.onContext?.(analysisContext);
+
+    const selection = applyBudget(input.llm || resolveLLMSelection(), input.budget);
+    let llmResult: LLMResult;
+    let tradePlan: TradePlan | null = null;
+
+    if (!selection) {
+      console.warn(`[ANALYZER] LLM budget exhausted - scores only for ${tickerUpper}`);
+      llmResult = {
+        content: formatBudgetSkippedAnalysis(tickerUpper, scores, input.budget!),
+        modelUsed: 'none',
+        tokensUsed: { input: 0, output: 0 },
+        cost: 0,
+        latencyMs: 0,
+      };
+    } else {
+      const llmProvider = await createProviderForSelection(selection);
+      llmResult = await llmProvider.generateAnalysis(analysisContext);
+      const model = llmResult.modelUsed;
+      const ownKey = llmResult.ownKey;
+      await input.onLLMUsage?.({
+        kind: 'analysis',
+        model,
+        inputTokens: llmResult.tokensUsed.input,
+        outputTokens: llmResult.tokensUsed.output,
+        cost: llmResult.cost,
+        ownKey,
+      });
 
-    const llmProvider = LLMFactory.getProviderFromEnv();
-    const llmResult = await llmProvider.generateAnalysis(analysisContext);
+      // Trade plan failures don't fail the analysis - the narrative is still valid
+      // (its tokens and cost are folded into llmAnalysis, and booked as trade_plan)
+      let planUsage: LLMUsage | null = null;
+      try {
+        const planResult = await llmProvider.generateTradePlan(analysisContext, llmResult.content);
+        tradePlan = planResult.data;
+        planUsage = { kind: 'trade_plan', model, inputTokens: planResult.tokensUsed.input, outputTokens: planResult.tokensUsed.output, cost: planResult.cost, ownKey };
+      } catch (error) {
+        console.warn(`[ANALYZER] Trade plan extraction failed for ${tickerUpper}:`, error instanceof Error ? error.message : error);
+        if (error instanceof StructuredOutputError) {
+          planUsage = { kind: 'trade_plan', model, inputTokens: 0, outputTokens: 0, cost: error.cost, ownKey };
+        }
+      }
+      if (planUsage) {
+        llmResult.tokensUsed.input += planUsage.inputTokens;
+        llmResult.tokensUsed.output += planUsage.outputTokens;
+        llmResult.cost += planUsage.cost;
+        await input.onLLMUsage?.(planUsage);
+      }
+    }
 
     // Return complete analysis result
     return {
@@ -374,13 +502,10 @@ export async function analyzeStockCore(
       fundamental,
       macro,
       scores,
-      dataQuality: {
-        completeness: qualityReport.dataCompleteness,
-        grade: qualityReport.grade,
-        confidence: qualityReport.confidence,
-        canProceed: qualityReport.canProceed,
-        missingFields: qualityReport.missingFields,
-      },
+      patterns: scored.patterns,
+      sector: scored.sector,
+      deltas,
+      dataQuality,
       llmAnalysis: {
         content: llmResult.content,
         modelUsed: llmResult.modelUsed,
@@ -391,13 +516,14 @@ export async function analyzeStockCore(
         },
         cost: llmResult.cost,
         latencyMs: llmResult.latencyMs,
+        fallbackFrom: llmResult.fallbackFrom,
+        ownKey: llmResult.ownKey,
+        budgetAction: input.budget && input.budget.action !== 'full' ? input.budget.action : undefined,
+        promptVersion: llmResult.promptVersion,
       },
       analysisContent: llmResult.content, // v1.2.18: Return generated content
-      apiCalls: {
-        fmp: fmpCalls,
-        fred: fredCalls,
-        total: fmpCalls + fredCalls,
-      },
+      tradePlan,
+      apiCalls: scored.apiCalls,
     };
   } catch (error) {
     // Return error result (don't throw - let caller handle)
@@ -0,0 +1,386 @@
+/**
+ * Stock Comparison
+ *
+ * Scores 2-10 tickers with the same weight profile and market context,
+ * ranks them per dimension, asks the LLM for a comparative rationale and
+ * writes the result to the user's Stock Comparisons database. The rationale
+ * goes through the LLM budget like an analysis: degraded to the cheap model,
+ * or skipped (rankings only) past the hard cap.
+ *
+ * Scoring goes through scoreStock (the same path as analyzeStockCore), so
+ * bars and fundamentals come from the market-data store and only tickers
+ * missing from it cost FMP calls. FRED macro data is fetched once and
+ * shared across tickers.
+ */
+
+import { Client } from '@notionhq/client';
+import { createFREDClient } from '../../integrations/fred/client';
+import { AnalysisResult, ComparisonContext } from '../../integrations/llm/types';
+import { BudgetDecision, applyBudget, describeBudgetSkip } from '../../integrations/llm/budget';
+import { buildComparisonPrompt } from '../../integrations/llm/prompts/comparison';
+import { LLMSelection, createProviderForSelection, resolveLLMSelection } from '../../integrations/llm/preferences';
+import { createNotionClient } from '../../integrations/notion/client';
+import { WeightProfile } from '../../../config/scoring/config';
+import { ValidationError } from '../../core/errors';
+import { warn } from '../../core/logger';
+import { resolveWeightProfile } from '../analysis/weight-profiles';
+import { MarketContext } from '../market/index';
+import { scoreStock, ScoredStock } from './analyzer';
+
+export const MIN_COMPARISON_TICKERS = 2;
+export const MAX_COMPARISON_TICKERS = 10;
+
+/** Notion rich_text properties are capped at 2000 characters */
+const RICH_TEXT_LIMIT = 2000;
+
+export interface ComparisonInput {
+  tickers: string[]; // Validated, upper-cased, unique
+  marketContext?: MarketContext | null;
+  weightProfile?: WeightProfile;
+  llm?: LLMSelection; // User's provider preference and own key (default: LLM_PROVIDER)
+  budget?: BudgetDecision; // From checkLLMBudget (default: unlimited)
+}
+
+export type ComparisonRankings = ComparisonContext['rankings'];
+
+export interface ComparisonWinners {
+  winner: string;       // Highest composite
+  bestValue: string;
+  bestMomentum: string;
+  safest: string;
+}
+
+export interface StockComparison {
+  date: string; // YYYY-MM-DD
+  tickers: string[]; // Tickers that were scored, in request order
+  failed: Array<{ ticker: string; error: string }>;
+  stocks: ScoredStock[];
+  rankings: ComparisonRankings;
+  winners: ComparisonWinners;
+  weightProfile: WeightProfile;
+  rationale: string; // Verdict paragraph (Rationale property)
+  content: string;   // Full markdown for the child page
+  llm: {
+    modelUsed: string;
+    tokensUsed: { input: number; output: number };
+    cost: number;
+    latencyMs: number;
+    ownKey?: boolean; // Served on the user's own API key
+  };
+  apiCalls: {
+    fmp: number;
+    fred: number;
+  };
+}
+
+export interface ComparisonNotionTarget {
+  accessToken: string;
+  stockComparisonsDbId: string;
+  stockAnalysesDbId?: string;
+  stockHistoryDbId?: string;
+  notionUserId?: string;
+  timezone?: string;
+}
+
+/**
+ * Earnings yield (1 / P/E), or undefined for missing or negative earnings
+ */
+function earningsYield(stock: ScoredStock): number | undefined {
+  const pe = stock.fundamental.pe_ratio;
+  return typeof pe === 'number' && Number.isFinite(pe) && pe > 0 ? 1 / pe : undefined;
+}
+
+/**
+ * Sort tickers best-first by a list of keys (undefined sorts last)
+ */
+function rankBy(stocks: ScoredStock[], ...keys: Array<(s: ScoredStock) => number | undefined>): string[] {
+  return [...stocks]
+    .sort((a, b) => {
+      for (const key of keys) {
+        const av = key(a);
+        const bv = key(b);
+        if (av === bv) continue;
+        if (av === undefined) return 1;
+        if (bv === undefined) return -1;
+        return bv - av;
+      }
+      return 0;
+    })
+    .map((s) => s.ticker);
+}
+
+/**
+ * Rank scored stocks per dimension
+ *
+ * - Overall: composite score
+ * - Value: earnings yield (stocks without positive earnings last), then fundamental score
+ * - Momentum: technical score, then 1M price change
+ * - Safety: risk score (higher = lower risk), then lower 30D volatility
+ */
+export function rankStocks(stocks: ScoredStock[]): { rankings: ComparisonRankings; winners: ComparisonWinners } {
+  const rankings: ComparisonRankings = {
+    overall: rankBy(stocks, (s) => s.scores.composite, (s) => s.scores.fundamental),
+    value: rankBy(stocks, earningsYield, (s) => s.scores.fundamental),
+    momentum: rankBy(stocks, (s) => s.scores.technical, (s) => s.technical.price_change_1m),
+    safety: rankBy(
+      stocks,
+      (s) => s.scores.risk,
+      (s) => (typeof s.technical.volatility_30d === 'number' ? -s.technical.volatility_30d : undefined)
+    ),
+  };
+
+  return {
+    rankings,
+    winners: {
+      winner: rankings.overall[0],
+      bestValue: rankings.value[0],
+      bestMomentum: rankings.momentum[0],
+      safest: rankings.safety[0],
+    },
+  };
+}
+
+/**
+ * "AAPL 4.12 · MSFT 3.80", best composite first
+ */
+export function formatCompositeScores(stocks: ScoredStock[], rankings: ComparisonRankings): string {
+  const byTicker = new Map(stocks.map((s) => [s.ticker, s]));
+  return rankings.overall
+    .map((ticker) => `${ticker} ${byTicker.get(ticker)!.scores.composite.toFixed(2)}`)
+    .join(' · ');
+}
+
+/**
+ * First paragraph of the LLM output, stripped of markdown emphasis
+ */
+function extractVerdict(content: string): string {
+  const paragraph = content
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .find((p) => p.length > 0 && !p.startsWith('#')) || '';
+  return paragraph.replace(/\*\*/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function buildComparisonContext(
+  date: string,
+  stocks: ScoredStock[],
+  rankings: ComparisonRankings,
+  input: ComparisonInput,
+  weightProfile: WeightProfile
+): ComparisonContext {
+  return {
+    currentDate: date,
+    marketContext: input.marketContext,
+    weightProfile,
+    rankings,
+    stocks: stocks.map((s) => ({
+      ticker: s.ticker,
+      companyName: s.fundamental.company_name,
+      sector: s.sector,
+      price: s.technical.current_price,
+      peRatio: s.fundamental.pe_ratio,
+      priceChange1m: s.technical.price_change_1m,
+      volatility30d: s.technical.volatility_30d,
+      beta: s.fundamental.beta,
+      scores: {
+        composite: s.scores.composite,
+        technical: s.scores.technical,
+        fundamental: s.scores.fundamental,
+        macro: s.scores.macro,
+        risk: s.scores.risk,
+        sentiment: s.scores.sentiment,
+        marketAlignment: s.scores.marketAlignment,
+        recommendation: s.scores.recommendation,
+      },
+    })),
+  };
+}
+
+/**
+ * Markdown for the comparison child page: score table and rankings, then the LLM rationale
+ */
+export function formatComparisonContent(
+  stocks: ScoredStock[],
+  rankings: ComparisonRankings,
+  winners: ComparisonWinners,
+  weightProfile: WeightProfile,
+  rationale: string
+): string {
+  const byTicker = new Map(stocks.map((s) => [s.ticker, s]));
+  const lines: string[] = [];
+
+  lines.push(`<callout icon="🏆" color="green_bg">`);
+  lines.push(`**Winner: ${winners.winner}** · Best Value: ${winners.bestValue} · Best Momentum: ${winners.bestMomentum} · Safest: ${winners.safest}`);
+  lines.push(`</callout>`);
+  lines.push('');
+  lines.push('## Scores');
+  lines.push('');
+  lines.push('| Ticker | Composite | Technical | Fundamental | Macro | Risk | Sentiment | Recommendation |');
+  lines.push('|---|---|---|---|---|---|---|---|');
+  for (const ticker of rankings.overall) {
+    const s = byTicker.get(ticker)!.scores;
+    lines.push(
+      `| ${ticker} | ${s.composite.toFixed(2)} | ${s.technical.toFixed(2)} | ${s.fundamental.toFixed(2)} | ${s.macro.toFixed(2)} | ${s.risk.toFixed(2)} | ${s.sentiment.toFixed(2)} | ${s.recommendation} |`
+    );
+  }
+  lines.push('');
+  lines.push(`*Composite weights: ${weightProfile.name} profile.*`);
+  lines.push('');
+  lines.push('## Rankings');
+  lines.push('');
+  lines.push(`- **Overall:** ${rankings.overall.join(' > ')}`);
+  lines.push(`- **Value:** ${rankings.value.join(' > ')}`);
+  lines.push(`- **Momentum:** ${rankings.momentum.join(' > ')}`);
+  lines.push(`- **Safety:** ${rankings.safety.join(' > ')}`);
+  lines.push('');
+  lines.push('---');
+  lines.push('');
+  lines.push(rationale.trim());
+
+  return lines.join('\n');
+}
+
+/**
+ * Score, rank and explain a set of tickers
+ *
+ * Tickers that fail to score are reported in `failed`; the comparison
+ * proceeds as long as at least two succeed.
+ *
+ * @throws ValidationError if fewer than two tickers could be scored
+ */
+export async function compareStocks(input: ComparisonInput, date: string): Promise<StockComparison> {
+  const fredApiKey = process.env.FRED_API_KEY;
+  if (!fredApiKey) {
+    throw new Error('FRED_API_KEY environment variable is not set');
+  }
+
+  const weightProfile = input.weightProfile || resolveWeightProfile();
+
+  // One macro snapshot for every ticker
+  const macroData = await createFREDClient(fredApiKey).getMacroData();
+  let fmpCalls = 0;
+
+  // Sequential to stay inside FMP per-minute limits when the store is cold
+  const stocks: ScoredStock[] = [];
+  const failed: StockComparison['failed'] = [];
+  for (const ticker of input.tickers) {
+    try {
+      const scored = await scoreStock({
+        ticker,
+        marketContext: input.marketContext,
+        weightProfile,
+        macroData,
+      });
+      stocks.push(scored);
+      fmpCalls += scored.apiCalls.fmp;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      warn('Comparison: failed to score ticker', { ticker, error: message });
+      failed.push({ ticker, error: message });
+    }
+  }
+
+  if (stocks.length < MIN_COMPARISON_TICKERS) {
+    throw new ValidationError(
+      'tickers',
+      `at least ${MIN_COMPARISON_TICKERS} tickers must have market data (failed: ${failed.map((f) => f.ticker).join(', ')})`
+    );
+  }
+
+  const { rankings, winners } = rankStocks(stocks);
+
+  const selection = applyBudget(input.llm || resolveLLMSelection(), input.budget);
+  let llmResult: AnalysisResult;
+  if (!selection) {
+    warn('Comparison: LLM budget exhausted - rankings only', { tickers: stocks.map((s) => s.ticker).join(',') });
+    llmResult = {
+      content:
+        `The written comparison was skipped: ${describeBudgetSkip(input.budget!)}. ` +
+        'The rankings above are complete. Rationales resume tomorrow (UTC), or right away with your own API key in Settings → AI Model.',
+      modelUsed: 'none',
+      tokensUsed: { input: 0, output: 0 },
+      cost: 0,
+      latencyMs: 0,
+    };
+  } else {
+    const llmProvider = await createProviderForSelection(selection);
+    llmResult = await llmProvider.generateText(
+      buildComparisonPrompt(buildComparisonContext(date, stocks, rankings, input, weightProfile))
+    );
+  }
+
+  return {
+    date,
+    tickers: stocks.map((s) => s.ticker),
+    failed,
+    stocks,
+    rankings,
+    winners,
+    weightProfile,
+    rationale: extractVerdict(llmResult.content),
+    content: formatComparisonContent(stocks, rankings, winners, weightProfile, llmResult.content),
+    llm: {
+      modelUsed: llmResult.modelUsed,
+      tokensUsed: llmResult.tokensUsed,
+      cost: llmResult.cost,
+      latencyMs: llmResult.latencyMs,
+      ownKey: llmResult.ownKey,
+    },
+    apiCalls: {
+      fmp: fmpCalls,
+      fred: 6, // getMacroData makes 6 calls
+    },
+  };
+}
+
+/**
+ * Write a comparison row and its child page to Stock Comparisons
+ *
+ * @returns Page IDs of the database row and the child page
+ */
+export async function writeComparisonToNotion(
+  target: ComparisonNotionTarget,
+  comparison: StockComparison
+): Promise<{ comparisonPageId: string; childPageId: string }> {
+  const notion = new Client({ auth: target.accessToken, notionVersion: '2025-09-03' });
+  const title = `${comparison.tickers.join(' vs ')} - ${comparison.date}`;
+  const richText = (content: string) => ({
+    rich_text: [{ text: { content: content.slice(0, RICH_TEXT_LIMIT) } }],
+  });
+
+  const row = await notion.pages.create({
+    parent: { database_id: target.stockComparisonsDbId },
+    properties: {
+      'Name': { title: [{ text: { content: title } }] },
+      'Comparison Date': { date: { start: comparison.date } },
+      'Tickers': richText(comparison.tickers.join(', ')),
+      'Number of Stocks': { number: comparison.tickers.length },
+      'Winner': richText(comparison.winners.winner),
+      'Best Value': richText(comparison.winners.bestValue),
+      'Best Momentum': richText(comparison.winners.bestMomentum),
+      'Safest': richText(comparison.winners.safest),
+      'Rationale': richText(comparison.rationale),
+      'Composite Scores': richText(formatCompositeScores(comparison.stocks, comparison.rankings)),
+      'Content Status': { select: { name: 'New' } },
+    },
+  });
+
+  const child = await notion.pages.create({
+    parent: { page_id: row.id },
+    properties: {
+      title: { title: [{ type: 'text', text: { content: `Comparison - ${comparison.date}` } }] },
+    },
+  });
+
+  // NotionClient owns the markdown → blocks conversion
+  const notionClient = createNotionClient({
+    apiKey: target.accessToken,
+    stockAnalysesDbId: target.stockAnalysesDbId || '',
+    stockHistoryDbId: target.stockHistoryDbId || '',
+    userId: target.notionUserId,
+    timezone: target.timezone,
+  });
+  await notionClient.writeAnalysisContent(child.id, comparison.content, 'append');
+
+  return { comparisonPageId: row.id, childPageId: child.id };
+}
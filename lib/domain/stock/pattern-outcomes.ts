@@ -0,0 +1,233 @@
+/**
+ * Pattern Outcome Review
+ *
+ * Closes the loop on chart-pattern predictions so pattern accuracy can be
+ * measured. Every Stock History entry records the Expected Move (%) and Days
+ * to Breakout at analysis time; once that many sessions have closed this job
+ * fills in:
+ * - Actual Move (%): close N sessions after the analysis vs. Current Price
+ * - Prediction Correct: price moved in the predicted direction
+ * - Pattern Accuracy: share of the expected move realized (0-100)
+ *
+ * Closes come from the market data store, so a ticker costs at most one FMP
+ * call per day no matter how many users or entries reference it.
+ */
+
+import { Client } from '@notionhq/client';
+import { User, decryptToken } from '../../core/auth';
+import { info, warn, error as logError, createTimer } from '../../core/logger';
+import { FMPClient } from '../../integrations/fmp/client';
+import { formatDateInTimezone } from '../../shared/timezone';
+import { evaluatePatternOutcome } from '../analysis/chart-patterns';
+import { DailyBar, createMarketDataService } from '../market-data';
+
+/** Predictions older than this are abandoned (horizons top out at 60 sessions) */
+const REVIEW_WINDOW_DAYS = 180;
+
+export interface PatternOutcomeMetrics {
+  startTime: Date;
+  endTime?: Date;
+  durationMs?: number;
+
+  usersProcessed: number;
+  usersSkipped: number;  // No Stock History database or pattern properties
+  usersFailed: number;
+
+  entriesChecked: number;
+  entriesResolved: number;
+  entriesPending: number; // Horizon not reached yet
+  predictionsCorrect: number;
+
+  fmpApiCalls: number;
+  notionApiCalls: number;
+
+  errors: string[];
+}
+
+/**
+ * Prediction read from a Stock History page
+ */
+interface PendingPrediction {
+  pageId: string;
+  ticker: string;
+  analysisDate: string; // Market date (America/New_York)
+  price: number;
+  expectedMove: number;
+  daysToBreakout: number;
+}
+
+/**
+ * Review unresolved pattern predictions for all users
+ */
+export async function runPatternOutcomeReview(
+  fmpClient: FMPClient,
+  users: User[]
+): Promise<PatternOutcomeMetrics> {
+  const timer = createTimer('Pattern Outcome Review');
+  const marketData = createMarketDataService(fmpClient);
+  const barsByTicker = new Map<string, Promise<DailyBar[]>>();
+
+  const metrics: PatternOutcomeMetrics = {
+    startTime: new Date(),
+    usersProcessed: 0,
+    usersSkipped: 0,
+    usersFailed: 0,
+    entriesChecked: 0,
+    entriesResolved: 0,
+    entriesPending: 0,
+    predictionsCorrect: 0,
+    fmpApiCalls: 0,
+    notionApiCalls: 0,
+    errors: [],
+  };
+
+  // One bar sync per ticker across all users
+  const barsFor = (ticker: string): Promise<DailyBar[]> => {
+    let bars = barsByTicker.get(ticker);
+    if (!bars) {
+      bars = marketData.syncBars(ticker).then((result) => {
+        metrics.fmpApiCalls += result.fmpCalls;
+        return result.bars;
+      });
+      barsByTicker.set(ticker, bars);
+    }
+    return bars;
+  };
+
+  for (const user of users) {
+    if (user.status !== 'approved' || !user.stockHistoryDbId) {
+      metrics.usersSkipped++;
+      continue;
+    }
+
+    try {
+      const notion = new Client({ auth: await decryptToken(user.accessToken), notionVersion: '2025-09-03' });
+      const predictions = await fetchPendingPredictions(notion, user.stockHistoryDbId, metrics);
+      if (predictions === null) {
+        metrics.usersSkipped++;
+        continue;
+      }
+
+      for (const prediction of predictions) {
+        metrics.entriesChecked++;
+        try {
+          const outcome = evaluatePatternOutcome(await barsFor(prediction.ticker), prediction);
+          if (!outcome) {
+            metrics.entriesPending++;
+            continue;
+          }
+
+          await notion.pages.update({
+            page_id: prediction.pageId,
+            properties: {
+              'Actual Move (%)': { number: Math.round(outcome.actualMove * 10000) / 10000 },
+              'Prediction Correct': { checkbox: outcome.predictionCorrect },
+              'Pattern Accuracy': { number: outcome.accuracy },
+            },
+          });
+          metrics.notionApiCalls++;
+          metrics.entriesResolved++;
+          if (outcome.predictionCorrect) metrics.predictionsCorrect++;
+        } catch (err) {
+          const message = `${user.email} ${prediction.ticker} (${prediction.analysisDate}): ${err instanceof Error ? err.message : String(err)}`;
+          warn('Failed to resolve pattern prediction', { email: user.email, ticker: prediction.ticker, error: message });
+          metrics.errors.push(message);
+        }
+      }
+
+      metrics.usersProcessed++;
+    } catch (err) {
+      metrics.usersFailed++;
+      metrics.errors.push(`${user.email}: ${err instanceof Error ? err.message : String(err)}`);
+      logError('Pattern outcome review failed for user', { email: user.email }, err as Error);
+    }
+  }
+
+  metrics.endTime = new Date();
+  metrics.durationMs = timer.end(true);
+
+  info('Pattern outcome review completed', {
+    checked: metrics.entriesChecked,
+    resolved: metrics.entriesResolved,
+    pending: metrics.entriesPending,
+    correct: metrics.predictionsCorrect,
+    fmpApiCalls: metrics.fmpApiCalls,
+  });
+
+  return metrics;
+}
+
+/**
+ * Stock History entries with a prediction but no recorded outcome
+ *
+ * @returns null if the database lacks the pattern properties
+ */
+async function fetchPendingPredictions(
+  notion: Client,
+  stockHistoryDbId: string,
+  metrics: PatternOutcomeMetrics
+): Promise<PendingPrediction[] | null> {
+  const db = await notion.databases.retrieve({ database_id: stockHistoryDbId });
+  const dataSourceId = (db as any).data_sources?.[0]?.id;
+  metrics.notionApiCalls++;
+  if (!dataSourceId) {
+    throw new Error(`No data source found for database ${stockHistoryDbId}`);
+  }
+
+  const since = new Date(Date.now() - REVIEW_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const predictions: PendingPrediction[] = [];
+  let hasMore = true;
+  let cursor: string | undefined;
+
+  while (hasMore) {
+    let response;
+    try {
+      response = await notion.dataSources.query({
+        data_source_id: dataSourceId,
+        filter: {
+          and: [
+            { property: 'Expected Move (%)', number: { is_not_empty: true } },
+            { property: 'Actual Move (%)', number: { is_empty: true } },
+            { property: 'Analysis Date', date: { on_or_after: since } },
+          ],
+        },
+        start_cursor: cursor,
+      });
+      metrics.notionApiCalls++;
+    } catch (err: any) {
+      // Older templates without the pattern properties
+      if (err.code === 'validation_error') {
+        warn('Stock History is missing pattern properties, skipping', { stockHistoryDbId, error: err.message });
+        return null;
+      }
+      throw err;
+    }
+
+    for (const page of response.results) {
+      const props = (page as any).properties;
+      const ticker = props.Ticker?.rich_text?.[0]?.plain_text?.toUpperCase().trim();
+      const analyzedAt = props['Analysis Date']?.date?.start;
+      const price = props['Current Price']?.number;
+      const expectedMove = props['Expected Move (%)']?.number;
+      const daysToBreakout = props['Days to Breakout']?.number;
+
+      if (!ticker || !analyzedAt || !price || !expectedMove || !daysToBreakout) {
+        continue;
+      }
+
+      predictions.push({
+        pageId: page.id,
+        ticker,
+        analysisDate: formatDateInTimezone(new Date(analyzedAt), 'America/New_York'),
+        price,
+        expectedMove,
+        daysToBreakout,
+      });
+    }
+
+    hasMore = response.has_more;
+    cursor = response.next_cursor || undefined;
+  }
+
+  return predictions;
+}
@@ -28,6 +28,11 @@ export interface DetectionResult {
   stockEventsDb: DatabaseMatch | null;
   marketContextDb: DatabaseMatch | null;
   sageStocksPage: PageMatch | null;
+  // Optional - not required for setup, never triggers manual mode
+  portfolioPositionsDb: DatabaseMatch | null;
+  portfolioTransactionsDb: DatabaseMatch | null;
+  stockComparisonsDb: DatabaseMatch | null;
+  alertRulesDb: DatabaseMatch | null;
   needsManual: boolean;
 }
 
@@ -506,6 +511,262 @@ async function detectMarketContextDb(notionToken: string): Promise<DatabaseMatch
   };
 }
 
+/**
+ * Detect Portfolio Positions database (optional)
+ * One row per ticker held, maintained by the daily run from Portfolio Transactions
+ */
+async function detectPortfolioPositionsDb(
+  notionToken: string
+): Promise<DatabaseMatch | null> {
+  console.log('🎯 [detectPortfolioPositionsDb] Starting Portfolio Positions detection...');
+  const databases = await searchUserDatabases(notionToken);
+
+  const criteria = {
+    titleMatches: ['Portfolio Positions', 'Positions', 'Holdings'],
+    titleWeight: 0.3,
+    requiredProps: ['Ticker', 'Shares', 'Average Cost'],
+    requiredPropsWeight: 0.5,
+    optionalProps: ['Market Value', 'Unrealized P&L', 'Realized P&L', 'Position Weight'],
+    optionalPropsWeight: 0.2,
+    propertyTypes: {
+      'Ticker': 'title',
+      'Shares': 'number',
+      'Average Cost': 'number',
+    },
+  };
+
+  const scores = databases.map(db => {
+    const title = db.title?.[0]?.plain_text || 'Untitled';
+    const props = Object.keys(db.properties || {});
+    const score = calculateMatchScore(db, criteria);
+    const databaseId = extractDatabaseId(db); // Extract parent database ID
+
+    console.log(`  📊 Scoring "${title}":`, {
+      score: score.toFixed(3),
+      properties: props,
+      hasRequiredProps: criteria.requiredProps.every(req =>
+        props.some(p => p.toLowerCase() === req.toLowerCase())
+      ),
+      dataSourceId: db.id,
+      parentDatabaseId: databaseId,
+    });
+
+    return {
+      id: databaseId, // Use parent database ID, not data source ID
+      title,
+      score,
+    };
+  });
+
+  const best = scores.sort((a, b) => b.score - a.score)[0];
+
+  console.log('🏆 [detectPortfolioPositionsDb] Best match:', best ? {
+    title: best.title,
+    score: best.score.toFixed(3),
+    threshold: '0.5',
+    passes: best.score >= 0.5,
+  } : 'No matches');
+
+  if (!best || best.score < 0.5) return null;
+
+  return {
+    ...best,
+    confidence: best.score > 0.8 ? 'high' : best.score > 0.6 ? 'medium' : 'low',
+  };
+}
+
+/**
+ * Detect Portfolio Transactions database (optional)
+ * Buy/sell ledger the positions are computed from
+ */
+async function detectPortfolioTransactionsDb(
+  notionToken: string
+): Promise<DatabaseMatch | null> {
+  console.log('🎯 [detectPortfolioTransactionsDb] Starting Portfolio Transactions detection...');
+  const databases = await searchUserDatabases(notionToken);
+
+  const criteria = {
+    titleMatches: ['Portfolio Transactions', 'Transactions', 'Trades'],
+    titleWeight: 0.3,
+    requiredProps: ['Ticker', 'Type', 'Shares', 'Price', 'Trade Date'],
+    requiredPropsWeight: 0.5,
+    optionalProps: ['Fees', 'Notes'],
+    optionalPropsWeight: 0.2,
+    propertyTypes: {
+      'Type': 'select',
+      'Shares': 'number',
+      'Price': 'number',
+      'Trade Date': 'date',
+    },
+  };
+
+  const scores = databases.map(db => {
+    const title = db.title?.[0]?.plain_text || 'Untitled';
+    const props = Object.keys(db.properties || {});
+    const score = calculateMatchScore(db, criteria);
+    const databaseId = extractDatabaseId(db); // Extract parent database ID
+
+    console.log(`  📊 Scoring "${title}":`, {
+      score: score.toFixed(3),
+      properties: props,
+      hasRequiredProps: criteria.requiredProps.every(req =>
+        props.some(p => p.toLowerCase() === req.toLowerCase())
+      ),
+      dataSourceId: db.id,
+      parentDatabaseId: databaseId,
+    });
+
+    return {
+      id: databaseId, // Use parent database ID, not data source ID
+      title,
+      score,
+    };
+  });
+
+  const best = scores.sort((a, b) => b.score - a.score)[0];
+
+  console.log('🏆 [detectPortfolioTransactionsDb] Best match:', best ? {
+    title: best.title,
+    score: best.score.toFixed(3),
+    threshold: '0.5',
+    passes: best.score >= 0.5,
+  } : 'No matches');
+
+  if (!best || best.score < 0.5) return null;
+
+  return {
+    ...best,
+    confidence: best.score > 0.8 ? 'high' : best.score > 0.6 ? 'medium' : 'low',
+  };
+}
+
+/**
+ * Detect Stock Comparisons database (optional)
+ * Destination for side-by-side comparisons from /api/compare
+ */
+async function detectStockComparisonsDb(
+  notionToken: string
+): Promise<DatabaseMatch | null> {
+  console.log('🎯 [detectStockComparisonsDb] Starting Stock Comparisons detection...');
+  const databases = await searchUserDatabases(notionToken);
+
+  const criteria = {
+    titleMatches: ['Stock Comparisons', 'Comparisons'],
+    titleWeight: 0.3,
+    requiredProps: ['Tickers', 'Winner', 'Comparison Date'],
+    requiredPropsWeight: 0.5,
+    optionalProps: ['Best Value', 'Best Momentum', 'Safest', 'Rationale', 'Composite Scores'],
+    optionalPropsWeight: 0.2,
+    propertyTypes: {
+      'Comparison Date': 'date',
+      'Number of Stocks': 'number',
+    },
+  };
+
+  const scores = databases.map(db => {
+    const title = db.title?.[0]?.plain_text || 'Untitled';
+    const props = Object.keys(db.properties || {});
+    const score = calculateMatchScore(db, criteria);
+    const databaseId = extractDatabaseId(db); // Extract parent database ID
+
+    console.log(`  📊 Scoring "${title}":`, {
+      score: score.toFixed(3),
+      properties: props,
+      hasRequiredProps: criteria.requiredProps.every(req =>
+        props.some(p => p.toLowerCase() === req.toLowerCase())
+      ),
+      dataSourceId: db.id,
+      parentDatabaseId: databaseId,
+    });
+
+    return {
+      id: databaseId, // Use parent database ID, not data source ID
+      title,
+      score,
+    };
+  });
+
+  const best = scores.sort((a, b) => b.score - a.score)[0];
+
+  console.log('🏆 [detectStockComparisonsDb] Best match:', best ? {
+    title: best.title,
+    score: best.score.toFixed(3),
+    threshold: '0.5',
+    passes: best.score >= 0.5,
+  } : 'No matches');
+
+  if (!best || best.score < 0.5) return null;
+
+  return {
+    ...best,
+    confidence: best.score > 0.8 ? 'high' : best.score > 0.6 ? 'medium' : 'low',
+  };
+}
+
+/**
+ * Detect Alert Rules database (optional)
+ * User-defined price/score alert conditions
+ */
+async function detectAlertRulesDb(
+  notionToken: string
+): Promise<DatabaseMatch | null> {
+  console.log('🎯 [detectAlertRulesDb] Starting Alert Rules detection...');
+  const databases = await searchUserDatabases(notionToken);
+
+  const criteria = {
+    titleMatches: ['Alert Rules', 'Alerts'],
+    titleWeight: 0.3,
+    requiredProps: ['Condition', 'Channels', 'Enabled'],
+    requiredPropsWeight: 0.5,
+    optionalProps: ['Ticker', 'Threshold', 'Webhook URL', 'Cooldown (Hours)', 'Last Triggered'],
+    optionalPropsWeight: 0.2,
+    propertyTypes: {
+      'Condition': 'select',
+      'Channels': 'multi_select',
+      'Enabled': 'checkbox',
+    },
+  };
+
+  const scores = databases.map(db => {
+    const title = db.title?.[0]?.plain_text || 'Untitled';
+    const props = Object.keys(db.properties || {});
+    const score = calculateMatchScore(db, criteria);
+    const databaseId = extractDatabaseId(db); // Extract parent database ID
+
+    console.log(`  📊 Scoring "${title}":`, {
+      score: score.toFixed(3),
+      properties: props,
+      hasRequiredProps: criteria.requiredProps.every(req =>
+        props.some(p => p.toLowerCase() === req.toLowerCase())
+      ),
+      dataSourceId: db.id,
+      parentDatabaseId: databaseId,
+    });
+
+    return {
+      id: databaseId, // Use parent database ID, not data source ID
+      title,
+      score,
+    };
+  });
+
+  const best = scores.sort((a, b) => b.score - a.score)[0];
+
+  console.log('🏆 [detectAlertRulesDb] Best match:', best ? {
+    title: best.title,
+    score: best.score.toFixed(3),
+    threshold: '0.5',
+    passes: best.score >= 0.5,
+  } : 'No matches');
+
+  if (!best || best.score < 0.5) return null;
+
+  return {
+    ...best,
+    confidence: best.score > 0.8 ? 'high' : best.score > 0.6 ? 'medium' : 'low',
+  };
+}
+
 /**
  * Detect Sage Stocks hub page
  */
@@ -587,12 +848,26 @@ export async function autoDetectTemplate(
       await new Promise(resolve => setTimeout(resolve, delay));
     }
 
-    const [stockAnalysesDb, stockHistoryDb, stockEventsDb, marketContextDb, sageStocksPage] = await Promise.all([
+    const [
+      stockAnalysesDb,
+      stockHistoryDb,
+      stockEventsDb,
+      marketContextDb,
+      sageStocksPage,
+      portfolioPositionsDb,
+      portfolioTransactionsDb,
+      stockComparisonsDb,
+      alertRulesDb,
+    ] = await Promise.all([
       detectStockAnalysesDb(notionToken),
       detectStockHistoryDb(notionToken),
       detectStockEventsDb(notionToken),
       detectMarketContextDb(notionToken),
       detectSageStocksPage(notionToken),
+      detectPortfolioPositionsDb(notionToken),
+      detectPortfolioTransactionsDb(notionToken),
+      detectStockComparisonsDb(notionToken),
+      detectAlertRulesDb(notionToken),
     ]);
 
     // Determine if manual setup is needed
@@ -610,6 +885,10 @@ export async function autoDetectTemplate(
         stockEventsDb,
         marketContextDb,
         sageStocksPage,
+        portfolioPositionsDb,
+        portfolioTransactionsDb,
+        stockComparisonsDb,
+        alertRulesDb,
         needsManual: false
       };
     }
@@ -639,6 +918,10 @@ export async function autoDetectTemplate(
       stockEventsDb: stockEventsDb ? '✓' : '✗',
       marketContextDb: marketContextDb ? '✓' : '✗',
       sageStocksPage: sageStocksPage ? '✓' : '✗',
+      portfolioPositionsDb: portfolioPositionsDb ? '✓' : '-',
+      portfolioTransactionsDb: portfolioTransactionsDb ? '✓' : '-',
+      stockComparisonsDb: stockComparisonsDb ? '✓' : '-',
+      alertRulesDb: alertRulesDb ? '✓' : '-',
       foundCount: finalFoundCount,
     });
     
@@ -656,6 +939,10 @@ export async function autoDetectTemplate(
       stockEventsDb,
       marketContextDb,
       sageStocksPage,
+      portfolioPositionsDb,
+      portfolioTransactionsDb,
+      stockComparisonsDb,
+      alertRulesDb,
       needsManual: true
     };
   }
@@ -0,0 +1,70 @@
+/**
+ * SMTP Email Transport
+ *
+ * Shared nodemailer transport for outgoing email (alert emails, daily
+ * digest). The transport is created lazily from the environment so
+ * deployments without SMTP never touch it.
+ *
+ * Environment:
+ * - SMTP_HOST, SMTP_PORT (465 = TLS, otherwise STARTTLS), SMTP_USER, SMTP_PASS
+ * - EMAIL_FROM (default sender, falls back to SMTP_USER)
+ */
+
+import nodemailer, { Transporter } from 'nodemailer';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  from?: string; // Overrides EMAIL_FROM
+}
+
+let transporter: Transporter | null = null;
+
+function getTransporter(): Transporter {
+  if (transporter) return transporter;
+
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error('SMTP_HOST environment variable is not set');
+  }
+
+  const port = parseInt(process.env.SMTP_PORT || '587', 10);
+  transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure: port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS || '' }
+      : undefined,
+  });
+  return transporter;
+}
+
+/**
+ * True when an SMTP host is configured
+ */
+export function isEmailConfigured(): boolean {
+  return !!process.env.SMTP_HOST;
+}
+
+/**
+ * Send one email
+ *
+ * @throws If SMTP or a sender address is not configured, or the server rejects the message
+ */
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  const from = message.from || process.env.EMAIL_FROM || process.env.SMTP_USER;
+  if (!from) {
+    throw new Error('EMAIL_FROM environment variable is not set');
+  }
+
+  await getTransporter().sendMail({
+    from,
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+    html: message.html,
+  });
+}
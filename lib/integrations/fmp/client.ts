@@ -6,6 +6,7 @@
  *
  * Features:
  * - 30-second timeout protection
+ * - Per-minute rate limit with 429 back-off (core/provider-limits.ts)
  * - Structured logging for all operations
  * - Graceful handling of missing data
  * - Custom error types for better debugging
@@ -17,6 +18,7 @@ import axios, { AxiosInstance, AxiosError } from 'axios';
 import { DataNotFoundError, APITimeoutError, APIResponseError } from '../../core/errors';
 import { createTimer, warn, logAPICall } from '../../core/logger';
 import { withRetry } from '../../core/utils';
+import { throttleAxios } from '../../core/provider-limits';
 
 interface FMPConfig {
   apiKey: string;
@@ -24,7 +26,7 @@ interface FMPConfig {
   timeout?: number;
 }
 
-interface StockQuote {
+export interface StockQuote {
   symbol: string;
   price: number;
   changesPercentage: number;
@@ -43,7 +45,7 @@ interface StockQuote {
   timestamp: number;
 }
 
-interface HistoricalPrice {
+export interface HistoricalPrice {
   date: string;
   open: number;
   high: number;
@@ -69,7 +71,7 @@ interface TechnicalIndicator {
   [key: string]: any; // Allow other indicator types
 }
 
-interface CompanyProfile {
+export interface CompanyProfile {
   symbol: string;
   companyName: string;
   currency: string;
@@ -85,8 +87,9 @@ interface CompanyProfile {
   website: string;
 }
 
-interface IncomeStatement {
+export interface IncomeStatement {
   date: string;
+  fillingDate?: string; // SEC filing date (FMP spelling) - when the figures became public
   revenue: number;
   costOfRevenue: number;
   grossProfit: number;
@@ -96,8 +99,9 @@ interface IncomeStatement {
   epsDiluted: number;
 }
 
-interface BalanceSheet {
+export interface BalanceSheet {
   date: string;
+  fillingDate?: string; // SEC filing date (FMP spelling)
   totalAssets: number;
   totalLiabilities: number;
   totalDebt: number;
@@ -105,7 +109,7 @@ interface BalanceSheet {
   cashAndCashEquivalents: number;
 }
 
-interface FinancialRatios {
+export interface FinancialRatios {
   date: string;
   symbol: string;
   period: string;
@@ -175,13 +179,16 @@ export class FMPClient {
   constructor(config: FMPConfig) {
     this.apiKey = config.apiKey;
 
-    this.client = axios.create({
-      baseURL: config.baseUrl || 'https://financialmodelingprep.com/api/v3',
-      timeout: config.timeout || this.TIMEOUT_MS,
-      params: {
-        apikey: this.apiKey,
-      },
-    });
+    this.client = throttleAxios(
+      axios.create({
+        baseURL: config.baseUrl || 'https://financialmodelingprep.com/api/v3',
+        timeout: config.timeout || this.TIMEOUT_MS,
+        params: {
+          apikey: this.apiKey,
+        },
+      }),
+      'fmp'
+    );
   }
 
   /**
@@ -246,6 +253,36 @@ export class FMPClient {
     }
   }
 
+  /**
+   * Get real-time quotes for several symbols in one call
+   *
+   * Symbols FMP doesn't know are simply missing from the result.
+   *
+   * @throws APITimeoutError if request times out
+   * @throws APIResponseError if API returns error
+   */
+  async getQuotes(symbols: string[]): Promise<StockQuote[]> {
+    if (symbols.length === 0) return [];
+    const list = symbols.join(',');
+    const timer = createTimer('FMP getQuotes', { symbols: list });
+
+    try {
+      const response = await withRetry(
+        async () => await this.client.get<StockQuote[]>(`/quote/${list}`),
+        `FMP getQuotes(${list})`
+      );
+
+      const duration = timer.end(true);
+      logAPICall('FMP', 'getQuotes', duration, true, { symbols: list });
+
+      return response.data || [];
+    } catch (error) {
+      timer.endWithError(error as Error);
+      logAPICall('FMP', 'getQuotes', 0, false, { symbols: list });
+      this.handleError(error, 'getQuotes', list);
+    }
+  }
+
   /**
    * Get historical price data
    * @param symbol Stock symbol
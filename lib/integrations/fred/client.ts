@@ -6,6 +6,7 @@
  *
  * Features:
  * - 20-second timeout protection
+ * - Per-minute rate limit with 429 back-off (core/provider-limits.ts)
  * - Structured logging for all operations
  * - Graceful handling of missing data (returns null)
  * - Custom error types for better debugging
@@ -16,6 +17,7 @@
 import axios, { AxiosInstance } from 'axios';
 import { createTimer, warn, logAPICall } from '../../core/logger';
 import { withRetry } from '../../core/utils';
+import { throttleAxios } from '../../core/provider-limits';
 
 interface FREDConfig {
   apiKey: string;
@@ -74,14 +76,17 @@ export class FREDClient {
   constructor(config: FREDConfig) {
     this.apiKey = config.apiKey;
 
-    this.client = axios.create({
-      baseURL: config.baseUrl || 'https://api.stlouisfed.org/fred',
-      timeout: config.timeout || this.TIMEOUT_MS,
-      params: {
-        api_key: this.apiKey,
-        file_type: 'json',
-      },
-    });
+    this.client = throttleAxios(
+      axios.create({
+        baseURL: config.baseUrl || 'https://api.stlouisfed.org/fred',
+        timeout: config.timeout || this.TIMEOUT_MS,
+        params: {
+          api_key: this.apiKey,
+          file_type: 'json',
+        },
+      }),
+      'fred'
+    );
   }
 
   /**
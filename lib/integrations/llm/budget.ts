@@ -0,0 +1,140 @@
+/**
+ * LLM Budget Enforcement
+ *
+ * Each subscription tier has a daily server-paid LLM budget
+ * (LLM_DAILY_BUDGET_USD). Spend comes from the cost ledger.
+ *
+ * - Under budget:          the user's chosen model
+ * - Over budget:           LLM_BUDGET_DEGRADED_MODEL on the server key
+ * - Over the hard cap:     no narrative - scores only
+ *   (budget × LLM_BUDGET_HARD_CAP_MULTIPLIER)
+ *
+ * Analyses on the user's own API key are never limited (and never fall
+ * back to server keys, see createProviderForSelection). The check runs
+ * before the call, so the analysis that crosses a threshold still completes
+ * at the old level.
+ */
+
+import type { ScoreResults } from '../../domain/analysis/scoring';
+import { getUserDailySpend } from './cost-ledger';
+import { LLMFactory } from './factory';
+import { LLMSelection, decryptSelectionKey } from './preferences';
+
+export type BudgetAction = 'full' | 'degrade' | 'skip';
+
+export interface BudgetDecision {
+  action: BudgetAction;
+  spent: number;  // Server-paid USD today (UTC)
+  budget: number; // Daily budget for the tier
+  tier: string;
+  ownKey?: boolean; // Not limited - the user pays their provider directly
+}
+
+const ACTION_RANK: Record<BudgetAction, number> = { full: 0, degrade: 1, skip: 2 };
+
+/** Daily server-paid spend per user (UTC day), by subscription tier */
+const LLM_DAILY_BUDGET_USD: Record<'Free' | 'Starter' | 'Analyst' | 'Pro', number> = {
+  Free: 0.10,
+  Starter: 0.50,
+  Analyst: 2.00,
+  Pro: 10.00,
+};
+
+/** Over budget: narratives are written by this model instead */
+const LLM_BUDGET_DEGRADED_MODEL = 'gemini-2.5-flash-lite';
+
+/** At this multiple of the budget narratives are skipped (scores only) */
+const LLM_BUDGET_HARD_CAP_MULTIPLIER = 2;
+
+/**
+ * Daily budget for a subscription tier (unknown/missing tiers get Free)
+ */
+export function getDailyBudget(tier?: string | null): number {
+  const budgets = LLM_DAILY_BUDGET_USD;
+  return budgets[tier as keyof typeof budgets] ?? budgets.Free;
+}
+
+/**
+ * Decide how much LLM a user gets for their next analysis
+ */
+export async function checkLLMBudget(
+  userId: string,
+  tier: string | null | undefined,
+  selection?: LLMSelection
+): Promise<BudgetDecision> {
+  const budget = getDailyBudget(tier);
+  const tierName = tier || 'Free';
+
+  if (selection && (await decryptSelectionKey(selection))) {
+    return { action: 'full', spent: 0, budget, tier: tierName, ownKey: true };
+  }
+
+  const spent = await getUserDailySpend(userId);
+  const action: BudgetAction =
+    spent >= budget * LLM_BUDGET_HARD_CAP_MULTIPLIER ? 'skip'
+    : spent >= budget ? 'degrade'
+    : 'full';
+
+  return { action, spent, budget, tier: tierName };
+}
+
+/**
+ * Decision for an analysis shared by several users (orchestrator): the
+ * least restricted one, so nobody under budget loses their narrative
+ * because another subscriber ran out
+ */
+export function leastRestrictive(decisions: BudgetDecision[]): BudgetDecision | undefined {
+  return decisions.reduce<BudgetDecision | undefined>(
+    (best, decision) => (!best || ACTION_RANK[decision.action] < ACTION_RANK[best.action] ? decision : best),
+    undefined
+  );
+}
+
+/**
+ * Apply a decision to an LLM selection
+ *
+ * @returns the selection to run with, or null to skip the narrative
+ */
+export function applyBudget(selection: LLMSelection, decision?: BudgetDecision): LLMSelection | null {
+  if (!decision || decision.action === 'full') return selection;
+  if (decision.action === 'skip') return null;
+
+  const model = LLM_BUDGET_DEGRADED_MODEL;
+  return {
+    provider: LLMFactory.inferProviderType(model) || 'gemini',
+    model,
+    source: 'budget',
+  };
+}
+
+/**
+ * Why a narrative was skipped, for stand-in content
+ */
+export function describeBudgetSkip(decision: BudgetDecision): string {
+  return `today's AI budget for the ${decision.tier} plan ($${decision.budget.toFixed(2)}) is used up ($${decision.spent.toFixed(2)} spent)`;
+}
+
+/**
+ * Stand-in analysis content when the narrative is skipped
+ * Headed like a normal analysis so the Notion page keeps its shape.
+ */
+export function formatBudgetSkippedAnalysis(ticker: string, scores: ScoreResults, decision: BudgetDecision): string {
+  const lines = [
+    `## ${ticker} - Scores Only`,
+    '',
+    `The written analysis was skipped: ${describeBudgetSkip(decision)}. ` +
+      'Scores below are complete. Narratives resume tomorrow (UTC), or right away with your own API key in Settings → AI Model.',
+    '',
+    '### Scores',
+    '',
+    `- **Composite:** ${scores.composite.toFixed(2)}/5.0 - ${scores.recommendation}`,
+    `- **Technical:** ${scores.technical.toFixed(2)}`,
+    `- **Fundamental:** ${scores.fundamental.toFixed(2)}`,
+    `- **Macro:** ${scores.macro.toFixed(2)}`,
+    `- **Risk:** ${scores.risk.toFixed(2)}`,
+    `- **Sentiment:** ${scores.sentiment.toFixed(2)}`,
+    `- **Market Alignment:** ${scores.marketAlignment.toFixed(2)}`,
+    '',
+  ];
+  return lines.join('\n');
+}
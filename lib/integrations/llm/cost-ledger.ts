@@ -0,0 +1,252 @@
+/**
+ * LLM Cost Ledger
+ *
+ * Accumulates what each LLM call cost, per user per UTC day, in Upstash
+ * Redis. Budget checks (budget.ts) read a user's daily total; the admin
+ * stats endpoint reads the daily rollups.
+ *
+ * Keys (all expire after 90 days, the admin view's longest window):
+ * - llm_cost:v1:user:{userId}:{date}  HASH cost, own_cost, calls, input, output
+ * - llm_cost:v1:day:{date}            HASH u|{userId}|{field}, m|{model}|{field}, total|{field}
+ * - llm_cost:v1:entries:{date}        LIST of JSON entries, newest first (capped)
+ *
+ * `cost` is server-paid spend; calls made on a user's own key go to
+ * `own_cost` so they show up in reports without eating into the budget.
+ * A shared analysis is booked once per subscriber with its `share`, so the
+ * model and total call counts add up shares rather than entries.
+ *
+ * Without Redis nothing is recorded and every user's spend reads as 0
+ * (budgets fail open, like the rate limiter).
+ */
+
+import { warn } from '../../core/logger';
+import { LLMFactory } from './factory';
+
+const REDIS_URL = process.env.UPSTASH_REDIS_REST_URL || '';
+const REDIS_TOKEN = process.env.UPSTASH_REDIS_REST_TOKEN || '';
+
+const KEY_PREFIX = 'llm_cost:v1';
+const MAX_ENTRIES_PER_DAY = 5000;
+const LEDGER_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+/** Longest window the admin report reads */
+export const MAX_REPORT_DAYS = 31;
+
+export type LLMCostKind = 'analysis' | 'trade_plan' | 'comparison' | 'weekly_review';
+
+/**
+ * One LLM call (or one analysis's calls combined) charged to a user
+ */
+export interface LLMCostEntry {
+  userId: string;
+  kind: LLMCostKind;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;          // USD
+  ownKey?: boolean;      // Billed to the user's own provider key
+  ticker?: string;
+  share?: number;        // Fraction of a shared analysis charged to this user (orchestrator)
+}
+
+export interface CostTotals {
+  cost: number;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CostReport {
+  days: string[];        // Dates covered (YYYY-MM-DD, UTC), oldest first
+  total: CostTotals;
+  byDay: Array<{ date: string } & CostTotals>;
+  byUser: Array<{ userId: string } & CostTotals>;
+  byModel: Array<{ model: string; provider: string } & CostTotals>;
+}
+
+/**
+ * Ledger day for a timestamp (UTC)
+ */
+export function ledgerDate(now: Date = new Date()): string {
+  return now.toISOString().split('T')[0];
+}
+
+function isConfigured(): boolean {
+  return !!REDIS_URL && !!REDIS_TOKEN;
+}
+
+/**
+ * Run several Redis commands in one round trip via the Upstash REST API
+ */
+async function redisPipeline(commands: (string | number)[][]): Promise<any[]> {
+  const response = await fetch(`${REDIS_URL}/pipeline`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${REDIS_TOKEN}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(commands),
+  });
+  if (!response.ok) {
+    throw new Error(`Redis pipeline failed: ${response.status} ${response.statusText}`);
+  }
+  const data: any = await response.json();
+  return (data as Array<{ result?: any; error?: string }>).map((item) => item.result);
+}
+
+/**
+ * Add an entry to the ledger
+ * Never throws - a ledger outage must not fail the analysis it is recording
+ */
+export async function recordLLMCost(entry: LLMCostEntry, now: Date = new Date()): Promise<void> {
+  if (!isConfigured() || entry.cost < 0) return;
+
+  const date = ledgerDate(now);
+  const userKey = `${KEY_PREFIX}:user:${entry.userId}:${date}`;
+  const dayKey = `${KEY_PREFIX}:day:${date}`;
+  const entriesKey = `${KEY_PREFIX}:entries:${date}`;
+  const ttl = LEDGER_TTL_SECONDS;
+  const cost = entry.cost.toFixed(6);
+  const costField = entry.ownKey ? 'own_cost' : 'cost';
+  const calls = (entry.share ?? 1).toFixed(6);
+
+  const commands: (string | number)[][] = [
+    ['HINCRBYFLOAT', userKey, costField, cost],
+    ['HINCRBY', userKey, 'calls', 1],
+    ['HINCRBY', userKey, 'input', entry.inputTokens],
+    ['HINCRBY', userKey, 'output', entry.outputTokens],
+    ['EXPIRE', userKey, ttl],
+    ['LPUSH', entriesKey, JSON.stringify({ ...entry, cost: Number(cost), at: now.toISOString() })],
+    ['LTRIM', entriesKey, 0, MAX_ENTRIES_PER_DAY - 1],
+    ['EXPIRE', entriesKey, ttl],
+  ];
+  for (const scope of [`u|${entry.userId}`, `m|${entry.model}`, 'total']) {
+    commands.push(
+      ['HINCRBYFLOAT', dayKey, `${scope}|${costField}`, cost],
+      // Each subscriber got an analysis; the model made one call between them
+      scope.startsWith('u|') ? ['HINCRBY', dayKey, `${scope}|calls`, 1] : ['HINCRBYFLOAT', dayKey, `${scope}|calls`, calls],
+      ['HINCRBY', dayKey, `${scope}|input`, entry.inputTokens],
+      ['HINCRBY', dayKey, `${scope}|output`, entry.outputTokens]
+    );
+  }
+  commands.push(['EXPIRE', dayKey, ttl]);
+
+  try {
+    await redisPipeline(commands);
+  } catch (error) {
+    warn('Failed to record LLM cost', {
+      userId: entry.userId,
+      kind: entry.kind,
+      model: entry.model,
+      cost,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Server-paid LLM spend for a user on a UTC day (0 if unknown)
+ */
+export async function getUserDailySpend(userId: string, now: Date = new Date()): Promise<number> {
+  if (!isConfigured()) return 0;
+
+  try {
+    const [value] = await redisPipeline([['HGET', `${KEY_PREFIX}:user:${userId}:${ledgerDate(now)}`, 'cost']]);
+    return value ? parseFloat(value) || 0 : 0;
+  } catch (error) {
+    warn('Failed to read LLM spend', { userId, error: error instanceof Error ? error.message : String(error) });
+    return 0;
+  }
+}
+
+/**
+ * Spend by day, user and model for the last `days` UTC days (including today)
+ * Totals include calls on users' own keys; budgets only count server spend.
+ */
+export async function getCostReport(days: number = 7, now: Date = new Date()): Promise<CostReport> {
+  const window = Math.max(1, Math.min(MAX_REPORT_DAYS, Math.floor(days)));
+  const dates: string[] = [];
+  for (let offset = window - 1; offset >= 0; offset--) {
+    dates.push(ledgerDate(new Date(now.getTime() - offset * 24 * 60 * 60 * 1000)));
+  }
+
+  const report: CostReport = {
+    days: dates,
+    total: emptyTotals(),
+    byDay: [],
+    byUser: [],
+    byModel: [],
+  };
+  if (!isConfigured()) return report;
+
+  const results = await redisPipeline(dates.map((date) => ['HGETALL', `${KEY_PREFIX}:day:${date}`]));
+  const users = new Map<string, CostTotals>();
+  const models = new Map<string, CostTotals>();
+
+  dates.forEach((date, index) => {
+    const fields = toRecord(results[index]);
+    const day = emptyTotals();
+
+    for (const [field, raw] of Object.entries(fields)) {
+      const parts = field.split('|');
+      const metric = parts.pop()!;
+      const scope = parts.shift()!;
+      const name = parts.join('|');
+      const value = parseFloat(raw) || 0;
+
+      if (scope === 'total') addMetric(day, metric, value);
+      else if (scope === 'u') addMetric(getOrCreate(users, name), metric, value);
+      else if (scope === 'm') addMetric(getOrCreate(models, name), metric, value);
+    }
+
+    report.byDay.push({ date, ...day });
+    for (const key of Object.keys(report.total) as Array<keyof CostTotals>) {
+      report.total[key] += day[key];
+    }
+  });
+
+  report.byUser = Array.from(users, ([userId, totals]) => ({ userId, ...roundTotals(totals) }))
+    .sort((a, b) => b.cost - a.cost);
+  report.byModel = Array.from(models, ([model, totals]) => ({
+    model,
+    provider: LLMFactory.inferProviderType(model) || 'unknown',
+    ...roundTotals(totals),
+  })).sort((a, b) => b.cost - a.cost);
+  report.byDay = report.byDay.map((day) => ({ ...day, ...roundTotals(day) }));
+  report.total = roundTotals(report.total);
+
+  return report;
+}
+
+function emptyTotals(): CostTotals {
+  return { cost: 0, calls: 0, inputTokens: 0, outputTokens: 0 };
+}
+
+function getOrCreate(map: Map<string, CostTotals>, key: string): CostTotals {
+  if (!map.has(key)) map.set(key, emptyTotals());
+  return map.get(key)!;
+}
+
+function addMetric(totals: CostTotals, metric: string, value: number): void {
+  if (metric === 'cost' || metric === 'own_cost') totals.cost += value;
+  else if (metric === 'calls') totals.calls += value;
+  else if (metric === 'input') totals.inputTokens += value;
+  else if (metric === 'output') totals.outputTokens += value;
+}
+
+function roundTotals(totals: CostTotals): CostTotals {
+  // Shares of one call can sum to 0.999999
+  return { ...totals, cost: Math.round(totals.cost * 10000) / 10000, calls: Math.round(totals.calls * 100) / 100 };
+}
+
+/**
+ * HGETALL over REST returns a flat [field, value, ...] array
+ */
+function toRecord(result: unknown): Record<string, string> {
+  if (!Array.isArray(result)) return {};
+  const record: Record<string, string> = {};
+  for (let i = 0; i + 1 < result.length; i += 2) {
+    record[String(result[i])] = String(result[i + 1]);
+  }
+  return record;
+}
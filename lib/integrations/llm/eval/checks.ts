@@ -0,0 +1,178 @@
+/**
+ * Prompt Output Checks
+ *
+ * Scores one analysis against the rules its prompt variant declares
+ * (PromptRules) and against the metrics it was given:
+ *
+ * - sections: required headings present
+ * - length:   output tokens inside the prompt's target range
+ * - numeric:  numbers cited next to a metric's label match the input
+ * - format:   tables, emoji groups and callout the prompt asks for
+ *
+ * Each check scores 0-1. The checks are heuristics - they catch a variant
+ * that drops sections or misquotes the data, not subtle quality changes.
+ */
+
+import { AnalysisContext } from '../types';
+import { PromptRules } from '../prompts/registry';
+import { CheckResult, OutputScore } from './types';
+
+/**
+ * Metrics the narrative is likely to quote, with the labels it quotes them by
+ * Tolerances allow for rounding ("3.8/5.0" for 3.82, "$187" for 187.43).
+ */
+const NUMERIC_METRICS: Array<{
+  key: string;
+  labels: string[];
+  absTolerance: number;
+  relTolerance?: number;
+  previousKey?: string; // Also accept the previous analysis's value ("3.45 → 3.80")
+}> = [
+  { key: 'compositeScore', labels: ['composite score', 'composite'], absTolerance: 0.06, previousKey: 'compositeScore' },
+  { key: 'technicalScore', labels: ['technical score', 'technical'], absTolerance: 0.06, previousKey: 'technicalScore' },
+  { key: 'fundamentalScore', labels: ['fundamental score', 'fundamental'], absTolerance: 0.06, previousKey: 'fundamentalScore' },
+  { key: 'macroScore', labels: ['macro score'], absTolerance: 0.06, previousKey: 'macroScore' },
+  { key: 'riskScore', labels: ['risk score'], absTolerance: 0.06 },
+  { key: 'sentimentScore', labels: ['sentiment score'], absTolerance: 0.06 },
+  { key: 'currentPrice', labels: ['current price', 'trading at', 'price of'], absTolerance: 0.01, relTolerance: 0.01 },
+  { key: 'rsi', labels: ['rsi'], absTolerance: 0.6 },
+  { key: 'peRatio', labels: ['p/e ratio', 'p/e'], absTolerance: 0.1, relTolerance: 0.02 },
+  { key: 'ma50', labels: ['50-day ma', '50-day moving average', '50dma', 'ma50'], absTolerance: 0.01, relTolerance: 0.01 },
+  { key: 'ma200', labels: ['200-day ma', '200-day moving average', '200dma', 'ma200'], absTolerance: 0.01, relTolerance: 0.01 },
+  { key: 'beta', labels: ['beta'], absTolerance: 0.06 },
+];
+
+/** Characters allowed between a label and its number (": ", " of $", "** ") */
+const LABEL_GAP = String.raw`[^\d\n|]{0,12}?`;
+const NUMBER = String.raw`\$?(-?\d{1,3}(?:,\d{3})*(?:\.\d+)?|-?\d+(?:\.\d+)?)`;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function checkSections(content: string, rules: PromptRules): CheckResult {
+  const missing = rules.sections.filter((section) => {
+    const heading = new RegExp(`^\\s*#{1,6}[^\\n]*${escapeRegExp(section)}`, 'im');
+    return !heading.test(content);
+  });
+
+  return {
+    score: rules.sections.length === 0 ? 1 : (rules.sections.length - missing.length) / rules.sections.length,
+    details: missing.map((section) => `missing section "${section}"`),
+  };
+}
+
+/**
+ * 1 inside the target range, falling off linearly with the distance outside it
+ */
+export function checkLength(outputTokens: number, rules: PromptRules): CheckResult & { outputTokens: number } {
+  const target = rules.targetTokens;
+  if (!target) return { score: 1, details: [], outputTokens };
+
+  if (outputTokens < target.min) {
+    return {
+      score: Math.max(0, outputTokens / target.min),
+      details: [`${outputTokens} tokens, under the ${target.min}-${target.max} target`],
+      outputTokens,
+    };
+  }
+  if (outputTokens > target.max) {
+    return {
+      score: Math.max(0, 1 - (outputTokens - target.max) / target.max),
+      details: [`${outputTokens} tokens, over the ${target.min}-${target.max} target`],
+      outputTokens,
+    };
+  }
+  return { score: 1, details: [], outputTokens };
+}
+
+/**
+ * Compare numbers quoted next to metric labels with the input metrics
+ * An output that quotes no metrics scores 1 (nothing contradicts the data).
+ */
+export function checkNumericConsistency(
+  content: string,
+  context: AnalysisContext
+): CheckResult & { cited: number; consistent: number } {
+  const details: string[] = [];
+  let cited = 0;
+  let consistent = 0;
+
+  for (const metric of NUMERIC_METRICS) {
+    const value = context.currentMetrics[metric.key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) continue;
+
+    const accepted = [value];
+    const previous = metric.previousKey
+      ? (metric.previousKey === 'compositeScore'
+        ? context.previousAnalysis?.compositeScore
+        : context.previousAnalysis?.metrics?.[metric.previousKey])
+      : undefined;
+    if (typeof previous === 'number') accepted.push(previous);
+
+    const tolerance = Math.max(metric.absTolerance, (metric.relTolerance || 0) * Math.abs(value));
+    const pattern = new RegExp(`\\b(?:${metric.labels.map(escapeRegExp).join('|')})\\b${LABEL_GAP}${NUMBER}`, 'gi');
+
+    for (const match of content.matchAll(pattern)) {
+      const quoted = parseFloat(match[1].replace(/,/g, ''));
+      if (!Number.isFinite(quoted)) continue;
+
+      cited++;
+      if (accepted.some((expected) => Math.abs(quoted - expected) <= tolerance)) {
+        consistent++;
+      } else {
+        details.push(`${metric.key}: quoted ${quoted}, input ${Math.round(value * 100) / 100}`);
+      }
+    }
+  }
+
+  return {
+    score: cited === 0 ? 1 : consistent / cited,
+    details: cited === 0 ? ['no metrics quoted'] : details,
+    cited,
+    consistent,
+  };
+}
+
+export function checkFormat(content: string, rules: PromptRules): CheckResult {
+  const checks: Array<[string, boolean]> = [];
+
+  if (rules.tables) {
+    checks.push(['markdown table', /^\s*\|.*\|\s*\n\s*\|[\s:|-]+\|/m.test(content)]);
+  }
+  for (const group of rules.emojiGroups) {
+    checks.push([`one of ${group.join(' ')}`, group.some((emoji) => content.includes(emoji))]);
+  }
+  if (rules.callout) {
+    checks.push(['<callout> summary', /<callout\b[^>]*>[\s\S]*?<\/callout>/.test(content)]);
+  }
+
+  const failed = checks.filter(([, passed]) => !passed);
+  return {
+    score: checks.length === 0 ? 1 : (checks.length - failed.length) / checks.length,
+    details: failed.map(([name]) => `missing ${name}`),
+  };
+}
+
+/**
+ * Score one output
+ */
+export function scoreOutput(
+  content: string,
+  outputTokens: number,
+  context: AnalysisContext,
+  rules: PromptRules
+): OutputScore {
+  const sections = checkSections(content, rules);
+  const length = checkLength(outputTokens, rules);
+  const numeric = checkNumericConsistency(content, context);
+  const format = checkFormat(content, rules);
+
+  return {
+    overall: (sections.score + length.score + numeric.score + format.score) / 4,
+    sections,
+    length,
+    numeric,
+    format,
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * Prompt Evaluation Fixtures
+ *
+ * Analysis contexts are recorded once (live FMP/FRED/Notion data) and
+ * saved as JSON, so prompt variants can be compared later on identical
+ * inputs. Only the LLM calls of an evaluation touch the network.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ValidationError } from '../../../core/errors';
+import { AnalysisContext } from '../types';
+import { PromptEvalFixture } from './types';
+
+/**
+ * Build a fixture from recorded contexts
+ * A context pinned to a prompt version is unpinned - the evaluation decides
+ * which variant runs.
+ */
+export function createPromptEvalFixture(contexts: AnalysisContext[]): PromptEvalFixture {
+  return {
+    version: 1,
+    recordedAt: new Date().toISOString(),
+    contexts: contexts.map((context) => {
+      const unpinned = { ...context };
+      delete unpinned.promptVersion;
+      return unpinned;
+    }),
+  };
+}
+
+/**
+ * Write a fixture to disk (creates parent directories)
+ */
+export function savePromptEvalFixture(fixture: PromptEvalFixture, filePath: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(fixture, null, 2));
+}
+
+/**
+ * Read a fixture from disk
+ *
+ * @throws ValidationError if the file is not a supported fixture
+ */
+export function loadPromptEvalFixture(filePath: string): PromptEvalFixture {
+  const fixture = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as PromptEvalFixture;
+
+  if (fixture.version !== 1) {
+    throw new ValidationError('fixture', `unsupported version ${fixture.version} in ${filePath}`);
+  }
+  if (!Array.isArray(fixture.contexts) || fixture.contexts.length === 0) {
+    throw new ValidationError('fixture', `no contexts in ${filePath}`);
+  }
+  for (const context of fixture.contexts) {
+    if (!context.ticker || !context.currentDate || !context.currentMetrics) {
+      throw new ValidationError('fixture', `context without ticker/currentDate/currentMetrics in ${filePath}`);
+    }
+  }
+
+  return fixture;
+}
@@ -0,0 +1,37 @@
+/**
+ * Prompt Evaluation Module - Public API
+ *
+ * Offline A/B comparison of registered analysis prompts: recorded
+ * AnalysisContexts go through each variant and the outputs are scored
+ * against the rules the prompt sets.
+ */
+
+// Main entry point
+export { runPromptEval } from './runner';
+
+// Fixture recording / loading
+export {
+  createPromptEvalFixture,
+  savePromptEvalFixture,
+  loadPromptEvalFixture,
+} from './fixtures';
+
+// Individual checks (for scoring outputs produced elsewhere)
+export {
+  scoreOutput,
+  checkSections,
+  checkLength,
+  checkNumericConsistency,
+  checkFormat,
+} from './checks';
+
+// Types
+export type {
+  PromptEvalFixture,
+  CheckResult,
+  OutputScore,
+  EvalCase,
+  VariantSummary,
+  PromptEvalReport,
+  PromptEvalOptions,
+} from './types';
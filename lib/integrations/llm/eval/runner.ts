@@ -0,0 +1,93 @@
+/**
+ * Prompt Evaluation Runner
+ *
+ * Runs every fixture context through each requested prompt variant on one
+ * provider, scores the outputs (checks.ts) and summarizes per variant.
+ * Calls run one at a time - evaluations are small and provider rate
+ * limits are not.
+ */
+
+import { ValidationError } from '../../../core/errors';
+import { LLMProvider } from '../provider-interface';
+import { getPromptVariant, listPromptVariants } from '../prompts/registry';
+import { scoreOutput } from './checks';
+import { EvalCase, PromptEvalFixture, PromptEvalOptions, PromptEvalReport, VariantSummary } from './types';
+
+/**
+ * Evaluate prompt variants over a fixture
+ *
+ * @throws ValidationError if a variant is not registered or no context matches
+ */
+export async function runPromptEval(
+  fixture: PromptEvalFixture,
+  provider: LLMProvider,
+  options: PromptEvalOptions = {}
+): Promise<PromptEvalReport> {
+  const variantIds = options.variants?.length ? options.variants : listPromptVariants().map((v) => v.id);
+  const variants = variantIds.map((id) => {
+    try {
+      return getPromptVariant(id);
+    } catch (error) {
+      throw new ValidationError('variants', (error as Error).message);
+    }
+  });
+
+  const tickers = options.tickers?.map((t) => t.toUpperCase());
+  const contexts = tickers
+    ? fixture.contexts.filter((context) => tickers.includes(context.ticker.toUpperCase()))
+    : fixture.contexts;
+  if (contexts.length === 0) {
+    throw new ValidationError('tickers', `none of ${tickers?.join(', ')} are in the fixture`);
+  }
+
+  const repeat = Math.max(1, options.repeat || 1);
+  const cases: EvalCase[] = [];
+
+  for (const variant of variants) {
+    for (const context of contexts) {
+      for (let run = 1; run <= repeat; run++) {
+        const evalCase: EvalCase = { ticker: context.ticker, date: context.currentDate, variant: variant.id, run };
+        try {
+          const result = await provider.generateAnalysis({ ...context, promptVersion: variant.id });
+          evalCase.model = result.modelUsed;
+          evalCase.cost = result.cost;
+          evalCase.latencyMs = result.latencyMs;
+          evalCase.score = scoreOutput(result.content, result.tokensUsed.output, context, variant.rules);
+          if (options.keepContent) evalCase.content = result.content;
+        } catch (error) {
+          evalCase.error = error instanceof Error ? error.message : String(error);
+        }
+        cases.push(evalCase);
+      }
+    }
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    model: provider.getModelName(),
+    fixtures: contexts.length,
+    variants: variants
+      .map((variant) => summarizeVariant(variant.id, cases.filter((c) => c.variant === variant.id)))
+      .sort((a, b) => b.overall - a.overall),
+    cases,
+  };
+}
+
+function summarizeVariant(variant: string, cases: EvalCase[]): VariantSummary {
+  const scored = cases.filter((c) => c.score);
+  const mean = (pick: (c: EvalCase) => number) =>
+    scored.length === 0 ? 0 : scored.reduce((sum, c) => sum + pick(c), 0) / scored.length;
+
+  return {
+    variant,
+    cases: cases.length,
+    failed: cases.length - scored.length,
+    overall: mean((c) => c.score!.overall),
+    sections: mean((c) => c.score!.sections.score),
+    length: mean((c) => c.score!.length.score),
+    numeric: mean((c) => c.score!.numeric.score),
+    format: mean((c) => c.score!.format.score),
+    avgOutputTokens: Math.round(mean((c) => c.score!.length.outputTokens)),
+    totalCost: scored.reduce((sum, c) => sum + (c.cost || 0), 0),
+  };
+}
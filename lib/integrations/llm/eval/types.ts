@@ -0,0 +1,74 @@
+/**
+ * Prompt Evaluation Types
+ *
+ * Shared types for running recorded AnalysisContexts through registered
+ * prompt variants and scoring the outputs.
+ */
+
+import { AnalysisContext } from '../types';
+
+/**
+ * Recorded analysis contexts (see scripts/maintenance/record-prompt-fixture.ts)
+ */
+export interface PromptEvalFixture {
+  version: 1;
+  recordedAt: string; // ISO timestamp
+  contexts: AnalysisContext[];
+}
+
+/**
+ * One scored dimension of an output (0-1, higher is better)
+ */
+export interface CheckResult {
+  score: number;
+  details: string[]; // What was missing / inconsistent (empty on a perfect score)
+}
+
+export interface OutputScore {
+  overall: number; // Mean of the four checks
+  sections: CheckResult;
+  length: CheckResult & { outputTokens: number };
+  numeric: CheckResult & { cited: number; consistent: number };
+  format: CheckResult;
+}
+
+export interface EvalCase {
+  ticker: string;
+  date: string;
+  variant: string;
+  run: number; // 1-based repeat index
+  model?: string;
+  cost?: number;
+  latencyMs?: number;
+  score?: OutputScore;
+  error?: string; // LLM call failed - the case is excluded from averages
+  content?: string;
+}
+
+export interface VariantSummary {
+  variant: string;
+  cases: number;
+  failed: number;
+  overall: number;
+  sections: number;
+  length: number;
+  numeric: number;
+  format: number;
+  avgOutputTokens: number;
+  totalCost: number;
+}
+
+export interface PromptEvalReport {
+  generatedAt: string;
+  model: string;
+  fixtures: number;
+  variants: VariantSummary[]; // Best overall first
+  cases: EvalCase[];
+}
+
+export interface PromptEvalOptions {
+  variants?: string[]; // Registered variant IDs (default: all)
+  tickers?: string[];  // Subset of fixture tickers
+  repeat?: number;     // Runs per context per variant (default: 1)
+  keepContent?: boolean; // Keep outputs in the report (for reading them afterwards)
+}
@@ -9,34 +9,57 @@ import { LLMProvider } from './provider-interface';
 import { GeminiProvider } from './providers/gemini';
 import { ClaudeProvider } from './providers/claude';
 import { OpenAIProvider } from './providers/openai';
+import { FallbackProvider } from './fallback';
+import { ThrottledProvider } from './throttled';
 
 export type LLMProviderType = 'gemini' | 'claude' | 'openai';
 
+export const PROVIDER_TYPES: LLMProviderType[] = ['gemini', 'claude', 'openai'];
+
+/** Model used when a provider is chosen without one */
+export const DEFAULT_MODELS: Record<LLMProviderType, string> = {
+  gemini: 'gemini-2.0-flash-exp',
+  claude: 'claude-sonnet-4-5-20250929',
+  openai: 'gpt-4.1',
+};
+
+const API_KEY_ENV: Record<LLMProviderType, string> = {
+  gemini: 'GEMINI_API_KEY',
+  claude: 'ANTHROPIC_API_KEY',
+  openai: 'OPENAI_API_KEY',
+};
+
 export class LLMFactory {
   /**
    * Create a specific provider instance
+   * Calls wait for the key's RPM/TPM limits (see throttled.ts)
    * @param type - Provider type (gemini, claude, openai)
    * @param modelName - Optional model name override
+   * @param apiKey - Optional key override (a user's own key; default: server key)
    * @returns LLM Provider instance
    */
-  static createProvider(type: LLMProviderType = 'gemini', modelName?: string): LLMProvider {
+  static createProvider(type: LLMProviderType = 'gemini', modelName?: string, apiKey?: string): LLMProvider {
+    return new ThrottledProvider(this.createUnthrottled(type, modelName, apiKey), type, !!apiKey);
+  }
+
+  private static createUnthrottled(type: LLMProviderType, modelName?: string, apiKey?: string): LLMProvider {
     switch (type) {
       case 'gemini':
         return new GeminiProvider(
-          process.env.GEMINI_API_KEY!,
-          modelName || 'gemini-2.0-flash-exp'
+          apiKey || process.env.GEMINI_API_KEY!,
+          modelName || DEFAULT_MODELS.gemini
         );
 
       case 'claude':
         return new ClaudeProvider(
-          process.env.ANTHROPIC_API_KEY!,
-          modelName || 'claude-sonnet-4-5-20250929'
+          apiKey || process.env.ANTHROPIC_API_KEY!,
+          modelName || DEFAULT_MODELS.claude
         );
 
       case 'openai':
         return new OpenAIProvider(
-          process.env.OPENAI_API_KEY!,
-          modelName || 'gpt-4.1'
+          apiKey || process.env.OPENAI_API_KEY!,
+          modelName || DEFAULT_MODELS.openai
         );
 
       default:
@@ -47,12 +70,91 @@ export class LLMFactory {
   /**
    * Create provider from environment variables
    * Reads LLM_PROVIDER and LLM_MODEL_NAME from process.env
+   *
+   * With LLM_FALLBACK_CHAIN set (e.g. "claude,openai:gpt-4.1"), returns a
+   * FallbackProvider that tries LLM_PROVIDER first, then each chain entry
+   * in order. Entries without an API key are skipped.
    * @returns LLM Provider instance
    */
   static getProviderFromEnv(): LLMProvider {
     const providerType = (process.env.LLM_PROVIDER || 'gemini') as LLMProviderType;
-    const modelName = process.env.LLM_MODEL_NAME;
+    return this.withFallbacks(this.createProvider(providerType, process.env.LLM_MODEL_NAME));
+  }
+
+  /**
+   * Put a provider in front of the server's providers
+   *
+   * The fallbacks are LLM_PROVIDER and the LLM_FALLBACK_CHAIN entries, minus
+   * any that are the same model on the same key as the primary. Only for
+   * server-key primaries - createProviderForSelection runs a user's own key
+   * alone, since its analyses skip the budget check.
+   */
+  static withFallbacks(primary: LLMProvider): LLMProvider {
+    const envType = (process.env.LLM_PROVIDER || 'gemini') as LLMProviderType;
+    const candidates = [
+      { type: envType, modelName: process.env.LLM_MODEL_NAME },
+      ...this.parseFallbackChain(process.env.LLM_FALLBACK_CHAIN),
+    ];
+
+    const chain: LLMProvider[] = [primary];
+    for (const entry of candidates) {
+      if (!this.hasApiKey(entry.type)) continue;
+      const provider = this.createProvider(entry.type, entry.modelName);
+      const duplicate = chain.some((existing) =>
+        existing.getModelName() === provider.getModelName() &&
+        existing.getKeyFingerprint() === provider.getKeyFingerprint()
+      );
+      if (!duplicate) chain.push(provider);
+    }
+
+    return chain.length > 1 ? new FallbackProvider(chain) : primary;
+  }
+
+  /**
+   * Parse "type[:model],type[:model],..." (unknown types are ignored with a warning)
+   */
+  static parseFallbackChain(value: string | undefined): Array<{ type: LLMProviderType; modelName?: string }> {
+    if (!value) return [];
+
+    return value
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .flatMap((entry) => {
+        const [type, ...model] = entry.split(':');
+        const normalized = type.trim().toLowerCase() as LLMProviderType;
+        if (!PROVIDER_TYPES.includes(normalized)) {
+          console.warn(`[LLM] Ignoring unknown provider "${type}" in LLM_FALLBACK_CHAIN`);
+          return [];
+        }
+        return [{ type: normalized, modelName: model.join(':').trim() || undefined }];
+      });
+  }
+
+  /**
+   * Normalize a provider name as stored in Notion ("Claude", "openai", ...)
+   */
+  static parseProviderType(value: string | null | undefined): LLMProviderType | null {
+    const normalized = value?.trim().toLowerCase();
+    return normalized && (PROVIDER_TYPES as string[]).includes(normalized) ? (normalized as LLMProviderType) : null;
+  }
 
-    return this.createProvider(providerType, modelName);
+  /**
+   * Provider that serves a model, from its name prefix (null if unrecognized)
+   */
+  static inferProviderType(modelName: string | null | undefined): LLMProviderType | null {
+    const model = modelName?.trim().toLowerCase();
+    if (!model) return null;
+    if (model.startsWith('gemini')) return 'gemini';
+    if (model.startsWith('claude')) return 'claude';
+    if (/^(gpt|o\d|chatgpt)/.test(model)) return 'openai';
+    return null;
+  }
+
+  /**
+   * True if the provider's API key is configured
+   */
+  static hasApiKey(type: LLMProviderType): boolean {
+    return !!process.env[API_KEY_ENV[type]];
   }
 }
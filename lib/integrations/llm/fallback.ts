@@ -0,0 +1,309 @@
+/**
+ * Fallback Provider Chain
+ *
+ * Composite LLMProvider that tries an ordered list of providers (e.g.
+ * gemini → claude → openai) until one answers. Each provider has a circuit
+ * breaker so a provider that is down or out of quota is skipped for a
+ * cooldown instead of costing every queued analysis a timeout.
+ *
+ * Error classes decide what happens next:
+ * - quota:          breaker opens immediately (for the provider's retry-after if given)
+ * - transient:      breaker opens after BREAKER_FAILURE_THRESHOLD consecutive failures
+ * - configuration:  bad key / unknown model - breaker opens for an hour
+ * - content_filter: the prompt or reply was blocked - next provider, breaker untouched
+ *
+ * Breaker state is per warm instance (module scope), which covers a whole
+ * orchestrator run; cold starts begin with every breaker closed. Breakers
+ * are keyed by model and API key, so a user's exhausted key doesn't trip
+ * the server's breaker for the same model.
+ */
+
+import { LLMProvider, StreamChunkHandler } from './provider-interface';
+import { AnalysisContext, AnalysisResult } from './types';
+import { calculateModelCost } from './pricing';
+import { buildAnalysisPrompt } from './prompts/shared';
+
+export type LLMErrorClass = 'quota' | 'transient' | 'configuration' | 'content_filter';
+
+/** Per-attempt timeouts (ms) - a hung provider falls through to the next one */
+const ATTEMPT_TIMEOUT_MS = {
+  text: 120_000,
+  json: 45_000,
+};
+
+/** Whole-chain budget, kept under the 300s maxDuration of /api/analyze */
+const CHAIN_BUDGET_MS = 240_000;
+
+const BREAKER_FAILURE_THRESHOLD = 3;
+const BREAKER_COOLDOWN_MS: Record<Exclude<LLMErrorClass, 'content_filter'>, number> = {
+  transient: 60_000,
+  quota: 5 * 60_000,
+  configuration: 60 * 60_000,
+};
+
+interface BreakerState {
+  failures: number;
+  openUntil: number;
+  lastErrorClass?: LLMErrorClass;
+  lastError?: string;
+}
+
+const breakers = new Map<string, BreakerState>();
+
+// ============================================================================
+// Error classification
+// ============================================================================
+
+const QUOTA_PATTERNS = [/\b429\b/, /quota/i, /rate.?limit/i, /RESOURCE_EXHAUSTED/, /too many requests/i];
+const CONTENT_FILTER_PATTERNS = [/SAFETY/, /content.?filter/i, /blocked/i, /content management policy/i, /RECITATION/];
+const CONFIGURATION_PATTERNS = [
+  /\b40[134]\b/,
+  /api.?key/i,
+  /authentication/i,
+  /permission/i,
+  /\bnot[_ ]found\b/i,
+  /does not exist/i,
+];
+
+/**
+ * Classify a provider error from its message
+ * Providers wrap SDK errors as "<Provider> API error: <message>", and the
+ * SDK messages carry the HTTP status, so matching on text is enough.
+ */
+export function classifyLLMError(error: unknown): LLMErrorClass {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (CONTENT_FILTER_PATTERNS.some((pattern) => pattern.test(message))) return 'content_filter';
+  if (QUOTA_PATTERNS.some((pattern) => pattern.test(message))) return 'quota';
+  if (CONFIGURATION_PATTERNS.some((pattern) => pattern.test(message))) return 'configuration';
+  return 'transient'; // 5xx, overloaded, timeouts, network errors
+}
+
+/**
+ * Provider-suggested retry delay, e.g. Gemini's "Please retry in 48.5s"
+ */
+export function retryAfterMs(message: string): number | null {
+  const match = message.match(/retry in ([\d.]+)s/i);
+  return match ? Math.ceil(parseFloat(match[1])) * 1000 : null;
+}
+
+// ============================================================================
+// Circuit breakers
+// ============================================================================
+
+function breakerKey(provider: LLMProvider): string {
+  return `${provider.getProviderName()}:${provider.getModelName()}:${provider.getKeyFingerprint()}`;
+}
+
+function isBreakerOpen(key: string, now: number = Date.now()): boolean {
+  const state = breakers.get(key);
+  return !!state && state.openUntil > now;
+}
+
+function recordSuccess(key: string): void {
+  breakers.delete(key);
+}
+
+function recordFailure(key: string, errorClass: LLMErrorClass, message: string): void {
+  if (errorClass === 'content_filter') return; // Says nothing about the provider's health
+
+  const state = breakers.get(key) || { failures: 0, openUntil: 0 };
+  state.failures++;
+  state.lastErrorClass = errorClass;
+  state.lastError = message.slice(0, 300);
+
+  // After a cooldown the next call is a trial - one more failure reopens it
+  if (errorClass !== 'transient' || state.failures >= BREAKER_FAILURE_THRESHOLD) {
+    const cooldown = errorClass === 'quota'
+      ? retryAfterMs(message) ?? BREAKER_COOLDOWN_MS.quota
+      : BREAKER_COOLDOWN_MS[errorClass];
+    state.openUntil = Date.now() + cooldown;
+    console.warn(`[LLM] Circuit open for ${key} (${errorClass}) until ${new Date(state.openUntil).toISOString()}`);
+  }
+
+  breakers.set(key, state);
+}
+
+/**
+ * Breaker state for this instance (logged at the end of an orchestrator run)
+ */
+export function getCircuitStates(): Array<{ provider: string; open: boolean; failures: number; openUntil: string | null; lastErrorClass?: LLMErrorClass; lastError?: string }> {
+  const now = Date.now();
+  return Array.from(breakers.entries()).map(([provider, state]) => ({
+    provider,
+    open: state.openUntil > now,
+    failures: state.failures,
+    openUntil: state.openUntil > now ? new Date(state.openUntil).toISOString() : null,
+    lastErrorClass: state.lastErrorClass,
+    lastError: state.lastError,
+  }));
+}
+
+/**
+ * Close every breaker (tests/manual recovery)
+ */
+export function resetCircuitBreakers(): void {
+  breakers.clear();
+}
+
+// ============================================================================
+// Chain
+// ============================================================================
+
+export interface FallbackAttempt {
+  provider: string;
+  model: string;
+  errorClass: LLMErrorClass | 'circuit_open';
+  error: string;
+}
+
+/**
+ * Every provider in the chain failed or was skipped
+ * The message lists each attempt so callers matching on status text
+ * (e.g. the orchestrator's 429 backoff) keep working.
+ */
+export class LLMChainError extends Error {
+  constructor(public attempts: FallbackAttempt[]) {
+    super(
+      `All LLM providers failed: ${attempts.map((a) => `${a.model} (${a.errorClass}): ${a.error}`).join(' | ')}`
+    );
+    this.name = 'LLMChainError';
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, label: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export class FallbackProvider extends LLMProvider {
+  constructor(private providers: LLMProvider[]) {
+    super('', providers[0]?.getModelName() || 'none');
+    if (providers.length === 0) {
+      throw new Error('FallbackProvider needs at least one provider');
+    }
+  }
+
+  // Pinned once so every provider in the chain gets the same prompt
+  async generateAnalysis(context: AnalysisContext): Promise<AnalysisResult> {
+    const pinned = this.pinPromptVersion(context);
+    return this.run('text', (provider) => provider.generateAnalysis(pinned));
+  }
+
+  async streamAnalysis(context: AnalysisContext, onChunk: StreamChunkHandler): Promise<AnalysisResult> {
+    const pinned = this.pinPromptVersion(context);
+    return this.runStream(onChunk, (provider, guarded) => provider.streamAnalysis(pinned, guarded));
+  }
+
+  async generateText(prompt: string): Promise<AnalysisResult> {
+    return this.run('text', (provider) => provider.generateText(prompt));
+  }
+
+  async streamText(prompt: string, onChunk: StreamChunkHandler): Promise<AnalysisResult> {
+    return this.runStream(onChunk, (provider, guarded) => provider.streamText(prompt, guarded));
+  }
+
+  async generateJSON(prompt: string): Promise<AnalysisResult> {
+    return this.run('json', (provider) => provider.generateJSON(prompt));
+  }
+
+  /**
+   * Try each provider in order
+   *
+   * @param canFallBack - checked after a failure; false rethrows instead of
+   *                      moving on (used once a stream has produced text)
+   */
+  private async run(
+    kind: keyof typeof ATTEMPT_TIMEOUT_MS,
+    call: (provider: LLMProvider) => Promise<AnalysisResult>,
+    canFallBack: () => boolean = () => true
+  ): Promise<AnalysisResult> {
+    const deadline = Date.now() + CHAIN_BUDGET_MS;
+    const attempts: FallbackAttempt[] = [];
+
+    for (const provider of this.providers) {
+      const key = breakerKey(provider);
+      const model = provider.getModelName();
+
+      if (isBreakerOpen(key)) {
+        const state = breakers.get(key)!;
+        attempts.push({ provider: provider.getProviderName(), model, errorClass: 'circuit_open', error: state.lastError || 'circuit open' });
+        continue;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) break;
+
+      try {
+        const result = await withTimeout(call(provider), Math.min(ATTEMPT_TIMEOUT_MS[kind], remaining), model);
+        if (!result.content.trim()) {
+          throw new Error(`${model} returned an empty response (blocked by content filter?)`);
+        }
+
+        recordSuccess(key);
+        if (attempts.length > 0) {
+          console.warn(`[LLM] Served by fallback ${model} after: ${attempts.map((a) => `${a.model} (${a.errorClass})`).join(', ')}`);
+          result.fallbackFrom = attempts.map((a) => a.model);
+        }
+        return result;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const errorClass = /empty response/.test(message) ? 'content_filter' : classifyLLMError(error);
+        recordFailure(key, errorClass, message);
+        attempts.push({ provider: provider.getProviderName(), model, errorClass, error: message });
+        console.warn(`[LLM] ${model} failed (${errorClass}): ${message}`);
+
+        if (!canFallBack()) throw error;
+      }
+    }
+
+    throw new LLMChainError(attempts);
+  }
+
+  /**
+   * Streams can only fall back before the first chunk - text already sent
+   * to the caller can't be taken back and replayed from another model
+   */
+  private async runStream(
+    onChunk: StreamChunkHandler,
+    call: (provider: LLMProvider, guarded: StreamChunkHandler) => Promise<AnalysisResult>
+  ): Promise<AnalysisResult> {
+    let streamed = false;
+    let current: LLMProvider | null = null;
+
+    return this.run(
+      'text',
+      (provider) => {
+        current = provider;
+        // Late chunks from an attempt that already timed out are dropped
+        const guarded: StreamChunkHandler = (text) => {
+          if (current !== provider) return;
+          streamed = true;
+          return onChunk(text);
+        };
+        return call(provider, guarded).finally(() => {
+          if (current === provider) current = null;
+        });
+      },
+      () => {
+        current = null;
+        return !streamed;
+      }
+    );
+  }
+
+  protected buildPrompt(context: AnalysisContext): string {
+    return buildAnalysisPrompt(context);
+  }
+
+  protected calculateCost(inputTokens: number, outputTokens: number): number {
+    return calculateModelCost(this.modelName, inputTokens, outputTokens);
+  }
+
+  public getProviderName(): string {
+    return `FallbackProvider(${this.providers.map((p) => p.getModelName()).join(' → ')})`;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * LLM Provider Preferences
+ *
+ * Resolves which provider/model runs an analysis and with whose API key.
+ *
+ * Resolution order: stock (Stock Analyses "LLM Provider" / "Preferred Model")
+ * → user (Beta Users "LLM Provider" / "Preferred Model") → server default
+ * (LLM_PROVIDER / LLM_MODEL_NAME). A model without a provider is matched to
+ * its provider by name (gemini-*, claude-*, gpt-*).
+ *
+ * Users' own keys live on Beta Users, encrypted with encryptToken. A
+ * selection only carries the encrypted key - it is decrypted when the
+ * provider is built - so selections can sit in the Redis queue safely.
+ * A selection on the user's own key runs alone; one on the server key goes
+ * in front of the server's fallback chain and is limited to models in the
+ * pricing table (any model name works with the user's own key).
+ */
+
+import { LLMApiKeys, User, decryptToken } from '../../core/auth';
+import { warn } from '../../core/logger';
+import { LLMProvider } from './provider-interface';
+import { DEFAULT_MODELS, LLMFactory, LLMProviderType } from './factory';
+import { isPricedModel } from './pricing';
+
+/** Select option names used for "LLM Provider" in Notion */
+export const LLM_PROVIDER_LABELS: Record<LLMProviderType, string> = {
+  gemini: 'Gemini',
+  claude: 'Claude',
+  openai: 'OpenAI',
+};
+
+/**
+ * Provider/model preference at one level, as stored in Notion
+ */
+export interface LLMPreference {
+  provider?: string | null;
+  model?: string | null;
+}
+
+/**
+ * Resolved LLM choice for one analysis
+ */
+export interface LLMSelection {
+  provider: LLMProviderType | null; // null = server default (LLM_PROVIDER + fallback chain)
+  model?: string;                   // Blank = provider default
+  source: 'stock' | 'user' | 'default' | 'budget'; // 'budget' = downgraded by budget.ts
+  encryptedApiKey?: string;         // User's own key for `provider`
+  keyOwner?: string;                // Beta Users page ID of the key's owner
+}
+
+/**
+ * Resolve the LLM for an analysis
+ *
+ * Blank values fall through to the next level. Unknown providers, and models
+ * that don't belong to the chosen provider, are logged and skipped rather
+ * than failing the analysis. A stock that only picks a provider inherits the
+ * user's model when the user prefers the same provider.
+ */
+export function resolveLLMSelection(
+  stock?: LLMPreference | null,
+  user?: Pick<User, 'id' | 'llmProvider' | 'llmModel' | 'llmApiKeys'> | null
+): LLMSelection {
+  const levels = [
+    ['stock', stock],
+    ['user', user ? { provider: user.llmProvider, model: user.llmModel } : null],
+  ] as const;
+
+  for (const [source, preference] of levels) {
+    const resolved = resolvePreference(source, preference);
+    if (!resolved) continue;
+
+    let model = resolved.model;
+    if (!model && source === 'stock' && user) {
+      const userLevel = resolvePreference('user', { provider: user.llmProvider, model: user.llmModel });
+      if (userLevel?.provider === resolved.provider) model = userLevel.model;
+    }
+
+    const encryptedApiKey = user?.llmApiKeys?.[resolved.provider as keyof LLMApiKeys];
+    return {
+      provider: resolved.provider,
+      model,
+      source,
+      encryptedApiKey,
+      keyOwner: encryptedApiKey ? user?.id : undefined,
+    };
+  }
+
+  return { provider: null, source: 'default' };
+}
+
+function resolvePreference(
+  source: LLMSelection['source'],
+  preference: LLMPreference | null | undefined
+): { provider: LLMProviderType; model?: string } | null {
+  const model = preference?.model?.trim() || undefined;
+  const provider = LLMFactory.parseProviderType(preference?.provider) ?? LLMFactory.inferProviderType(model);
+
+  if (!provider) {
+    if (preference?.provider || model) {
+      warn('Unknown LLM preference, ignoring', { source, provider: preference?.provider, model });
+    }
+    return null;
+  }
+
+  const modelProvider = LLMFactory.inferProviderType(model);
+  if (model && modelProvider && modelProvider !== provider) {
+    warn('Preferred model does not match provider, using provider default', { source, provider, model });
+    return { provider };
+  }
+
+  return { provider, model };
+}
+
+/**
+ * The user's own API key for a selection, if it has one that decrypts
+ *
+ * checkLLMBudget uses this too, so a key that can't be decrypted is
+ * budgeted like the server key it falls back to.
+ */
+export async function decryptSelectionKey(selection: LLMSelection): Promise<string | undefined> {
+  if (!selection.encryptedApiKey) return undefined;
+  try {
+    return await decryptToken(selection.encryptedApiKey);
+  } catch {
+    warn('Could not decrypt user LLM key, using server key', { provider: selection.provider, keyOwner: selection.keyOwner });
+    return undefined;
+  }
+}
+
+/**
+ * Build the provider chain for a selection
+ *
+ * A user's own key runs alone - no server-key fallbacks behind it, since
+ * its analyses skip the budget check. On the server key, a model missing
+ * from the pricing table is replaced by the provider's default. Falls back
+ * to the server default when the preferred provider has no server key.
+ */
+export async function createProviderForSelection(selection: LLMSelection): Promise<LLMProvider> {
+  if (!selection.provider) {
+    return LLMFactory.getProviderFromEnv();
+  }
+
+  const apiKey = await decryptSelectionKey(selection);
+  if (apiKey) {
+    return LLMFactory.createProvider(selection.provider, selection.model, apiKey);
+  }
+
+  if (!LLMFactory.hasApiKey(selection.provider)) {
+    warn('Preferred LLM provider has no API key, using server default', { provider: selection.provider, source: selection.source });
+    return LLMFactory.getProviderFromEnv();
+  }
+
+  let model = selection.model;
+  if (model && !isPricedModel(model)) {
+    warn('Unpriced model needs the user\'s own key, using provider default', { provider: selection.provider, model, source: selection.source });
+    model = undefined;
+  }
+
+  return LLMFactory.withFallbacks(LLMFactory.createProvider(selection.provider, model));
+}
+
+/**
+ * Grouping key - analyses with the same key can share one LLM call
+ * (user keys are never shared across users)
+ */
+export function llmSelectionKey(selection: LLMSelection): string {
+  if (!selection.provider) return 'default';
+  const model = selection.model || DEFAULT_MODELS[selection.provider];
+  return `${selection.provider}:${model}:${selection.keyOwner || 'server'}`;
+}
+
+/**
+ * Log label, e.g. "claude/claude-sonnet-4-5-20250929 (stock, own key)"
+ */
+export function describeLLMSelection(selection: LLMSelection): string {
+  if (!selection.provider) return 'server default';
+  const model = selection.model || DEFAULT_MODELS[selection.provider];
+  return `${selection.provider}/${model} (${selection.source}${selection.encryptedApiKey ? ', own key' : ''})`;
+}
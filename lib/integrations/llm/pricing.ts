@@ -65,6 +65,15 @@ export function calculateModelCost(
   );
 }
 
+/**
+ * Is this model in the pricing table?
+ * Only priced models run on the server's keys - anything else would be
+ * booked against the budget at a guessed price.
+ */
+export function isPricedModel(modelName: string): boolean {
+  return Object.prototype.hasOwnProperty.call(MODEL_PRICING, modelName);
+}
+
 /**
  * Get pricing info for a model (useful for cost estimation)
  * @param modelName - Model identifier
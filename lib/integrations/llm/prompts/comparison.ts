@@ -0,0 +1,83 @@
+/**
+ * Comparison Prompt Builder
+ *
+ * Prompt for side-by-side comparison of 2-10 stocks. Rankings are decided
+ * in code (see lib/domain/stock/comparison.ts) and passed in as facts, so
+ * the model writes the rationale without re-ranking.
+ */
+
+import { ComparisonContext } from '../types';
+
+function formatPercent(value?: number): string {
+  if (value === undefined || value === null || !Number.isFinite(value)) return 'N/A';
+  return `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+}
+
+function formatNumber(value?: number, digits: number = 2): string {
+  if (value === undefined || value === null || !Number.isFinite(value)) return 'N/A';
+  return value.toFixed(digits);
+}
+
+/**
+ * Build the comparative rationale prompt
+ */
+export function buildComparisonPrompt(context: ComparisonContext): string {
+  const { stocks, rankings, marketContext, weightProfile } = context;
+  const tickers = stocks.map((s) => s.ticker).join(', ');
+
+  let prompt = '';
+
+  prompt += `You are a professional stock analyst. Compare ${tickers} as of ${context.currentDate} and explain the ranking below.\n\n`;
+
+  prompt += `**CRITICAL FORMAT RULES:**\n`;
+  prompt += `- The rankings are FINAL - explain them, do not re-rank or contradict them\n`;
+  prompt += `- Start with a 2-3 sentence verdict paragraph (no heading) naming the winner and why\n`;
+  prompt += `- Then use these sections: ## 🏆 Overall, ## 💰 Value, ## 🚀 Momentum, ## 🛡️ Risk, ## 🎯 Which To Pick When\n`;
+  prompt += `- Reference the numbers below; do not invent prices, targets or metrics\n`;
+  prompt += `- Bold key insights. NO fluff\n`;
+  prompt += `- **TARGET: 600-900 tokens total**\n\n`;
+
+  if (marketContext && marketContext.regime) {
+    prompt += `## Market Environment\n\n`;
+    prompt += `- Regime: **${marketContext.regime}** (${Math.round(marketContext.regimeConfidence * 100)}% confidence), risk assessment ${marketContext.riskAssessment}\n`;
+    prompt += `- VIX: ${formatNumber(marketContext.vix, 1)}\n`;
+    if (marketContext.sectorLeaders?.length) {
+      prompt += `- Sector leaders: ${marketContext.sectorLeaders.map((s) => s.name).join(', ')}\n`;
+    }
+    if (marketContext.sectorLaggards?.length) {
+      prompt += `- Sector laggards: ${marketContext.sectorLaggards.map((s) => s.name).join(', ')}\n`;
+    }
+    prompt += `\n`;
+  }
+
+  if (weightProfile) {
+    prompt += `All composites use the **${weightProfile.name}** weight profile (${weightProfile.description}).\n\n`;
+  }
+
+  prompt += `## Scores (1.0-5.0, higher is better; Risk: higher = safer)\n\n`;
+  prompt += `| Ticker | Company | Sector | Composite | Technical | Fundamental | Macro | Risk | Sentiment | Market Alignment | Recommendation |\n`;
+  prompt += `|---|---|---|---|---|---|---|---|---|---|---|\n`;
+  for (const stock of stocks) {
+    const s = stock.scores;
+    prompt += `| ${stock.ticker} | ${stock.companyName || '-'} | ${stock.sector || '-'} | ${formatNumber(s.composite)} | ${formatNumber(s.technical)} | ${formatNumber(s.fundamental)} | ${formatNumber(s.macro)} | ${formatNumber(s.risk)} | ${formatNumber(s.sentiment)} | ${formatNumber(s.marketAlignment)} | ${s.recommendation} |\n`;
+  }
+  prompt += `\n`;
+
+  prompt += `## Key Metrics\n\n`;
+  prompt += `| Ticker | Price | P/E | 1M Change | 30D Volatility | Beta |\n`;
+  prompt += `|---|---|---|---|---|---|\n`;
+  for (const stock of stocks) {
+    prompt += `| ${stock.ticker} | ${stock.price !== undefined ? `$${formatNumber(stock.price)}` : 'N/A'} | ${formatNumber(stock.peRatio, 1)} | ${formatPercent(stock.priceChange1m)} | ${formatPercent(stock.volatility30d)} | ${formatNumber(stock.beta)} |\n`;
+  }
+  prompt += `\n`;
+
+  prompt += `## Rankings (best first)\n\n`;
+  prompt += `- Overall (composite): ${rankings.overall.join(' > ')}\n`;
+  prompt += `- Value (earnings yield, then fundamental score): ${rankings.value.join(' > ')}\n`;
+  prompt += `- Momentum (technical score, then 1M change): ${rankings.momentum.join(' > ')}\n`;
+  prompt += `- Safety (risk score): ${rankings.safety.join(' > ')}\n\n`;
+
+  prompt += `In "Which To Pick When", give one line per ticker describing the investor or situation it suits best.\n`;
+
+  return prompt;
+}
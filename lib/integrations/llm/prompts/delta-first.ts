@@ -9,6 +9,8 @@
 
 import { AnalysisContext } from '../types';
 import { formatDelta, formatPercent } from '../../../domain/analysis/deltas';
+import { formatCategoryAttribution, formatContribution } from '../../../domain/analysis/attribution';
+import { ScoringConfig } from '../../../../config/scoring/config';
 
 /**
  * Build delta-first analysis prompt for LLM
@@ -198,7 +200,7 @@ export function buildDeltaFirstPrompt(context: AnalysisContext): string {
   if (previousAnalysis && deltas) {
     prompt += `## 📈 What Changed Since Last Analysis\n\n`;
     prompt += `⚠️ **NOTE:** The date "${previousAnalysis.date}" below is HISTORICAL REFERENCE ONLY. Do NOT use in "Key Dates"!\n\n`;
-    prompt += `**Previous Analysis:** ${previousAnalysis.date} (${deltas.daysElapsed || '?'} days ago)\n\n`;
+    prompt += `**Previous Analysis:** ${previousAnalysis.date} (${deltas.daysElapsed ?? '?'} trading days ago)\n\n`;
 
     // Regime transition (if occurred)
     if (deltas.regimeTransition?.occurred) {
@@ -262,7 +264,7 @@ export function buildDeltaFirstPrompt(context: AnalysisContext): string {
                          deltas.priceDeltas.priceChangePercent > 0 ? '📈' :
                          deltas.priceDeltas.priceChangePercent < -5 ? '⬇️' : '📉';
       prompt += `**Price Performance:**\n`;
-      prompt += `- Price: ${priceEmoji} **${formatPercent(deltas.priceDeltas.priceChangePercent)}** over ${deltas.daysElapsed} days\n`;
+      prompt += `- Price: ${priceEmoji} **${formatPercent(deltas.priceDeltas.priceChangePercent)}** over ${deltas.daysElapsed} trading days\n`;
       prompt += `- Volume: ${formatPercent(deltas.priceDeltas.volumeChangePercent)} vs previous\n`;
       if (deltas.priceDeltas.annualizedReturn) {
         prompt += `- Annualized Return: ${formatPercent(deltas.priceDeltas.annualizedReturn)}\n`;
@@ -346,6 +348,37 @@ export function buildDeltaFirstPrompt(context: AnalysisContext): string {
   prompt += `- Risk: ${currentMetrics.riskScore.toFixed(1)} | Market Alignment: ${currentMetrics.marketAlignment?.toFixed(1) || '3.0'}\n`;
   prompt += `- Pattern: ${currentMetrics.pattern} | Confidence: ${currentMetrics.confidence}/5.0\n\n`;
 
+  // Composite weighting (which categories drive the composite for this investor)
+  if (context.weightProfile) {
+    const { name, description } = context.weightProfile;
+    const weights = context.appliedWeights || context.weightProfile.weights;
+    const pct = (w: number) => `${Math.round(w * 1000) / 10}%`;
+    prompt += `**Scoring Profile: ${name}** - ${description}\n`;
+    prompt += `- Composite weights: Technical ${pct(weights.technical)} | Fundamental ${pct(weights.fundamental)} | Macro ${pct(weights.macro)} | Risk ${pct(weights.risk)} | Market Alignment ${pct(weights.marketAlignment)}\n`;
+    prompt += `- Sentiment is reference-only (0%)\n`;
+    if (context.regimeAdjustment) {
+      const { regime, confidence } = context.regimeAdjustment;
+      prompt += `- Weights tilted toward today's ${regime} regime (${Math.round(confidence * 100)}% of full tilt) - the same metrics can score differently as the regime shifts\n`;
+    }
+    if (name !== 'Balanced' || context.regimeAdjustment) {
+      prompt += `- In the Thesis, briefly note how the weighting shaped the composite (which categories it emphasized)\n`;
+    }
+    prompt += `\n`;
+  }
+
+  // Score breakdown - exact rules behind each score so the narrative explains the real drivers
+  if (context.attribution) {
+    prompt += `**Score Breakdown (authoritative - do not contradict):**\n`;
+    for (const category of Object.values(context.attribution.categories)) {
+      prompt += `- ${formatCategoryAttribution(category)}\n`;
+    }
+    if (context.attribution.contributions.length > 0) {
+      prompt += `- Composite contributions: ${context.attribution.contributions.map(formatContribution).join('; ')}\n`;
+    }
+    prompt += `- When explaining why a score is high or low, cite these rules; do not attribute it to factors that scored neutral or were missing\n`;
+    prompt += `\n`;
+  }
+
   // Key technical indicators
   if (currentMetrics.rsi != null || currentMetrics.volume != null) {
     prompt += `**Key Indicators:**\n`;
@@ -360,6 +393,29 @@ export function buildDeltaFirstPrompt(context: AnalysisContext): string {
     if (currentMetrics.volatility30d != null) {
       prompt += `- 30D Volatility: ${(currentMetrics.volatility30d * 100).toFixed(1)}%\n`;
     }
+    if (currentMetrics.adx14 != null) {
+      const trend = currentMetrics.adx14 >= ScoringConfig.ADX_TRENDING ? 'trending' : currentMetrics.adx14 < ScoringConfig.ADX_WEAK ? 'range-bound' : 'emerging trend';
+      const direction = currentMetrics.plusDI != null && currentMetrics.minusDI != null
+        ? (currentMetrics.plusDI > currentMetrics.minusDI ? ', +DI leads' : ', -DI leads')
+        : '';
+      prompt += `- ADX: ${currentMetrics.adx14.toFixed(1)} (${trend}${direction})\n`;
+    }
+    if (currentMetrics.atr14 != null && currentMetrics.currentPrice != null) {
+      const stop = currentMetrics.currentPrice - ScoringConfig.ATR_STOP_MULTIPLE * currentMetrics.atr14;
+      prompt += `- ATR(14): $${currentMetrics.atr14.toFixed(2)} (${(currentMetrics.atr14 / currentMetrics.currentPrice * 100).toFixed(1)}% of price) → volatility stop ~$${stop.toFixed(2)} (${ScoringConfig.ATR_STOP_MULTIPLE}× ATR) - size any stop discussion with this rather than a fixed percentage\n`;
+    }
+    if (currentMetrics.bollingerPercentB != null) {
+      prompt += `- Bollinger %B: ${currentMetrics.bollingerPercentB.toFixed(2)} (0 = lower band, 1 = upper band)\n`;
+    }
+    if (currentMetrics.stochasticK != null && currentMetrics.stochasticD != null) {
+      prompt += `- Stochastic: %K ${currentMetrics.stochasticK.toFixed(0)} / %D ${currentMetrics.stochasticD.toFixed(0)}\n`;
+    }
+    if (currentMetrics.obvTrend20d != null) {
+      prompt += `- OBV 20D net flow: ${currentMetrics.obvTrend20d > 0 ? '+' : ''}${(currentMetrics.obvTrend20d * 100).toFixed(0)}% of volume\n`;
+    }
+    if (currentMetrics.distanceFrom52wHigh != null) {
+      prompt += `- Distance from 52W high: ${(currentMetrics.distanceFrom52wHigh * 100).toFixed(1)}%\n`;
+    }
     prompt += `\n`;
   }
 
@@ -420,7 +476,7 @@ export function buildDeltaFirstPrompt(context: AnalysisContext): string {
 
   if (previousAnalysis && deltas) {
     prompt += `\t<empty-block/>\n`;
-    prompt += `\t**What Changed (${deltas.daysElapsed || '?'} days)**\n`;
+    prompt += `\t**What Changed (${deltas.daysElapsed ?? '?'} trading days)**\n`;
     prompt += `\t- Score: ${deltas.trendEmoji} ${formatDelta(deltas.scoreChange)} (${deltas.trendDirection})\n`;
     prompt += `\t- Price: ${formatPercent(deltas.priceDeltas?.priceChangePercent || 0)}\n`;
     prompt += `\t- [Biggest category change with interpretation]\n`;
@@ -458,7 +514,7 @@ export function buildDeltaFirstPrompt(context: AnalysisContext): string {
   prompt += `---\n`;
   prompt += `### Section 4: Technical Picture\n\n`;
   if (previousAnalysis && deltas) {
-    prompt += `**Trend Status:** ${deltas.trendEmoji} ${deltas.trendDirection} over ${deltas.daysElapsed} days\n\n`;
+    prompt += `**Trend Status:** ${deltas.trendEmoji} ${deltas.trendDirection} over ${deltas.daysElapsed} trading days\n\n`;
   }
   prompt += `[Key Indicators table with Trend column if delta exists]\n`;
   prompt += `[Support/Resistance levels]\n\n`;
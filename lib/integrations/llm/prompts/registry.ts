@@ -0,0 +1,181 @@
+/**
+ * Analysis Prompt Registry
+ *
+ * Every analysis prompt is registered here under a version ID
+ * ("<name>@<version>"). The ID an analysis ran with is returned on the LLM
+ * result and stamped on Stock Analyses / Stock History ("Prompt Version"),
+ * so outputs can be compared by prompt after the fact.
+ *
+ * Traffic is split between variants by ANALYSIS_PROMPT_SPLIT
+ * (or LLM_PROMPT_SPLIT). Assignment hashes ticker + date, so retries and the
+ * orchestrator's shared analysis get the same variant on the same day.
+ *
+ * A prompt change that alters output should be registered as a new version
+ * rather than edited in place - the old ID must keep meaning the old prompt.
+ * Each variant also declares the output rules its prompt asks for; the
+ * offline evaluation (lib/integrations/llm/eval) scores outputs against them.
+ */
+
+import { createHash } from 'crypto';
+import { AnalysisContext } from '../types';
+import { buildDeltaFirstPrompt } from './delta-first';
+import { buildClaudePrompt } from './claude';
+import { buildGeminiPrompt } from './gemini';
+import { buildOpenAIPrompt } from './openai';
+
+/**
+ * Output rules a prompt asks the model to follow
+ */
+export interface PromptRules {
+  sections: string[];                          // Heading text every output must contain
+  targetTokens?: { min: number; max: number }; // Output length the prompt asks for
+  tables: boolean;                             // Prompt asks for markdown tables
+  emojiGroups: string[][];                     // At least one emoji from each group
+  callout: boolean;                            // Prompt asks for a Notion <callout> summary
+}
+
+export interface PromptVariant {
+  id: string;          // "<name>@<version>" - stamped on outputs
+  description: string;
+  build: (context: AnalysisContext) => string;
+  rules: PromptRules;
+}
+
+const SEVEN_SECTION_RULES: PromptRules = {
+  sections: [
+    'Data Foundation & Quality',
+    'Dual-Lens Analysis',
+    'Market Intelligence & Catalysts',
+    'Strategic Trade Plan',
+    'Directional Outlook',
+    'Portfolio Integration',
+    'Investment Recommendation',
+  ],
+  tables: false,
+  emojiGroups: [],
+  callout: false,
+};
+
+export const DEFAULT_PROMPT_VERSION = 'delta-first@1.0.8';
+
+const VARIANTS: PromptVariant[] = [
+  {
+    id: 'delta-first@1.0.8',
+    description: 'Delta-first: market regime and changes since the last analysis lead, 5 sections',
+    build: buildDeltaFirstPrompt,
+    rules: {
+      sections: ['Executive Summary', 'Trade Setup', 'Catalysts & Risks', 'Technical Picture', 'Position Sizing'],
+      targetTokens: { min: 1800, max: 2200 },
+      tables: true,
+      emojiGroups: [
+        ['⬆️', '⬇️', '⏸️', '🔄'],
+        ['🔥', '🚀', '✅', '⚠️', '⛔'],
+      ],
+      callout: true,
+    },
+  },
+  {
+    id: 'gemini@1.0.3',
+    description: 'Original 7-section prompt, Gemini wording',
+    build: buildGeminiPrompt,
+    rules: SEVEN_SECTION_RULES,
+  },
+  {
+    id: 'claude@1.0.3',
+    description: 'Original 7-section prompt, Claude wording (XML-tagged metrics)',
+    build: buildClaudePrompt,
+    rules: SEVEN_SECTION_RULES,
+  },
+  {
+    id: 'openai@1.0.3',
+    description: 'Original 7-section prompt, OpenAI wording',
+    build: buildOpenAIPrompt,
+    rules: SEVEN_SECTION_RULES,
+  },
+];
+
+/**
+ * Default share of analyses (relative weights) per variant. LLM_PROMPT_SPLIT
+ * overrides, e.g. "delta-first@1.0.8:90,claude@1.0.3:10".
+ */
+const ANALYSIS_PROMPT_SPLIT: Record<string, number> = {
+  'delta-first@1.0.8': 100,
+};
+
+const variantsById = new Map(VARIANTS.map((variant) => [variant.id, variant]));
+const warnedUnknown = new Set<string>();
+
+/**
+ * All registered variants
+ */
+export function listPromptVariants(): PromptVariant[] {
+  return [...VARIANTS];
+}
+
+/**
+ * Look up a variant by ID
+ *
+ * @throws Error if the ID is not registered
+ */
+export function getPromptVariant(id: string): PromptVariant {
+  const variant = variantsById.get(id);
+  if (!variant) {
+    throw new Error(`Unknown prompt version "${id}" (registered: ${VARIANTS.map((v) => v.id).join(', ')})`);
+  }
+  return variant;
+}
+
+/**
+ * Active traffic split (variant ID → weight)
+ * Unknown IDs and non-positive weights are dropped; an empty split means
+ * everything runs on DEFAULT_PROMPT_VERSION.
+ */
+export function getPromptSplit(value: string | undefined = process.env.LLM_PROMPT_SPLIT): Array<{ id: string; weight: number }> {
+  const entries: Array<[string, number]> = value
+    ? value.split(',').map((entry) => {
+        const separator = entry.lastIndexOf(':');
+        return [entry.slice(0, separator).trim(), parseFloat(entry.slice(separator + 1))];
+      })
+    : Object.entries(ANALYSIS_PROMPT_SPLIT);
+
+  const split = entries.filter(([id, weight]) => {
+    if (!variantsById.has(id)) {
+      if (!warnedUnknown.has(id)) {
+        warnedUnknown.add(id);
+        console.warn(`[LLM] Ignoring unknown prompt version "${id}" in prompt split`);
+      }
+      return false;
+    }
+    return weight > 0;
+  });
+
+  return split.length > 0
+    ? split.map(([id, weight]) => ({ id, weight }))
+    : [{ id: DEFAULT_PROMPT_VERSION, weight: 1 }];
+}
+
+/**
+ * Variant for a ticker on a date (deterministic)
+ */
+export function assignPromptVersion(ticker: string, date: string): string {
+  const split = getPromptSplit();
+  if (split.length === 1) return split[0].id;
+
+  const total = split.reduce((sum, entry) => sum + entry.weight, 0);
+  const hash = createHash('sha256').update(`${ticker.toUpperCase()}:${date}`).digest();
+  let point = (hash.readUInt32BE(0) / 0x100000000) * total;
+
+  for (const entry of split) {
+    point -= entry.weight;
+    if (point < 0) return entry.id;
+  }
+  return split[split.length - 1].id;
+}
+
+/**
+ * Version an analysis runs with - context.promptVersion when set (eval
+ * runs pin it), otherwise the traffic split's assignment
+ */
+export function resolvePromptVersion(context: AnalysisContext): string {
+  return context.promptVersion || assignPromptVersion(context.ticker, context.currentDate);
+}
@@ -7,25 +7,25 @@
  * v1.0.3 - Refactored from separate provider-specific prompts
  * v1.0.4 - Optimized for information density and scannability
  * v1.0.8 - Delta-first prompt structure with regime-aware interpretation
+ *
+ * Which prompt runs is decided by the prompt registry (registry.ts).
  */
 
 import { AnalysisContext } from '../types';
-import { buildDeltaFirstPrompt } from './delta-first';
+import { getPromptVariant, resolvePromptVersion } from './registry';
 
 /**
  * Build optimized analysis prompt for any LLM provider
  *
- * v1.0.8: Now uses delta-first prompt structure that leads with:
+ * Uses the registered variant for context.promptVersion, or the one the
+ * traffic split assigns (delta-first@1.0.8 by default, which leads with:
  * 1. Market Environment (regime, sector flow)
  * 2. What Changed Since Last Analysis (delta-aware)
  * 3. Current Metrics (supporting context)
- * 4. Regime-Aware Interpretation Guidelines
- *
- * Targets 1,800-2,200 tokens for optimal information density.
+ * 4. Regime-Aware Interpretation Guidelines)
  */
 export function buildAnalysisPrompt(context: AnalysisContext): string {
-  // Use delta-first prompt builder (v1.0.8)
-  return buildDeltaFirstPrompt(context);
+  return getPromptVariant(resolvePromptVersion(context)).build(context);
 }
 
 // Note: Helper functions moved to delta-first.ts
@@ -0,0 +1,36 @@
+/**
+ * Trade Plan Prompt Builder
+ *
+ * Asks the model to restate the analysis it just wrote as a JSON trade
+ * plan. The narrative is passed back in so the numbers match what the
+ * reader sees; the model is told not to introduce new levels.
+ */
+
+import { AnalysisContext } from '../types';
+import { TRADE_PLAN_FIELDS } from '../../../domain/analysis/trade-plan';
+
+/**
+ * Build the structured-output prompt for one analysis
+ */
+export function buildTradePlanPrompt(context: AnalysisContext, narrative: string): string {
+  const { ticker, currentMetrics } = context;
+
+  let prompt = '';
+
+  prompt += `Extract the trade plan for ${ticker} from the analysis below as a single JSON object.\n\n`;
+
+  prompt += `**RULES:**\n`;
+  prompt += `- Respond with JSON only - no markdown fences, no commentary\n`;
+  prompt += `- Use the entry zone, targets, stop and thesis stated in the analysis; do not invent new levels\n`;
+  prompt += `- If the analysis gives a single entry price, use it for both entryLow and entryHigh\n`;
+  prompt += `- Current price is $${currentMetrics.currentPrice?.toFixed(2) ?? 'N/A'} (recommendation: ${currentMetrics.recommendation})\n\n`;
+
+  prompt += `**FIELDS:**\n`;
+  for (const [field, description] of TRADE_PLAN_FIELDS) {
+    prompt += `- ${field}: ${description}\n`;
+  }
+
+  prompt += `\n**ANALYSIS:**\n\n${narrative}\n`;
+
+  return prompt;
+}
@@ -0,0 +1,83 @@
+/**
+ * Weekly Review Prompt Builder
+ *
+ * Prompt for the "Week in Review" page: a cross-portfolio narrative over
+ * the last five trading days. Winners/losers and the regime timeline are
+ * computed in code (see lib/domain/review/weekly.ts) and passed in as facts.
+ */
+
+import { WeeklyReviewContext } from '../types';
+
+function formatPercent(value?: number): string {
+  if (value === undefined || value === null || !Number.isFinite(value)) return 'N/A';
+  return `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+}
+
+function formatNumber(value?: number, digits: number = 2): string {
+  if (value === undefined || value === null || !Number.isFinite(value)) return 'N/A';
+  return value.toFixed(digits);
+}
+
+function formatSigned(value: number, digits: number = 2): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+}
+
+/**
+ * Build the weekly review prompt
+ */
+export function buildWeeklyReviewPrompt(context: WeeklyReviewContext): string {
+  const { stocks, marketDays, upcomingEvents, winners, losers } = context;
+
+  let prompt = '';
+
+  prompt += `You are a professional portfolio analyst. Write a weekly review of this watchlist for the week ${context.weekStart} to ${context.weekEnd}.\n\n`;
+
+  prompt += `**CRITICAL FORMAT RULES:**\n`;
+  prompt += `- Start with a 2-3 sentence summary paragraph (no heading): how the watchlist did and the single most important development\n`;
+  prompt += `- Then use these sections: ## 🏆 Winners & Losers, ## 🌡️ Regime Drift, ## 🔍 Score & Rating Shifts, ## 👀 What To Watch Next Week\n`;
+  prompt += `- Winners and losers are FINAL - explain them, do not re-rank\n`;
+  prompt += `- Connect stock moves to the regime and sector rotation where the data supports it\n`;
+  prompt += `- "What To Watch" must reference the scheduled events below and any stock near a rating change\n`;
+  prompt += `- Reference the numbers below; do not invent prices, targets or news\n`;
+  prompt += `- Bold key insights. NO fluff\n`;
+  prompt += `- **TARGET: 700-1,000 tokens total**\n\n`;
+
+  prompt += `## Market Regime by Day\n\n`;
+  if (marketDays.length === 0) {
+    prompt += `No Market Context rows were recorded this week.\n\n`;
+  } else {
+    prompt += `| Date | Regime | Risk | VIX | SPY 1D | Top Sector | Bottom Sector |\n`;
+    prompt += `|---|---|---|---|---|---|---|\n`;
+    for (const day of marketDays) {
+      const spy = day.spyChange1d !== undefined ? `${formatSigned(day.spyChange1d)}%` : 'N/A';
+      prompt += `| ${day.date} | ${day.regime || '-'} | ${day.riskLevel || '-'} | ${formatNumber(day.vix, 1)} | ${spy} | ${day.topSector || '-'} | ${day.worstSector || '-'} |\n`;
+    }
+    prompt += `\n`;
+  }
+
+  prompt += `## Watchlist Week (composite 1.0-5.0, start → end of week)\n\n`;
+  prompt += `| Ticker | Company | Composite | Change | Rating | Price | Week |\n`;
+  prompt += `|---|---|---|---|---|---|---|\n`;
+  for (const stock of stocks) {
+    const rating = stock.startRecommendation === stock.endRecommendation
+      ? stock.endRecommendation
+      : `${stock.startRecommendation} → ${stock.endRecommendation}`;
+    const price = stock.endPrice !== undefined ? `$${formatNumber(stock.endPrice)}` : 'N/A';
+    prompt += `| ${stock.ticker} | ${stock.companyName || '-'} | ${formatNumber(stock.startComposite)} → ${formatNumber(stock.endComposite)} | ${formatSigned(stock.endComposite - stock.startComposite)} | ${rating} | ${price} | ${formatPercent(stock.priceChange)} |\n`;
+  }
+  prompt += `\n`;
+
+  prompt += `- Winners (best week first): ${winners.length ? winners.join(', ') : 'none'}\n`;
+  prompt += `- Losers (worst week first): ${losers.length ? losers.join(', ') : 'none'}\n\n`;
+
+  prompt += `## Scheduled Events (next week)\n\n`;
+  if (upcomingEvents.length === 0) {
+    prompt += `No events scheduled for watchlist stocks.\n`;
+  } else {
+    for (const event of upcomingEvents) {
+      prompt += `- ${event.date}: ${event.ticker} ${event.eventType}${event.description ? ` (${event.description})` : ''}\n`;
+    }
+  }
+
+  return prompt;
+}
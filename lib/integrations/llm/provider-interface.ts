@@ -5,7 +5,18 @@
  * Enables easy switching between Gemini, Claude, OpenAI, etc.
  */
 
+import { createHash } from 'crypto';
 import { AnalysisContext, AnalysisResult, LLMConfig } from './types';
+import { TradePlan, TradePlanSchema } from '../../domain/analysis/trade-plan';
+import { buildTradePlanPrompt } from './prompts/trade-plan';
+import { resolvePromptVersion } from './prompts/registry';
+import { generateStructured, StructuredResult } from './structured';
+
+/**
+ * Receives each text delta as the model produces it
+ * Awaited between deltas, so a slow handler applies back-pressure
+ */
+export type StreamChunkHandler = (text: string) => void | Promise<void>;
 
 export abstract class LLMProvider {
   protected modelName: string;
@@ -20,9 +31,56 @@ export abstract class LLMProvider {
 
   /**
    * Generate stock analysis from context
+   */
+  async generateAnalysis(context: AnalysisContext): Promise<AnalysisResult> {
+    const pinned = this.pinPromptVersion(context);
+    const result = await this.generateText(this.buildPrompt(pinned));
+    return { ...result, promptVersion: pinned.promptVersion };
+  }
+
+  /**
+   * Stream stock analysis from context
+   * Resolves with the same result as generateAnalysis once the stream ends
+   */
+  async streamAnalysis(context: AnalysisContext, onChunk: StreamChunkHandler): Promise<AnalysisResult> {
+    const pinned = this.pinPromptVersion(context);
+    const result = await this.streamText(this.buildPrompt(pinned), onChunk);
+    return { ...result, promptVersion: pinned.promptVersion };
+  }
+
+  /**
+   * Fix the prompt version before building, so the version reported is the
+   * one that ran even if the traffic split changes mid-call
+   */
+  protected pinPromptVersion(context: AnalysisContext): AnalysisContext {
+    return context.promptVersion ? context : { ...context, promptVersion: resolvePromptVersion(context) };
+  }
+
+  /**
+   * Extract the schema-validated trade plan from a finished analysis
+   * Invalid JSON is repaired/retried (see structured.ts)
+   */
+  async generateTradePlan(context: AnalysisContext, narrative: string): Promise<StructuredResult<TradePlan>> {
+    return generateStructured(this, buildTradePlanPrompt(context, narrative), TradePlanSchema);
+  }
+
+  /**
+   * Run a prompt that is not a single-stock analysis (e.g. comparisons)
    * Each provider implements this differently
    */
-  abstract generateAnalysis(context: AnalysisContext): Promise<AnalysisResult>;
+  abstract generateText(prompt: string): Promise<AnalysisResult>;
+
+  /**
+   * Run a prompt, passing text to onChunk as it is generated
+   * Token usage and cost are read from the provider's final usage report
+   */
+  abstract streamText(prompt: string, onChunk: StreamChunkHandler): Promise<AnalysisResult>;
+
+  /**
+   * Run a prompt whose reply must be a JSON object, using the provider's
+   * JSON mode where it has one (content is the raw, unvalidated reply)
+   */
+  abstract generateJSON(prompt: string): Promise<AnalysisResult>;
 
   /**
    * Build provider-specific prompt from context
@@ -49,4 +107,12 @@ export abstract class LLMProvider {
   public getModelName(): string {
     return this.modelName;
   }
+
+  /**
+   * Short, non-reversible ID of the API key, so the same model on different
+   * keys (server vs. a user's own) can be told apart in logs and breakers
+   */
+  public getKeyFingerprint(): string {
+    return createHash('sha256').update(this.apiKey || '').digest('hex').slice(0, 8);
+  }
 }
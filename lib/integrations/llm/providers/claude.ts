@@ -6,7 +6,7 @@
  */
 
 import Anthropic from '@anthropic-ai/sdk';
-import { LLMProvider } from '../provider-interface';
+import { LLMProvider, StreamChunkHandler } from '../provider-interface';
 import { AnalysisContext, AnalysisResult } from '../types';
 import { calculateModelCost } from '../pricing';
 import { buildAnalysisPrompt } from '../prompts/shared';
@@ -19,12 +19,10 @@ export class ClaudeProvider extends LLMProvider {
     this.client = new Anthropic({ apiKey });
   }
 
-  async generateAnalysis(context: AnalysisContext): Promise<AnalysisResult> {
+  async generateText(prompt: string): Promise<AnalysisResult> {
     const startTime = Date.now();
 
     try {
-      const prompt = this.buildPrompt(context);
-
       const message = await this.client.messages.create({
         model: this.modelName,
         max_tokens: 4000,
@@ -51,6 +49,77 @@ export class ClaudeProvider extends LLMProvider {
     }
   }
 
+  async streamText(prompt: string, onChunk: StreamChunkHandler): Promise<AnalysisResult> {
+    const startTime = Date.now();
+
+    try {
+      const stream = this.client.messages.stream({
+        model: this.modelName,
+        max_tokens: 4000,
+        messages: [{ role: 'user', content: prompt }],
+      });
+
+      let text = '';
+      for await (const event of stream) {
+        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          text += event.delta.text;
+          await onChunk(event.delta.text);
+        }
+      }
+
+      const message = await stream.finalMessage();
+      const inputTokens = message.usage.input_tokens;
+      const outputTokens = message.usage.output_tokens;
+
+      return {
+        content: text,
+        modelUsed: this.modelName,
+        tokensUsed: {
+          input: inputTokens,
+          output: outputTokens,
+        },
+        latencyMs: Date.now() - startTime,
+        cost: this.calculateCost(inputTokens, outputTokens),
+      };
+    } catch (error: any) {
+      throw new Error(`Claude API error: ${error.message}`);
+    }
+  }
+
+  async generateJSON(prompt: string): Promise<AnalysisResult> {
+    const startTime = Date.now();
+
+    try {
+      // No JSON mode - prefill the opening brace so the reply starts as an object
+      const message = await this.client.messages.create({
+        model: this.modelName,
+        max_tokens: 1500,
+        messages: [
+          { role: 'user', content: prompt },
+          { role: 'assistant', content: '{' },
+        ],
+      });
+
+      const text = message.content[0].type === 'text' ? message.content[0].text : '';
+
+      const inputTokens = message.usage.input_tokens;
+      const outputTokens = message.usage.output_tokens;
+
+      return {
+        content: `{${text}`,
+        modelUsed: this.modelName,
+        tokensUsed: {
+          input: inputTokens,
+          output: outputTokens,
+        },
+        latencyMs: Date.now() - startTime,
+        cost: this.calculateCost(inputTokens, outputTokens),
+      };
+    } catch (error: any) {
+      throw new Error(`Claude API error: ${error.message}`);
+    }
+  }
+
   protected buildPrompt(context: AnalysisContext): string {
     return buildAnalysisPrompt(context);
   }
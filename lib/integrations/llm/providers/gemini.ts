@@ -6,7 +6,7 @@
  */
 
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import { LLMProvider } from '../provider-interface';
+import { LLMProvider, StreamChunkHandler } from '../provider-interface';
 import { AnalysisContext, AnalysisResult } from '../types';
 import { calculateModelCost } from '../pricing';
 import { buildAnalysisPrompt } from '../prompts/shared';
@@ -19,7 +19,7 @@ export class GeminiProvider extends LLMProvider {
     this.client = new GoogleGenerativeAI(apiKey);
   }
 
-  async generateAnalysis(context: AnalysisContext): Promise<AnalysisResult> {
+  async generateText(prompt: string): Promise<AnalysisResult> {
     const startTime = Date.now();
 
     try {
@@ -27,7 +27,6 @@ export class GeminiProvider extends LLMProvider {
         model: this.modelName,
       });
 
-      const prompt = this.buildPrompt(context);
       const result = await model.generateContent(prompt);
       const response = result.response;
       const text = response.text();
@@ -52,6 +51,75 @@ export class GeminiProvider extends LLMProvider {
     }
   }
 
+  async streamText(prompt: string, onChunk: StreamChunkHandler): Promise<AnalysisResult> {
+    const startTime = Date.now();
+
+    try {
+      const model = this.client.getGenerativeModel({
+        model: this.modelName,
+      });
+
+      const result = await model.generateContentStream(prompt);
+      let text = '';
+      for await (const chunk of result.stream) {
+        const delta = chunk.text();
+        if (delta) {
+          text += delta;
+          await onChunk(delta);
+        }
+      }
+
+      // Aggregated response carries the usage metadata for the whole stream
+      const usageMetadata = (await result.response).usageMetadata;
+      const inputTokens = usageMetadata?.promptTokenCount || 0;
+      const outputTokens = usageMetadata?.candidatesTokenCount || 0;
+
+      return {
+        content: text,
+        modelUsed: this.modelName,
+        tokensUsed: {
+          input: inputTokens,
+          output: outputTokens,
+        },
+        latencyMs: Date.now() - startTime,
+        cost: this.calculateCost(inputTokens, outputTokens),
+      };
+    } catch (error: any) {
+      throw new Error(`Gemini API error: ${error.message}`);
+    }
+  }
+
+  async generateJSON(prompt: string): Promise<AnalysisResult> {
+    const startTime = Date.now();
+
+    try {
+      const model = this.client.getGenerativeModel({
+        model: this.modelName,
+        generationConfig: { responseMimeType: 'application/json' },
+      });
+
+      const result = await model.generateContent(prompt);
+      const response = result.response;
+
+      const usageMetadata = response.usageMetadata;
+      const inputTokens = usageMetadata?.promptTokenCount || 0;
+      const outputTokens = usageMetadata?.candidatesTokenCount || 0;
+
+      return {
+        content: response.text(),
+        modelUsed: this.modelName,
+        tokensUsed: {
+          input: inputTokens,
+          output: outputTokens,
+        },
+        latencyMs: Date.now() - startTime,
+        cost: this.calculateCost(inputTokens, outputTokens),
+      };
+    } catch (error: any) {
+      throw new Error(`Gemini API error: ${error.message}`);
+    }
+  }
+
   protected buildPrompt(context: AnalysisContext): string {
     return buildAnalysisPrompt(context);
   }
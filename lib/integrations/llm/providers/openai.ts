@@ -6,7 +6,7 @@
  */
 
 import OpenAI from 'openai';
-import { LLMProvider } from '../provider-interface';
+import { LLMProvider, StreamChunkHandler } from '../provider-interface';
 import { AnalysisContext, AnalysisResult } from '../types';
 import { calculateModelCost } from '../pricing';
 import { buildAnalysisPrompt } from '../prompts/shared';
@@ -19,12 +19,10 @@ export class OpenAIProvider extends LLMProvider {
     this.client = new OpenAI({ apiKey });
   }
 
-  async generateAnalysis(context: AnalysisContext): Promise<AnalysisResult> {
+  async generateText(prompt: string): Promise<AnalysisResult> {
     const startTime = Date.now();
 
     try {
-      const prompt = this.buildPrompt(context);
-
       const completion = await this.client.chat.completions.create({
         model: this.modelName,
         messages: [
@@ -53,6 +51,84 @@ export class OpenAIProvider extends LLMProvider {
     }
   }
 
+  async streamText(prompt: string, onChunk: StreamChunkHandler): Promise<AnalysisResult> {
+    const startTime = Date.now();
+
+    try {
+      const stream = await this.client.chat.completions.create({
+        model: this.modelName,
+        messages: [
+          { role: 'system', content: 'You are a financial analysis expert.' },
+          { role: 'user', content: prompt },
+        ],
+        max_tokens: 4000,
+        stream: true,
+        stream_options: { include_usage: true }, // Usage arrives in a final chunk with no choices
+      });
+
+      let text = '';
+      let inputTokens = 0;
+      let outputTokens = 0;
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          await onChunk(delta);
+        }
+        if (chunk.usage) {
+          inputTokens = chunk.usage.prompt_tokens;
+          outputTokens = chunk.usage.completion_tokens;
+        }
+      }
+
+      return {
+        content: text,
+        modelUsed: this.modelName,
+        tokensUsed: {
+          input: inputTokens,
+          output: outputTokens,
+        },
+        latencyMs: Date.now() - startTime,
+        cost: this.calculateCost(inputTokens, outputTokens),
+      };
+    } catch (error: any) {
+      throw new Error(`OpenAI API error: ${error.message}`);
+    }
+  }
+
+  async generateJSON(prompt: string): Promise<AnalysisResult> {
+    const startTime = Date.now();
+
+    try {
+      const completion = await this.client.chat.completions.create({
+        model: this.modelName,
+        messages: [
+          { role: 'system', content: 'You are a financial analysis expert. Respond with a single JSON object.' },
+          { role: 'user', content: prompt },
+        ],
+        max_tokens: 1500,
+        response_format: { type: 'json_object' },
+      });
+
+      const text = completion.choices[0].message.content || '';
+      const inputTokens = completion.usage?.prompt_tokens || 0;
+      const outputTokens = completion.usage?.completion_tokens || 0;
+
+      return {
+        content: text,
+        modelUsed: this.modelName,
+        tokensUsed: {
+          input: inputTokens,
+          output: outputTokens,
+        },
+        latencyMs: Date.now() - startTime,
+        cost: this.calculateCost(inputTokens, outputTokens),
+      };
+    } catch (error: any) {
+      throw new Error(`OpenAI API error: ${error.message}`);
+    }
+  }
+
   protected buildPrompt(context: AnalysisContext): string {
     return buildAnalysisPrompt(context);
   }
@@ -0,0 +1,130 @@
+/**
+ * Structured (JSON) Output
+ *
+ * Runs a JSON prompt through a provider and validates the reply against a
+ * zod schema. Invalid replies get a repair round: the model sees its own
+ * output plus the parse/validation errors and is asked for a corrected
+ * object. Token usage and cost accumulate across attempts.
+ */
+
+import { z } from 'zod';
+import type { LLMProvider } from './provider-interface';
+
+/** First attempt + repair rounds */
+export const STRUCTURED_OUTPUT_MAX_ATTEMPTS = 3;
+
+export interface StructuredResult<T> {
+  data: T;
+  attempts: number;
+  modelUsed: string;
+  tokensUsed: {
+    input: number;
+    output: number;
+  };
+  cost: number;
+  latencyMs: number;
+}
+
+export class StructuredOutputError extends Error {
+  constructor(
+    public attempts: number,
+    public issues: string[],
+    public lastOutput: string,
+    public cost: number // Spent on the failed attempts
+  ) {
+    super(`Invalid structured output after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${issues.slice(0, 3).join('; ')}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * Pull a JSON value out of a model reply (tolerates ```json fences and
+ * text around the object)
+ */
+export function extractJSON(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = (fenced ? fenced[1] : text).trim();
+
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('No JSON object found in response');
+  }
+
+  return JSON.parse(candidate.slice(start, end + 1));
+}
+
+/**
+ * Readable issue list for logs and repair prompts
+ */
+function describeIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
+
+function buildRepairPrompt(originalPrompt: string, output: string, issues: string[]): string {
+  let prompt = originalPrompt;
+  prompt += `\n\n**YOUR PREVIOUS RESPONSE WAS INVALID:**\n\n${output.slice(0, 4000)}\n\n`;
+  prompt += `**PROBLEMS:**\n`;
+  for (const issue of issues) {
+    prompt += `- ${issue}\n`;
+  }
+  prompt += `\nReturn the corrected JSON object only.\n`;
+  return prompt;
+}
+
+/**
+ * Generate and validate a JSON object
+ *
+ * @throws StructuredOutputError when every attempt is invalid
+ * @throws Error from the provider (API failures are not retried here)
+ */
+export async function generateStructured<S extends z.ZodTypeAny>(
+  provider: LLMProvider,
+  prompt: string,
+  schema: S,
+  maxAttempts: number = STRUCTURED_OUTPUT_MAX_ATTEMPTS
+): Promise<StructuredResult<z.infer<S>>> {
+  const startTime = Date.now();
+  const tokensUsed = { input: 0, output: 0 };
+  let cost = 0;
+  let modelUsed = provider.getModelName();
+  let currentPrompt = prompt;
+  let issues: string[] = [];
+  let lastOutput = '';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const result = await provider.generateJSON(currentPrompt);
+    tokensUsed.input += result.tokensUsed.input;
+    tokensUsed.output += result.tokensUsed.output;
+    cost += result.cost;
+    modelUsed = result.modelUsed;
+    lastOutput = result.content;
+
+    let parsed: unknown;
+    try {
+      parsed = extractJSON(result.content);
+    } catch (error) {
+      issues = [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`];
+    }
+
+    if (parsed !== undefined) {
+      const validation = schema.safeParse(parsed);
+      if (validation.success) {
+        return {
+          data: validation.data,
+          attempts: attempt,
+          modelUsed,
+          tokensUsed,
+          cost,
+          latencyMs: Date.now() - startTime,
+        };
+      }
+      issues = describeIssues(validation.error);
+    }
+
+    console.warn(`[LLM] Structured output attempt ${attempt}/${maxAttempts} invalid: ${issues.join('; ')}`);
+    currentPrompt = buildRepairPrompt(prompt, result.content, issues);
+  }
+
+  throw new StructuredOutputError(maxAttempts, issues, lastOutput, cost);
+}
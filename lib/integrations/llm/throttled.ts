@@ -0,0 +1,99 @@
+/**
+ * Rate-Limited Provider
+ *
+ * Wraps a provider so each call waits for its requests-per-minute and
+ * tokens-per-minute limits (core/provider-limits.ts), keyed by API key -
+ * a user's own key has its own limits. Token use is estimated from the
+ * prompt before the call and corrected with the reported usage after it.
+ * Quota errors (429) pause and slow the key's buckets, then rethrow so the
+ * fallback chain and the orchestrator's retry handle them as before.
+ *
+ * Results served on a user's own key are marked `ownKey`, so cost is booked
+ * by the key that answered rather than the one that was asked for.
+ *
+ * LLMFactory.createProvider wraps every provider it creates.
+ */
+
+import { LLMProvider, StreamChunkHandler } from './provider-interface';
+import { AnalysisContext, AnalysisResult } from './types';
+import { calculateModelCost } from './pricing';
+import { buildAnalysisPrompt } from './prompts/shared';
+import { classifyLLMError, retryAfterMs } from './fallback';
+import { acquireProvider, chargeProviderTokens, reportRateLimited } from '../../core/provider-limits';
+import type { LLMProviderType } from './factory';
+
+// Output budget per call kind, matching the providers' max_tokens
+const OUTPUT_TOKEN_ESTIMATE = {
+  text: 4000,
+  json: 1500,
+};
+
+export class ThrottledProvider extends LLMProvider {
+  constructor(private inner: LLMProvider, private type: LLMProviderType, private ownKey: boolean = false) {
+    super('', inner.getModelName());
+  }
+
+  async generateAnalysis(context: AnalysisContext): Promise<AnalysisResult> {
+    const pinned = this.pinPromptVersion(context);
+    return this.throttle(buildAnalysisPrompt(pinned), 'text', () => this.inner.generateAnalysis(pinned));
+  }
+
+  async streamAnalysis(context: AnalysisContext, onChunk: StreamChunkHandler): Promise<AnalysisResult> {
+    const pinned = this.pinPromptVersion(context);
+    return this.throttle(buildAnalysisPrompt(pinned), 'text', () => this.inner.streamAnalysis(pinned, onChunk));
+  }
+
+  async generateText(prompt: string): Promise<AnalysisResult> {
+    return this.throttle(prompt, 'text', () => this.inner.generateText(prompt));
+  }
+
+  async streamText(prompt: string, onChunk: StreamChunkHandler): Promise<AnalysisResult> {
+    return this.throttle(prompt, 'text', () => this.inner.streamText(prompt, onChunk));
+  }
+
+  async generateJSON(prompt: string): Promise<AnalysisResult> {
+    return this.throttle(prompt, 'json', () => this.inner.generateJSON(prompt));
+  }
+
+  private async throttle(
+    prompt: string,
+    kind: keyof typeof OUTPUT_TOKEN_ESTIMATE,
+    call: () => Promise<AnalysisResult>
+  ): Promise<AnalysisResult> {
+    const key = this.inner.getKeyFingerprint();
+    const estimate = Math.ceil(prompt.length / 4) + OUTPUT_TOKEN_ESTIMATE[kind];
+    await acquireProvider(this.type, { key, tokens: estimate });
+
+    try {
+      const result = await call();
+      chargeProviderTokens(this.type, key, result.tokensUsed.input + result.tokensUsed.output - estimate);
+      if (this.ownKey) result.ownKey = true;
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (classifyLLMError(error) === 'quota') {
+        reportRateLimited(this.type, key, retryAfterMs(message));
+      } else {
+        chargeProviderTokens(this.type, key, -estimate); // Failed calls are (mostly) not billed against TPM
+      }
+      throw error;
+    }
+  }
+
+  protected buildPrompt(context: AnalysisContext): string {
+    return buildAnalysisPrompt(context);
+  }
+
+  protected calculateCost(inputTokens: number, outputTokens: number): number {
+    return calculateModelCost(this.modelName, inputTokens, outputTokens);
+  }
+
+  // Same identity as the wrapped provider, so breakers and logs are unchanged
+  public getProviderName(): string {
+    return this.inner.getProviderName();
+  }
+
+  public getKeyFingerprint(): string {
+    return this.inner.getKeyFingerprint();
+  }
+}
@@ -5,6 +5,9 @@
  */
 
 import { MarketContext } from '../../domain/market';
+import { ScoringWeights, WeightProfile } from '../../../config/scoring/config';
+import { RegimeWeightAdjustment } from '../../domain/analysis/weight-profiles';
+import { ScoreAttribution } from '../../domain/analysis/attribution';
 
 /**
  * Stock Event data for upcoming events (v1.2.17: Event-aware analysis)
@@ -27,6 +30,11 @@ export interface AnalysisContext {
   currentMetrics: Record<string, any>; // Expanded to include all technical, fundamental, and macro data
   marketContext?: MarketContext | null; // NEW: Market regime and sector rotation context
   upcomingEvents?: StockEvent[]; // NEW v1.2.17: Upcoming events for event-aware analysis
+  weightProfile?: WeightProfile; // Composite weight profile used for this analysis
+  appliedWeights?: ScoringWeights; // Profile weights after the regime tilt (what the composite actually used)
+  regimeAdjustment?: RegimeWeightAdjustment | null; // Regime tilt blended into the weights, if any
+  attribution?: ScoreAttribution; // Rules that produced each score - the narrative must not contradict these
+  promptVersion?: string; // Registered prompt to use (prompts/registry.ts); blank = traffic split
   previousAnalysis?: {
     date: string;
     compositeScore: number;
@@ -39,7 +47,7 @@ export interface AnalysisContext {
     recommendation: string;
   }>;
   deltas?: {
-    daysElapsed: number;
+    daysElapsed: number; // Trading days
     scoreChange: number;
     trendDirection: 'improving' | 'declining' | 'stable';
     trendEmoji: string; // NEW v1.0.8: ⬆️ ⬇️ ⏸️ 🔄
@@ -69,6 +77,85 @@ export interface AnalysisContext {
   };
 }
 
+/**
+ * Multi-stock comparison context
+ *
+ * Scores and rankings are computed before the LLM call; the model only
+ * explains them.
+ */
+export interface ComparisonContext {
+  currentDate: string; // ISO date string
+  marketContext?: MarketContext | null;
+  weightProfile?: WeightProfile; // Same profile applied to every ticker
+  stocks: Array<{
+    ticker: string;
+    companyName?: string;
+    sector?: string;
+    price?: number;
+    peRatio?: number;
+    priceChange1m?: number;
+    volatility30d?: number;
+    beta?: number;
+    scores: {
+      composite: number;
+      technical: number;
+      fundamental: number;
+      macro: number;
+      risk: number;
+      sentiment: number;
+      marketAlignment: number;
+      recommendation: string;
+    };
+  }>;
+  rankings: {
+    overall: string[];  // By composite score
+    value: string[];    // By earnings yield, then fundamental score
+    momentum: string[]; // By technical score, then 1M price change
+    safety: string[];   // By risk score (higher = safer)
+  };
+}
+
+/**
+ * Weekly cross-portfolio review context
+ *
+ * Built from the user's Notion databases (Stock History, Market Context,
+ * Stock Events) over the last five trading days. Winners and losers are
+ * ranked in code; the model writes the narrative.
+ */
+export interface WeeklyReviewContext {
+  weekStart: string; // YYYY-MM-DD (first trading day with data)
+  weekEnd: string;   // YYYY-MM-DD (last trading day with data)
+  stocks: Array<{
+    ticker: string;
+    companyName?: string;
+    startComposite: number;
+    endComposite: number;
+    startRecommendation: string;
+    endRecommendation: string;
+    startPrice?: number;
+    endPrice?: number;
+    priceChange?: number; // Fraction over the week (0.05 = +5%)
+    analyses: number;     // Stock History rows in the window
+  }>;
+  winners: string[]; // Best weekly price change first
+  losers: string[];  // Worst weekly price change first
+  marketDays: Array<{
+    date: string;
+    regime?: string;
+    riskLevel?: string;
+    vix?: number;
+    spyChange1d?: number; // Percent
+    topSector?: string;
+    worstSector?: string;
+  }>;
+  upcomingEvents: Array<{
+    ticker: string;
+    eventType: string;
+    date: string;
+    description?: string;
+  }>;
+}
+
 export interface AnalysisResult {
   content: string;          // Full 7-section analysis
   modelUsed: string;        // e.g., "gemini-2.5-flash"
@@ -78,6 +165,9 @@ export interface AnalysisResult {
   };
   latencyMs: number;
   cost: number;
+  fallbackFrom?: string[];  // Models that failed before modelUsed served the request
+  ownKey?: boolean;         // Served on the user's own API key (not server-paid)
+  promptVersion?: string;   // Analysis prompt that produced content (analyses only)
 }
 
 export interface LLMConfig {
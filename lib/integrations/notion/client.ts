@@ -18,6 +18,14 @@ import {
   PageObjectResponse,
 } from '@notionhq/client/build/src/api-endpoints';
 import { ScoreResults } from '../../domain/analysis/scoring';
+import { throttledFetch } from '../../core/provider-limits';
+import { formatWeights } from '../../domain/analysis/weight-profiles';
+import {
+  ScoreAttribution,
+  formatCategoryAttribution,
+  formatContribution,
+} from '../../domain/analysis/attribution';
+import { TradePlan, TIME_HORIZONS, CONVICTION_LEVELS, formatTargets } from '../../domain/analysis/trade-plan';
 import { withRetry } from '../../core/utils';
 
 interface NotionConfig {
@@ -37,6 +45,9 @@ interface AnalysisData {
   macro: MacroData;
   scores: ScoreResults;
   pattern?: PatternData;
+  tradePlan?: TradePlan | null; // Structured LLM output (null clears last run's plan, undefined leaves it)
+  llmModel?: string; // Model that actually wrote the analysis (may be a fallback provider)
+  promptVersion?: string; // Registered analysis prompt the narrative was written with
   apiCalls?: {
     fmp?: number;
     fred?: number;
@@ -84,6 +95,8 @@ interface PatternData {
   score?: number;
   signal?: string;
   detected?: string[];
+  expectedMove?: number;   // Fraction, e.g. 0.084 = +8.4%
+  daysToBreakout?: number; // Trading days until the prediction is checked
 }
 
 type ContentStatus =
@@ -91,6 +104,49 @@ type ContentStatus =
   | 'Complete'
   | 'Error';
 
+/**
+ * User-set overrides on a stock's Stock Analyses page (null = not set)
+ */
+interface StockSettings {
+  scoringProfile: string | null;
+  llmProvider: string | null;
+  llmModel: string | null;
+}
+
+/**
+ * Properties added after the original templates (name → type hint).
+ * Older user templates may not have them - dropped on validation_error.
+ */
+const OPTIONAL_PROPERTIES: Record<string, string> = {
+  'Market Regime': 'select (Risk-On, Risk-Off, Transition)',
+  'Scoring Profile': 'select (Balanced, Growth, Value, Income, Defensive)',
+  'Scoring Weights': 'text',
+  'Pattern Score': 'number',
+  'Pattern Signal': 'select (🚀 Extremely Bullish, 📈 Bullish, ✋ Neutral, 📉 Bearish, 🚨 Extremely Bearish)',
+  'Detected Patterns': 'text',
+  'Expected Move (%)': 'number (percent)',
+  'Days to Breakout': 'number',
+  'Entry Low': 'number (dollar)',
+  'Entry High': 'number (dollar)',
+  'Target Price': 'number (dollar)',
+  'Price Targets': 'text',
+  'Stop Loss': 'number (dollar)',
+  'Time Horizon': `select (${TIME_HORIZONS.join(', ')})`,
+  'Conviction': `select (${CONVICTION_LEVELS.join(', ')})`,
+  'Thesis': 'text',
+  'Key Risks': 'text',
+  'Catalysts': 'text',
+  'LLM Model': 'text',
+  'Prompt Version': 'text',
+};
+
+/**
+ * Notion rich_text content is capped at 2000 characters per text object
+ */
+function richText(content: string): Array<{ text: { content: string } }> {
+  return content ? [{ text: { content: content.slice(0, 2000) } }] : [];
+}
+
 export class NotionClient {
   private client: Client;
   private stockAnalysesDbId: string;
@@ -100,7 +156,11 @@ export class NotionClient {
   private dataSourceCache = new Map<string, string>();
 
   constructor(config: NotionConfig) {
-    this.client = new Client({ auth: config.apiKey, notionVersion: '2025-09-03' });
+    this.client = new Client({
+      auth: config.apiKey,
+      notionVersion: '2025-09-03',
+      fetch: throttledFetch('notion', config.apiKey), // 3 req/s per token, shared with concurrent analyses
+    });
     this.stockAnalysesDbId = config.stockAnalysesDbId;
     this.stockHistoryDbId = config.stockHistoryDbId;
     this.userId = config.userId;
@@ -218,10 +278,12 @@ export class NotionClient {
         // Update existing page with retry
         const response = await withRetry(
           async () =>
-            await this.client.pages.update({
-              page_id: existingPageId,
-              properties,
-            }),
+            await this.writeWithOptionalProperties('Stock Analyses', properties, (props) =>
+              this.client.pages.update({
+                page_id: existingPageId,
+                properties: props,
+              })
+            ),
           `Notion updatePage(${ticker})`,
           { maxAttempts: 2 } // Fewer retries for writes
         );
@@ -235,10 +297,12 @@ export class NotionClient {
         // Create new page with retry
         const response = await withRetry(
           async () =>
-            await this.client.pages.create({
-              parent: { database_id: this.stockAnalysesDbId },
-              properties,
-            }),
+            await this.writeWithOptionalProperties('Stock Analyses', properties, (props) =>
+              this.client.pages.create({
+                parent: { database_id: this.stockAnalysesDbId },
+                properties: props,
+              })
+            ),
           `Notion createPage(${ticker})`,
           { maxAttempts: 2 } // Fewer retries for writes
         );
@@ -282,10 +346,12 @@ export class NotionClient {
 
       const response = await withRetry(
         async () =>
-          await this.client.pages.create({
-            parent: { database_id: this.stockHistoryDbId },
-            properties,
-          }),
+          await this.writeWithOptionalProperties('Stock History', properties, (props) =>
+            this.client.pages.create({
+              parent: { database_id: this.stockHistoryDbId },
+              properties: props,
+            })
+          ),
         `Notion createHistory(${ticker})`,
         { maxAttempts: 2 } // Fewer retries for writes
       );
@@ -297,6 +363,76 @@ export class NotionClient {
     }
   }
 
+  /**
+   * Run a page write, dropping optional properties the user's template
+   * doesn't have yet (Notion rejects unknown properties outright)
+   */
+  private async writeWithOptionalProperties<T>(
+    databaseName: 'Stock Analyses' | 'Stock History',
+    properties: Record<string, any>,
+    write: (properties: Record<string, any>) => Promise<T>
+  ): Promise<T> {
+    const pending = { ...properties };
+
+    for (;;) {
+      try {
+        return await write(pending);
+      } catch (error: any) {
+        const missing = error.code === 'validation_error'
+          ? Object.keys(OPTIONAL_PROPERTIES).filter(
+              (name) => name in pending && error.message?.includes(name)
+            )
+          : [];
+
+        if (missing.length === 0) {
+          throw error;
+        }
+
+        for (const name of missing) {
+          console.warn(`⚠️  ${name} property not found in ${databaseName} database - skipping`);
+          console.warn(`   💡 To enable it, add a "${name}" ${OPTIONAL_PROPERTIES[name]} property to ${databaseName}`);
+          delete pending[name];
+        }
+      }
+    }
+  }
+
+  /**
+   * Read the per-stock overrides (Scoring Profile, LLM Provider, Preferred
+   * Model) from a stock's Stock Analyses page
+   * All null if the page doesn't exist yet or can't be read
+   */
+  async getStockSettings(ticker: string): Promise<StockSettings> {
+    const none: StockSettings = { scoringProfile: null, llmProvider: null, llmModel: null };
+    try {
+      const dataSourceId = await this.getDataSourceId(this.stockAnalysesDbId);
+
+      const response = await this.client.dataSources.query({
+        data_source_id: dataSourceId,
+        filter: {
+          property: 'Ticker',
+          title: {
+            equals: ticker,
+          },
+        },
+        page_size: 1,
+      });
+
+      const page = response.results[0] as PageObjectResponse | undefined;
+      if (!page) return none;
+
+      const props = page.properties as any;
+      return {
+        scoringProfile: props['Scoring Profile']?.select?.name || null,
+        llmProvider: props['LLM Provider']?.select?.name || null,
+        llmModel: props['Preferred Model']?.rich_text?.[0]?.plain_text?.trim() || null,
+      };
+    } catch (error) {
+      console.warn('[Notion] Failed to read stock settings:', error);
+      return none;
+    }
+  }
+
   /**
    * Find page by ticker in database
    * Returns page ID if found, null otherwise
@@ -520,6 +656,18 @@ export class NotionClient {
         number: Math.round(technical.week_52_low * 100) / 100,
       };
 
+    // Applied weights (incl. regime tilt) so score changes between runs are explainable
+    if (scores.weights) {
+      props['Scoring Weights'] = {
+        rich_text: [{ text: { content: formatWeights(scores.weights, scores.regimeAdjustment) } }],
+      };
+    }
+
+    // Weight profile (history only - on Stock Analyses it is a user setting)
+    if (dbType === 'history' && scores.weightProfile) {
+      props['Scoring Profile'] = { select: { name: scores.weightProfile } };
+    }
+
     // API calls tracking
     const totalApiCalls =
       (data.apiCalls?.fmp || 0) +
@@ -543,11 +691,30 @@ export class NotionClient {
           props['Pattern Signal'] = { select: { name: data.pattern.signal } };
         }
       }
-      if (data.pattern.detected && data.pattern.detected.length > 0) {
+      if (data.pattern.detected) {
         props['Detected Patterns'] = {
-          rich_text: [{ text: { content: data.pattern.detected.join(', ') } }],
+          rich_text: data.pattern.detected.length > 0
+            ? [{ text: { content: data.pattern.detected.join(', ') } }]
+            : [], // Clear last run's patterns
         };
       }
+      // Null clears a previous prediction so it isn't copied into Stock History again
+      props['Expected Move (%)'] = {
+        number: data.pattern.expectedMove !== undefined
+          ? Math.round(data.pattern.expectedMove * 10000) / 10000
+          : null,
+      };
+      props['Days to Breakout'] = { number: data.pattern.daysToBreakout ?? null };
+    }
+
+    if (data.tradePlan !== undefined) {
+      Object.assign(props, this.tradePlanProperties(data.tradePlan));
+    }
+    if (data.llmModel) {
+      props['LLM Model'] = { rich_text: richText(data.llmModel) };
+    }
+    if (data.promptVersion !== undefined) {
+      props['Prompt Version'] = { rich_text: richText(data.promptVersion) };
     }
 
     // Clear Notes field on successful analysis (prevents stale error messages from persisting)
@@ -562,6 +729,48 @@ export class NotionClient {
     return props;
   }
 
+  /**
+   * Trade plan properties (null clears every field, so a failed extraction
+   * doesn't leave the previous run's levels to be copied into Stock History)
+   */
+  private tradePlanProperties(plan: TradePlan | null): Record<string, any> {
+    const round = (value: number) => Math.round(value * 100) / 100;
+    return {
+      'Entry Low': { number: plan ? round(plan.entryLow) : null },
+      'Entry High': { number: plan ? round(plan.entryHigh) : null },
+      'Target Price': { number: plan ? round(plan.targets[0]) : null },
+      'Price Targets': { rich_text: richText(plan ? formatTargets(plan.targets) : '') },
+      'Stop Loss': { number: plan ? round(plan.stopLoss) : null },
+      'Time Horizon': { select: plan ? { name: plan.timeHorizon } : null },
+      'Conviction': { select: plan ? { name: plan.conviction } : null },
+      'Thesis': { rich_text: richText(plan?.thesis || '') },
+      'Key Risks': { rich_text: richText(plan ? plan.keyRisks.join('\n') : '') },
+      'Catalysts': { rich_text: richText(plan ? plan.catalysts.join('\n') : '') },
+    };
+  }
+
+  /**
+   * Write the LLM's structured output, the model that served it and the
+   * prompt version to a Stock Analyses page. Runs before archiveToHistory so
+   * all of them are copied to the history row.
+   */
+  async writeLLMOutput(
+    pageId: string,
+    output: { modelUsed: string; promptVersion?: string; tradePlan: TradePlan | null }
+  ): Promise<void> {
+    const properties = {
+      ...this.tradePlanProperties(output.tradePlan),
+      'LLM Model': { rich_text: richText(output.modelUsed) },
+      'Prompt Version': { rich_text: richText(output.promptVersion || '') },
+    };
+    await this.writeWithOptionalProperties('Stock Analyses', properties, (props) =>
+      this.client.pages.update({
+        page_id: pageId,
+        properties: props,
+      })
+    );
+  }
+
   /**
    * Poll Stock Analyses page until status becomes "Complete"
    *
@@ -674,6 +883,7 @@ export class NotionClient {
    *
    * @param pageId - Notion page ID of the Stock Analyses page to archive
    * @param marketRegime - Market regime at time of analysis (for pattern recognition in v1.0.8)
+   * @param weighting - Weight profile and weights the composite was calculated with
    * @returns Page ID of the newly created Stock History entry, or null if failed
    *
    * @example
@@ -688,11 +898,17 @@ export class NotionClient {
    * - Creates a new page in Stock History (append-only, never updates)
    * - Excludes Stock Analyses-specific properties (Owner, etc.)
    * - Includes Market Regime for delta-first pattern recognition (v1.0.8)
+   * - Includes Scoring Profile/Weights so historical composites stay explainable
+   * - Drops optional properties missing from older Stock History templates
    * - Does NOT update Content Status (already set to "Complete" by /api/analyze)
    * - Stock History pages don't use Content Status (simplified in v1.0.2)
    * - Copies all content blocks (except synced blocks)
    */
-  async archiveToHistory(pageId: string, marketRegime?: string): Promise<string | null> {
+  async archiveToHistory(
+    pageId: string,
+    marketRegime?: string,
+    weighting?: Pick<ScoreResults, 'weightProfile' | 'weights' | 'regimeAdjustment'>
+  ): Promise<string | null> {
     console.log('📦 Archiving analysis to Stock History...');
 
     try {
@@ -714,6 +930,12 @@ export class NotionClient {
         'AI summary', // Stock Analyses-specific
         'Holding Type', // Stock Analyses-specific
         'Analysis Cadence', // Stock Analyses-specific (orchestrator feature)
+        'Analysis Day', // Stock Analyses-specific (cadence setting)
+        'Move Threshold (%)', // Stock Analyses-specific (cadence setting)
+        'Next Scheduled', // Stock Analyses-specific (orchestrator schedule)
+        'Request Analysis', // Stock Analyses-specific (on-demand trigger)
+        'LLM Provider', // Stock Analyses-specific (LLM preference; LLM Model records what ran)
+        'Preferred Model', // Stock Analyses-specific (LLM preference)
       ]);
 
       // Copy properties (excluding Stock Analyses-specific ones)
@@ -804,35 +1026,27 @@ export class NotionClient {
         };
         console.log(`ℹ️  Including Market Regime: ${marketRegime}`);
       }
+
+      // Record the profile actually applied - the copied Stock Analyses value is blank when inherited
+      if (weighting?.weightProfile) {
+        propertiesToCopy['Scoring Profile'] = {
+          select: { name: weighting.weightProfile },
+        };
+        if (weighting.weights) {
+          propertiesToCopy['Scoring Weights'] = {
+            rich_text: [{ text: { content: formatWeights(weighting.weights, weighting.regimeAdjustment) } }],
+          };
+        }
+      }
       // Note: Stock History doesn't use Content Status (deprecated - field is redundant for time-series data)
 
       // Create Stock History page
-      let historyPage;
-      try {
-        historyPage = await this.client.pages.create({
+      const historyPage = await this.writeWithOptionalProperties('Stock History', propertiesToCopy, (props) =>
+        this.client.pages.create({
           parent: { database_id: this.stockHistoryDbId },
-          properties: propertiesToCopy,
-        });
-      } catch (error: any) {
-        // If Market Regime property doesn't exist, retry without it
-        if (error.code === 'validation_error' &&
-          error.message?.includes('Market Regime') &&
-          marketRegime) {
-          console.warn('⚠️  Market Regime property not found in Stock History database - skipping');
-          console.warn('   💡 To enable regime tracking, add a "Market Regime" select property to Stock History');
-          console.warn('      Options: Risk-On, Risk-Off, Transition');
-
-          // Remove Market Regime and retry
-          delete propertiesToCopy['Market Regime'];
-          historyPage = await this.client.pages.create({
-            parent: { database_id: this.stockHistoryDbId },
-            properties: propertiesToCopy,
-          });
-        } else {
-          // Re-throw other errors
-          throw error;
-        }
-      }
+          properties: props,
+        })
+      );
 
       console.log(`✅ Created Stock History page: ${ticker} - ${formattedDate}`);
 
@@ -1420,11 +1634,50 @@ export class NotionClient {
     return richText.length > 0 ? richText : [{ type: 'text', text: { content: text } }];
   }
 
+  /**
+   * Build the "Why this score" toggle from score attribution
+   *
+   * One bullet per category (rules fired, points, missing inputs), then the
+   * composite contributions. Kept to toggle > bullet because Notion only
+   * accepts two levels of nesting per append request.
+   */
+  private attributionToBlocks(attribution: ScoreAttribution): Array<any> {
+    const bullet = (text: string) => ({
+      object: 'block',
+      type: 'bulleted_list_item',
+      bulleted_list_item: {
+        rich_text: this.parseRichText(text),
+      },
+    });
+
+    const children: Array<any> = Object.values(attribution.categories).map(
+      (category) => bullet(formatCategoryAttribution(category))
+    );
+
+    if (attribution.contributions.length > 0) {
+      const composite = attribution.contributions.reduce((sum, c) => sum + c.contribution, 0);
+      children.push(bullet(
+        `**Composite ${composite.toFixed(2)}** = ` +
+        attribution.contributions.map(formatContribution).join(' + ')
+      ));
+    }
+
+    return [{
+      object: 'block',
+      type: 'toggle',
+      toggle: {
+        rich_text: [{ type: 'text', text: { content: '💡 Why this score' }, annotations: { bold: true } }],
+        children,
+      },
+    }];
+  }
+
   /**
    * Write LLM-generated analysis content to a Notion page
    * @param pageId - ID of the Notion page to update
    * @param content - Markdown-formatted analysis content
    * @param mode - 'replace' (default) deletes existing content, 'append' keeps existing content
+   * @param attribution - Optional score attribution, appended as a "Why this score" toggle
    *
    * NOTE: Use 'replace' mode for Stock Analyses pages (main database row)
    *       Use 'append' mode for Stock History pages (preserve full history)
@@ -1432,7 +1685,8 @@ export class NotionClient {
   async writeAnalysisContent(
     pageId: string,
     content: string,
-    mode: 'replace' | 'append' = 'replace'
+    mode: 'replace' | 'append' = 'replace',
+    attribution?: ScoreAttribution
   ): Promise<void> {
     const startTime = Date.now();
     try {
@@ -1529,6 +1783,9 @@ export class NotionClient {
       // Step 2: Convert markdown to Notion blocks
       const convertStartTime = Date.now();
       const blocks = this.markdownToBlocks(content);
+      if (attribution) {
+        blocks.push(...this.attributionToBlocks(attribution));
+      }
       const convertDuration = Date.now() - convertStartTime;
       console.log(`[Notion] Converted ${blocks.length} blocks in ${convertDuration}ms`);
 
@@ -1624,4 +1881,4 @@ export function createNotionClient(config: NotionConfig): NotionClient {
   return new NotionClient(config);
 }
 
-export type { NotionConfig, AnalysisData, ContentStatus };
+export type { NotionConfig, AnalysisData, ContentStatus, StockSettings };
@@ -8,6 +8,10 @@
  *   3. Calls /api/analyze with ticker
  *   4. Writes results back to Notion
  *
+ * DEPRECATED: "Request Analysis" is now delivered by Notion integration
+ * webhooks (api/webhook.ts → lib/orchestration/on-demand.ts), so nothing
+ * has to poll. Kept for local development without a public webhook URL.
+ *
  * v1.0 - Vercel Serverless + TypeScript
  */
 
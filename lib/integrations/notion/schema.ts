@@ -122,15 +122,61 @@ export const STOCK_ANALYSES_SCHEMA: NotionProperty[] = [
   {
     name: 'Analysis Cadence',
     type: 'select',
-    options: ['None', 'Daily'],
+    options: ['None', 'Daily', 'Weekly', 'Monthly', 'Before Earnings', 'On Big Move'],
     description: 'How often to automatically analyze this stock (opt-in per stock)'
   },
+  {
+    name: 'Analysis Day',
+    type: 'select',
+    options: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
+    description: 'Weekday for the Weekly cadence (blank = Monday)'
+  },
+  { name: 'Move Threshold (%)', type: 'number', description: 'Price move that triggers an On Big Move analysis (blank = 5%)' },
   { name: 'Last Auto-Analysis', type: 'date', description: 'Timestamp of last automated analysis execution' },
+  { name: 'Next Scheduled', type: 'date', description: 'Next scheduled analysis (written by the orchestrator)' },
+  { name: 'Request Analysis', type: 'checkbox', description: 'Tick to analyze now (webhook trigger - unticked once queued)' },
+
+  // Composite weighting (user-set; blank = account default from Beta Users)
+  {
+    name: 'Scoring Profile',
+    type: 'select',
+    options: ['Balanced', 'Growth', 'Value', 'Income', 'Defensive'],
+    description: 'Weight profile for this stock\'s composite score (overrides the account default)'
+  },
+  { name: 'Scoring Weights', type: 'rich_text', description: 'Category weights applied to the latest composite (incl. regime tilt)' },
+
+  // Trade plan (schema-validated JSON extracted from the LLM analysis; copied to Stock History)
+  { name: 'Entry Low', type: 'number', description: 'Bottom of the entry zone' },
+  { name: 'Entry High', type: 'number', description: 'Top of the entry zone' },
+  { name: 'Target Price', type: 'number', description: 'Nearest profit target' },
+  { name: 'Price Targets', type: 'rich_text', description: 'All profit targets, nearest first' },
+  { name: 'Stop Loss', type: 'number', description: 'Stop-loss level' },
+  {
+    name: 'Time Horizon',
+    type: 'select',
+    options: ['Days', 'Weeks', 'Months', 'Long Term'],
+    description: 'Holding period the plan is written for'
+  },
+  {
+    name: 'Conviction',
+    type: 'select',
+    options: ['High', 'Medium', 'Low'],
+    description: 'Stated conviction in the thesis'
+  },
+  { name: 'Thesis', type: 'rich_text', description: 'Thesis in 1-2 sentences' },
+  { name: 'Key Risks', type: 'rich_text', description: 'Key risks, one per line' },
+  { name: 'Catalysts', type: 'rich_text', description: 'Catalysts, one per line' },
+  { name: 'LLM Model', type: 'rich_text', description: 'Model that wrote the analysis (shows fallbacks)' },
+  { name: 'Prompt Version', type: 'rich_text', description: 'Analysis prompt the narrative was written with (e.g. delta-first@1.0.8)' },
+
+  // LLM preference (user-set; blank = account default from Beta Users)
   {
-    name: 'Next Scheduled',
-    type: 'formula',
-    description: 'Next scheduled analysis date/time (for display only)'
+    name: 'LLM Provider',
+    type: 'select',
+    options: ['Gemini', 'Claude', 'OpenAI'],
+    description: 'LLM provider for this stock\'s analyses (overrides the account default)'
   },
+  { name: 'Preferred Model', type: 'rich_text', description: 'Model for this stock (e.g. claude-sonnet-4-5-20250929); blank = provider default' },
 ];
 
 /**
@@ -153,6 +199,15 @@ export const STOCK_HISTORY_SCHEMA: NotionProperty[] = [
     description: 'Market regime at time of analysis (for pattern recognition)'
   },
 
+  // Composite weighting actually applied (resolved stock → user → default)
+  {
+    name: 'Scoring Profile',
+    type: 'select',
+    options: ['Balanced', 'Growth', 'Value', 'Income', 'Defensive'],
+    description: 'Weight profile used for the composite score'
+  },
+  { name: 'Scoring Weights', type: 'rich_text', description: 'Category weights used for the composite score (incl. regime tilt)' },
+
   // All other fields same as Stock Analyses (except Owner and Status)
   // Status removed in v1.0.2 (Stock History is append-only, no workflow tracking needed)
 
@@ -299,11 +354,33 @@ export const BETA_USERS_SCHEMA: NotionProperty[] = [
     description: 'Subscription level - determines analysis quotas and feature access'
   },
   { name: 'Timezone', type: 'rich_text', description: 'User IANA timezone (e.g., America/Los_Angeles)' },
+  {
+    name: 'Scoring Profile',
+    type: 'select',
+    options: ['Balanced', 'Growth', 'Value', 'Income', 'Defensive'],
+    description: 'Default composite weight profile for this user\'s stocks'
+  },
+  { name: 'Daily Digest', type: 'checkbox', description: 'Email a summary of the day\'s analyses after the scheduled run' },
+  { name: 'Digest Hour', type: 'number', description: 'Local hour (0-23) to send the daily digest (default 7)' },
+  {
+    name: 'LLM Provider',
+    type: 'select',
+    options: ['Gemini', 'Claude', 'OpenAI'],
+    description: 'Default LLM provider for this user\'s analyses (blank = server default)'
+  },
+  { name: 'Preferred Model', type: 'rich_text', description: 'Default model for that provider (blank = provider default)' },
+  { name: 'Gemini API Key', type: 'rich_text', description: 'User\'s own Gemini key (encrypted)' },
+  { name: 'Anthropic API Key', type: 'rich_text', description: 'User\'s own Anthropic key (encrypted)' },
+  { name: 'OpenAI API Key', type: 'rich_text', description: 'User\'s own OpenAI key (encrypted)' },
   // Database IDs (populated during OAuth setup)
   { name: 'Stock Analyses DB ID', type: 'rich_text', description: 'Database ID for Stock Analyses' },
   { name: 'Stock History DB ID', type: 'rich_text', description: 'Database ID for Stock History' },
   { name: 'Stock Events DB ID', type: 'rich_text', description: 'Database ID for Stock Events (v1.2.16)' },
   { name: 'Market Context DB ID', type: 'rich_text', description: 'Database ID for Market Context (v1.1.0)' },
+  { name: 'Portfolio Positions DB ID', type: 'rich_text', description: 'Database ID for Portfolio Positions (optional)' },
+  { name: 'Portfolio Transactions DB ID', type: 'rich_text', description: 'Database ID for Portfolio Transactions (optional)' },
+  { name: 'Stock Comparisons DB ID', type: 'rich_text', description: 'Database ID for Stock Comparisons (optional)' },
+  { name: 'Alert Rules DB ID', type: 'rich_text', description: 'Database ID for Alert Rules (optional)' },
   { name: 'Sage Stocks Page ID', type: 'rich_text', description: 'Page ID for Sage Stocks workspace' },
   { name: 'Template Version', type: 'rich_text', description: 'Version of template user is using' },
   { name: 'Setup Completed At', type: 'date', description: 'When setup was completed' },
@@ -410,6 +487,104 @@ export const STOCK_EVENTS_SCHEMA: NotionProperty[] = [
   { name: 'Fiscal Year', type: 'number', description: 'Fiscal year (for earnings)' },
 ];
 
+/**
+ * Portfolio Transactions Database Schema
+ * Buy/sell trades entered by the user - the source of truth for positions
+ */
+export const PORTFOLIO_TRANSACTIONS_SCHEMA: NotionProperty[] = [
+  { name: 'Name', type: 'title', required: true, description: 'Trade label, e.g. "Buy 10 AAPL"' },
+  { name: 'Ticker', type: 'rich_text', required: true, description: 'Stock ticker symbol' },
+  {
+    name: 'Type',
+    type: 'select',
+    required: true,
+    options: ['Buy', 'Sell'],
+    description: 'Trade direction'
+  },
+  { name: 'Shares', type: 'number', required: true, description: 'Shares traded (positive)' },
+  { name: 'Price', type: 'number', required: true, description: 'Execution price per share' },
+  { name: 'Fees', type: 'number', description: 'Commissions and fees for the trade' },
+  { name: 'Trade Date', type: 'date', required: true, description: 'Execution date (lots are matched FIFO by this date)' },
+  { name: 'Notes', type: 'rich_text', description: 'Free-form notes' },
+];
+
+/**
+ * Portfolio Positions Database Schema
+ * One row per ticker, recomputed from Portfolio Transactions after each daily run
+ */
+export const PORTFOLIO_POSITIONS_SCHEMA: NotionProperty[] = [
+  { name: 'Ticker', type: 'title', required: true, description: 'Stock ticker symbol' },
+  {
+    name: 'Status',
+    type: 'select',
+    options: ['Open', 'Closed'],
+    description: 'Closed = all shares sold (row kept for realized P&L)'
+  },
+  { name: 'Sector', type: 'rich_text', description: 'Sector from the latest analysis' },
+
+  // Holdings (FIFO lots)
+  { name: 'Shares', type: 'number', required: true, description: 'Shares currently held' },
+  { name: 'Average Cost', type: 'number', required: true, description: 'Cost per share of the open lots (incl. fees)' },
+  { name: 'Cost Basis', type: 'number', description: 'Total cost of the open lots' },
+  { name: 'Open Lots', type: 'number', description: 'Number of open tax lots' },
+
+  // Valuation
+  { name: 'Current Price', type: 'number', description: 'Price from the latest analysis' },
+  { name: 'Market Value', type: 'number', description: 'Shares × current price' },
+  { name: 'Unrealized P&L', type: 'number', description: 'Market value - cost basis' },
+  { name: 'Unrealized P&L (%)', type: 'number', description: 'Unrealized P&L / cost basis' },
+  { name: 'Realized P&L', type: 'number', description: 'Gains/losses locked in by sells (FIFO, net of fees)' },
+
+  // Portfolio context
+  { name: 'Position Weight', type: 'number', description: 'Share of total portfolio market value (0-1)' },
+  { name: 'Sector Exposure', type: 'number', description: 'Share of portfolio market value in this sector (0-1)' },
+
+  // Dates
+  { name: 'First Bought', type: 'date', description: 'Trade date of the oldest open lot' },
+  { name: 'Last Transaction', type: 'date', description: 'Most recent trade date' },
+  { name: 'Price Date', type: 'date', description: 'When Current Price was last refreshed' },
+];
+
+/**
+ * Alert Rules Database Schema
+ * User-defined alert conditions, evaluated after every analysis of a matching stock
+ */
+export const ALERT_RULES_SCHEMA: NotionProperty[] = [
+  { name: 'Name', type: 'title', required: true, description: 'Rule label, e.g. "AAPL drops below 3.0"' },
+  { name: 'Ticker', type: 'rich_text', description: 'Stock ticker (blank = every stock you track)' },
+  {
+    name: 'Condition',
+    type: 'select',
+    required: true,
+    options: [
+      'Composite Above',
+      'Composite Below',
+      'Recommendation Change',
+      'RSI Outside Band',
+      'New 52W High',
+      'New 52W Low',
+      'Major Score Change',
+      'Regime Change',
+    ],
+    description: 'What triggers the alert'
+  },
+  { name: 'Threshold', type: 'number', description: 'Composite score threshold (Composite Above/Below)' },
+  { name: 'RSI Lower', type: 'number', description: 'Lower RSI bound (default 30)' },
+  { name: 'RSI Upper', type: 'number', description: 'Upper RSI bound (default 70)' },
+  {
+    name: 'Channels',
+    type: 'multi_select',
+    required: true,
+    options: ['Email', 'Webhook', 'Notion Comment'],
+    description: 'Where to deliver the alert'
+  },
+  { name: 'Webhook URL', type: 'url', description: 'Public HTTPS endpoint receiving a JSON POST (redirects are not followed)' },
+  { name: 'Cooldown (Hours)', type: 'number', description: 'Minimum hours between alerts for the same rule and stock (default 24)' },
+  { name: 'Enabled', type: 'checkbox', required: true, description: 'Unchecked rules are ignored' },
+  { name: 'Last Triggered', type: 'date', description: 'Set when the rule last delivered an alert' },
+  { name: 'Trigger Count', type: 'number', description: 'Alerts delivered by this rule' },
+];
+
 /**
  * Get all required database schemas
  */
@@ -422,6 +597,9 @@ export const ALL_SCHEMAS = {
   betaUsers: BETA_USERS_SCHEMA,
   betaFeedback: BETA_FEEDBACK_SCHEMA,
   stockEvents: STOCK_EVENTS_SCHEMA,
+  portfolioTransactions: PORTFOLIO_TRANSACTIONS_SCHEMA,
+  portfolioPositions: PORTFOLIO_POSITIONS_SCHEMA,
+  alertRules: ALERT_RULES_SCHEMA,
 };
 
 /**
@@ -436,4 +614,7 @@ export const DATABASE_NAMES = {
   betaUsers: 'Beta Users',
   betaFeedback: 'Beta Feedback',
   stockEvents: 'Stock Events',
+  portfolioTransactions: 'Portfolio Transactions',
+  portfolioPositions: 'Portfolio Positions',
+  alertRules: 'Alert Rules',
 };
@@ -0,0 +1,107 @@
+/**
+ * Streaming Section Writer
+ *
+ * Writes a streamed LLM analysis to a Notion page one markdown section at a
+ * time. Text is buffered until the next heading starts (a line beginning
+ * with `##`, which also covers the prompts' `### Section N` headings), then
+ * the finished section is appended while the model keeps generating.
+ *
+ * The page is cleared as soon as the writer is created, so the slow
+ * sequential block deletes in REPLACE mode overlap with generation instead
+ * of running after it. Writes are chained, so sections always land in order.
+ */
+
+import { ScoreAttribution } from '../../domain/analysis/attribution';
+import { NotionClient } from './client';
+
+const SECTION_BOUNDARY = '\n##';
+
+export type SectionWrittenHandler = (section: { index: number; heading: string | null }) => void;
+
+export class SectionWriter {
+  private buffer = '';
+  private writes: Promise<void>;
+  private failure: Error | null = null;
+  private sectionCount = 0;
+
+  constructor(
+    private notion: NotionClient,
+    private pageId: string,
+    private onSectionWritten?: SectionWrittenHandler
+  ) {
+    this.writes = this.notion.writeAnalysisContent(pageId, '', 'replace').catch((error) => {
+      this.failure = error instanceof Error ? error : new Error(String(error));
+    });
+  }
+
+  /**
+   * Add streamed text; queues a write for every section it completes
+   * Never blocks the stream - writes run in the background
+   */
+  push(text: string): void {
+    this.buffer += text;
+
+    let boundary = this.buffer.indexOf(SECTION_BOUNDARY);
+    while (boundary !== -1) {
+      this.enqueue(this.buffer.slice(0, boundary + 1));
+      this.buffer = this.buffer.slice(boundary + 1);
+      boundary = this.buffer.indexOf(SECTION_BOUNDARY, 1);
+    }
+  }
+
+  /**
+   * Write the last section (and the "Why this score" toggle) and wait for
+   * every queued write
+   *
+   * @throws The first Notion error hit by any write
+   */
+  async finish(attribution?: ScoreAttribution): Promise<number> {
+    this.enqueue(this.buffer);
+    this.buffer = '';
+
+    if (attribution) {
+      this.writes = this.writes.then(() => this.write('', attribution));
+    }
+
+    await this.writes;
+    if (this.failure) throw this.failure;
+    return this.sectionCount;
+  }
+
+  /**
+   * Drop unwritten text and wait for in-flight writes (after a failed
+   * generation, so error handling doesn't race a pending append)
+   */
+  async cancel(): Promise<void> {
+    this.buffer = '';
+    this.failure = this.failure || new Error('Section writer cancelled');
+    await this.writes;
+  }
+
+  private enqueue(section: string): void {
+    if (!section.trim()) return;
+
+    const index = this.sectionCount++;
+    const heading = section.trimStart().startsWith('#')
+      ? section.trimStart().split('\n')[0].replace(/^#+\s*/, '').trim()
+      : null;
+
+    this.writes = this.writes.then(async () => {
+      await this.write(section);
+      if (!this.failure) this.onSectionWritten?.({ index, heading });
+    });
+  }
+
+  /**
+   * Append to the page unless an earlier write already failed
+   * (skipping keeps a half-written page from getting sections out of order)
+   */
+  private async write(content: string, attribution?: ScoreAttribution): Promise<void> {
+    if (this.failure) return;
+    try {
+      await this.notion.writeAnalysisContent(this.pageId, content, 'append', attribution);
+    } catch (error) {
+      this.failure = error instanceof Error ? error : new Error(String(error));
+    }
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Notion Integration Webhooks
+ *
+ * Events from a webhook subscription on the Sage Stocks integration
+ * (Notion → Integrations → Webhooks), delivered to POST /api/webhook.
+ * They replace polling for the "Request Analysis" checkbox.
+ *
+ * Setup:
+ * 1. Create a subscription for https://<app>/api/webhook with the
+ *    page.created and page.properties_updated events
+ * 2. Notion POSTs a one-time `{ verification_token }` - the endpoint logs
+ *    it while NOTION_WEBHOOK_VERIFICATION_TOKEN is unset. The endpoint is
+ *    public, so check the logged value against the token Notion shows for
+ *    the subscription before pasting it back to verify
+ * 3. Set NOTION_WEBHOOK_VERIFICATION_TOKEN to the same value - every event
+ *    is signed with it (`X-Notion-Signature: sha256=<HMAC-SHA256 of the body>`)
+ *
+ * Notion retries failed deliveries, so each event ID is claimed once in
+ * Redis (kept 24 hours):
+ * - notion_webhook:event:{eventId}
+ */
+
+import crypto from 'crypto';
+
+const REDIS_URL = process.env.UPSTASH_REDIS_REST_URL || '';
+const REDIS_TOKEN = process.env.UPSTASH_REDIS_REST_TOKEN || '';
+const EVENT_TTL = 86400; // Longer than Notion's retry schedule
+
+/**
+ * Event types that can tick "Request Analysis" (a page created from a
+ * template with the box ticked, or the box ticked on an existing page)
+ */
+export const ANALYSIS_TRIGGER_EVENTS = ['page.created', 'page.properties_updated'] as const;
+
+export type AnalysisTriggerEventType = (typeof ANALYSIS_TRIGGER_EVENTS)[number];
+
+/**
+ * Integration webhook event (only the fields Sage Stocks reads)
+ */
+export interface NotionWebhookEvent {
+  id: string;
+  timestamp: string;
+  workspace_id: string;
+  subscription_id: string;
+  integration_id: string;
+  type: string;
+  authors: Array<{ id: string; type: 'person' | 'bot' | 'agent' }>;
+  attempt_number?: number;
+  entity: { id: string; type: 'page' | 'database' | 'data_source' | 'block' | 'comment' };
+  data?: {
+    parent?: { id: string; type: string };
+    updated_properties?: string[]; // Property IDs, not names
+  };
+}
+
+/**
+ * Is this body an integration event (rather than the verification
+ * handshake or a legacy automation payload)?
+ */
+export function isNotionWebhookEvent(body: any): body is NotionWebhookEvent {
+  return !!body && typeof body.id === 'string' && typeof body.type === 'string' && !!body.entity?.id;
+}
+
+/**
+ * Could this event have ticked "Request Analysis" on a page?
+ */
+export function isAnalysisTriggerEvent(event: NotionWebhookEvent): boolean {
+  return event.entity.type === 'page' && (ANALYSIS_TRIGGER_EVENTS as readonly string[]).includes(event.type);
+}
+
+/**
+ * Notion user IDs of the people behind an event
+ * (bot authors - including our own page updates - are left out)
+ */
+export function getPersonAuthors(event: NotionWebhookEvent): string[] {
+  return Array.from(new Set((event.authors || []).filter((a) => a.type === 'person').map((a) => a.id)));
+}
+
+/**
+ * Verify an event's X-Notion-Signature header
+ *
+ * @param body - Request body bytes exactly as received
+ * @param signature - Header value, "sha256=<hex>"
+ * @param verificationToken - Token from the subscription handshake
+ */
+export function verifyNotionSignature(body: Buffer | string, signature: string | undefined, verificationToken: string): boolean {
+  // Hex only, so both buffers are 32 bytes and timingSafeEqual can't throw
+  const match = signature && /^sha256=([0-9a-f]{64})$/.exec(signature);
+  if (!match || !verificationToken) {
+    return false;
+  }
+
+  const expected = crypto.createHmac('sha256', verificationToken).update(body).digest();
+  return crypto.timingSafeEqual(Buffer.from(match[1], 'hex'), expected);
+}
+
+/**
+ * Run one Redis command via the Upstash REST API
+ */
+async function redisCommand(command: (string | number)[]): Promise<any> {
+  const response = await fetch(REDIS_URL, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${REDIS_TOKEN}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(command),
+  });
+  if (!response.ok) {
+    throw new Error(`Redis ${command[0]} failed: ${response.status} ${response.statusText}`);
+  }
+  const data: any = await response.json();
+  return data.result;
+}
+
+function eventKey(eventId: string): string {
+  return `notion_webhook:event:${eventId}`;
+}
+
+/**
+ * Claim an event for processing
+ *
+ * @returns false if this event ID was already handled (a redelivery)
+ */
+export async function claimWebhookEvent(eventId: string): Promise<boolean> {
+  if (!REDIS_URL || !REDIS_TOKEN) {
+    throw new Error('Redis credentials not configured');
+  }
+  const result = await redisCommand(['SET', eventKey(eventId), new Date().toISOString(), 'NX', 'EX', EVENT_TTL]);
+  return result === 'OK';
+}
+
+/**
+ * Give up a claim after a processing error, so Notion's retry is handled
+ */
+export async function releaseWebhookEvent(eventId: string): Promise<void> {
+  await redisCommand(['DEL', eventKey(eventId)]);
+}
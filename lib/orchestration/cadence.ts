@@ -0,0 +1,211 @@
+/**
+ * Analysis Cadence
+ *
+ * Decides which Stock Analyses pages the scheduled run picks up, and when
+ * each one is next due. All dates are YYYY-MM-DD in the user's timezone -
+ * the orchestrator passes the user's local "today" and the local date of
+ * the page's Last Auto-Analysis.
+ *
+ * Cadences:
+ * - Daily: every trading day
+ * - Weekly: on the page's Analysis Day (next trading day if that's a holiday)
+ * - Monthly: first trading day of the month
+ * - Before Earnings: N trading days before the next earnings date in the
+ *   user's Stock Events database
+ * - On Big Move: when a quote shows the price moved at least the threshold
+ *   since the last analysis (no fixed schedule)
+ *
+ * A calendar run that was missed (holiday, outage, failed run) is caught up
+ * on the next scheduled run rather than waiting for the following period.
+ */
+
+import { addDays, dayOfWeek, isTradingDay, nextTradingDay, previousTradingDay } from '../shared/market-calendar';
+
+export const ANALYSIS_CADENCES = [
+  'None',
+  'Daily',
+  'Weekly',
+  'Monthly',
+  'Before Earnings',
+  'On Big Move',
+] as const;
+
+export type AnalysisCadence = typeof ANALYSIS_CADENCES[number];
+
+export const ANALYSIS_WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'] as const;
+
+export type AnalysisWeekday = typeof ANALYSIS_WEEKDAYS[number];
+
+/** "Weekly" pages without an Analysis Day */
+const CADENCE_DEFAULT_WEEKDAY: AnalysisWeekday = 'Monday';
+
+/** "On Big Move": % move since the last analysis, unless the page sets Move Threshold (%) */
+const CADENCE_BIG_MOVE_THRESHOLD_PCT = 5;
+
+/** "Before Earnings": trading sessions ahead of the earnings date */
+const CADENCE_EARNINGS_LEAD_TRADING_DAYS = 1;
+
+/**
+ * Cadence settings read from a Stock Analyses page
+ */
+export interface CadenceSettings {
+  cadence: AnalysisCadence;
+  analysisDay: AnalysisWeekday; // Weekly only
+  moveThresholdPct: number; // On Big Move only
+}
+
+/**
+ * Everything needed to decide whether a page is due today
+ */
+export interface CadenceCheckInput {
+  settings: CadenceSettings;
+  today: string; // User's local date
+  lastRun?: string; // Local date of Last Auto-Analysis
+  lastRunFailed?: boolean; // Page was left in Error by the last run
+  earningsDates?: string[]; // Upcoming earnings dates for the ticker (Before Earnings)
+  quote?: { price: number; changesPercentage: number }; // Current quote (On Big Move)
+  lastPrice?: number; // Current Price written by the last analysis (On Big Move)
+}
+
+export interface CadenceDecision {
+  due: boolean;
+  reason: string;
+  nextScheduled: string | null; // Next run if this one happens (due) or the pending one (not due)
+}
+
+/**
+ * Read a page's Analysis Cadence select (unknown or blank → "None")
+ */
+export function parseCadence(value: string | undefined): AnalysisCadence {
+  return (ANALYSIS_CADENCES as readonly string[]).includes(value || '') ? (value as AnalysisCadence) : 'None';
+}
+
+/**
+ * Read a page's cadence properties
+ */
+export function parseCadenceSettings(properties: Record<string, any>): CadenceSettings {
+  const day = properties['Analysis Day']?.select?.name;
+  const threshold = properties['Move Threshold (%)']?.number;
+
+  return {
+    cadence: parseCadence(properties['Analysis Cadence']?.select?.name),
+    analysisDay: (ANALYSIS_WEEKDAYS as readonly string[]).includes(day)
+      ? day
+      : CADENCE_DEFAULT_WEEKDAY,
+    moveThresholdPct: typeof threshold === 'number' && threshold > 0
+      ? threshold
+      : CADENCE_BIG_MOVE_THRESHOLD_PCT,
+  };
+}
+
+/**
+ * First scheduled run strictly after a date
+ *
+ * @returns YYYY-MM-DD, or null when nothing is scheduled (On Big Move,
+ *          Before Earnings with no upcoming earnings, None)
+ */
+export function nextScheduledRun(
+  settings: CadenceSettings,
+  after: string,
+  earningsDates: string[] = []
+): string | null {
+  switch (settings.cadence) {
+    case 'Daily':
+      return nextTradingDay(after);
+
+    case 'Weekly': {
+      const weekday = ANALYSIS_WEEKDAYS.indexOf(settings.analysisDay) + 1; // 1 = Monday
+      let day = addDays(after, 1);
+      while (dayOfWeek(day) !== weekday) {
+        day = addDays(day, 1);
+      }
+      return onOrAfterTradingDay(day);
+    }
+
+    case 'Monthly': {
+      const thisMonth = onOrAfterTradingDay(`${after.slice(0, 7)}-01`);
+      if (thisMonth > after) return thisMonth;
+      const [year, month] = after.split('-').map((part) => parseInt(part, 10));
+      const next = month === 12 ? `${year + 1}-01-01` : `${year}-${String(month + 1).padStart(2, '0')}-01`;
+      return onOrAfterTradingDay(next);
+    }
+
+    case 'Before Earnings': {
+      const targets = earningsDates
+        .map(earningsRunDate)
+        .filter((target) => target > after)
+        .sort();
+      return targets[0] || null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Is a page due for analysis today?
+ */
+export function checkCadence(input: CadenceCheckInput): CadenceDecision {
+  const { settings, today, lastRun } = input;
+  const earningsDates = (input.earningsDates || []).filter((date) => date >= today);
+
+  if (settings.cadence === 'None') {
+    return { due: false, reason: 'no cadence', nextScheduled: null };
+  }
+
+  if (settings.cadence === 'On Big Move') {
+    if (lastRun === today) {
+      return { due: false, reason: 'already analyzed today', nextScheduled: null };
+    }
+    if (!input.quote) {
+      return { due: false, reason: 'no quote', nextScheduled: null };
+    }
+    const move = input.lastPrice && input.lastPrice > 0
+      ? (input.quote.price / input.lastPrice - 1) * 100
+      : input.quote.changesPercentage;
+    const formatted = `${move >= 0 ? '+' : ''}${move.toFixed(1)}%`;
+    return Math.abs(move) >= settings.moveThresholdPct
+      ? { due: true, reason: `moved ${formatted} (threshold ${settings.moveThresholdPct}%)`, nextScheduled: null }
+      : { due: false, reason: `moved ${formatted}`, nextScheduled: null };
+  }
+
+  const afterToday = nextScheduledRun(settings, today, earningsDates);
+
+  // Failed runs still stamp Last Auto-Analysis - retry them on the next run
+  if (input.lastRunFailed && lastRun !== today) {
+    return { due: true, reason: 'retrying failed run', nextScheduled: afterToday };
+  }
+
+  // Never run: treat as last run yesterday, so the first run is the next scheduled one from today
+  const pending = nextScheduledRun(settings, lastRun || addDays(today, -1), earningsDates);
+
+  if (pending && pending <= today) {
+    return {
+      due: true,
+      reason: pending < today ? `catching up run due ${pending}` : 'scheduled today',
+      nextScheduled: afterToday,
+    };
+  }
+
+  return {
+    due: false,
+    reason: pending ? `next run ${pending}` : 'no upcoming earnings',
+    nextScheduled: pending,
+  };
+}
+
+/**
+ * Day a "Before Earnings" page runs for an earnings date
+ */
+function earningsRunDate(earningsDate: string): string {
+  let day = earningsDate;
+  for (let i = 0; i < CADENCE_EARNINGS_LEAD_TRADING_DAYS; i++) {
+    day = previousTradingDay(day);
+  }
+  return day;
+}
+
+function onOrAfterTradingDay(date: string): string {
+  return isTradingDay(date) ? date : nextTradingDay(date);
+}
@@ -0,0 +1,156 @@
+/**
+ * On-Demand Analyses
+ *
+ * Turns a Notion webhook event (a user ticked "Request Analysis" on a
+ * Stock Analyses page) into an item on the on-demand queue, then invokes
+ * the on-demand worker (api/jobs/on-demand-analyses.ts) so the result is
+ * written back within about a minute - no poller involved.
+ *
+ * The event only says which page changed and who changed it, so the page
+ * is read back with its owner's token to confirm the box is ticked and the
+ * page is in their Stock Analyses database. Requests count against the
+ * user's daily analysis limit like /api/analyze.
+ */
+
+import { Client } from '@notionhq/client';
+import { User, decryptToken, getUserByNotionId } from '../core/auth';
+import { log, LogLevel } from '../core/logger';
+import { RateLimiter } from '../core/rate-limiter';
+import { throttledFetch } from '../core/provider-limits';
+import { NotionWebhookEvent, getPersonAuthors } from '../integrations/notion/webhooks';
+import { buildOnDemandItem } from './orchestrator';
+import { enqueueOnDemandItem } from './queue-storage';
+import { invokeWorkers } from './worker-chain';
+
+export const ON_DEMAND_WORKER_PATH = '/api/jobs/on-demand-analyses';
+
+/**
+ * What happened to one webhook event
+ */
+export interface OnDemandRequestResult {
+  status: 'queued' | 'duplicate' | 'rate_limited' | 'ignored';
+  reason?: string; // Why the event was ignored
+  ticker?: string;
+  key?: string; // Queue item key
+  userId?: string;
+}
+
+/**
+ * Queue an analysis for the page behind a webhook event, if its
+ * "Request Analysis" box is ticked
+ *
+ * Events that aren't analysis requests (any other property edit, pages
+ * outside Stock Analyses, our own bot updates) are ignored.
+ */
+export async function enqueueRequestedAnalysis(event: NotionWebhookEvent): Promise<OnDemandRequestResult> {
+  const pageId = event.entity.id;
+  const authors = getPersonAuthors(event);
+  if (authors.length === 0) {
+    return { status: 'ignored', reason: 'No person author' };
+  }
+
+  for (const notionUserId of authors) {
+    const user = await getUserByNotionId(notionUserId);
+    if (!user || user.status !== 'approved' || !user.stockAnalysesDbId) {
+      continue;
+    }
+
+    const accessToken = await decryptToken(user.accessToken);
+    const notion = new Client({ auth: accessToken, notionVersion: '2025-09-03', fetch: throttledFetch('notion', accessToken) });
+    const page = await retrievePage(notion, pageId);
+
+    if (!page || !isInDatabase(page, user.stockAnalysesDbId)) {
+      continue; // Another author's page, or not in Stock Analyses
+    }
+    if (page.properties['Request Analysis']?.checkbox !== true) {
+      return { status: 'ignored', reason: 'Request Analysis not ticked', userId: user.id };
+    }
+
+    return queueForUser(notion, user, accessToken, page);
+  }
+
+  return { status: 'ignored', reason: 'No approved user owns this Stock Analyses page' };
+}
+
+async function queueForUser(
+  notion: Client,
+  user: User,
+  accessToken: string,
+  page: { id: string; properties: Record<string, any> }
+): Promise<OnDemandRequestResult> {
+  const item = buildOnDemandItem(user, accessToken, page);
+  if (!item) {
+    await untickRequest(notion, page.id, 'Request Analysis needs a Ticker - add one and tick the box again.');
+    return { status: 'ignored', reason: 'No ticker', userId: user.id };
+  }
+
+  const rateLimit = await new RateLimiter().checkAndIncrement(user.id, user.timezone);
+  if (!rateLimit.allowed) {
+    log(LogLevel.WARN, 'On-demand analysis rate limited', { userId: user.id, ticker: item.ticker, resetAt: rateLimit.resetAt.toISOString() });
+    await untickRequest(
+      notion,
+      page.id,
+      `Daily analysis limit reached (${rateLimit.total}/day) - resets ${rateLimit.resetAt.toISOString()}. Tick Request Analysis again after that.`
+    );
+    return { status: 'rate_limited', ticker: item.ticker, userId: user.id };
+  }
+
+  const { queueId, key, duplicate } = await enqueueOnDemandItem(item);
+  if (!duplicate) {
+    await untickRequest(notion, page.id);
+  }
+
+  // Also for duplicates - restarts the worker if an earlier one died
+  const invoked = await invokeWorkers(queueId, 1, 1, ON_DEMAND_WORKER_PATH);
+
+  log(LogLevel.INFO, 'On-demand analysis requested', {
+    userId: user.id,
+    ticker: item.ticker,
+    key,
+    duplicate,
+    workerInvoked: invoked > 0,
+  });
+
+  return { status: duplicate ? 'duplicate' : 'queued', ticker: item.ticker, key, userId: user.id };
+}
+
+async function retrievePage(
+  notion: Client,
+  pageId: string
+): Promise<{ id: string; parent: any; properties: Record<string, any> } | null> {
+  try {
+    const page = await notion.pages.retrieve({ page_id: pageId });
+    if (!('properties' in page) || page.in_trash) {
+      return null;
+    }
+    return page as any;
+  } catch (error: any) {
+    // This user's token can't see the page - it belongs to another author
+    if (error.code === 'object_not_found' || error.code === 'unauthorized') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function isInDatabase(page: { parent: any }, databaseId: string): boolean {
+  const parentId: string | undefined = page.parent?.database_id;
+  return !!parentId && parentId.replace(/-/g, '') === databaseId.replace(/-/g, '');
+}
+
+/**
+ * Clear the checkbox so the next tick is a new request (optionally
+ * explaining in Notes why nothing was queued)
+ */
+async function untickRequest(notion: Client, pageId: string, note?: string): Promise<void> {
+  const properties: Record<string, any> = { 'Request Analysis': { checkbox: false } };
+  if (note) {
+    properties.Notes = { rich_text: [{ text: { content: note } }] };
+  }
+
+  try {
+    await notion.pages.update({ page_id: pageId, properties });
+  } catch (error: any) {
+    log(LogLevel.WARN, 'Could not clear Request Analysis', { pageId, error: error.message });
+  }
+}
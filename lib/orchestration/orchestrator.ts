@@ -3,9 +3,9 @@
  *
  * Scalable orchestrator that eliminates redundant API calls by:
  * 1. Collecting all stock requests across all users
- * 2. Deduplicating by ticker
+ * 2. Deduplicating by ticker (and LLM selection, see buildPriorityQueue)
  * 3. Prioritizing by highest subscriber tier
- * 4. Analyzing each ticker once
+ * 4. Analyzing each ticker once per LLM selection
  * 5. Broadcasting results to all subscribers
  *
  * Benefits:
@@ -16,16 +16,33 @@
 
 import { Client } from '@notionhq/client';
 import { User, decryptToken } from '../core/auth';
-import { analyzeStockCore, validateAnalysisComplete, AnalysisResult } from '../domain/stock/analyzer';
+import { analyzeStockCore, validateAnalysisComplete, AnalysisResult, LLMUsage } from '../domain/stock/analyzer';
+import { resolveWeightProfile } from '../domain/analysis/weight-profiles';
+import { WeightProfile } from '../../config/scoring/config';
 import { createNotionClient, AnalysisData } from '../integrations/notion/client';
+import { formatPatternLabel } from '../domain/analysis/chart-patterns';
 import { reportScheduledTaskError } from '../shared/bug-reporter';
 import { getMarketContext, MarketContext } from '../domain/market/index';
-import { createFMPClient } from '../integrations/fmp/client';
+import type { TickerQuote } from '../domain/portfolio';
+import { dispatchAlerts } from '../domain/alerts';
+import { createFMPClient, StockQuote } from '../integrations/fmp/client';
 import { createFREDClient } from '../integrations/fred/client';
 import { setAnalysisError } from '../shared/error-handler';
+import { getCircuitStates } from '../integrations/llm/fallback';
+import {
+  LLMSelection,
+  describeLLMSelection,
+  llmSelectionKey,
+  resolveLLMSelection,
+} from '../integrations/llm/preferences';
+import { BudgetDecision, checkLLMBudget, leastRestrictive } from '../integrations/llm/budget';
+import { recordLLMCost } from '../integrations/llm/cost-ledger';
+import { formatDateInTimezone, validateTimezone } from '../shared/timezone';
+import { getProviderWaitStats, ProviderWaitStats, RateLimitedProvider, throttledFetch } from '../core/provider-limits';
+import { ANALYSIS_CADENCES, AnalysisCadence, checkCadence, parseCadenceSettings } from './cadence';
 
 // Environment configuration
-const ANALYSIS_DELAY_MS = parseInt(process.env.ANALYSIS_DELAY_MS || '8000', 10); // Default: 8 seconds
+const PROCESS_CONCURRENCY = Math.max(1, parseInt(process.env.ORCHESTRATOR_CONCURRENCY || '3', 10)); // Tickers analyzed at once
 const DRY_RUN = process.env.ORCHESTRATOR_DRY_RUN === 'true';
 
 // Tier hierarchy for prioritization
@@ -49,6 +66,12 @@ export interface Subscriber {
   timezone: string;
   stockAnalysesDbId: string;
   stockHistoryDbId: string;
+  weightProfile: WeightProfile; // Resolved from the page's Scoring Profile, then the user's
+  llm: LLMSelection; // Resolved from the page's LLM Provider/Preferred Model, then the user's
+  alertRulesDbId?: string; // User's Alert Rules database, if configured
+  cadence: AnalysisCadence; // Analysis Cadence that made this page due
+  nextScheduled?: string | null; // Next run after this one (undefined: page has no Next Scheduled date property)
+  onDemand?: boolean; // Requested from Notion ("Request Analysis") - leaves the schedule alone
 }
 
 /**
@@ -59,6 +82,16 @@ export interface QueueItem {
   priority: number; // Lower number = higher priority
   subscribers: Subscriber[];
   requestedAt: Date;
+  attempt?: number; // Set by the durable queue (queue-storage.ts) when the item is claimed
+  maxAttempts?: number;
+}
+
+/**
+ * Result of processing one queue item, reported as soon as it finishes
+ */
+export interface ItemOutcome {
+  success: boolean;
+  error?: string;
 }
 
 /**
@@ -75,13 +108,22 @@ export interface OrchestratorMetrics {
   failedBroadcasts: number;
   durationMs: number;
   apiCallsSaved: number; // Calls saved by deduplication
+  prices: Record<string, TickerQuote>; // Latest price per analyzed ticker (portfolio valuation)
+  alertsDelivered: number; // Alert rule events delivered to subscribers
+  llmFallbacks: number; // Analyses served by a fallback LLM provider
+  llmCost: number; // USD across all analyses in this run (server and user keys)
+  llmBudgetDegraded: number; // Analyses run on the cheaper model because subscribers were over budget
+  llmBudgetSkipped: number; // Analyses with no narrative because every subscriber hit the hard cap
+  providerWaits: Partial<Record<RateLimitedProvider, ProviderWaitStats>>; // Rate-limit waits and 429s per upstream
 }
 
 /**
  * Step 1: Collect stock requests from all users
  *
- * Queries each user's Stock Analyses database for stocks with
- * Analysis Cadence = "Daily", groups by ticker.
+ * Queries each user's Stock Analyses database for stocks with an Analysis
+ * Cadence, keeps the ones due today in the user's timezone (see
+ * cadence.ts), and groups them by ticker. Pages that aren't due get their
+ * Next Scheduled date refreshed.
  */
 export async function collectStockRequests(
   users: User[]
@@ -89,6 +131,7 @@ export async function collectStockRequests(
   console.log(`[ORCHESTRATOR] Collecting stock requests from ${users.length} users...`);
 
   const tickerMap = new Map<string, Subscriber[]>();
+  const quoteCache = new Map<string, StockQuote | null>(); // Shared across users - one quote per ticker
 
   for (const user of users) {
     try {
@@ -100,7 +143,7 @@ export async function collectStockRequests(
 
       // Decrypt user's OAuth token
       const userAccessToken = await decryptToken(user.accessToken);
-      const notion = new Client({ auth: userAccessToken, notionVersion: '2025-09-03' });
+      const notion = createThrottledNotion(userAccessToken);
 
       // Get data source ID for API v2025-09-03
       const db = await notion.databases.retrieve({ database_id: user.stockAnalysesDbId });
@@ -121,8 +164,9 @@ export async function collectStockRequests(
         const response = await notion.dataSources.query({
           data_source_id: dataSourceId,
           filter: {
-            property: 'Analysis Cadence',
-            select: { equals: 'Daily' },
+            or: ANALYSIS_CADENCES
+              .filter((cadence) => cadence !== 'None')
+              .map((cadence) => ({ property: 'Analysis Cadence', select: { equals: cadence } })),
           },
           start_cursor: cursor,
         });
@@ -132,26 +176,71 @@ export async function collectStockRequests(
         cursor = response.next_cursor || undefined;
       }
 
-      console.log(`[ORCHESTRATOR]   → User ${user.email}: Query returned ${allResults.length} raw results`);
+      console.log(`[ORCHESTRATOR]   → User ${user.email}: Found ${allResults.length} stocks with a cadence`);
+
+      const timezone = validateTimezone(user.timezone);
+      const today = formatDateInTimezone(new Date(), timezone);
+
+      // Read tickers and cadence settings first - earnings dates and quotes are fetched in bulk
+      const pages = allResults
+        .filter((page) => 'properties' in page)
+        .map((page) => ({
+          page,
+          properties: page.properties as Record<string, any>,
+          ticker: ((page.properties as any).Ticker?.title?.[0]?.text?.content || '').toUpperCase().trim(),
+          settings: parseCadenceSettings(page.properties as Record<string, any>),
+        }));
+
+      const earningsTickers = pages.filter((p) => p.ticker && p.settings.cadence === 'Before Earnings').map((p) => p.ticker);
+      const earningsDates = earningsTickers.length > 0
+        ? await loadEarningsDates(notion, user, today, earningsTickers)
+        : new Map<string, string[]>();
+
+      await loadQuotes(
+        pages.filter((p) => p.ticker && p.settings.cadence === 'On Big Move').map((p) => p.ticker),
+        quoteCache
+      );
 
-      console.log(`[ORCHESTRATOR]   → User ${user.email}: Found ${allResults.length} stocks`);
+      let due = 0;
 
-      // Extract tickers and add to map
-      for (const page of allResults) {
-        if (!('properties' in page)) {
+      for (const { page, properties, ticker, settings } of pages) {
+        if (!ticker) {
+          console.warn(`[ORCHESTRATOR]   → Skipping page ${page.id} (no ticker)`);
           continue;
         }
-        const ticker = (page.properties as any).Ticker?.title?.[0]?.text?.content || '';
 
-        if (!ticker) {
-          console.warn(`[ORCHESTRATOR]   → Skipping page ${page.id} (no ticker)`);
+        const lastAnalysis: string | undefined = properties['Last Auto-Analysis']?.date?.start;
+        const status = properties.Status?.status?.name || 'Unknown';
+        const quote = quoteCache.get(ticker);
+
+        const decision = checkCadence({
+          settings,
+          today,
+          lastRun: lastAnalysis ? formatDateInTimezone(new Date(lastAnalysis), timezone) : undefined,
+          lastRunFailed: status === 'Error',
+          earningsDates: earningsDates.get(ticker),
+          quote: quote || undefined,
+          lastPrice: properties['Current Price']?.number ?? undefined,
+        });
+
+        // Older templates have a display-only formula here - leave those alone
+        const nextScheduledProperty = properties['Next Scheduled'];
+        const canWriteNextScheduled = nextScheduledProperty?.type === 'date';
+
+        if (!decision.due) {
+          console.log(`[ORCHESTRATOR]   → ${ticker} (${settings.cadence}): not due - ${decision.reason}`);
+          const stored = nextScheduledProperty?.date?.start || null;
+          if (canWriteNextScheduled && stored !== decision.nextScheduled && !DRY_RUN) {
+            await writeSchedule(notion, page.id, { nextScheduled: decision.nextScheduled });
+          }
           continue;
         }
 
+        due++;
+        console.log(`[ORCHESTRATOR]   → ${ticker} (${settings.cadence}): due - ${decision.reason}`);
+
         // Log status for debugging stuck stocks
-        const status = (page.properties as any).Status?.status?.name || 'Unknown';
         if (status === 'Analyzing') {
-          const lastAnalysis = (page.properties as any)['Last Auto-Analysis']?.date?.start;
           const isStale = lastAnalysis && (Date.now() - new Date(lastAnalysis).getTime() > 24 * 60 * 60 * 1000);
 
           if (isStale) {
@@ -161,25 +250,19 @@ export async function collectStockRequests(
           }
         }
 
-        const tickerUpper = ticker.toUpperCase().trim();
-
         // Add subscriber to this ticker
-        if (!tickerMap.has(tickerUpper)) {
-          tickerMap.set(tickerUpper, []);
+        if (!tickerMap.has(ticker)) {
+          tickerMap.set(ticker, []);
         }
 
-        tickerMap.get(tickerUpper)!.push({
-          userId: user.id,
-          email: user.email,
-          tier: user.subscriptionTier || 'Free',
-          pageId: page.id,
-          accessToken: userAccessToken,
-          notionUserId: user.notionUserId,
-          timezone: user.timezone || 'America/Los_Angeles',
-          stockAnalysesDbId: user.stockAnalysesDbId!,
-          stockHistoryDbId: user.stockHistoryDbId || '',
+        tickerMap.get(ticker)!.push({
+          ...buildSubscriber(user, userAccessToken, page.id, properties, timezone),
+          cadence: settings.cadence,
+          nextScheduled: canWriteNextScheduled ? decision.nextScheduled : undefined,
         });
       }
+
+      console.log(`[ORCHESTRATOR]   → User ${user.email}: ${due}/${pages.length} stocks due today (${today}, ${timezone})`);
     } catch (error) {
       console.error(`[ORCHESTRATOR]   → Failed to collect from user ${user.email}:`, error);
       // Continue with other users
@@ -190,11 +273,209 @@ export async function collectStockRequests(
   return tickerMap;
 }
 
+/**
+ * Subscriber fields shared by scheduled and on-demand analyses
+ */
+function buildSubscriber(
+  user: User,
+  accessToken: string,
+  pageId: string,
+  properties: Record<string, any>,
+  timezone: string
+): Omit<Subscriber, 'cadence' | 'nextScheduled' | 'onDemand'> {
+  return {
+    userId: user.id,
+    email: user.email,
+    tier: user.subscriptionTier || 'Free',
+    pageId,
+    accessToken,
+    notionUserId: user.notionUserId,
+    timezone,
+    stockAnalysesDbId: user.stockAnalysesDbId!,
+    stockHistoryDbId: user.stockHistoryDbId || '',
+    weightProfile: resolveWeightProfile(
+      properties['Scoring Profile']?.select?.name,
+      user.scoringProfile
+    ),
+    llm: resolveLLMSelection(
+      {
+        provider: properties['LLM Provider']?.select?.name,
+        model: properties['Preferred Model']?.rich_text?.[0]?.plain_text,
+      },
+      user
+    ),
+    alertRulesDbId: user.alertRulesDbId,
+  };
+}
+
+/**
+ * Queue item for one page whose "Request Analysis" box was ticked
+ *
+ * Unlike collectStockRequests there's no cadence check and no
+ * deduplication across users - the page is analyzed now, on its own.
+ *
+ * @param user - Page owner (approved, with a Stock Analyses database)
+ * @param accessToken - The user's decrypted Notion token
+ * @param page - Stock Analyses page as returned by pages.retrieve
+ * @returns The item, or null when the page has no ticker
+ */
+export function buildOnDemandItem(
+  user: User,
+  accessToken: string,
+  page: { id: string; properties: Record<string, any> }
+): QueueItem | null {
+  const ticker = (page.properties.Ticker?.title?.[0]?.text?.content || '').toUpperCase().trim();
+  if (!ticker) {
+    return null;
+  }
+
+  const subscriber: Subscriber = {
+    ...buildSubscriber(user, accessToken, page.id, page.properties, validateTimezone(user.timezone)),
+    cadence: parseCadenceSettings(page.properties).cadence,
+    onDemand: true,
+  };
+
+  return {
+    ticker,
+    priority: TIER_PRIORITY[subscriber.tier] || 99,
+    subscribers: [subscriber],
+    requestedAt: new Date(),
+  };
+}
+
+/**
+ * Upcoming earnings dates per ticker from the user's Stock Events database
+ * ("Before Earnings" cadence). Without the database nothing is due.
+ */
+async function loadEarningsDates(
+  notion: Client,
+  user: User,
+  today: string,
+  tickers: string[]
+): Promise<Map<string, string[]>> {
+  const dates = new Map<string, string[]>();
+
+  if (!user.stockEventsDbId) {
+    console.warn(`[ORCHESTRATOR]   → User ${user.email}: "Before Earnings" stocks but no Stock Events DB configured`);
+    return dates;
+  }
+
+  try {
+    const db = await notion.databases.retrieve({ database_id: user.stockEventsDbId });
+    const dataSourceId = (db as any).data_sources?.[0]?.id;
+    if (!dataSourceId) {
+      console.warn(`[ORCHESTRATOR]   → User ${user.email}: No Stock Events data source found`);
+      return dates;
+    }
+
+    const wanted = new Set(tickers);
+    let hasMore = true;
+    let cursor: string | undefined = undefined;
+
+    while (hasMore) {
+      const response = await notion.dataSources.query({
+        data_source_id: dataSourceId,
+        filter: {
+          and: [
+            { property: 'Event Type', select: { equals: 'Earnings Call' } },
+            { property: 'Event Date', date: { on_or_after: today } },
+          ],
+        },
+        start_cursor: cursor,
+      });
+
+      for (const page of response.results as any[]) {
+        const props = page.properties || {};
+        if (props.Status?.select?.name === 'Cancelled') continue;
+
+        const ticker = props.Ticker?.rich_text?.[0]?.plain_text?.toUpperCase().trim();
+        const eventDate = props['Event Date']?.date?.start;
+        if (!ticker || !eventDate || !wanted.has(ticker)) continue;
+
+        dates.set(ticker, [...(dates.get(ticker) || []), eventDate.split('T')[0]]);
+      }
+
+      hasMore = response.has_more;
+      cursor = response.next_cursor || undefined;
+    }
+  } catch (error) {
+    console.warn(
+      `[ORCHESTRATOR]   → User ${user.email}: Could not load earnings dates:`,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  return dates;
+}
+
+/**
+ * Fetch quotes for "On Big Move" tickers not already in the cache (one batch call)
+ */
+async function loadQuotes(tickers: string[], cache: Map<string, StockQuote | null>): Promise<void> {
+  const missing = [...new Set(tickers)].filter((ticker) => !cache.has(ticker));
+  if (missing.length === 0) return;
+
+  const fmpApiKey = process.env.FMP_API_KEY;
+  try {
+    if (!fmpApiKey) {
+      throw new Error('FMP_API_KEY not set');
+    }
+    const quotes = await createFMPClient(fmpApiKey).getQuotes(missing);
+    for (const quote of quotes) {
+      cache.set(quote.symbol.toUpperCase(), quote);
+    }
+  } catch (error) {
+    console.warn(
+      `[ORCHESTRATOR]   → Quote check failed for ${missing.join(', ')}:`,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  // No quote → not due this run
+  for (const ticker of missing) {
+    if (!cache.has(ticker)) cache.set(ticker, null);
+  }
+}
+
+/**
+ * Write schedule properties to a Stock Analyses page
+ *
+ * Pages without the properties (or with the old Next Scheduled formula)
+ * reject the update with validation_error; those are left as they are.
+ */
+async function writeSchedule(
+  notion: Client,
+  pageId: string,
+  schedule: { lastAutoAnalysis?: Date; nextScheduled?: string | null }
+): Promise<void> {
+  const properties: Record<string, any> = {};
+  if (schedule.lastAutoAnalysis) {
+    properties['Last Auto-Analysis'] = { date: { start: schedule.lastAutoAnalysis.toISOString() } };
+  }
+  if (schedule.nextScheduled !== undefined) {
+    properties['Next Scheduled'] = { date: schedule.nextScheduled ? { start: schedule.nextScheduled } : null };
+  }
+
+  try {
+    await notion.pages.update({ page_id: pageId, properties });
+  } catch (error: any) {
+    if (error.code !== 'validation_error') {
+      console.warn(`[ORCHESTRATOR]      ⚠️  Could not update schedule: ${error.message}`);
+    }
+  }
+}
+
 /**
  * Step 2: Build prioritized queue
  *
  * For each ticker, determine priority based on highest tier among subscribers.
  * Sort queue by priority (Pro → Analyst → Starter → Free).
+ *
+ * Subscribers who resolved to different LLMs (or their own API keys) or
+ * different weight profiles get separate queue items for the same ticker -
+ * one analysis per LLM choice and profile. A user's key only ever pays for
+ * that user's analyses, and the narrative quotes the composite and
+ * recommendation written to the same page.
  */
 export function buildPriorityQueue(
   tickerMap: Map<string, Subscriber[]>
@@ -203,26 +484,35 @@ export function buildPriorityQueue(
 
   const queue: QueueItem[] = [];
 
-  for (const [ticker, subscribers] of tickerMap.entries()) {
-    // Find highest tier (lowest priority number)
-    const highestPriority = Math.min(
-      ...subscribers.map(s => TIER_PRIORITY[s.tier] || 99)
-    );
+  for (const [ticker, tickerSubscribers] of tickerMap.entries()) {
+    const groups = new Map<string, Subscriber[]>();
+    for (const subscriber of tickerSubscribers) {
+      const key = `${llmSelectionKey(subscriber.llm)}|${subscriber.weightProfile.name}`;
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(subscriber);
+    }
 
-    queue.push({
-      ticker,
-      priority: highestPriority,
-      subscribers,
-      requestedAt: new Date(),
-    });
+    for (const subscribers of groups.values()) {
+      // Find highest tier (lowest priority number)
+      const highestPriority = Math.min(
+        ...subscribers.map(s => TIER_PRIORITY[s.tier] || 99)
+      );
+
+      queue.push({
+        ticker,
+        priority: highestPriority,
+        subscribers,
+        requestedAt: new Date(),
+      });
 
-    const tierName = Object.keys(TIER_PRIORITY).find(
-      t => TIER_PRIORITY[t] === highestPriority
-    ) || 'Unknown';
+      const tierName = Object.keys(TIER_PRIORITY).find(
+        t => TIER_PRIORITY[t] === highestPriority
+      ) || 'Unknown';
 
-    console.log(
-      `[ORCHESTRATOR]   → ${ticker}: ${subscribers.length} subscribers, priority=${tierName}`
-    );
+      console.log(
+        `[ORCHESTRATOR]   → ${ticker}: ${subscribers.length} subscribers, priority=${tierName}, llm=${describeLLMSelection(subscribers[0].llm)}, profile=${subscribers[0].weightProfile.name}`
+      );
+    }
   }
 
   // Sort by priority (ascending - lower number = higher priority)
@@ -239,23 +529,32 @@ export function buildPriorityQueue(
  * 1. Analyze once (with retry on 503)
  * 2. Validate completeness
  * 3. Broadcast to all subscribers (parallel with Promise.allSettled)
- * 4. Delay before next ticker
+ *
+ * Up to ORCHESTRATOR_CONCURRENCY tickers run at once. There is no fixed
+ * delay between them - FMP, FRED, Notion and LLM calls each wait for their
+ * provider's token bucket (core/provider-limits.ts), and the time spent
+ * waiting is reported per provider in metrics.providerWaits.
  *
  * Supports chunked processing:
  * - startIndex: Start processing from this index (default: 0)
  * - maxItems: Process at most this many items (default: all)
+ * - onItemDone: Called after each item (the cron persists per-item state)
+ *
+ * A failed item that the queue will retry (attempt < maxAttempts) keeps its
+ * pages in "Analyzing" instead of marking them Error.
  */
 export async function processQueue(
   queue: QueueItem[],
   marketContext: MarketContext | null = null,
   startIndex: number = 0,
-  maxItems: number = Number.MAX_SAFE_INTEGER
+  maxItems: number = Number.MAX_SAFE_INTEGER,
+  onItemDone?: (item: QueueItem, outcome: ItemOutcome) => Promise<void>
 ): Promise<OrchestratorMetrics> {
   const endIndex = Math.min(startIndex + maxItems, queue.length);
   const chunkSize = endIndex - startIndex;
 
   console.log(`[ORCHESTRATOR] Processing queue chunk: items ${startIndex + 1}-${endIndex} of ${queue.length} (${chunkSize} items)`);
-  console.log(`[ORCHESTRATOR] Rate limit: ${ANALYSIS_DELAY_MS}ms delay between tickers`);
+  console.log(`[ORCHESTRATOR] Concurrency: ${PROCESS_CONCURRENCY} tickers at once (provider rate limits apply)`);
   console.log(`[ORCHESTRATOR] Dry run mode: ${DRY_RUN ? 'ENABLED' : 'DISABLED'}`);
 
   const startTime = Date.now();
@@ -270,149 +569,226 @@ export async function processQueue(
     failedBroadcasts: 0,
     durationMs: 0,
     apiCallsSaved: 0,
+    prices: {},
+    alertsDelivered: 0,
+    llmFallbacks: 0,
+    llmCost: 0,
+    llmBudgetDegraded: 0,
+    llmBudgetSkipped: 0,
+    providerWaits: {},
   };
 
-  for (let i = startIndex; i < endIndex; i++) {
-    const item = queue[i];
-    const isLastItem = i === endIndex - 1;
+  // Step 3: Analyze up to PROCESS_CONCURRENCY tickers at once - each upstream
+  // call waits for its provider's rate limit instead of a fixed delay
+  const waitsBefore = getProviderWaitStats();
+  let next = startIndex;
+  const runWorker = async (): Promise<void> => {
+    while (next < endIndex) {
+      const index = next++;
+      await processItem(queue[index], `${index + 1}/${queue.length}`, marketContext, metrics, onItemDone);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(PROCESS_CONCURRENCY, chunkSize) }, runWorker));
+  metrics.providerWaits = diffProviderWaits(waitsBefore, getProviderWaitStats());
 
-    console.log(`\n[ORCHESTRATOR] [${i + 1}/${queue.length}] Processing ${item.ticker} (${item.subscribers.length} subscribers)...`);
+  metrics.durationMs = Date.now() - startTime;
 
-    if (DRY_RUN) {
-      // Dry run - simulate without actual analysis
-      console.log(`[ORCHESTRATOR]   → [DRY RUN] Would analyze ${item.ticker} for:`);
-      for (const sub of item.subscribers) {
-        console.log(`[ORCHESTRATOR]      • ${sub.email} (${sub.tier})`);
-      }
-      metrics.analyzed++;
-      metrics.apiCallsSaved += (item.subscribers.length - 1) * 17; // 17 API calls per analysis
-      continue;
+  console.log(`\n[ORCHESTRATOR] ✓ Queue chunk processing complete`);
+  console.log(`[ORCHESTRATOR]   Chunk: items ${startIndex + 1}-${endIndex} of ${metrics.totalTickers}`);
+  console.log(`[ORCHESTRATOR]   Analyzed: ${metrics.analyzed}`);
+  console.log(`[ORCHESTRATOR]   Failed: ${metrics.failed}`);
+  console.log(`[ORCHESTRATOR]   Broadcasts: ${metrics.successfulBroadcasts}/${metrics.totalBroadcasts} succeeded`);
+  console.log(`[ORCHESTRATOR]   Alerts delivered: ${metrics.alertsDelivered}`);
+  console.log(`[ORCHESTRATOR]   LLM fallbacks: ${metrics.llmFallbacks}`);
+  console.log(`[ORCHESTRATOR]   LLM cost: $${metrics.llmCost.toFixed(4)} (budget: ${metrics.llmBudgetDegraded} degraded, ${metrics.llmBudgetSkipped} skipped)`);
+  for (const circuit of getCircuitStates().filter((c) => c.open)) {
+    console.warn(`[ORCHESTRATOR]   LLM circuit open: ${circuit.provider} (${circuit.lastErrorClass}) until ${circuit.openUntil}`);
+  }
+  for (const [provider, waits] of Object.entries(metrics.providerWaits)) {
+    console.log(`[ORCHESTRATOR]   ${provider}: ${waits.requests} requests, waited ${(waits.waitMs / 1000).toFixed(1)}s${waits.rateLimited ? `, ${waits.rateLimited} × 429` : ''}`);
+  }
+  console.log(`[ORCHESTRATOR]   API calls saved: ${metrics.apiCallsSaved}`);
+  console.log(`[ORCHESTRATOR]   Duration: ${(metrics.durationMs / 1000).toFixed(1)}s`);
+
+  return metrics;
+}
+
+/**
+ * Step 3 for one ticker: analyze, broadcast, archive, alert
+ * Runs concurrently with other items - metrics are only ever incremented
+ */
+async function processItem(
+  item: QueueItem,
+  position: string,
+  marketContext: MarketContext | null,
+  metrics: OrchestratorMetrics,
+  onItemDone?: (item: QueueItem, outcome: ItemOutcome) => Promise<void>
+): Promise<void> {
+  console.log(`\n[ORCHESTRATOR] [${position}] Processing ${item.ticker} (${item.subscribers.length} subscribers)...`);
+
+  if (DRY_RUN) {
+    // Dry run - simulate without actual analysis
+    console.log(`[ORCHESTRATOR]   → [DRY RUN] Would analyze ${item.ticker} for:`);
+    for (const sub of item.subscribers) {
+      console.log(`[ORCHESTRATOR]      • ${sub.email} (${sub.tier})`);
     }
+    metrics.analyzed++;
+    metrics.apiCallsSaved += (item.subscribers.length - 1) * 17; // 17 API calls per analysis
+    await onItemDone?.(item, { success: true });
+    return;
+  }
+
+  // Set Status to "Analyzing" for all subscribers before analysis starts
+  await setAnalyzingStatus(item.subscribers);
 
-    // Set Status to "Analyzing" for all subscribers before analysis starts
-    await setAnalyzingStatus(item.subscribers);
+  // Step 3a: Analyze stock once WITH market context
+  const budget = await checkItemBudget(item);
+  const analysisResult = await analyzeWithRetry(item, 3, marketContext, budget);
 
-    // Step 3a: Analyze stock once WITH market context
-    const analysisResult = await analyzeWithRetry(item, 3, marketContext);
+  // Step 3b: Validate completeness
+  const failure = !analysisResult.success
+    ? analysisResult.error || 'Analysis failed'
+    : !validateAnalysisComplete(analysisResult)
+      ? 'Analysis incomplete - missing required fields'
+      : null;
 
-    if (!analysisResult.success) {
-      console.error(`[ORCHESTRATOR]   → ✗ Analysis failed: ${analysisResult.error}`);
-      metrics.failed++;
+  if (failure) {
+    console.error(`[ORCHESTRATOR]   → ✗ ${item.ticker}: ${failure}`);
+    metrics.failed++;
 
+    if ((item.attempt ?? 0) < (item.maxAttempts ?? 0)) {
+      console.warn(`[ORCHESTRATOR]   → Attempt ${item.attempt}/${item.maxAttempts} - will be retried`);
+    } else {
       // Mark all subscribers' pages with error
-      await broadcastError(item.subscribers, analysisResult.error || 'Analysis failed', item.ticker);
-      continue;
+      await broadcastError(item.subscribers, failure, item.ticker);
     }
+    await onItemDone?.(item, { success: false, error: failure });
+    return;
+  }
 
-    // Step 3b: Validate completeness
-    if (!validateAnalysisComplete(analysisResult)) {
-      console.error(`[ORCHESTRATOR]   → ✗ Analysis incomplete (missing required fields)`);
-      metrics.failed++;
+  console.log(`[ORCHESTRATOR]   → ✓ ${item.ticker}: Analysis complete (composite: ${analysisResult.scores.composite}/5.0)`);
+  metrics.analyzed++;
+  if (analysisResult.llmAnalysis.fallbackFrom) {
+    metrics.llmFallbacks++;
+    console.warn(`[ORCHESTRATOR]   → LLM fallback: served by ${analysisResult.llmAnalysis.modelUsed} (failed: ${analysisResult.llmAnalysis.fallbackFrom.join(', ')})`);
+  }
+  if (analysisResult.llmAnalysis.budgetAction === 'degrade') metrics.llmBudgetDegraded++;
+  if (analysisResult.llmAnalysis.budgetAction === 'skip') metrics.llmBudgetSkipped++;
+  metrics.llmCost += analysisResult.llmAnalysis.cost;
+
+  if (analysisResult.technical.current_price > 0) {
+    metrics.prices[item.ticker] = {
+      price: analysisResult.technical.current_price,
+      sector: analysisResult.sector,
+      asOf: new Date().toISOString(),
+    };
+  }
 
-      await broadcastError(item.subscribers, 'Analysis incomplete - missing required fields', item.ticker);
-      continue;
-    }
+  // Step 3c: Broadcast to all subscribers (parallel with isolation)
+  const broadcastResults = await broadcastToSubscribers(item.subscribers, analysisResult);
+
+  const successfulCount = broadcastResults.filter(r => r.status === 'fulfilled').length;
+  const failedCount = broadcastResults.filter(r => r.status === 'rejected').length;
+
+  metrics.totalBroadcasts += broadcastResults.length;
+  metrics.successfulBroadcasts += successfulCount;
+  metrics.failedBroadcasts += failedCount;
+
+  // Calculate API calls saved (N subscribers - 1 analysis = N-1 saved)
+  // Uses the calls this analysis actually made - the market data store already skips most FMP calls
+  metrics.apiCallsSaved += (item.subscribers.length - 1) * analysisResult.apiCalls.total;
+
+  // Step 3d: Create Stock History entry for EACH subscriber who had successful broadcast
+  // This ensures all users tracking the same ticker get their own history entry
+  if (successfulCount > 0) {
+    // CRITICAL FIX: Deduplicate subscribers by userId to prevent duplicate Stock History entries
+    // If a user has multiple Stock Analyses pages for the same ticker (both due today),
+    // they would appear multiple times in item.subscribers, causing duplicate history entries.
+    // We want ONE Stock History entry per USER per TICKER per DAY, not one per page.
+    const uniqueSubscribers = new Map<string, Subscriber>();
+
+    item.subscribers.forEach((subscriber, index) => {
+      // Only include subscribers with successful broadcasts
+      const broadcastResult = broadcastResults[index];
+      if (broadcastResult.status === 'fulfilled') {
+        // Use userId as key to deduplicate (first occurrence wins)
+        if (!uniqueSubscribers.has(subscriber.userId)) {
+          uniqueSubscribers.set(subscriber.userId, subscriber);
+        }
+      }
+    });
 
-    console.log(`[ORCHESTRATOR]   → ✓ Analysis complete (composite: ${analysisResult.scores.composite}/5.0)`);
-    metrics.analyzed++;
+    const uniqueCount = uniqueSubscribers.size;
+    const skippedDuplicates = item.subscribers.filter((_, i) => broadcastResults[i].status === 'fulfilled').length - uniqueCount;
 
-    // Step 3c: Broadcast to all subscribers (parallel with isolation)
-    const broadcastResults = await broadcastToSubscribers(item.subscribers, analysisResult);
-
-    const successfulCount = broadcastResults.filter(r => r.status === 'fulfilled').length;
-    const failedCount = broadcastResults.filter(r => r.status === 'rejected').length;
-
-    metrics.totalBroadcasts += broadcastResults.length;
-    metrics.successfulBroadcasts += successfulCount;
-    metrics.failedBroadcasts += failedCount;
-
-    // Calculate API calls saved (N subscribers - 1 analysis = N-1 saved)
-    metrics.apiCallsSaved += (item.subscribers.length - 1) * 17;
-
-    // Step 3d: Create Stock History entry for EACH subscriber who had successful broadcast
-    // This ensures all users tracking the same ticker get their own history entry
-    if (successfulCount > 0) {
-      // CRITICAL FIX: Deduplicate subscribers by userId to prevent duplicate Stock History entries
-      // If a user has multiple Stock Analyses pages for the same ticker (both set to "Daily"),
-      // they would appear multiple times in item.subscribers, causing duplicate history entries.
-      // We want ONE Stock History entry per USER per TICKER per DAY, not one per page.
-      const uniqueSubscribers = new Map<string, Subscriber>();
-
-      item.subscribers.forEach((subscriber, index) => {
-        // Only include subscribers with successful broadcasts
-        const broadcastResult = broadcastResults[index];
-        if (broadcastResult.status === 'fulfilled') {
-          // Use userId as key to deduplicate (first occurrence wins)
-          if (!uniqueSubscribers.has(subscriber.userId)) {
-            uniqueSubscribers.set(subscriber.userId, subscriber);
-          }
-        }
-      });
+    console.log(`[ORCHESTRATOR]   → Creating Stock History for ${uniqueCount} unique users...`);
+    if (skippedDuplicates > 0) {
+      console.log(`[ORCHESTRATOR]      ℹ️  Skipped ${skippedDuplicates} duplicate entries (same user, multiple pages)`);
+    }
 
-      const uniqueCount = uniqueSubscribers.size;
-      const skippedDuplicates = item.subscribers.filter((_, i) => broadcastResults[i].status === 'fulfilled').length - uniqueCount;
+    // Create history entry for each unique subscriber in parallel
+    const historyPromises = Array.from(uniqueSubscribers.values()).map(async (subscriber) => {
+      try {
+        const notionClient = createNotionClient({
+          apiKey: subscriber.accessToken,
+          stockAnalysesDbId: subscriber.stockAnalysesDbId,
+          stockHistoryDbId: subscriber.stockHistoryDbId,
+          userId: subscriber.notionUserId,
+          timezone: subscriber.timezone,
+        });
 
-      console.log(`[ORCHESTRATOR]   → Creating Stock History for ${uniqueCount} unique users...`);
-      if (skippedDuplicates > 0) {
-        console.log(`[ORCHESTRATOR]      ℹ️  Skipped ${skippedDuplicates} duplicate entries (same user, multiple pages)`);
-      }
+        // Archive to Stock History with market regime
+        const currentRegime = marketContext?.regime;
+        const historyPageId = await notionClient.archiveToHistory(
+          subscriber.pageId,
+          currentRegime,
+          analysisResult.scores
+        );
 
-      // Create history entry for each unique subscriber in parallel
-      const historyPromises = Array.from(uniqueSubscribers.values()).map(async (subscriber) => {
-        try {
-          const notionClient = createNotionClient({
-            apiKey: subscriber.accessToken,
-            stockAnalysesDbId: subscriber.stockAnalysesDbId,
-            stockHistoryDbId: subscriber.stockHistoryDbId,
-            userId: subscriber.notionUserId,
-            timezone: subscriber.timezone,
-          });
-
-          // Archive to Stock History with market regime
-          const currentRegime = marketContext?.regime;
-          const historyPageId = await notionClient.archiveToHistory(
-            subscriber.pageId,
-            currentRegime
-          );
-
-          if (historyPageId) {
-            console.log(`[ORCHESTRATOR]      ✓ ${subscriber.email}: History created (${historyPageId.substring(0, 8)}...)`);
-            return { email: subscriber.email, success: true, historyPageId };
-          } else {
-            console.warn(`[ORCHESTRATOR]      ⚠️  ${subscriber.email}: History creation returned null`);
-            return { email: subscriber.email, success: false, reason: 'returned_null' };
-          }
-        } catch (error) {
-          console.error(`[ORCHESTRATOR]      ✗ ${subscriber.email}: Failed to create history:`, error);
-          return { email: subscriber.email, success: false, reason: error instanceof Error ? error.message : String(error) };
+        if (historyPageId) {
+          console.log(`[ORCHESTRATOR]      ✓ ${subscriber.email}: History created (${historyPageId.substring(0, 8)}...)`);
+          return { email: subscriber.email, success: true, historyPageId };
+        } else {
+          console.warn(`[ORCHESTRATOR]      ⚠️  ${subscriber.email}: History creation returned null`);
+          return { email: subscriber.email, success: false, reason: 'returned_null' };
         }
-      });
+      } catch (error) {
+        console.error(`[ORCHESTRATOR]      ✗ ${subscriber.email}: Failed to create history:`, error);
+        return { email: subscriber.email, success: false, reason: error instanceof Error ? error.message : String(error) };
+      }
+    });
 
-      // Wait for all history creation attempts
-      const historyResults = await Promise.allSettled(historyPromises);
-      const historySuccessCount = historyResults.filter(r => r.status === 'fulfilled' && r.value.success).length;
+    // Wait for all history creation attempts
+    const historyResults = await Promise.allSettled(historyPromises);
+    const historySuccessCount = historyResults.filter(r => r.status === 'fulfilled' && r.value.success).length;
 
-      console.log(`[ORCHESTRATOR]   → Stock History: ${historySuccessCount}/${uniqueCount} unique users created successfully`);
-    }
+    console.log(`[ORCHESTRATOR]   → Stock History: ${historySuccessCount}/${uniqueCount} unique users created successfully`);
 
-    // Step 3e: Delay before next ticker (except last)
-    if (!isLastItem && ANALYSIS_DELAY_MS > 0) {
-      console.log(`[ORCHESTRATOR]   → Waiting ${ANALYSIS_DELAY_MS}ms before next ticker...`);
-      await delay(ANALYSIS_DELAY_MS);
-    }
+    // Step 3e: Evaluate each subscriber's alert rules against this result
+    metrics.alertsDelivered += await dispatchSubscriberAlerts(Array.from(uniqueSubscribers.values()), analysisResult);
   }
 
-  metrics.durationMs = Date.now() - startTime;
-
-  console.log(`\n[ORCHESTRATOR] ✓ Queue chunk processing complete`);
-  console.log(`[ORCHESTRATOR]   Chunk: items ${startIndex + 1}-${endIndex} of ${metrics.totalTickers}`);
-  console.log(`[ORCHESTRATOR]   Analyzed: ${metrics.analyzed}`);
-  console.log(`[ORCHESTRATOR]   Failed: ${metrics.failed}`);
-  console.log(`[ORCHESTRATOR]   Broadcasts: ${metrics.successfulBroadcasts}/${metrics.totalBroadcasts} succeeded`);
-  console.log(`[ORCHESTRATOR]   API calls saved: ${metrics.apiCallsSaved}`);
-  console.log(`[ORCHESTRATOR]   Duration: ${(metrics.durationMs / 1000).toFixed(1)}s`);
+  await onItemDone?.(item, { success: true });
+}
 
-  return metrics;
+/**
+ * Waits and 429s during a run (difference of two snapshots)
+ */
+function diffProviderWaits(
+  before: OrchestratorMetrics['providerWaits'],
+  after: OrchestratorMetrics['providerWaits']
+): OrchestratorMetrics['providerWaits'] {
+  const waits: OrchestratorMetrics['providerWaits'] = {};
+  for (const [provider, stats] of Object.entries(after) as Array<[RateLimitedProvider, ProviderWaitStats]>) {
+    const previous = before[provider] || { requests: 0, waitMs: 0, rateLimited: 0 };
+    if (stats.requests === previous.requests && stats.rateLimited === previous.rateLimited) continue;
+    waits[provider] = {
+      requests: stats.requests - previous.requests,
+      waitMs: stats.waitMs - previous.waitMs,
+      rateLimited: stats.rateLimited - previous.rateLimited,
+    };
+  }
+  return waits;
 }
 
 /**
@@ -421,7 +797,8 @@ export async function processQueue(
 async function analyzeWithRetry(
   item: QueueItem,
   maxRetries: number = 3,
-  marketContext: MarketContext | null = null
+  marketContext: MarketContext | null = null,
+  budget?: BudgetDecision
 ): Promise<AnalysisResult> {
   const backoffDelays = [2000, 4000, 8000]; // 2s, 4s, 8s
 
@@ -438,6 +815,10 @@ async function analyzeWithRetry(
         marketContext, // Pass market context to stock analysis
         stockAnalysesDbId: firstSubscriber.stockAnalysesDbId, // v1.0.9: Enable historical context
         stockHistoryDbId: firstSubscriber.stockHistoryDbId, // v1.0.9: Enable historical context
+        weightProfile: firstSubscriber.weightProfile,
+        llm: firstSubscriber.llm, // Same for every subscriber in the item
+        budget,
+        onLLMUsage: (usage) => recordSharedLLMCost(item, usage), // Booked per call, even for attempts that fail later
       });
 
       // If analysis succeeded or failed with non-retryable error, return
@@ -545,6 +926,52 @@ function extractRetryAfter(error: string | undefined): number | null {
   return null;
 }
 
+/**
+ * Daily LLM budget for a shared analysis - the least restricted subscriber
+ * decides, so one user running out doesn't cost the others their narrative
+ */
+async function checkItemBudget(item: QueueItem): Promise<BudgetDecision | undefined> {
+  const users = uniqueByUser(item.subscribers);
+  const decisions = await Promise.all(
+    users.map((subscriber) => checkLLMBudget(subscriber.userId, subscriber.tier, subscriber.llm))
+  );
+
+  const decision = leastRestrictive(decisions);
+  if (decision && decision.action !== 'full') {
+    console.warn(`[ORCHESTRATOR]   → LLM budget exhausted for all ${users.length} subscribers - ${decision.action}`);
+  }
+  return decision;
+}
+
+/**
+ * Charge one LLM call of an analysis to its subscribers, split evenly by user
+ */
+async function recordSharedLLMCost(item: QueueItem, usage: LLMUsage): Promise<void> {
+  const users = uniqueByUser(item.subscribers);
+  const share = 1 / users.length;
+  await Promise.all(
+    users.map((subscriber) =>
+      recordLLMCost({
+        ...usage,
+        userId: subscriber.userId,
+        ticker: item.ticker,
+        inputTokens: Math.round(usage.inputTokens * share),
+        outputTokens: Math.round(usage.outputTokens * share),
+        cost: usage.cost * share,
+        share,
+      })
+    )
+  );
+}
+
+function uniqueByUser(subscribers: Subscriber[]): Subscriber[] {
+  const byUser = new Map<string, Subscriber>();
+  for (const subscriber of subscribers) {
+    if (!byUser.has(subscriber.userId)) byUser.set(subscriber.userId, subscriber);
+  }
+  return Array.from(byUser.values());
+}
+
 /**
  * Broadcast analysis result to all subscribers (parallel with isolation)
  */
@@ -579,6 +1006,53 @@ async function broadcastToSubscribers(
   return results;
 }
 
+/**
+ * Run alert rules for subscribers that received this analysis
+ *
+ * Deltas come from the history of the subscriber the ticker was analyzed
+ * for; composite and recommendation use each subscriber's own weighting.
+ *
+ * @returns Number of alerts delivered
+ */
+async function dispatchSubscriberAlerts(
+  subscribers: Subscriber[],
+  analysisResult: AnalysisResult
+): Promise<number> {
+  const withRules = subscribers.filter((s) => s.alertRulesDbId);
+  if (withRules.length === 0) return 0;
+
+  const results = await Promise.all(withRules.map((subscriber) => {
+    const scores = analysisResult.scores;
+    return dispatchAlerts(
+      {
+        userId: subscriber.userId,
+        email: subscriber.email,
+        accessToken: subscriber.accessToken,
+        alertRulesDbId: subscriber.alertRulesDbId!,
+      },
+      [{
+        ticker: analysisResult.ticker,
+        date: new Date().toISOString().split('T')[0],
+        pageId: subscriber.pageId,
+        companyName: analysisResult.fundamental.company_name,
+        composite: scores.composite,
+        recommendation: scores.recommendation,
+        rsi: analysisResult.technical.rsi,
+        price: analysisResult.technical.current_price,
+        week52High: analysisResult.technical.week_52_high,
+        week52Low: analysisResult.technical.week_52_low,
+        deltas: analysisResult.deltas,
+      }]
+    );
+  }));
+
+  const delivered = results.reduce((sum, r) => sum + r.delivered, 0);
+  if (delivered > 0) {
+    console.log(`[ORCHESTRATOR]   → Alerts: ${delivered} delivered`);
+  }
+  return delivered;
+}
+
 /**
  * Broadcast to single user with retry
  */
@@ -607,6 +1081,16 @@ async function broadcastToUser(
         fundamental: analysisResult.fundamental,
         macro: analysisResult.macro,
         scores: analysisResult.scores,
+        pattern: analysisResult.patterns ? {
+          score: analysisResult.patterns.score,
+          signal: analysisResult.patterns.signal,
+          detected: analysisResult.patterns.patterns.map(formatPatternLabel),
+          expectedMove: analysisResult.patterns.expectedMove,
+          daysToBreakout: analysisResult.patterns.daysToBreakout,
+        } : undefined,
+        tradePlan: analysisResult.tradePlan,
+        llmModel: analysisResult.llmAnalysis.modelUsed,
+        promptVersion: analysisResult.llmAnalysis.promptVersion || '',
         apiCalls: analysisResult.apiCalls,
       };
 
@@ -621,7 +1105,7 @@ async function broadcastToUser(
       }
 
       // Set Status to "Complete" since analysis is done
-      const notion = new Client({ auth: subscriber.accessToken, notionVersion: '2025-09-03' });
+      const notion = createThrottledNotion(subscriber.accessToken);
       try {
         await notion.pages.update({
           page_id: subscriber.pageId,
@@ -636,6 +1120,14 @@ async function broadcastToUser(
         }
       }
 
+      // Separate update - a page missing either property shouldn't lose its Status
+      if (!subscriber.onDemand) {
+        await writeSchedule(notion, subscriber.pageId, {
+          lastAutoAnalysis: new Date(),
+          nextScheduled: subscriber.nextScheduled,
+        });
+      }
+
       // Update content with LLM analysis
       // TODO: Implement full content write with historical context
 
@@ -655,7 +1147,7 @@ async function broadcastToUser(
         );
 
         // Use centralized error handler to mark error state
-        const notion = new Client({ auth: subscriber.accessToken, notionVersion: '2025-09-03' });
+        const notion = createThrottledNotion(subscriber.accessToken);
         await setAnalysisError(
           notion,
           subscriber.pageId,
@@ -687,7 +1179,7 @@ async function broadcastToUser(
 async function setAnalyzingStatus(subscribers: Subscriber[]): Promise<void> {
   const promises = subscribers.map(async subscriber => {
     try {
-      const notion = new Client({ auth: subscriber.accessToken, notionVersion: '2025-09-03' });
+      const notion = createThrottledNotion(subscriber.accessToken);
 
       await notion.pages.update({
         page_id: subscriber.pageId,
@@ -717,7 +1209,7 @@ async function broadcastError(
 
   const errorPromises = subscribers.map(async subscriber => {
     try {
-      const notion = new Client({ auth: subscriber.accessToken, notionVersion: '2025-09-03' });
+      const notion = createThrottledNotion(subscriber.accessToken);
 
       // Use centralized error handler to ensure consistent error state
       await setAnalysisError(
@@ -743,6 +1235,14 @@ async function broadcastError(
   await Promise.allSettled(errorPromises);
 }
 
+/**
+ * Notion client that waits for the token's 3 req/s limit, shared with the
+ * other analyses running concurrently for the same user
+ */
+function createThrottledNotion(accessToken: string): Client {
+  return new Client({ auth: accessToken, notionVersion: '2025-09-03', fetch: throttledFetch('notion', accessToken) });
+}
+
 /**
  * Delay helper
  */
@@ -756,7 +1256,7 @@ function delay(ms: number): Promise<void> {
  * Fetches market context once per orchestrator run and caches for 1 hour.
  * This provides regime awareness for all stock analyses.
  */
-async function getOrFetchMarketContext(): Promise<MarketContext | null> {
+export async function getOrFetchMarketContext(): Promise<MarketContext | null> {
   try {
     const fmpApiKey = process.env.FMP_API_KEY || '';
     const fredApiKey = process.env.FRED_API_KEY || '';
@@ -826,6 +1326,13 @@ export async function runOrchestrator(
       failedBroadcasts: 0,
       durationMs: 0,
       apiCallsSaved: 0,
+      prices: {},
+      alertsDelivered: 0,
+      llmFallbacks: 0,
+      llmCost: 0,
+      llmBudgetDegraded: 0,
+      llmBudgetSkipped: 0,
+      providerWaits: {},
     };
   }
 
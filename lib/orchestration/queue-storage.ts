@@ -1,16 +1,34 @@
 /**
  * Queue Storage Module for Chunked Processing
  *
- * Manages queue persistence in Upstash Redis to support chunked processing
- * across multiple cron invocations. Enables processing 15+ stocks without
- * hitting Vercel's 800-second timeout by splitting work into chunks.
+ * Durable per-item queue in Upstash Redis, so the daily analysis run can be
+ * split across cron invocations (Vercel's 800-second limit) without losing
+ * track of what finished.
+ *
+ * Layout (per day):
+ * - analysis_queue:{date}             Run metadata (StoredQueue) incl. market context
+ * - analysis_queue:{date}:items       Hash: item key → QueueItemState
+ * - analysis_queue:{date}:lease:{key} Lease held by the invocation processing the item
+ * - analysis_queue:{date}:completed   Set once when every item reached a final state
+ * - analysis_queue:{date}:worker:{n}  Worker slot n (QUEUE_WORKER_CONCURRENCY slots)
+ * - analysis_queue:{date}:progress    Hash: worker invocations, last worker, roll-over to catch-up
+ * - analysis_queue:dead_letter        Hash: "{date}/{key}" → DeadLetter (kept 7 days)
+ *
+ * On-demand analyses ("Request Analysis" ticked in Notion, see on-demand.ts)
+ * use the same layout under the fixed ID analysis_queue:on_demand instead of
+ * a date. Items are added one at a time and the queue lives on while
+ * requests keep coming; finished items are pruned after 24 hours.
  *
  * Features:
- * - Store queue to Redis with market context
- * - Load queue from Redis with resume support
- * - Track processed count across invocations
+ * - Item states: pending → running → succeeded / failed
+ * - Leases (SET NX EX) so two invocations never process the same item; an
+ *   item whose lease expired (crashed or timed-out invocation) is claimable again
+ * - Failed items retry with exponential backoff up to QUEUE_MAX_ATTEMPTS,
+ *   then go to the dead-letter list (admin dashboard, GET /api/admin/queue)
+ * - Worker slots cap how many invocations process the queue at once
+ *   (see worker-chain.ts)
  * - Auto-cleanup with 24-hour TTL
- * - Date-based queue IDs for daily executions
+ * - Completion marker so follow-up jobs (daily digest) know the run finished
  */
 
 import { QueueItem } from './orchestrator';
@@ -21,19 +39,68 @@ import { log, LogLevel } from '../core/logger';
 const REDIS_URL = process.env.UPSTASH_REDIS_REST_URL || '';
 const REDIS_TOKEN = process.env.UPSTASH_REDIS_REST_TOKEN || '';
 const QUEUE_TTL = 86400; // 24 hours in seconds
+const COMPLETION_TTL = 36 * 3600; // Outlives the latest local digest hour
+const DEAD_LETTER_KEY = 'analysis_queue:dead_letter';
+const DEAD_LETTER_TTL = 7 * 86400;
+
+// Items are claimed a chunk at a time, so a lease must cover a whole chunk (maxDuration is 800s)
+const QUEUE_LEASE_SECONDS = parseInt(process.env.QUEUE_LEASE_SECONDS || '900', 10);
+export const QUEUE_MAX_ATTEMPTS = parseInt(process.env.QUEUE_MAX_ATTEMPTS || '3', 10);
+const QUEUE_RETRY_BASE_MS = parseInt(process.env.QUEUE_RETRY_BASE_MS || '120000', 10); // 2 min, 4 min, 8 min...
+export const QUEUE_WORKER_CONCURRENCY = parseInt(process.env.QUEUE_WORKER_CONCURRENCY || '2', 10);
+
+// Stands in for the date in the on-demand queue's keys (and admin ?date=)
+export const ON_DEMAND_QUEUE = 'on_demand';
+const ENQUEUE_GUARD_SECONDS = 30; // Webhook redeliveries and double clicks for the same page
 
 /**
- * Stored queue structure in Redis
+ * Stored queue structure in Redis (run metadata - items live in their own hash)
  */
 export interface StoredQueue {
-  id: string;                        // e.g., "queue:2025-12-01"
-  items: QueueItem[];                // Full queue of stocks to process
-  processedCount: number;            // How many items processed so far
+  id: string;                        // e.g., "analysis_queue:2025-12-01"
   totalCount: number;                // Total items in queue
   createdAt: string;                 // ISO timestamp
   marketContext: MarketContext | null;  // Market context for this run
   chunkSize: number;                 // Items per chunk (default: 8)
-  lastChunkAt?: string;              // ISO timestamp of last chunk processing
+}
+
+export type QueueItemStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+/**
+ * Processing state of one queue item
+ */
+export interface QueueItemState {
+  key: string;                       // "<position>:<ticker>" - sorts in priority order
+  item: QueueItem;
+  status: QueueItemStatus;
+  attempts: number;                  // Claims so far (a crashed attempt counts)
+  lastError?: string;
+  nextAttemptAt?: string;            // Pending retries wait until then
+  leaseOwner?: string;               // Invocation processing a running item
+  leaseUntil?: string;
+  updatedAt: string;
+}
+
+/**
+ * Queue item without credentials, for the admin view
+ */
+export interface QueueItemSummary extends Omit<QueueItemState, 'item'> {
+  ticker: string;
+  priority: number;
+  subscribers: Array<{ email: string; tier: string }>;
+}
+
+/**
+ * Item that used up its attempts
+ */
+export interface DeadLetter {
+  date: string;                      // Queue date (YYYY-MM-DD, UTC)
+  key: string;
+  ticker: string;
+  attempts: number;
+  lastError: string;
+  failedAt: string;
+  subscribers: Array<{ email: string; tier: string }>;
 }
 
 /**
@@ -43,69 +110,192 @@ export interface QueueStatus {
   exists: boolean;
   queueId?: string;
   totalItems?: number;
-  processedItems?: number;
-  remainingItems?: number;
+  processedItems?: number;           // Succeeded + failed (final)
+  remainingItems?: number;           // Pending + running
   progress?: number;                 // Percentage (0-100)
   isComplete?: boolean;
+  counts?: Record<QueueItemStatus, number>;
+  retrying?: number;                 // Pending items waiting out a backoff
+  claimable?: number;                // Items a worker could claim right now
+  nextRetryAt?: string;              // When the next waiting item becomes claimable
+  workers?: { active: number; limit: number };
+  invocations?: number;              // Worker invocations so far (cron + chained)
+  lastWorkerAt?: string;
+  rolledOverAt?: string;             // Main run hit its deadline with items left
+  rolledOverItems?: number;
   createdAt?: string;
-  lastChunkAt?: string;
+  completedAt?: string;
+}
+
+/**
+ * Completion marker written when the last chunk of a daily run finishes
+ *
+ * Distinguishes "finished" from "not started yet" for the digest, and
+ * outlives the queue itself.
+ */
+export interface RunCompletion {
+  date: string;                      // Queue date (YYYY-MM-DD, UTC)
+  startedAt: string;                 // Queue createdAt
+  completedAt: string;
+  totalTickers: number;
+  marketContext: MarketContext | null;
+}
+
+function requireRedis(): void {
+  if (!REDIS_URL || !REDIS_TOKEN) {
+    throw new Error('Redis credentials not configured');
+  }
+}
+
+/**
+ * Run one Redis command via the Upstash REST API
+ */
+async function redisCommand(command: (string | number)[]): Promise<any> {
+  const response = await fetch(REDIS_URL, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${REDIS_TOKEN}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(command),
+  });
+  if (!response.ok) {
+    throw new Error(`Redis ${command[0]} failed: ${response.status} ${response.statusText}`);
+  }
+  const data: any = await response.json();
+  return data.result;
+}
+
+/**
+ * Run several Redis commands in one round trip
+ */
+async function redisPipeline(commands: (string | number)[][]): Promise<any[]> {
+  const response = await fetch(`${REDIS_URL}/pipeline`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${REDIS_TOKEN}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(commands),
+  });
+  if (!response.ok) {
+    throw new Error(`Redis pipeline failed: ${response.status} ${response.statusText}`);
+  }
+  const data: any = await response.json();
+  return (data as Array<{ result?: any; error?: string }>).map((item) => item.result);
+}
+
+function queueIdFor(date?: string): string {
+  return `analysis_queue:${date || new Date().toISOString().split('T')[0]}`;
+}
+
+function itemsKey(queueId: string): string {
+  return `${queueId}:items`;
+}
+
+function leaseKey(queueId: string, key: string): string {
+  return `${queueId}:lease:${key}`;
+}
+
+function workerKey(queueId: string, slot: number): string {
+  return `${queueId}:worker:${slot}`;
+}
+
+function progressKey(queueId: string): string {
+  return `${queueId}:progress`;
+}
+
+function queueDate(queueId: string): string {
+  return queueId.replace('analysis_queue:', '');
+}
+
+function summarize(state: QueueItemState): QueueItemSummary {
+  const { item, ...rest } = state;
+  return {
+    ...rest,
+    ticker: item.ticker,
+    priority: item.priority,
+    subscribers: item.subscribers.map((s) => ({ email: s.email, tier: s.tier })),
+  };
+}
+
+async function loadItemStates(queueId: string): Promise<QueueItemState[]> {
+  const flat: string[] | null = await redisCommand(['HGETALL', itemsKey(queueId)]);
+  const states: QueueItemState[] = [];
+  for (let i = 1; i < (flat || []).length; i += 2) {
+    states.push(JSON.parse(flat![i]));
+  }
+  return states.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+async function loadItemState(queueId: string, key: string): Promise<QueueItemState | null> {
+  const raw: string | null = await redisCommand(['HGET', itemsKey(queueId), key]);
+  return raw ? JSON.parse(raw) : null;
+}
+
+async function saveItemState(queueId: string, state: QueueItemState): Promise<void> {
+  await redisCommand(['HSET', itemsKey(queueId), state.key, JSON.stringify(state)]);
+}
+
+/**
+ * Can this item be claimed now?
+ */
+function isClaimable(state: QueueItemState, now: number): boolean {
+  if (state.status === 'pending') {
+    return !state.nextAttemptAt || Date.parse(state.nextAttemptAt) <= now;
+  }
+  // Running past its lease: the invocation died mid-item
+  return state.status === 'running' && !!state.leaseUntil && Date.parse(state.leaseUntil) <= now;
 }
 
 /**
- * Save queue to Redis for chunked processing
+ * Save a new day's queue to Redis
  *
- * Creates a new queue in Redis with the full list of stocks to process.
- * The queue persists across multiple cron invocations to enable resume logic.
+ * Every item starts pending. Replaces any queue already stored for today.
  *
- * @param queue - Full queue of stocks to process
+ * @param queue - Full queue of stocks to process (priority order)
  * @param marketContext - Market context for this analysis run
  * @param chunkSize - Number of items to process per chunk (default: 8)
- * @returns Queue ID for retrieval
+ * @returns The stored run metadata
  */
 export async function saveQueueToRedis(
   queue: QueueItem[],
   marketContext: MarketContext | null,
   chunkSize: number = 8
-): Promise<string> {
-  if (!REDIS_URL || !REDIS_TOKEN) {
-    throw new Error('Redis credentials not configured');
-  }
+): Promise<StoredQueue> {
+  requireRedis();
 
-  const date = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
-  const queueId = `analysis_queue:${date}`;
+  const queueId = queueIdFor();
+  const now = new Date().toISOString();
 
   const storedQueue: StoredQueue = {
     id: queueId,
-    items: queue,
-    processedCount: 0,
     totalCount: queue.length,
-    createdAt: new Date().toISOString(),
+    createdAt: now,
     marketContext,
     chunkSize,
   };
 
-  try {
-    // Store queue in Redis
-    const response = await fetch(`${REDIS_URL}/set/${queueId}`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${REDIS_TOKEN}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(storedQueue),
-    });
+  const fields = queue.flatMap((item, index) => {
+    const state: QueueItemState = {
+      key: `${String(index).padStart(4, '0')}:${item.ticker}`,
+      item,
+      status: 'pending',
+      attempts: 0,
+      updatedAt: now,
+    };
+    return [state.key, JSON.stringify(state)];
+  });
 
-    if (!response.ok) {
-      throw new Error(`Redis SET failed: ${response.status} ${response.statusText}`);
+  try {
+    const commands: (string | number)[][] = [
+      ['SET', queueId, JSON.stringify(storedQueue), 'EX', QUEUE_TTL],
+      ['DEL', itemsKey(queueId), `${queueId}:completed`, progressKey(queueId)],
+    ];
+    if (fields.length > 0) {
+      commands.push(['HSET', itemsKey(queueId), ...fields], ['EXPIRE', itemsKey(queueId), QUEUE_TTL]);
     }
-
-    // Set TTL to auto-cleanup after 24 hours
-    await fetch(`${REDIS_URL}/expire/${queueId}/${QUEUE_TTL}`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${REDIS_TOKEN}`,
-      },
-    });
+    await redisPipeline(commands);
 
     log(LogLevel.INFO, 'Queue saved to Redis', {
       queueId,
@@ -114,7 +304,7 @@ export async function saveQueueToRedis(
       ttl: QUEUE_TTL,
     });
 
-    return queueId;
+    return storedQueue;
   } catch (error) {
     log(LogLevel.ERROR, 'Failed to save queue to Redis', {
       queueId,
@@ -125,53 +315,95 @@ export async function saveQueueToRedis(
 }
 
 /**
- * Load queue from Redis
+ * Add one item to the on-demand queue
  *
- * Retrieves the stored queue for the specified date (or today if not provided).
- * Returns null if no queue exists (first run of the day).
+ * Creates the queue on first use and refreshes its TTLs. A page that
+ * already has a pending or running item isn't queued twice. Keys sort by
+ * tier priority, then request time.
  *
- * @param date - Date in YYYY-MM-DD format (defaults to today)
- * @returns Stored queue or null if not found
+ * @param item - Analysis for a single page (one subscriber)
+ * @returns The on-demand queue ID and the item's key (duplicate: already queued)
  */
-export async function loadQueueFromRedis(date?: string): Promise<StoredQueue | null> {
-  if (!REDIS_URL || !REDIS_TOKEN) {
-    throw new Error('Redis credentials not configured');
+export async function enqueueOnDemandItem(
+  item: QueueItem
+): Promise<{ queueId: string; key: string; duplicate: boolean }> {
+  requireRedis();
+
+  const queueId = queueIdFor(ON_DEMAND_QUEUE);
+  const pageIds = new Set(item.subscribers.map((s) => s.pageId));
+  const now = new Date();
+
+  // Two deliveries racing past the pending check below
+  const guard = await redisCommand(['SET', `${queueId}:enqueue:${Array.from(pageIds).join(',')}`, now.toISOString(), 'NX', 'EX', ENQUEUE_GUARD_SECONDS]);
+  const [raw, states] = await Promise.all([redisCommand(['GET', queueId]), loadItemStates(queueId)]);
+
+  const existing = states.find(
+    (state) =>
+      (state.status === 'pending' || state.status === 'running') &&
+      state.item.subscribers.some((s) => pageIds.has(s.pageId))
+  );
+  if (existing || guard !== 'OK') {
+    log(LogLevel.INFO, 'On-demand analysis already queued', { queueId, ticker: item.ticker, key: existing?.key });
+    return { queueId, key: existing?.key || '', duplicate: true };
   }
 
-  const targetDate = date || new Date().toISOString().split('T')[0];
-  const queueId = `analysis_queue:${targetDate}`;
+  const state: QueueItemState = {
+    key: `${item.priority}:${now.getTime()}:${item.ticker}`,
+    item,
+    status: 'pending',
+    attempts: 0,
+    updatedAt: now.toISOString(),
+  };
 
-  try {
-    const response = await fetch(`${REDIS_URL}/get/${queueId}`, {
-      headers: {
-        Authorization: `Bearer ${REDIS_TOKEN}`,
-      },
-    });
+  const expired = states
+    .filter((s) => (s.status === 'succeeded' || s.status === 'failed') && now.getTime() - Date.parse(s.updatedAt) > QUEUE_TTL * 1000)
+    .map((s) => s.key);
 
-    if (!response.ok) {
-      if (response.status === 404) {
-        log(LogLevel.INFO, 'No queue found in Redis (first run)', { queueId });
-        return null;
-      }
-      throw new Error(`Redis GET failed: ${response.status} ${response.statusText}`);
-    }
+  const stored: StoredQueue = {
+    id: queueId,
+    totalCount: states.length - expired.length + 1,
+    createdAt: raw ? JSON.parse(raw).createdAt : now.toISOString(),
+    marketContext: null, // Workers fetch the (cached) market context when they run
+    chunkSize: 1,
+  };
 
-    const data = (await response.json()) as { result: string | null };
+  const commands: (string | number)[][] = [
+    ['SET', queueId, JSON.stringify(stored), 'EX', QUEUE_TTL],
+    ['HSET', itemsKey(queueId), state.key, JSON.stringify(state)],
+    ['EXPIRE', itemsKey(queueId), QUEUE_TTL],
+  ];
+  if (expired.length > 0) {
+    commands.push(['HDEL', itemsKey(queueId), ...expired]);
+  }
+  await redisPipeline(commands);
 
-    if (!data.result) {
-      log(LogLevel.INFO, 'Queue not found in Redis', { queueId });
-      return null;
-    }
+  log(LogLevel.INFO, 'On-demand analysis queued', { queueId, key: state.key, ticker: item.ticker, pruned: expired.length });
+  return { queueId, key: state.key, duplicate: false };
+}
 
-    const storedQueue: StoredQueue = JSON.parse(data.result);
+/**
+ * Load queue metadata from Redis
+ *
+ * Returns null if no queue exists for the date (first run of the day).
+ *
+ * @param date - Date in YYYY-MM-DD format (defaults to today, UTC)
+ * @returns Stored queue or null if not found
+ */
+export async function loadQueueFromRedis(date?: string): Promise<StoredQueue | null> {
+  requireRedis();
 
-    log(LogLevel.INFO, 'Queue loaded from Redis', {
-      queueId,
-      totalItems: storedQueue.totalCount,
-      processedItems: storedQueue.processedCount,
-      remainingItems: storedQueue.totalCount - storedQueue.processedCount,
-    });
+  const queueId = queueIdFor(date);
+
+  try {
+    const raw: string | null = await redisCommand(['GET', queueId]);
 
+    if (!raw) {
+      log(LogLevel.INFO, 'No queue found in Redis (first run)', { queueId });
+      return null;
+    }
+
+    const storedQueue: StoredQueue = JSON.parse(raw);
+    log(LogLevel.INFO, 'Queue loaded from Redis', { queueId, totalItems: storedQueue.totalCount });
     return storedQueue;
   } catch (error) {
     log(LogLevel.ERROR, 'Failed to load queue from Redis', {
@@ -183,92 +415,236 @@ export async function loadQueueFromRedis(date?: string): Promise<StoredQueue | n
 }
 
 /**
- * Update processed count in Redis
+ * Claim up to `limit` items for processing, in priority order
  *
- * Called after each chunk completes to track progress across invocations.
+ * Each claimed item is leased to `owner` and counts as an attempt. Items
+ * whose lease expired with no attempts left go straight to the dead-letter
+ * list. Claimed items carry `attempt`/`maxAttempts` so the orchestrator
+ * knows whether a failure will be retried.
  *
- * @param queueId - Queue ID to update
- * @param processedCount - New processed count
+ * @param queueId - Queue to claim from
+ * @param limit - Maximum items to claim
+ * @param owner - Unique ID of the claiming invocation
  */
-export async function updateProcessedCount(
+export async function claimQueueItems(
   queueId: string,
-  processedCount: number
-): Promise<void> {
-  if (!REDIS_URL || !REDIS_TOKEN) {
-    throw new Error('Redis credentials not configured');
-  }
+  limit: number,
+  owner: string
+): Promise<QueueItemState[]> {
+  requireRedis();
 
-  try {
-    // Load current queue
-    const response = await fetch(`${REDIS_URL}/get/${queueId}`, {
-      headers: {
-        Authorization: `Bearer ${REDIS_TOKEN}`,
-      },
-    });
+  const claimed: QueueItemState[] = [];
+  const candidates = (await loadItemStates(queueId)).filter((state) => isClaimable(state, Date.now()));
 
-    if (!response.ok) {
-      throw new Error(`Redis GET failed: ${response.status} ${response.statusText}`);
-    }
+  for (const candidate of candidates) {
+    if (claimed.length >= limit) break;
+
+    const acquired = await redisCommand(['SET', leaseKey(queueId, candidate.key), owner, 'NX', 'EX', QUEUE_LEASE_SECONDS]);
+    if (acquired !== 'OK') continue;
 
-    const data = (await response.json()) as { result: string | null };
+    // Re-check under the lease - another invocation may have finished it since the read
+    const state = await loadItemState(queueId, candidate.key);
+    if (!state || !isClaimable(state, Date.now())) {
+      await redisCommand(['DEL', leaseKey(queueId, candidate.key)]);
+      continue;
+    }
 
-    if (!data.result) {
-      throw new Error('Queue not found');
+    if (state.status === 'running' && state.attempts >= QUEUE_MAX_ATTEMPTS) {
+      await deadLetter(queueId, state, state.lastError || 'Lease expired (invocation crashed or timed out)');
+      await redisCommand(['DEL', leaseKey(queueId, state.key)]);
+      continue;
     }
 
-    const storedQueue: StoredQueue = JSON.parse(data.result);
+    const now = new Date();
+    const running: QueueItemState = {
+      ...state,
+      status: 'running',
+      attempts: state.attempts + 1,
+      nextAttemptAt: undefined,
+      leaseOwner: owner,
+      leaseUntil: new Date(now.getTime() + QUEUE_LEASE_SECONDS * 1000).toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    running.item = { ...running.item, attempt: running.attempts, maxAttempts: QUEUE_MAX_ATTEMPTS };
+    await saveItemState(queueId, running);
+    claimed.push(running);
+  }
 
-    // Update processed count and last chunk timestamp
-    storedQueue.processedCount = processedCount;
-    storedQueue.lastChunkAt = new Date().toISOString();
+  log(LogLevel.INFO, 'Queue items claimed', {
+    queueId,
+    owner,
+    claimed: claimed.map((state) => state.key),
+    candidates: candidates.length,
+  });
 
-    // Save back to Redis
-    await fetch(`${REDIS_URL}/set/${queueId}`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${REDIS_TOKEN}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(storedQueue),
-    });
+  return claimed;
+}
 
-    log(LogLevel.INFO, 'Queue processed count updated', {
-      queueId,
-      processedCount,
-      totalCount: storedQueue.totalCount,
-      progress: Math.round((processedCount / storedQueue.totalCount) * 100),
-    });
-  } catch (error) {
-    log(LogLevel.ERROR, 'Failed to update processed count', {
-      queueId,
-      processedCount,
-      error: error instanceof Error ? error.message : String(error),
+/**
+ * Mark a claimed item succeeded and release its lease
+ *
+ * Ignored if the lease has passed to another invocation in the meantime.
+ */
+export async function completeQueueItem(queueId: string, key: string, owner: string): Promise<void> {
+  const state = await loadItemState(queueId, key);
+  if (!state || state.leaseOwner !== owner) {
+    log(LogLevel.WARN, 'Queue item no longer leased by this invocation - result not recorded', { queueId, key });
+    return;
+  }
+
+  await saveItemState(queueId, {
+    ...state,
+    status: 'succeeded',
+    leaseOwner: undefined,
+    leaseUntil: undefined,
+    updatedAt: new Date().toISOString(),
+  });
+  await redisCommand(['DEL', leaseKey(queueId, key)]);
+}
+
+/**
+ * Record a failed attempt and release the lease
+ *
+ * @returns 'retry' when the item goes back to pending with a backoff,
+ *          'dead_letter' when it used up its attempts (null if not leased by `owner`)
+ */
+export async function failQueueItem(
+  queueId: string,
+  key: string,
+  owner: string,
+  error: string
+): Promise<'retry' | 'dead_letter' | null> {
+  const state = await loadItemState(queueId, key);
+  if (!state || state.leaseOwner !== owner) {
+    log(LogLevel.WARN, 'Queue item no longer leased by this invocation - failure not recorded', { queueId, key });
+    return null;
+  }
+
+  let outcome: 'retry' | 'dead_letter';
+  if (state.attempts >= QUEUE_MAX_ATTEMPTS) {
+    await deadLetter(queueId, state, error);
+    outcome = 'dead_letter';
+  } else {
+    const backoffMs = QUEUE_RETRY_BASE_MS * 2 ** (state.attempts - 1);
+    await saveItemState(queueId, {
+      ...state,
+      status: 'pending',
+      lastError: error,
+      nextAttemptAt: new Date(Date.now() + backoffMs).toISOString(),
+      leaseOwner: undefined,
+      leaseUntil: undefined,
+      updatedAt: new Date().toISOString(),
     });
-    throw error;
+    outcome = 'retry';
+  }
+
+  await redisCommand(['DEL', leaseKey(queueId, key)]);
+  log(LogLevel.WARN, 'Queue item failed', { queueId, key, attempts: state.attempts, outcome, error });
+  return outcome;
+}
+
+/**
+ * Move an item to failed and add it to the dead-letter list
+ */
+async function deadLetter(queueId: string, state: QueueItemState, error: string): Promise<void> {
+  const now = new Date().toISOString();
+  const entry: DeadLetter = {
+    date: queueDate(queueId),
+    key: state.key,
+    ticker: state.item.ticker,
+    attempts: state.attempts,
+    lastError: error,
+    failedAt: now,
+    subscribers: state.item.subscribers.map((s) => ({ email: s.email, tier: s.tier })),
+  };
+
+  await saveItemState(queueId, {
+    ...state,
+    status: 'failed',
+    lastError: error,
+    leaseOwner: undefined,
+    leaseUntil: undefined,
+    updatedAt: now,
+  });
+  await redisPipeline([
+    ['HSET', DEAD_LETTER_KEY, `${entry.date}/${entry.key}`, JSON.stringify(entry)],
+    ['EXPIRE', DEAD_LETTER_KEY, DEAD_LETTER_TTL],
+  ]);
+}
+
+/**
+ * Put an item back to pending with fresh attempts (admin requeue)
+ *
+ * The next scheduled-analyses invocation picks it up. Removes the item's
+ * dead-letter entry.
+ *
+ * @returns The requeued item, or null if the queue or item no longer exists
+ */
+export async function requeueQueueItem(date: string, key: string): Promise<QueueItemSummary | null> {
+  requireRedis();
+
+  const queueId = queueIdFor(date);
+  const state = await loadItemState(queueId, key);
+  if (!state) {
+    return null;
+  }
+
+  const requeued: QueueItemState = {
+    ...state,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: undefined,
+    leaseOwner: undefined,
+    leaseUntil: undefined,
+    updatedAt: new Date().toISOString(),
+  };
+
+  await redisPipeline([
+    ['HSET', itemsKey(queueId), key, JSON.stringify(requeued)],
+    ['DEL', leaseKey(queueId, key)],
+    ['HDEL', DEAD_LETTER_KEY, `${date}/${key}`],
+  ]);
+
+  log(LogLevel.INFO, 'Queue item requeued', { queueId, key, previousStatus: state.status });
+  return summarize(requeued);
+}
+
+/**
+ * Every item of a day's queue, without credentials
+ *
+ * @param date - Date in YYYY-MM-DD format (defaults to today, UTC)
+ */
+export async function listQueueItems(date?: string): Promise<QueueItemSummary[]> {
+  requireRedis();
+  return (await loadItemStates(queueIdFor(date))).map(summarize);
+}
+
+/**
+ * Dead-letter entries from the last 7 days, newest first
+ */
+export async function listDeadLetters(): Promise<DeadLetter[]> {
+  requireRedis();
+
+  const flat: string[] | null = await redisCommand(['HGETALL', DEAD_LETTER_KEY]);
+  const entries: DeadLetter[] = [];
+  for (let i = 1; i < (flat || []).length; i += 2) {
+    entries.push(JSON.parse(flat![i]));
   }
+  return entries.sort((a, b) => b.failedAt.localeCompare(a.failedAt));
 }
 
 /**
- * Delete queue from Redis
+ * Delete a day's queue from Redis
  *
- * Called when all chunks are complete to clean up storage.
- * Note: Queues also auto-expire after 24 hours via TTL.
+ * Queues also auto-expire after 24 hours via TTL. Dead-letter entries stay.
  *
  * @param queueId - Queue ID to delete
  */
 export async function deleteQueue(queueId: string): Promise<void> {
-  if (!REDIS_URL || !REDIS_TOKEN) {
-    throw new Error('Redis credentials not configured');
-  }
+  requireRedis();
 
   try {
-    await fetch(`${REDIS_URL}/del/${queueId}`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${REDIS_TOKEN}`,
-      },
-    });
-
+    await redisCommand(['DEL', queueId, itemsKey(queueId), `${queueId}:completed`, progressKey(queueId)]);
     log(LogLevel.INFO, 'Queue deleted from Redis', { queueId });
   } catch (error) {
     log(LogLevel.ERROR, 'Failed to delete queue from Redis', {
@@ -282,10 +658,10 @@ export async function deleteQueue(queueId: string): Promise<void> {
 /**
  * Get queue status for monitoring
  *
- * Returns current queue status including progress information.
- * Useful for debugging and monitoring dashboard.
+ * Returns current queue status including per-status item counts.
+ * The run is complete once no item is pending or running.
  *
- * @param date - Date in YYYY-MM-DD format (defaults to today)
+ * @param date - Date in YYYY-MM-DD format (defaults to today, UTC)
  * @returns Queue status
  */
 export async function getQueueStatus(date?: string): Promise<QueueStatus> {
@@ -298,22 +674,56 @@ export async function getQueueStatus(date?: string): Promise<QueueStatus> {
       };
     }
 
-    const processedItems = storedQueue.processedCount;
-    const totalItems = storedQueue.totalCount;
-    const remainingItems = totalItems - processedItems;
-    const progress = Math.round((processedItems / totalItems) * 100);
-    const isComplete = processedItems >= totalItems;
+    const slots = Array.from({ length: QUEUE_WORKER_CONCURRENCY }, (_, slot) => ['GET', workerKey(storedQueue.id, slot)]);
+    const [states, [completedAt, progressFlat, ...workers]] = await Promise.all([
+      loadItemStates(storedQueue.id),
+      redisPipeline([
+        ['GET', `${storedQueue.id}:completed`],
+        ['HGETALL', progressKey(storedQueue.id)],
+        ...slots,
+      ]),
+    ]);
+
+    const progress: Record<string, string> = {};
+    for (let i = 1; i < (progressFlat || []).length; i += 2) {
+      progress[progressFlat[i - 1]] = progressFlat[i];
+    }
+
+    const now = Date.now();
+    const waiting = states
+      .map((state) =>
+        state.status === 'pending' ? state.nextAttemptAt : state.status === 'running' ? state.leaseUntil : undefined
+      )
+      .filter((at): at is string => !!at && Date.parse(at) > now)
+      .sort();
+
+    const counts: Record<QueueItemStatus, number> = { pending: 0, running: 0, succeeded: 0, failed: 0 };
+    for (const state of states) {
+      counts[state.status]++;
+    }
+
+    const totalItems = states.length;
+    const processedItems = counts.succeeded + counts.failed;
 
     return {
       exists: true,
       queueId: storedQueue.id,
       totalItems,
       processedItems,
-      remainingItems,
-      progress,
-      isComplete,
+      remainingItems: totalItems - processedItems,
+      progress: totalItems === 0 ? 100 : Math.round((processedItems / totalItems) * 100),
+      isComplete: processedItems >= totalItems,
+      counts,
+      retrying: states.filter((s) => s.status === 'pending' && s.attempts > 0).length,
+      claimable: states.filter((s) => isClaimable(s, now)).length,
+      nextRetryAt: waiting[0],
+      workers: { active: workers.filter(Boolean).length, limit: QUEUE_WORKER_CONCURRENCY },
+      invocations: parseInt(progress.invocations || '0', 10),
+      lastWorkerAt: progress.lastWorkerAt,
+      rolledOverAt: progress.rolledOverAt,
+      rolledOverItems: progress.rolledOverItems ? parseInt(progress.rolledOverItems, 10) : undefined,
       createdAt: storedQueue.createdAt,
-      lastChunkAt: storedQueue.lastChunkAt,
+      completedAt: completedAt || undefined,
     };
   } catch (error) {
     log(LogLevel.ERROR, 'Failed to get queue status', {
@@ -322,3 +732,105 @@ export async function getQueueStatus(date?: string): Promise<QueueStatus> {
     throw error;
   }
 }
+
+/**
+ * Take a free worker slot for this invocation
+ *
+ * Slots are leases like item leases, so a crashed worker's slot frees
+ * itself. Counts the invocation in the queue's progress.
+ *
+ * @returns The slot number, or null when QUEUE_WORKER_CONCURRENCY workers are running
+ */
+export async function acquireWorkerSlot(queueId: string, owner: string): Promise<number | null> {
+  requireRedis();
+
+  for (let slot = 0; slot < QUEUE_WORKER_CONCURRENCY; slot++) {
+    const acquired = await redisCommand(['SET', workerKey(queueId, slot), owner, 'NX', 'EX', QUEUE_LEASE_SECONDS]);
+    if (acquired === 'OK') {
+      await redisPipeline([
+        ['HINCRBY', progressKey(queueId), 'invocations', 1],
+        ['HSET', progressKey(queueId), 'lastWorkerAt', new Date().toISOString()],
+        ['EXPIRE', progressKey(queueId), QUEUE_TTL],
+      ]);
+      return slot;
+    }
+  }
+  return null;
+}
+
+/**
+ * Free a worker slot (only if this invocation still holds it)
+ */
+export async function releaseWorkerSlot(queueId: string, slot: number, owner: string): Promise<void> {
+  if ((await redisCommand(['GET', workerKey(queueId, slot)])) === owner) {
+    await redisCommand(['DEL', workerKey(queueId, slot)]);
+  }
+}
+
+/**
+ * Record that the main run's deadline passed with items left for the catch-up run
+ */
+export async function markRolledOver(queueId: string, remainingItems: number): Promise<void> {
+  requireRedis();
+  await redisPipeline([
+    ['HSETNX', progressKey(queueId), 'rolledOverAt', new Date().toISOString()],
+    ['HSETNX', progressKey(queueId), 'rolledOverItems', remainingItems],
+    ['EXPIRE', progressKey(queueId), QUEUE_TTL],
+  ]);
+  log(LogLevel.WARN, 'Queue rolled over to catch-up run', { queueId, remainingItems });
+}
+
+/**
+ * Claim the right to finish a queue
+ *
+ * @returns true for exactly one caller once every item is final - that
+ *          caller records the run completion
+ */
+export async function markQueueComplete(queueId: string): Promise<boolean> {
+  requireRedis();
+  const result = await redisCommand(['SET', `${queueId}:completed`, new Date().toISOString(), 'NX', 'EX', QUEUE_TTL]);
+  return result === 'OK';
+}
+
+/**
+ * Record that a daily run has processed every chunk
+ *
+ * Best effort - a missing marker only delays the daily digest.
+ *
+ * @param completion - Run summary (date comes from the queue ID)
+ */
+export async function markRunComplete(completion: RunCompletion): Promise<void> {
+  if (!REDIS_URL || !REDIS_TOKEN) {
+    return;
+  }
+
+  const key = `analysis_run_complete:${completion.date}`;
+
+  try {
+    const result = await redisCommand(['SET', key, JSON.stringify(completion), 'EX', COMPLETION_TTL]);
+    if (result !== 'OK') {
+      throw new Error(`Redis SET returned ${result}`);
+    }
+
+    log(LogLevel.INFO, 'Run completion recorded', { key, totalTickers: completion.totalTickers });
+  } catch (error) {
+    log(LogLevel.WARN, 'Failed to record run completion', {
+      key,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Load the completion marker for a daily run
+ *
+ * @param date - Date in YYYY-MM-DD format (defaults to today, UTC)
+ * @returns Completion marker or null if the run has not finished
+ */
+export async function loadRunCompletion(date?: string): Promise<RunCompletion | null> {
+  requireRedis();
+
+  const key = `analysis_run_complete:${date || new Date().toISOString().split('T')[0]}`;
+  const raw: string | null = await redisCommand(['GET', key]);
+  return raw ? JSON.parse(raw) : null;
+}
@@ -0,0 +1,206 @@
+/**
+ * Self-Chaining Queue Workers
+ *
+ * The scheduled-analyses endpoint processes one chunk per invocation. When
+ * queue items are left, it invokes itself again with a signed internal
+ * request instead of waiting for the next cron slot, so the number of
+ * daily tickers isn't capped by the cron config.
+ *
+ * Limits:
+ * - Concurrency: at most QUEUE_WORKER_CONCURRENCY workers hold a worker
+ *   slot at once (queue-storage.ts); extra invocations exit immediately
+ * - Deadline: chaining only happens inside a run window - the main run
+ *   stops chaining at WORKER_MAIN_DEADLINE_ET, and whatever is left rolls
+ *   to the catch-up run after the close (its own cron)
+ * - Generations: a chain stops after MAX_CHAIN_GENERATIONS hops as a guard
+ *   against runaway loops
+ *
+ * The on-demand analyses job (api/jobs/on-demand-analyses.ts) uses the
+ * same signed invocations for its own queue, outside any run window.
+ *
+ * Worker requests carry `x-sagestocks-worker: <queueId>:<generation>:<timestamp>`
+ * and an HMAC-SHA256 of that value (QUEUE_WORKER_SECRET, falling back to
+ * CRON_SECRET) in `x-sagestocks-worker-signature`. Signatures older than
+ * five minutes are rejected.
+ */
+
+import crypto from 'crypto';
+import { EXCHANGE_TIMEZONE } from '../shared/market-calendar';
+
+const MAX_SIGNATURE_AGE_MS = 5 * 60 * 1000;
+const INVOKE_TIMEOUT_MS = 5000; // Long enough for the request to be accepted - the worker keeps running
+export const MAX_CHAIN_GENERATIONS = parseInt(process.env.QUEUE_MAX_CHAIN_GENERATIONS || '50', 10);
+
+// Run windows in exchange time (ET)
+const WORKER_MAIN_DEADLINE_ET = '11:00'; // The first cron is 8:30-9:30 ET depending on DST
+const WORKER_CATCH_UP_START_ET = '16:15'; // Catch-up cron lands after this (21:30 UTC = 16:30-17:30 ET)
+const WORKER_CATCH_UP_DEADLINE_ET = '18:30'; // Before midnight UTC in both EST and EDT, so the catch-up still sees the day's queue
+
+/**
+ * A verified worker request
+ */
+export interface WorkerInvocation {
+  queueId: string;
+  generation: number; // 1 for the first hop after a cron invocation
+}
+
+/**
+ * Period in which workers keep chaining
+ */
+export interface WorkerWindow {
+  name: 'main' | 'catch_up';
+  deadline: Date;
+}
+
+function getSecret(): string {
+  return process.env.QUEUE_WORKER_SECRET || process.env.CRON_SECRET || '';
+}
+
+function sign(value: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(value).digest('hex');
+}
+
+/**
+ * Verify a worker request's signature headers
+ *
+ * @returns The invocation, or null if the headers are missing, forged or stale
+ */
+export function verifyWorkerRequest(
+  headers: Record<string, string | string[] | undefined>,
+  now: Date = new Date()
+): WorkerInvocation | null {
+  const secret = getSecret();
+  const value = headers['x-sagestocks-worker'];
+  const signature = headers['x-sagestocks-worker-signature'];
+  if (!secret || typeof value !== 'string' || typeof signature !== 'string') {
+    return null;
+  }
+
+  // Hex only, so both buffers are 32 bytes and timingSafeEqual can't throw
+  if (!/^[0-9a-f]{64}$/.test(signature)) {
+    return null;
+  }
+  if (!crypto.timingSafeEqual(Buffer.from(signature, 'hex'), Buffer.from(sign(value, secret), 'hex'))) {
+    return null;
+  }
+
+  // "<queueId>:<generation>:<timestamp>" - the queue ID itself contains a colon
+  const parts = value.split(':');
+  const timestamp = parseInt(parts.pop() || '', 10);
+  const generation = parseInt(parts.pop() || '', 10);
+  const queueId = parts.join(':');
+  if (!queueId || !Number.isFinite(generation) || !Number.isFinite(timestamp)) {
+    return null;
+  }
+  if (Math.abs(now.getTime() - timestamp) > MAX_SIGNATURE_AGE_MS) {
+    return null;
+  }
+
+  return { queueId, generation };
+}
+
+/**
+ * Window the current time falls in, or null outside both
+ *
+ * Main: until WORKER_MAIN_DEADLINE_ET.
+ * Catch-up: from WORKER_CATCH_UP_START_ET until WORKER_CATCH_UP_DEADLINE_ET,
+ * which is before midnight UTC so the catch-up works on the same day's queue.
+ */
+export function getWorkerWindow(now: Date = new Date()): WorkerWindow | null {
+  const minutes = minutesInExchangeTime(now);
+  const mainDeadline = parseClock(WORKER_MAIN_DEADLINE_ET);
+  const catchUpStart = parseClock(WORKER_CATCH_UP_START_ET);
+  const catchUpDeadline = parseClock(WORKER_CATCH_UP_DEADLINE_ET);
+
+  if (minutes < mainDeadline) {
+    return { name: 'main', deadline: new Date(now.getTime() + (mainDeadline - minutes) * 60000) };
+  }
+  if (minutes >= catchUpStart && minutes < catchUpDeadline) {
+    return { name: 'catch_up', deadline: new Date(now.getTime() + (catchUpDeadline - minutes) * 60000) };
+  }
+  return null;
+}
+
+/**
+ * Invoke the next worker(s) for a queue
+ *
+ * Fire-and-forget: returns once each request is accepted (or after a short
+ * timeout). Failures are logged - the next cron slot resumes the queue.
+ *
+ * @param path - Endpoint that processes the queue
+ * @returns Number of invocations that were sent
+ */
+export async function invokeWorkers(
+  queueId: string,
+  generation: number,
+  count: number,
+  path: string = '/api/cron/scheduled-analyses'
+): Promise<number> {
+  const secret = getSecret();
+  if (!secret) {
+    console.warn('[WORKER] No QUEUE_WORKER_SECRET or CRON_SECRET - cannot chain workers');
+    return 0;
+  }
+
+  const url = `${getBaseUrl()}${path}`;
+  const results = await Promise.all(
+    Array.from({ length: count }, async () => {
+      const value = `${queueId}:${generation}:${Date.now()}`;
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), INVOKE_TIMEOUT_MS);
+
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'x-sagestocks-worker': value,
+            'x-sagestocks-worker-signature': sign(value, secret),
+          },
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          console.warn(`[WORKER] Worker invocation rejected: ${response.status} ${response.statusText}`);
+          return false;
+        }
+        return true;
+      } catch (error) {
+        // Aborting after the timeout is the normal case - the worker is running
+        if (error instanceof Error && error.name === 'AbortError') {
+          return true;
+        }
+        console.warn('[WORKER] Worker invocation failed:', error instanceof Error ? error.message : String(error));
+        return false;
+      } finally {
+        clearTimeout(timer);
+      }
+    })
+  );
+
+  return results.filter(Boolean).length;
+}
+
+/**
+ * Deployment URL workers call (QUEUE_WORKER_BASE_URL overrides)
+ */
+function getBaseUrl(): string {
+  if (process.env.QUEUE_WORKER_BASE_URL) return process.env.QUEUE_WORKER_BASE_URL.replace(/\/$/, '');
+  const host = process.env.VERCEL_PROJECT_PRODUCTION_URL || process.env.VERCEL_URL;
+  return host ? `https://${host}` : 'http://localhost:3000';
+}
+
+function minutesInExchangeTime(date: Date): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: EXCHANGE_TIMEZONE,
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const hour = parseInt(parts.find((p) => p.type === 'hour')?.value || '0', 10);
+  const minute = parseInt(parts.find((p) => p.type === 'minute')?.value || '0', 10);
+  return hour * 60 + minute;
+}
+
+function parseClock(value: string): number {
+  const [hour, minute] = value.split(':').map((part) => parseInt(part, 10));
+  return hour * 60 + (minute || 0);
+}
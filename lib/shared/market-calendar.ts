@@ -0,0 +1,283 @@
+/**
+ * NYSE Trading Calendar for Sage Stocks
+ *
+ * Computes exchange holidays and early closes by rule for any year, so the
+ * cron jobs and delta calculations never depend on a hardcoded holiday list.
+ *
+ * Rules (NYSE Rule 7.2):
+ * - Fixed-date holidays falling on Saturday are observed the Friday before,
+ *   on Sunday the Monday after
+ * - Exception: New Year's Day on a Saturday is not observed (the Friday is
+ *   the last trading day of the previous year)
+ * - Good Friday follows Easter (Gregorian computus)
+ * - Juneteenth is a holiday from 2022
+ * - Early close (1:00 PM ET): July 3 when it falls Mon-Thu, the day after
+ *   Thanksgiving, and Dec 24 when it falls Mon-Thu
+ *
+ * Unscheduled closures (national days of mourning, weather) are not
+ * predictable and must be handled by callers.
+ *
+ * All dates are YYYY-MM-DD strings in exchange time (America/New_York).
+ */
+
+import { formatDateInTimezone } from './timezone';
+
+export const EXCHANGE_TIMEZONE = 'America/New_York' as const;
+
+export interface MarketHoliday {
+  date: string; // YYYY-MM-DD
+  name: string;
+  earlyClose: boolean; // 1:00 PM ET close rather than a full-day closure
+}
+
+const holidayCache = new Map<number, MarketHoliday[]>();
+const earlyCloseCache = new Map<number, MarketHoliday[]>();
+
+// ============================================================================
+// Date helpers (UTC arithmetic on calendar dates)
+// ============================================================================
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function utcDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Shift a YYYY-MM-DD date by calendar days (negative goes back)
+ */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return toDateString(d);
+}
+
+/**
+ * Weekday of a YYYY-MM-DD date (0=Sunday)
+ */
+export function dayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Nth weekday of a month (weekday: 0=Sunday, n: 1-based)
+ */
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  const first = utcDate(year, month, 1);
+  const offset = (weekday - first.getUTCDay() + 7) % 7;
+  return toDateString(utcDate(year, month, 1 + offset + (n - 1) * 7));
+}
+
+/**
+ * Last weekday of a month
+ */
+function lastWeekday(year: number, month: number, weekday: number): string {
+  const last = utcDate(year, month + 1, 0);
+  const offset = (last.getUTCDay() - weekday + 7) % 7;
+  return toDateString(utcDate(year, month, last.getUTCDate() - offset));
+}
+
+/**
+ * Easter Sunday (anonymous Gregorian algorithm)
+ */
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return toDateString(utcDate(year, month, day));
+}
+
+/**
+ * Weekend-observed date for a fixed-date holiday (null if not observed)
+ */
+function observed(year: number, month: number, day: number, observeSaturday: boolean = true): string | null {
+  const date = toDateString(utcDate(year, month, day));
+  const weekday = dayOfWeek(date);
+  if (weekday === 6) return observeSaturday ? addDays(date, -1) : null;
+  if (weekday === 0) return addDays(date, 1);
+  return date;
+}
+
+/**
+ * Normalize a Date (exchange-local date) or YYYY-MM-DD string
+ */
+function toMarketDate(date: Date | string): string {
+  return typeof date === 'string' ? date.split('T')[0] : getMarketDate(date);
+}
+
+// ============================================================================
+// Holidays + early closes
+// ============================================================================
+
+/**
+ * Full-day NYSE holidays for a year, in date order
+ *
+ * @example
+ * getNYSEHolidays(2026).map(h => h.date)
+ * // → ['2026-01-01', '2026-01-19', '2026-02-16', '2026-04-03', '2026-05-25',
+ * //    '2026-06-19', '2026-07-03', '2026-09-07', '2026-11-26', '2026-12-25']
+ */
+export function getNYSEHolidays(year: number): MarketHoliday[] {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const candidates: Array<[string | null, string]> = [
+    [observed(year, 1, 1, false), "New Year's Day"],
+    [nthWeekday(year, 1, 1, 3), 'Martin Luther King Jr. Day'],
+    [nthWeekday(year, 2, 1, 3), "Washington's Birthday"],
+    [addDays(easterSunday(year), -2), 'Good Friday'],
+    [lastWeekday(year, 5, 1), 'Memorial Day'],
+    [year >= 2022 ? observed(year, 6, 19) : null, 'Juneteenth'],
+    [observed(year, 7, 4), 'Independence Day'],
+    [nthWeekday(year, 9, 1, 1), 'Labor Day'],
+    [nthWeekday(year, 11, 4, 4), 'Thanksgiving Day'],
+    [observed(year, 12, 25), 'Christmas Day'],
+  ];
+
+  const holidays = candidates
+    .filter((entry): entry is [string, string] => entry[0] !== null)
+    .map(([date, name]) => ({ date, name, earlyClose: false }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  holidayCache.set(year, holidays);
+  return holidays;
+}
+
+/**
+ * Scheduled 1:00 PM ET early closes for a year, in date order
+ */
+export function getNYSEEarlyCloses(year: number): MarketHoliday[] {
+  const cached = earlyCloseCache.get(year);
+  if (cached) return cached;
+
+  const earlyCloses: MarketHoliday[] = [];
+
+  const july3 = toDateString(utcDate(year, 7, 3));
+  if (dayOfWeek(july3) >= 1 && dayOfWeek(july3) <= 4) {
+    earlyCloses.push({ date: july3, name: 'Independence Day Eve', earlyClose: true });
+  }
+
+  earlyCloses.push({ date: addDays(nthWeekday(year, 11, 4, 4), 1), name: 'Day After Thanksgiving', earlyClose: true });
+
+  const christmasEve = toDateString(utcDate(year, 12, 24));
+  if (dayOfWeek(christmasEve) >= 1 && dayOfWeek(christmasEve) <= 4) {
+    earlyCloses.push({ date: christmasEve, name: 'Christmas Eve', earlyClose: true });
+  }
+
+  earlyCloseCache.set(year, earlyCloses);
+  return earlyCloses;
+}
+
+/**
+ * Holiday name if the exchange is closed for a holiday on this date
+ */
+export function getHoliday(date: Date | string): string | null {
+  const marketDate = toMarketDate(date);
+  const year = parseInt(marketDate.slice(0, 4), 10);
+  return getNYSEHolidays(year).find((h) => h.date === marketDate)?.name || null;
+}
+
+/**
+ * True if the exchange closes at 1:00 PM ET on this date
+ */
+export function isEarlyClose(date: Date | string): boolean {
+  const marketDate = toMarketDate(date);
+  const year = parseInt(marketDate.slice(0, 4), 10);
+  return getNYSEEarlyCloses(year).some((h) => h.date === marketDate);
+}
+
+/**
+ * Holidays and early closes between two dates (inclusive), in date order
+ */
+export function getMarketClosures(start: Date | string, end: Date | string): MarketHoliday[] {
+  const from = toMarketDate(start);
+  const to = toMarketDate(end);
+  const closures: MarketHoliday[] = [];
+  for (let year = parseInt(from.slice(0, 4), 10); year <= parseInt(to.slice(0, 4), 10); year++) {
+    closures.push(...getNYSEHolidays(year), ...getNYSEEarlyCloses(year));
+  }
+  return closures
+    .filter((closure) => closure.date >= from && closure.date <= to)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// ============================================================================
+// Trading days
+// ============================================================================
+
+/**
+ * Current date at the exchange (YYYY-MM-DD, America/New_York)
+ */
+export function getMarketDate(now: Date = new Date()): string {
+  return formatDateInTimezone(now, EXCHANGE_TIMEZONE);
+}
+
+/**
+ * True for weekdays that are not NYSE holidays (early closes are trading days)
+ *
+ * @param date - YYYY-MM-DD, or a Date evaluated in exchange time (default: now)
+ */
+export function isTradingDay(date: Date | string = new Date()): boolean {
+  const marketDate = toMarketDate(date);
+  const weekday = dayOfWeek(marketDate);
+  if (weekday === 0 || weekday === 6) return false;
+  return getHoliday(marketDate) === null;
+}
+
+/**
+ * Last trading day strictly before a date
+ */
+export function previousTradingDay(date: Date | string = new Date()): string {
+  let candidate = addDays(toMarketDate(date), -1);
+  while (!isTradingDay(candidate)) {
+    candidate = addDays(candidate, -1);
+  }
+  return candidate;
+}
+
+/**
+ * First trading day strictly after a date
+ */
+export function nextTradingDay(date: Date | string = new Date()): string {
+  let candidate = addDays(toMarketDate(date), 1);
+  while (!isTradingDay(candidate)) {
+    candidate = addDays(candidate, 1);
+  }
+  return candidate;
+}
+
+/**
+ * Trading sessions elapsed from one date to another
+ *
+ * Counts trading days after `start` up to and including `end`, so Friday →
+ * Monday is 1 and the same day is 0. Negative when `end` is before `start`.
+ *
+ * @example
+ * tradingDaysBetween('2025-12-24', '2025-12-26') // → 1 (Dec 25 closed)
+ * tradingDaysBetween('2025-11-21', '2025-11-28') // → 4 (Thanksgiving closed)
+ */
+export function tradingDaysBetween(start: Date | string, end: Date | string): number {
+  const from = toMarketDate(start);
+  const to = toMarketDate(end);
+  if (from === to) return 0;
+  if (to < from) return -tradingDaysBetween(to, from);
+
+  let count = 0;
+  for (let day = addDays(from, 1); day <= to; day = addDays(day, 1)) {
+    if (isTradingDay(day)) count++;
+  }
+  return count;
+}
@@ -308,3 +308,31 @@ export function getSecondsUntilMidnight(
   const nextMidnight = getNextMidnightInTimezone(timezone, fromDate);
   return Math.floor((nextMidnight.getTime() - fromDate.getTime()) / 1000);
 }
+
+/**
+ * Get the hour of day (0-23) in user's timezone
+ *
+ * Used to schedule per-user deliveries (e.g. the daily digest email)
+ * from a single UTC cron.
+ *
+ * @param timezone - User's IANA timezone
+ * @param date - Date to evaluate (default: now)
+ * @returns Hour of day in user's timezone
+ *
+ * @example
+ * // Nov 5, 2025 at 3:00 PM UTC
+ * getHourInTimezone('America/New_York', new Date('2025-11-05T15:00:00Z'))
+ * // → 10
+ */
+export function getHourInTimezone(
+  timezone: SupportedTimezone,
+  date: Date = new Date()
+): number {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: 'numeric',
+    hourCycle: 'h23',
+  });
+
+  return parseInt(formatter.format(date), 10);
+}
@@ -9,6 +9,10 @@
  *   3. Handles response (success/error)
  *   4. Continues polling
  *
+ * DEPRECATED: Deployments receive "Request Analysis" through the Notion
+ * webhook subscription (see lib/integrations/notion/webhooks.ts). Only use
+ * this locally, where Notion can't reach the webhook.
+ *
  * Usage:
  *   npm run poll
  *   # or
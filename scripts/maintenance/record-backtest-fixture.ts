@@ -0,0 +1,104 @@
+/**
+ * Record Backtest Fixture
+ *
+ * Pulls historical prices, annual filings and FRED series for a ticker
+ * universe and saves them as a JSON fixture for offline backtests
+ * (see scripts/test/backtest.ts).
+ *
+ * Usage:
+ *   npx ts-node scripts/maintenance/record-backtest-fixture.ts AAPL,MSFT,NVDA --from=2022-01-01 --to=2024-06-30
+ *   npx ts-node scripts/maintenance/record-backtest-fixture.ts AAPL,MSFT --from=2023-01-01 --to=2023-12-31 --out=tests/fixtures/backtest/mega-caps.json
+ *   npx ts-node scripts/maintenance/record-backtest-fixture.ts KO,PG --from=2023-01-01 --to=2023-12-31 --benchmark=none
+ */
+
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+import { createFMPClient } from '../../lib/integrations/fmp/client';
+import { createFREDClient } from '../../lib/integrations/fred/client';
+import { recordBacktestFixture, saveBacktestFixture } from '../../lib/domain/backtest';
+
+// Load environment variables
+dotenv.config();
+
+async function recordFixture(
+  tickers: string[],
+  options: { from: string; to: string; out: string; benchmark: string | null }
+) {
+  console.log('='.repeat(60));
+  console.log(`Recording backtest fixture: ${tickers.join(', ')}`);
+  console.log(`Range: ${options.from} → ${options.to}`);
+  console.log('='.repeat(60));
+
+  const fmpApiKey = process.env.FMP_API_KEY;
+  const fredApiKey = process.env.FRED_API_KEY;
+
+  if (!fmpApiKey) throw new Error('FMP_API_KEY not set in .env');
+  if (!fredApiKey) throw new Error('FRED_API_KEY not set in .env');
+
+  const fixture = await recordBacktestFixture(
+    createFMPClient(fmpApiKey),
+    createFREDClient(fredApiKey),
+    tickers,
+    options.from,
+    options.to,
+    { benchmark: options.benchmark }
+  );
+
+  saveBacktestFixture(fixture, options.out);
+
+  const recorded = Object.keys(fixture.tickers);
+  const skipped = tickers.filter((t) => !recorded.includes(t.toUpperCase()));
+
+  console.log(`\n✅ Recorded ${recorded.length} ticker(s) to ${options.out}`);
+  if (skipped.length > 0) {
+    console.log(`⚠️  Skipped: ${skipped.join(', ')}`);
+  }
+  console.log(`   Benchmark: ${fixture.benchmark?.symbol || 'none (profile beta)'}`);
+  console.log(`   FRED series: ${Object.keys(fixture.macro).join(', ')}`);
+}
+
+const args = process.argv.slice(2);
+
+if (args.length === 0 || args[0].startsWith('--')) {
+  console.error('Usage: npx ts-node scripts/maintenance/record-backtest-fixture.ts TICKER[,TICKER...] --from=YYYY-MM-DD --to=YYYY-MM-DD [options]');
+  console.error('\nOptions:');
+  console.error('  --out=PATH            Output file (default: tests/fixtures/backtest/<from>_<to>.json)');
+  console.error('  --benchmark=SYMBOL    Benchmark for rolling beta (default: SPY, "none" to skip)');
+  process.exit(1);
+}
+
+const tickers = args[0].split(',').map((t) => t.trim()).filter(Boolean);
+const options: { from: string; to: string; out: string; benchmark: string | null } = {
+  from: '',
+  to: '',
+  out: '',
+  benchmark: 'SPY',
+};
+
+// Parse options
+for (let i = 1; i < args.length; i++) {
+  const arg = args[i];
+
+  if (arg.startsWith('--from=')) {
+    options.from = arg.split('=')[1];
+  } else if (arg.startsWith('--to=')) {
+    options.to = arg.split('=')[1];
+  } else if (arg.startsWith('--out=')) {
+    options.out = arg.split('=')[1];
+  } else if (arg.startsWith('--benchmark=')) {
+    const benchmark = arg.split('=')[1];
+    options.benchmark = benchmark === 'none' ? null : benchmark.toUpperCase();
+  }
+}
+
+if (!options.from || !options.to) {
+  console.error('❌ --from and --to are required');
+  process.exit(1);
+}
+
+options.out = options.out || path.join('tests', 'fixtures', 'backtest', `${options.from}_${options.to}.json`);
+
+recordFixture(tickers, options).catch((error) => {
+  console.error('❌ Recording failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,118 @@
+/**
+ * Record Prompt Evaluation Fixture
+ *
+ * Runs the analysis pipeline for a set of tickers up to the LLM call and
+ * saves each AnalysisContext as a JSON fixture for offline prompt
+ * evaluation (see scripts/test/prompt-eval.ts). No narratives are
+ * generated, so recording costs market data calls only.
+ *
+ * With NOTION_API_KEY, STOCK_ANALYSES_DB_ID and STOCK_HISTORY_DB_ID set, the
+ * contexts include previous analyses and deltas, like a repeat analysis.
+ *
+ * Usage:
+ *   npx ts-node scripts/maintenance/record-prompt-fixture.ts AAPL,MSFT,NVDA
+ *   npx ts-node scripts/maintenance/record-prompt-fixture.ts AAPL,KO --out=tests/fixtures/prompts/mixed.json --no-market
+ */
+
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+import { analyzeStockCore } from '../../lib/domain/stock/analyzer';
+import { getMarketContext, MarketContext } from '../../lib/domain/market/index';
+import { createFMPClient } from '../../lib/integrations/fmp/client';
+import { createFREDClient } from '../../lib/integrations/fred/client';
+import { AnalysisContext } from '../../lib/integrations/llm/types';
+import { createPromptEvalFixture, savePromptEvalFixture } from '../../lib/integrations/llm/eval';
+import { configureLogger, LogLevel } from '../../lib/core/logger';
+import { getTimezoneFromEnv } from '../../lib/shared/timezone';
+
+// Load environment variables
+dotenv.config();
+
+async function recordFixture(tickers: string[], options: { out: string; market: boolean }) {
+  console.log('='.repeat(60));
+  console.log(`Recording prompt fixture: ${tickers.join(', ')}`);
+  console.log('='.repeat(60));
+
+  const fmpApiKey = process.env.FMP_API_KEY;
+  const fredApiKey = process.env.FRED_API_KEY;
+
+  if (!fmpApiKey) throw new Error('FMP_API_KEY not set in .env');
+  if (!fredApiKey) throw new Error('FRED_API_KEY not set in .env');
+
+  let marketContext: MarketContext | null = null;
+  if (options.market) {
+    marketContext = await getMarketContext(createFMPClient(fmpApiKey), createFREDClient(fredApiKey));
+    console.log(`Market regime: ${marketContext.regime}`);
+  }
+
+  const contexts: AnalysisContext[] = [];
+  for (const ticker of tickers) {
+    const captured: { context?: AnalysisContext } = {};
+
+    const result = await analyzeStockCore({
+      ticker,
+      userAccessToken: process.env.NOTION_API_KEY || '',
+      notionUserId: process.env.NOTION_USER_ID || '',
+      timezone: getTimezoneFromEnv(),
+      marketContext,
+      stockAnalysesDbId: process.env.NOTION_API_KEY ? process.env.STOCK_ANALYSES_DB_ID : undefined,
+      stockHistoryDbId: process.env.NOTION_API_KEY ? process.env.STOCK_HISTORY_DB_ID : undefined,
+      // Only the context is needed - a "skip" budget stops before the LLM call
+      budget: { action: 'skip', spent: 0, budget: 0, tier: 'Fixture' },
+      onContext: (context) => {
+        captured.context = context;
+      },
+    });
+
+    if (!captured.context) {
+      console.log(`⚠️  ${ticker}: skipped (${result.error || 'no context built'})`);
+      continue;
+    }
+    contexts.push(captured.context);
+    console.log(`✅ ${ticker}: composite ${result.scores.composite.toFixed(2)}${result.deltas ? ', with deltas' : ''}`);
+  }
+
+  if (contexts.length === 0) {
+    throw new Error('No contexts recorded');
+  }
+
+  savePromptEvalFixture(createPromptEvalFixture(contexts), options.out);
+  console.log(`\n💾 Recorded ${contexts.length} context(s) to ${options.out}`);
+}
+
+const args = process.argv.slice(2);
+
+if (args.length === 0 || args[0].startsWith('--')) {
+  console.error('Usage: npx ts-node scripts/maintenance/record-prompt-fixture.ts TICKER[,TICKER...] [options]');
+  console.error('\nOptions:');
+  console.error('  --out=PATH     Output file (default: tests/fixtures/prompts/<date>.json)');
+  console.error('  --no-market    Record without market regime context');
+  process.exit(1);
+}
+
+const tickers = args[0].split(',').map((t) => t.trim().toUpperCase()).filter(Boolean);
+const options = {
+  out: '',
+  market: true,
+};
+
+// Parse options
+for (let i = 1; i < args.length; i++) {
+  const arg = args[i];
+
+  if (arg.startsWith('--out=')) {
+    options.out = arg.split('=')[1];
+  } else if (arg === '--no-market') {
+    options.market = false;
+  }
+}
+
+options.out = options.out || path.join('tests', 'fixtures', 'prompts', `${new Date().toISOString().split('T')[0]}.json`);
+
+// The scorer logs every calculation - keep the console readable
+configureLogger({ minLevel: LogLevel.ERROR });
+
+recordFixture(tickers, options).catch((error) => {
+  console.error('❌ Recording failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,217 @@
+/**
+ * Backtest Engine Checks
+ *
+ * Replays the committed synthetic fixture (three tickers, one year of
+ * bars, annual filings and a few FRED observations) and checks that scored
+ * days only see data public on that day, that forward returns and bucket
+ * statistics add up, and that weight profiles only change the composite.
+ * No API calls.
+ *
+ * Usage:
+ *   npx ts-node scripts/test/backtest-engine.ts
+ */
+
+import * as path from 'path';
+import { ScoringConfig, WeightProfileName } from '../../config/scoring/config';
+import { ValidationError } from '../../lib/core/errors';
+import { configureLogger, LogLevel } from '../../lib/core/logger';
+import { createStockScorer } from '../../lib/domain/analysis/scoring';
+import { getWeightProfile } from '../../lib/domain/analysis/weight-profiles';
+import {
+  loadBacktestFixture,
+  runBacktest,
+  BacktestFixture,
+  BacktestObservation,
+} from '../../lib/domain/backtest';
+
+const FIXTURE_PATH = path.join(__dirname, '../../tests/fixtures/backtest/synthetic-2023-12_2024-02.json');
+
+let failures = 0;
+
+function check(label: string, actual: unknown, expected: unknown) {
+  const pass = typeof expected === 'number' && typeof actual === 'number'
+    ? Math.abs(actual - expected) < 1e-9
+    : JSON.stringify(actual) === JSON.stringify(expected);
+  if (!pass) failures++;
+  console.log(`${pass ? '✅' : '❌'} ${label}${pass ? '' : ` - expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`}`);
+}
+
+function find(observations: BacktestObservation[], ticker: string, date: string): BacktestObservation {
+  const obs = observations.find((o) => o.ticker === ticker && o.date === date);
+  if (!obs) throw new Error(`no ${ticker} observation on ${date}`);
+  return obs;
+}
+
+function round4(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+// The scorer logs every calculation - keep the console readable
+configureLogger({ minLevel: LogLevel.ERROR });
+
+const fixture = loadBacktestFixture(FIXTURE_PATH);
+const report = runBacktest(fixture, { horizons: [5, 20, 60] });
+
+console.log('🧪 Point-in-time reconstruction (no look-ahead)\n');
+{
+  check('First scored day is the fixture start', report.observations[0].date, fixture.from);
+  check('MA200 is warm on the first scored day', report.observations[0].data.technical.ma_200 !== undefined, true);
+
+  // Rewrite every bar after the cutoff except the last one (the recorded
+  // market cap is anchored to the final close, as at record time)
+  const cutoff = '2024-01-16';
+  const altered: BacktestFixture = JSON.parse(JSON.stringify(fixture));
+  for (const ticker of Object.values(altered.tickers)) {
+    for (const bar of ticker.prices.slice(0, -1)) {
+      if (bar.date <= cutoff) continue;
+      bar.open *= 1.5;
+      bar.high *= 1.5;
+      bar.low *= 1.5;
+      bar.close *= 1.5;
+      bar.volume *= 3;
+    }
+  }
+  const alteredReport = runBacktest(altered, { horizons: [5, 20, 60] });
+
+  const inputsAndScores = (o: BacktestObservation) => JSON.stringify([o.data, o.scores]);
+  let unchanged = 0;
+  let changedAfterCutoff = 0;
+  let before = 0;
+  report.observations.forEach((obs, i) => {
+    const same = inputsAndScores(obs) === inputsAndScores(alteredReport.observations[i]);
+    if (obs.date <= cutoff) {
+      before++;
+      if (same) unchanged++;
+    } else if (!same) {
+      changedAfterCutoff++;
+    }
+  });
+  check(`Inputs and scores up to ${cutoff} ignore later bars`, unchanged, before);
+  check('Later days do see the rewritten bars', changedAfterCutoff > 0, true);
+
+  const uptr = (date: string) => find(report.observations, 'UPTR', date).data.fundamental;
+  check('EPS before the FY2023 filing date', uptr('2024-01-31').eps, 2);
+  check('EPS from the FY2023 filing date', uptr('2024-02-01').eps, 5);
+  check('Debt/equity from the FY2023 filing date', uptr('2024-02-01').debt_to_equity, 0.25);
+
+  // No fillingDate: public 75 days after period end (2024-03-15), after the range
+  check('Filing without a filing date is not used early', find(report.observations, 'DNTR', fixture.to).data.fundamental.eps, 3);
+
+  const macro = (date: string) => find(report.observations, 'CHOP', date).data.macro;
+  check('January unemployment before its release lag', macro('2024-02-02').unemployment, 3.7);
+  check('January unemployment after its release lag', macro('2024-02-05').unemployment, 4.6);
+  check('Yield curve from the latest public readings', macro('2024-01-04').yield_curve_spread, 3.9 - 4.3);
+  check('Null FRED observations are skipped', macro('2024-01-05').vix, 13.2);
+}
+
+console.log('\n🧪 Forward return accounting\n');
+{
+  const prices = fixture.tickers.UPTR.prices;
+  const start = prices.findIndex((bar) => bar.date === fixture.from);
+  const first = find(report.observations, 'UPTR', fixture.from);
+
+  check('Scored days per ticker', report.observations.filter((o) => o.ticker === 'UPTR').length, 61);
+  check('Total observations', report.totalObservations, 183);
+  check('5-day forward return', first.forwardReturns[5], prices[start + 5].close / prices[start].close - 1);
+  check('60-day forward return', first.forwardReturns[60], prices[start + 60].close / prices[start].close - 1);
+  check('Horizon past the last bar is null', find(report.observations, 'UPTR', fixture.to).forwardReturns[60], null);
+  check(
+    '60-day returns stop 60 bars before the end',
+    report.observations.filter((o) => o.ticker === 'UPTR' && o.forwardReturns[60] !== null).length,
+    prices.length - 60 - start
+  );
+
+  check('Buckets cover every observation', report.buckets.reduce((sum, b) => sum + b.observations, 0), report.totalObservations);
+
+  for (const bucket of report.buckets) {
+    const group = report.observations.filter((o) => o.scores.recommendation === bucket.recommendation);
+    const returns = group.map((o) => o.forwardReturns[20]).filter((r): r is number => r !== null);
+    check(`${bucket.recommendation}: 20-day count`, bucket.horizons[20].count, returns.length);
+    check(
+      `${bucket.recommendation}: 20-day mean`,
+      bucket.horizons[20].meanReturn,
+      round4(returns.reduce((sum, r) => sum + r, 0) / returns.length)
+    );
+  }
+
+  const bullish = ['Strong Buy', 'Buy', 'Moderate Buy'];
+  const bearish = ['Moderate Sell', 'Sell', 'Strong Sell'];
+  const directional = report.observations.filter(
+    (o) => o.forwardReturns[5] !== null && [...bullish, ...bearish].includes(o.scores.recommendation)
+  );
+  const hits = directional.filter((o) =>
+    (bullish.includes(o.scores.recommendation) && (o.forwardReturns[5] as number) > 0) ||
+    (bearish.includes(o.scores.recommendation) && (o.forwardReturns[5] as number) < 0)
+  ).length;
+  check('Directional count excludes Hold', report.hitRate[5].count, directional.length);
+  check('Directional hit rate', report.hitRate[5].hitRate, directional.length > 0 ? round4(hits / directional.length) : null);
+
+  const stepped = runBacktest(fixture, { tickers: ['uptr'], stepDays: 5, horizons: [5] });
+  check('Ticker filter is case-insensitive', stepped.tickers, ['UPTR']);
+  check('Every 5th trading day is scored', stepped.observations.map((o) => o.date).slice(0, 3), [
+    prices[start].date,
+    prices[start + 5].date,
+    prices[start + 10].date,
+  ]);
+
+  let rejected = false;
+  try {
+    runBacktest(fixture, { tickers: ['MSFT'] });
+  } catch (error) {
+    rejected = error instanceof ValidationError;
+  }
+  check('Tickers outside the fixture are rejected', rejected, true);
+}
+
+console.log('\n🧪 Weight profile comparison\n');
+{
+  const profiles = Object.keys(ScoringConfig.WEIGHT_PROFILES) as WeightProfileName[];
+  const reports = profiles.map((profile) => runBacktest(fixture, { profile, horizons: [20] }));
+  const balanced = reports[profiles.indexOf(ScoringConfig.DEFAULT_WEIGHT_PROFILE)];
+
+  check('Default run uses the default profile', report.profile, ScoringConfig.DEFAULT_WEIGHT_PROFILE);
+
+  profiles.forEach((profile, p) => {
+    const run = reports[p];
+    const scorer = createStockScorer(getWeightProfile(profile));
+    let sameCategories = 0;
+    let reweighted = 0;
+
+    run.observations.forEach((obs, i) => {
+      const base = balanced.observations[i].scores;
+      const { technical, fundamental, macro, risk, sentiment, marketAlignment } = obs.scores;
+      if (JSON.stringify([technical, fundamental, macro, risk, sentiment, marketAlignment]) ===
+          JSON.stringify([base.technical, base.fundamental, base.macro, base.risk, base.sentiment, base.marketAlignment])) {
+        sameCategories++;
+      }
+      if (scorer.reweight(base).composite === obs.scores.composite) reweighted++;
+    });
+
+    check(`${profile}: report and scores carry the profile`, [run.profile, run.observations[0].scores.weightProfile], [profile, profile]);
+    check(`${profile}: category scores match Balanced`, sameCategories, run.totalObservations);
+    check(`${profile}: composite matches re-weighting the Balanced scores`, reweighted, run.totalObservations);
+  });
+
+  const growth = reports[profiles.indexOf('Growth')];
+  const value = reports[profiles.indexOf('Value')];
+  check(
+    'Growth and Value rank some days differently',
+    growth.observations.some((o, i) => o.scores.composite !== value.observations[i].scores.composite),
+    true
+  );
+
+  let rejected = false;
+  try {
+    runBacktest(fixture, { profile: 'Momentum' as WeightProfileName });
+  } catch (error) {
+    rejected = error instanceof ValidationError;
+  }
+  check('Unknown profiles are rejected', rejected, true);
+}
+
+console.log('\n' + '='.repeat(60));
+if (failures > 0) {
+  console.error(`❌ ${failures} check(s) failed`);
+  process.exit(1);
+}
+console.log('✅ All checks passed!');
@@ -0,0 +1,118 @@
+/**
+ * Backtest Runner
+ *
+ * Replays StockScorer over a recorded fixture (no API calls) and prints
+ * forward returns by recommendation bucket, directional hit rate and
+ * information coefficient. Edit config/scoring/config.ts and re-run to
+ * compare threshold changes.
+ *
+ * Record fixtures first with scripts/maintenance/record-backtest-fixture.ts.
+ *
+ * Usage:
+ *   npx ts-node scripts/test/backtest.ts tests/fixtures/backtest/2022-01-01_2024-06-30.json
+ *   npx ts-node scripts/test/backtest.ts FIXTURE --tickers=AAPL,MSFT --step=5
+ *   npx ts-node scripts/test/backtest.ts FIXTURE --horizons=5,20,60 --json=backtest-report.json
+ *   npx ts-node scripts/test/backtest.ts FIXTURE --profile=Value
+ */
+
+import * as fs from 'fs';
+import type { WeightProfileName } from '../../config/scoring/config';
+import { configureLogger, LogLevel } from '../../lib/core/logger';
+import {
+  loadBacktestFixture,
+  runBacktest,
+  BacktestOptions,
+  BacktestReport,
+  ReturnStats,
+} from '../../lib/domain/backtest';
+
+function formatPercent(value: number | null): string {
+  if (value === null) return '—';
+  return `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+}
+
+function formatStats(stats: ReturnStats): string {
+  const hit = stats.hitRate === null ? '—' : `${(stats.hitRate * 100).toFixed(1)}%`;
+  return `${formatPercent(stats.meanReturn).padStart(8)} (med ${formatPercent(stats.medianReturn)}, hit ${hit}, n=${stats.count})`;
+}
+
+function printReport(report: BacktestReport) {
+  console.log('='.repeat(60));
+  console.log(`Backtest: ${report.tickers.join(', ')}`);
+  console.log(`Range: ${report.from} → ${report.to}`);
+  console.log(`Profile: ${report.profile}`);
+  console.log(`Scored days: ${report.totalObservations}`);
+  console.log('='.repeat(60));
+
+  for (const horizon of report.horizons) {
+    console.log(`\n📈 Forward ${horizon}-day returns by recommendation`);
+    for (const bucket of report.buckets) {
+      console.log(
+        `  ${bucket.recommendation.padEnd(14)} ${formatStats(bucket.horizons[horizon])}  avg score ${bucket.averageComposite.toFixed(2)}`
+      );
+    }
+
+    const ic = report.informationCoefficient[horizon];
+    const crossSectional = ic.crossSectional === null
+      ? '—'
+      : `${ic.crossSectional.toFixed(4)} over ${ic.crossSectionalDates} dates`;
+    console.log(`  ${'Directional'.padEnd(14)} ${formatStats(report.hitRate[horizon])}`);
+    console.log(`  IC (pooled): ${ic.pooled === null ? '—' : ic.pooled.toFixed(4)}   IC (cross-sectional): ${crossSectional}`);
+  }
+}
+
+const args = process.argv.slice(2);
+
+if (args.length === 0 || args[0].startsWith('--')) {
+  console.error('Usage: npx ts-node scripts/test/backtest.ts FIXTURE [options]');
+  console.error('\nOptions:');
+  console.error('  --from=YYYY-MM-DD     First scored date (default: fixture range)');
+  console.error('  --to=YYYY-MM-DD       Last scored date (default: fixture range)');
+  console.error('  --tickers=A,B,C       Subset of fixture tickers');
+  console.error('  --horizons=5,20,60    Forward horizons in trading days');
+  console.error('  --step=N              Score every Nth trading day (default: 1)');
+  console.error('  --profile=NAME        Weight profile (Balanced, Growth, Value, Income, Defensive)');
+  console.error('  --json=PATH           Also write the full report (incl. observations) as JSON');
+  process.exit(1);
+}
+
+const fixturePath = args[0];
+const options: BacktestOptions = {};
+let jsonPath: string | null = null;
+
+// Parse options
+for (let i = 1; i < args.length; i++) {
+  const arg = args[i];
+
+  if (arg.startsWith('--from=')) {
+    options.from = arg.split('=')[1];
+  } else if (arg.startsWith('--to=')) {
+    options.to = arg.split('=')[1];
+  } else if (arg.startsWith('--tickers=')) {
+    options.tickers = arg.split('=')[1].split(',').map((t) => t.trim()).filter(Boolean);
+  } else if (arg.startsWith('--horizons=')) {
+    options.horizons = arg.split('=')[1].split(',').map((h) => parseInt(h, 10));
+  } else if (arg.startsWith('--step=')) {
+    options.stepDays = parseInt(arg.split('=')[1], 10);
+  } else if (arg.startsWith('--profile=')) {
+    options.profile = arg.split('=')[1] as WeightProfileName;
+  } else if (arg.startsWith('--json=')) {
+    jsonPath = arg.split('=')[1];
+  }
+}
+
+// The scorer logs every calculation - keep the console readable
+configureLogger({ minLevel: LogLevel.ERROR });
+
+try {
+  const report = runBacktest(loadBacktestFixture(fixturePath), options);
+  printReport(report);
+
+  if (jsonPath) {
+    fs.writeFileSync(jsonPath, JSON.stringify(report, null, 2));
+    console.log(`\n💾 Full report written to ${jsonPath}`);
+  }
+} catch (error) {
+  console.error('❌ Backtest failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
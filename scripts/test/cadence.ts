@@ -0,0 +1,167 @@
+/**
+ * Analysis Cadence Checks
+ *
+ * Checks scheduling for each cadence against the NYSE calendar: weekly and
+ * monthly runs landing on holidays and weekends, catch-up after a missed
+ * run, Before Earnings with and without an earnings date, and On Big Move
+ * thresholds. No API calls.
+ *
+ * Usage:
+ *   npx ts-node scripts/test/cadence.ts
+ */
+
+import {
+  AnalysisCadence,
+  CadenceSettings,
+  checkCadence,
+  nextScheduledRun,
+  parseCadenceSettings,
+} from '../../lib/orchestration/cadence';
+
+let failures = 0;
+
+function check(label: string, actual: unknown, expected: unknown) {
+  const pass = JSON.stringify(actual) === JSON.stringify(expected);
+  if (!pass) failures++;
+  console.log(`${pass ? '✅' : '❌'} ${label}${pass ? '' : ` - expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`}`);
+}
+
+function settings(cadence: AnalysisCadence, overrides: Partial<CadenceSettings> = {}): CadenceSettings {
+  return { cadence, analysisDay: 'Monday', moveThresholdPct: 5, ...overrides };
+}
+
+console.log('🧪 Page settings\n');
+{
+  check('Blank page', parseCadenceSettings({}), settings('None'));
+  check('Set values', parseCadenceSettings({
+    'Analysis Cadence': { select: { name: 'Weekly' } },
+    'Analysis Day': { select: { name: 'Thursday' } },
+    'Move Threshold (%)': { number: 8 },
+  }), settings('Weekly', { analysisDay: 'Thursday', moveThresholdPct: 8 }));
+  check('Unknown cadence, weekend day and zero threshold fall back', parseCadenceSettings({
+    'Analysis Cadence': { select: { name: 'Hourly' } },
+    'Analysis Day': { select: { name: 'Saturday' } },
+    'Move Threshold (%)': { number: 0 },
+  }), settings('None'));
+}
+
+console.log('\n🧪 Calendar cadences\n');
+{
+  check('Daily skips Independence Day', nextScheduledRun(settings('Daily'), '2025-07-03'), '2025-07-07');
+
+  // Presidents' Day (Mon 2025-02-17) and Good Friday (2025-04-18)
+  check('Weekly Monday on a holiday runs Tuesday', nextScheduledRun(settings('Weekly'), '2025-02-10'), '2025-02-18');
+  check('...then the following Monday', nextScheduledRun(settings('Weekly'), '2025-02-18'), '2025-02-24');
+  check(
+    'Weekly Friday on Good Friday runs the next trading day',
+    nextScheduledRun(settings('Weekly', { analysisDay: 'Friday' }), '2025-04-11'),
+    '2025-04-21'
+  );
+
+  check('Monthly skips New Year\'s Day', nextScheduledRun(settings('Monthly'), '2024-12-31'), '2025-01-02');
+  check('Monthly skips a weekend 1st', nextScheduledRun(settings('Monthly'), '2025-01-02'), '2025-02-03');
+  check('Monthly later in the month waits for next month', nextScheduledRun(settings('Monthly'), '2025-03-15'), '2025-04-01');
+  check('None has no schedule', nextScheduledRun(settings('None'), '2025-03-15'), null);
+}
+
+console.log('\n🧪 Due today\n');
+{
+  check('Weekly on the shifted holiday run', checkCadence({ settings: settings('Weekly'), today: '2025-02-18', lastRun: '2025-02-10' }), {
+    due: true,
+    reason: 'scheduled today',
+    nextScheduled: '2025-02-24',
+  });
+  check('Weekly not due on the holiday itself', checkCadence({ settings: settings('Weekly'), today: '2025-02-17', lastRun: '2025-02-10' }), {
+    due: false,
+    reason: 'next run 2025-02-18',
+    nextScheduled: '2025-02-18',
+  });
+  check('Missed weekly run is caught up', checkCadence({ settings: settings('Weekly'), today: '2025-03-12', lastRun: '2025-03-03' }), {
+    due: true,
+    reason: 'catching up run due 2025-03-10',
+    nextScheduled: '2025-03-17',
+  });
+  check('Never run: due on the first scheduled day', checkCadence({ settings: settings('Weekly'), today: '2025-03-10' }).due, true);
+  check('Never run: not due before it', checkCadence({ settings: settings('Weekly'), today: '2025-03-11' }).nextScheduled, '2025-03-17');
+  check('Failed run is retried', checkCadence({
+    settings: settings('Monthly'),
+    today: '2025-03-04',
+    lastRun: '2025-03-03',
+    lastRunFailed: true,
+  }), { due: true, reason: 'retrying failed run', nextScheduled: '2025-04-01' });
+  check('...but not twice in a day', checkCadence({
+    settings: settings('Daily'),
+    today: '2025-03-04',
+    lastRun: '2025-03-04',
+    lastRunFailed: true,
+  }).due, false);
+  check('None is never due', checkCadence({ settings: settings('None'), today: '2025-03-04' }), {
+    due: false,
+    reason: 'no cadence',
+    nextScheduled: null,
+  });
+}
+
+console.log('\n🧪 Before Earnings\n');
+{
+  const beforeEarnings = settings('Before Earnings');
+
+  check('No earnings date', checkCadence({ settings: beforeEarnings, today: '2025-02-14' }), {
+    due: false,
+    reason: 'no upcoming earnings',
+    nextScheduled: null,
+  });
+  check('Only past earnings dates', checkCadence({ settings: beforeEarnings, today: '2025-02-14', earningsDates: ['2025-01-30'] }).reason, 'no upcoming earnings');
+
+  // Earnings Tue 2025-02-18: one session earlier is Fri 2025-02-14 (Monday is a holiday)
+  check('Runs the session before earnings', checkCadence({ settings: beforeEarnings, today: '2025-02-14', earningsDates: ['2025-02-18'] }), {
+    due: true,
+    reason: 'scheduled today',
+    nextScheduled: null,
+  });
+  check('Waits until then', checkCadence({ settings: beforeEarnings, today: '2025-02-12', earningsDates: ['2025-02-18'] }), {
+    due: false,
+    reason: 'next run 2025-02-14',
+    nextScheduled: '2025-02-14',
+  });
+  check('Missed run catches up on earnings day', checkCadence({
+    settings: beforeEarnings,
+    today: '2025-02-18',
+    lastRun: '2025-02-10',
+    earningsDates: ['2025-02-18', '2025-05-06'],
+  }), { due: true, reason: 'catching up run due 2025-02-14', nextScheduled: '2025-05-05' });
+}
+
+console.log('\n🧪 On Big Move\n');
+{
+  const bigMove = settings('On Big Move');
+  const quote = (price: number, changesPercentage: number = 0) => ({ price, changesPercentage });
+
+  check('No quote', checkCadence({ settings: bigMove, today: '2025-03-04' }).reason, 'no quote');
+  check('Move since the last analysis over the threshold', checkCadence({
+    settings: bigMove,
+    today: '2025-03-04',
+    lastPrice: 100,
+    quote: quote(106),
+  }), { due: true, reason: 'moved +6.0% (threshold 5%)', nextScheduled: null });
+  check('Under the threshold', checkCadence({ settings: bigMove, today: '2025-03-04', lastPrice: 100, quote: quote(104) }), {
+    due: false,
+    reason: 'moved +4.0%',
+    nextScheduled: null,
+  });
+  check('Without a last price, the day\'s change counts', checkCadence({ settings: bigMove, today: '2025-03-04', quote: quote(93, -7.2) }).reason, 'moved -7.2% (threshold 5%)');
+  check('Page threshold applies', checkCadence({
+    settings: settings('On Big Move', { moveThresholdPct: 10 }),
+    today: '2025-03-04',
+    lastPrice: 100,
+    quote: quote(106),
+  }).due, false);
+  check('Once a day', checkCadence({ settings: bigMove, today: '2025-03-04', lastRun: '2025-03-04', lastPrice: 100, quote: quote(120) }).reason, 'already analyzed today');
+}
+
+console.log('\n' + '='.repeat(60));
+if (failures > 0) {
+  console.error(`❌ ${failures} check(s) failed`);
+  process.exit(1);
+}
+console.log('✅ All checks passed!');
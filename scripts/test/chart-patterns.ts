@@ -0,0 +1,204 @@
+/**
+ * Chart Pattern Checks
+ *
+ * Builds textbook shapes from straight price legs (high/low = close ± 0.5)
+ * and checks the detected pattern, its breakout level, measured-move target
+ * and status, the Pattern Score/Signal mapping and prediction outcomes.
+ * No API calls.
+ *
+ * Usage:
+ *   npx ts-node scripts/test/chart-patterns.ts
+ */
+
+import { ScoringConfig } from '../../config/scoring/config';
+import {
+  ChartPattern,
+  PatternAnalysis,
+  detectChartPatterns,
+  evaluatePatternOutcome,
+  formatPatternSummary,
+  patternSignal,
+} from '../../lib/domain/analysis/chart-patterns';
+import { OHLCVBar, smaSeries } from '../../lib/domain/analysis/indicators';
+
+let failures = 0;
+
+function check(label: string, actual: unknown, expected: unknown) {
+  const pass = typeof expected === 'number' && typeof actual === 'number'
+    ? Math.abs(actual - expected) < 1e-9
+    : JSON.stringify(actual) === JSON.stringify(expected);
+  if (!pass) failures++;
+  console.log(`${pass ? '✅' : '❌'} ${label}${pass ? '' : ` - expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`}`);
+}
+
+function day(i: number): string {
+  const d = new Date(Date.UTC(2024, 0, 1 + i));
+  return d.toISOString().split('T')[0];
+}
+
+/**
+ * Closes along straight legs, e.g. [[0, 120], [20, 100]] = 120 down to 100 over bars 0-20
+ */
+function legs(points: Array<[number, number]>): OHLCVBar[] {
+  const bars: OHLCVBar[] = [];
+  for (let p = 1; p < points.length; p++) {
+    const [fromIndex, fromClose] = points[p - 1];
+    const [toIndex, toClose] = points[p];
+    for (let i = p === 1 ? fromIndex : fromIndex + 1; i <= toIndex; i++) {
+      const close = fromClose + ((toClose - fromClose) * (i - fromIndex)) / (toIndex - fromIndex);
+      bars.push({ date: day(i), high: close + 0.5, low: close - 0.5, close, volume: 1000 });
+    }
+  }
+  return bars;
+}
+
+function named(analysis: PatternAnalysis, name: string): ChartPattern | undefined {
+  return analysis.patterns.find((pattern) => pattern.name === name);
+}
+
+function score(net: number): number {
+  return Math.round((3 + 2 * Math.tanh(net / ScoringConfig.PATTERN_SCORE_SCALE)) * 100) / 100;
+}
+
+const weights = ScoringConfig.PATTERN_WEIGHTS;
+const forming = ScoringConfig.PATTERN_FORMING_FACTOR;
+
+console.log('🧪 No patterns\n');
+{
+  const flat = detectChartPatterns(legs([[0, 100], [59, 100]]));
+  check('Flat series finds nothing', flat.patterns, []);
+  check('Neutral score', [flat.score, flat.signal], [3, '✋ Neutral']);
+  check('No prediction', [flat.expectedMove, flat.daysToBreakout], [undefined, undefined]);
+  check('Summary', formatPatternSummary(flat), '✋ Neutral - no chart patterns detected');
+  check('Fewer than 30 bars are skipped', detectChartPatterns(legs([[0, 100], [10, 90], [20, 100]])).patterns, []);
+  check('Empty input', detectChartPatterns([]).asOf, null);
+}
+
+console.log('\n🧪 Double bottom\n');
+{
+  // Troughs at bars 20 and 50 (low 99.5), neckline = bar 35 high (115.5)
+  const bars = legs([[0, 120], [20, 100], [35, 115], [50, 100], [58, 108]]);
+  const analysis = detectChartPatterns(bars);
+  const pattern = named(analysis, 'Double Bottom');
+
+  check('Detected', pattern !== undefined, true);
+  check('Neckline and measured move', [pattern?.breakoutLevel, pattern?.target], [115.5, 131.5]);
+  check('Forming below the neckline', [pattern?.status, pattern?.weight], ['forming', weights.doubleTopBottom * forming]);
+  check('Starts at the first trough', pattern?.startDate, day(20));
+  check('Horizon = trough separation', pattern?.horizonDays, 30);
+  check('Prediction follows the pattern', [analysis.expectedMove, analysis.daysToBreakout], [131.5 / 108 - 1, 30]);
+  check('Score from the discounted weight', analysis.score, score(weights.doubleTopBottom * forming));
+
+  const confirmed = named(detectChartPatterns(bars, 118), 'Double Bottom');
+  check('Confirmed above the neckline', [confirmed?.status, confirmed?.weight], ['confirmed', weights.doubleTopBottom]);
+  check('Invalidated below the troughs', named(detectChartPatterns(bars, 99), 'Double Bottom'), undefined);
+  check('Played out at the target', named(detectChartPatterns(bars, 132), 'Double Bottom'), undefined);
+}
+
+console.log('\n🧪 Head & shoulders\n');
+{
+  // Shoulders at bars 15 and 55 (high 115.5), head at 35 (125.5), troughs 104.5
+  const bars = legs([[0, 100], [15, 115], [25, 105], [35, 125], [45, 105], [55, 115], [68, 102]]);
+  const analysis = detectChartPatterns(bars);
+  const pattern = named(analysis, 'Head & Shoulders');
+
+  check('Detected', pattern !== undefined, true);
+  check('Neckline and measured move', [pattern?.breakoutLevel, pattern?.target], [104.5, 83.5]);
+  check('Confirmed below the neckline', [pattern?.direction, pattern?.status], ['bearish', 'confirmed']);
+  check('Troughs under the price are not a double bottom', named(analysis, 'Double Bottom'), undefined);
+  check('Bearish score and signal', [analysis.score, analysis.signal], [score(-weights.headAndShoulders), '🚨 Extremely Bearish']);
+  check('Prediction', [analysis.expectedMove, analysis.daysToBreakout], [83.5 / 102 - 1, 40]);
+  check('Invalidated above the head', named(detectChartPatterns(bars, 126), 'Head & Shoulders'), undefined);
+}
+
+console.log('\n🧪 Bull flag\n');
+{
+  // Pole 100 → 115 over bars 30-40, then an 8-bar drift down to 111
+  const bars = legs([[0, 100], [30, 100], [40, 115], [48, 111]]);
+  const pattern = named(detectChartPatterns(bars), 'Bull Flag');
+
+  check('Detected', pattern !== undefined, true);
+  check('Pole starts where the run-up does', pattern?.startDate, day(30));
+  check('Flag high and pole-height target', [pattern?.breakoutLevel, pattern?.target], [115, 130]);
+  check('Forming inside the flag', [pattern?.status, pattern?.weight], ['forming', weights.flag * forming]);
+  check('Horizon = pole + flag bars', pattern?.horizonDays, 19);
+  check('Confirmed through the flag high', named(detectChartPatterns(bars, 116), 'Bull Flag')?.status, 'confirmed');
+  check('A pullback past half the pole is not a flag', named(detectChartPatterns(legs([[0, 100], [30, 100], [40, 115], [48, 106]])), 'Bull Flag'), undefined);
+}
+
+console.log('\n🧪 52-week breakouts\n');
+{
+  const year = legs([[0, 100], [259, 100]]); // High 100.5, low 99.5
+
+  const high = named(detectChartPatterns(year, 101), '52-Week High Breakout');
+  check('Through the 52-week high', [high?.breakoutLevel, high?.status], [100.5, 'confirmed']);
+  check('Projected by the 20-day range', high?.target, 101.5);
+  check('Horizon = the range window', high?.horizonDays, 20);
+  check('Target never below the price', named(detectChartPatterns(year, 102), '52-Week High Breakout')?.expectedMove, 0);
+
+  const low = named(detectChartPatterns(year, 98), '52-Week Low Breakdown');
+  check('Through the 52-week low', [low?.breakoutLevel, low?.target], [99.5, 98]);
+  check('Inside the range finds nothing', detectChartPatterns(year, 100).patterns, []);
+  check('Needs a full year of bars', detectChartPatterns(year.slice(-251), 102).patterns, []);
+}
+
+console.log('\n🧪 Golden cross\n');
+{
+  const bars = legs([[0, 120], [220, 80], [300, 120]]);
+  const closes = bars.map((bar) => bar.close);
+  const sma50 = smaSeries(closes, 50);
+  const sma200 = smaSeries(closes, 200);
+  const cross = closes.findIndex((_, i) =>
+    i > 0 && sma200[i - 1] !== undefined && sma50[i - 1]! <= sma200[i - 1]! && sma50[i]! > sma200[i]!
+  );
+
+  const pattern = named(detectChartPatterns(bars.slice(0, cross + 3)), 'Golden Cross');
+  check('Detected after the SMA 50/200 cross', [pattern?.direction, pattern?.startDate], ['bullish', day(cross)]);
+  check('No measured move', pattern?.target, undefined);
+  check(
+    `Stale after ${ScoringConfig.CROSS_RECENCY_BARS} sessions`,
+    named(detectChartPatterns(bars.slice(0, cross + ScoringConfig.CROSS_RECENCY_BARS + 1)), 'Golden Cross'),
+    undefined
+  );
+}
+
+console.log('\n🧪 Signal mapping\n');
+{
+  check('Signal bands', [4.5, 3.5, 3.49, 3, 2.51, 2.5, 1.51, 1.5].map(patternSignal), [
+    '🚀 Extremely Bullish',
+    '📈 Bullish',
+    '✋ Neutral',
+    '✋ Neutral',
+    '✋ Neutral',
+    '📉 Bearish',
+    '📉 Bearish',
+    '🚨 Extremely Bearish',
+  ]);
+}
+
+console.log('\n🧪 Prediction outcomes\n');
+{
+  const bars = [
+    { date: '2024-03-01', close: 100 },
+    { date: '2024-03-04', close: 102 },
+    { date: '2024-03-05', close: 104 },
+    { date: '2024-03-06', close: 105 },
+  ];
+  const prediction = { analysisDate: '2024-03-01', price: 100, expectedMove: 0.1, daysToBreakout: 3 };
+
+  const outcome = evaluatePatternOutcome(bars, prediction);
+  check('Measured on the 3rd session after the analysis', outcome?.evaluatedOn, '2024-03-06');
+  check('Actual move', outcome?.actualMove, 105 / 100 - 1);
+  check('Half the expected move realized', [outcome?.predictionCorrect, outcome?.accuracy], [true, 50]);
+  check('Not due yet', evaluatePatternOutcome(bars.slice(0, 3), prediction), null);
+  check('Wrong way scores 0', evaluatePatternOutcome(bars, { ...prediction, expectedMove: -0.1 })?.accuracy, 0);
+  check('Overshoot caps at 100', evaluatePatternOutcome(bars, { ...prediction, expectedMove: 0.02 })?.accuracy, 100);
+  check('No expected move', evaluatePatternOutcome(bars, { ...prediction, expectedMove: 0 }), null);
+}
+
+console.log('\n' + '='.repeat(60));
+if (failures > 0) {
+  console.error(`❌ ${failures} check(s) failed`);
+  process.exit(1);
+}
+console.log('✅ All checks passed!');
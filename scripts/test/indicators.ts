@@ -0,0 +1,179 @@
+/**
+ * Technical Indicator Checks
+ *
+ * Runs the indicator library against published and hand-worked values:
+ * Wilder's RSI on the StockCharts sample closes, ATR/ADX on small bar
+ * sets, and series with closed-form MACD, Bollinger, OBV, stochastic, VWAP,
+ * 52-week range and volatility results. No API calls.
+ *
+ * Usage:
+ *   npx ts-node scripts/test/indicators.ts
+ */
+
+import {
+  OHLCVBar,
+  adxSeries,
+  atrSeries,
+  bollingerSeries,
+  dailyReturnVolatility,
+  emaSeries,
+  macdSeries,
+  obvSeries,
+  obvTrend,
+  rsiSeries,
+  smaSeries,
+  sortBarsAscending,
+  stochasticSeries,
+  vwapSeries,
+  weekRange52,
+} from '../../lib/domain/analysis/indicators';
+
+let failures = 0;
+
+function check(label: string, actual: unknown, expected: unknown) {
+  const pass = typeof expected === 'number' && typeof actual === 'number'
+    ? Math.abs(actual - expected) < 1e-9
+    : JSON.stringify(actual) === JSON.stringify(expected);
+  if (!pass) failures++;
+  console.log(`${pass ? '✅' : '❌'} ${label}${pass ? '' : ` - expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`}`);
+}
+
+function round2(values: Array<number | undefined>): Array<number | undefined> {
+  return values.map((value) => (value === undefined ? undefined : Math.round(value * 100) / 100));
+}
+
+function bar(date: string, high: number, low: number, close: number, volume: number = 1000): OHLCVBar {
+  return { date, high, low, close, volume };
+}
+
+function day(i: number): string {
+  const d = new Date(Date.UTC(2024, 0, 1 + i));
+  return d.toISOString().split('T')[0];
+}
+
+console.log('🧪 Wilder RSI (StockCharts sample)\n');
+{
+  const closes = [
+    44.3389, 44.0902, 44.1497, 43.6124, 44.3278, 44.8264, 45.0955, 45.4245, 45.8433, 46.0826,
+    45.8931, 46.0328, 45.6140, 46.2820, 46.2820, 46.0028, 46.0328, 46.4116, 46.2222, 45.6439,
+    46.2122, 46.2521, 45.7137, 46.4515, 45.7835, 45.3548, 44.0288, 44.1783, 44.2181, 44.5672,
+    43.4205, 42.6628, 43.1314,
+  ];
+  const rsi = rsiSeries(closes, 14);
+
+  check('Undefined until 14 changes', rsi.slice(0, 14).every((value) => value === undefined), true);
+  check('Aligned with the closes', rsi.length, closes.length);
+  check('RSI(14) values', round2(rsi.slice(14)), [
+    70.53, 66.32, 66.55, 69.41, 66.36, 57.97, 62.93, 63.26, 56.06, 62.38,
+    54.71, 50.42, 39.99, 41.46, 41.87, 45.46, 37.3, 33.08, 37.77,
+  ]);
+  check('Only gains reads 100', rsiSeries([1, 2, 3, 4, 5], 3)[4], 100);
+}
+
+console.log('\n🧪 Moving averages and MACD\n');
+{
+  check('SMA(3)', smaSeries([1, 2, 3, 4, 5], 3), [undefined, undefined, 2, 3, 4]);
+  check('EMA(3) seeded with the first SMA', emaSeries([1, 2, 3, 4, 5], 3), [undefined, undefined, 2, 3, 4]);
+
+  // On a straight line EMA(n) lags by (n - 1) / 2, so MACD(12, 26) = 12.5 - 5.5
+  const line = Array.from({ length: 60 }, (_, i) => i);
+  const macd = macdSeries(line);
+  check('MACD starts with the slow EMA', [macd.macd[24], macd.macd[25]], [undefined, 7]);
+  check('MACD on a straight line', macd.macd[59], 7);
+  check('Signal needs 9 MACD values', [macd.signal[32], macd.signal[33]], [undefined, 7]);
+  check('Histogram is MACD - signal', macd.histogram[59], 0);
+}
+
+console.log('\n🧪 Bollinger Bands\n');
+{
+  // Mean 5, population standard deviation 2
+  const bands = bollingerSeries([2, 4, 4, 4, 5, 5, 7, 9], 8, 2);
+  check('Middle band', bands.middle[7], 5);
+  check('Upper band', bands.upper[7], 9);
+  check('Lower band', bands.lower[7], 1);
+  check('%B at the upper band', bands.percentB[7], 1);
+  check('Bandwidth', bands.bandwidth[7], 1.6);
+  check('Flat window reads mid-band', bollingerSeries([3, 3, 3], 3).percentB[2], 0.5);
+}
+
+console.log('\n🧪 ATR and ADX (Wilder)\n');
+{
+  // True ranges from bar 1: 1, 1, 0.6 (inside day), 2 (gap up), 1.2 (gap fill)
+  const bars = [
+    bar(day(0), 10, 9, 9.5),
+    bar(day(1), 10.5, 9.5, 10),
+    bar(day(2), 11, 10, 10.8),
+    bar(day(3), 11.2, 10.6, 11),
+    bar(day(4), 13, 12, 12.5),
+    bar(day(5), 12.6, 11.4, 11.5),
+  ];
+  const atr = atrSeries(bars, 3);
+  check('ATR(3) undefined before a full window', atr.slice(0, 3), [undefined, undefined, undefined]);
+  check('ATR(3) seed skips the first bar', atr[3], 2.6 / 3);
+  check('ATR(3) after the gap', atr[4], 11.2 / 9);
+  check('ATR(3) Wilder smoothing', atr[5], 33.2 / 27);
+
+  // Every bar a higher high and a higher low: +DM 1, -DM 0, TR 1.5
+  const rising = Array.from({ length: 40 }, (_, i) => bar(day(i), i + 1, i, i + 0.5));
+  const adx = adxSeries(rising, 14);
+  check('+DI / -DI from bar 14', [adx.plusDI[13], adx.plusDI[14], adx.minusDI[14]], [undefined, 100 / 1.5, 0]);
+  check('ADX from bar 27', [adx.adx[26], adx.adx[27]], [undefined, 100]);
+  check('One-way trend holds ADX at 100', adx.adx[39], 100);
+}
+
+console.log('\n🧪 OBV, stochastic, VWAP and 52-week range\n');
+{
+  const bars = [
+    bar(day(0), 10, 8, 9, 100),
+    bar(day(1), 11, 9, 10, 300),
+    bar(day(2), 12, 10, 12, 200),
+    bar(day(3), 12, 9, 9, 400),
+    bar(day(4), 11, 9.5, 10.5, 500),
+  ];
+
+  check('OBV', obvSeries(bars), [0, 300, 500, 100, 600]);
+  check('OBV trend: net flow / volume over 4 bars', obvTrend(bars, 4), 600 / 1400);
+  check('OBV trend needs a full window', obvTrend(bars, 5), undefined);
+
+  const stochastic = stochasticSeries(bars, 3, 3);
+  check('%K(3)', stochastic.k, [undefined, undefined, 100, 0, 50]);
+  check('%D(3)', stochastic.d, [undefined, undefined, undefined, undefined, 50]);
+
+  const vwap = vwapSeries(bars, 2);
+  check('VWAP(2) typical-price weighted', vwap[1], (9 * 100 + 10 * 300) / 400);
+  check('VWAP(2) drops the oldest bar', vwap[2], (10 * 300 + (34 / 3) * 200) / 500);
+
+  const range = weekRange52(bars, 10.5);
+  check('52W high/low', [range?.high, range?.low], [12, 8]);
+  check('Distance from high', range?.distanceFromHigh, 10.5 / 12 - 1);
+  check('Distance from low', range?.distanceFromLow, 10.5 / 8 - 1);
+  check('Quote above the high reads 0%', weekRange52(bars, 13)?.distanceFromHigh, 0);
+
+  const year = Array.from({ length: 260 }, (_, i) => bar(day(i), i === 0 ? 1000 : 20, 10, 15));
+  check('Bars older than 252 sessions drop out', [weekRange52(year, 15, 251)?.high, weekRange52(year, 15, 252)?.high], [1000, 20]);
+
+  const shuffled = [bars[2], bars[0], bars[1]];
+  check('Sorted oldest first', sortBarsAscending(shuffled).map((b) => b.date), [day(0), day(1), day(2)]);
+  check('Input left as is', shuffled[0].date, day(2));
+}
+
+console.log('\n🧪 Return volatility\n');
+{
+  // Alternating +10% / -10%: 15 up and 14 down returns in the 29-return window
+  const closes = [100];
+  for (let i = 1; i < 40; i++) closes.push(closes[i - 1] * (i % 2 === 1 ? 1.1 : 0.9));
+  const mean = (15 * 0.1 - 14 * 0.1) / 29;
+
+  check('Undefined before 30 closes', dailyReturnVolatility(closes, 28), undefined);
+  check('Population std dev of 29 returns', dailyReturnVolatility(closes, 29), Math.sqrt(0.01 - mean * mean));
+
+  const gappy = closes.map((close, i) => (i % 3 === 0 ? 0 : close));
+  check('Too few valid returns', dailyReturnVolatility(gappy, 39), undefined);
+}
+
+console.log('\n' + '='.repeat(60));
+if (failures > 0) {
+  console.error(`❌ ${failures} check(s) failed`);
+  process.exit(1);
+}
+console.log('✅ All checks passed!');
@@ -0,0 +1,67 @@
+/**
+ * Market Calendar Checks
+ *
+ * Pins lib/shared/market-calendar.ts against known NYSE dates - weekend
+ * observance rules are where a calendar drifts. No API calls.
+ *
+ * Usage:
+ *   npx ts-node scripts/test/market-calendar.ts
+ */
+
+import {
+  getHoliday,
+  getNYSEHolidays,
+  isEarlyClose,
+  isTradingDay,
+  nextTradingDay,
+  previousTradingDay,
+  tradingDaysBetween,
+} from '../../lib/shared/market-calendar';
+
+let failures = 0;
+
+function check(label: string, actual: unknown, expected: unknown) {
+  const pass = JSON.stringify(actual) === JSON.stringify(expected);
+  if (!pass) failures++;
+  console.log(`${pass ? '✅' : '❌'} ${label}${pass ? '' : ` - expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`}`);
+}
+
+console.log('🧪 NYSE holidays\n');
+
+check('2026 holiday dates', getNYSEHolidays(2026).map((h) => h.date), [
+  '2026-01-01', '2026-01-19', '2026-02-16', '2026-04-03', '2026-05-25',
+  '2026-06-19', '2026-07-03', '2026-09-07', '2026-11-26', '2026-12-25',
+]);
+check('2026-04-03 is Good Friday', getHoliday('2026-04-03'), 'Good Friday');
+check('2026-04-03 is closed', isTradingDay('2026-04-03'), false);
+check('2026-07-03 (Fri) observes Saturday July 4', getHoliday('2026-07-03'), 'Independence Day');
+check('2026-07-03 is not an early close', isEarlyClose('2026-07-03'), false);
+check('2021-12-31 (Fri) is open - Saturday New Year is not observed', isTradingDay('2021-12-31'), true);
+check('2022 has no New Year holiday', getNYSEHolidays(2022).some((h) => h.name === "New Year's Day"), false);
+check('2023-01-02 (Mon) observes Sunday New Year', getHoliday('2023-01-02'), "New Year's Day");
+check('2027-06-18 (Fri) observes Saturday Juneteenth', getHoliday('2027-06-18'), 'Juneteenth');
+check('Juneteenth not a holiday before 2022', getHoliday('2021-06-18'), null);
+check('2026-11-27 is an early close', isEarlyClose('2026-11-27'), true);
+check('2026-12-24 is an early close', isEarlyClose('2026-12-24'), true);
+
+console.log('\n🧪 Trading days\n');
+
+check('Weekend is closed', isTradingDay('2026-04-04'), false);
+check('Date input uses the New York date', isTradingDay(new Date('2026-04-03T15:00:00Z')), false);
+check('Next trading day after Good Friday eve', nextTradingDay('2026-04-02'), '2026-04-06');
+check('Previous trading day before July 6', previousTradingDay('2026-07-06'), '2026-07-02');
+check('Same day', tradingDaysBetween('2026-04-02', '2026-04-02'), 0);
+check('Friday → Monday', tradingDaysBetween('2026-03-27', '2026-03-30'), 1);
+check('Across Good Friday', tradingDaysBetween('2026-04-02', '2026-04-06'), 1);
+check('Across observed July 3', tradingDaysBetween('2026-07-01', '2026-07-06'), 2);
+check('Across unobserved Saturday New Year', tradingDaysBetween('2021-12-30', '2022-01-03'), 2);
+check('Across Thanksgiving', tradingDaysBetween('2025-11-21', '2025-11-28'), 4);
+check('Reversed range is negative', tradingDaysBetween('2026-04-06', '2026-04-02'), -1);
+check('Full year 2026', tradingDaysBetween('2025-12-31', '2026-12-31'), 251);
+
+console.log('\n' + '='.repeat(60));
+if (failures > 0) {
+  console.error(`❌ ${failures} check(s) failed`);
+  process.exit(1);
+}
+console.log('✅ All checks passed!');
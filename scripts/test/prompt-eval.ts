@@ -0,0 +1,135 @@
+/**
+ * Prompt Evaluation Runner
+ *
+ * Runs recorded AnalysisContexts through registered prompt variants
+ * (lib/integrations/llm/prompts/registry.ts) on one model and prints a
+ * score per variant: required sections, output length, numeric
+ * consistency with the input metrics, and format rules.
+ *
+ * Every variant runs on the same provider with no fallback chain, so the
+ * prompt is the only difference. LLM calls are billed as usual.
+ *
+ * Record fixtures first with scripts/maintenance/record-prompt-fixture.ts.
+ *
+ * Usage:
+ *   npx ts-node scripts/test/prompt-eval.ts tests/fixtures/prompts/2025-11-20.json
+ *   npx ts-node scripts/test/prompt-eval.ts FIXTURE --variants=delta-first@1.0.8,claude@1.0.3 --repeat=3
+ *   npx ts-node scripts/test/prompt-eval.ts FIXTURE --provider=claude --model=claude-sonnet-4-5-20250929 --json=prompt-eval.json
+ */
+
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import { LLMFactory, LLMProviderType } from '../../lib/integrations/llm/factory';
+import { listPromptVariants } from '../../lib/integrations/llm/prompts/registry';
+import {
+  loadPromptEvalFixture,
+  runPromptEval,
+  PromptEvalOptions,
+  PromptEvalReport,
+} from '../../lib/integrations/llm/eval';
+
+// Load environment variables
+dotenv.config();
+
+function formatScore(value: number): string {
+  return value.toFixed(2).padStart(8);
+}
+
+function printReport(report: PromptEvalReport) {
+  console.log('='.repeat(60));
+  console.log(`Prompt evaluation: ${report.fixtures} context(s) on ${report.model}`);
+  console.log('='.repeat(60));
+
+  console.log(`\n${'Variant'.padEnd(22)} ${'Overall'.padStart(8)} ${'Sections'.padStart(8)} ${'Length'.padStart(8)} ${'Numeric'.padStart(8)} ${'Format'.padStart(8)}  Tokens   Cost`);
+  for (const v of report.variants) {
+    console.log(
+      `${v.variant.padEnd(22)} ${formatScore(v.overall)} ${formatScore(v.sections)} ${formatScore(v.length)} ${formatScore(v.numeric)} ${formatScore(v.format)}  ${String(v.avgOutputTokens).padStart(6)}  $${v.totalCost.toFixed(4)}` +
+        (v.failed > 0 ? `  (${v.failed}/${v.cases} failed)` : '')
+    );
+  }
+
+  console.log('\nIssues:');
+  let issues = 0;
+  for (const c of report.cases) {
+    const label = `${c.variant} ${c.ticker} #${c.run}`;
+    if (c.error) {
+      console.log(`  ✗ ${label}: ${c.error}`);
+      issues++;
+      continue;
+    }
+    const details = [
+      ...c.score!.sections.details,
+      ...c.score!.length.details,
+      ...c.score!.numeric.details.filter((d) => d !== 'no metrics quoted'),
+      ...c.score!.format.details,
+    ];
+    if (details.length > 0) {
+      console.log(`  • ${label}: ${details.join('; ')}`);
+      issues++;
+    }
+  }
+  if (issues === 0) console.log('  none');
+}
+
+const args = process.argv.slice(2);
+
+if (args.length === 0 || args[0].startsWith('--')) {
+  console.error('Usage: npx ts-node scripts/test/prompt-eval.ts FIXTURE [options]');
+  console.error('\nOptions:');
+  console.error(`  --variants=A,B        Prompt versions to compare (default: all - ${listPromptVariants().map((v) => v.id).join(', ')})`);
+  console.error('  --tickers=A,B,C       Subset of fixture tickers');
+  console.error('  --repeat=N            Runs per context per variant (default: 1)');
+  console.error('  --provider=TYPE       gemini, claude or openai (default: LLM_PROVIDER)');
+  console.error('  --model=NAME          Model (default: LLM_MODEL_NAME / provider default)');
+  console.error('  --json=PATH           Also write the full report (incl. outputs) as JSON');
+  process.exit(1);
+}
+
+const fixturePath = args[0];
+const options: PromptEvalOptions = {};
+let providerType = (process.env.LLM_PROVIDER || 'gemini') as LLMProviderType;
+let modelName = process.env.LLM_MODEL_NAME;
+let jsonPath: string | null = null;
+
+// Parse options
+for (let i = 1; i < args.length; i++) {
+  const arg = args[i];
+
+  if (arg.startsWith('--variants=')) {
+    options.variants = arg.split('=')[1].split(',').map((v) => v.trim()).filter(Boolean);
+  } else if (arg.startsWith('--tickers=')) {
+    options.tickers = arg.split('=')[1].split(',').map((t) => t.trim()).filter(Boolean);
+  } else if (arg.startsWith('--repeat=')) {
+    options.repeat = parseInt(arg.split('=')[1], 10);
+  } else if (arg.startsWith('--provider=')) {
+    const parsed = LLMFactory.parseProviderType(arg.split('=')[1]);
+    if (!parsed) {
+      console.error(`❌ Unknown provider: ${arg.split('=')[1]}`);
+      process.exit(1);
+    }
+    providerType = parsed;
+    modelName = undefined;
+  } else if (arg.startsWith('--model=')) {
+    modelName = arg.split('=')[1];
+  } else if (arg.startsWith('--json=')) {
+    jsonPath = arg.split('=')[1];
+    options.keepContent = true;
+  }
+}
+
+async function main() {
+  const fixture = loadPromptEvalFixture(fixturePath);
+  const provider = LLMFactory.createProvider(providerType, modelName);
+  const report = await runPromptEval(fixture, provider, options);
+  printReport(report);
+
+  if (jsonPath) {
+    fs.writeFileSync(jsonPath, JSON.stringify(report, null, 2));
+    console.log(`\n💾 Full report written to ${jsonPath}`);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Prompt evaluation failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});